@@ -5,7 +5,12 @@
  * - Target file/symbol selection
  * - Dependency expansion
  * - Priority-based filtering
- * - Token budget fitting
+ * - Token budget packing with progressive disclosure
+ *
+ * Targets are included in full, direct dependencies at summary level and the
+ * wider import neighbourhood at signature level. When the selection exceeds
+ * the budget, the least relevant files are downgraded a level at a time and
+ * only dropped once nothing is left to downgrade.
  */
 
 import {
@@ -13,15 +18,18 @@ import {
   ISemanticIndexService,
   IFileSystem,
   ITokenBudgetService,
+  IProgressiveDisclosureService,
   ContextRequest,
+  SimpleContextRequest,
   ContextSelection,
+  ContextItem,
   SelectedFile,
   SelectedSymbol,
   SelectionExplanation,
   SelectionStats,
   DisclosureLevel,
+  FileDisclosure,
   RelativePath,
-  TokenCount,
   FilePath,
   AsyncResult,
   Ok,
@@ -30,6 +38,7 @@ import {
   AppError,
   toTokenCount,
   toRelativePath,
+  DEFAULT_SELECTION_STRATEGY,
 } from '../types';
 
 /** Priority calculation for files/symbols */
@@ -37,8 +46,27 @@ interface PriorityItem {
   path: RelativePath;
   priority: number;
   reason: string;
+  /** Level the file's relation to the task calls for */
+  level: DisclosureLevel;
+}
+
+/** Candidate being packed into the budget */
+interface PackedItem {
+  candidate: PriorityItem;
+  disclosure: FileDisclosure;
+  level: DisclosureLevel;
 }
 
+/** Next level down when a file has to shrink */
+const DOWNGRADE: Record<DisclosureLevel, DisclosureLevel | null> = {
+  full: 'summary',
+  summary: 'signature',
+  signature: null,
+};
+
+/** Extensions tried when resolving a relative import */
+const IMPORT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.js', ''];
+
 /**
  * Context Selector Service implementation
  */
@@ -46,6 +74,7 @@ export class ContextSelectorService implements IContextSelectorService {
   private readonly semanticIndex: ISemanticIndexService;
   private readonly fileSystem: IFileSystem;
   private readonly tokenBudget: ITokenBudgetService;
+  private readonly disclosure: IProgressiveDisclosureService;
   private readonly projectRoot: FilePath;
   private readonly logger?: ILogger;
 
@@ -53,26 +82,28 @@ export class ContextSelectorService implements IContextSelectorService {
     semanticIndex: ISemanticIndexService,
     fileSystem: IFileSystem,
     tokenBudget: ITokenBudgetService,
+    disclosure: IProgressiveDisclosureService,
     projectRoot: FilePath,
     logger?: ILogger
   ) {
     this.semanticIndex = semanticIndex;
     this.fileSystem = fileSystem;
     this.tokenBudget = tokenBudget;
+    this.disclosure = disclosure;
     this.projectRoot = projectRoot;
     this.logger = logger?.child('ContextSelectorService');
   }
 
-  async select(request: ContextRequest): AsyncResult<ContextSelection> {
+  async select(request: ContextRequest | SimpleContextRequest): AsyncResult<ContextSelection> {
     try {
+      const { task, budget, strategy } = this.toContextRequest(request);
+      const { limits, priorities, expand } = strategy;
+
       this.logger?.info('Selecting context', {
-        targets: request.task.targets.length,
-        symbols: request.task.symbols.length,
+        targets: task.targets.length,
+        symbols: task.symbols.length,
       });
 
-      const { task, budget, strategy } = request;
-      const { limits, priorities, expand } = strategy;
-
       // Step 1: Build initial candidate list from targets
       const candidates = this.buildCandidateList(task, priorities);
 
@@ -83,63 +114,53 @@ export class ContextSelectorService implements IContextSelectorService {
       const sorted = expanded.sort((a, b) => b.priority - a.priority);
       const filtered = sorted.slice(0, limits.maxFiles);
 
-      // Step 4: Load content and fit to budget
-      const selectedFiles: SelectedFile[] = [];
-      const selectedSymbols: SelectedSymbol[] = [];
-      let totalTokens = toTokenCount(0);
-      const selectionReasons = new Map<string, string>();
+      // Step 4: Generate disclosure levels and pack them into the budget
       const maxTokens = budget.context as number;
-
+      const loaded: PackedItem[] = [];
       for (const candidate of filtered) {
-        // Check if we're within budget
-        if ((totalTokens as number) >= maxTokens) {
-          break;
+        const disclosureResult = await this.disclosure.generateLevels(candidate.path);
+        if (!disclosureResult.ok) {
+          this.logger?.debug('Failed to load file', { path: candidate.path, error: disclosureResult.error });
+          continue;
         }
+        loaded.push({ candidate, disclosure: disclosureResult.value, level: candidate.level });
+      }
 
-        try {
-          const fullPath = this.fileSystem.join(this.projectRoot as string, candidate.path as string);
-          const content = await this.fileSystem.readFile(fullPath);
-          const tokens = this.tokenBudget.countTokens(content);
-
-          // Determine disclosure level based on remaining budget
-          const remaining = maxTokens - (totalTokens as number);
-          const level = this.determineDisclosureLevel(tokens as number, remaining);
-
-          // Get content at disclosure level
-          const { levelContent, levelTokens } = this.getContentAtLevel(content, level);
-
-          // Check if it fits
-          if ((totalTokens as number) + (levelTokens as number) <= maxTokens) {
-            selectedFiles.push({
-              path: candidate.path,
-              content: levelContent,
-              tokens: levelTokens,
-              relevance: candidate.priority,
-              reason: candidate.reason,
-              level,
-            });
+      const packed = this.packToBudget(loaded, maxTokens);
+      const selectedFiles: SelectedFile[] = packed.map(({ candidate, disclosure, level }) => ({
+        path: candidate.path,
+        content: disclosure.levels[level].content,
+        tokens: disclosure.levels[level].tokens,
+        relevance: candidate.priority,
+        reason: candidate.reason,
+        level,
+        downgradedFrom: level !== candidate.level ? candidate.level : undefined,
+      }));
 
-            totalTokens = toTokenCount((totalTokens as number) + (levelTokens as number));
-            selectionReasons.set(candidate.path as string, candidate.reason);
-          }
-        } catch (error) {
-          this.logger?.debug('Failed to load file', { path: candidate.path, error });
-        }
+      const selectedSymbols: SelectedSymbol[] = [];
+      const selectionReasons = new Map<string, string>();
+      let totalTokens = this.sumTokens(packed);
+      for (const file of selectedFiles) {
+        selectionReasons.set(file.path as string, file.reason);
       }
 
       // Step 5: Add symbols if budget permits
       for (const symbolName of task.symbols) {
-        if ((totalTokens as number) >= maxTokens) break;
+        if (totalTokens >= maxTokens) {
+          break;
+        }
 
         const symbols = this.semanticIndex.findSymbol(symbolName);
         for (const symbol of symbols.slice(0, limits.maxSymbolsPerFile)) {
-          if (selectedSymbols.length >= limits.maxTotalSymbols) break;
+          if (selectedSymbols.length >= limits.maxTotalSymbols) {
+            break;
+          }
 
           // Format symbol for context
           const formatted = this.formatSymbol(symbol);
           const tokens = this.tokenBudget.countTokens(formatted);
 
-          if ((totalTokens as number) + (tokens as number) <= maxTokens) {
+          if (totalTokens + (tokens as number) <= maxTokens) {
             selectedSymbols.push({
               name: symbol.name,
               file: symbol.location.file as unknown as RelativePath,
@@ -149,31 +170,34 @@ export class ContextSelectorService implements IContextSelectorService {
               reason: 'Directly requested symbol',
             });
 
-            totalTokens = toTokenCount((totalTokens as number) + (tokens as number));
+            totalTokens += tokens as number;
             selectionReasons.set(`${symbol.location.file}:${symbol.name}`, 'Requested symbol');
           }
         }
       }
 
       const stats: SelectionStats = {
-        filesConsidered: candidates.length,
+        filesConsidered: expanded.length,
         filesSelected: selectedFiles.length,
         symbolsConsidered: task.symbols.length,
         symbolsSelected: selectedSymbols.length,
-        tokensUsed: totalTokens,
+        tokensUsed: toTokenCount(totalTokens),
         tokensAvailable: budget.context,
-        compressionRatio:
-          candidates.length > 0
-            ? selectedFiles.length / candidates.length
-            : 1,
+        compressionRatio: this.compressionRatio(packed),
       };
 
+      const items: ContextItem[] = [
+        ...selectedFiles.map((f) => ({ type: 'file', path: f.path as string, content: f.content })),
+        ...selectedSymbols.map((s) => ({ type: 'symbol', path: s.file as string, content: s.content })),
+      ];
+
       const selection: ContextSelection = {
         files: selectedFiles,
         symbols: selectedSymbols,
-        totalTokens,
+        totalTokens: toTokenCount(totalTokens),
         selectionReasons,
         stats,
+        items,
       };
 
       this.logger?.info('Context selected', stats);
@@ -189,9 +213,14 @@ export class ContextSelectorService implements IContextSelectorService {
   explainSelection(selection: ContextSelection): SelectionExplanation {
     const perFile = new Map<RelativePath, string>();
     const perSymbol = new Map<string, string>();
+    const levelCounts: Record<DisclosureLevel, number> = { full: 0, summary: 0, signature: 0 };
 
     for (const file of selection.files) {
-      perFile.set(file.path, file.reason);
+      levelCounts[file.level]++;
+      const downgrade = file.downgradedFrom
+        ? `; downgraded from ${file.downgradedFrom} to fit the token budget`
+        : '';
+      perFile.set(file.path, `${file.level}: ${file.reason}${downgrade}`);
     }
 
     for (const symbol of selection.symbols) {
@@ -199,7 +228,9 @@ export class ContextSelectorService implements IContextSelectorService {
     }
 
     const summary = [
-      `Selected ${selection.files.length} files and ${selection.symbols.length} symbols.`,
+      `Selected ${selection.files.length} files ` +
+        `(${levelCounts.full} full, ${levelCounts.summary} summary, ${levelCounts.signature} signature) ` +
+        `and ${selection.symbols.length} symbols.`,
       `Total tokens: ${selection.totalTokens}`,
       `Compression ratio: ${(selection.stats.compressionRatio * 100).toFixed(1)}%`,
     ].join(' ');
@@ -211,6 +242,89 @@ export class ContextSelectorService implements IContextSelectorService {
     };
   }
 
+  /**
+   * Normalize a simple request into a full context request
+   */
+  private toContextRequest(request: ContextRequest | SimpleContextRequest): ContextRequest {
+    if ('task' in request) {
+      return request;
+    }
+
+    const context = toTokenCount(request.budget);
+    return {
+      task: {
+        intent: request.query,
+        targets: (request.priorityFiles ?? []).map(toRelativePath),
+        symbols: [],
+        keywords: [],
+      },
+      budget: {
+        total: context,
+        system: toTokenCount(0),
+        context,
+        history: toTokenCount(0),
+        reserved: toTokenCount(0),
+      },
+      strategy: DEFAULT_SELECTION_STRATEGY,
+    };
+  }
+
+  /**
+   * Downgrade the least relevant files until the selection fits, dropping
+   * files only once none of the remaining ones can shrink any further
+   */
+  private packToBudget(items: PackedItem[], maxTokens: number): PackedItem[] {
+    const packed = items.map((item) => ({ ...item }));
+    let total = this.sumTokens(packed);
+
+    while (total > maxTokens && packed.length > 0) {
+      let index = packed.length - 1;
+      while (index >= 0 && this.smallerLevel(packed[index]!) === null) {
+        index--;
+      }
+
+      if (index >= 0) {
+        const item = packed[index]!;
+        item.level = this.smallerLevel(item)!;
+      } else {
+        const dropped = packed.pop()!;
+        this.logger?.debug('Dropped file from context', { path: dropped.candidate.path });
+      }
+
+      total = this.sumTokens(packed);
+    }
+
+    return packed;
+  }
+
+  /**
+   * Next level down that actually takes fewer tokens than the current one
+   */
+  private smallerLevel(item: PackedItem): DisclosureLevel | null {
+    const current = item.disclosure.levels[item.level].tokens as number;
+    for (let level = DOWNGRADE[item.level]; level !== null; level = DOWNGRADE[level]) {
+      if ((item.disclosure.levels[level].tokens as number) < current) {
+        return level;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Total tokens of packed files at their current levels
+   */
+  private sumTokens(items: PackedItem[]): number {
+    return items.reduce((sum, item) => sum + (item.disclosure.levels[item.level].tokens as number), 0);
+  }
+
+  /**
+   * Ratio of packed tokens to the tokens of the same files in full
+   */
+  private compressionRatio(items: PackedItem[]): number {
+    const full = items.reduce((sum, item) => sum + (item.disclosure.levels.full.tokens as number), 0);
+    return full > 0 ? this.sumTokens(items) / full : 1;
+  }
+
   /**
    * Build initial candidate list from task targets
    */
@@ -226,6 +340,7 @@ export class ContextSelectorService implements IContextSelectorService {
         path: target,
         priority: priorities.directTargets,
         reason: 'Direct target',
+        level: 'full',
       });
     }
 
@@ -240,6 +355,7 @@ export class ContextSelectorService implements IContextSelectorService {
             path: symbolPath,
             priority: priorities.directTargets * 0.9,
             reason: `Contains symbol: ${symbolName}`,
+            level: 'full',
           });
         }
       }
@@ -263,7 +379,7 @@ export class ContextSelectorService implements IContextSelectorService {
       result.set(item.path as string, item);
     }
 
-    // BFS expansion
+    // BFS expansion; only the targets' own imports count as direct dependencies
     let frontier = initial;
     let depth = 0;
 
@@ -277,12 +393,13 @@ export class ContextSelectorService implements IContextSelectorService {
           const imports = this.semanticIndex.getImports(item.path);
           for (const imp of imports) {
             if (imp.source.startsWith('.')) {
-              const resolved = this.resolveRelativeImport(item.path, imp.source);
+              const resolved = await this.resolveRelativeImport(item.path, imp.source);
               if (resolved && !result.has(resolved as string)) {
                 const newItem: PriorityItem = {
                   path: resolved,
                   priority: item.priority * depthPenalty * 0.8,
                   reason: `Imported by ${item.path}`,
+                  level: depth === 0 ? 'summary' : 'signature',
                 };
                 result.set(resolved as string, newItem);
                 nextFrontier.push(newItem);
@@ -299,6 +416,7 @@ export class ContextSelectorService implements IContextSelectorService {
               path: testPath,
               priority: item.priority * depthPenalty * 0.6,
               reason: `Test for ${item.path}`,
+              level: 'signature',
             };
             result.set(testPath as string, newItem);
             nextFrontier.push(newItem);
@@ -314,20 +432,18 @@ export class ContextSelectorService implements IContextSelectorService {
   }
 
   /**
-   * Resolve relative import path
+   * Resolve relative import path to an existing project file
    */
-  private resolveRelativeImport(from: RelativePath, importPath: string): RelativePath | null {
+  private async resolveRelativeImport(from: RelativePath, importPath: string): Promise<RelativePath | null> {
     try {
-      const fromDir = this.fileSystem.dirname(from as unknown as FilePath);
+      const fromDir = this.fileSystem.dirname(this.fileSystem.join(this.projectRoot as string, from as string));
       const resolved = this.fileSystem.join(fromDir as string, importPath);
 
-      // Try with extensions
-      for (const ext of ['.ts', '.tsx', '.js', '.jsx', '']) {
-        const withExt = ext ? `${resolved}${ext}` : resolved;
-        // Note: Can't async check here, return best guess
-        return toRelativePath(
-          this.fileSystem.relative(this.projectRoot, withExt as FilePath) as string
-        );
+      for (const ext of IMPORT_EXTENSIONS) {
+        const withExt = `${resolved}${ext}` as FilePath;
+        if (await this.fileSystem.exists(withExt)) {
+          return this.fileSystem.relative(this.projectRoot, withExt);
+        }
       }
     } catch {
       return null;
@@ -360,111 +476,6 @@ export class ContextSelectorService implements IContextSelectorService {
     return null;
   }
 
-  /**
-   * Determine disclosure level based on budget
-   */
-  private determineDisclosureLevel(tokens: number, remaining: number): DisclosureLevel {
-    if (tokens <= remaining * 0.3) {
-      return 'full';
-    } else if (tokens * 0.3 <= remaining) {
-      return 'summary';
-    } else {
-      return 'signature';
-    }
-  }
-
-  /**
-   * Get content at a specific disclosure level
-   */
-  private getContentAtLevel(
-    content: string,
-    level: DisclosureLevel
-  ): { levelContent: string; levelTokens: TokenCount } {
-    switch (level) {
-      case 'full':
-        return {
-          levelContent: content,
-          levelTokens: this.tokenBudget.countTokens(content),
-        };
-
-      case 'summary': {
-        // Extract key parts: imports, exports, function/class signatures
-        const lines = content.split('\n');
-        const summary: string[] = [];
-        let inMultilineComment = false;
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-
-          // Track multiline comments
-          if (trimmed.startsWith('/*')) inMultilineComment = true;
-          if (trimmed.endsWith('*/')) {
-            inMultilineComment = false;
-            continue;
-          }
-          if (inMultilineComment) continue;
-
-          // Include imports
-          if (trimmed.startsWith('import ')) {
-            summary.push(line);
-            continue;
-          }
-
-          // Include exports
-          if (trimmed.startsWith('export ')) {
-            summary.push(line);
-            // Don't include body
-            if (!trimmed.includes('{') || trimmed.includes('from')) {
-              continue;
-            }
-          }
-
-          // Include function/class declarations (just the signature)
-          if (
-            trimmed.match(/^(export\s+)?(async\s+)?function\s+\w+/) ||
-            trimmed.match(/^(export\s+)?class\s+\w+/) ||
-            trimmed.match(/^(export\s+)?interface\s+\w+/) ||
-            trimmed.match(/^(export\s+)?type\s+\w+/)
-          ) {
-            summary.push(line);
-            // Add just the signature, not the body
-            if (trimmed.includes('{') && !trimmed.includes('}')) {
-              summary.push('  // ... implementation');
-              summary.push('}');
-            }
-          }
-        }
-
-        const levelContent = summary.join('\n');
-        return {
-          levelContent,
-          levelTokens: this.tokenBudget.countTokens(levelContent),
-        };
-      }
-
-      case 'signature': {
-        // Extract only export signatures
-        const lines = content.split('\n');
-        const signatures: string[] = [];
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-
-          if (trimmed.startsWith('export ')) {
-            // Get just the first line of the export
-            signatures.push(line);
-          }
-        }
-
-        const levelContent = signatures.join('\n');
-        return {
-          levelContent,
-          levelTokens: this.tokenBudget.countTokens(levelContent),
-        };
-      }
-    }
-  }
-
   /**
    * Format a symbol for context
    */
@@ -521,6 +532,7 @@ export function createContextSelectorService(
   semanticIndex: ISemanticIndexService,
   fileSystem: IFileSystem,
   tokenBudget: ITokenBudgetService,
+  disclosure: IProgressiveDisclosureService,
   projectRoot: FilePath,
   logger?: ILogger
 ): IContextSelectorService {
@@ -528,6 +540,7 @@ export function createContextSelectorService(
     semanticIndex,
     fileSystem,
     tokenBudget,
+    disclosure,
     projectRoot,
     logger
   );
@@ -3,12 +3,16 @@
  *
  * Manages token allocation and counting for LLM requests:
  * - Budget allocation across system, context, history
- * - Token counting (approximation)
+ * - Token counting with the target model's tokenizer, cached per content hash
+ * - Calibration of counts against the usage providers report
  * - Budget validation
  */
 
+import * as crypto from 'crypto';
 import {
   ITokenBudgetService,
+  ITokenizer,
+  TokenizerFamily,
   TokenBudget,
   BudgetCheck,
   ContextRequest,
@@ -16,6 +20,7 @@ import {
   ILogger,
   toTokenCount,
 } from '../types';
+import { createTokenizer, tokenizerFamilyFor } from '../utils/Tokenizer';
 
 /** Default budget proportions */
 const DEFAULT_PROPORTIONS = {
@@ -26,19 +31,51 @@ const DEFAULT_PROPORTIONS = {
 };
 
 /** Token estimation constants */
-const CHARS_PER_TOKEN = 4; // Average for English text
 const TOKENS_PER_LINE = 10; // Average tokens per line of code
 
+/** Counted texts kept in the cache */
+const DEFAULT_CACHE_SIZE = 1000;
+
+/** Calibration: smallest weight of a new usage sample, and accepted actual/estimated ratios */
+const MIN_CALIBRATION_WEIGHT = 0.1;
+const MIN_CALIBRATION_RATIO = 0.5;
+const MAX_CALIBRATION_RATIO = 2;
+
+/** Correction of a tokenizer's counts learned from provider usage */
+interface Calibration {
+  ratio: number;
+  samples: number;
+}
+
 /**
  * Token Budget Service implementation
  */
 export class TokenBudgetService implements ITokenBudgetService {
   private readonly logger?: ILogger;
   private readonly proportions: typeof DEFAULT_PROPORTIONS;
-
-  constructor(logger?: ILogger, proportions?: Partial<typeof DEFAULT_PROPORTIONS>) {
+  private readonly tokenizers: Map<TokenizerFamily, ITokenizer>;
+  private readonly calibrations: Map<TokenizerFamily, Calibration> = new Map();
+  private readonly counts: Map<string, number> = new Map();
+  private readonly cacheSize: number;
+
+  constructor(
+    logger?: ILogger,
+    proportions?: Partial<typeof DEFAULT_PROPORTIONS>,
+    options?: {
+      /** Tokenizers replacing the offline ones of their families */
+      tokenizers?: ITokenizer[];
+      cacheSize?: number;
+    }
+  ) {
     this.logger = logger?.child('TokenBudgetService');
     this.proportions = { ...DEFAULT_PROPORTIONS, ...proportions };
+    this.tokenizers = new Map(
+      (['openai', 'claude'] as const).map((family) => [family, createTokenizer(family)])
+    );
+    for (const tokenizer of options?.tokenizers ?? []) {
+      this.tokenizers.set(tokenizer.family, tokenizer);
+    }
+    this.cacheSize = options?.cacheSize ?? DEFAULT_CACHE_SIZE;
   }
 
   allocate(total: TokenCount): TokenBudget {
@@ -76,15 +113,46 @@ export class TokenBudgetService implements ITokenBudgetService {
     return check;
   }
 
-  countTokens(text: string): TokenCount {
+  countTokens(text: string, model?: string): TokenCount {
     if (!text) return toTokenCount(0);
 
-    // Use character-based estimation
-    // This is an approximation; real token count depends on the tokenizer
-    const charCount = text.length;
-    const estimatedTokens = Math.ceil(charCount / CHARS_PER_TOKEN);
+    const family = tokenizerFamilyFor(model);
+    const ratio = this.calibrations.get(family)?.ratio ?? 1;
+
+    return toTokenCount(Math.ceil(this.countRaw(text, family) * ratio));
+  }
+
+  calibrate(text: string, actualTokens: number, model?: string): void {
+    const family = tokenizerFamilyFor(model);
+    const estimated = text ? this.countRaw(text, family) : 0;
+    if (estimated === 0 || actualTokens <= 0) {
+      return;
+    }
+
+    // Usage that includes much more than the text (tool definitions, cached prompts) is not a sample
+    const sample = actualTokens / estimated;
+    if (sample < MIN_CALIBRATION_RATIO || sample > MAX_CALIBRATION_RATIO) {
+      return;
+    }
+
+    const current = this.calibrations.get(family) ?? { ratio: 1, samples: 0 };
+    const weight = Math.max(1 / (current.samples + 1), MIN_CALIBRATION_WEIGHT);
+    const calibration = {
+      ratio: current.ratio + (sample - current.ratio) * weight,
+      samples: current.samples + 1,
+    };
+    this.calibrations.set(family, calibration);
 
-    return toTokenCount(estimatedTokens);
+    this.logger?.debug('Tokenizer calibrated', { family, estimated, actualTokens, ...calibration });
+  }
+
+  /**
+   * Replace the tokenizer of a family, e.g. with an exact BPE implementation
+   */
+  registerTokenizer(tokenizer: ITokenizer): void {
+    this.tokenizers.set(tokenizer.family, tokenizer);
+    this.calibrations.delete(tokenizer.family);
+    this.counts.clear();
   }
 
   estimateTokens(request: ContextRequest): TokenCount {
@@ -108,6 +176,27 @@ export class TokenBudgetService implements ITokenBudgetService {
     return toTokenCount(capped);
   }
 
+  /**
+   * Uncalibrated count of a family's tokenizer, cached per content hash
+   */
+  private countRaw(text: string, family: TokenizerFamily): number {
+    const key = `${family}:${crypto.createHash('sha1').update(text).digest('hex')}`;
+    const cached = this.counts.get(key);
+    if (cached !== undefined) {
+      // Re-insert to keep recently used counts last in eviction order
+      this.counts.delete(key);
+      this.counts.set(key, cached);
+      return cached;
+    }
+
+    const count = (this.tokenizers.get(family) as ITokenizer).count(text);
+    this.counts.set(key, count);
+    if (this.counts.size > this.cacheSize) {
+      this.counts.delete(this.counts.keys().next().value as string);
+    }
+    return count;
+  }
+
   /**
    * Get multiplier based on disclosure level in strategy
    */
@@ -160,14 +249,8 @@ export class TokenBudgetService implements ITokenBudgetService {
   /**
    * Estimate tokens for code content
    */
-  estimateCodeTokens(code: string): TokenCount {
-    if (!code) return toTokenCount(0);
-
-    // Code typically has more tokens per character due to syntax
-    const lines = code.split('\n').length;
-    const estimatedTokens = lines * TOKENS_PER_LINE;
-
-    return toTokenCount(estimatedTokens);
+  estimateCodeTokens(code: string, model?: string): TokenCount {
+    return this.countTokens(code, model);
   }
 
   /**
@@ -201,7 +284,11 @@ interface TokenUsage {
  */
 export function createTokenBudgetService(
   logger?: ILogger,
-  proportions?: Partial<typeof DEFAULT_PROPORTIONS>
+  proportions?: Partial<typeof DEFAULT_PROPORTIONS>,
+  options?: {
+    tokenizers?: ITokenizer[];
+    cacheSize?: number;
+  }
 ): ITokenBudgetService {
-  return new TokenBudgetService(logger, proportions);
+  return new TokenBudgetService(logger, proportions, options);
 }
@@ -15,6 +15,10 @@ import {
   IFileSystem,
   ICache,
   IDatabase,
+  IStorageManager,
+  IBlobStore,
+  IExecutionStore,
+  IChatStore,
   IConfigManager,
   IProjectSnapshotService,
   ISemanticIndexService,
@@ -28,11 +32,15 @@ import {
   ISymbolResolverService,
   IAPICheckerService,
   IDependencyVerifierService,
+  ITypeCheckerService,
+  ITestRunnerService,
   IVerificationPipelineService,
   IIntentParserService,
   IScopeGuardService,
   IPreflightCheckerService,
   IRollbackService,
+  IMissionGitService,
+  MissionPullRequest,
   IImpactAnalyzerService,
   ITaskManager,
   IAgentPool,
@@ -53,19 +61,58 @@ import {
   MissionConfig,
   ExecutionPlan,
   ExecutionResult,
+  MissionResumeMode,
   UserIntent,
   FilePath,
   MissionId,
+  TaskDependency,
+  TaskPriority,
   AsyncResult,
   Ok,
   Err,
   AppError,
   CancellationToken,
+  RateLimitError,
   toFilePath,
+  toTaskId,
+  toTokenCount,
   ServiceToken,
 } from '../types';
 
+import type {
+  HierarchyLevel,
+  LLMMessage,
+  LLMToolResult,
+  LLMRequest,
+  LLMResponse,
+  Result,
+  ToolCall,
+  ToolDefinition,
+} from '../types';
 import { createServiceToken } from '../infrastructure';
+import { AGENT_LOOP_LIMITS } from './streaming';
+import { ChatSession, createChatSession } from './ChatSession';
+import { ChatHistory, createChatHistory } from './ChatHistory';
+import type { StreamChunk, StreamMessageOptions } from './streaming';
+import {
+  ToolRegistry,
+  ToolExecutor,
+  createToolRegistry,
+  createToolExecutor,
+  registerFileTools,
+  registerCommandTools,
+  registerCodeTools,
+} from './tools';
+import type { ToolContext, ToolResult } from './tools';
+
+/** Provider chat usage is attributed to when the adapter does not route by provider */
+const DEFAULT_CHAT_PROVIDER = 'claude';
+
+/** Hierarchy level chat messages are routed at when none is configured */
+const DEFAULT_CHAT_LEVEL: HierarchyLevel = 'lord';
+
+/** Context window assumed when the config does not set maxContextTokens */
+const DEFAULT_MAX_CONTEXT_TOKENS = 128000;
 
 // Service tokens for DI
 export const SERVICE_TOKENS = {
@@ -74,6 +121,10 @@ export const SERVICE_TOKENS = {
   FileSystem: createServiceToken<IFileSystem>('FileSystem'),
   Cache: createServiceToken<ICache>('Cache'),
   Database: createServiceToken<IDatabase>('Database'),
+  StorageManager: createServiceToken<IStorageManager>('StorageManager'),
+  BlobStore: createServiceToken<IBlobStore>('BlobStore'),
+  ExecutionStore: createServiceToken<IExecutionStore>('ExecutionStore'),
+  ChatStore: createServiceToken<IChatStore>('ChatStore'),
   ConfigManager: createServiceToken<IConfigManager>('ConfigManager'),
   ProjectSnapshot: createServiceToken<IProjectSnapshotService>('ProjectSnapshot'),
   SemanticIndex: createServiceToken<ISemanticIndexService>('SemanticIndex'),
@@ -87,11 +138,14 @@ export const SERVICE_TOKENS = {
   SymbolResolver: createServiceToken<ISymbolResolverService>('SymbolResolver'),
   APIChecker: createServiceToken<IAPICheckerService>('APIChecker'),
   DependencyVerifier: createServiceToken<IDependencyVerifierService>('DependencyVerifier'),
+  TypeChecker: createServiceToken<ITypeCheckerService>('TypeChecker'),
+  TestRunner: createServiceToken<ITestRunnerService>('TestRunner'),
   VerificationPipeline: createServiceToken<IVerificationPipelineService>('VerificationPipeline'),
   IntentParser: createServiceToken<IIntentParserService>('IntentParser'),
   ScopeGuard: createServiceToken<IScopeGuardService>('ScopeGuard'),
   PreflightChecker: createServiceToken<IPreflightCheckerService>('PreflightChecker'),
   Rollback: createServiceToken<IRollbackService>('Rollback'),
+  MissionGit: createServiceToken<IMissionGitService>('MissionGit'),
   ImpactAnalyzer: createServiceToken<IImpactAnalyzerService>('ImpactAnalyzer'),
   TaskManager: createServiceToken<ITaskManager>('TaskManager'),
   AgentPool: createServiceToken<IAgentPool>('AgentPool'),
@@ -132,16 +186,47 @@ export class AlterCodeCore {
   private approvalService?: IApprovalService;
   private branchService?: IVirtualBranchService;
   private mergeEngine?: IMergeEngineService;
+  private storageManager?: IStorageManager;
+  private rollbackService?: IRollbackService;
+  private performanceMonitor?: IPerformanceMonitor;
+  private missionGit?: IMissionGitService;
+
+  // Tools available to the chat tool-use loop
+  private readonly toolRegistry: ToolRegistry;
+  private readonly toolExecutor: ToolExecutor;
 
   // State
   private initialized: boolean = false;
   private currentMission: Mission | null = null;
+  private interruptedMissions: Mission[] = [];
+  private missionsPersisted: boolean = false;
 
   constructor(container: IServiceContainer, config: AlterCodeConfig) {
     this.container = container;
     this.config = config;
     this.logger = container.resolve(SERVICE_TOKENS.Logger);
     this.eventBus = container.resolve(SERVICE_TOKENS.EventBus);
+
+    this.toolRegistry = createToolRegistry();
+    registerFileTools(this.toolRegistry, container.resolve(SERVICE_TOKENS.FileSystem), {
+      scopeGuard: container.resolve(SERVICE_TOKENS.ScopeGuard),
+    });
+    registerCommandTools(this.toolRegistry, {
+      policy: config.commands,
+      maxOutputChars: AGENT_LOOP_LIMITS.maxToolResultChars,
+    });
+    registerCodeTools(
+      this.toolRegistry,
+      container.resolve(SERVICE_TOKENS.SemanticIndex),
+      container.resolve(SERVICE_TOKENS.TypeChecker)
+    );
+    this.toolExecutor = createToolExecutor({
+      registry: this.toolRegistry,
+      eventBus: this.eventBus,
+      logger: this.logger,
+      // Without an approval handler, tools that modify the workspace are refused
+      defaultApprovalHandler: () => Promise.resolve(false),
+    });
   }
 
   /**
@@ -200,6 +285,70 @@ export class AlterCodeCore {
         this.logger.debug('MergeEngine service not available');
       }
 
+      try {
+        this.storageManager = this.container.resolve(SERVICE_TOKENS.StorageManager);
+        this.logger.debug('StorageManager resolved');
+      } catch {
+        this.logger.debug('StorageManager not available');
+      }
+
+      try {
+        this.rollbackService = this.container.resolve(SERVICE_TOKENS.Rollback);
+        this.logger.debug('Rollback service resolved');
+      } catch {
+        this.logger.debug('Rollback service not available');
+      }
+
+      try {
+        this.performanceMonitor = this.container.resolve(SERVICE_TOKENS.PerformanceMonitor);
+        this.logger.debug('Performance monitor resolved');
+      } catch {
+        this.logger.debug('Performance monitor not available');
+      }
+
+      try {
+        this.missionGit = this.container.resolve(SERVICE_TOKENS.MissionGit);
+        this.logger.debug('Mission git service resolved');
+      } catch {
+        this.logger.debug('Mission git service not available');
+      }
+
+      // Open the database and create its schema
+      if (this.storageManager) {
+        const storageResult = await this.storageManager.initialize();
+        if (!storageResult.ok) {
+          this.logger.warn('Storage initialization failed', { error: storageResult.error });
+        }
+      }
+
+      // Load rollback history from earlier sessions
+      if (this.rollbackService?.initialize) {
+        const rollbackResult = await this.rollbackService.initialize();
+        if (!rollbackResult.ok) {
+          this.logger.warn('Rollback history could not be loaded', { error: rollbackResult.error });
+        }
+      }
+
+      // Load error patterns learned in earlier sessions
+      const errorMemory = this.container.tryResolve(SERVICE_TOKENS.ErrorMemory);
+      if (this.storageManager && errorMemory) {
+        const patternsResult = await errorMemory.loadPatterns();
+        if (!patternsResult.ok) {
+          this.logger.warn('Error patterns could not be loaded', { error: patternsResult.error });
+        }
+      }
+
+      // Restore missions from earlier sessions
+      if (this.storageManager) {
+        const loadResult = await this.missionManager.load();
+        if (loadResult.ok) {
+          this.interruptedMissions = loadResult.value;
+          this.missionsPersisted = true;
+        } else {
+          this.logger.warn('Missions could not be loaded', { error: loadResult.error });
+        }
+      }
+
       // Initialize quota tracker
       if (this.quotaTracker) {
         const quotaResult = await this.quotaTracker.initialize();
@@ -220,6 +369,15 @@ export class AlterCodeCore {
         this.logger.warn('Initial snapshot failed', { error: snapshotResult.error });
       }
 
+      // Detect project conventions for agent prompts and compliance checks
+      const conventionExtractor = this.container.tryResolve(SERVICE_TOKENS.ConventionExtractor);
+      if (conventionExtractor) {
+        const conventionsResult = await conventionExtractor.analyze();
+        if (!conventionsResult.ok) {
+          this.logger.warn('Convention analysis failed', { error: conventionsResult.error });
+        }
+      }
+
       // Set up event handlers
       this.setupEventHandlers();
 
@@ -252,11 +410,17 @@ export class AlterCodeCore {
     this.logger.info('Processing message', { messageLength: message.length });
 
     try {
-      // Parse intent
-      const intent = this.intentParser.parse(message, context);
+      // Classify intent
+      const intent = await this.intentParser.classify(message, context);
 
       await this.eventBus.emit('core:intentParsed', { intent });
 
+      // Ask before starting work the request may not have asked for
+      if (intent.clarification && intent.type !== 'query') {
+        this.logger.info('Asking for clarification', { type: intent.type, confidence: intent.confidence });
+        return Ok({ response: intent.clarification });
+      }
+
       // Handle based on intent type
       switch (intent.type) {
         case 'query':
@@ -282,8 +446,12 @@ export class AlterCodeCore {
   /**
    * Stream a message response
    *
+   * Runs an agentic tool-use loop: the model is given the registered tools,
+   * each requested tool runs through the ToolExecutor (with approval), and the
+   * results are fed back until the model stops or a turn/token cap is hit.
+   *
    * Yields stream chunks for real-time UI updates:
-   * - text: Content tokens
+   * - text: Content tokens, as they arrive when the adapter streams tool turns
    * - thinking: Extended thinking content
    * - tool_use: Tool call requests
    * - tool_result: Tool execution results
@@ -297,8 +465,12 @@ export class AlterCodeCore {
       currentFile?: FilePath;
       abortSignal?: AbortSignal;
       enableThinking?: boolean;
+      requestApproval?: StreamMessageOptions['requestApproval'];
+      maxTurns?: number;
+      maxTotalTokens?: number;
+      session?: ChatSession;
     }
-  ): AsyncGenerator<import('./streaming').StreamChunk> {
+  ): AsyncGenerator<StreamChunk> {
     if (!this.initialized) {
       const initResult = await this.initialize();
       if (!initResult.ok) {
@@ -324,77 +496,162 @@ export class AlterCodeCore {
 
       // Build the prompt with context
       const contextPrompt = await this.buildContextPrompt(message, intent, options?.currentFile);
+      const summaryPrompt = options?.session?.getSummaryPrompt();
+      const systemPrompt = summaryPrompt
+        ? `${this.buildSystemPrompt(intent)}\n\nSummary of the earlier conversation:\n${summaryPrompt}`
+        : this.buildSystemPrompt(intent);
+
+      const tools = this.toolRegistry.getDefinitions().map((def) => ({
+        name: def.name,
+        description: def.description,
+        parameters: def.parameters.map((p) => ({
+          name: p.name,
+          type: p.type,
+          description: p.description,
+          required: p.required ?? false,
+        })),
+      }));
 
-      // Create the LLM request
-      const request = {
-        prompt: contextPrompt,
-        systemPrompt: this.buildSystemPrompt(intent),
-        maxTokens: 4096,
+      const toolContext: ToolContext = {
+        workspaceRoot: this.config.projectRoot,
+        currentFile: options?.currentFile,
+        abortSignal: options?.abortSignal,
+        requestApproval: options?.requestApproval,
+        missionId: this.currentMission?.id,
       };
 
-      // Stream from the LLM adapter
-      const stream = llmAdapter.stream(request);
+      const maxTurns = options?.maxTurns ?? AGENT_LOOP_LIMITS.maxTurns;
+      const maxTotalTokens = options?.maxTotalTokens ?? AGENT_LOOP_LIMITS.maxTotalTokens;
 
+      const history: LLMMessage[] = options?.session?.getHistory() ?? [];
+      let prompt = contextPrompt;
+      let toolResults: LLMToolResult[] | undefined;
       let totalContent = '';
+      const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let turn = 0;
+      let rateLimitRetries = 0;
+      const chatLevel = this.config.llm?.chatLevel ?? DEFAULT_CHAT_LEVEL;
 
-      for await (const chunk of stream) {
+      while (turn < maxTurns) {
         // Check for abort
         if (options?.abortSignal?.aborted) {
           yield { type: 'done' };
           return;
         }
 
-        // Handle rate limits from the adapter
-        if ('error' in chunk && (chunk as any).error?.includes('rate limit')) {
-          const retryMatch = (chunk as any).error.match(/retry after (\d+)/i);
-          const retryAfterMs = retryMatch ? parseInt(retryMatch[1], 10) * 1000 : 60000;
+        const request: LLMRequest = { level: chatLevel, prompt, systemPrompt, maxTokens: 4096, history, toolResults };
 
-          yield {
-            type: 'rate_limit',
-            retryAfterMs,
-            provider: 'claude',
-          };
+        // Stop once the provider's quota or the daily budget is used up
+        const provider = llmAdapter.getProvider?.(request) ?? DEFAULT_CHAT_PROVIDER;
+        if (this.quotaTracker && !this.quotaTracker.canExecute(provider)) {
+          throw new AppError('QUOTA_EXCEEDED', `${provider} quota or daily budget exceeded`);
+        }
+
+        const result = yield* this.completeTurn(llmAdapter, request, tools);
+
+        if (!result.ok) {
+          // Handle rate limits from the adapter: wait and retry the same turn, a bounded number of times
+          const retryAfterMs = this.parseRateLimit(result.error.message);
+          if (retryAfterMs !== null) {
+            if (rateLimitRetries >= AGENT_LOOP_LIMITS.maxRateLimitRetries) {
+              throw new RateLimitError(provider, retryAfterMs);
+            }
+            rateLimitRetries++;
+            yield {
+              type: 'rate_limit',
+              retryAfterMs,
+              provider,
+            };
+            await this.delay(retryAfterMs, options?.abortSignal);
+            continue;
+          }
+          throw result.error;
+        }
+
+        turn++;
+        rateLimitRetries = 0;
+        const { response, toolCalls } = result.value;
+
+        if (response.usage) {
+          usage.promptTokens += response.usage.promptTokens;
+          usage.completionTokens += response.usage.completionTokens;
+          usage.totalTokens += response.usage.totalTokens;
+          this.recordChatUsage(response, provider, chatLevel);
+        }
+
+        totalContent += response.content;
+
+        if (toolCalls.length === 0) {
+          break;
+        }
 
-          // Wait and retry
-          await this.delay(retryAfterMs);
-          continue;
+        // Record this exchange so the next turn sees the tool calls
+        if (prompt || toolResults) {
+          history.push({ role: 'user', content: prompt, toolResults });
         }
+        history.push({ role: 'assistant', content: response.content, toolCalls });
 
-        // Yield text content
-        if (chunk.content) {
-          totalContent += chunk.content;
+        // Run each requested tool and collect the results
+        toolResults = [];
+        for (const call of toolCalls) {
           yield {
-            type: 'text',
-            content: chunk.content,
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
           };
-        }
 
-        // Yield usage on completion
-        if (chunk.done && chunk.usage) {
+          const toolResult = yield* this.executeTool(call, toolContext);
+          const content = this.formatToolResult(toolResult);
+
           yield {
-            type: 'usage',
-            promptTokens: chunk.usage.promptTokens,
-            completionTokens: chunk.usage.completionTokens,
-            totalTokens: chunk.usage.totalTokens,
+            type: 'tool_result',
+            toolCallId: call.id,
+            name: call.name,
+            result: content,
+            isError: !toolResult.success,
           };
 
-          // Update quota tracker
-          const quotaTracker = this.getOptionalService(SERVICE_TOKENS.QuotaTracker);
-          if (quotaTracker) {
-            quotaTracker.recordUsage('claude', 'lord', {
-              inputTokens: chunk.usage.promptTokens,
-              outputTokens: chunk.usage.completionTokens,
-            });
-          }
+          toolResults.push({
+            toolCallId: call.id,
+            content,
+            isError: !toolResult.success,
+          });
+        }
+        prompt = '';
+
+        if (usage.totalTokens >= maxTotalTokens) {
+          this.logger.warn('Tool loop stopped at token cap', { totalTokens: usage.totalTokens });
+          break;
+        }
+        if (turn >= maxTurns) {
+          this.logger.warn('Tool loop stopped at turn cap', { turns: turn });
+        }
+      }
+
+      yield {
+        type: 'usage',
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+      };
+
+      // Remember the exchange; older turns are compressed once history is over budget
+      if (options?.session) {
+        options.session.addTurn(message, totalContent);
+        const compactResult = await options.session.compact();
+        if (!compactResult.ok) {
+          this.logger.warn('Chat history compression failed', { error: compactResult.error });
         }
       }
 
       // Emit completion event
       await this.eventBus.emit('core:streamCompleted', {
         contentLength: totalContent.length,
+        turns: turn,
       });
 
-      yield { type: 'done' };
+      yield { type: 'done', usage };
     } catch (error) {
       this.logger.error('Stream message failed', error as Error);
 
@@ -427,6 +684,150 @@ export class AlterCodeCore {
     }
   }
 
+  /**
+   * Run one model turn, yielding its text as it streams when the adapter supports it
+   */
+  private async *completeTurn(
+    llmAdapter: ILLMAdapter,
+    request: LLMRequest,
+    tools: ToolDefinition[]
+  ): AsyncGenerator<StreamChunk, Result<{ response: LLMResponse; toolCalls: ToolCall[] }>> {
+    if (!llmAdapter.streamWithTools) {
+      const result = await llmAdapter.completeWithTools(request, tools);
+      if (result.ok && result.value.response.content) {
+        yield { type: 'text', content: result.value.response.content };
+      }
+      return result;
+    }
+
+    const stream = llmAdapter.streamWithTools(request, tools);
+    let next = await stream.next();
+    while (!next.done) {
+      if (next.value.content) {
+        yield { type: 'text', content: next.value.content };
+      }
+      next = await stream.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Record a chat turn's usage against the provider and model that served it
+   */
+  private recordChatUsage(response: LLMResponse, provider: string, level: HierarchyLevel): void {
+    if (!this.quotaTracker || !response.usage) {
+      return;
+    }
+
+    this.quotaTracker.recordUsage(response.provider ?? provider, level, {
+      sent: response.usage.promptTokens,
+      received: response.usage.completionTokens,
+      cacheRead: response.usage.cacheReadTokens,
+      cacheWrite: response.usage.cacheWriteTokens,
+      model: response.model,
+    });
+  }
+
+  /**
+   * Create a chat session whose history is compressed past its share of the context budget
+   */
+  createChatSession(): ChatSession {
+    const tokenBudget = this.container.resolve(SERVICE_TOKENS.TokenBudget);
+    const budget = tokenBudget.allocate(toTokenCount(this.config.maxContextTokens ?? DEFAULT_MAX_CONTEXT_TOKENS));
+
+    return createChatSession(
+      this.container.resolve(SERVICE_TOKENS.ConversationCompressor),
+      tokenBudget,
+      { historyBudget: budget.history as number },
+      this.logger
+    );
+  }
+
+  /**
+   * Create the stored chat history of a chat panel, with its own conversation memory
+   */
+  createChatHistory(): ChatHistory {
+    return createChatHistory(
+      this.container.resolve(SERVICE_TOKENS.ChatStore),
+      this.createChatSession(),
+      this.logger
+    );
+  }
+
+  /**
+   * Get the tool registry used by the chat tool-use loop
+   */
+  getToolRegistry(): ToolRegistry {
+    return this.toolRegistry;
+  }
+
+  /**
+   * Execute a tool call, yielding its output as partial tool_result chunks while it runs
+   */
+  private async *executeTool(call: ToolCall, context: ToolContext): AsyncGenerator<StreamChunk, ToolResult> {
+    const pending: string[] = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+
+    const execution = this.toolExecutor
+      .execute(call.name, call.arguments, {
+        ...context,
+        onOutput: (output) => {
+          pending.push(output);
+          wake?.();
+        },
+      })
+      .finally(() => {
+        finished = true;
+        wake?.();
+      });
+
+    while (!finished || pending.length > 0) {
+      if (pending.length === 0) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        continue;
+      }
+      yield {
+        type: 'tool_result',
+        toolCallId: call.id,
+        name: call.name,
+        result: pending.splice(0).join(''),
+        partial: true,
+      };
+    }
+
+    return execution;
+  }
+
+  /**
+   * Format a tool result as content for the model
+   */
+  private formatToolResult(result: ToolResult): string {
+    // Failed tools may still have output worth showing, e.g. a failing command's
+    const content = result.success
+      ? result.content
+      : [`Error: ${result.error ?? 'Tool failed'}`, result.content].filter(Boolean).join('\n');
+    if (content.length <= AGENT_LOOP_LIMITS.maxToolResultChars) {
+      return content;
+    }
+    return `${content.slice(0, AGENT_LOOP_LIMITS.maxToolResultChars)}\n... [truncated ${
+      content.length - AGENT_LOOP_LIMITS.maxToolResultChars
+    } characters]`;
+  }
+
+  /**
+   * Extract a retry delay from a rate limit error message (null if not rate limited)
+   */
+  private parseRateLimit(message: string): number | null {
+    if (!message.toLowerCase().includes('rate limit')) {
+      return null;
+    }
+    const retryMatch = message.match(/retry after (\d+)/i);
+    return retryMatch?.[1] ? parseInt(retryMatch[1], 10) * 1000 : 60000;
+  }
+
   /**
    * Build context-aware prompt for the LLM
    */
@@ -436,20 +837,34 @@ export class AlterCodeCore {
     currentFile?: FilePath
   ): Promise<string> {
     const parts: string[] = [];
+    const fileTargets = intent.targets.filter((t) => t.type === 'file');
 
-    // Add current file context if available
-    if (currentFile) {
-      try {
-        const fileSystem = this.container.resolve(SERVICE_TOKENS.FileSystem);
-        const fileContent = await fileSystem.readFile(currentFile);
-        parts.push(`Current file: ${currentFile}\n\`\`\`\n${fileContent}\n\`\`\``);
-      } catch {
-        // File not readable, skip
+    // Pack the current file and targets into the context budget, with their neighbourhood
+    const fileSystem = this.container.resolve(SERVICE_TOKENS.FileSystem);
+    const priorityFiles = [
+      ...(currentFile ? [fileSystem.relative(toFilePath(this.config.projectRoot), currentFile) as string] : []),
+      ...fileTargets.map((t) => t.name),
+    ];
+    if (priorityFiles.length > 0) {
+      const tokenBudget = this.container.resolve(SERVICE_TOKENS.TokenBudget);
+      const contextSelector = this.container.resolve(SERVICE_TOKENS.ContextSelector);
+      const budget = tokenBudget.allocate(toTokenCount(this.config.maxContextTokens ?? DEFAULT_MAX_CONTEXT_TOKENS));
+      const selection = await contextSelector.select({
+        query: message,
+        budget: budget.context as number,
+        priorityFiles,
+      });
+
+      if (selection.ok) {
+        for (const file of selection.value.files) {
+          parts.push(`File: ${file.path} (${file.level})\n\`\`\`\n${file.content}\n\`\`\``);
+        }
+      } else {
+        this.logger.warn('Context selection failed', { error: selection.error });
       }
     }
 
-    // Add intent context - extract file targets
-    const fileTargets = intent.targets.filter((t) => t.type === 'file');
+    // Add intent context - list file targets
     if (fileTargets.length > 0) {
       parts.push(`Target files: ${fileTargets.map((t) => t.name).join(', ')}`);
     }
@@ -492,10 +907,23 @@ Your responses should be clear, accurate, and actionable.`;
   }
 
   /**
-   * Delay helper for rate limit handling
+   * Delay helper for rate limit handling; resolves early when the signal aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -561,6 +989,95 @@ Your responses should be clear, accurate, and actionable.`;
     return this.executionCoordinator.cancel(this.currentMission.id);
   }
 
+  /**
+   * Get missions that were interrupted by the previous shutdown
+   */
+  getInterruptedMissions(): Mission[] {
+    return this.interruptedMissions.filter(
+      (mission) => this.missionManager.get(mission.id)?.metadata?.interrupted === true
+    );
+  }
+
+  /**
+   * Resume or retry an interrupted mission from its stored plan
+   */
+  async resumeMission(
+    missionId: MissionId,
+    mode: MissionResumeMode,
+    cancellation?: CancellationToken
+  ): AsyncResult<ExecutionResult> {
+    if (!this.initialized) {
+      return Err(new AppError('CORE', 'Core not initialized'));
+    }
+
+    this.logger.info('Resuming mission', { missionId, mode });
+
+    const mission = this.missionManager.get(missionId);
+    if (mission) {
+      this.currentMission = mission;
+    }
+
+    const result = await this.executionCoordinator.resumeMission(missionId, mode, cancellation);
+
+    if (result.ok) {
+      this.eventBus.emit('core:executionCompleted', { result: result.value });
+    } else {
+      this.eventBus.emit('core:executionFailed', { error: result.error });
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo an interrupted mission's changes and close it
+   */
+  async rollbackMission(missionId: MissionId): AsyncResult<void> {
+    if (!this.initialized) {
+      return Err(new AppError('CORE', 'Core not initialized'));
+    }
+
+    this.logger.info('Rolling back mission', { missionId });
+
+    // A mission interrupted before its first write has nothing to undo
+    if ((this.rollbackService?.getHistory(missionId).length ?? 0) > 0) {
+      const rollbackResult = await this.missionManager.rollback(missionId);
+      if (!rollbackResult.ok) {
+        return rollbackResult;
+      }
+    }
+
+    // Files are restored above; the mission's branch and commits go too
+    if (this.missionGit?.isEnabled()) {
+      const gitResult = await this.missionGit.discardMission(missionId);
+      if (!gitResult.ok) {
+        return gitResult;
+      }
+    }
+
+    return this.missionManager.cancel(missionId, 'Rolled back');
+  }
+
+  /**
+   * Describe a mission's git branch as a pull request, optionally squashing it first
+   */
+  async prepareMissionPullRequest(
+    missionId: MissionId,
+    options?: { squash?: boolean }
+  ): AsyncResult<MissionPullRequest> {
+    if (!this.missionGit?.isEnabled()) {
+      return Err(new AppError('CORE', 'Mission git branches are not enabled'));
+    }
+
+    if (options?.squash) {
+      const squashResult = await this.missionGit.squash(missionId);
+      if (!squashResult.ok) {
+        return Err(squashResult.error);
+      }
+    }
+
+    return this.missionGit.getPullRequest(missionId);
+  }
+
   /**
    * Get current state
    */
@@ -582,7 +1099,7 @@ Your responses should be clear, accurate, and actionable.`;
     if (this.quotaTracker) {
       const claudeStatus = this.quotaTracker.getStatus('claude');
       const claudeWindow = claudeStatus.currentWindow;
-      state.quota = {
+      const quota: NonNullable<HiveState['quota']> = {
         claude: {
           status: claudeStatus.status,
           usageRatio: claudeStatus.usageRatio,
@@ -593,12 +1110,13 @@ Your responses should be clear, accurate, and actionable.`;
           byLevel: claudeWindow?.usage.byLevel ?? {},
         },
       };
+      state.quota = quota;
 
       // Add GLM status if available
       try {
         const glmStatus = this.quotaTracker.getStatus('glm');
         const glmWindow = glmStatus.currentWindow;
-        state.quota.glm = {
+        quota.glm = {
           status: glmStatus.status,
           usageRatio: glmStatus.usageRatio,
           timeUntilResetMs: glmStatus.timeUntilResetMs,
@@ -611,14 +1129,13 @@ Your responses should be clear, accurate, and actionable.`;
         // GLM not tracked
       }
 
+      state.costs = this.quotaTracker.getCostSummary();
+
       // Add usage history
-      const quotaService = this.quotaTracker as { getUsageHistory?: (provider: string) => unknown[] };
-      if (quotaService.getUsageHistory) {
-        state.usageHistory = {
-          claude: quotaService.getUsageHistory('claude') ?? [],
-          glm: quotaService.getUsageHistory('glm') ?? [],
-        };
-      }
+      state.usageHistory = {
+        claude: this.quotaTracker.getUsageHistory('claude'),
+        glm: this.quotaTracker.getUsageHistory('glm'),
+      };
     }
 
     // Add full activity entries if service available
@@ -627,12 +1144,11 @@ Your responses should be clear, accurate, and actionable.`;
       state.activities = recentEntries.map((e) => ({
         id: e.id as string,
         agentId: e.agentId as string,
-        level: e.level,
         status: e.status,
         prompt: e.prompt,
         response: e.response,
         error: e.error,
-        duration: e.duration,
+        duration: e.metrics?.durationMs,
         timestamp: e.timestamp,
         metrics: e.metrics,
       }));
@@ -649,7 +1165,7 @@ Your responses should be clear, accurate, and actionable.`;
         id: a.id as string,
         taskId: a.taskId as string,
         missionId: a.missionId as string,
-        changes: a.changes,
+        changes: a.changes.map((c) => ({ filePath: c.filePath as string, type: c.changeType })),
         mode: a.mode,
         status: a.status,
         requestedAt: a.requestedAt,
@@ -676,7 +1192,7 @@ Your responses should be clear, accurate, and actionable.`;
 
     // Add performance stats if monitor available
     if (this.performanceMonitor) {
-      const perfStats = this.performanceMonitor.getStats();
+      const perfStats = this.performanceMonitor.getAllStats();
       state.performance = {
         stats: perfStats.map((s) => ({
           name: s.name,
@@ -825,9 +1341,7 @@ Your responses should be clear, accurate, and actionable.`;
     });
     const changesCount = result.changes?.length ?? 0;
     return Ok({
-      response: `Mission completed successfully! ${changesCount} file(s) modified.${
-        result.rollbackId ? ` Rollback ID: ${result.rollbackId}` : ''
-      }`,
+      response: `Mission completed successfully! ${changesCount} file(s) modified.`,
       mission,
     });
   }
@@ -848,31 +1362,33 @@ Your responses should be clear, accurate, and actionable.`;
       // Get the LLM adapter (HierarchyModelRouter)
       const llmAdapter = this.container.resolve(SERVICE_TOKENS.LLMAdapter);
 
-      // Set to Sovereign level for strategic planning
-      if (typeof (llmAdapter as any).setHierarchyLevel === 'function') {
-        (llmAdapter as any).setHierarchyLevel('sovereign');
-      }
-
       // Build planning prompt for Sovereign agent
       const planningPrompt = this.buildPlanningPrompt(mission, intent, context);
 
       // Get plan from Sovereign agent
+      // Planning is a Sovereign-level request
       const response = await llmAdapter.complete({
+        level: 'sovereign',
         prompt: planningPrompt,
         systemPrompt: `You are a Sovereign-level AI agent responsible for strategic mission planning.
 Your task is to analyze the mission and break it down into executable tasks.
 
 Respond with a JSON plan containing tasks. Each task should have:
+- id: Short unique identifier, referenced by other tasks' dependencies
 - type: "analyze" | "plan" | "implement" | "review" | "test" | "fix"
 - description: What needs to be done
 - priority: "critical" | "high" | "normal" | "low"
 - relevantFiles: Array of file paths relevant to this task
+- dependencies: Tasks that must run first, as { "taskId": "<id>", "type": "blocks" | "informs" | "required" | "soft" }
+  ("informs" also passes that task's output to this one; "soft" only orders execution)
+
+Tasks without dependencies between them run in parallel.
 
 Return ONLY valid JSON in this format:
 {
   "tasks": [
-    { "type": "analyze", "description": "...", "priority": "high", "relevantFiles": [] },
-    { "type": "implement", "description": "...", "priority": "normal", "relevantFiles": ["path/to/file.ts"] }
+    { "id": "analyze", "type": "analyze", "description": "...", "priority": "high", "relevantFiles": [] },
+    { "id": "impl", "type": "implement", "description": "...", "priority": "normal", "relevantFiles": ["path/to/file.ts"], "dependencies": [{ "taskId": "analyze", "type": "informs" }] }
   ]
 }`,
         maxTokens: 2048,
@@ -957,19 +1473,37 @@ Return ONLY valid JSON in this format:
         return this.getDefaultTasks();
       }
 
-      const parsed = JSON.parse(jsonMatch[0]);
-      if (!parsed.tasks || !Array.isArray(parsed.tasks)) {
+      const parsed = JSON.parse(jsonMatch[0]) as { tasks?: unknown };
+      if (!Array.isArray(parsed.tasks)) {
         return this.getDefaultTasks();
       }
 
       // Validate and normalize tasks
-      return parsed.tasks.map((task: any) => ({
-        type: task.type || 'implement',
-        description: task.description || 'Execute task',
-        priority: task.priority || 'normal',
-        relevantFiles: task.relevantFiles || [],
-        prompt: task.prompt,
-        dependencies: task.dependencies,
+      const rawTasks = (parsed.tasks as unknown[]).map((task) => this.parsePlanTask(task));
+      const explicitIds = rawTasks.flatMap((task) => (task.id !== undefined ? [task.id] : []));
+      if (new Set(explicitIds).size !== explicitIds.length) {
+        this.logger.warn('Duplicate task ids in plan response, using default tasks');
+        return this.getDefaultTasks();
+      }
+
+      // Tasks without an id keep their index as id, unless another task already claimed it
+      const ids = new Set(explicitIds);
+      const tasks: ExecutionPlan['tasks'] = rawTasks.map((task, index) => {
+        if (task.id !== undefined) {
+          return task;
+        }
+        let id = String(index);
+        for (let suffix = 1; ids.has(id); suffix++) {
+          id = `${index}-${suffix}`;
+        }
+        ids.add(id);
+        return { ...task, id };
+      });
+
+      // Drop dependencies on tasks the plan does not contain
+      return tasks.map((task) => ({
+        ...task,
+        dependencies: task.dependencies?.filter((dep) => ids.has(dep.taskId as string)),
       }));
     } catch (error) {
       this.logger.warn('Failed to parse plan JSON', { error: (error as Error).message });
@@ -977,25 +1511,97 @@ Return ONLY valid JSON in this format:
     }
   }
 
+  /**
+   * Normalize a task from a plan response, defaulting missing or invalid fields
+   */
+  private parsePlanTask(raw: unknown): ExecutionPlan['tasks'][number] {
+    const task = (raw && typeof raw === 'object' ? raw : {}) as {
+      id?: unknown;
+      type?: unknown;
+      description?: unknown;
+      priority?: unknown;
+      relevantFiles?: unknown;
+      prompt?: unknown;
+      dependencies?: unknown;
+    };
+    const priorities: readonly string[] = ['low', 'normal', 'high', 'critical'];
+
+    return {
+      id: this.parsePlanTaskId(task.id),
+      type: typeof task.type === 'string' && task.type ? task.type : 'implement',
+      description: typeof task.description === 'string' && task.description ? task.description : 'Execute task',
+      priority: typeof task.priority === 'string' && priorities.includes(task.priority)
+        ? task.priority as TaskPriority
+        : 'normal',
+      relevantFiles: Array.isArray(task.relevantFiles)
+        ? (task.relevantFiles as unknown[]).filter((file): file is string => typeof file === 'string')
+        : [],
+      prompt: typeof task.prompt === 'string' ? task.prompt : undefined,
+      dependencies: this.parsePlanDependencies(task.dependencies),
+    };
+  }
+
+  /**
+   * Normalize a plan-local task id from a plan response
+   */
+  private parsePlanTaskId(raw: unknown): string | undefined {
+    return typeof raw === 'string' || typeof raw === 'number' ? String(raw) : undefined;
+  }
+
+  /**
+   * Normalize task dependencies from a plan response.
+   * Accepts plain id strings or { taskId | id, type } objects.
+   */
+  private parsePlanDependencies(raw: unknown): TaskDependency[] | undefined {
+    if (!Array.isArray(raw)) {
+      return undefined;
+    }
+
+    const types: readonly string[] = ['blocks', 'informs', 'required', 'soft'];
+    const dependencies: TaskDependency[] = [];
+    for (const dep of raw as unknown[]) {
+      const plainId = this.parsePlanTaskId(dep);
+      if (plainId !== undefined) {
+        dependencies.push({ taskId: toTaskId(plainId), type: 'blocks', status: 'pending' });
+      } else if (dep && typeof dep === 'object') {
+        const { taskId, id, type } = dep as { taskId?: unknown; id?: unknown; type?: unknown };
+        const ref = this.parsePlanTaskId(taskId ?? id);
+        if (ref !== undefined) {
+          dependencies.push({
+            taskId: toTaskId(ref),
+            type: typeof type === 'string' && types.includes(type) ? type as TaskDependency['type'] : 'blocks',
+            status: 'pending',
+          });
+        }
+      }
+    }
+    return dependencies;
+  }
+
   /**
    * Get default tasks when plan parsing fails
    */
   private getDefaultTasks(): ExecutionPlan['tasks'] {
     return [
       {
+        id: 'analyze',
         type: 'analyze',
         description: 'Analyze the codebase and understand current state',
         priority: 'high',
       },
       {
+        id: 'implement',
         type: 'implement',
         description: 'Implement the requested changes',
         priority: 'normal',
+        dependencies: [{ taskId: toTaskId('analyze'), type: 'informs', status: 'pending' }],
       },
       {
+        id: 'review',
         type: 'review',
         description: 'Review changes for correctness and quality',
         priority: 'normal',
+        dependencies: [{ taskId: toTaskId('implement'), type: 'informs', status: 'pending' }],
       },
     ];
   }
@@ -1135,14 +1741,24 @@ What would you like me to do?`,
     this.logger.info('Shutting down AlterCode Core');
 
     try {
-      // Cancel any active mission
+      // Stop any active mission: a persisted one is paused so it can resume next session
       if (this.currentMission) {
-        await this.missionManager.cancel(this.currentMission.id, 'Core shutdown');
+        const status = this.missionManager.get(this.currentMission.id)?.status;
+        if (this.missionsPersisted && (status === 'active' || status === 'running')) {
+          await this.missionManager.pause(this.currentMission.id);
+        } else {
+          await this.missionManager.cancel(this.currentMission.id, 'Core shutdown');
+        }
       }
 
       // Emit shutdown event
       await this.eventBus.emit('core:shutdown', {});
 
+      // Flush and close the database
+      if (this.storageManager) {
+        await this.storageManager.close();
+      }
+
       this.initialized = false;
       this.logger.info('AlterCode Core shutdown complete');
 
@@ -0,0 +1,273 @@
+/**
+ * Chat History
+ *
+ * Stored conversations behind one chat panel:
+ * - Records messages of the active session, creating it on the first message
+ * - Switches between sessions, rebuilding the conversation memory
+ * - Branches a conversation from an earlier message
+ */
+
+import * as crypto from 'crypto';
+import {
+  IChatStore,
+  ILogger,
+  StoredChatSession,
+  StoredChatMessage,
+  StoredChatRole,
+  ChatTokenUsage,
+  ChatSearchResult,
+  ChatExportFormat,
+  AsyncResult,
+  Ok,
+  Err,
+  AppError,
+} from '../types';
+import type { ChatSession } from './ChatSession';
+
+/** Message to record in the active session */
+export interface ChatHistoryEntry {
+  /** Id shown in the UI (default: generated) */
+  readonly id?: string;
+  readonly role: StoredChatRole;
+  readonly content: string;
+  readonly usage?: ChatTokenUsage;
+  readonly error?: string;
+}
+
+/** Branch created to regenerate a conversation from an earlier message */
+export interface ChatFork {
+  readonly session: StoredChatSession;
+  /** Messages kept in the branch */
+  readonly messages: StoredChatMessage[];
+  /** User message to send again in the branch */
+  readonly resend: StoredChatMessage;
+}
+
+/**
+ * Stored conversations of one chat panel
+ */
+export class ChatHistory {
+  /** Memory of the active session, passed to the model as history */
+  readonly memory: ChatSession;
+
+  private readonly store: IChatStore;
+  private readonly logger?: ILogger;
+  private activeSessionId: string | null = null;
+
+  constructor(store: IChatStore, memory: ChatSession, logger?: ILogger) {
+    this.store = store;
+    this.memory = memory;
+    this.logger = logger?.child('ChatHistory');
+  }
+
+  /**
+   * Id of the active session, or null before its first message
+   */
+  getActiveSessionId(): string | null {
+    return this.activeSessionId;
+  }
+
+  /**
+   * Append a message to the active session
+   */
+  async record(entry: ChatHistoryEntry): AsyncResult<StoredChatMessage> {
+    const sessionId = await this.ensureSession();
+    if (!sessionId.ok) {
+      return sessionId;
+    }
+
+    const message: StoredChatMessage = {
+      id: entry.id ?? crypto.randomUUID(),
+      sessionId: sessionId.value,
+      role: entry.role,
+      content: entry.content,
+      timestamp: new Date(),
+      usage: entry.usage,
+      error: entry.error,
+    };
+
+    const added = await this.store.addMessage(message);
+    return added.ok ? Ok(message) : added;
+  }
+
+  /**
+   * Link a mission created from the active session
+   */
+  async linkMission(missionId: string): AsyncResult<void> {
+    if (!this.activeSessionId) {
+      return Ok(undefined);
+    }
+    return this.store.linkMission(this.activeSessionId, missionId);
+  }
+
+  /**
+   * Start a new conversation; the current one stays stored
+   */
+  startNew(): void {
+    this.activeSessionId = null;
+    this.memory.clear();
+  }
+
+  /**
+   * Make a stored session active
+   *
+   * @returns The session's messages
+   */
+  async open(sessionId: string): AsyncResult<StoredChatMessage[]> {
+    const session = await this.store.getSession(sessionId);
+    if (!session.ok) {
+      return session;
+    }
+    if (!session.value) {
+      return Err(new AppError('NOT_FOUND', `Chat session not found: ${sessionId}`));
+    }
+
+    const messages = await this.store.getMessages(sessionId);
+    if (!messages.ok) {
+      return messages;
+    }
+
+    this.activeSessionId = sessionId;
+    await this.rebuildMemory(messages.value);
+    return messages;
+  }
+
+  /**
+   * Delete a message and everything after it from the active session, e.g. to retry it
+   */
+  async truncateFrom(messageId: string): AsyncResult<void> {
+    if (!this.activeSessionId) {
+      return Ok(undefined);
+    }
+
+    const deleted = await this.store.deleteMessagesFrom(this.activeSessionId, messageId);
+    if (!deleted.ok) {
+      return deleted;
+    }
+
+    const messages = await this.store.getMessages(this.activeSessionId);
+    if (!messages.ok) {
+      return messages;
+    }
+    await this.rebuildMemory(messages.value);
+    return Ok(undefined);
+  }
+
+  /**
+   * Branch the active session before the user message that produced a message,
+   * and make the branch active. The user message is not copied: it is to be sent again.
+   */
+  async fork(messageId: string): AsyncResult<ChatFork> {
+    if (!this.activeSessionId) {
+      return Err(new AppError('VALIDATION', 'No active chat session to branch'));
+    }
+
+    const messages = await this.store.getMessages(this.activeSessionId);
+    if (!messages.ok) {
+      return messages;
+    }
+
+    const index = messages.value.findIndex((m) => m.id === messageId);
+    const resend = messages.value
+      .slice(0, index + 1)
+      .reverse()
+      .find((m) => m.role === 'user');
+    if (index < 0 || !resend) {
+      return Err(new AppError('NOT_FOUND', `No user message to regenerate from: ${messageId}`));
+    }
+
+    const session = await this.store.branch(this.activeSessionId, resend.id);
+    if (!session.ok) {
+      return session;
+    }
+
+    const opened = await this.open(session.value.id);
+    if (!opened.ok) {
+      return opened;
+    }
+
+    this.logger?.info('Chat branched for regeneration', {
+      from: resend.sessionId,
+      to: session.value.id,
+    });
+    return Ok({ session: session.value, messages: opened.value, resend });
+  }
+
+  /**
+   * Delete a stored session; deleting the active one starts a new conversation
+   */
+  async delete(sessionId: string): AsyncResult<void> {
+    if (sessionId === this.activeSessionId) {
+      this.startNew();
+    }
+    return this.store.deleteSession(sessionId);
+  }
+
+  list(limit?: number): AsyncResult<StoredChatSession[]> {
+    return this.store.listSessions(limit);
+  }
+
+  search(query: string, limit?: number): AsyncResult<ChatSearchResult[]> {
+    return this.store.search(query, limit);
+  }
+
+  /**
+   * Export a session (default: the active one)
+   */
+  export(format: ChatExportFormat, sessionId?: string): AsyncResult<string> {
+    const id = sessionId ?? this.activeSessionId;
+    if (!id) {
+      return Promise.resolve(Err(new AppError('VALIDATION', 'No chat session to export')));
+    }
+    return this.store.export(id, format);
+  }
+
+  private async ensureSession(): AsyncResult<string> {
+    if (this.activeSessionId) {
+      return Ok(this.activeSessionId);
+    }
+
+    const session = await this.store.createSession();
+    if (!session.ok) {
+      return session;
+    }
+
+    this.activeSessionId = session.value.id;
+    return Ok(session.value.id);
+  }
+
+  /**
+   * Replay a session's completed exchanges into the conversation memory
+   */
+  private async rebuildMemory(messages: StoredChatMessage[]): Promise<void> {
+    this.memory.clear();
+
+    let request: StoredChatMessage | undefined;
+    for (const message of messages) {
+      if (message.role === 'user') {
+        request = message;
+      } else if (message.role === 'assistant' && request && !message.error) {
+        this.memory.addTurn(request.content, message.content);
+        request = undefined;
+      }
+    }
+
+    const compacted = await this.memory.compact();
+    if (!compacted.ok) {
+      this.logger?.warn('Failed to compress restored chat history', {
+        error: compacted.error.message,
+      });
+    }
+  }
+}
+
+/**
+ * Create a chat history
+ */
+export function createChatHistory(
+  store: IChatStore,
+  memory: ChatSession,
+  logger?: ILogger
+): ChatHistory {
+  return new ChatHistory(store, memory, logger);
+}
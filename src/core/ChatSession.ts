@@ -0,0 +1,326 @@
+/**
+ * Chat Session
+ *
+ * Keeps the conversation history of one chat panel:
+ * - Recent turns are sent to the model verbatim as history
+ * - Once history exceeds its token budget, older turns are compressed
+ *   into a structured summary of decisions, facts, actions and pending items
+ * - The summary can be replaced with a user-edited version
+ */
+
+import * as crypto from 'crypto';
+import {
+  IConversationCompressorService,
+  ITokenBudgetService,
+  ILogger,
+  Message,
+  MessageRole,
+  ConversationSummary,
+  LLMMessage,
+  AsyncResult,
+  Ok,
+} from '../types';
+
+/** Chat session configuration */
+export interface ChatSessionConfig {
+  /** Tokens of verbatim history allowed before older turns are compressed */
+  readonly historyBudget: number;
+  /** Most recent turns that are never compressed (default: 2) */
+  readonly keepRecentTurns?: number;
+  /** Characters of each compressed user request kept in the summary (default: 200) */
+  readonly maxRequestChars?: number;
+}
+
+/** Summary as plain text lists, for viewing and editing in the UI */
+export interface ChatSummaryText {
+  readonly currentFocus: string;
+  readonly earlierRequests: string;
+  readonly decisions: string[];
+  readonly facts: string[];
+  readonly actions: string[];
+  readonly pending: string[];
+}
+
+/** Snapshot of a session's memory, for display */
+export interface ChatSessionState {
+  readonly summary: ChatSummaryText | null;
+  /** Messages kept verbatim */
+  readonly messages: number;
+  /** Messages folded into the summary so far */
+  readonly compressedMessages: number;
+  readonly historyTokens: number;
+  readonly historyBudget: number;
+}
+
+const DEFAULT_KEEP_RECENT_TURNS = 2;
+const DEFAULT_MAX_REQUEST_CHARS = 200;
+
+/**
+ * Conversation memory for one chat panel
+ */
+export class ChatSession {
+  readonly id: string = crypto.randomUUID();
+
+  private readonly compressor: IConversationCompressorService;
+  private readonly tokenBudget: ITokenBudgetService;
+  private readonly config: Required<ChatSessionConfig>;
+  private readonly logger?: ILogger;
+
+  private messages: Message[] = [];
+  private summary: ConversationSummary | null = null;
+  private compressedMessages = 0;
+
+  constructor(
+    compressor: IConversationCompressorService,
+    tokenBudget: ITokenBudgetService,
+    config: ChatSessionConfig,
+    logger?: ILogger
+  ) {
+    this.compressor = compressor;
+    this.tokenBudget = tokenBudget;
+    this.config = {
+      keepRecentTurns: DEFAULT_KEEP_RECENT_TURNS,
+      maxRequestChars: DEFAULT_MAX_REQUEST_CHARS,
+      ...config,
+    };
+    this.logger = logger?.child('ChatSession');
+  }
+
+  /**
+   * Record a completed exchange
+   */
+  addTurn(userContent: string, assistantContent: string): void {
+    this.messages.push(this.createMessage('user', userContent), this.createMessage('assistant', assistantContent));
+  }
+
+  /**
+   * Verbatim turns to send as LLM history, oldest first
+   */
+  getHistory(): LLMMessage[] {
+    return this.messages.map((m) => ({ role: m.role, content: m.content }));
+  }
+
+  /**
+   * Summary of compressed turns, or null if nothing has been compressed
+   */
+  getSummary(): ConversationSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * Summary as plain text lists, or null if nothing has been compressed
+   */
+  getSummaryText(): ChatSummaryText | null {
+    if (!this.summary) {
+      return null;
+    }
+
+    return {
+      currentFocus: this.summary.currentFocus,
+      earlierRequests: this.summary.relevantHistory,
+      decisions: this.summary.decisions.map((d) => d.decision),
+      facts: this.summary.facts.map((f) => f.fact),
+      actions: this.summary.actions.map((a) => a.action),
+      pending: this.summary.pending.map((p) => p.item),
+    };
+  }
+
+  /**
+   * Replace the summary with a user-edited version; unchanged items keep their history
+   */
+  editSummary(text: ChatSummaryText): void {
+    const now = new Date();
+    const existing = this.summary;
+    const clean = (items: string[]): string[] => items.map((item) => item.trim()).filter(Boolean);
+    const keep = <T>(items: T[] | undefined, textOf: (item: T) => string, value: string): T | undefined =>
+      items?.find((item) => textOf(item) === value);
+
+    this.summary = {
+      currentFocus: text.currentFocus.trim(),
+      relevantHistory: text.earlierRequests.trim(),
+      decisions: clean(text.decisions).map(
+        (decision) =>
+          keep(existing?.decisions, (d) => d.decision, decision) ?? {
+            id: crypto.randomUUID(),
+            timestamp: now,
+            topic: decision.split(/\s+/).slice(0, 3).join(' '),
+            decision,
+            participants: ['user'],
+          }
+      ),
+      facts: clean(text.facts).map(
+        (fact) =>
+          keep(existing?.facts, (f) => f.fact, fact) ?? {
+            id: crypto.randomUUID(),
+            fact,
+            source: 'user',
+            confidence: 1,
+            establishedAt: now,
+            relatedMessages: [],
+          }
+      ),
+      actions: clean(text.actions).map(
+        (action) =>
+          keep(existing?.actions, (a) => a.action, action) ?? {
+            id: crypto.randomUUID(),
+            action,
+            result: 'success',
+            summary: action,
+            timestamp: now,
+          }
+      ),
+      pending: clean(text.pending).map(
+        (item) =>
+          keep(existing?.pending, (p) => p.item, item) ?? {
+            id: crypto.randomUUID(),
+            item,
+            priority: 'medium',
+            addedAt: now,
+          }
+      ),
+    };
+  }
+
+  /**
+   * Summary formatted for the system prompt ('' if there is none)
+   */
+  getSummaryPrompt(): string {
+    return this.summary ? formatConversationSummary(this.summary) : '';
+  }
+
+  /**
+   * Compress the oldest turns into the summary while verbatim history is over budget
+   *
+   * @returns Whether any turns were compressed
+   */
+  async compact(): AsyncResult<boolean> {
+    const keep = this.config.keepRecentTurns * 2;
+    let split = 0;
+    while (
+      this.messages.length - split > keep &&
+      this.countTokens(this.messages.slice(split)) > this.config.historyBudget
+    ) {
+      split += 2;
+    }
+
+    if (split === 0) {
+      return Ok(false);
+    }
+
+    const older = this.messages.slice(0, split);
+    const result = await this.compressor.compress(older);
+    if (!result.ok) {
+      return result;
+    }
+
+    this.summary = this.mergeSummary(this.summary, result.value, older);
+    this.messages = this.messages.slice(split);
+    this.compressedMessages += older.length;
+
+    this.logger?.debug('Compressed chat history', {
+      compressed: older.length,
+      remaining: this.messages.length,
+    });
+
+    return Ok(true);
+  }
+
+  /**
+   * Forget the whole conversation
+   */
+  clear(): void {
+    this.messages = [];
+    this.summary = null;
+    this.compressedMessages = 0;
+  }
+
+  getState(): ChatSessionState {
+    return {
+      summary: this.getSummaryText(),
+      messages: this.messages.length,
+      compressedMessages: this.compressedMessages,
+      historyTokens: this.countTokens(this.messages),
+      historyBudget: this.config.historyBudget,
+    };
+  }
+
+  /**
+   * Fold a newly compressed span into the existing summary, keeping user edits
+   */
+  private mergeSummary(
+    existing: ConversationSummary | null,
+    compressed: ConversationSummary,
+    messages: Message[]
+  ): ConversationSummary {
+    const requests = messages
+      .filter((m) => m.role === 'user')
+      .map((m) => `- ${this.truncate(m.content)}`);
+
+    return {
+      decisions: [...(existing?.decisions ?? []), ...compressed.decisions],
+      facts: [...(existing?.facts ?? []), ...compressed.facts],
+      actions: [...(existing?.actions ?? []), ...compressed.actions],
+      pending: [...(existing?.pending ?? []), ...compressed.pending],
+      currentFocus: compressed.currentFocus || (existing?.currentFocus ?? ''),
+      relevantHistory: [existing?.relevantHistory, ...requests].filter(Boolean).join('\n'),
+    };
+  }
+
+  private createMessage(role: MessageRole, content: string): Message {
+    return {
+      id: crypto.randomUUID(),
+      role,
+      content,
+      timestamp: new Date(),
+      tokens: this.tokenBudget.countTokens(content),
+    };
+  }
+
+  private countTokens(messages: Message[]): number {
+    return messages.reduce((sum, m) => sum + (m.tokens as number), 0);
+  }
+
+  private truncate(text: string): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > this.config.maxRequestChars
+      ? `${line.slice(0, this.config.maxRequestChars)}...`
+      : line;
+  }
+}
+
+/**
+ * Format a conversation summary for a system prompt
+ */
+export function formatConversationSummary(summary: ConversationSummary): string {
+  const sections: string[] = [];
+  const list = (title: string, items: string[]): void => {
+    if (items.length > 0) {
+      sections.push(`${title}:\n${items.map((item) => `- ${item}`).join('\n')}`);
+    }
+  };
+
+  if (summary.currentFocus) {
+    sections.push(`Current focus: ${summary.currentFocus}`);
+  }
+  if (summary.relevantHistory) {
+    sections.push(`Earlier requests:\n${summary.relevantHistory}`);
+  }
+  list('Decisions', summary.decisions.map((d) => d.decision));
+  list('Established facts', summary.facts.map((f) => f.fact));
+  list('Completed actions', summary.actions.map((a) => a.action));
+  list('Pending', summary.pending.map((p) => p.item));
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Create a chat session
+ */
+export function createChatSession(
+  compressor: IConversationCompressorService,
+  tokenBudget: ITokenBudgetService,
+  config: ChatSessionConfig,
+  logger?: ILogger
+): ChatSession {
+  return new ChatSession(compressor, tokenBudget, config, logger);
+}
@@ -0,0 +1,456 @@
+/**
+ * Chat Store Implementation
+ *
+ * Persistent storage for chat conversations:
+ * - Sessions with titles, linked missions and token totals
+ * - Messages, indexed for full-text search
+ * - Branching and export
+ */
+
+import * as crypto from 'crypto';
+import {
+  IChatStore,
+  IDatabase,
+  StoredChatSession,
+  StoredChatMessage,
+  StoredChatRole,
+  ChatTokenUsage,
+  ChatSearchResult,
+  ChatExportFormat,
+  ChatSessionOptions,
+  AsyncResult,
+  Ok,
+  Err,
+  ILogger,
+  AppError,
+} from '../types';
+
+/** Title of a session until its first user message names it */
+const UNTITLED = 'New chat';
+
+/** Characters of the first user message used as a session title */
+const MAX_TITLE_LENGTH = 60;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/** Keys whose ISO string values are revived as dates */
+const DATE_KEYS = new Set(['createdAt', 'updatedAt', 'timestamp']);
+
+const ROLE_HEADINGS: Record<StoredChatRole, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+const NO_TOKENS: ChatTokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Chat Store implementation using SQLite
+ */
+export class ChatStore implements IChatStore {
+  private readonly database: IDatabase;
+  private readonly logger?: ILogger;
+  private ready = false;
+
+  constructor(database: IDatabase, logger?: ILogger) {
+    this.database = database;
+    this.logger = logger?.child('ChatStore');
+  }
+
+  initialize(): AsyncResult<void> {
+    this.logger?.info('Initializing chat store');
+    this.ready = true;
+    return Promise.resolve(Ok(undefined));
+  }
+
+  close(): AsyncResult<void> {
+    this.ready = false;
+    return Promise.resolve(Ok(undefined));
+  }
+
+  isReady(): boolean {
+    return this.ready && this.database.isReady();
+  }
+
+  // =========================================================================
+  // Sessions
+  // =========================================================================
+
+  async createSession(options?: ChatSessionOptions): AsyncResult<StoredChatSession> {
+    const now = new Date();
+    const session: StoredChatSession = {
+      id: crypto.randomUUID(),
+      title: options?.title ?? UNTITLED,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+      missionIds: [],
+      tokens: NO_TOKENS,
+      branchOf: options?.branchOf,
+    };
+
+    const saved = await this.saveSession(session);
+    return saved.ok ? Ok(session) : saved;
+  }
+
+  async getSession(id: string): AsyncResult<StoredChatSession | null> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    const result = await this.database.queryOne<{ data: string }>(
+      `SELECT data FROM chat_sessions WHERE id = ?`,
+      [id]
+    );
+    if (!result.ok) {
+      return result;
+    }
+
+    return Ok(result.value ? this.deserialize<StoredChatSession>(result.value.data) : null);
+  }
+
+  async listSessions(limit?: number): AsyncResult<StoredChatSession[]> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    const sql = `SELECT data FROM chat_sessions ORDER BY updated_at DESC ${limit ? `LIMIT ${Math.floor(limit)}` : ''}`;
+    const result = await this.database.query<{ data: string }>(sql);
+    if (!result.ok) {
+      return result;
+    }
+
+    return Ok(result.value.map((row) => this.deserialize<StoredChatSession>(row.data)));
+  }
+
+  async deleteSession(id: string): AsyncResult<void> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    for (const sql of [
+      `DELETE FROM chat_messages_fts WHERE session_id = ?`,
+      `DELETE FROM chat_messages WHERE session_id = ?`,
+      `DELETE FROM chat_sessions WHERE id = ?`,
+    ]) {
+      const result = await this.database.execute(sql, [id]);
+      if (!result.ok) {
+        return result;
+      }
+    }
+
+    return Ok(undefined);
+  }
+
+  async linkMission(sessionId: string, missionId: string): AsyncResult<void> {
+    const session = await this.requireSession(sessionId);
+    if (!session.ok) {
+      return session;
+    }
+    if (session.value.missionIds.includes(missionId)) {
+      return Ok(undefined);
+    }
+
+    return this.saveSession({
+      ...session.value,
+      missionIds: [...session.value.missionIds, missionId],
+      updatedAt: new Date(),
+    });
+  }
+
+  // =========================================================================
+  // Messages
+  // =========================================================================
+
+  async addMessage(message: StoredChatMessage): AsyncResult<void> {
+    const session = await this.requireSession(message.sessionId);
+    if (!session.ok) {
+      return session;
+    }
+
+    const inserted = await this.insertMessages([message]);
+    if (!inserted.ok) {
+      return inserted;
+    }
+
+    const { title, tokens, messageCount } = session.value;
+    return this.saveSession({
+      ...session.value,
+      title:
+        title === UNTITLED && message.role === 'user' ? this.toTitle(message.content) : title,
+      messageCount: messageCount + 1,
+      tokens: this.addUsage(tokens, message.usage),
+      updatedAt: new Date(),
+    });
+  }
+
+  async getMessages(sessionId: string): AsyncResult<StoredChatMessage[]> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    const result = await this.database.query<{ data: string }>(
+      `SELECT data FROM chat_messages WHERE session_id = ? ORDER BY seq`,
+      [sessionId]
+    );
+    if (!result.ok) {
+      return result;
+    }
+
+    return Ok(result.value.map((row) => this.deserialize<StoredChatMessage>(row.data)));
+  }
+
+  async deleteMessagesFrom(sessionId: string, messageId: string): AsyncResult<void> {
+    const session = await this.requireSession(sessionId);
+    if (!session.ok) {
+      return session;
+    }
+    const messages = await this.getMessages(sessionId);
+    if (!messages.ok) {
+      return messages;
+    }
+
+    const index = messages.value.findIndex((m) => m.id === messageId);
+    if (index < 0) {
+      return Err(new AppError('NOT_FOUND', `Chat message not found: ${messageId}`));
+    }
+
+    for (const message of messages.value.slice(index)) {
+      for (const sql of [
+        `DELETE FROM chat_messages_fts WHERE session_id = ? AND message_id = ?`,
+        `DELETE FROM chat_messages WHERE session_id = ? AND id = ?`,
+      ]) {
+        const result = await this.database.execute(sql, [sessionId, message.id]);
+        if (!result.ok) {
+          return result;
+        }
+      }
+    }
+
+    const kept = messages.value.slice(0, index);
+    return this.saveSession({
+      ...session.value,
+      messageCount: kept.length,
+      tokens: kept.reduce((sum, m) => this.addUsage(sum, m.usage), NO_TOKENS),
+      updatedAt: new Date(),
+    });
+  }
+
+  async branch(sessionId: string, messageId: string): AsyncResult<StoredChatSession> {
+    const source = await this.requireSession(sessionId);
+    if (!source.ok) {
+      return source;
+    }
+    const messages = await this.getMessages(sessionId);
+    if (!messages.ok) {
+      return messages;
+    }
+
+    const index = messages.value.findIndex((m) => m.id === messageId);
+    if (index < 0) {
+      return Err(new AppError('NOT_FOUND', `Chat message not found: ${messageId}`));
+    }
+
+    const created = await this.createSession({
+      title: `${source.value.title} (branch)`,
+      branchOf: { sessionId, messageId },
+    });
+    if (!created.ok) {
+      return created;
+    }
+
+    const kept = messages.value.slice(0, index).map((m) => ({ ...m, sessionId: created.value.id }));
+    const inserted = await this.insertMessages(kept);
+    if (!inserted.ok) {
+      return inserted;
+    }
+
+    const branch: StoredChatSession = {
+      ...created.value,
+      messageCount: kept.length,
+      tokens: kept.reduce((sum, m) => this.addUsage(sum, m.usage), NO_TOKENS),
+    };
+    const saved = await this.saveSession(branch);
+    if (!saved.ok) {
+      return saved;
+    }
+
+    this.logger?.debug('Chat branched', { from: sessionId, to: branch.id, messages: kept.length });
+    return Ok(branch);
+  }
+
+  async search(query: string, limit = DEFAULT_SEARCH_LIMIT): AsyncResult<ChatSearchResult[]> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    // Every word must match, as a prefix; quoting keeps FTS operators out of user input
+    const terms = query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+    if (terms.length === 0) {
+      return Ok([]);
+    }
+
+    const sql = `
+      SELECT f.session_id AS sessionId, f.message_id AS messageId,
+             snippet(chat_messages_fts, '**', '**', '...', 0, 12) AS snippet,
+             s.title AS sessionTitle, m.role AS role, m.created_at AS createdAt
+      FROM chat_messages_fts f
+      JOIN chat_messages m ON m.session_id = f.session_id AND m.id = f.message_id
+      JOIN chat_sessions s ON s.id = f.session_id
+      WHERE chat_messages_fts MATCH ?
+      ORDER BY m.created_at DESC
+      LIMIT ${Math.floor(limit)}
+    `;
+    const result = await this.database.query<{
+      sessionId: string;
+      messageId: string;
+      snippet: string;
+      sessionTitle: string;
+      role: StoredChatRole;
+      createdAt: number;
+    }>(sql, [terms.map((term) => `"${term}*"`).join(' ')]);
+    if (!result.ok) {
+      return result;
+    }
+
+    return Ok(
+      result.value.map(({ createdAt, ...row }) => ({ ...row, timestamp: new Date(createdAt) }))
+    );
+  }
+
+  async export(sessionId: string, format: ChatExportFormat): AsyncResult<string> {
+    const session = await this.requireSession(sessionId);
+    if (!session.ok) {
+      return session;
+    }
+    const messages = await this.getMessages(sessionId);
+    if (!messages.ok) {
+      return messages;
+    }
+
+    if (format === 'json') {
+      return Ok(JSON.stringify({ session: session.value, messages: messages.value }, null, 2));
+    }
+
+    const { title, createdAt, missionIds, tokens } = session.value;
+    const lines = [
+      `# ${title}`,
+      '',
+      `- Created: ${createdAt.toISOString()}`,
+      `- Messages: ${messages.value.length}`,
+      `- Tokens: ${tokens.totalTokens}`,
+    ];
+    if (missionIds.length > 0) {
+      lines.push(`- Missions: ${missionIds.join(', ')}`);
+    }
+
+    for (const message of messages.value) {
+      lines.push(
+        '',
+        `## ${ROLE_HEADINGS[message.role]} (${message.timestamp.toISOString()})`,
+        '',
+        message.error ? `> Error: ${message.error}` : message.content
+      );
+    }
+
+    return Ok(lines.join('\n') + '\n');
+  }
+
+  // =========================================================================
+  // Helpers
+  // =========================================================================
+
+  private async requireSession(id: string): AsyncResult<StoredChatSession> {
+    const session = await this.getSession(id);
+    if (!session.ok) {
+      return session;
+    }
+    if (!session.value) {
+      return Err(new AppError('NOT_FOUND', `Chat session not found: ${id}`));
+    }
+    return Ok(session.value);
+  }
+
+  private saveSession(session: StoredChatSession): AsyncResult<void> {
+    if (!this.isReady()) {
+      return Promise.resolve(Err(new AppError('INFRASTRUCTURE', 'Store not ready')));
+    }
+
+    return this.database.execute(
+      `INSERT OR REPLACE INTO chat_sessions (id, title, data, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        session.id,
+        session.title,
+        JSON.stringify(session),
+        session.createdAt.getTime(),
+        session.updatedAt.getTime(),
+      ]
+    );
+  }
+
+  /**
+   * Append messages to their session in order, indexing their text
+   */
+  private async insertMessages(messages: StoredChatMessage[]): AsyncResult<void> {
+    for (const message of messages) {
+      const inserted = await this.database.execute(
+        `INSERT INTO chat_messages (id, session_id, seq, role, data, created_at)
+         VALUES (?, ?, (SELECT COALESCE(MAX(seq), -1) + 1 FROM chat_messages WHERE session_id = ?), ?, ?, ?)`,
+        [
+          message.id,
+          message.sessionId,
+          message.sessionId,
+          message.role,
+          JSON.stringify(message),
+          message.timestamp.getTime(),
+        ]
+      );
+      if (!inserted.ok) {
+        return inserted;
+      }
+
+      const indexed = await this.database.execute(
+        `INSERT INTO chat_messages_fts (content, session_id, message_id) VALUES (?, ?, ?)`,
+        [message.content, message.sessionId, message.id]
+      );
+      if (!indexed.ok) {
+        return indexed;
+      }
+    }
+
+    return Ok(undefined);
+  }
+
+  private addUsage(total: ChatTokenUsage, usage?: ChatTokenUsage): ChatTokenUsage {
+    if (!usage) {
+      return total;
+    }
+    return {
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+    };
+  }
+
+  private toTitle(content: string): string {
+    const line = content.replace(/\s+/g, ' ').trim();
+    if (!line) {
+      return UNTITLED;
+    }
+    return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH)}...` : line;
+  }
+
+  private deserialize<T>(data: string): T {
+    return JSON.parse(data, (key, value: unknown) =>
+      DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value
+    ) as T;
+  }
+}
+
+/**
+ * Create a chat store
+ */
+export function createChatStore(database: IDatabase, logger?: ILogger): IChatStore {
+  return new ChatStore(database, logger);
+}
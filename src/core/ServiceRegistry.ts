@@ -7,14 +7,17 @@
  * - Lifecycle management
  */
 
+import * as path from 'path';
 import {
   IServiceContainer,
   AlterCodeConfig,
   FilePath,
   toFilePath,
+  DEFAULT_STORAGE_CONFIG,
 } from '../types';
 
 import { SERVICE_TOKENS, AlterCodeCore } from './AlterCodeCore';
+import { createChatStore } from './ChatStore';
 
 // Infrastructure
 import {
@@ -23,7 +26,9 @@ import {
   createEventBus,
   createFileSystem,
   createDefaultCache,
-  createInMemoryDatabase,
+  createDatabase,
+  createStorageManager,
+  createBlobStore,
   createConfigManager,
   createQuotaTrackerService,
   createPerformanceMonitor,
@@ -55,6 +60,8 @@ import {
   createSymbolResolverService,
   createAPICheckerService,
   createDependencyVerifierService,
+  createTypeCheckerService,
+  createTestRunnerService,
   createVerificationPipelineService,
 } from '../verification';
 
@@ -64,6 +71,7 @@ import {
   createScopeGuardService,
   createPreflightCheckerService,
   createRollbackService,
+  createMissionGitService,
   createImpactAnalyzerService,
   createVirtualBranchService,
   createMergeEngineService,
@@ -77,6 +85,7 @@ import {
   createMissionManager,
   createExecutionCoordinator,
   createAgentActivityService,
+  createExecutionStore,
 } from '../execution';
 
 // Integration
@@ -95,6 +104,7 @@ export function registerServices(
   config: AlterCodeConfig
 ): void {
   const projectRoot = toFilePath(config.projectRoot);
+  const storage = config.storage ?? DEFAULT_STORAGE_CONFIG;
 
   // ===== Infrastructure Layer =====
 
@@ -120,7 +130,52 @@ export function registerServices(
 
   // Database
   container.registerFactory(SERVICE_TOKENS.Database, () =>
-    createInMemoryDatabase()
+    createDatabase(
+      {
+        path: toFilePath(path.resolve(config.projectRoot, storage.databasePath as string)),
+        autoPersist: true,
+      },
+      container.resolve(SERVICE_TOKENS.Logger)
+    )
+  );
+
+  // Storage Manager
+  container.registerFactory(SERVICE_TOKENS.StorageManager, () => {
+    const storageManager = createStorageManager(
+      container.resolve(SERVICE_TOKENS.Database),
+      container.resolve(SERVICE_TOKENS.Cache),
+      storage,
+      container.resolve(SERVICE_TOKENS.Logger)
+    );
+    storageManager.setKnowledgeStore(container.resolve(ServiceTokens.KnowledgeStore));
+    storageManager.setExecutionStore(container.resolve(SERVICE_TOKENS.ExecutionStore));
+    storageManager.setChatStore(container.resolve(SERVICE_TOKENS.ChatStore));
+    return storageManager;
+  });
+
+  // Execution Store (missions and tasks)
+  container.registerFactory(SERVICE_TOKENS.ExecutionStore, () =>
+    createExecutionStore(
+      container.resolve(SERVICE_TOKENS.Database),
+      container.resolve(SERVICE_TOKENS.Logger)
+    )
+  );
+
+  // Chat Store (chat sessions and messages)
+  container.registerFactory(SERVICE_TOKENS.ChatStore, () =>
+    createChatStore(
+      container.resolve(SERVICE_TOKENS.Database),
+      container.resolve(SERVICE_TOKENS.Logger)
+    )
+  );
+
+  // Blob Store
+  container.registerFactory(SERVICE_TOKENS.BlobStore, () =>
+    createBlobStore(
+      container.resolve(SERVICE_TOKENS.FileSystem),
+      toFilePath(path.resolve(config.projectRoot, storage.snapshotPath as string, 'blobs')),
+      container.resolve(SERVICE_TOKENS.Logger)
+    )
   );
 
   // Config Manager
@@ -132,8 +187,11 @@ export function registerServices(
   container.registerFactory(SERVICE_TOKENS.QuotaTracker, () =>
     createQuotaTrackerService(
       container.resolve(SERVICE_TOKENS.EventBus),
-      undefined,
-      container.resolve(SERVICE_TOKENS.Logger)
+      config.quota,
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        database: container.resolve(SERVICE_TOKENS.Database),
+      }
     )
   );
 
@@ -215,6 +273,7 @@ export function registerServices(
       container.resolve(SERVICE_TOKENS.SemanticIndex),
       container.resolve(SERVICE_TOKENS.FileSystem),
       container.resolve(SERVICE_TOKENS.TokenBudget),
+      container.resolve(SERVICE_TOKENS.ProgressiveDisclosure),
       projectRoot,
       container.resolve(SERVICE_TOKENS.Logger)
     )
@@ -276,6 +335,26 @@ export function registerServices(
     )
   );
 
+  // Type Checker
+  container.registerFactory(SERVICE_TOKENS.TypeChecker, () =>
+    createTypeCheckerService(
+      projectRoot,
+      container.resolve(SERVICE_TOKENS.Logger)
+    )
+  );
+
+  // Test Runner
+  container.registerFactory(SERVICE_TOKENS.TestRunner, () =>
+    createTestRunnerService(
+      projectRoot,
+      container.resolve(SERVICE_TOKENS.SemanticIndex),
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        timeoutMs: config.verification?.testTimeout,
+      }
+    )
+  );
+
   // Verification Pipeline
   container.registerFactory(SERVICE_TOKENS.VerificationPipeline, () =>
     createVerificationPipelineService(
@@ -283,7 +362,15 @@ export function registerServices(
       container.resolve(SERVICE_TOKENS.SymbolResolver),
       container.resolve(SERVICE_TOKENS.APIChecker),
       container.resolve(SERVICE_TOKENS.DependencyVerifier),
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        conventionExtractor: container.resolve(SERVICE_TOKENS.ConventionExtractor),
+        conventionStrictness: config.verification?.conventionStrictness,
+        typeChecker: container.resolve(SERVICE_TOKENS.TypeChecker),
+        testRunner: config.verification?.runTests === false
+          ? undefined
+          : container.resolve(SERVICE_TOKENS.TestRunner),
+      }
     )
   );
 
@@ -292,7 +379,12 @@ export function registerServices(
   // Intent Parser
   container.registerFactory(SERVICE_TOKENS.IntentParser, () =>
     createIntentParserService(
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        llmAdapter: container.resolve(SERVICE_TOKENS.LLMAdapter),
+        semanticIndex: container.resolve(SERVICE_TOKENS.SemanticIndex),
+        config: config.intent,
+      }
     )
   );
 
@@ -301,7 +393,8 @@ export function registerServices(
     createScopeGuardService(
       container.resolve(SERVICE_TOKENS.FileSystem),
       projectRoot,
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      { activityService: container.resolve(SERVICE_TOKENS.AgentActivity) }
     )
   );
 
@@ -310,7 +403,20 @@ export function registerServices(
     createRollbackService(
       container.resolve(SERVICE_TOKENS.FileSystem),
       projectRoot,
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        database: container.resolve(SERVICE_TOKENS.Database),
+        blobStore: container.resolve(SERVICE_TOKENS.BlobStore),
+      }
+    )
+  );
+
+  // Mission Git
+  container.registerFactory(SERVICE_TOKENS.MissionGit, () =>
+    createMissionGitService(
+      projectRoot,
+      container.resolve(SERVICE_TOKENS.Logger),
+      { config: config.git }
     )
   );
 
@@ -339,7 +445,11 @@ export function registerServices(
     createVirtualBranchService(
       container.resolve(SERVICE_TOKENS.FileSystem),
       container.resolve(SERVICE_TOKENS.EventBus),
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        semanticAnalyzer: container.resolve(SERVICE_TOKENS.SemanticAnalyzer),
+        scopeGuard: container.resolve(SERVICE_TOKENS.ScopeGuard),
+      }
     )
   );
 
@@ -355,7 +465,8 @@ export function registerServices(
   // ===== Integration Layer =====
 
   // Hierarchy Model Router
-  // Routes requests based on hierarchy level:
+  // Routes requests based on hierarchy level (and agent role) through the
+  // routing table. Default table:
   // - Sovereign/Lord/Overlord → Claude Opus (via API or CLI)
   // - Worker → GLM-4
   container.registerFactory(SERVICE_TOKENS.HierarchyModelRouter, () => {
@@ -369,12 +480,16 @@ export function registerServices(
       {
         claudeMode,
         claudeApiKey: claudeMode === 'api' ? claudeApiKey : undefined,
+        claudeModel: config.llm?.provider === 'claude' ? config.llm.model : undefined,
         claudeCliPath: config.claude?.cliPath,
         glmApiKey,
+        glmModel: config.glm?.model,
+        glmEndpoint: config.glm?.endpoint ? config.glm.endpoint : undefined,
         enableFallback,
         workingDirectory: typeof config.projectRoot === 'string'
           ? config.projectRoot
           : undefined,
+        routing: config.llm?.routing,
       },
       container.resolve(SERVICE_TOKENS.Logger)
     );
@@ -389,7 +504,11 @@ export function registerServices(
     // Use hierarchy router if:
     // - Claude CLI mode (always has Claude via CLI)
     // - OR both Claude API key and GLM key available
-    if (claudeMode === 'cli' || (claudeApiKey && glmApiKey)) {
+    // - OR a routing table is configured
+    const routing = config.llm?.routing;
+    const hasRouting =
+      Object.keys(routing?.levels ?? {}).length > 0 || Object.keys(routing?.roles ?? {}).length > 0;
+    if (claudeMode === 'cli' || (claudeApiKey && glmApiKey) || hasRouting) {
       return container.resolve(SERVICE_TOKENS.HierarchyModelRouter);
     }
 
@@ -445,7 +564,10 @@ export function registerServices(
   container.registerFactory(SERVICE_TOKENS.TaskManager, () =>
     createTaskManager(
       container.resolve(SERVICE_TOKENS.EventBus),
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        store: container.resolve(SERVICE_TOKENS.ExecutionStore),
+      }
     )
   );
 
@@ -479,7 +601,10 @@ export function registerServices(
       container.resolve(SERVICE_TOKENS.TaskManager),
       container.resolve(SERVICE_TOKENS.Rollback),
       container.resolve(SERVICE_TOKENS.EventBus),
-      container.resolve(SERVICE_TOKENS.Logger)
+      container.resolve(SERVICE_TOKENS.Logger),
+      {
+        store: container.resolve(SERVICE_TOKENS.ExecutionStore),
+      }
     )
   );
 
@@ -497,9 +622,23 @@ export function registerServices(
       container.resolve(SERVICE_TOKENS.EventBus),
       container.resolve(SERVICE_TOKENS.Logger),
       {
+        config: {
+          conventionStrictness: config.verification?.conventionStrictness,
+        },
         approvalService: container.resolve(SERVICE_TOKENS.ApprovalService),
         branchService: container.resolve(SERVICE_TOKENS.VirtualBranch),
         mergeEngine: container.resolve(SERVICE_TOKENS.MergeEngine),
+        fileSystem: container.resolve(SERVICE_TOKENS.FileSystem),
+        projectRoot,
+        semanticIndex: container.resolve(SERVICE_TOKENS.SemanticIndex),
+        scopeGuard: container.resolve(SERVICE_TOKENS.ScopeGuard),
+        errorMemory: container.resolve(SERVICE_TOKENS.ErrorMemory),
+        conventionExtractor: container.resolve(SERVICE_TOKENS.ConventionExtractor),
+        testRunner: config.verification?.runTests === false
+          ? undefined
+          : container.resolve(SERVICE_TOKENS.TestRunner),
+        typeChecker: container.resolve(SERVICE_TOKENS.TypeChecker),
+        missionGit: container.resolve(SERVICE_TOKENS.MissionGit),
       }
     )
   );
@@ -3,6 +3,8 @@
  *
  * Re-exports core layer implementations:
  * - AlterCodeCore (main orchestrator)
+ * - ChatSession (conversation memory)
+ * - ChatStore, ChatHistory (stored chat sessions)
  * - ServiceRegistry (DI bootstrap)
  * - Streaming types
  */
@@ -10,6 +12,13 @@
 // Core
 export { AlterCodeCore, createAlterCodeCore, SERVICE_TOKENS } from './AlterCodeCore';
 
+// Chat sessions
+export { ChatSession, createChatSession, formatConversationSummary } from './ChatSession';
+export type { ChatSessionConfig, ChatSessionState, ChatSummaryText } from './ChatSession';
+export { ChatStore, createChatStore } from './ChatStore';
+export { ChatHistory, createChatHistory } from './ChatHistory';
+export type { ChatHistoryEntry, ChatFork } from './ChatHistory';
+
 // Service Registry
 export { registerServices, bootstrap, quickStart } from './ServiceRegistry';
 
@@ -29,6 +38,7 @@ export type {
 } from './streaming';
 
 export {
+  AGENT_LOOP_LIMITS,
   isTextChunk,
   isThinkingChunk,
   isToolUseChunk,
@@ -46,6 +56,10 @@ export {
   ToolExecutor,
   createToolExecutor,
   registerFileTools,
+  registerCommandTools,
+  registerCodeTools,
+  evaluateCommand,
+  DEFAULT_COMMAND_POLICY,
   TOOL_NAMES,
 } from './tools';
 
@@ -11,6 +11,8 @@
  */
 
 import type { LLMUsage } from '../types';
+import type { FileChange as ToolFileChange } from './tools/definitions';
+import type { ChatSession } from './ChatSession';
 
 // ============================================================================
 // Stream Chunk Types
@@ -43,6 +45,8 @@ export interface ToolResultStreamChunk {
   name: string;
   result: string;
   isError?: boolean;
+  /** Output of a tool still running; the final chunk for the call has the whole result */
+  partial?: boolean;
 }
 
 /** Token usage chunk */
@@ -103,7 +107,25 @@ export interface StreamMessageOptions {
   tools?: StreamingTool[];
   /** System prompt override */
   systemPrompt?: string;
-}
+  /** Approval handler for tools that modify the workspace */
+  requestApproval?: (description: string, changes: ToolFileChange[]) => Promise<boolean>;
+  /** Maximum model turns in the tool-use loop */
+  maxTurns?: number;
+  /** Stop the tool-use loop once this many tokens have been used */
+  maxTotalTokens?: number;
+  /** Conversation the message belongs to; its history is sent and the exchange recorded */
+  session?: ChatSession;
+}
+
+/** Default limits for the agentic tool-use loop */
+export const AGENT_LOOP_LIMITS = {
+  maxTurns: 10,
+  maxTotalTokens: 200000,
+  /** Rate-limited requests retried per turn before the stream fails */
+  maxRateLimitRetries: 3,
+  /** Tool output longer than this is truncated before being sent back */
+  maxToolResultChars: 30000,
+} as const;
 
 /** Tool definition for streaming */
 export interface StreamingTool {
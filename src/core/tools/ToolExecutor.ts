@@ -96,8 +96,13 @@ export class ToolExecutor {
         }
       }
 
-      // Execute the tool
-      const result = await tool.execute(input, context);
+      // Execute the tool (approval already handled above, so the tool must not ask again)
+      // Scope confirmations go to the approval handler
+      const result = await tool.execute(input, {
+        ...context,
+        requestApproval: tool.definition.requiresApproval ? undefined : context.requestApproval,
+        confirmScopeViolation: context.confirmScopeViolation ?? context.requestApproval ?? this.defaultApprovalHandler,
+      });
       const duration = Date.now() - startTime;
 
       // Emit tool execution completed event
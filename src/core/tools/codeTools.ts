@@ -0,0 +1,241 @@
+/**
+ * Code Intelligence Tools
+ *
+ * Implements tools that answer questions about the code without grepping:
+ * - search_code queries the semantic index for symbols, callers/callees,
+ *   imports, exports and importers
+ * - get_diagnostics lists the compiler's current errors and warnings
+ */
+
+import * as path from 'path';
+import type {
+  ISemanticIndexService,
+  ITypeCheckerService,
+  AnySymbol,
+  SymbolKind,
+  SourceLocation,
+  VerificationIssue,
+  RelativePath,
+} from '../../types';
+import { toRelativePath } from '../../types';
+import type { ToolRegistry } from './ToolRegistry';
+import type { ToolInput, ToolResult, ToolContext } from './definitions';
+import { createSearchCodeToolDef, createGetDiagnosticsToolDef } from './definitions';
+
+/** What search_code looks up */
+type SearchMode = 'symbols' | 'callers' | 'callees' | 'imports' | 'exports' | 'importers';
+
+const SEARCH_MODES: SearchMode[] = ['symbols', 'callers', 'callees', 'imports', 'exports', 'importers'];
+const SYMBOL_KINDS: SymbolKind[] = ['function', 'class', 'interface', 'type', 'variable', 'enum'];
+
+/** A search_code result, returned as metadata for programmatic use */
+interface CodeSearchResult {
+  readonly file: string;
+  readonly line: number;
+  readonly column?: number;
+  readonly name: string;
+  readonly kind?: string;
+  readonly detail?: string;
+}
+
+/**
+ * Register the code intelligence tools with the registry
+ */
+export function registerCodeTools(
+  registry: ToolRegistry,
+  semanticIndex: ISemanticIndexService,
+  typeChecker: ITypeCheckerService
+): void {
+  // Search Code
+  registry.register(createSearchCodeToolDef(), (input, context) => {
+    // Index lookups are synchronous
+    return Promise.resolve(searchCodeTool(input, context, semanticIndex));
+  });
+
+  // Get Diagnostics
+  registry.register(createGetDiagnosticsToolDef(), async (input, context) => {
+    return getDiagnosticsTool(input, context, typeChecker);
+  });
+}
+
+/**
+ * Search code tool implementation
+ */
+function searchCodeTool(
+  input: ToolInput,
+  context: ToolContext,
+  semanticIndex: ISemanticIndexService
+): ToolResult {
+  const query = (input.query as string).trim();
+  const mode = ((input.mode as string | undefined) ?? 'symbols') as SearchMode;
+  const symbolKind = input.symbolKind as SymbolKind | undefined;
+  const maxResults = (input.maxResults as number) || 50;
+
+  if (!SEARCH_MODES.includes(mode)) {
+    return {
+      success: false,
+      content: '',
+      error: `Unknown search mode: ${mode} (expected one of ${SEARCH_MODES.join(', ')})`,
+    };
+  }
+  if (symbolKind && !SYMBOL_KINDS.includes(symbolKind)) {
+    return {
+      success: false,
+      content: '',
+      error: `Unknown symbol kind: ${symbolKind} (expected one of ${SYMBOL_KINDS.join(', ')})`,
+    };
+  }
+
+  const results = findResults(semanticIndex, mode, query, symbolKind, context);
+  const shown = results.slice(0, maxResults);
+  const output = shown
+    .map((r) => `${r.file}:${r.line}: ${[r.kind, r.name].filter(Boolean).join(' ')}${r.detail ? ` ${r.detail}` : ''}`)
+    .join('\n');
+  const more = results.length > shown.length ? `\n... ${results.length - shown.length} more` : '';
+
+  return {
+    success: true,
+    content: output ? `${output}${more}` : `No ${mode} found for ${query}`,
+    metadata: {
+      query,
+      mode,
+      resultCount: results.length,
+      results: shown,
+    },
+  };
+}
+
+function findResults(
+  semanticIndex: ISemanticIndexService,
+  mode: SearchMode,
+  query: string,
+  symbolKind: SymbolKind | undefined,
+  context: ToolContext
+): CodeSearchResult[] {
+  switch (mode) {
+    case 'symbols':
+      return semanticIndex
+        .search(query, { kinds: symbolKind ? [symbolKind] : undefined, limit: 200 })
+        .map(({ symbol }) => ({ ...fromLocation(symbol.location), name: symbol.name, kind: symbol.kind, detail: describeSymbol(symbol) }));
+
+    case 'callers':
+      return semanticIndex.getCallers(query).map((call) => ({
+        ...fromLocation(call.location),
+        name: call.callee,
+        kind: 'call',
+        detail: call.caller ? `in ${call.caller}` : 'at module level',
+      }));
+
+    case 'callees':
+      return semanticIndex.getCallees(query).map((callee) => {
+        const definition = semanticIndex.findSymbol(callee)[0];
+        return definition
+          ? { ...fromLocation(definition.location), name: callee, kind: definition.kind }
+          : { file: '(not indexed)', line: 0, name: callee };
+      });
+
+    case 'imports': {
+      const file = toIndexPath(query, context);
+      return semanticIndex.getImports(file).map((imp) => ({
+        ...fromLocation(imp.location),
+        name: imp.source,
+        kind: 'import',
+        detail: imp.specifiers.length > 0
+          ? `{ ${imp.specifiers.map((s) => (s.imported === s.local ? s.local : `${s.imported} as ${s.local}`)).join(', ')} }`
+          : undefined,
+      }));
+    }
+
+    case 'exports': {
+      const file = toIndexPath(query, context);
+      return semanticIndex.getExports(file).map((exp) => ({
+        ...fromLocation(exp.location),
+        name: exp.name,
+        kind: exp.isDefault ? 'default export' : 'export',
+        detail: exp.isReExport && exp.from ? `from ${exp.from}` : undefined,
+      }));
+    }
+
+    case 'importers': {
+      const file = toIndexPath(query, context);
+      return semanticIndex.getImporters(file).map((importer) => ({
+        file: importer,
+        line: 1,
+        name: file,
+        kind: 'imports',
+      }));
+    }
+  }
+}
+
+/**
+ * Get diagnostics tool implementation
+ */
+async function getDiagnosticsTool(
+  input: ToolInput,
+  context: ToolContext,
+  typeChecker: ITypeCheckerService
+): Promise<ToolResult> {
+  const filePath = input.path as string | undefined;
+  const maxResults = (input.maxResults as number) || 100;
+
+  const result = await typeChecker.getDiagnostics(filePath ? [toIndexPath(filePath, context)] : undefined);
+  if (!result.ok) {
+    return {
+      success: false,
+      content: '',
+      error: `Failed to get diagnostics: ${result.error.message}`,
+    };
+  }
+
+  const diagnostics = result.value;
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  const shown = diagnostics.slice(0, maxResults);
+  const output = shown.map(formatDiagnostic).join('\n');
+  const more = diagnostics.length > shown.length ? `\n... ${diagnostics.length - shown.length} more` : '';
+
+  return {
+    success: true,
+    content: output
+      ? `${errorCount} error(s), ${diagnostics.length - errorCount} warning(s)\n${output}${more}`
+      : `No problems found in ${filePath ?? 'the project'}`,
+    metadata: {
+      path: filePath,
+      errorCount,
+      warningCount: diagnostics.length - errorCount,
+    },
+  };
+}
+
+function formatDiagnostic(issue: VerificationIssue): string {
+  const location = !issue.location
+    ? 'project'
+    : 'line' in issue.location
+      ? `${issue.location.file}:${issue.location.line}:${issue.location.column}`
+      : issue.location.file;
+  return `${location}: ${issue.severity} ${issue.code}: ${issue.message}`;
+}
+
+function describeSymbol(symbol: AnySymbol): string | undefined {
+  const exported = symbol.exported ? ' (exported)' : '';
+  switch (symbol.kind) {
+    case 'function':
+      return `(${symbol.parameters.map((p) => `${p.rest ? '...' : ''}${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')}): ${symbol.returnType}${exported}`;
+    case 'class':
+      return `${symbol.extends ? `extends ${symbol.extends} ` : ''}{ ${symbol.members.map((m) => m.name).join(', ')} }${exported}`;
+    default:
+      return exported ? exported.trim() : undefined;
+  }
+}
+
+function fromLocation(location: SourceLocation): { file: string; line: number; column: number } {
+  return { file: location.file as string, line: location.line as number, column: location.column as number };
+}
+
+/**
+ * Workspace path as the index stores it: relative, with forward slashes
+ */
+function toIndexPath(filePath: string, context: ToolContext): RelativePath {
+  const relative = path.isAbsolute(filePath) ? path.relative(context.workspaceRoot, filePath) : path.normalize(filePath);
+  return toRelativePath(relative.replace(/\\/g, '/'));
+}
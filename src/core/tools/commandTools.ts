@@ -0,0 +1,262 @@
+/**
+ * Command Tools
+ *
+ * Implements the run_command tool:
+ * - Commands are checked against an allow/deny policy; anything not allowed
+ *   needs user approval
+ * - Runs in the workspace root with a timeout and an output size limit
+ * - Output is streamed to the context as it is produced
+ * - Secrets are removed from the environment, and cancellation stops the
+ *   whole process tree
+ */
+
+import { spawn } from 'child_process';
+import type { CommandPolicyConfig } from '../../types';
+import { killProcessTree } from '../../utils/ProcessTree';
+import type { ToolRegistry } from './ToolRegistry';
+import type { ToolInput, ToolResult, ToolContext } from './definitions';
+import { createRunCommandToolDef } from './definitions';
+
+/** Policy applied when the configuration gives none */
+export const DEFAULT_COMMAND_POLICY: CommandPolicyConfig = {
+  allow: ['npm test', 'npm run test', 'npm run lint', 'tsc --noEmit', 'npx tsc --noEmit'],
+  deny: ['sudo', 'su', 'rm -rf /', 'rm -rf ~', 'mkfs', 'dd', 'shutdown', 'reboot', 'git push', 'npm publish'],
+};
+
+/** What to do with a command */
+export type CommandDecision = 'allow' | 'ask' | 'deny';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const MAX_TIMEOUT_MS = 600000;
+const DEFAULT_MAX_OUTPUT_CHARS = 30000;
+
+/** Shell operators that chain, pipe, redirect or substitute commands */
+const SHELL_OPERATORS = /&&|\|\||[;&|<>\n`]|\$\(/;
+
+/** Environment variables that hold credentials */
+const SECRET_ENV_PATTERN = /SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIAL|AUTH/i;
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Register the command tools with the registry
+ */
+export function registerCommandTools(
+  registry: ToolRegistry,
+  options?: {
+    policy?: Partial<CommandPolicyConfig>;
+    maxOutputChars?: number;
+  }
+): void {
+  const policy: CommandPolicyConfig = {
+    allow: options?.policy?.allow ?? DEFAULT_COMMAND_POLICY.allow,
+    deny: options?.policy?.deny ?? DEFAULT_COMMAND_POLICY.deny,
+  };
+  const maxOutputChars = options?.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+
+  // Run Command
+  registry.register(createRunCommandToolDef(), async (input, context) => {
+    return runCommandTool(input, context, policy, maxOutputChars);
+  });
+}
+
+/**
+ * Decide whether a command runs, needs approval or is refused.
+ * Compound commands are never allowed without approval.
+ */
+export function evaluateCommand(command: string, policy: CommandPolicyConfig): CommandDecision {
+  const normalized = normalizeCommand(command);
+  const parts = normalized.split(/&&|\|\||[;&|\n()`]/).map(normalizeCommand).filter(Boolean);
+
+  if (parts.some((part) => policy.deny.some((entry) => matchesEntry(part, entry)))) {
+    return 'deny';
+  }
+  if (!SHELL_OPERATORS.test(normalized) && policy.allow.some((entry) => matchesEntry(normalized, entry))) {
+    return 'allow';
+  }
+  return 'ask';
+}
+
+/**
+ * Copy of an environment without variables that hold credentials
+ */
+export function scrubEnvironment(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const scrubbed: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (!SECRET_ENV_PATTERN.test(key)) {
+      scrubbed[key] = value;
+    }
+  }
+  return scrubbed;
+}
+
+/**
+ * Run command tool implementation
+ */
+async function runCommandTool(
+  input: ToolInput,
+  context: ToolContext,
+  policy: CommandPolicyConfig,
+  maxOutputChars: number
+): Promise<ToolResult> {
+  const command = (input.command as string).trim();
+  const timeoutMs = Math.min(
+    typeof input.timeout === 'number' && input.timeout > 0 ? input.timeout * 1000 : DEFAULT_TIMEOUT_MS,
+    MAX_TIMEOUT_MS
+  );
+
+  const decision = evaluateCommand(command, policy);
+  if (decision === 'deny') {
+    return {
+      success: false,
+      content: '',
+      error: `Blocked by command policy: ${command}`,
+    };
+  }
+
+  if (decision === 'ask') {
+    if (!context.requestApproval) {
+      return {
+        success: false,
+        content: '',
+        error: `Command needs approval: ${command}`,
+      };
+    }
+    const approved = await context.requestApproval(`Run command: ${command}`, []);
+    if (!approved) {
+      return {
+        success: false,
+        content: '',
+        error: 'User cancelled the operation',
+      };
+    }
+  }
+
+  if (context.abortSignal?.aborted) {
+    return {
+      success: false,
+      content: '',
+      error: 'Command cancelled',
+    };
+  }
+
+  const startTime = Date.now();
+  const run = await execute(command, context, timeoutMs, maxOutputChars);
+  const output = run.omitted > 0
+    ? `[${run.omitted} characters of earlier output omitted]\n${run.output}`
+    : run.output;
+  const content = `$ ${command}\n${output}${output.endsWith('\n') || !output ? '' : '\n'}[exit code ${run.exitCode ?? 'none'}]`;
+  const metadata = {
+    command,
+    exitCode: run.exitCode,
+    duration: Date.now() - startTime,
+    truncated: run.omitted > 0,
+  };
+
+  if (run.cancelled) {
+    return { success: false, content, error: 'Command cancelled', metadata };
+  }
+  if (run.timedOut) {
+    return { success: false, content, error: `Command timed out after ${timeoutMs / 1000}s`, metadata };
+  }
+  if (run.exitCode !== 0) {
+    return { success: false, content, error: `Command failed with exit code ${run.exitCode ?? 'none'}`, metadata };
+  }
+  return { success: true, content, metadata };
+}
+
+interface CommandRun {
+  readonly exitCode: number | null;
+  /** Last output, at most the output limit */
+  readonly output: string;
+  /** Characters dropped from the start of the output */
+  readonly omitted: number;
+  readonly timedOut: boolean;
+  readonly cancelled: boolean;
+}
+
+/**
+ * Spawn the command in its own process group and collect its output
+ */
+function execute(
+  command: string,
+  context: ToolContext,
+  timeoutMs: number,
+  maxOutputChars: number
+): Promise<CommandRun> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, {
+      cwd: context.workspaceRoot,
+      env: scrubEnvironment(process.env),
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: true,
+      // A process group of its own, so the whole tree can be stopped
+      detached: !isWindows,
+      windowsHide: true,
+    });
+
+    let output = '';
+    let total = 0;
+    let streamed = 0;
+    let timedOut = false;
+    let cancelled = false;
+
+    // Decoded as a stream, so characters split across chunks stay whole
+    const onData = (text: string): void => {
+      total += text.length;
+      output += text;
+      if (output.length > maxOutputChars * 2) {
+        output = output.slice(-maxOutputChars);
+      }
+
+      // Stream until the limit, then say once that the rest is not shown
+      if (streamed < maxOutputChars) {
+        const shown = text.slice(0, maxOutputChars - streamed);
+        streamed += text.length;
+        context.onOutput?.(streamed > maxOutputChars ? `${shown}\n[output truncated]\n` : shown);
+      }
+    };
+    proc.stdout?.setEncoding('utf8');
+    proc.stderr?.setEncoding('utf8');
+    proc.stdout?.on('data', onData);
+    proc.stderr?.on('data', onData);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(proc);
+    }, timeoutMs);
+    const onAbort = (): void => {
+      cancelled = true;
+      killProcessTree(proc);
+    };
+    context.abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    const finish = (exitCode: number | null): void => {
+      clearTimeout(timer);
+      context.abortSignal?.removeEventListener('abort', onAbort);
+      const kept = output.slice(-maxOutputChars);
+      resolve({
+        exitCode,
+        output: kept,
+        omitted: total - kept.length,
+        timedOut,
+        cancelled,
+      });
+    };
+    proc.on('close', finish);
+    proc.on('error', (error) => {
+      output += error.message;
+      total += error.message.length;
+      finish(null);
+    });
+  });
+}
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+function matchesEntry(command: string, entry: string): boolean {
+  const normalized = normalizeCommand(entry);
+  return normalized.length > 0 && (command === normalized || command.startsWith(`${normalized} `));
+}
@@ -5,6 +5,8 @@
  * during LLM streaming.
  */
 
+import type { MissionId } from '../../types';
+
 // ============================================================================
 // Core Types
 // ============================================================================
@@ -59,6 +61,12 @@ export interface ToolContext {
   abortSignal?: AbortSignal;
   /** Request user approval */
   requestApproval?: (description: string, changes: FileChange[]) => Promise<boolean>;
+  /** Confirm a change the scope policy flags; a confirmed change needs no further approval */
+  confirmScopeViolation?: (description: string, changes: FileChange[]) => Promise<boolean>;
+  /** Mission whose scope policy applies to writes */
+  missionId?: MissionId;
+  /** Receive output of long-running tools as it is produced */
+  onOutput?: (output: string) => void;
 }
 
 /** File change for approval */
@@ -256,3 +264,89 @@ export function createSearchFilesToolDef(): ToolDefinition {
     ],
   };
 }
+
+/** Create a run_command tool definition */
+export function createRunCommandToolDef(): ToolDefinition {
+  return {
+    name: TOOL_NAMES.RUN_COMMAND,
+    description: 'Run a shell command in the workspace root and return its output. Commands outside the allowed list need user approval.',
+    category: 'code',
+    parameters: [
+      {
+        name: 'command',
+        type: 'string',
+        description: 'The command line to run (e.g., "npm test")',
+        required: true,
+      },
+      {
+        name: 'timeout',
+        type: 'number',
+        description: 'Seconds to wait before the command is stopped',
+        required: false,
+        default: 60,
+      },
+    ],
+  };
+}
+
+/** Create a search_code tool definition */
+export function createSearchCodeToolDef(): ToolDefinition {
+  return {
+    name: TOOL_NAMES.SEARCH_CODE,
+    description:
+      'Query the code index: find symbol definitions, the call sites of a function or method, the functions it calls, or the imports, exports and importers of a file',
+    category: 'search',
+    parameters: [
+      {
+        name: 'query',
+        type: 'string',
+        description: 'Symbol name (e.g., "parseConfig" or "ConfigLoader.load"), or a file path for imports, exports and importers',
+        required: true,
+      },
+      {
+        name: 'mode',
+        type: 'string',
+        description: 'One of "symbols", "callers", "callees", "imports", "exports", "importers"',
+        required: false,
+        default: 'symbols',
+      },
+      {
+        name: 'symbolKind',
+        type: 'string',
+        description: 'Only find symbols of this kind: "function", "class", "interface", "type", "variable" or "enum"',
+        required: false,
+      },
+      {
+        name: 'maxResults',
+        type: 'number',
+        description: 'Maximum number of results to return',
+        required: false,
+        default: 50,
+      },
+    ],
+  };
+}
+
+/** Create a get_diagnostics tool definition */
+export function createGetDiagnosticsToolDef(): ToolDefinition {
+  return {
+    name: TOOL_NAMES.GET_DIAGNOSTICS,
+    description: 'Get the current compiler errors and warnings of a file, or of the whole project',
+    category: 'system',
+    parameters: [
+      {
+        name: 'path',
+        type: 'string',
+        description: 'The file to check (relative to workspace root); the whole project when omitted',
+        required: false,
+      },
+      {
+        name: 'maxResults',
+        type: 'number',
+        description: 'Maximum number of diagnostics to return',
+        required: false,
+        default: 100,
+      },
+    ],
+  };
+}
@@ -2,13 +2,14 @@
  * File Operation Tools
  *
  * Implements file-related tools for reading, writing, and editing files.
+ * Writes go through the scope guard when one is provided.
  */
 
 import * as path from 'path';
-import type { IFileSystem, FilePath } from '../../types';
+import type { IFileSystem, FilePath, IScopeGuardService, ExtendedFileOperationType } from '../../types';
 import { toFilePath } from '../../types';
 import type { ToolRegistry } from './ToolRegistry';
-import type { ToolInput, ToolResult, ToolContext } from './definitions';
+import type { ToolInput, ToolResult, ToolContext, FileChange } from './definitions';
 import {
   createReadFileToolDef,
   createWriteFileToolDef,
@@ -23,8 +24,13 @@ import {
  */
 export function registerFileTools(
   registry: ToolRegistry,
-  fileSystem: IFileSystem
+  fileSystem: IFileSystem,
+  options?: {
+    scopeGuard?: IScopeGuardService;
+  }
 ): void {
+  const scopeGuard = options?.scopeGuard;
+
   // Read File
   registry.register(createReadFileToolDef(), async (input, context) => {
     return readFileTool(input, context, fileSystem);
@@ -32,12 +38,12 @@ export function registerFileTools(
 
   // Write File
   registry.register(createWriteFileToolDef(), async (input, context) => {
-    return writeFileTool(input, context, fileSystem);
+    return writeFileTool(input, context, fileSystem, scopeGuard);
   });
 
   // Edit File
   registry.register(createEditFileToolDef(), async (input, context) => {
-    return editFileTool(input, context, fileSystem);
+    return editFileTool(input, context, fileSystem, scopeGuard);
   });
 
   // List Files
@@ -114,7 +120,8 @@ async function readFileTool(
 async function writeFileTool(
   input: ToolInput,
   context: ToolContext,
-  fileSystem: IFileSystem
+  fileSystem: IFileSystem,
+  scopeGuard?: IScopeGuardService
 ): Promise<ToolResult> {
   const filePath = input.path as string;
   const content = input.content as string;
@@ -129,8 +136,21 @@ async function writeFileTool(
     const exists = await fileSystem.exists(filePathTyped);
     const action = exists ? 'overwritten' : 'created';
 
-    // Request approval if handler available
-    if (context.requestApproval) {
+    const scope = await checkScope(scopeGuard, TOOL_NAMES.WRITE_FILE, exists ? 'write' : 'create', filePathTyped, context, {
+      filePath,
+      changeType: exists ? 'modify' : 'create',
+      newContent: content,
+    });
+    if (scope.error) {
+      return {
+        success: false,
+        content: '',
+        error: scope.error,
+      };
+    }
+
+    // Request approval if handler available, unless the scope confirmation already showed this change
+    if (context.requestApproval && !scope.confirmed) {
       const originalContent = exists ? await fileSystem.readFile(filePathTyped) : undefined;
       const approved = await context.requestApproval(
         `${action === 'created' ? 'Create' : 'Overwrite'} file: ${filePath}`,
@@ -189,7 +209,8 @@ async function writeFileTool(
 async function editFileTool(
   input: ToolInput,
   context: ToolContext,
-  fileSystem: IFileSystem
+  fileSystem: IFileSystem,
+  scopeGuard?: IScopeGuardService
 ): Promise<ToolResult> {
   const filePath = input.path as string;
   const oldText = input.oldText as string;
@@ -236,8 +257,22 @@ async function editFileTool(
     // Apply the edit
     const newContent = originalContent.replace(oldText, newText);
 
-    // Request approval if handler available
-    if (context.requestApproval) {
+    const scope = await checkScope(scopeGuard, TOOL_NAMES.EDIT_FILE, 'write', filePathTyped, context, {
+      filePath,
+      changeType: 'modify',
+      originalContent,
+      newContent,
+    });
+    if (scope.error) {
+      return {
+        success: false,
+        content: '',
+        error: scope.error,
+      };
+    }
+
+    // Request approval if handler available, unless the scope confirmation already showed this change
+    if (context.requestApproval && !scope.confirmed) {
       const approved = await context.requestApproval(`Edit file: ${filePath}`, [
         {
           filePath,
@@ -419,6 +454,46 @@ async function searchFilesTool(
   }
 }
 
+/**
+ * Enforce the scope policy on a write.
+ * Returns an error message when it is refused, and whether the user confirmed it.
+ */
+async function checkScope(
+  scopeGuard: IScopeGuardService | undefined,
+  toolName: string,
+  type: ExtendedFileOperationType,
+  filePath: FilePath,
+  context: ToolContext,
+  change: FileChange
+): Promise<{ error: string | null; confirmed: boolean }> {
+  if (!scopeGuard) {
+    return { error: null, confirmed: false };
+  }
+
+  const confirm = context.confirmScopeViolation;
+  let confirmed = false;
+  const decision = await scopeGuard.enforce(
+    { type, path: filePath, missionId: context.missionId, content: change.newContent },
+    {
+      source: `tool:${toolName}`,
+      confirm: confirm
+        ? async (violation): Promise<boolean> => {
+            confirmed = await confirm(`${violation.reason}: ${change.filePath}`, [change]);
+            return confirmed;
+          }
+        : undefined,
+    }
+  );
+
+  if (decision.allowed) {
+    return { error: null, confirmed };
+  }
+  const error = decision.outcome === 'rejected'
+    ? 'User cancelled the operation'
+    : `Blocked by scope policy: ${decision.violation?.reason ?? 'not allowed'}`;
+  return { error, confirmed: false };
+}
+
 /**
  * Generate a simple diff string
  */
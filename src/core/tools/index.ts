@@ -5,9 +5,13 @@
  * - Tool registry for registering available tools
  * - Tool executor for running tools with proper error handling
  * - Built-in file operation tools
+ * - Command tool with an allow/deny policy
+ * - Code intelligence tools over the semantic index and type checker
  */
 
 export { ToolRegistry, createToolRegistry } from './ToolRegistry';
 export { ToolExecutor, createToolExecutor } from './ToolExecutor';
 export * from './definitions';
 export * from './fileTools';
+export * from './commandTools';
+export * from './codeTools';
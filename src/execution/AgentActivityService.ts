@@ -6,6 +6,7 @@
  * - Stores prompt and response (truncated)
  * - Tracks duration and token metrics
  * - Per-mission activity logs with circular buffer
+ * - Scope violation reports
  */
 
 import {
@@ -16,6 +17,7 @@ import {
   ActivityConfig,
   DEFAULT_ACTIVITY_CONFIG,
   ActivityEntryId,
+  ScopeViolationRecord,
   MissionId,
   AgentId,
   TaskId,
@@ -150,6 +152,19 @@ export class AgentActivityService implements IAgentActivityService {
     this.logger?.debug('Activity failed', { entryId, error });
   }
 
+  /**
+   * Report a scope violation
+   */
+  recordScopeViolation(violation: ScopeViolationRecord): void {
+    this.eventBus.emit('activity:scopeViolation', {
+      type: 'activity:scopeViolation',
+      violation,
+      timestamp: new Date(),
+    });
+
+    this.logger?.warn('Scope violation', { ...violation });
+  }
+
   /**
    * Get all entries for a mission
    */
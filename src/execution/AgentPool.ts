@@ -32,6 +32,8 @@ import {
   IVirtualBranchService,
   ActivityEntryId,
   HierarchyLevel,
+  AgentRole,
+  TaskType,
   TaskId,
   MissionId,
 } from '../types';
@@ -45,6 +47,21 @@ const AGENT_IDLE_TIMEOUT = 30 * 1000;
 /** Request timeout (2 minutes) */
 const REQUEST_TIMEOUT = 2 * 60 * 1000;
 
+/** Provider usage is attributed to when the adapter does not route by provider */
+const DEFAULT_PROVIDER = 'claude';
+
+/** Agent role for each task type, used for role-based model routing */
+const TASK_TYPE_ROLES: Record<TaskType, AgentRole> = {
+  analyze: 'architect',
+  plan: 'planner',
+  implement: 'implementer',
+  review: 'reviewer',
+  test: 'tester',
+  fix: 'fixer',
+  document: 'implementer',
+  refactor: 'implementer',
+};
+
 /**
  * Agent Pool configuration
  */
@@ -169,9 +186,12 @@ export class AgentPool implements IAgentPoolService {
     request: AgentRequest,
     cancellation?: CancellationToken
   ): Promise<AgentResponse> {
-    // Check quota before queuing (if quota tracker available)
-    if (this.quotaTracker && !this.quotaTracker.canExecute('claude')) {
-      throw new AppError('QUOTA_EXCEEDED', 'API quota exceeded. Please wait for quota reset.');
+    // Check quota and budgets before queuing (if quota tracker available)
+    if (
+      this.quotaTracker &&
+      !this.quotaTracker.canExecute(this.getProvider(request), request.task?.missionId)
+    ) {
+      throw new AppError('QUOTA_EXCEEDED', 'API quota or budget exceeded. Please wait for quota reset.');
     }
 
     return new Promise((resolve, reject) => {
@@ -234,6 +254,10 @@ export class AgentPool implements IAgentPoolService {
     return Array.from(this.agents.values()).filter((a) => a.status === 'idle').length;
   }
 
+  getCapacity(): number {
+    return this.config.maxAgents;
+  }
+
   /**
    * Find an idle agent
    */
@@ -310,7 +334,11 @@ export class AgentPool implements IAgentPoolService {
       if (this.branchService && queued.request.task) {
         const existingBranch = this.branchService.getBranchForAgent(agent.id);
         if (!existingBranch) {
-          await this.branchService.createBranch(agent.id, queued.request.task.id);
+          await this.branchService.createBranch(
+            agent.id,
+            queued.request.task.id,
+            queued.request.task.missionId
+          );
         }
       }
 
@@ -338,6 +366,34 @@ export class AgentPool implements IAgentPoolService {
     }
   }
 
+  /**
+   * Get the hierarchy level a request is routed by
+   */
+  private getLevel(request: AgentRequest): HierarchyLevel {
+    return request.level ?? request.task?.level ?? 'worker';
+  }
+
+  /**
+   * Get the provider a request would be routed to
+   */
+  private getProvider(request: AgentRequest): string {
+    return (
+      this.llmAdapter.getProvider?.({
+        prompt: request.prompt,
+        level: this.getLevel(request),
+        role: this.getRole(request),
+      }) ?? DEFAULT_PROVIDER
+    );
+  }
+
+  /**
+   * Get the agent role of a request from its task type
+   */
+  private getRole(request: AgentRequest): AgentRole | undefined {
+    const type = request.task?.type ?? request.type;
+    return type && type in TASK_TYPE_ROLES ? TASK_TYPE_ROLES[type as TaskType] : undefined;
+  }
+
   /**
    * Execute a request with an agent
    */
@@ -353,8 +409,14 @@ export class AgentPool implements IAgentPoolService {
       type: request.type,
     });
 
+    const level = this.getLevel(request);
+    const role = this.getRole(request);
+    const model =
+      this.llmAdapter.getModel?.({ prompt: request.prompt, level, role }) ??
+      this.llmAdapter.getConfig().model;
+
     // Check token budget
-    const estimatedTokens = this.estimateTokens(request);
+    const estimatedTokens = this.estimateTokens(request, model);
     if (this.tokenBudget.canAllocate && !this.tokenBudget.canAllocate('agent', estimatedTokens)) {
       throw new AppError('QUOTA', 'Token budget exceeded');
     }
@@ -365,6 +427,8 @@ export class AgentPool implements IAgentPoolService {
 
       // Call LLM
       const llmResult = await this.llmAdapter.complete({
+        level,
+        role,
         prompt,
         maxTokens: request.maxTokens ?? 4096,
         temperature: request.temperature ?? 0.7,
@@ -387,11 +451,21 @@ export class AgentPool implements IAgentPoolService {
       const completionTokens = llmResponse.usage?.completionTokens ?? 0;
       const totalTokens = llmResponse.usage?.totalTokens ?? 0;
 
-      // Record quota usage (if quota tracker available)
-      if (this.quotaTracker && request.task?.level) {
-        this.quotaTracker.recordUsage('claude', request.task.level, {
+      // Reported usage corrects future estimates for this model's tokenizer
+      if (llmResponse.usage && !llmResponse.usage.estimated) {
+        this.tokenBudget.calibrate?.(prompt, promptTokens, llmResponse.model);
+      }
+
+      // Record quota usage and cost against the provider and model that served the request
+      if (this.quotaTracker) {
+        this.quotaTracker.recordUsage(llmResponse.provider ?? this.getProvider(request), level, {
           sent: promptTokens,
           received: completionTokens,
+          cacheRead: llmResponse.usage?.cacheReadTokens,
+          cacheWrite: llmResponse.usage?.cacheWriteTokens,
+          model: llmResponse.model,
+          missionId: request.task?.missionId,
+          taskId: request.task?.id,
         });
       }
 
@@ -483,30 +557,11 @@ export class AgentPool implements IAgentPoolService {
   }
 
   /**
-   * Estimate token count for a request
+   * Estimate token count for a request: its prompt for the target model plus the response
    */
-  private estimateTokens(request: AgentRequest): number {
-    let text = request.prompt;
-
-    if (request.systemContext) {
-      text += request.systemContext;
-    }
-
-    if (request.context) {
-      if (Array.isArray(request.context)) {
-        for (const ctx of request.context) {
-          text += ctx.content;
-        }
-      } else {
-        // ContextSelection
-        for (const file of request.context.files || []) {
-          text += file.content;
-        }
-      }
-    }
-
-    // Rough estimate: ~4 chars per token + response buffer
-    return Math.ceil(text.length / 4) + (request.maxTokens ?? 4096);
+  private estimateTokens(request: AgentRequest, model: string): number {
+    const promptTokens = this.tokenBudget.countTokens(this.buildPrompt(request), model) as number;
+    return promptTokens + (request.maxTokens ?? 4096);
   }
 
   /**
@@ -0,0 +1,503 @@
+/**
+ * Edit Protocol
+ *
+ * Structured file edits emitted by worker agents:
+ * - Parses tagged edit blocks from agent responses
+ * - Supports create, replace, search/replace, unified diff, delete and rename
+ * - Validates blocks strictly and reports problems per block
+ * - Resolves edits against current file contents into file changes
+ *
+ * Only fenced blocks tagged `edit:<operation>` are treated as edits, so code
+ * examples in an agent's explanation never touch the workspace.
+ */
+
+import {
+  FileChange,
+  Result,
+  AsyncResult,
+  Ok,
+  Err,
+  AppError,
+} from '../types';
+import { parseDiff, applyHunks, generateDiff, DiffHunk } from '../utils/DiffHunkParser';
+
+/** Markers delimiting a search/replace section */
+const SEARCH_MARKER = '<<<<<<< SEARCH';
+const DIVIDER_MARKER = '=======';
+const REPLACE_MARKER = '>>>>>>> REPLACE';
+
+/**
+ * Instructions describing the protocol, for agent system prompts
+ */
+export const EDIT_PROTOCOL_INSTRUCTIONS = `Emit every file change as a fenced block whose info string is "edit:<operation> <path>".
+Paths are relative to the project root. Plain code blocks are never applied.
+
+- Create a new file:
+\`\`\`edit:create src/new-file.ts
+<full file content>
+\`\`\`
+- Replace an existing file entirely:
+\`\`\`edit:replace src/file.ts
+<full file content>
+\`\`\`
+- Search/replace edits (SEARCH text must match the file exactly and only once):
+\`\`\`edit:edit src/file.ts
+${SEARCH_MARKER}
+<existing lines>
+${DIVIDER_MARKER}
+<replacement lines>
+${REPLACE_MARKER}
+\`\`\`
+- Unified diff hunks:
+\`\`\`edit:diff src/file.ts
+@@ -10,3 +10,4 @@
+ context
+-removed
++added
+\`\`\`
+- Delete a file (empty block):
+\`\`\`edit:delete src/old.ts
+\`\`\`
+- Rename a file (empty block):
+\`\`\`edit:rename src/old.ts -> src/new.ts
+\`\`\`
+
+If a file contains \`\`\` itself, open and close its block with four backticks.`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A single search/replace pair */
+export interface SearchReplace {
+  readonly search: string;
+  readonly replace: string;
+}
+
+/** A parsed edit operation */
+export type EditOperation =
+  | { readonly kind: 'create'; readonly path: string; readonly content: string }
+  | { readonly kind: 'replace'; readonly path: string; readonly content: string }
+  | { readonly kind: 'edit'; readonly path: string; readonly edits: SearchReplace[] }
+  | { readonly kind: 'diff'; readonly path: string; readonly hunks: DiffHunk[] }
+  | { readonly kind: 'delete'; readonly path: string }
+  | { readonly kind: 'rename'; readonly path: string; readonly newPath: string };
+
+/** Edit operation kinds */
+export type EditOperationKind = EditOperation['kind'];
+
+const OPERATION_KINDS: readonly EditOperationKind[] = [
+  'create',
+  'replace',
+  'edit',
+  'diff',
+  'delete',
+  'rename',
+];
+
+/**
+ * Workspace access used to resolve edits
+ */
+export interface EditWorkspace {
+  /** Resolve a protocol path to an absolute path, or null if it is outside the workspace */
+  resolvePath(path: string): string | null;
+  /** Read a file by absolute path, or null if it does not exist */
+  readFile(path: string): Promise<string | null>;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse all edit blocks from an agent response.
+ * Fails with every problem found if any block is malformed.
+ */
+export function parseEditBlocks(response: string): Result<EditOperation[]> {
+  const lines = response.split('\n');
+  const operations: EditOperation[] = [];
+  const problems: string[] = [];
+  let blockNumber = 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    const opener = /^\s*(`{3,}|~{3,})\s*(.*)$/.exec(lines[i] ?? '');
+    if (!opener) {
+      i++;
+      continue;
+    }
+
+    const fence = opener[1]!;
+    const info = opener[2]!.trim();
+    const closeIndex = findClosingFence(lines, i + 1, fence);
+    const isEdit = info.startsWith('edit:');
+
+    if (!isEdit) {
+      // Skip ordinary code blocks entirely
+      i = closeIndex === -1 ? lines.length : closeIndex + 1;
+      continue;
+    }
+
+    blockNumber++;
+    const label = `Block ${blockNumber} (${info})`;
+
+    if (closeIndex === -1) {
+      problems.push(`${label}: missing closing ${fence}`);
+      break;
+    }
+
+    const body = lines.slice(i + 1, closeIndex);
+    const result = parseEditBlock(info.slice('edit:'.length), body);
+    if (result.ok) {
+      operations.push(result.value);
+    } else {
+      problems.push(`${label}: ${result.error.message}`);
+    }
+
+    i = closeIndex + 1;
+  }
+
+  if (problems.length > 0) {
+    return Err(new AppError('EDIT_PROTOCOL', problems.join('\n')));
+  }
+
+  return Ok(operations);
+}
+
+/**
+ * Find the line closing a fenced block
+ */
+function findClosingFence(lines: string[], start: number, fence: string): number {
+  const char = fence[0]!;
+  for (let i = start; i < lines.length; i++) {
+    const line = (lines[i] ?? '').trim();
+    if (line.length >= fence.length && [...line].every((c) => c === char)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a single edit block from its header and body lines
+ */
+function parseEditBlock(header: string, body: string[]): Result<EditOperation> {
+  const spaceIndex = header.search(/\s/);
+  const kind = (spaceIndex === -1 ? header : header.slice(0, spaceIndex)) as EditOperationKind;
+  const target = spaceIndex === -1 ? '' : header.slice(spaceIndex).trim();
+
+  if (!OPERATION_KINDS.includes(kind)) {
+    return Err(new AppError(
+      'EDIT_PROTOCOL',
+      `unknown operation "${kind}" (expected one of: ${OPERATION_KINDS.join(', ')})`
+    ));
+  }
+
+  if (!target) {
+    return Err(new AppError('EDIT_PROTOCOL', 'missing file path'));
+  }
+
+  switch (kind) {
+    case 'create':
+    case 'replace':
+      return Ok({ kind, path: target, content: toFileContent(body) });
+
+    case 'edit': {
+      const edits = parseSearchReplace(body);
+      return edits.ok ? Ok({ kind, path: target, edits: edits.value }) : edits;
+    }
+
+    case 'diff': {
+      const hunks = parseHunks(body);
+      return hunks.ok ? Ok({ kind, path: target, hunks: hunks.value }) : hunks;
+    }
+
+    case 'delete':
+      if (hasContent(body)) {
+        return Err(new AppError('EDIT_PROTOCOL', 'delete blocks must be empty'));
+      }
+      return Ok({ kind, path: target });
+
+    case 'rename': {
+      const parts = target.split('->').map((p) => p.trim());
+      if (parts.length !== 2 || !parts[0] || !parts[1]) {
+        return Err(new AppError('EDIT_PROTOCOL', 'rename expects "<old path> -> <new path>"'));
+      }
+      if (hasContent(body)) {
+        return Err(new AppError('EDIT_PROTOCOL', 'rename blocks must be empty; edit the new path separately'));
+      }
+      return Ok({ kind, path: parts[0], newPath: parts[1] });
+    }
+  }
+}
+
+/**
+ * Parse search/replace sections
+ */
+function parseSearchReplace(body: string[]): Result<SearchReplace[]> {
+  const edits: SearchReplace[] = [];
+  let i = 0;
+
+  while (i < body.length) {
+    const line = body[i] ?? '';
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    if (line.trim() !== SEARCH_MARKER) {
+      return Err(new AppError(
+        'EDIT_PROTOCOL',
+        `unexpected text outside a search/replace section: "${line.trim()}"`
+      ));
+    }
+
+    const divider = body.findIndex((l, idx) => idx > i && l.trim() === DIVIDER_MARKER);
+    const end = body.findIndex((l, idx) => idx > divider && l.trim() === REPLACE_MARKER);
+    if (divider === -1 || end === -1) {
+      return Err(new AppError(
+        'EDIT_PROTOCOL',
+        `search/replace section ${edits.length + 1} is missing "${divider === -1 ? DIVIDER_MARKER : REPLACE_MARKER}"`
+      ));
+    }
+
+    const search = body.slice(i + 1, divider).join('\n');
+    if (!search.trim()) {
+      return Err(new AppError('EDIT_PROTOCOL', `search/replace section ${edits.length + 1} has empty SEARCH text`));
+    }
+
+    edits.push({ search, replace: body.slice(divider + 1, end).join('\n') });
+    i = end + 1;
+  }
+
+  if (edits.length === 0) {
+    return Err(new AppError('EDIT_PROTOCOL', 'no search/replace sections found'));
+  }
+
+  return Ok(edits);
+}
+
+/**
+ * Parse unified diff hunks
+ */
+function parseHunks(body: string[]): Result<DiffHunk[]> {
+  // Trailing blank lines are not part of the last hunk
+  let end = body.length;
+  while (end > 0 && !(body[end - 1] ?? '').trim()) {
+    end--;
+  }
+
+  // Blank context lines often lose their leading space
+  const lines = body.slice(0, end).map((l) => (l === '' ? ' ' : l));
+  for (const line of lines) {
+    if (line.startsWith('---') || line.startsWith('+++') || line.startsWith('@@') || line.startsWith('\\')) {
+      continue;
+    }
+    if (!/^[ +-]/.test(line)) {
+      return Err(new AppError('EDIT_PROTOCOL', `invalid diff line: "${line}"`));
+    }
+  }
+
+  const hunks = parseDiff(lines.join('\n')).hunks;
+  if (hunks.length === 0) {
+    return Err(new AppError('EDIT_PROTOCOL', 'no "@@ ... @@" hunks found'));
+  }
+
+  return Ok(hunks);
+}
+
+/**
+ * Turn block body lines into file content with a trailing newline
+ */
+function toFileContent(body: string[]): string {
+  return body.length === 0 ? '' : `${body.join('\n')}\n`;
+}
+
+/**
+ * Check whether any body line has content
+ */
+function hasContent(body: string[]): boolean {
+  return body.some((l) => l.trim().length > 0);
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Apply edit operations in order against the workspace, producing the
+ * net file change per path. Fails on the first operation that cannot apply.
+ */
+export async function resolveEdits(
+  operations: EditOperation[],
+  workspace: EditWorkspace
+): AsyncResult<FileChange[]> {
+  /** Original and current content per absolute path (null = missing) */
+  const files = new Map<string, { original: string | null; current: string | null }>();
+
+  const load = async (path: string): Promise<{ original: string | null; current: string | null }> => {
+    let entry = files.get(path);
+    if (!entry) {
+      const content = await workspace.readFile(path);
+      entry = { original: content, current: content };
+      files.set(path, entry);
+    }
+    return entry;
+  };
+
+  for (const [index, op] of operations.entries()) {
+    const label = `Edit ${index + 1} (${op.kind} ${op.path})`;
+    const path = workspace.resolvePath(op.path);
+    if (!path) {
+      return Err(new AppError('EDIT_PROTOCOL', `${label}: path is outside the workspace`));
+    }
+
+    const file = await load(path);
+
+    if (op.kind === 'create') {
+      if (file.current !== null) {
+        return Err(new AppError('EDIT_PROTOCOL', `${label}: file already exists; use edit:replace`));
+      }
+      file.current = op.content;
+      continue;
+    }
+
+    if (file.current === null) {
+      return Err(new AppError('EDIT_PROTOCOL', `${label}: file does not exist`));
+    }
+
+    switch (op.kind) {
+      case 'replace':
+        file.current = op.content;
+        break;
+
+      case 'edit': {
+        const result = applySearchReplace(file.current, op.edits);
+        if (!result.ok) {
+          return Err(new AppError('EDIT_PROTOCOL', `${label}: ${result.error.message}`));
+        }
+        file.current = result.value;
+        break;
+      }
+
+      case 'diff': {
+        const result = applyDiffHunks(file.current, op.hunks);
+        if (!result.ok) {
+          return Err(new AppError('EDIT_PROTOCOL', `${label}: ${result.error.message}`));
+        }
+        file.current = result.value;
+        break;
+      }
+
+      case 'delete':
+        file.current = null;
+        break;
+
+      case 'rename': {
+        const newPath = workspace.resolvePath(op.newPath);
+        if (!newPath) {
+          return Err(new AppError('EDIT_PROTOCOL', `${label}: new path is outside the workspace`));
+        }
+        const target = await load(newPath);
+        if (target.current !== null) {
+          return Err(new AppError('EDIT_PROTOCOL', `${label}: ${op.newPath} already exists`));
+        }
+        target.current = file.current;
+        file.current = null;
+        break;
+      }
+    }
+  }
+
+  const changes: FileChange[] = [];
+  for (const [path, { original, current }] of files) {
+    if (original === current) {
+      continue;
+    }
+    if (current === null) {
+      changes.push({ path, type: 'delete', originalContent: original ?? undefined });
+    } else if (original === null) {
+      changes.push({ path, type: 'create', content: current });
+    } else {
+      changes.push({
+        path,
+        type: 'modify',
+        content: current,
+        originalContent: original,
+        diff: generateDiff(original, current, path),
+      });
+    }
+  }
+
+  return Ok(changes);
+}
+
+/**
+ * Apply search/replace pairs; each SEARCH must match exactly once
+ */
+function applySearchReplace(content: string, edits: SearchReplace[]): Result<string> {
+  let result = content;
+  for (const [index, edit] of edits.entries()) {
+    const first = result.indexOf(edit.search);
+    if (first === -1) {
+      return Err(new AppError('EDIT_PROTOCOL', `SEARCH text of section ${index + 1} not found`));
+    }
+    if (result.indexOf(edit.search, first + 1) !== -1) {
+      return Err(new AppError(
+        'EDIT_PROTOCOL',
+        `SEARCH text of section ${index + 1} matches more than once; include more context`
+      ));
+    }
+    result = result.slice(0, first) + edit.replace + result.slice(first + edit.search.length);
+  }
+  return Ok(result);
+}
+
+/**
+ * Apply diff hunks after checking their context against the file.
+ * Hunks whose line numbers are off are relocated if their context matches uniquely.
+ */
+function applyDiffHunks(content: string, hunks: DiffHunk[]): Result<string> {
+  const fileLines = content.split('\n');
+  const located: DiffHunk[] = [];
+
+  for (const [index, hunk] of hunks.entries()) {
+    const expected = hunk.lines
+      .filter((l) => l.startsWith(' ') || l.startsWith('-'))
+      .map((l) => l.slice(1));
+
+    const matchesAt = (start: number): boolean =>
+      expected.every((line, offset) => fileLines[start + offset] === line);
+
+    let start = hunk.originalStart - 1;
+    if (expected.length > 0 && !matchesAt(start)) {
+      const candidates: number[] = [];
+      for (let i = 0; i + expected.length <= fileLines.length; i++) {
+        if (matchesAt(i)) {
+          candidates.push(i);
+        }
+      }
+      if (candidates.length !== 1) {
+        return Err(new AppError(
+          'EDIT_PROTOCOL',
+          candidates.length === 0
+            ? `hunk ${index + 1} (${hunk.header}) does not match the file`
+            : `hunk ${index + 1} (${hunk.header}) matches ${candidates.length} locations`
+        ));
+      }
+      start = candidates[0]!;
+    }
+
+    located.push({ ...hunk, originalStart: start + 1, originalCount: expected.length });
+  }
+
+  // Hunks must not overlap once located
+  const sorted = [...located].sort((a, b) => a.originalStart - b.originalStart);
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1]!;
+    if (sorted[i]!.originalStart < prev.originalStart + prev.originalCount) {
+      return Err(new AppError('EDIT_PROTOCOL', `hunks ${prev.header} and ${sorted[i]!.header} overlap`));
+    }
+  }
+
+  return Ok(applyHunks(content, sorted));
+}
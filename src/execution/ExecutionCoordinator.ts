@@ -6,8 +6,14 @@
  * - Manages task execution flow
  * - Handles agent coordination
  * - Integrates verification and rollback
+ * - Suspends paused missions between tasks and retries
+ * - Resumes missions interrupted by a restart
+ * - Records failures in error memory and warns later tasks about them
+ * - Holds generated changes to the project's conventions
+ * - Records missions on git branches, one commit per merged task
  */
 
+import * as path from 'path';
 import {
   IExecutionCoordinatorService,
   IMissionManagerService,
@@ -43,7 +49,36 @@ import {
   IVirtualBranchService,
   IMergeEngineService,
   VirtualBranchId,
+  TaskDependency,
+  IFileSystem,
+  FilePath,
+  VerificationResult,
+  VerificationFinding,
+  ISemanticIndexService,
+  RelativePath,
+  IScopeGuardService,
+  ExtendedScopeViolation,
+  MissionResumeMode,
+  IErrorMemoryService,
+  ErrorPattern,
+  AgentId,
+  toRelativePath,
+  IConventionExtractorService,
+  ConventionViolation,
+  VerificationStrictness,
+  VerificationIssue,
+  ITestRunnerService,
+  ITypeCheckerService,
+  IMissionGitService,
 } from '../types';
+import { diffLines } from '../utils/Diff3';
+import { TaskScheduler, UpstreamOutput } from './TaskScheduler';
+import {
+  EDIT_PROTOCOL_INSTRUCTIONS,
+  EditWorkspace,
+  parseEditBlocks,
+  resolveEdits,
+} from './EditProtocol';
 
 /** Maximum retries per task */
 const MAX_TASK_RETRIES = 3;
@@ -51,6 +86,28 @@ const MAX_TASK_RETRIES = 3;
 /** Delay between phase transitions (ms) */
 const PHASE_TRANSITION_DELAY = 100;
 
+/** Maximum characters of an upstream task's output passed to an informed task */
+const MAX_INFORMED_OUTPUT_CHARS = 4000;
+
+/**
+ * Result of a single task run within the execution phase
+ */
+interface TaskRunOutput {
+  readonly task: Task;
+  readonly branchId?: VirtualBranchId;
+  readonly changes: FileChange[];
+  readonly output: string;
+}
+
+/**
+ * A change produced during execution, with the task and branch it came from
+ */
+interface TrackedChange {
+  readonly change: FileChange;
+  readonly taskId: TaskId;
+  readonly branchId?: VirtualBranchId;
+}
+
 /**
  * Execution Coordinator configuration
  */
@@ -59,11 +116,26 @@ export interface ExecutionCoordinatorConfig {
   readonly defaultApprovalMode?: ApprovalMode;
   /** Skip approval for certain task types */
   readonly skipApprovalFor?: string[];
+  /** Maximum tasks executed concurrently, further capped by agent pool capacity (default: 3) */
+  readonly maxParallelTasks?: number;
+  /** Run a `fix` task on verification failure before rolling back (default: false) */
+  readonly autoFixVerificationFailures?: boolean;
+  /** Maximum fix tasks per mission when auto-fix is enabled (default: 1) */
+  readonly maxVerificationFixAttempts?: number;
+  /**
+   * Convention violations in task changes: 'strict' retries until they are fixed,
+   * 'standard' asks for fixes but accepts the last attempt, 'lenient' never asks (default: 'standard')
+   */
+  readonly conventionStrictness?: VerificationStrictness;
 }
 
 const DEFAULT_COORDINATOR_CONFIG: Required<ExecutionCoordinatorConfig> = {
   defaultApprovalMode: 'step_by_step',
   skipApprovalFor: ['analyze', 'query'],
+  maxParallelTasks: 3,
+  autoFixVerificationFailures: false,
+  maxVerificationFixAttempts: 1,
+  conventionStrictness: 'standard',
 };
 
 /**
@@ -81,6 +153,7 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   private readonly eventBus: IEventBus;
   private readonly logger?: ILogger;
   private readonly config: Required<ExecutionCoordinatorConfig>;
+  private readonly scheduler: TaskScheduler;
 
   // Optional: Approval service for change approval workflow
   private readonly approvalService?: IApprovalService;
@@ -91,9 +164,40 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   // Optional: Merge engine for conflict detection and resolution
   private readonly mergeEngine?: IMergeEngineService;
 
+  // Optional: File access for resolving structured edits against the workspace
+  private readonly fileSystem?: IFileSystem;
+  private readonly projectRoot?: FilePath;
+
+  // Optional: Semantic index refreshed with merged changes before verification
+  private readonly semanticIndex?: ISemanticIndexService;
+
+  // Optional: Scope guard every task change must pass
+  private readonly scopeGuard?: IScopeGuardService;
+
+  // Optional: Error memory that learns from failures and supplies prevention hints
+  private readonly errorMemory?: IErrorMemoryService;
+
+  // Optional: Project conventions for prompts and the compliance gate
+  private readonly conventionExtractor?: IConventionExtractorService;
+
+  // Optional: Related tests run against the changes before they are merged
+  private readonly testRunner?: ITestRunnerService;
+
+  // Optional: Compiles the changes in memory before they are merged
+  private readonly typeChecker?: ITypeCheckerService;
+
+  // Optional: Git branch per mission with a commit for each merged task
+  private readonly missionGit?: IMissionGitService;
+
   // Track branches created for this execution
   private readonly executionBranches: Map<string, VirtualBranchId[]> = new Map();
 
+  // Track changes produced by each execution, in plan order
+  private readonly executionChanges: Map<string, TrackedChange[]> = new Map();
+
+  // Paused missions: running work waits on the gate until the mission resumes
+  private readonly pauseGates: Map<string, { promise: Promise<void>; release: () => void }> = new Map();
+
   // Active executions
   private activeExecutions: Map<string, {
     missionId: MissionId;
@@ -121,6 +225,15 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       approvalService?: IApprovalService;
       branchService?: IVirtualBranchService;
       mergeEngine?: IMergeEngineService;
+      fileSystem?: IFileSystem;
+      projectRoot?: FilePath;
+      semanticIndex?: ISemanticIndexService;
+      scopeGuard?: IScopeGuardService;
+      errorMemory?: IErrorMemoryService;
+      conventionExtractor?: IConventionExtractorService;
+      testRunner?: ITestRunnerService;
+      typeChecker?: ITypeCheckerService;
+      missionGit?: IMissionGitService;
     }
   ) {
     this.missionManager = missionManager;
@@ -137,6 +250,16 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     this.approvalService = options?.approvalService;
     this.branchService = options?.branchService;
     this.mergeEngine = options?.mergeEngine;
+    this.fileSystem = options?.fileSystem;
+    this.projectRoot = options?.projectRoot;
+    this.semanticIndex = options?.semanticIndex;
+    this.scopeGuard = options?.scopeGuard;
+    this.errorMemory = options?.errorMemory;
+    this.conventionExtractor = options?.conventionExtractor;
+    this.testRunner = options?.testRunner;
+    this.typeChecker = options?.typeChecker;
+    this.missionGit = options?.missionGit;
+    this.scheduler = new TaskScheduler(this.logger);
 
     // Set up event listeners
     this.setupEventListeners();
@@ -145,6 +268,59 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   async execute(
     plan: ExecutionPlan,
     cancellation?: CancellationToken
+  ): AsyncResult<ExecutionResult> {
+    return this.runPlan(plan, cancellation, new Map());
+  }
+
+  async resumeMission(
+    missionId: MissionId,
+    mode: MissionResumeMode,
+    cancellation?: CancellationToken
+  ): AsyncResult<ExecutionResult> {
+    const mission = this.missionManager.get(missionId);
+    if (!mission?.plan) {
+      return Err(new AppError('EXECUTION', `No saved plan for mission: ${missionId}`));
+    }
+    const plan = mission.plan;
+
+    // Results of tasks that completed before the interruption, by plan key
+    const completed = new Map<string, TaskRunOutput>();
+    if (mode === 'resume') {
+      for (const task of this.taskManager.getByMission(missionId)) {
+        const planKey = task.metadata?.planKey;
+        const result = this.taskManager.getResult(task.id);
+        if (task.status === 'completed' && typeof planKey === 'string' && result?.success) {
+          completed.set(planKey, { task, changes: result.changes ?? [], output: result.output ?? '' });
+        }
+      }
+    }
+
+    if (mode === 'retry' && this.rollbackService.getHistory(missionId).length > 0) {
+      // Merged changes are undone first, so the retry starts from the files as they were
+      const rollbackResult = await this.missionManager.rollback(missionId);
+      if (!rollbackResult.ok) {
+        return Err(new AppError('EXECUTION', `Cannot retry mission: ${rollbackResult.error.message}`));
+      }
+      await this.discardMissionBranch(missionId);
+    }
+
+    const reopenResult = await this.missionManager.reopen(missionId);
+    if (!reopenResult.ok) {
+      return Err(reopenResult.error);
+    }
+
+    this.logger?.info('Resuming mission', { missionId, mode, completedTasks: completed.size });
+
+    return this.runPlan(plan, cancellation, completed);
+  }
+
+  /**
+   * Run a plan through all phases, reusing the given results of completed tasks
+   */
+  private async runPlan(
+    plan: ExecutionPlan,
+    cancellation: CancellationToken | undefined,
+    completed: Map<string, TaskRunOutput>
   ): AsyncResult<ExecutionResult> {
     const startTime = Date.now();
     const executionId = this.generateExecutionId();
@@ -180,20 +356,31 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     this.notifyProgress(progress);
 
     try {
+      // Keep the plan with the mission so it can be resumed after a restart
+      await this.missionManager.setPlan(plan.missionId, plan);
+
       // Start mission
       const startResult = await this.missionManager.start(plan.missionId);
       if (!startResult.ok) {
         return Err(startResult.error);
       }
+      this.applyScopePolicy(plan.missionId);
+
+      // Task commits go to the mission's branch, created or resumed here
+      const gitResult = await this.startMissionBranch(plan.missionId);
+      if (!gitResult.ok) {
+        await this.missionManager.fail(plan.missionId, gitResult.error.message);
+        return Err(gitResult.error);
+      }
 
       // Phase 1: Planning
-      if (cancel.isCancelled) {
+      if (!(await this.waitWhilePaused(plan.missionId, cancel))) {
         return this.handleCancellation(executionId, plan.missionId);
       }
       await this.executePlanningPhase(plan, cancel);
 
       // Phase 2: Validation
-      if (cancel.isCancelled) {
+      if (!(await this.waitWhilePaused(plan.missionId, cancel))) {
         return this.handleCancellation(executionId, plan.missionId);
       }
       const validationResult = await this.executeValidationPhase(plan, cancel);
@@ -203,10 +390,10 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       }
 
       // Phase 3: Execution
-      if (cancel.isCancelled) {
+      if (!(await this.waitWhilePaused(plan.missionId, cancel))) {
         return this.handleCancellation(executionId, plan.missionId);
       }
-      const executionResult = await this.executeExecutionPhase(plan, cancel, executionId);
+      const executionResult = await this.executeExecutionPhase(plan, cancel, executionId, completed);
       if (!executionResult.ok) {
         // Rollback on failure
         await this.handleExecutionFailure(plan.missionId, executionId);
@@ -214,21 +401,21 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       }
 
       // Phase 4: Merge (conflict detection and resolution)
-      if (cancel.isCancelled) {
+      if (!(await this.waitWhilePaused(plan.missionId, cancel))) {
         return this.handleCancellation(executionId, plan.missionId);
       }
       const mergeResult = await this.executeMergePhase(executionId, plan.missionId, cancel);
       if (!mergeResult.ok) {
         // Rollback on merge failure
-        await this.handleMergeFailure(plan.missionId, executionId);
+        await this.handleMergeFailure(plan.missionId, mergeResult.error, executionId);
         return Err(mergeResult.error);
       }
 
       // Phase 5: Verification
-      if (cancel.isCancelled) {
+      if (!(await this.waitWhilePaused(plan.missionId, cancel))) {
         return this.handleCancellation(executionId, plan.missionId);
       }
-      const verificationResult = await this.executeVerificationPhase(plan, cancel);
+      const verificationResult = await this.executeVerificationPhase(plan, cancel, executionId);
       if (!verificationResult.ok) {
         // Rollback on verification failure
         await this.handleVerificationFailure(plan.missionId, executionId);
@@ -236,15 +423,20 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       }
 
       // Phase 6: Completion
+      if (!(await this.waitWhilePaused(plan.missionId, cancel))) {
+        return this.handleCancellation(executionId, plan.missionId);
+      }
       await this.missionManager.complete(plan.missionId);
+      await this.completeMissionBranch(plan.missionId);
 
       const result: ExecutionResult = {
         success: true,
         missionId: plan.missionId,
         duration: Date.now() - startTime,
         tasksCompleted: plan.tasks.length,
-        changes: executionResult.value.changes,
-        verification: verificationResult.value as import('../types').VerificationResult,
+        changes: [...executionResult.value.changes, ...verificationResult.value.fixChanges],
+        verification: verificationResult.value.verification,
+        findings: verificationResult.value.findings,
       };
 
       this.logger?.info('Execution completed', {
@@ -260,6 +452,8 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       return Err(new AppError('EXECUTION', (error as Error).message));
     } finally {
       this.activeExecutions.delete(executionId);
+      this.executionChanges.delete(executionId);
+      this.releaseMission(plan.missionId);
     }
   }
 
@@ -268,6 +462,7 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     for (const [id, execution] of this.activeExecutions) {
       if (execution.missionId === missionId) {
         execution.cancellation.cancel?.();
+        this.releaseMission(missionId);
         await this.missionManager.cancel(missionId, 'Execution cancelled by user');
         this.activeExecutions.delete(id);
         return Ok(undefined);
@@ -280,7 +475,7 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   getStatus(missionId: MissionId): 'idle' | 'running' | 'paused' {
     for (const execution of this.activeExecutions.values()) {
       if (execution.missionId === missionId) {
-        return 'running';
+        return this.pauseGates.has(missionId as string) ? 'paused' : 'running';
       }
     }
     return 'idle';
@@ -319,6 +514,12 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   ): AsyncResult<void> {
     this.logger?.debug('Executing validation phase', { missionId: plan.missionId });
 
+    // Reject plans with broken or cyclic task dependencies before running anything
+    const graphResult = this.scheduler.buildGraph(plan.tasks);
+    if (!graphResult.ok) {
+      return Err(graphResult.error);
+    }
+
     if (plan.changes && plan.changes.length > 0) {
       // Run preflight checks
       const preflightResult = await this.preflightChecker.check({
@@ -358,7 +559,8 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   private async executeExecutionPhase(
     plan: ExecutionPlan,
     cancellation: CancellationToken,
-    executionId: string
+    executionId: string,
+    completed: Map<string, TaskRunOutput>
   ): AsyncResult<{ changes: FileChange[] }> {
     this.logger?.debug('Executing execution phase', { missionId: plan.missionId });
 
@@ -371,33 +573,84 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       await this.rollbackService.backup(paths, plan.missionId);
     }
 
-    // Execute tasks
-    for (const taskConfig of plan.tasks) {
-      if (cancellation.isCancelled) {
-        return Err(new AppError('CANCELLED', 'Execution cancelled'));
-      }
-
-      const taskResult = await this.executeTaskInternal(
-        plan.missionId,
-        taskConfig,
-        cancellation,
-        branchIds
-      );
-      if (!taskResult.ok) {
-        return Err(taskResult.error);
-      }
-
-      // Collect changes from task
-      if (taskResult.value.changes) {
-        executedChanges.push(...taskResult.value.changes);
+    // Execute tasks as a dependency graph, running independent tasks in parallel
+    let tasksCompleted = 0;
+    const scheduleResult = await this.scheduler.run<TaskRunOutput>(
+      plan.tasks,
+      async (scheduled, upstream) => {
+        // A paused mission starts no new tasks until it resumes
+        if (!(await this.waitWhilePaused(plan.missionId, cancellation))) {
+          return Err(new AppError('CANCELLED', 'Task cancelled'));
+        }
+        // Tasks completed before an interruption keep their results
+        const previous = completed.get(scheduled.key);
+        const taskResult = previous
+          ? await this.restoreTaskOutput(plan.missionId, previous, branchIds)
+          : await this.executeTaskInternal(
+            plan.missionId,
+            scheduled.config,
+            cancellation,
+            branchIds,
+            upstream,
+            scheduled.key
+          );
+        if (taskResult.ok) {
+          tasksCompleted++;
+          this.updateProgress(executionId, {
+            phase: 'execution',
+            currentTask: taskResult.value.task.id,
+            tasksCompleted,
+            message: `Completed: ${scheduled.config.description}`,
+          });
+        }
+        return taskResult;
+      },
+      {
+        maxConcurrency: Math.min(this.config.maxParallelTasks, this.agentPool.getCapacity()),
+        isCancelled: () => cancellation.isCancelled,
+        onCancelled: (scheduled, reason) => {
+          void this.eventBus.emit('execution:taskSkipped', {
+            missionId: plan.missionId,
+            description: scheduled.config.description,
+            reason,
+          });
+        },
       }
+    );
+    if (!scheduleResult.ok) {
+      return Err(scheduleResult.error);
     }
 
-    // Store branches for this execution
+    // Store branches for this execution (failure handling abandons them)
     if (branchIds.length > 0) {
       this.executionBranches.set(executionId, branchIds);
     }
 
+    if (cancellation.isCancelled) {
+      return Err(new AppError('CANCELLED', 'Execution cancelled'));
+    }
+
+    const failed = scheduleResult.value.filter((o) => o.status === 'failed');
+    if (failed.length > 0) {
+      const skipped = scheduleResult.value.filter((o) => o.status === 'cancelled').length;
+      const reasons = failed.map((o) => `${o.task.config.description}: ${o.error?.message ?? 'unknown error'}`);
+      return Err(new AppError(
+        'TASK',
+        `${failed.length} task(s) failed${skipped > 0 ? `, ${skipped} dependent task(s) skipped` : ''}: ${reasons.join('; ')}`
+      ));
+    }
+
+    // Collect changes in plan order
+    const tracked: TrackedChange[] = [];
+    for (const outcome of scheduleResult.value) {
+      if (outcome.value) {
+        const { task, branchId, changes } = outcome.value;
+        executedChanges.push(...changes);
+        tracked.push(...changes.map((change) => ({ change, taskId: task.id, branchId })));
+      }
+    }
+    this.executionChanges.set(executionId, tracked);
+
     // Request approval for changes (if approval service available and changes exist)
     if (this.approvalService && executedChanges.length > 0) {
       const approvalResult = await this.requestApprovalForChanges(
@@ -411,6 +664,7 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
 
       // Handle approval result
       if (!approvalResult.value.approved) {
+        await this.rememberRejection(tracked, approvalResult.value.comment);
         return Err(new AppError('APPROVAL_REJECTED', 'Changes rejected by user'));
       }
 
@@ -449,13 +703,7 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     });
 
     // Convert FileChange to conflict.FileChange format
-    const conflictChanges: import('../types/conflict').FileChange[] = changes.map((c) => ({
-      filePath: c.path as import('../types').FilePath,
-      originalContent: null,
-      modifiedContent: c.content ?? '',
-      diff: '',
-      changeType: c.type === 'write' ? 'create' as const : 'modify' as const,
-    }));
+    const conflictChanges = changes.map((c) => this.toConflictChange(c));
 
     // Create a pseudo-task for approval
     const pseudoTask = {
@@ -472,14 +720,30 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     return this.approvalService.requestApproval(pseudoTask, conflictChanges);
   }
 
+  /**
+   * Convert execution FileChange to conflict FileChange
+   */
+  private toConflictChange(change: FileChange): import('../types/conflict').FileChange {
+    const changeType = change.type === 'delete' || change.type === 'modify' ? change.type : 'create';
+    return {
+      filePath: toFilePath(change.path),
+      originalContent: change.originalContent ?? null,
+      modifiedContent: changeType === 'delete' ? '' : change.content ?? '',
+      diff: change.diff ?? '',
+      changeType,
+    };
+  }
+
   /**
    * Convert conflict FileChange back to execution FileChange
    */
   private convertToFileChanges(modifications: import('../types/conflict').FileChange[]): FileChange[] {
     return modifications.map((m) => ({
       path: m.filePath,
-      type: m.changeType === 'create' ? 'write' as const : 'modify' as const,
-      content: m.modifiedContent,
+      type: m.changeType,
+      content: m.changeType === 'delete' ? undefined : m.modifiedContent,
+      originalContent: m.originalContent ?? undefined,
+      diff: m.diff || undefined,
     }));
   }
 
@@ -529,16 +793,27 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
    */
   private async executeTaskInternal(
     missionId: MissionId,
-    taskConfig: ExecutionPlan['tasks'][0],
+    taskConfig: ExecutionTaskConfig,
     cancellation: CancellationToken,
-    branchIds: VirtualBranchId[]
-  ): AsyncResult<{ changes?: FileChange[] }> {
+    branchIds: VirtualBranchId[],
+    upstream: UpstreamOutput<TaskRunOutput>[] = [],
+    planKey?: string,
+    baseChanges: FileChange[] = []
+  ): AsyncResult<TaskRunOutput> {
+    // Plan dependencies use plan-local ids; the task manager tracks the created tasks
+    const dependencies: TaskDependency[] = upstream.map((u) => ({
+      taskId: u.value.task.id,
+      type: u.type,
+      status: 'satisfied',
+    }));
+
     // Create task
     const createResult = await this.taskManager.create(missionId, {
       type: taskConfig.type,
       description: taskConfig.description,
       priority: taskConfig.priority,
-      dependencies: taskConfig.dependencies,
+      dependencies,
+      metadata: planKey !== undefined ? { planKey } : undefined,
     });
 
     if (!createResult.ok) {
@@ -546,13 +821,12 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     }
 
     const task = createResult.value;
-    let retries = 0;
 
     // Create virtual branch for this task (if branch service available)
     let branchId: VirtualBranchId | undefined;
     if (this.branchService) {
       const agentId = `agent-${task.id}` as import('../types').AgentId;
-      const branchResult = await this.branchService.createBranch(agentId, task.id);
+      const branchResult = await this.branchService.createBranch(agentId, task.id, missionId);
       if (branchResult.ok) {
         branchId = branchResult.value.id;
         branchIds.push(branchId);
@@ -563,16 +837,25 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       }
     }
 
-    while (retries < MAX_TASK_RETRIES) {
-      if (cancellation.isCancelled) {
-        return Err(new AppError('CANCELLED', 'Task cancelled'));
-      }
+    // Start task
+    const startResult = await this.taskManager.start(task.id);
+    if (!startResult.ok) {
+      return Err(startResult.error);
+    }
 
-      // Start task
-      const startResult = await this.taskManager.start(task.id);
-      if (!startResult.ok) {
-        retries++;
-        continue;
+    const prompt = this.buildTaskPrompt(taskConfig, upstream);
+    const workspace = this.createEditWorkspace(upstream, baseChanges);
+    const targets = [
+      ...(taskConfig.relevantFiles ?? []),
+      ...upstream.flatMap((u) => u.value.changes.map((c) => c.path)),
+    ];
+    let lastError = 'Task failed';
+    let feedback: string | undefined;
+
+    for (let attempt = 1; attempt <= MAX_TASK_RETRIES; attempt++) {
+      if (!(await this.waitWhilePaused(missionId, cancellation))) {
+        await this.taskManager.cancel(task.id, 'Execution cancelled');
+        return Err(new AppError('CANCELLED', 'Task cancelled'));
       }
 
       // Select context for task
@@ -583,110 +866,610 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       });
 
       // Execute with agent
+      let response: import('../types').AgentResponse;
       try {
-        const response = await this.agentPool.execute(
+        response = await this.agentPool.execute(
           {
             id: task.id as string,
             type: taskConfig.type,
             task, // Pass the task for proper tracking
-            prompt: taskConfig.prompt ?? taskConfig.description,
+            prompt: feedback ? `${prompt}\n\n${feedback}` : prompt,
             context: contextResult.ok ? contextResult.value.items : [],
-            systemContext: this.buildSystemContext(task),
+            systemContext: this.buildSystemContext(task, targets),
             maxTokens: taskConfig.maxTokens,
           },
           cancellation
         );
+      } catch (error) {
+        lastError = (error as Error).message;
+        feedback = undefined;
+        this.logger?.warn('Task failed, retrying', {
+          taskId: task.id,
+          attempt,
+          error,
+        });
+        continue;
+      }
 
-        // Parse response for changes
-        const changes = this.parseChangesFromResponse(response.content);
-
-        // Record changes to virtual branch (if available)
-        if (branchId && this.branchService && changes.length > 0) {
-          for (const change of changes) {
-            const conflictChange: import('../types/conflict').FileChange = {
-              filePath: change.path as import('../types').FilePath,
-              originalContent: null,
-              modifiedContent: change.content ?? '',
-              diff: '',
-              changeType: change.type === 'write' ? 'create' : 'modify',
-            };
-            this.branchService.recordChange(branchId, conflictChange);
-          }
-          this.logger?.debug('Recorded changes to virtual branch', {
-            branchId,
-            changeCount: changes.length,
-          });
+      // A response that arrives while paused is held until the mission resumes
+      if (!(await this.waitWhilePaused(missionId, cancellation))) {
+        await this.taskManager.cancel(task.id, 'Execution cancelled');
+        return Err(new AppError('CANCELLED', 'Task cancelled'));
+      }
+
+      // Parse and apply the response's edit blocks
+      const operations = parseEditBlocks(response.content);
+      const changesResult = operations.ok
+        ? await resolveEdits(operations.value, workspace)
+        : operations;
+
+      if (!changesResult.ok) {
+        // Send the protocol error back to the agent on the next attempt
+        lastError = changesResult.error.message;
+        feedback = this.buildEditFeedback(changesResult.error.message);
+        await this.rememberError(lastError, {
+          taskId: task.id,
+          file: taskConfig.relevantFiles?.[0],
+          intent: taskConfig.description,
+        });
+        this.logger?.warn('Task produced invalid edits, retrying', {
+          taskId: task.id,
+          attempt,
+          error: changesResult.error.message,
+        });
+        continue;
+      }
+
+      const changes = changesResult.value;
+
+      // Changes outside the allowed scope are sent back to the agent
+      const refused = await this.enforceScope(missionId, task, changes);
+      if (refused.length > 0) {
+        lastError = `Changes refused by scope policy: ${refused.join('; ')}`;
+        feedback = this.buildScopeFeedback(refused);
+        this.logger?.warn('Task changes refused by scope policy, retrying', {
+          taskId: task.id,
+          attempt,
+          refused,
+        });
+        continue;
+      }
+
+      // Convention violations go back to the agent as fix instructions before approval
+      const violations = this.checkConventions(changes);
+      if (violations.length > 0 && this.rejectsConventionViolations(attempt)) {
+        lastError = `Changes violate project conventions: ${violations.map((v) => v.fix ?? v.convention).join('; ')}`;
+        feedback = this.buildConventionFeedback(violations);
+        for (const violation of violations) {
+          await this.rememberError(
+            `Convention ${violation.convention}: expected ${violation.expected}, found ${violation.actual}`,
+            { taskId: task.id, file: violation.location?.file, intent: taskConfig.description }
+          );
         }
+        this.logger?.warn('Task changes violate conventions, retrying', {
+          taskId: task.id,
+          attempt,
+          violations: violations.length,
+        });
+        continue;
+      }
 
-        // Complete task
-        await this.taskManager.complete(task.id, {
-          success: true,
-          output: response.content,
-          duration: response.duration,
+      // Record changes to virtual branch (if available)
+      if (branchId && this.branchService && changes.length > 0) {
+        this.branchService.recordChanges(branchId, changes.map((c) => this.toConflictChange(c)));
+        this.logger?.debug('Recorded changes to virtual branch', {
+          branchId,
+          changeCount: changes.length,
         });
+      }
 
-        await this.missionManager.taskCompleted(missionId, task.id);
+      // Complete task
+      await this.taskManager.complete(task.id, {
+        success: true,
+        output: response.content,
+        duration: response.duration,
+        changes,
+      });
 
-        return Ok({ changes });
-      } catch (error) {
-        retries++;
+      await this.missionManager.taskCompleted(missionId, task.id);
 
-        if (retries >= MAX_TASK_RETRIES) {
-          await this.taskManager.complete(task.id, {
-            success: false,
-            error: (error as Error).message,
-          });
-          return Err(new AppError('TASK', `Task failed after ${retries} retries: ${(error as Error).message}`));
+      return Ok({ task, branchId, changes, output: response.content });
+    }
+
+    await this.taskManager.complete(task.id, {
+      success: false,
+      error: lastError,
+    });
+    return Err(new AppError('TASK', `Task failed after ${MAX_TASK_RETRIES} attempts: ${lastError}`));
+  }
+
+  /**
+   * Put the result of a task completed before an interruption back on a fresh branch
+   */
+  private async restoreTaskOutput(
+    missionId: MissionId,
+    previous: TaskRunOutput,
+    branchIds: VirtualBranchId[]
+  ): AsyncResult<TaskRunOutput> {
+    const { task, changes } = previous;
+    let branchId: VirtualBranchId | undefined;
+
+    if (this.branchService) {
+      const agentId = `agent-${task.id}` as import('../types').AgentId;
+      const branchResult = await this.branchService.createBranch(agentId, task.id, missionId);
+      if (!branchResult.ok) {
+        return Err(branchResult.error);
+      }
+      branchId = branchResult.value.id;
+      branchIds.push(branchId);
+      if (changes.length > 0) {
+        this.branchService.recordChanges(branchId, changes.map((c) => this.toConflictChange(c)));
+      }
+    }
+
+    await this.missionManager.taskCompleted(missionId, task.id);
+
+    this.logger?.debug('Restored completed task', { taskId: task.id, changeCount: changes.length });
+    return Ok({ ...previous, branchId });
+  }
+
+  /**
+   * Create the workspace edits are resolved against.
+   * Files changed by upstream tasks, or by the given unmerged changes, are read
+   * from those changes, not disk.
+   */
+  private createEditWorkspace(upstream: UpstreamOutput<TaskRunOutput>[], baseChanges: FileChange[] = []): EditWorkspace {
+    const upstreamContent = new Map<string, string | null>();
+    for (const change of [...baseChanges, ...upstream.flatMap((u) => u.value.changes)]) {
+      upstreamContent.set(change.path, change.type === 'delete' ? null : change.content ?? '');
+    }
+
+    return {
+      resolvePath: (target): string | null => {
+        if (!this.fileSystem || !this.projectRoot) {
+          return this.isOutsideProject(path.normalize(target)) ? null : target;
+        }
+        const resolved = this.fileSystem.resolve(this.projectRoot, target);
+        return this.isOutsideProject(this.fileSystem.relative(this.projectRoot, resolved)) ? null : resolved;
+      },
+      readFile: async (target): Promise<string | null> => {
+        if (upstreamContent.has(target)) {
+          return upstreamContent.get(target) ?? null;
+        }
+        const filePath = toFilePath(target);
+        if (!this.fileSystem || !(await this.fileSystem.exists(filePath))) {
+          return null;
         }
+        return this.fileSystem.readFile(filePath);
+      },
+    };
+  }
 
-        this.logger?.warn('Task failed, retrying', {
+  /**
+   * Check whether a path relative to the project root points outside of it
+   */
+  private isOutsideProject(relative: string): boolean {
+    return relative === '..' || /^\.\.[\\/]/.test(relative) || path.isAbsolute(relative);
+  }
+
+  /**
+   * Enforce the scope policy on a task's changes, returning the refused ones.
+   * Violations that need confirmation go through the approval flow.
+   */
+  private async enforceScope(missionId: MissionId, task: Task, changes: FileChange[]): Promise<string[]> {
+    if (!this.scopeGuard) {
+      return [];
+    }
+
+    const refused: string[] = [];
+    for (const change of changes) {
+      const decision = await this.scopeGuard.enforce(
+        {
+          type: change.type === 'delete' ? 'delete' : change.type === 'modify' ? 'write' : 'create',
+          path: toFilePath(change.path),
+          missionId,
+          content: change.content,
+        },
+        {
+          source: 'task',
           taskId: task.id,
-          retry: retries,
-          error,
+          confirm: this.approvalService
+            ? (violation): Promise<boolean> => this.confirmScopeViolation(task, change, violation)
+            : undefined,
+        }
+      );
+      if (!decision.allowed) {
+        const reason = decision.violation?.reason ?? 'not allowed';
+        refused.push(`${change.path}: ${reason}`);
+        await this.rememberError(`Scope violation: ${reason}`, {
+          taskId: task.id,
+          file: change.path,
+          intent: task.description,
         });
       }
     }
+    return refused;
+  }
+
+  /**
+   * Ask for approval of a change that violates a confirmation policy
+   */
+  private async confirmScopeViolation(
+    task: Task,
+    change: FileChange,
+    violation: ExtendedScopeViolation
+  ): Promise<boolean> {
+    if (!this.approvalService) {
+      return false;
+    }
+
+    this.logger?.info('Requesting approval for scope violation', {
+      taskId: task.id,
+      path: change.path,
+      reason: violation.reason,
+    });
+
+    const result = await this.approvalService.requestApproval(task, [this.toConflictChange(change)]);
+    return result.ok && result.value.approved;
+  }
+
+  /**
+   * Build retry feedback for changes refused by the scope policy
+   */
+  private buildScopeFeedback(refused: string[]): string {
+    return `Your previous response changed files you are not allowed to change:
+${refused.map((r) => `- ${r}`).join('\n')}
+
+Resend ALL of your file changes without touching these files. Nothing from the previous response was applied.`;
+  }
+
+  /**
+   * Check each written file against the project's conventions. Only violations
+   * the change introduced count: those on changed lines, or absent from the original.
+   */
+  private checkConventions(changes: FileChange[]): ConventionViolation[] {
+    const extractor = this.conventionExtractor;
+    if (!extractor) {
+      return [];
+    }
+
+    return changes.flatMap((change) => {
+      if (change.type === 'delete' || change.content === undefined) {
+        return [];
+      }
+
+      const file = toRelativePath(change.path);
+      const violations = extractor.checkCompliance(change.content, file).violations;
+      if (change.originalContent === undefined || violations.length === 0) {
+        return violations;
+      }
+
+      const key = (v: ConventionViolation): string => `${v.convention}:${v.actual}`;
+      const existing = new Set(extractor.checkCompliance(change.originalContent, file).violations.map(key));
+      const changedLines = this.getChangedLines(change.originalContent, change.content);
+      return violations.filter(
+        (v) => !existing.has(key(v)) || (v.location !== undefined && changedLines.has(v.location.line))
+      );
+    });
+  }
+
+  /**
+   * Line numbers (1-based) of the new content that differ from the original
+   */
+  private getChangedLines(original: string, content: string): Set<number> {
+    const changed = new Set<number>();
+    let offset = 0;
+    for (const hunk of diffLines(original.split('\n'), content.split('\n'))) {
+      const start = hunk.baseStart + offset;
+      for (let i = 0; i < hunk.lines.length; i++) {
+        changed.add(start + i + 1);
+      }
+      offset += hunk.lines.length - (hunk.baseEnd - hunk.baseStart);
+    }
+    return changed;
+  }
+
+  /**
+   * Whether convention violations fail this attempt under the configured strictness
+   */
+  private rejectsConventionViolations(attempt: number): boolean {
+    switch (this.config.conventionStrictness) {
+      case 'strict':
+        return true;
+      case 'standard':
+        return attempt < MAX_TASK_RETRIES;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Build retry feedback for changes that break the project's conventions
+   */
+  private buildConventionFeedback(violations: ConventionViolation[]): string {
+    const fixes = violations.map((v) => {
+      const location = v.location ? `${v.location.file}:${v.location.line}` : v.convention;
+      return `- ${location}: ${v.fix ?? `use ${v.expected} instead of ${v.actual}`}`;
+    });
+
+    return `Your previous response does not follow the project's conventions:
+${fixes.join('\n')}
+
+Resend ALL of your file changes with these fixes applied. Nothing from the previous response was applied.`;
+  }
+
+  /**
+   * Build retry feedback for a response whose edits could not be applied
+   */
+  private buildEditFeedback(error: string): string {
+    return `Your previous response could not be applied:
+${error}
 
-    return Err(new AppError('TASK', 'Task failed'));
+Resend ALL of your file changes as corrected edit blocks. Nothing from the previous response was applied.`;
   }
 
   /**
-   * Execute verification phase
+   * Execute verification phase on the merged content of the mission's changes.
+   * With auto-fix enabled, failures are sent to a `fix` task and re-verified.
    */
   private async executeVerificationPhase(
     plan: ExecutionPlan,
-    cancellation: CancellationToken
-  ): AsyncResult<object> {
+    cancellation: CancellationToken,
+    executionId: string
+  ): AsyncResult<{
+    verification: VerificationResult;
+    findings: VerificationFinding[];
+    fixChanges: FileChange[];
+  }> {
     this.logger?.debug('Executing verification phase', { missionId: plan.missionId });
 
-    const verifyResult = await this.verificationPipeline.verify({
-      phase: 'post-generation',
-      content: {
-        type: 'changes',
-        changes: plan.changes ?? [],
-      },
-      options: {
-        strictness: 'standard',
-      },
-      level: 'thorough',
-      filePaths: plan.changes?.map((c) => c.path as string),
-      contextFile: plan.changes?.[0]?.path as string,
+    const fixChanges: FileChange[] = [];
+    let fixAttempts = 0;
+
+    for (;;) {
+      const changes = await this.getMergedChanges(executionId, plan);
+      await this.refreshSemanticIndex(changes);
+
+      const verifyResult = await this.verificationPipeline.verify({
+        phase: 'post-generation',
+        content: {
+          type: 'changes',
+          changes,
+        },
+        options: {
+          strictness: 'standard',
+          // Related tests and the type check already ran in the merge phase
+          skipChecks: this.mergeEngine && this.branchService
+            ? [...(this.testRunner ? ['tests'] : []), ...(this.typeChecker ? ['compile'] : [])]
+            : [],
+        },
+        level: 'thorough',
+        contextFile: changes[0]?.path,
+      }, cancellation);
+
+      if (!verifyResult.ok) {
+        return Err(verifyResult.error);
+      }
+
+      const verification = verifyResult.value;
+      const findings = this.attributeFindings(executionId, verification.issues ?? []);
+
+      if (verification.valid !== false) {
+        await this.missionManager.advancePhase(plan.missionId);
+        return Ok({ verification, findings, fixChanges });
+      }
+
+      void this.eventBus.emit('execution:verificationFailed', {
+        missionId: plan.missionId,
+        summary: verification.summary,
+        findings,
+      });
+
+      for (const finding of findings.filter((f) => f.issue.severity === 'error')) {
+        const pattern = await this.rememberError(finding.issue.message, {
+          taskId: finding.taskId ?? (`verification-${plan.missionId}` as TaskId),
+          file: finding.file,
+          symbol: finding.issue.symbol,
+        });
+        if (pattern && finding.issue.suggestion) {
+          await this.errorMemory?.recordResolution(pattern.id, finding.issue.suggestion);
+        }
+      }
+
+      if (
+        !this.config.autoFixVerificationFailures ||
+        fixAttempts >= this.config.maxVerificationFixAttempts ||
+        cancellation.isCancelled
+      ) {
+        return Err(new AppError(
+          'VERIFICATION',
+          `Verification failed: ${verification.summary}`
+        ));
+      }
+
+      fixAttempts++;
+      const fixResult = await this.runVerificationFix(plan.missionId, executionId, findings, cancellation);
+      if (!fixResult.ok) {
+        return Err(new AppError(
+          'VERIFICATION',
+          `Verification failed: ${verification.summary}; fix task failed: ${fixResult.error.message}`
+        ));
+      }
+      fixChanges.push(...fixResult.value);
+    }
+  }
+
+  /**
+   * Get the net change per file across all task branches, in plan order.
+   * Content is read back from the workspace after merge where possible,
+   * so verification sees conflict resolutions too.
+   */
+  private async getMergedChanges(executionId: string, plan: ExecutionPlan): Promise<FileChange[]> {
+    const byPath = new Map<string, FileChange>();
+    for (const change of plan.changes ?? []) {
+      byPath.set(change.path, change);
+    }
+    for (const { change } of this.executionChanges.get(executionId) ?? []) {
+      byPath.set(change.path, change);
+    }
+
+    const merged: FileChange[] = [];
+    for (const change of byPath.values()) {
+      const filePath = toFilePath(change.path);
+      if (change.type !== 'delete' && this.fileSystem && await this.fileSystem.exists(filePath)) {
+        merged.push({ ...change, content: await this.fileSystem.readFile(filePath) });
+      } else {
+        merged.push(change);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Re-index merged files so symbol and export checks see the new content
+   */
+  private async refreshSemanticIndex(changes: FileChange[]): Promise<void> {
+    if (!this.semanticIndex || !this.fileSystem || !this.projectRoot) {
+      return;
+    }
+
+    for (const change of changes) {
+      const relativePath: RelativePath = this.fileSystem.relative(this.projectRoot, toFilePath(change.path));
+      const result = change.type === 'delete'
+        ? await this.semanticIndex.removeFile(relativePath)
+        : await this.semanticIndex.updateFile(relativePath);
+      if (!result.ok) {
+        this.logger?.debug('Failed to refresh semantic index', { path: change.path, error: result.error });
+      }
+    }
+  }
+
+  /**
+   * Link verification issues to the last task and branch that changed their file
+   */
+  private attributeFindings(executionId: string, issues: VerificationIssue[]): VerificationFinding[] {
+    const tracked = this.executionChanges.get(executionId) ?? [];
+
+    return issues.map((issue) => {
+      const file = issue.location?.file as string | undefined;
+      const origin = file
+        ? [...tracked].reverse().find((t) =>
+          t.change.path === file || t.change.path.endsWith(file) || file.endsWith(t.change.path))
+        : undefined;
+
+      return {
+        issue,
+        file,
+        taskId: origin?.taskId,
+        branchId: origin?.branchId,
+      };
+    });
+  }
+
+  /**
+   * Run a `fix` task for verification findings and merge its changes.
+   * With unmerged changes given, the task edits on top of them and its branch
+   * is left for the merge phase.
+   */
+  private async runVerificationFix(
+    missionId: MissionId,
+    executionId: string,
+    findings: VerificationFinding[],
+    cancellation: CancellationToken,
+    unmerged?: FileChange[]
+  ): AsyncResult<FileChange[]> {
+    const errors = findings.filter((f) => f.issue.severity === 'error');
+    const files = [...new Set([
+      ...errors.map((f) => f.file).filter((f): f is string => !!f),
+      ...(unmerged ?? []).filter((c) => c.type !== 'delete').map((c) => c.path),
+    ])];
+
+    this.logger?.info('Running fix task for verification failures', {
+      missionId,
+      errorCount: errors.length,
+    });
+
+    const issueList = errors.map((f) => {
+      const location = f.issue.location && 'line' in f.issue.location
+        ? `${f.file}:${f.issue.location.line}`
+        : f.file ?? 'unknown file';
+      const suggestion = f.issue.suggestion ? ` (${f.issue.suggestion})` : '';
+      return `- ${location}: ${f.issue.message}${suggestion}`;
     });
 
-    if (!verifyResult.ok) {
-      return Err(verifyResult.error);
+    const branchIds: VirtualBranchId[] = [];
+    const fixResult = await this.executeTaskInternal(
+      missionId,
+      {
+        type: 'fix',
+        description: 'Fix verification failures',
+        priority: 'high',
+        prompt: `Verification of the mission's changes failed with these errors:\n${issueList.join('\n')}\n\nFix the code so these checks pass.`,
+        relevantFiles: files,
+      },
+      cancellation,
+      branchIds,
+      [],
+      undefined,
+      unmerged
+    );
+
+    if (branchIds.length > 0) {
+      this.executionBranches.set(executionId, [
+        ...(this.executionBranches.get(executionId) ?? []),
+        ...branchIds,
+      ]);
     }
 
-    if (!verifyResult.value.valid) {
-      return Err(new AppError(
-        'VERIFICATION',
-        `Verification failed: ${verifyResult.value.summary}`
-      ));
+    if (!fixResult.ok) {
+      return Err(fixResult.error);
     }
 
-    await this.missionManager.advancePhase(plan.missionId);
+    const { task, branchId, changes } = fixResult.value;
+    const tracked = changes.map((change) => ({ change, taskId: task.id, branchId }));
+
+    // Approved before it is merged, or before tests re-run on it ahead of the merge phase
+    const approvalResult = await this.approveFixChanges(missionId, tracked);
+    if (!approvalResult.ok) {
+      return Err(approvalResult.error);
+    }
 
-    return Ok(verifyResult.value);
+    if (this.branchService && !unmerged) {
+      for (const branchId of branchIds) {
+        await this.backupBranchFiles(branchId, missionId);
+        const mergeResult = await this.branchService.mergeBranch(branchId);
+        if (!mergeResult.ok) {
+          return Err(mergeResult.error);
+        }
+        await this.commitBranch(branchId, missionId);
+      }
+    }
+
+    this.executionChanges.set(executionId, [
+      ...(this.executionChanges.get(executionId) ?? []),
+      ...tracked,
+    ]);
+
+    return Ok(changes);
+  }
+
+  /**
+   * Request approval for a fix task's changes; a rejection fails the fix
+   */
+  private async approveFixChanges(missionId: MissionId, tracked: TrackedChange[]): AsyncResult<void> {
+    if (!this.approvalService || tracked.length === 0) {
+      return Ok(undefined);
+    }
+
+    const approvalResult = await this.requestApprovalForChanges(missionId, tracked.map((t) => t.change));
+    if (!approvalResult.ok) {
+      return Err(approvalResult.error);
+    }
+    if (!approvalResult.value.approved) {
+      await this.rememberRejection(tracked, approvalResult.value.comment);
+      return Err(new AppError('APPROVAL_REJECTED', 'Fix changes rejected by user'));
+    }
+    return Ok(undefined);
   }
 
   /**
@@ -714,7 +1497,12 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       branchCount: branchIds.length,
     });
 
-    // Detect conflicts between all branches
+    // Fold changes to independent regions of shared files together, then detect what is left
+    const mergedFiles = this.mergeEngine.mergeIndependentChanges();
+    if (mergedFiles.length > 0) {
+      this.logger?.info('Merged independent changes', { fileCount: mergedFiles.length });
+    }
+
     const conflicts = this.mergeEngine.detectConflicts();
 
     if (conflicts.length > 0) {
@@ -728,6 +1516,10 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
 
         const resolveResult = await this.mergeEngine.resolveConflict(conflict);
         if (!resolveResult.ok) {
+          await this.rememberError(`Merge conflict could not be resolved: ${resolveResult.error.message}`, {
+            taskId: `merge-${missionId}` as TaskId,
+            file: conflict.filePath,
+          });
           return Err(new AppError(
             'MERGE_FAILED',
             `Failed to resolve conflict in ${conflict.filePath}: ${resolveResult.error.message}`
@@ -737,6 +1529,10 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
         // Apply the resolution
         const applyResult = await this.mergeEngine.applyResolution(resolveResult.value);
         if (!applyResult.ok) {
+          await this.rememberError(`Merge resolution could not be applied: ${applyResult.error.message}`, {
+            taskId: `merge-${missionId}` as TaskId,
+            file: conflict.filePath,
+          });
           return Err(new AppError(
             'MERGE_FAILED',
             `Failed to apply resolution: ${applyResult.error.message}`
@@ -751,15 +1547,34 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
       }
     }
 
+    // New type errors and failing related tests block the merge; fix tasks add branches
+    const typeResult = await this.runPreMergeTypeCheck(executionId, missionId, cancellation);
+    if (!typeResult.ok) {
+      return typeResult;
+    }
+
+    const testResult = await this.runPreMergeTests(executionId, missionId, cancellation);
+    if (!testResult.ok) {
+      return testResult;
+    }
+
     // Merge all branches to apply changes
-    for (const branchId of branchIds) {
+    for (const branchId of this.executionBranches.get(executionId) ?? branchIds) {
+      await this.backupBranchFiles(branchId, missionId);
       const mergeResult = await this.branchService.mergeBranch(branchId);
       if (!mergeResult.ok) {
         this.logger?.error('Failed to merge branch', mergeResult.error, { branchId });
-        // Continue with other branches - partial merge is better than none
-      } else {
-        this.logger?.debug('Branch merged successfully', { branchId });
+        const branch = this.branchService.getBranch(branchId);
+        await this.rememberError(`Branch merge failed: ${mergeResult.error.message}`, {
+          taskId: branch?.taskId ?? (`merge-${missionId}` as TaskId),
+          file: branch?.changes[0]?.filePath,
+        });
+        // A refused or failed branch fails the phase; the branches merged so far are rolled back
+        return Err(mergeResult.error);
       }
+
+      this.logger?.debug('Branch merged successfully', { branchId });
+      await this.commitBranch(branchId, missionId);
     }
 
     await this.missionManager.advancePhase(missionId);
@@ -768,6 +1583,146 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     return Ok(undefined);
   }
 
+  /**
+   * Compile the execution's unmerged changes in memory, against the files on disk.
+   * With auto-fix enabled, new errors are sent to a `fix` task and the check re-runs.
+   */
+  private async runPreMergeTypeCheck(
+    executionId: string,
+    missionId: MissionId,
+    cancellation: CancellationToken
+  ): AsyncResult<void> {
+    if (!this.typeChecker) {
+      return Ok(undefined);
+    }
+
+    let fixAttempts = 0;
+    for (;;) {
+      const changes = this.getUnmergedChanges(executionId);
+      const checkResult = await this.typeChecker.check(changes, cancellation);
+      if (!checkResult.ok) {
+        // A check that cannot be run does not block the merge
+        this.logger?.warn('Type check could not be run', { error: checkResult.error.message });
+        return Ok(undefined);
+      }
+
+      const errors = checkResult.value.filter((issue) => issue.severity === 'error');
+      if (errors.length === 0) {
+        return Ok(undefined);
+      }
+
+      const findings = this.attributeFindings(executionId, errors);
+      const summary = `${errors.length} type error(s)`;
+      void this.eventBus.emit('execution:verificationFailed', {
+        missionId,
+        summary,
+        findings,
+      });
+
+      for (const finding of findings) {
+        await this.rememberError(finding.issue.message, {
+          taskId: finding.taskId ?? (`types-${missionId}` as TaskId),
+          file: finding.file,
+          symbol: finding.issue.symbol,
+        });
+      }
+
+      if (
+        !this.config.autoFixVerificationFailures ||
+        fixAttempts >= this.config.maxVerificationFixAttempts ||
+        cancellation.isCancelled
+      ) {
+        return Err(new AppError('VERIFICATION', `Type check failed: ${summary}`));
+      }
+
+      fixAttempts++;
+      const fixResult = await this.runVerificationFix(missionId, executionId, findings, cancellation, changes);
+      if (!fixResult.ok) {
+        return Err(new AppError(
+          'VERIFICATION',
+          `Type check failed: ${summary}; fix task failed: ${fixResult.error.message}`
+        ));
+      }
+    }
+  }
+
+  /**
+   * Run the tests related to the execution's unmerged changes in a shadow workspace.
+   * With auto-fix enabled, failures are sent to a `fix` task and the tests re-run.
+   */
+  private async runPreMergeTests(
+    executionId: string,
+    missionId: MissionId,
+    cancellation: CancellationToken
+  ): AsyncResult<void> {
+    if (!this.testRunner) {
+      return Ok(undefined);
+    }
+
+    let fixAttempts = 0;
+    for (;;) {
+      const changes = this.getUnmergedChanges(executionId);
+      const testResult = await this.testRunner.run(changes, cancellation);
+      if (!testResult.ok) {
+        if (testResult.error.code === 'CANCELLED') {
+          return Err(testResult.error);
+        }
+        // Tests that cannot be run do not block the merge
+        this.logger?.warn('Related tests could not be run', { error: testResult.error.message });
+        return Ok(undefined);
+      }
+
+      const { issues, failed, testFiles } = testResult.value;
+      if (failed === 0) {
+        this.logger?.debug('Related tests passed', { testFiles: testFiles.length });
+        return Ok(undefined);
+      }
+
+      const findings = this.attributeFindings(executionId, issues);
+      const summary = `${failed} related test(s) failed`;
+      void this.eventBus.emit('execution:testsFailed', {
+        missionId,
+        summary,
+        findings,
+      });
+
+      for (const finding of findings) {
+        await this.rememberError(finding.issue.message.split('\n')[0]!, {
+          taskId: finding.taskId ?? (`tests-${missionId}` as TaskId),
+          file: finding.file,
+        });
+      }
+
+      if (
+        !this.config.autoFixVerificationFailures ||
+        fixAttempts >= this.config.maxVerificationFixAttempts ||
+        cancellation.isCancelled
+      ) {
+        return Err(new AppError('VERIFICATION', `Tests failed: ${summary}`));
+      }
+
+      fixAttempts++;
+      const fixResult = await this.runVerificationFix(missionId, executionId, findings, cancellation, changes);
+      if (!fixResult.ok) {
+        return Err(new AppError(
+          'VERIFICATION',
+          `Tests failed: ${summary}; fix task failed: ${fixResult.error.message}`
+        ));
+      }
+    }
+  }
+
+  /**
+   * Net change per file produced by the execution's tasks, before merge
+   */
+  private getUnmergedChanges(executionId: string): FileChange[] {
+    const byPath = new Map<string, FileChange>();
+    for (const { change } of this.executionChanges.get(executionId) ?? []) {
+      byPath.set(change.path, change);
+    }
+    return [...byPath.values()];
+  }
+
   /**
    * Handle execution failure
    */
@@ -778,20 +1733,22 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     this.cleanupExecutionBranches(executionId);
 
     await this.missionManager.rollback(missionId);
+    await this.discardMissionBranch(missionId);
     await this.missionManager.fail(missionId, 'Execution failed, changes rolled back');
   }
 
   /**
    * Handle merge failure
    */
-  private async handleMergeFailure(missionId: MissionId, executionId?: string): Promise<void> {
-    this.logger?.warn('Handling merge failure, rolling back', { missionId });
+  private async handleMergeFailure(missionId: MissionId, error: AppError, executionId?: string): Promise<void> {
+    this.logger?.warn('Handling merge failure, rolling back', { missionId, error: error.message });
 
     // Abandon any branches created for this execution
     this.cleanupExecutionBranches(executionId);
 
     await this.missionManager.rollback(missionId);
-    await this.missionManager.fail(missionId, 'Merge failed, changes rolled back');
+    await this.discardMissionBranch(missionId);
+    await this.missionManager.fail(missionId, `Merge failed, changes rolled back: ${error.message}`);
   }
 
   /**
@@ -804,6 +1761,7 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     this.cleanupExecutionBranches(executionId);
 
     await this.missionManager.rollback(missionId);
+    await this.discardMissionBranch(missionId);
     await this.missionManager.fail(missionId, 'Verification failed, changes rolled back');
   }
 
@@ -828,6 +1786,94 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
     }
   }
 
+  /**
+   * Back up the files a branch is about to write, so its task can be rolled back on its own
+   */
+  private async backupBranchFiles(branchId: VirtualBranchId, missionId: MissionId): Promise<void> {
+    const branch = this.branchService?.getBranch(branchId);
+    if (!branch || branch.changes.length === 0) {
+      return;
+    }
+
+    const paths = branch.changes.map((c) => c.filePath);
+    const result = await this.rollbackService.backup(paths, missionId, branch.taskId);
+    if (!result.ok) {
+      this.logger?.warn('Failed to back up branch files', { branchId, error: result.error.message });
+    }
+  }
+
+  /**
+   * Create or resume the mission's git branch
+   */
+  private async startMissionBranch(missionId: MissionId): AsyncResult<void> {
+    if (!this.missionGit?.isEnabled()) {
+      return Ok(undefined);
+    }
+
+    const mission = this.missionManager.get(missionId);
+    const result = await this.missionGit.startMission(missionId, mission?.title ?? `Mission ${missionId}`);
+    return result.ok ? Ok(undefined) : Err(result.error);
+  }
+
+  /**
+   * Commit a merged branch's files to the mission's git branch, as one commit for its task
+   */
+  private async commitBranch(branchId: VirtualBranchId, missionId: MissionId): Promise<void> {
+    const branch = this.branchService?.getBranch(branchId);
+    if (!this.missionGit?.isEnabled() || !branch || branch.changes.length === 0) {
+      return;
+    }
+
+    const task = this.taskManager.get(branch.taskId);
+    const summary = task?.title && task.title !== task.description
+      ? `${task.title}\n\n${task.description}`
+      : task?.description ?? `Task ${branch.taskId}`;
+    const result = await this.missionGit.commitTask(
+      missionId,
+      branch.taskId,
+      summary,
+      branch.changes.map((c) => c.filePath)
+    );
+
+    if (!result.ok) {
+      this.logger?.warn('Failed to commit task changes', { branchId, error: result.error.message });
+    } else if (result.value) {
+      void this.eventBus.emit('execution:taskCommitted', {
+        missionId,
+        taskId: branch.taskId,
+        commit: result.value,
+      });
+    }
+  }
+
+  /**
+   * Finish the mission's git branch once the mission completes
+   */
+  private async completeMissionBranch(missionId: MissionId): Promise<void> {
+    if (!this.missionGit?.isEnabled()) {
+      return;
+    }
+
+    const result = await this.missionGit.completeMission(missionId);
+    if (!result.ok) {
+      this.logger?.warn('Failed to complete mission branch', { missionId, error: result.error.message });
+    }
+  }
+
+  /**
+   * Drop the mission's git branch and commits; files are restored by the rollback
+   */
+  private async discardMissionBranch(missionId: MissionId): Promise<void> {
+    if (!this.missionGit?.isEnabled()) {
+      return;
+    }
+
+    const result = await this.missionGit.discardMission(missionId);
+    if (!result.ok) {
+      this.logger?.warn('Failed to discard mission branch', { missionId, error: result.error.message });
+    }
+  }
+
   /**
    * Handle cancellation
    */
@@ -843,9 +1889,41 @@ export class ExecutionCoordinator implements IExecutionCoordinatorService {
   }
 
   /**
-   * Build system context for agent
+   * Build the task prompt, appending outputs of tasks that inform it
    */
-  private buildSystemContext(task: Task): string {
+  private buildTaskPrompt(
+    taskConfig: ExecutionTaskConfig,
+    upstream: UpstreamOutput<TaskRunOutput>[]
+  ): string {
+    const prompt = taskConfig.prompt ?? taskConfig.description;
+    const informed = upstream.filter((u) => u.type === 'informs');
+    if (informed.length === 0) {
+      return prompt;
+    }
+
+    const sections = informed.map((u) => {
+      const output = u.value.output.length > MAX_INFORMED_OUTPUT_CHARS
+        ? `${u.value.output.slice(0, MAX_INFORMED_OUTPUT_CHARS)}\n... (truncated)`
+        : u.value.output;
+      return `### ${u.task.config.description}\n${output}`;
+    });
+
+    return `${prompt}\n\n## Output from prerequisite tasks\n\n${sections.join('\n\n')}`;
+  }
+
+  /**
+   * Build system context for agent, with prevention hints for the files it targets
+   */
+  private buildSystemContext(task: Task, targets: string[] = []): string {
+    const conventions = this.conventionExtractor?.summarize() ?? [];
+    const conventionSection = conventions.length > 0
+      ? `\nProject conventions:\n${conventions.map((c) => `- ${c}`).join('\n')}\n`
+      : '';
+    const hints = this.errorMemory?.getPreventionHints({ intent: task.description, targets }) ?? [];
+    const lessons = hints.length > 0
+      ? `\nLessons from earlier failures:\n${hints.map((h) => `- ${h}`).join('\n')}\n`
+      : '';
+
     return `You are an AI assistant executing a coding task.
 
 Task Type: ${task.type}
@@ -857,37 +1935,55 @@ Instructions:
 - Write clean, maintainable code
 - Include appropriate error handling
 - Explain your changes briefly
-
+${conventionSection}${lessons}
 Output Format:
-- Provide code changes in markdown code blocks
-- Tag each block with the file path
-- Use unified diff format for modifications`;
+${EDIT_PROTOCOL_INSTRUCTIONS}`;
   }
 
   /**
-   * Parse file changes from agent response
+   * Record a failure in error memory, returning the pattern it matched
    */
-  private parseChangesFromResponse(response: string): FileChange[] {
-    const changes: FileChange[] = [];
-
-    // Look for code blocks with file paths
-    const codeBlockRegex = /```(\w+)?\s*(?:\/\/|#)?\s*([^\n]+)\n([\s\S]*?)```/g;
-
-    let match;
-    while ((match = codeBlockRegex.exec(response)) !== null) {
-      const filePath = match[2]?.trim();
-      const content = match[3];
-
-      if (filePath && !filePath.startsWith('//') && !filePath.startsWith('#') && content) {
-        changes.push({
-          path: toFilePath(filePath),
-          type: 'write',
-          content,
-        });
-      }
+  private async rememberError(
+    message: string,
+    context: { taskId: TaskId; file?: string; symbol?: string; intent?: string }
+  ): Promise<ErrorPattern | undefined> {
+    if (!this.errorMemory) {
+      return undefined;
+    }
+
+    const file = context.file === undefined
+      ? undefined
+      : this.fileSystem && this.projectRoot
+        ? this.fileSystem.relative(this.projectRoot, toFilePath(context.file))
+        : toRelativePath(context.file);
+
+    const result = await this.errorMemory.recordError(new Error(message), {
+      taskId: context.taskId,
+      agentId: `agent-${context.taskId}` as AgentId,
+      file,
+      symbol: context.symbol,
+      intent: context.intent,
+    });
+    if (!result.ok) {
+      this.logger?.debug('Failed to record error', { error: result.error });
+      return undefined;
     }
+    return result.value;
+  }
 
-    return changes;
+  /**
+   * Record rejected changes per file, keeping the user's comment as the resolution
+   */
+  private async rememberRejection(changes: TrackedChange[], comment?: string): Promise<void> {
+    for (const { change, taskId } of changes) {
+      const pattern = await this.rememberError(
+        comment ? `Change rejected by user: ${comment}` : 'Change rejected by user',
+        { taskId, file: change.path }
+      );
+      if (pattern && comment) {
+        await this.errorMemory?.recordResolution(pattern.id, `A similar change was rejected: ${comment}`);
+      }
+    }
   }
 
   /**
@@ -903,6 +1999,106 @@ Output Format:
       const { task, error } = event as unknown as { task: Task; error: Error };
       this.logger?.debug('Task failed event', { taskId: task.id, error });
     });
+
+    this.eventBus.on('mission:paused', (event) => {
+      const { mission } = event as unknown as { mission: Mission };
+      this.holdMission(mission.id);
+    });
+
+    for (const released of ['mission:resumed', 'mission:cancelled', 'mission:failed']) {
+      this.eventBus.on(released, (event) => {
+        const { mission } = event as unknown as { mission: Mission };
+        this.releaseMission(mission.id);
+      });
+    }
+
+    // A finished mission's policy and confirmed operations no longer apply
+    for (const finished of ['mission:completed', 'mission:cancelled', 'mission:failed']) {
+      this.eventBus.on(finished, (event) => {
+        const { mission } = event as unknown as { mission: Mission };
+        this.scopeGuard?.clearPolicy?.(mission.id);
+      });
+    }
+  }
+
+  /**
+   * Limit the mission's writes to its scope, when it has one
+   */
+  private applyScopePolicy(missionId: MissionId): void {
+    if (!this.scopeGuard) {
+      return;
+    }
+
+    const scope = this.missionManager.get(missionId)?.scope;
+    const allowedPaths = [
+      ...(scope?.files ?? []),
+      ...(scope?.directories ?? []).map((directory) => `${directory.replace(/\/+$/, '')}/**`),
+    ];
+    this.scopeGuard.setPolicy(missionId, allowedPaths.length > 0 ? { allowedPaths } : {});
+  }
+
+  /**
+   * Close the pause gate of a mission, suspending its running execution
+   */
+  private holdMission(missionId: MissionId): void {
+    if (this.pauseGates.has(missionId as string)) {
+      return;
+    }
+
+    let release: () => void = () => undefined;
+    const promise = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    this.pauseGates.set(missionId as string, { promise, release });
+
+    for (const [id, execution] of this.activeExecutions) {
+      if (execution.missionId === missionId) {
+        this.logger?.info('Execution paused', { executionId: id, missionId });
+        this.updateProgress(id, { message: 'Paused' });
+      }
+    }
+  }
+
+  /**
+   * Open the pause gate of a mission, letting waiting work continue
+   */
+  private releaseMission(missionId: MissionId): void {
+    const gate = this.pauseGates.get(missionId as string);
+    if (!gate) {
+      return;
+    }
+
+    this.pauseGates.delete(missionId as string);
+    gate.release();
+
+    for (const [id, execution] of this.activeExecutions) {
+      if (execution.missionId === missionId && !execution.cancellation.isCancelled) {
+        this.logger?.info('Execution resumed', { executionId: id, missionId });
+        this.updateProgress(id, { message: 'Resumed' });
+      }
+    }
+  }
+
+  /**
+   * Wait while the mission is paused.
+   * Returns false if execution was cancelled, so the caller stops instead of continuing.
+   */
+  private async waitWhilePaused(missionId: MissionId, cancellation: CancellationToken): Promise<boolean> {
+    let gate = this.pauseGates.get(missionId as string);
+    if (!gate) {
+      return !cancellation.isCancelled;
+    }
+
+    const subscription = cancellation.onCancelled?.(() => this.releaseMission(missionId));
+    try {
+      while (gate && !cancellation.isCancelled) {
+        await gate.promise;
+        gate = this.pauseGates.get(missionId as string);
+      }
+    } finally {
+      subscription?.dispose();
+    }
+    return !cancellation.isCancelled;
   }
 
   /**
@@ -910,22 +2106,27 @@ Output Format:
    */
   private createCancellationToken(): CancellationToken {
     let cancelled = false;
-    const callbacks: Array<() => void> = [];
+    const callbacks = new Set<() => void>();
 
     return {
-      get isCancelled() {
+      get isCancelled(): boolean {
         return cancelled;
       },
-      cancel() {
+      cancel(): void {
         cancelled = true;
         callbacks.forEach((cb) => cb());
       },
-      onCancel(callback: () => void) {
+      onCancelled(callback: () => void): Disposable {
         if (cancelled) {
           callback();
-        } else {
-          callbacks.push(callback);
+          return { dispose: (): void => {} };
         }
+        callbacks.add(callback);
+        return {
+          dispose: (): void => {
+            callbacks.delete(callback);
+          },
+        };
       },
     };
   }
@@ -1037,6 +2238,15 @@ export function createExecutionCoordinator(
     approvalService?: IApprovalService;
     branchService?: IVirtualBranchService;
     mergeEngine?: IMergeEngineService;
+    fileSystem?: IFileSystem;
+    projectRoot?: FilePath;
+    semanticIndex?: ISemanticIndexService;
+    scopeGuard?: IScopeGuardService;
+    errorMemory?: IErrorMemoryService;
+    conventionExtractor?: IConventionExtractorService;
+    testRunner?: ITestRunnerService;
+    typeChecker?: ITypeCheckerService;
+    missionGit?: IMissionGitService;
   }
 ): IExecutionCoordinatorService {
   return new ExecutionCoordinator(
@@ -0,0 +1,425 @@
+/**
+ * Execution Store Implementation
+ *
+ * Persistent storage for execution layer data:
+ * - Missions (status, phase, progress and plan)
+ * - Tasks (status and results)
+ * - Agents
+ */
+
+import {
+  IExecutionStore,
+  IDatabase,
+  Mission,
+  MissionId,
+  MissionFilter,
+  Task,
+  TaskId,
+  TaskStatus,
+  TaskPriority,
+  AgentDefinition,
+  AgentId,
+  AgentFilter,
+  AsyncResult,
+  Ok,
+  Err,
+  ILogger,
+  AppError,
+} from '../types';
+
+/** Keys whose ISO string values are revived as dates */
+const DATE_KEYS = new Set([
+  'createdAt',
+  'updatedAt',
+  'startedAt',
+  'completedAt',
+  'estimatedCompletion',
+  'lastActiveAt',
+  'timestamp',
+]);
+
+/** Numeric task priority, so rows sort by urgency */
+const PRIORITY_ORDER: Record<TaskPriority, number> = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+  low: 3,
+};
+
+/**
+ * Execution Store implementation using SQLite
+ */
+export class ExecutionStore implements IExecutionStore {
+  private readonly database: IDatabase;
+  private readonly logger?: ILogger;
+  private ready = false;
+
+  constructor(database: IDatabase, logger?: ILogger) {
+    this.database = database;
+    this.logger = logger?.child('ExecutionStore');
+  }
+
+  initialize(): AsyncResult<void> {
+    this.logger?.info('Initializing execution store');
+    this.ready = true;
+    return Promise.resolve(Ok(undefined));
+  }
+
+  close(): AsyncResult<void> {
+    this.ready = false;
+    return Promise.resolve(Ok(undefined));
+  }
+
+  isReady(): boolean {
+    return this.ready && this.database.isReady();
+  }
+
+  // =========================================================================
+  // Missions
+  // =========================================================================
+
+  async saveMission(mission: Mission): AsyncResult<void> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const sql = `
+        INSERT OR REPLACE INTO missions
+          (id, intent_id, title, status, mode, data, created_at, started_at, completed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      return this.database.execute(sql, [
+        mission.id,
+        mission.intentId ?? '',
+        mission.title,
+        mission.status,
+        mission.mode ?? 'execution',
+        JSON.stringify(mission),
+        mission.createdAt.getTime(),
+        mission.startedAt?.getTime() ?? null,
+        mission.completedAt?.getTime() ?? null,
+      ]);
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to save mission: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async getMission(id: MissionId): AsyncResult<Mission | null> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const sql = `SELECT data FROM missions WHERE id = ?`;
+      const result = await this.database.queryOne<{ data: string }>(sql, [id]);
+
+      if (!result.ok) {
+        return result;
+      }
+      if (!result.value) {
+        return Ok(null);
+      }
+
+      return Ok(this.deserialize<Mission>(result.value.data));
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to get mission: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async listMissions(filter?: MissionFilter): AsyncResult<Mission[]> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (filter?.status && filter.status.length > 0) {
+        conditions.push(`status IN (${filter.status.map(() => '?').join(', ')})`);
+        params.push(...filter.status);
+      }
+      if (filter?.mode && filter.mode.length > 0) {
+        conditions.push(`mode IN (${filter.mode.map(() => '?').join(', ')})`);
+        params.push(...filter.mode);
+      }
+      if (filter?.since) {
+        conditions.push('created_at >= ?');
+        params.push(filter.since.getTime());
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const limit = filter?.limit ? `LIMIT ${Math.floor(filter.limit)}` : '';
+      const sql = `SELECT data FROM missions ${where} ORDER BY created_at DESC ${limit}`;
+
+      const result = await this.database.query<{ data: string }>(sql, params);
+      if (!result.ok) {
+        return result;
+      }
+
+      return Ok(result.value.map((row) => this.deserialize<Mission>(row.data)));
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to list missions: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async updateMission(mission: Partial<Mission> & { id: MissionId }): AsyncResult<void> {
+    const existing = await this.getMission(mission.id);
+    if (!existing.ok) {
+      return existing;
+    }
+    if (!existing.value) {
+      return Err(new AppError('NOT_FOUND', `Mission not found: ${mission.id}`));
+    }
+
+    return this.saveMission({ ...existing.value, ...mission });
+  }
+
+  async deleteMission(id: MissionId): AsyncResult<void> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    const tasks = await this.database.execute(`DELETE FROM tasks WHERE mission_id = ?`, [id]);
+    if (!tasks.ok) {
+      return tasks;
+    }
+
+    return this.database.execute(`DELETE FROM missions WHERE id = ?`, [id]);
+  }
+
+  // =========================================================================
+  // Tasks
+  // =========================================================================
+
+  async saveTask(task: Task): AsyncResult<void> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const sql = `
+        INSERT OR REPLACE INTO tasks
+          (id, mission_id, parent_task_id, type, status, priority, title, data,
+           created_at, started_at, completed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      return this.database.execute(sql, [
+        task.id,
+        task.missionId,
+        task.parentTaskId ?? null,
+        task.type,
+        task.status,
+        PRIORITY_ORDER[task.priority],
+        task.title ?? task.description,
+        JSON.stringify(task),
+        task.createdAt.getTime(),
+        task.startedAt?.getTime() ?? null,
+        task.completedAt?.getTime() ?? null,
+      ]);
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to save task: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async getTask(id: TaskId): AsyncResult<Task | null> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const sql = `SELECT data FROM tasks WHERE id = ?`;
+      const result = await this.database.queryOne<{ data: string }>(sql, [id]);
+
+      if (!result.ok) {
+        return result;
+      }
+      if (!result.value) {
+        return Ok(null);
+      }
+
+      return Ok(this.deserialize<Task>(result.value.data));
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to get task: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async getTasksByMission(missionId: MissionId): AsyncResult<Task[]> {
+    return this.queryTasks(
+      `SELECT data FROM tasks WHERE mission_id = ? ORDER BY created_at ASC, rowid ASC`,
+      [missionId]
+    );
+  }
+
+  async getTasksByStatus(status: TaskStatus): AsyncResult<Task[]> {
+    return this.queryTasks(
+      `SELECT data FROM tasks WHERE status = ? ORDER BY priority ASC, created_at ASC`,
+      [status]
+    );
+  }
+
+  async updateTask(task: Partial<Task> & { id: TaskId }): AsyncResult<void> {
+    const existing = await this.getTask(task.id);
+    if (!existing.ok) {
+      return existing;
+    }
+    if (!existing.value) {
+      return Err(new AppError('NOT_FOUND', `Task not found: ${task.id}`));
+    }
+
+    return this.saveTask({ ...existing.value, ...task });
+  }
+
+  // =========================================================================
+  // Agents
+  // =========================================================================
+
+  async saveAgent(agent: AgentDefinition): AsyncResult<void> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const sql = `
+        INSERT OR REPLACE INTO agents (id, level, role, model, status, data, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      return this.database.execute(sql, [
+        agent.id,
+        agent.level,
+        agent.role,
+        agent.model,
+        agent.status,
+        JSON.stringify(agent),
+        agent.createdAt.getTime(),
+        Date.now(),
+      ]);
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to save agent: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async getAgent(id: AgentId): AsyncResult<AgentDefinition | null> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const sql = `SELECT data FROM agents WHERE id = ?`;
+      const result = await this.database.queryOne<{ data: string }>(sql, [id]);
+
+      if (!result.ok) {
+        return result;
+      }
+      if (!result.value) {
+        return Ok(null);
+      }
+
+      return Ok(this.deserialize<AgentDefinition>(result.value.data));
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to get agent: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async listAgents(filter?: AgentFilter): AsyncResult<AgentDefinition[]> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      for (const [column, values] of [
+        ['level', filter?.level],
+        ['role', filter?.role],
+        ['status', filter?.status],
+      ] as const) {
+        if (values && values.length > 0) {
+          conditions.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+          params.push(...values);
+        }
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const sql = `SELECT data FROM agents ${where} ORDER BY created_at ASC`;
+
+      const result = await this.database.query<{ data: string }>(sql, params);
+      if (!result.ok) {
+        return result;
+      }
+
+      return Ok(result.value.map((row) => this.deserialize<AgentDefinition>(row.data)));
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to list agents: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async updateAgent(agent: Partial<AgentDefinition> & { id: AgentId }): AsyncResult<void> {
+    const existing = await this.getAgent(agent.id);
+    if (!existing.ok) {
+      return existing;
+    }
+    if (!existing.value) {
+      return Err(new AppError('NOT_FOUND', `Agent not found: ${agent.id}`));
+    }
+
+    return this.saveAgent({ ...existing.value, ...agent });
+  }
+
+  // =========================================================================
+  // Helper Methods
+  // =========================================================================
+
+  private async queryTasks(sql: string, params: unknown[]): AsyncResult<Task[]> {
+    if (!this.isReady()) {
+      return Err(new AppError('INFRASTRUCTURE', 'Store not ready'));
+    }
+
+    try {
+      const result = await this.database.query<{ data: string }>(sql, params);
+      if (!result.ok) {
+        return result;
+      }
+
+      return Ok(result.value.map((row) => this.deserialize<Task>(row.data)));
+    } catch (error) {
+      return Err(
+        new AppError('INFRASTRUCTURE', `Failed to query tasks: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  private deserialize<T>(data: string): T {
+    return JSON.parse(data, (key, value: unknown) =>
+      DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value
+    ) as T;
+  }
+}
+
+/**
+ * Create an execution store
+ */
+export function createExecutionStore(database: IDatabase, logger?: ILogger): IExecutionStore {
+  return new ExecutionStore(database, logger);
+}
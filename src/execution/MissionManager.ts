@@ -5,7 +5,7 @@
  * - Mission lifecycle management
  * - Progress tracking
  * - State machine for mission phases
- * - Mission persistence
+ * - Mission persistence and recovery after restarts
  */
 
 import {
@@ -26,6 +26,8 @@ import {
   AppError,
   toMissionId,
   TaskId,
+  IExecutionStore,
+  ExecutionPlan,
 } from '../types';
 
 /** Mission phases in order */
@@ -37,6 +39,9 @@ const PHASE_ORDER: MissionPhase[] = [
   'completion',
 ];
 
+/** Statuses of a mission that was executing when the extension stopped */
+const INTERRUPTED_STATUSES: MissionStatus[] = ['active', 'running', 'paused'];
+
 /** Phase transition rules */
 const VALID_TRANSITIONS: Record<MissionPhase, MissionPhase[]> = {
   planning: ['validation', 'completion'], // Can skip to completion if planning fails
@@ -55,6 +60,9 @@ export class MissionManager implements IMissionManagerService {
   private readonly eventBus: IEventBus;
   private readonly logger?: ILogger;
 
+  // Optional: Store every mission change is saved to
+  private readonly store?: IExecutionStore;
+
   // Mission storage
   private missions: Map<string, Mission> = new Map();
 
@@ -65,12 +73,16 @@ export class MissionManager implements IMissionManagerService {
     taskManager: ITaskManagerService,
     rollbackService: IRollbackService,
     eventBus: IEventBus,
-    logger?: ILogger
+    logger?: ILogger,
+    options?: {
+      store?: IExecutionStore;
+    }
   ) {
     this.taskManager = taskManager;
     this.rollbackService = rollbackService;
     this.eventBus = eventBus;
     this.logger = logger?.child('MissionManager');
+    this.store = options?.store;
   }
 
   async create(config: MissionConfig): AsyncResult<Mission> {
@@ -93,16 +105,7 @@ export class MissionManager implements IMissionManagerService {
     this.missions.set(missionId as string, mission);
 
     // Initialize progress
-    this.progress.set(missionId as string, {
-      missionId,
-      phase: 'planning',
-      phaseProgress: 0,
-      overallProgress: 0,
-      tasksTotal: 0,
-      tasksCompleted: 0,
-      startedAt: null,
-      estimatedCompletion: null,
-    });
+    this.progress.set(missionId as string, this.createProgress(missionId));
 
     this.logger?.info('Mission created', {
       missionId,
@@ -110,6 +113,8 @@ export class MissionManager implements IMissionManagerService {
       priority: mission.priority,
     });
 
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:created', { mission });
 
     return Ok(mission);
@@ -135,6 +140,8 @@ export class MissionManager implements IMissionManagerService {
 
     this.logger?.info('Mission started', { missionId });
 
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:started', { mission });
 
     return Ok(undefined);
@@ -166,6 +173,9 @@ export class MissionManager implements IMissionManagerService {
       duration: mission.completedAt.getTime() - (mission.startedAt?.getTime() ?? 0),
     });
 
+    await this.persist(missionId);
+    await this.finishRollbackHistory(missionId);
+
     await this.eventBus.emit('mission:completed', { mission });
 
     return Ok(undefined);
@@ -186,6 +196,9 @@ export class MissionManager implements IMissionManagerService {
 
     this.logger?.error('Mission failed', new Error(error), { missionId });
 
+    await this.persist(missionId);
+    await this.finishRollbackHistory(missionId);
+
     await this.eventBus.emit('mission:failed', { mission, error });
 
     return Ok(undefined);
@@ -218,6 +231,9 @@ export class MissionManager implements IMissionManagerService {
 
     this.logger?.info('Mission cancelled', { missionId, reason });
 
+    await this.persist(missionId);
+    await this.finishRollbackHistory(missionId);
+
     await this.eventBus.emit('mission:cancelled', { mission, reason });
 
     return Ok(undefined);
@@ -262,6 +278,8 @@ export class MissionManager implements IMissionManagerService {
       to: nextPhase,
     });
 
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:phaseChanged', {
       mission,
       previousPhase,
@@ -308,6 +326,8 @@ export class MissionManager implements IMissionManagerService {
     }
     mission.status = 'paused';
     mission.updatedAt = new Date();
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:paused', { mission });
     return Ok(undefined);
   }
@@ -322,6 +342,8 @@ export class MissionManager implements IMissionManagerService {
     }
     mission.status = 'active';
     mission.updatedAt = new Date();
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:resumed', { mission });
     return Ok(undefined);
   }
@@ -333,9 +355,89 @@ export class MissionManager implements IMissionManagerService {
     }
     mission.result = result;
     mission.updatedAt = new Date();
+    await this.persist(missionId);
+    return Ok(undefined);
+  }
+
+  async setPlan(missionId: MissionId, plan: ExecutionPlan): AsyncResult<void> {
+    const mission = this.missions.get(missionId as string);
+    if (!mission) {
+      return Err(new AppError('MISSION', `Mission not found: ${missionId}`));
+    }
+    mission.plan = plan;
+    mission.updatedAt = new Date();
+    await this.persist(missionId);
+    return Ok(undefined);
+  }
+
+  async reopen(missionId: MissionId): AsyncResult<void> {
+    const mission = this.missions.get(missionId as string);
+    if (!mission) {
+      return Err(new AppError('MISSION', `Mission not found: ${missionId}`));
+    }
+    if (mission.status === 'active' || mission.status === 'running' || mission.status === 'completed') {
+      return Err(new AppError('MISSION', `Mission cannot be reopened: ${mission.status}`));
+    }
+
+    mission.status = 'pending';
+    mission.phase = 'planning';
+    mission.completedAt = null;
+    mission.updatedAt = new Date();
+    if (mission.metadata) {
+      delete mission.metadata.interrupted;
+      delete mission.metadata.failureReason;
+      delete mission.metadata.cancelReason;
+    }
+
+    this.progress.set(missionId as string, this.createProgress(missionId));
+
+    this.logger?.info('Mission reopened', { missionId });
+
+    await this.persist(missionId);
+
     return Ok(undefined);
   }
 
+  async load(): AsyncResult<Mission[]> {
+    if (!this.store) {
+      return Ok([]);
+    }
+
+    const stored = await this.store.listMissions();
+    if (!stored.ok) {
+      return Err(stored.error);
+    }
+
+    const interrupted: Mission[] = [];
+    for (const mission of stored.value) {
+      if (this.missions.has(mission.id as string)) {
+        continue;
+      }
+
+      this.missions.set(mission.id as string, mission);
+      this.progress.set(mission.id as string, mission.progress ?? this.createProgress(mission.id));
+
+      if (!INTERRUPTED_STATUSES.includes(mission.status)) {
+        continue;
+      }
+
+      // Its execution ended with the extension host: hold it until the user decides
+      const tasksResult = await this.taskManager.load(mission.id);
+      if (!tasksResult.ok) {
+        this.logger?.warn('Failed to load mission tasks', { missionId: mission.id, error: tasksResult.error });
+      }
+      mission.status = 'paused';
+      mission.metadata = { ...mission.metadata, interrupted: true };
+      mission.updatedAt = new Date();
+      await this.persist(mission.id);
+      interrupted.push(mission);
+    }
+
+    this.logger?.info('Missions loaded', { count: stored.value.length, interrupted: interrupted.length });
+
+    return Ok(interrupted);
+  }
+
   async createMission(intentId: import('../types').IntentId, mode: import('../types').MissionMode): AsyncResult<Mission> {
     return this.create({
       title: `Mission from intent ${intentId}`,
@@ -370,6 +472,8 @@ export class MissionManager implements IMissionManagerService {
 
     Object.assign(progress, updates);
 
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:progressUpdated', { missionId, progress });
 
     return Ok(undefined);
@@ -392,15 +496,14 @@ export class MissionManager implements IMissionManagerService {
       return Err(new AppError('MISSION', 'No rollback points available'));
     }
 
-    // Rollback to most recent point
-    const latestPoint = rollbackHistory[0];
-    if (!latestPoint) {
-      return Err(new AppError('MISSION', 'No rollback points available'));
-    }
-    const rollbackResult = await this.rollbackService.rollback(latestPoint.id);
-
-    if (!rollbackResult.ok) {
-      return Err(rollbackResult.error);
+    // Unwind every point, newest first, so files end in their pre-mission state
+    const restored = new Set<string>();
+    for (const point of rollbackHistory) {
+      const pointResult = await this.rollbackService.rollback(point.id);
+      if (!pointResult.ok) {
+        return Err(pointResult.error);
+      }
+      pointResult.value.forEach((file) => restored.add(file));
     }
 
     // Go back to planning phase
@@ -412,7 +515,7 @@ export class MissionManager implements IMissionManagerService {
     progress.phase = 'planning';
     progress.phaseProgress = 0;
 
-    const filesRestored = rollbackResult.value;
+    const filesRestored = Array.from(restored);
 
     this.logger?.info('Mission rolled back', {
       missionId,
@@ -420,6 +523,8 @@ export class MissionManager implements IMissionManagerService {
       filesRestored: filesRestored.length,
     });
 
+    await this.persist(missionId);
+
     this.eventBus.emit('mission:rolledBack', {
       mission,
       previousPhase,
@@ -451,6 +556,7 @@ export class MissionManager implements IMissionManagerService {
     // Update progress
     const progress = this.progress.get(missionId as string)!;
     progress.tasksTotal++;
+    await this.persist(missionId);
 
     return Ok(taskResult.value.id);
   }
@@ -480,11 +586,55 @@ export class MissionManager implements IMissionManagerService {
       progress.estimatedCompletion = new Date(Date.now() + remaining / rate);
     }
 
+    await this.persist(missionId);
+
     await this.eventBus.emit('mission:progressUpdated', { missionId, progress });
 
     return Ok(undefined);
   }
 
+  /**
+   * Progress of a mission that has not started
+   */
+  private createProgress(missionId: MissionId): MissionProgress {
+    return {
+      missionId,
+      phase: 'planning',
+      phaseProgress: 0,
+      overallProgress: 0,
+      tasksTotal: 0,
+      tasksCompleted: 0,
+      startedAt: null,
+      estimatedCompletion: null,
+    };
+  }
+
+  /**
+   * Save a mission, with its progress, to the execution store
+   */
+  private async persist(missionId: MissionId): Promise<void> {
+    const mission = this.missions.get(missionId as string);
+    if (!this.store || !mission) {
+      return;
+    }
+
+    const progress = this.progress.get(missionId as string);
+    const saved = await this.store.saveMission(progress ? { ...mission, progress: { ...progress } } : mission);
+    if (!saved.ok) {
+      this.logger?.warn('Failed to persist mission', { missionId, error: saved.error });
+    }
+  }
+
+  /**
+   * Let the rollback history of a finished mission be pruned
+   */
+  private async finishRollbackHistory(missionId: MissionId): Promise<void> {
+    const result = await this.rollbackService.finishMission?.(missionId);
+    if (result && !result.ok) {
+      this.logger?.warn('Failed to finish rollback history', { missionId, error: result.error });
+    }
+  }
+
   /**
    * Generate unique mission ID
    */
@@ -524,6 +674,7 @@ export class MissionManager implements IMissionManagerService {
         this.missions.delete(id);
         this.progress.delete(id);
         this.taskManager.clearCompleted(mission.id);
+        void this.store?.deleteMission(mission.id);
       }
     }
 
@@ -554,7 +705,10 @@ export function createMissionManager(
   taskManager: ITaskManagerService,
   rollbackService: IRollbackService,
   eventBus: IEventBus,
-  logger?: ILogger
+  logger?: ILogger,
+  options?: {
+    store?: IExecutionStore;
+  }
 ): IMissionManagerService {
-  return new MissionManager(taskManager, rollbackService, eventBus, logger);
+  return new MissionManager(taskManager, rollbackService, eventBus, logger, options);
 }
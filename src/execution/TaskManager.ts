@@ -6,6 +6,7 @@
  * - Priority scheduling
  * - Dependency resolution
  * - Status tracking
+ * - Persistence to the execution store
  */
 
 import {
@@ -25,6 +26,7 @@ import {
   AppError,
   toTaskId,
   CancellationToken,
+  IExecutionStore,
 } from '../types';
 
 /** Maximum concurrent tasks */
@@ -33,6 +35,9 @@ const MAX_CONCURRENT_TASKS = 10;
 /** Task timeout (5 minutes) */
 const TASK_TIMEOUT = 5 * 60 * 1000;
 
+/** Statuses a task never leaves */
+const FINISHED_STATUSES: TaskStatus[] = ['completed', 'failed', 'cancelled'];
+
 /**
  * Task Manager implementation
  */
@@ -40,6 +45,9 @@ export class TaskManager implements ITaskManagerService {
   private readonly eventBus: IEventBus;
   private readonly logger?: ILogger;
 
+  // Optional: Store every task change is saved to
+  private readonly store?: IExecutionStore;
+
   // Task storage
   private tasks: Map<string, Task> = new Map();
 
@@ -55,9 +63,16 @@ export class TaskManager implements ITaskManagerService {
   // Cancellation tokens
   private cancellations: Map<string, CancellationToken> = new Map();
 
-  constructor(eventBus: IEventBus, logger?: ILogger) {
+  constructor(
+    eventBus: IEventBus,
+    logger?: ILogger,
+    options?: {
+      store?: IExecutionStore;
+    }
+  ) {
     this.eventBus = eventBus;
     this.logger = logger?.child('TaskManager');
+    this.store = options?.store;
   }
 
   async create(
@@ -87,6 +102,7 @@ export class TaskManager implements ITaskManagerService {
 
     this.tasks.set(taskId as string, task);
     this.addToQueue(task);
+    await this.persist(task);
 
     this.logger?.info('Task created', {
       taskId,
@@ -115,6 +131,7 @@ export class TaskManager implements ITaskManagerService {
     if (!this.areDependenciesMet(task)) {
       task.status = 'blocked';
       task.updatedAt = new Date();
+      await this.persist(task);
       return Err(new AppError('TASK', 'Task dependencies not met'));
     }
 
@@ -134,6 +151,7 @@ export class TaskManager implements ITaskManagerService {
 
     this.running.add(taskId as string);
     this.removeFromQueue(taskId);
+    await this.persist(task);
 
     this.logger?.info('Task started', { taskId, missionId: task.missionId });
 
@@ -170,6 +188,7 @@ export class TaskManager implements ITaskManagerService {
 
     this.running.delete(taskId as string);
     this.cancellations.delete(taskId as string);
+    await this.persist(task);
 
     this.logger?.info('Task completed', {
       taskId,
@@ -211,6 +230,7 @@ export class TaskManager implements ITaskManagerService {
     this.running.delete(taskId as string);
     this.removeFromQueue(taskId);
     this.cancellations.delete(taskId as string);
+    await this.persist(task);
 
     this.logger?.info('Task cancelled', { taskId, reason });
 
@@ -241,6 +261,45 @@ export class TaskManager implements ITaskManagerService {
     return this.cancellations.get(taskId as string);
   }
 
+  async load(missionId: MissionId): AsyncResult<Task[]> {
+    if (!this.store) {
+      return Ok([]);
+    }
+
+    const stored = await this.store.getTasksByMission(missionId);
+    if (!stored.ok) {
+      return Err(stored.error);
+    }
+
+    const loaded: Task[] = [];
+    for (const task of stored.value) {
+      if (this.tasks.has(task.id as string)) {
+        continue;
+      }
+
+      // Results are stored with the task
+      const { result, ...metadata } = task.metadata ?? {};
+      task.metadata = metadata;
+      if (result) {
+        this.results.set(task.id as string, result as TaskResult);
+      }
+      this.tasks.set(task.id as string, task);
+
+      // Nothing runs across a restart
+      if (!FINISHED_STATUSES.includes(task.status)) {
+        task.status = 'cancelled';
+        task.updatedAt = new Date();
+        task.metadata.cancelReason = 'Interrupted';
+        await this.persist(task);
+      }
+
+      loaded.push(task);
+    }
+
+    this.logger?.info('Tasks loaded', { missionId, count: loaded.length });
+    return Ok(loaded);
+  }
+
   /**
    * Add task to priority queue
    */
@@ -306,6 +365,7 @@ export class TaskManager implements ITaskManagerService {
         task.status = 'pending';
         task.updatedAt = new Date();
         this.addToQueue(task);
+        await this.persist(task);
 
         await this.eventBus.emit('task:unblocked', { task });
       }
@@ -331,6 +391,23 @@ export class TaskManager implements ITaskManagerService {
     });
   }
 
+  /**
+   * Save a task, with its result, to the execution store
+   */
+  private async persist(task: Task): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const result = this.results.get(task.id as string);
+    const saved = await this.store.saveTask(
+      result ? { ...task, metadata: { ...task.metadata, result } } : task
+    );
+    if (!saved.ok) {
+      this.logger?.warn('Failed to persist task', { taskId: task.id, error: saved.error });
+    }
+  }
+
   /**
    * Create cancellation token
    */
@@ -452,6 +529,12 @@ export class TaskManager implements ITaskManagerService {
 /**
  * Create a task manager
  */
-export function createTaskManager(eventBus: IEventBus, logger?: ILogger): ITaskManagerService {
-  return new TaskManager(eventBus, logger);
+export function createTaskManager(
+  eventBus: IEventBus,
+  logger?: ILogger,
+  options?: {
+    store?: IExecutionStore;
+  }
+): ITaskManagerService {
+  return new TaskManager(eventBus, logger, options);
 }
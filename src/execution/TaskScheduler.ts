@@ -0,0 +1,296 @@
+/**
+ * Task Scheduler
+ *
+ * Dependency-aware scheduling of mission tasks:
+ * - Builds a DAG from plan-local task dependencies
+ * - Runs ready tasks concurrently up to a configurable width
+ * - Hands completed upstream outputs to dependents
+ * - Cancels downstream tasks when a hard dependency fails
+ */
+
+import {
+  ExecutionTaskConfig,
+  DependencyType,
+  Result,
+  AsyncResult,
+  Ok,
+  Err,
+  AppError,
+  ILogger,
+} from '../types';
+
+/**
+ * Dependency types that require the upstream task to succeed.
+ * 'soft' dependencies only order execution.
+ */
+const HARD_DEPENDENCY_TYPES: ReadonlySet<DependencyType> = new Set([
+  'blocks',
+  'required',
+  'informs',
+]);
+
+/**
+ * A plan task placed in the dependency graph
+ */
+export interface ScheduledTask {
+  /** Plan-local key (config id, or the task's index) */
+  readonly key: string;
+  readonly index: number;
+  readonly config: ExecutionTaskConfig;
+  readonly dependencies: ReadonlyArray<{ readonly key: string; readonly type: DependencyType }>;
+}
+
+/**
+ * Output of a completed upstream task
+ */
+export interface UpstreamOutput<T> {
+  readonly task: ScheduledTask;
+  readonly type: DependencyType;
+  readonly value: T;
+}
+
+/**
+ * Final state of a scheduled task
+ */
+export interface ScheduledTaskOutcome<T> {
+  readonly task: ScheduledTask;
+  readonly status: 'completed' | 'failed' | 'cancelled';
+  readonly value?: T;
+  readonly error?: AppError;
+}
+
+/**
+ * Runs a single task once its dependencies are settled
+ */
+export type ScheduledTaskRunner<T> = (
+  task: ScheduledTask,
+  upstream: UpstreamOutput<T>[]
+) => Promise<Result<T>>;
+
+/**
+ * Scheduling options
+ */
+export interface ScheduleOptions {
+  /** Maximum number of tasks running at once */
+  readonly maxConcurrency: number;
+  /** Checked before starting each task; pending tasks are cancelled once true */
+  readonly isCancelled?: () => boolean;
+  /** Called when a task will not run because an upstream task did not succeed */
+  readonly onCancelled?: (task: ScheduledTask, reason: string) => void;
+}
+
+/**
+ * Task Scheduler implementation
+ */
+export class TaskScheduler {
+  private readonly logger?: ILogger;
+
+  constructor(logger?: ILogger) {
+    this.logger = logger?.child('TaskScheduler');
+  }
+
+  /**
+   * Build and validate the dependency graph for a plan.
+   * Fails on duplicate ids, unknown or self dependencies, and cycles.
+   */
+  buildGraph(configs: ExecutionTaskConfig[]): Result<ScheduledTask[]> {
+    const keys = new Set<string>();
+    const tasks: ScheduledTask[] = [];
+
+    for (const [index, config] of configs.entries()) {
+      const key = config.id ?? String(index);
+      if (keys.has(key)) {
+        return Err(new AppError('VALIDATION', `Duplicate task id in plan: ${key}`));
+      }
+      keys.add(key);
+      tasks.push({
+        key,
+        index,
+        config,
+        dependencies: (config.dependencies ?? []).map((dep) => ({
+          key: dep.taskId as string,
+          type: dep.type,
+        })),
+      });
+    }
+
+    for (const task of tasks) {
+      for (const dep of task.dependencies) {
+        if (dep.key === task.key) {
+          return Err(new AppError('VALIDATION', `Task ${task.key} depends on itself`));
+        }
+        if (!keys.has(dep.key)) {
+          return Err(new AppError(
+            'VALIDATION',
+            `Task ${task.key} depends on unknown task: ${dep.key}`
+          ));
+        }
+      }
+    }
+
+    const cycle = this.findCycle(tasks);
+    if (cycle) {
+      return Err(new AppError('VALIDATION', `Dependency cycle in plan: ${cycle.join(' -> ')}`));
+    }
+
+    return Ok(tasks);
+  }
+
+  /**
+   * Run all tasks of a plan, respecting dependencies.
+   * Outcomes are returned in plan order.
+   */
+  async run<T>(
+    configs: ExecutionTaskConfig[],
+    runner: ScheduledTaskRunner<T>,
+    options: ScheduleOptions
+  ): AsyncResult<ScheduledTaskOutcome<T>[]> {
+    const graph = this.buildGraph(configs);
+    if (!graph.ok) {
+      return graph;
+    }
+
+    const tasks = graph.value;
+    const byKey = new Map(tasks.map((t) => [t.key, t]));
+    const width = Math.max(1, Math.floor(options.maxConcurrency));
+    const outcomes = new Map<string, ScheduledTaskOutcome<T>>();
+    const pending = new Set(tasks.map((t) => t.key));
+    const running = new Map<string, Promise<void>>();
+
+    const settle = (outcome: ScheduledTaskOutcome<T>): void => {
+      outcomes.set(outcome.task.key, outcome);
+      pending.delete(outcome.task.key);
+    };
+
+    const cancel = (task: ScheduledTask, reason: string): void => {
+      settle({ task, status: 'cancelled', error: new AppError('CANCELLED', reason) });
+      this.logger?.debug('Task cancelled', { key: task.key, reason });
+      options.onCancelled?.(task, reason);
+    };
+
+    const start = (task: ScheduledTask): void => {
+      const upstream: UpstreamOutput<T>[] = [];
+      for (const dep of task.dependencies) {
+        const outcome = outcomes.get(dep.key);
+        if (outcome?.status === 'completed') {
+          upstream.push({ task: outcome.task, type: dep.type, value: outcome.value as T });
+        }
+      }
+
+      pending.delete(task.key);
+      const promise = runner(task, upstream)
+        .then(
+          (result) => result.ok
+            ? settle({ task, status: 'completed', value: result.value })
+            : settle({ task, status: 'failed', error: result.error }),
+          (error: unknown) => settle({
+            task,
+            status: 'failed',
+            error: error instanceof AppError
+              ? error
+              : new AppError('TASK', error instanceof Error ? error.message : String(error)),
+          })
+        )
+        .finally(() => {
+          running.delete(task.key);
+        });
+      running.set(task.key, promise);
+    };
+
+    for (;;) {
+      if (options.isCancelled?.()) {
+        for (const key of [...pending]) {
+          cancel(byKey.get(key)!, 'Execution cancelled');
+        }
+      }
+
+      // Cancelling a task can unblock the cancellation of its dependents,
+      // so repeat until the pending set is stable
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const task of tasks) {
+          if (!pending.has(task.key)) {
+            continue;
+          }
+
+          const failedDep = task.dependencies.find((dep) => {
+            const status = outcomes.get(dep.key)?.status;
+            return status !== undefined && status !== 'completed' && HARD_DEPENDENCY_TYPES.has(dep.type);
+          });
+          if (failedDep) {
+            cancel(task, `Dependency ${failedDep.key} ${outcomes.get(failedDep.key)!.status}`);
+            changed = true;
+          } else if (running.size < width && this.isReady(task, outcomes)) {
+            start(task);
+          }
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+
+      await Promise.race(running.values());
+    }
+
+    return Ok(tasks.map((task) => outcomes.get(task.key) ?? {
+      task,
+      status: 'cancelled' as const,
+      error: new AppError('CANCELLED', 'Task was never scheduled'),
+    }));
+  }
+
+  /**
+   * Check whether every dependency of a task has settled
+   */
+  private isReady<T>(task: ScheduledTask, outcomes: Map<string, ScheduledTaskOutcome<T>>): boolean {
+    return task.dependencies.every((dep) => outcomes.has(dep.key));
+  }
+
+  /**
+   * Find a dependency cycle, returning the keys that form it
+   */
+  private findCycle(tasks: ScheduledTask[]): string[] | null {
+    const byKey = new Map(tasks.map((t) => [t.key, t]));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (key: string): string[] | null => {
+      const current = state.get(key);
+      if (current === 'done') {
+        return null;
+      }
+      if (current === 'visiting') {
+        return [...path.slice(path.indexOf(key)), key];
+      }
+
+      state.set(key, 'visiting');
+      path.push(key);
+      for (const dep of byKey.get(key)?.dependencies ?? []) {
+        const cycle = visit(dep.key);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      path.pop();
+      state.set(key, 'done');
+      return null;
+    };
+
+    for (const task of tasks) {
+      const cycle = visit(task.key);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Create a task scheduler
+ */
+export function createTaskScheduler(logger?: ILogger): TaskScheduler {
+  return new TaskScheduler(logger);
+}
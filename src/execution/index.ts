@@ -5,7 +5,10 @@
  * - TaskManager
  * - AgentPool
  * - MissionManager
+ * - TaskScheduler
+ * - EditProtocol
  * - ExecutionCoordinator
+ * - ExecutionStore
  */
 
 // Task Manager
@@ -17,6 +20,28 @@ export { AgentPool, createAgentPool, AgentPoolConfig } from './AgentPool';
 // Mission Manager
 export { MissionManager, createMissionManager } from './MissionManager';
 
+// Task Scheduler
+export {
+  TaskScheduler,
+  createTaskScheduler,
+  ScheduledTask,
+  ScheduledTaskOutcome,
+  ScheduledTaskRunner,
+  ScheduleOptions,
+  UpstreamOutput,
+} from './TaskScheduler';
+
+// Edit Protocol
+export {
+  EDIT_PROTOCOL_INSTRUCTIONS,
+  parseEditBlocks,
+  resolveEdits,
+  EditOperation,
+  EditOperationKind,
+  EditWorkspace,
+  SearchReplace,
+} from './EditProtocol';
+
 // Execution Coordinator
 export {
   ExecutionCoordinator,
@@ -24,6 +49,9 @@ export {
   ExecutionCoordinatorConfig,
 } from './ExecutionCoordinator';
 
+// Execution Store
+export { ExecutionStore, createExecutionStore } from './ExecutionStore';
+
 // Agent Activity
 export {
   AgentActivityService,
@@ -11,14 +11,23 @@
 import * as vscode from 'vscode';
 import {
   AlterCodeConfig,
+  ModelRoutingSettings,
+  HierarchyLevel,
+  PriceTable,
+  IntentClassifierMode,
+  MissionGitMode,
   IEventBus,
   IApprovalService,
   MissionId,
   TaskId,
   toFilePath,
+  ActivityScopeViolationEvent,
+  QuotaBudgetDetails,
+  QuotaWarningEvent,
+  QuotaExceededEvent,
 } from './types';
 
-import { bootstrap, SERVICE_TOKENS, AlterCodeCore } from './core';
+import { bootstrap, SERVICE_TOKENS, AlterCodeCore, ChatSession, ChatSummaryText } from './core';
 import {
   MissionControlPanel,
   ChatProvider,
@@ -46,6 +55,7 @@ let statusBarQuota: vscode.StatusBarItem | undefined;
 let statusBarApprovals: vscode.StatusBarItem | undefined;
 let statusBarConflicts: vscode.StatusBarItem | undefined;
 let webviewProvider: WebviewProvider | undefined;
+let chatSession: ChatSession | undefined;
 
 /**
  * Extension activation
@@ -92,6 +102,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Set up event handlers
     setupEventHandlers();
 
+    // Let the user decide what happens to missions the last session left running
+    offerInterruptedMissions();
+
     // Update status bars
     updateStatusBar(context);
     updateQuotaStatusBar(context);
@@ -152,6 +165,8 @@ export async function deactivate(): Promise<void> {
  * Reads dual-provider architecture settings:
  * - Claude (Sovereign/Overlord/Lord tiers): API key, model, mode (api/cli), CLI path
  * - GLM (Worker tier): API key, model, endpoint
+ * - Routing table: providers and per-level/per-role routes overriding the defaults
+ * - Cost accounting: model prices and daily/per-mission budgets
  */
 function loadConfiguration(projectRoot: string): AlterCodeConfig {
   const vsConfig = vscode.workspace.getConfiguration('altercode');
@@ -170,8 +185,22 @@ function loadConfiguration(projectRoot: string): AlterCodeConfig {
 
   // Read other settings
   const verificationStrictness = vsConfig.get<'strict' | 'standard' | 'lenient'>('verification.strictness', 'standard');
+  const conventionStrictness = vsConfig.get<'strict' | 'standard' | 'lenient'>('verification.conventionStrictness', 'standard');
+  const runTests = vsConfig.get<boolean>('verification.runTests', true);
+  const testTimeout = vsConfig.get<number>('verification.testTimeout', 120) * 1000;
   const enableFallback = vsConfig.get<boolean>('llm.enableFallback', true);
 
+  // Read model routing table (providers, per-level and per-role routes)
+  const routing: ModelRoutingSettings = {
+    providers: vsConfig.get<ModelRoutingSettings['providers']>('llm.providers', {}),
+    levels: vsConfig.get<ModelRoutingSettings['levels']>('llm.levels', {}),
+    roles: vsConfig.get<ModelRoutingSettings['roles']>('llm.roles', {}),
+  };
+
+  // Read budgets in USD (0 = unlimited)
+  const dailyBudget = vsConfig.get<number>('quota.dailyBudget', 0);
+  const missionBudget = vsConfig.get<number>('quota.missionBudget', 0);
+
   return {
     projectRoot,
     // Claude configuration for higher tiers
@@ -195,15 +224,44 @@ function loadConfiguration(projectRoot: string): AlterCodeConfig {
       apiKey: claudeApiKey,
       model: claudeModel,
       claudeMode: claudeMode,
+      routing,
+      chatLevel: vsConfig.get<HierarchyLevel>('llm.chatLevel', 'lord'),
     },
     // Verification configuration
     verification: {
       enabled: true,
       strictness: verificationStrictness,
+      conventionStrictness,
+      runTests,
+      testTimeout,
       preGeneration: true,
       postGeneration: true,
       autoFix: false,
     },
+    // Cost accounting configuration
+    quota: {
+      prices: vsConfig.get<PriceTable>('quota.prices', {}),
+      budget: {
+        dailyLimit: dailyBudget > 0 ? dailyBudget : null,
+        missionLimit: missionBudget > 0 ? missionBudget : null,
+      },
+    },
+    // Intent classification
+    intent: {
+      mode: vsConfig.get<IntentClassifierMode>('intent.classifier', 'llm'),
+      minConfidence: vsConfig.get<number>('intent.minConfidence', 0.5),
+    },
+    // Commands the run_command tool runs without asking, or refuses
+    commands: {
+      allow: vsConfig.get<string[]>('tools.allowedCommands'),
+      deny: vsConfig.get<string[]>('tools.deniedCommands'),
+    },
+    // Git branch per mission, with a commit for each task
+    git: {
+      mode: vsConfig.get<MissionGitMode>('git.missionMode', 'off'),
+      branchPrefix: vsConfig.get<string>('git.branchPrefix', 'altercode/'),
+      squashOnComplete: vsConfig.get<boolean>('git.squashOnComplete', false),
+    },
     maxContextTokens: vsConfig.get<number>('maxContextTokens', 128000),
     logLevel: vsConfig.get<'debug' | 'info' | 'warn' | 'error'>('logLevel', 'info'),
     // Fallback setting
@@ -521,6 +579,248 @@ function registerCommands(context: vscode.ExtensionContext): void {
       }
     })
   );
+
+  // Browse rollback history by mission, task or file
+  context.subscriptions.push(
+    vscode.commands.registerCommand('altercode.browseRollbackHistory', async () => {
+      if (!core) {
+        void vscode.window.showErrorMessage('AlterCode is not initialized');
+        return;
+      }
+
+      try {
+        const rollbackService = core.getService(SERVICE_TOKENS.Rollback);
+        const missions = rollbackService.listMissions();
+
+        if (missions.length === 0) {
+          void vscode.window.showInformationMessage('No rollback history');
+          return;
+        }
+
+        const mission = await vscode.window.showQuickPick(
+          missions.map((missionId) => {
+            const history = rollbackService.getHistory(missionId);
+            return {
+              label: `$(history) Mission: ${missionId}`,
+              description: `${history.length} point(s)`,
+              detail: history[0] ? `Latest: ${history[0].timestamp.toLocaleString()}` : undefined,
+              missionId,
+            };
+          }),
+          { title: 'Rollback History', placeHolder: 'Select a mission' }
+        );
+        if (!mission) {
+          return;
+        }
+
+        const history = rollbackService.getHistory(mission.missionId);
+        const files = [...new Set(history.flatMap((p) => p.files.map((f) => f as string)))];
+
+        const target = await vscode.window.showQuickPick(
+          [
+            ...history.map((point) => ({
+              label: point.taskId ? `$(tasklist) Task: ${point.taskId}` : '$(archive) Mission point',
+              description: point.timestamp.toLocaleString(),
+              detail: point.description,
+              point,
+              file: undefined,
+            })),
+            ...files.map((file) => ({
+              label: `$(file) ${vscode.workspace.asRelativePath(file)}`,
+              description: `${rollbackService.getFileHistory(toFilePath(file), mission.missionId).length} version(s)`,
+              detail: undefined,
+              point: undefined,
+              file,
+            })),
+          ],
+          { title: `Rollback History: ${mission.missionId}`, placeHolder: 'Select a task or file to restore' }
+        );
+        if (!target) {
+          return;
+        }
+
+        let restored: string[] = [];
+        if (target.point) {
+          const confirm = await vscode.window.showWarningMessage(
+            target.point.taskId
+              ? `Undo every change made by task ${target.point.taskId}?`
+              : `Restore files to: ${target.point.description}?`,
+            { modal: true },
+            'Restore'
+          );
+          if (confirm !== 'Restore') {
+            return;
+          }
+
+          const result = target.point.taskId
+            ? await rollbackService.rollbackTask(target.point.taskId)
+            : await rollbackService.rollback(target.point.id);
+          if (!result.ok) {
+            void vscode.window.showErrorMessage(`Rollback failed: ${result.error.message}`);
+            return;
+          }
+          restored = result.value;
+
+          // The undo is recorded on the mission's branch like the task's own commit
+          const missionGit = core.getService(SERVICE_TOKENS.MissionGit);
+          if (target.point.taskId && missionGit.isEnabled()) {
+            const commitResult = await missionGit.commitTaskRollback(
+              mission.missionId,
+              target.point.taskId,
+              restored.map(toFilePath)
+            );
+            if (!commitResult.ok) {
+              void vscode.window.showWarningMessage(`Rollback not committed: ${commitResult.error.message}`);
+            }
+          }
+        } else if (target.file) {
+          const version = await vscode.window.showQuickPick(
+            rollbackService.getFileHistory(toFilePath(target.file), mission.missionId).map((backup) => ({
+              label: backup.existed ? `$(file) ${backup.timestamp.toLocaleString()}` : '$(trash) Did not exist',
+              description: backup.taskId ? `Before task ${backup.taskId}` : undefined,
+              backup,
+            })),
+            { title: vscode.workspace.asRelativePath(target.file), placeHolder: 'Select the version to restore' }
+          );
+          if (!version) {
+            return;
+          }
+
+          const result = await rollbackService.restore(
+            toFilePath(target.file),
+            mission.missionId,
+            version.backup.pointId
+          );
+          if (!result.ok) {
+            void vscode.window.showErrorMessage(`Restore failed: ${result.error.message}`);
+            return;
+          }
+          restored = [target.file];
+        }
+
+        void vscode.window.showInformationMessage(`Restored ${restored.length} file(s)`);
+      } catch (error) {
+        void vscode.window.showErrorMessage(`Failed to browse rollback history: ${(error as Error).message}`);
+      }
+    })
+  );
+
+  // Describe a mission's git branch as a pull request
+  context.subscriptions.push(
+    vscode.commands.registerCommand('altercode.prepareMissionPullRequest', async () => {
+      if (!core) {
+        void vscode.window.showErrorMessage('AlterCode is not initialized');
+        return;
+      }
+
+      try {
+        const missionGit = core.getService(SERVICE_TOKENS.MissionGit);
+        if (!missionGit.isEnabled()) {
+          void vscode.window.showInformationMessage('Enable altercode.git.missionMode to record missions on git branches');
+          return;
+        }
+
+        const branchesResult = await missionGit.listBranches();
+        if (!branchesResult.ok) {
+          void vscode.window.showErrorMessage(`Failed to list mission branches: ${branchesResult.error.message}`);
+          return;
+        }
+        if (branchesResult.value.length === 0) {
+          void vscode.window.showInformationMessage('No mission branches');
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          branchesResult.value.map((branch) => ({
+            label: `$(git-branch) ${branch.branch}`,
+            description: `from ${branch.baseBranch}`,
+            detail: branch.title,
+            branch,
+          })),
+          { title: 'Mission Branches', placeHolder: 'Select a mission to open a pull request for' }
+        );
+        if (!selected) {
+          return;
+        }
+
+        const choice = await vscode.window.showQuickPick(
+          [
+            { label: 'Keep task commits', squash: false },
+            { label: 'Squash into one commit', squash: true },
+          ],
+          { title: `Prepare ${selected.branch.branch}` }
+        );
+        if (!choice) {
+          return;
+        }
+
+        const result = await core.prepareMissionPullRequest(selected.branch.missionId, { squash: choice.squash });
+        if (!result.ok) {
+          void vscode.window.showErrorMessage(`Failed to prepare pull request: ${result.error.message}`);
+          return;
+        }
+
+        const pr = result.value;
+        await vscode.env.clipboard.writeText(`${pr.title}\n\n${pr.body}`);
+        void vscode.window.showInformationMessage(
+          `Pull request for ${pr.branch} into ${pr.baseBranch} (${pr.commits.length} commit(s)) copied to the clipboard`
+        );
+      } catch (error) {
+        void vscode.window.showErrorMessage(`Failed to prepare pull request: ${(error as Error).message}`);
+      }
+    })
+  );
+
+  // List error patterns learned from failures, and record how to avoid one
+  context.subscriptions.push(
+    vscode.commands.registerCommand('altercode.showErrorPatterns', async () => {
+      if (!core) {
+        void vscode.window.showErrorMessage('AlterCode is not initialized');
+        return;
+      }
+
+      try {
+        const errorMemory = core.getService(SERVICE_TOKENS.ErrorMemory);
+        const patterns = [...errorMemory.getPatterns()].sort((a, b) => b.occurrences - a.occurrences);
+
+        if (patterns.length === 0) {
+          void vscode.window.showInformationMessage('No error patterns learned yet');
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          patterns.map((pattern) => ({
+            label: `$(bug) ${pattern.messagePattern.replace(/\\(.)/g, '$1')}`,
+            description: `${pattern.category} · ${pattern.occurrences}x${pattern.file ? ` · ${pattern.file}` : ''}`,
+            detail: pattern.prevention,
+            pattern,
+          })),
+          { title: 'Learned Error Patterns', placeHolder: 'Select a pattern to record its resolution', matchOnDetail: true }
+        );
+        if (!selected) {
+          return;
+        }
+
+        const resolution = await vscode.window.showInputBox({
+          title: 'Resolution',
+          prompt: 'How should agents avoid this error? This is added to the prompts of tasks touching similar files.',
+          value: selected.pattern.prevention,
+        });
+        if (!resolution) {
+          return;
+        }
+
+        const result = await errorMemory.recordResolution(selected.pattern.id, resolution);
+        if (result.ok) {
+          void vscode.window.showInformationMessage('Resolution recorded');
+        } else {
+          void vscode.window.showErrorMessage(`Failed to record resolution: ${result.error.message}`);
+        }
+      } catch (error) {
+        void vscode.window.showErrorMessage(`Failed to show error patterns: ${(error as Error).message}`);
+      }
+    })
+  );
 }
 
 /**
@@ -790,74 +1090,56 @@ function setupEventHandlers(): void {
 
     outputChannel?.appendLine(`Processing chat message: ${content.substring(0, 50)}...`);
 
+    // Mission Control keeps one conversation until the chat is cleared
+    chatSession ??= core.createChatSession();
+    const session = chatSession;
+
     try {
       // Get current file context
       const editor = vscode.window.activeTextEditor;
       const currentFile = editor?.document.uri.fsPath;
       const context = currentFile ? { currentFile: toFilePath(currentFile) } : {};
 
-      // Check if core supports streaming
-      if (typeof (core as any).streamMessage === 'function') {
-        // Use streaming API
-        const streamGenerator = (core as any).streamMessage(content, context);
-        let fullContent = '';
-
-        for await (const chunk of streamGenerator) {
-          switch (chunk.type) {
-            case 'text':
-              // Accumulate content - will send complete message at 'done'
-              fullContent += chunk.content;
-              break;
-
-            case 'thinking':
-              panel.addChatMessage({
-                id: `think-${Date.now()}`,
-                role: 'system',
-                content: `Thinking: ${chunk.content}`,
-                timestamp: new Date(),
-              });
-              break;
-
-            case 'done':
-              // Send final complete message
-              panel.addChatMessage({
-                id: `msg-${Date.now()}`,
-                role: 'sovereign',
-                content: fullContent,
-                timestamp: new Date(),
-              });
-              break;
-
-            case 'error':
-              panel.addChatMessage({
-                id: `err-${Date.now()}`,
-                role: 'system',
-                content: `Error: ${chunk.message}`,
-                timestamp: new Date(),
-              });
-              break;
-          }
-        }
-      } else {
-        // Fallback to blocking processMessage
-        const result = await core.processMessage(content, context);
-
-        if (result.ok) {
-          panel.addChatMessage({
-            id: `msg-${Date.now()}`,
-            role: 'sovereign',
-            content: result.value.response,
-            timestamp: new Date(),
-          });
-        } else {
-          panel.addChatMessage({
-            id: `err-${Date.now()}`,
-            role: 'system',
-            content: `Error: ${result.error.message}`,
-            timestamp: new Date(),
-          });
+      const streamGenerator = core.streamMessage(content, { ...context, session });
+      let fullContent = '';
+
+      for await (const chunk of streamGenerator) {
+        switch (chunk.type) {
+          case 'text':
+            // Accumulate content - will send complete message at 'done'
+            fullContent += chunk.content;
+            break;
+
+          case 'thinking':
+            panel.addChatMessage({
+              id: `think-${Date.now()}`,
+              role: 'system',
+              content: `Thinking: ${chunk.content}`,
+              timestamp: new Date(),
+            });
+            break;
+
+          case 'done':
+            // Send final complete message
+            panel.addChatMessage({
+              id: `msg-${Date.now()}`,
+              role: 'sovereign',
+              content: fullContent,
+              timestamp: new Date(),
+            });
+            break;
+
+          case 'error':
+            panel.addChatMessage({
+              id: `err-${Date.now()}`,
+              role: 'system',
+              content: `Error: ${chunk.message}`,
+              timestamp: new Date(),
+            });
+            break;
         }
       }
+      panel.updateChatMemory(session.getState());
     } catch (error) {
       outputChannel?.appendLine(`Chat processing error: ${(error as Error).message}`);
       panel.addChatMessage({
@@ -869,25 +1151,89 @@ function setupEventHandlers(): void {
     }
   });
 
-  // Agent control handlers (not fully implemented - agents run to completion)
+  // Chat memory handlers: clearing the chat forgets the conversation; the summary is user-editable
+  eventBus.on('ui:clearChat', () => {
+    if (!chatSession) {
+      return;
+    }
+    chatSession.clear();
+    MissionControlPanel.currentPanel?.updateChatMemory(chatSession.getState());
+  });
+
+  eventBus.on('ui:updateChatSummary', (event) => {
+    const { summary } = event as unknown as { summary: ChatSummaryText };
+    if (!chatSession) {
+      return;
+    }
+    chatSession.editSummary(summary);
+    MissionControlPanel.currentPanel?.updateChatMemory(chatSession.getState());
+  });
+
+  // Agent control handlers: agents are paused through the mission they work on,
+  // which suspends its execution between tasks and retries
+  const agentMission = (agentId: string): MissionId | undefined =>
+    core
+      ?.getService(SERVICE_TOKENS.AgentActivity)
+      .getRecentEntries()
+      .find((entry) => entry.agentId === agentId)?.missionId;
+
+  const setMissionsPaused = async (missionIds: MissionId[], paused: boolean): Promise<number> => {
+    if (!core) {
+      return 0;
+    }
+    const missionManager = core.getService(SERVICE_TOKENS.MissionManager);
+    let changed = 0;
+    for (const missionId of missionIds) {
+      const result = paused ? await missionManager.pause(missionId) : await missionManager.resume(missionId);
+      if (result.ok) {
+        changed++;
+      } else {
+        outputChannel?.appendLine(`Could not ${paused ? 'pause' : 'resume'} ${missionId}: ${result.error.message}`);
+      }
+    }
+    MissionControlPanel.currentPanel?.updateState(core.getState());
+    return changed;
+  };
+
   eventBus.on('ui:pauseAgent', async (event) => {
     const { agentId } = event as { agentId: string };
     outputChannel?.appendLine(`Pause agent requested: ${agentId}`);
-    vscode.window.showInformationMessage('Agent pause/resume not yet implemented. Agents run to completion.');
+    const missionId = agentMission(agentId);
+    if (!missionId) {
+      void vscode.window.showWarningMessage(`No mission found for agent: ${agentId}`);
+      return;
+    }
+    if (await setMissionsPaused([missionId], true)) {
+      void vscode.window.showInformationMessage(`Mission paused: ${missionId}`);
+    }
   });
 
   eventBus.on('ui:resumeAgent', async (event) => {
     const { agentId } = event as { agentId: string };
     outputChannel?.appendLine(`Resume agent requested: ${agentId}`);
+    const missionId = agentMission(agentId);
+    if (missionId) {
+      await setMissionsPaused([missionId], false);
+    }
   });
 
   eventBus.on('ui:pauseAllAgents', async () => {
     outputChannel?.appendLine('Pause all agents requested');
-    vscode.window.showInformationMessage('Agent pause/resume not yet implemented. Use mission pause instead.');
+    if (!core) {
+      return;
+    }
+    const missions = core.getService(SERVICE_TOKENS.MissionManager).getActiveMissions();
+    const paused = await setMissionsPaused(missions.map((m) => m.id), true);
+    void vscode.window.showInformationMessage(`Paused ${paused} mission(s)`);
   });
 
   eventBus.on('ui:resumeAllAgents', async () => {
     outputChannel?.appendLine('Resume all agents requested');
+    if (!core) {
+      return;
+    }
+    const missions = core.getService(SERVICE_TOKENS.MissionManager).getMissionsByStatus('paused');
+    await setMissionsPaused(missions.map((m) => m.id), false);
   });
 
   // Pause mission
@@ -955,30 +1301,41 @@ function setupEventHandlers(): void {
     const { missionId } = event as unknown as { missionId: string };
     if (!core) return;
     try {
-      const rollbackService = core.getService(SERVICE_TOKENS.RollbackService);
+      const rollbackService = core.getService(SERVICE_TOKENS.Rollback);
       const history = rollbackService.getHistory(missionId as MissionId);
 
       if (history.length === 0) {
-        vscode.window.showWarningMessage('No rollback points available');
+        void vscode.window.showWarningMessage('No rollback points available');
         return;
       }
 
-      // Get the latest rollback point
-      const latestPoint = history[history.length - 1];
-
       const confirm = await vscode.window.showWarningMessage(
-        `Rollback mission to point: ${latestPoint.description}?`,
+        `Rollback mission, undoing ${history.length} rollback point(s)?`,
         { modal: true },
         'Rollback'
       );
 
       if (confirm === 'Rollback') {
-        const result = await rollbackService.rollback(missionId as MissionId, latestPoint.id);
-        if (result.ok) {
-          vscode.window.showInformationMessage(`Rolled back ${result.value.filesRestored} file(s)`);
-        } else {
-          vscode.window.showErrorMessage(`Rollback failed: ${result.error.message}`);
+        // History is newest first, so files end in their pre-mission state
+        const restored = new Set<string>();
+        for (const point of history) {
+          const result = await rollbackService.rollback(point.id);
+          if (!result.ok) {
+            void vscode.window.showErrorMessage(`Rollback failed: ${result.error.message}`);
+            break;
+          }
+          result.value.forEach((file) => restored.add(file));
         }
+
+        // Drop the mission's branch and commits along with its changes
+        const missionGit = core.getService(SERVICE_TOKENS.MissionGit);
+        if (missionGit.isEnabled()) {
+          const gitResult = await missionGit.discardMission(missionId as MissionId);
+          if (!gitResult.ok) {
+            void vscode.window.showWarningMessage(`Mission branch not removed: ${gitResult.error.message}`);
+          }
+        }
+        void vscode.window.showInformationMessage(`Rolled back ${restored.size} file(s)`);
         // Refresh UI
         const panel = MissionControlPanel.currentPanel;
         if (panel) {
@@ -986,7 +1343,7 @@ function setupEventHandlers(): void {
         }
       }
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to rollback: ${(error as Error).message}`);
+      void vscode.window.showErrorMessage(`Failed to rollback: ${(error as Error).message}`);
     }
   });
 
@@ -1249,6 +1606,14 @@ function setupEventHandlers(): void {
     refreshPanel();
   });
 
+  eventBus.on('activity:scopeViolation', (event) => {
+    const { violation } = event as unknown as ActivityScopeViolationEvent;
+    outputChannel?.appendLine(
+      `Scope ${violation.outcome}: ${violation.operation} ${violation.path} (${violation.reason}) [${violation.source}]`
+    );
+    refreshPanel();
+  });
+
   eventBus.on('execution:warnings', async (event) => {
     const { warnings } = event as unknown as { warnings: string[] };
     if (warnings.length > 0) {
@@ -1258,30 +1623,32 @@ function setupEventHandlers(): void {
 
   // Quota events
   eventBus.on('quota:warning', async (event) => {
-    const { provider, usageRatio } = event as unknown as { provider: string; usageRatio: number };
-    const percentage = (usageRatio * 100).toFixed(0);
-    outputChannel?.appendLine(`Quota warning: ${provider} at ${percentage}%`);
+    const data = event as unknown as QuotaWarningEvent;
+    const percentage = (data.usageRatio * 100).toFixed(0);
+    const message = data.budget
+      ? `${describeBudget(data)} at ${percentage}% ($${formatCost(data.cost)} of $${formatCost(data.limit)})`
+      : `${data.provider} API quota at ${percentage}%`;
+    outputChannel?.appendLine(`Quota warning: ${message}`);
 
     // Check settings before showing notification
     const vsConfig = vscode.workspace.getConfiguration('altercode');
     if (vsConfig.get<boolean>('ui.notifyOnQuotaWarning', true)) {
-      vscode.window.showWarningMessage(
-        `AlterCode: ${provider} API quota at ${percentage}%. Consider slowing down.`
-      );
+      void vscode.window.showWarningMessage(`AlterCode: ${message}. Consider slowing down.`);
     }
     updateQuotaStatusBarDisplay();
     refreshPanel(); // Update UI with quota changes
   });
 
   eventBus.on('quota:exceeded', async (event) => {
-    const { provider, timeUntilResetMs } = event as unknown as { provider: string; timeUntilResetMs: number };
-    const minutesUntilReset = Math.ceil(timeUntilResetMs / 60000);
-    outputChannel?.appendLine(`Quota exceeded: ${provider}. Resets in ${minutesUntilReset} minutes.`);
+    const data = event as unknown as QuotaExceededEvent;
+    const minutesUntilReset = Math.ceil(data.timeUntilResetMs / 60000);
+    const message = data.budget === 'mission'
+      ? `${describeBudget(data)} exceeded ($${formatCost(data.cost)}). New calls for this mission are stopped`
+      : `${data.budget ? describeBudget(data) : `${data.provider} API quota`} exceeded. Resets in ~${minutesUntilReset} minutes`;
+    outputChannel?.appendLine(`Quota exceeded: ${message}.`);
 
     // Always show exceeded notification (critical)
-    vscode.window.showErrorMessage(
-      `AlterCode: ${provider} API quota exceeded. Resets in ~${minutesUntilReset} minutes.`
-    );
+    void vscode.window.showErrorMessage(`AlterCode: ${message}.`);
     updateQuotaStatusBarDisplay();
     refreshPanel(); // Update UI with quota changes
   });
@@ -1379,6 +1746,49 @@ function setupEventHandlers(): void {
   });
 }
 
+/**
+ * Offer to resume, retry or roll back missions interrupted by the last shutdown
+ */
+function offerInterruptedMissions(): void {
+  if (!core) {
+    return;
+  }
+
+  for (const mission of core.getInterruptedMissions()) {
+    void vscode.window
+      .showWarningMessage(
+        `AlterCode: Mission "${mission.title}" was interrupted.`,
+        'Resume',
+        'Retry',
+        'Roll Back'
+      )
+      .then(async (choice) => {
+        if (!core || !choice) {
+          return;
+        }
+
+        outputChannel?.appendLine(`${choice} interrupted mission ${mission.id}`);
+
+        if (choice === 'Roll Back') {
+          const result = await core.rollbackMission(mission.id);
+          if (result.ok) {
+            void vscode.window.showInformationMessage(`Mission "${mission.title}" rolled back`);
+          } else {
+            void vscode.window.showErrorMessage(`Rollback failed: ${result.error.message}`);
+          }
+          return;
+        }
+
+        const result = await core.resumeMission(mission.id, choice === 'Resume' ? 'resume' : 'retry');
+        if (result.ok) {
+          void vscode.window.showInformationMessage(`Mission "${mission.title}" completed`);
+        } else {
+          void vscode.window.showErrorMessage(`Mission "${mission.title}" failed: ${result.error.message}`);
+        }
+      });
+  }
+}
+
 /**
  * Update main status bar
  */
@@ -1617,5 +2027,27 @@ function updateQuotaStatusBarDisplay(): void {
   const timeUntilReset = Math.ceil(claudeStatus.timeUntilResetMs / 60000);
   statusBarQuota.tooltip = `Claude API Quota: ${percentage}%\nStatus: ${claudeStatus.status}\nResets in: ~${timeUntilReset} minutes`;
 
+  if (state.costs) {
+    const { today, budget } = state.costs;
+    statusBarQuota.text += ` $${formatCost(today)}`;
+    statusBarQuota.tooltip += budget.dailyLimit !== null
+      ? `\nSpent today: $${formatCost(today)} of $${formatCost(budget.dailyLimit)}`
+      : `\nSpent today: $${formatCost(today)}`;
+  }
+
   statusBarQuota.show();
 }
+
+/**
+ * Describe the money budget of a quota event
+ */
+function describeBudget(details: QuotaBudgetDetails): string {
+  return details.budget === 'mission' ? `Mission budget (${details.missionId ?? 'unknown'})` : 'Daily budget';
+}
+
+/**
+ * Format a USD amount, keeping cents of small amounts visible
+ */
+function formatCost(amount: number | undefined): string {
+  return (amount ?? 0).toFixed(amount !== undefined && amount < 1 ? 3 : 2);
+}
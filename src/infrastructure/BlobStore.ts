@@ -0,0 +1,109 @@
+/**
+ * Blob Store Implementation
+ *
+ * Content-addressed storage on disk:
+ * - Blobs are named by the SHA-256 of their content
+ * - Identical content is stored once
+ * - Blobs are fanned out into subdirectories by hash prefix
+ */
+
+import * as crypto from 'crypto';
+import {
+  IBlobStore,
+  IFileSystem,
+  FilePath,
+  AsyncResult,
+  Ok,
+  Err,
+  AppError,
+  ILogger,
+} from '../types';
+
+/** Valid blob hash (lowercase hex SHA-256) */
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Blob Store implementation
+ */
+export class BlobStore implements IBlobStore {
+  private readonly fileSystem: IFileSystem;
+  private readonly directory: FilePath;
+  private readonly logger?: ILogger;
+
+  constructor(fileSystem: IFileSystem, directory: FilePath, logger?: ILogger) {
+    this.fileSystem = fileSystem;
+    this.directory = directory;
+    this.logger = logger?.child('BlobStore');
+  }
+
+  async put(content: string): AsyncResult<string> {
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    const blobPath = this.blobPath(hash);
+
+    try {
+      if (!(await this.fileSystem.exists(blobPath))) {
+        await this.fileSystem.mkdir(this.fileSystem.dirname(blobPath), true);
+        await this.fileSystem.writeFile(blobPath, content);
+        this.logger?.debug('Blob stored', { hash, size: content.length });
+      }
+      return Ok(hash);
+    } catch (error) {
+      return Err(new AppError('INFRASTRUCTURE', `Failed to store blob: ${(error as Error).message}`));
+    }
+  }
+
+  async get(hash: string): AsyncResult<string | null> {
+    if (!HASH_PATTERN.test(hash)) {
+      return Err(new AppError('VALIDATION', `Invalid blob hash: ${hash}`));
+    }
+
+    const blobPath = this.blobPath(hash);
+    try {
+      if (!(await this.fileSystem.exists(blobPath))) {
+        return Ok(null);
+      }
+      return Ok(await this.fileSystem.readFile(blobPath));
+    } catch (error) {
+      return Err(new AppError('INFRASTRUCTURE', `Failed to read blob: ${(error as Error).message}`));
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return HASH_PATTERN.test(hash) && this.fileSystem.exists(this.blobPath(hash));
+  }
+
+  async delete(hash: string): AsyncResult<void> {
+    if (!HASH_PATTERN.test(hash)) {
+      return Err(new AppError('VALIDATION', `Invalid blob hash: ${hash}`));
+    }
+
+    const blobPath = this.blobPath(hash);
+    try {
+      if (await this.fileSystem.exists(blobPath)) {
+        await this.fileSystem.deleteFile(blobPath);
+        this.logger?.debug('Blob deleted', { hash });
+      }
+      return Ok(undefined);
+    } catch (error) {
+      return Err(new AppError('INFRASTRUCTURE', `Failed to delete blob: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Path of a blob: <directory>/<first two hash chars>/<hash>
+   */
+  private blobPath(hash: string): FilePath {
+    return this.fileSystem.join(this.directory as string, hash.slice(0, 2), hash);
+  }
+}
+
+/**
+ * Create a blob store rooted at a directory
+ */
+export function createBlobStore(
+  fileSystem: IFileSystem,
+  directory: FilePath,
+  logger?: ILogger
+): IBlobStore {
+  return new BlobStore(fileSystem, directory, logger);
+}
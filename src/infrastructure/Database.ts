@@ -20,6 +20,12 @@ import {
   FilePath,
 } from '../types';
 
+/** Path of an in-memory database */
+const IN_MEMORY_PATH = ':memory:';
+
+/** Delay before changes are written to disk, so bursts of writes are saved once (ms) */
+const DEFAULT_PERSIST_DELAY = 1000;
+
 /**
  * SQLite Database implementation using sql.js
  */
@@ -28,6 +34,9 @@ export class Database implements IDatabase {
   private readonly config: DatabaseConfig;
   private readonly logger?: ILogger;
   private ready = false;
+  private transactionDepth = 0;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
   private SQL!: typeof initSqlJs extends () => Promise<infer R> ? R : never;
 
   constructor(config: DatabaseConfig, logger?: ILogger) {
@@ -88,8 +97,11 @@ export class Database implements IDatabase {
   async close(): AsyncResult<void> {
     try {
       if (this.db) {
-        // Save to disk before closing
-        await this.persist();
+        // Save to disk before closing, including changes still waiting for the timer
+        const persisted = await this.persist();
+        if (!persisted.ok) {
+          return persisted;
+        }
 
         this.db.close();
         this.db = null;
@@ -124,6 +136,9 @@ export class Database implements IDatabase {
         this.db.run(sql);
       }
 
+      if (this.config.autoPersist && this.transactionDepth === 0) {
+        this.schedulePersist();
+      }
       return Ok(undefined);
     } catch (error) {
       const err = new DatabaseError(
@@ -188,12 +203,18 @@ export class Database implements IDatabase {
 
     try {
       this.db.run('BEGIN TRANSACTION');
+      this.transactionDepth++;
 
       try {
         const result = await fn();
         this.db.run('COMMIT');
+        this.transactionDepth--;
+        if (this.config.autoPersist) {
+          this.schedulePersist();
+        }
         return Ok(result);
       } catch (error) {
+        this.transactionDepth--;
         this.db.run('ROLLBACK');
         throw error;
       }
@@ -271,28 +292,22 @@ export class Database implements IDatabase {
   }
 
   /**
-   * Persist database to disk
+   * Persist database to disk now (no-op for in-memory databases)
    */
   async persist(): AsyncResult<void> {
     if (!this.db) {
       return Err(new DatabaseError('Database not initialized'));
     }
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if ((this.config.path as string) === IN_MEMORY_PATH) {
+      return Ok(undefined);
+    }
 
     try {
-      const data = this.db.export();
-      const buffer = Buffer.from(data);
-
-      const dbPath = this.config.path as string;
-      const dir = path.dirname(dbPath);
-
-      // Ensure directory exists
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-
-      fs.writeFileSync(dbPath, buffer);
-      this.logger?.debug('Database persisted to disk');
-
+      await this.write(this.db.export());
       return Ok(undefined);
     } catch (error) {
       const err = new DatabaseError(
@@ -304,6 +319,41 @@ export class Database implements IDatabase {
     }
   }
 
+  /**
+   * Persist after a short delay, so a burst of changes is written once
+   */
+  private schedulePersist(): void {
+    if (this.persistTimer !== null || (this.config.path as string) === IN_MEMORY_PATH) {
+      return;
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persist();
+    }, this.config.persistDelay ?? DEFAULT_PERSIST_DELAY);
+    // A pending save must not keep the process alive; close() flushes it
+    this.persistTimer.unref?.();
+  }
+
+  /**
+   * Write an export to the database file, after any write still in progress.
+   * Written to a temporary file first, so a crash never leaves a truncated database.
+   */
+  private write(data: Uint8Array): Promise<void> {
+    const dbPath = this.config.path as string;
+    const write = async (): Promise<void> => {
+      await fs.promises.mkdir(path.dirname(dbPath), { recursive: true });
+      const tempPath = `${dbPath}.tmp`;
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, dbPath);
+      this.logger?.debug('Database persisted to disk');
+    };
+
+    const next = this.pendingWrite.then(write, write);
+    this.pendingWrite = next.catch(() => undefined);
+    return next;
+  }
+
   /**
    * Get raw database instance (for advanced operations)
    */
@@ -323,5 +373,5 @@ export function createDatabase(config: DatabaseConfig, logger?: ILogger): IDatab
  * Create an in-memory database
  */
 export function createInMemoryDatabase(logger?: ILogger): IDatabase {
-  return new Database({ path: toFilePath(':memory:') }, logger);
+  return new Database({ path: toFilePath(IN_MEMORY_PATH) }, logger);
 }
@@ -1,11 +1,14 @@
 /**
  * Quota Tracker Service
  *
- * Tracks API usage within 5-hour rolling windows for Claude and GLM providers:
+ * Tracks API usage within 5-hour rolling windows for Claude, GLM and routed providers:
  * - Per-provider usage metrics
- * - Level-specific usage tracking
+ * - Level- and model-specific usage tracking
  * - Warning and hard-stop thresholds
  * - Automatic window reset on expiry
+ * - Cost from a model price table, per day, mission, task and level
+ * - Daily and per-mission budgets in money
+ * - Cost ledger kept in the database, so spend and budgets survive restarts
  */
 
 import {
@@ -14,38 +17,105 @@ import {
   QuotaWindow,
   QuotaStatus,
   QuotaStatusLevel,
-  UsageMetrics,
   UsageLimits,
+  LevelUsage,
   TokenUsageRecord,
   QuotaConfig,
   DEFAULT_QUOTA_CONFIG,
+  DEFAULT_PRICE_TABLE,
+  ModelPrice,
+  PriceTable,
+  CostBudget,
+  CostBudgetKind,
+  CostSummary,
   QUOTA_WINDOW_DURATION_MS,
   createEmptyUsageMetrics,
   DEFAULT_USAGE_LIMITS,
   createQuotaWindowId,
   IEventBus,
+  IDatabase,
   ILogger,
   HierarchyLevel,
+  UsageHistoryEntry,
   AsyncResult,
   Ok,
 } from '../types';
 
-/** Usage history entry for tracking over time */
-export interface UsageHistoryEntry {
-  timestamp: Date;
-  provider: AIProvider;
-  callCount: number;
-  tokensSent: number;
-  tokensReceived: number;
-  usageRatio: number;
-}
-
 /** Maximum history entries to keep per provider */
 const MAX_HISTORY_ENTRIES = 12;
 
 /** Minimum interval between history entries (5 minutes) */
 const HISTORY_INTERVAL_MS = 5 * 60 * 1000;
 
+/** Providers tracked from the start */
+const DEFAULT_PROVIDERS: AIProvider[] = ['claude', 'glm'];
+
+/** Model prices are per million tokens */
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/** Kinds of cost ledger rows */
+type LedgerKind = 'day' | 'mission' | 'task';
+
+/** Spend of one calendar day */
+interface DailyCost {
+  date: string;
+  total: number;
+  byProvider: Record<string, number>;
+  byModel: Record<string, number>;
+  byLevel: Partial<Record<HierarchyLevel, number>>;
+}
+
+/**
+ * Find the price of a model: the longest table key the model name starts with
+ */
+export function findModelPrice(prices: PriceTable, model?: string): ModelPrice | undefined {
+  if (!model) {
+    return undefined;
+  }
+
+  const name = model.toLowerCase();
+  let match: string | undefined;
+  for (const key of Object.keys(prices)) {
+    if (name.startsWith(key.toLowerCase()) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Cost of a call in USD
+ */
+export function calculateCost(price: ModelPrice, tokens: TokenUsageRecord): number {
+  const cacheRead = tokens.cacheRead ?? 0;
+  const cacheWrite = tokens.cacheWrite ?? 0;
+  const uncached = Math.max(0, tokens.sent - cacheRead - cacheWrite);
+
+  return (
+    (uncached * price.input +
+      cacheRead * (price.cacheRead ?? price.input) +
+      cacheWrite * (price.cacheWrite ?? price.input) +
+      tokens.received * price.output) /
+    TOKENS_PER_PRICE_UNIT
+  );
+}
+
+/** Local calendar day as YYYY-MM-DD */
+function localDate(now: Date = new Date()): string {
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** Milliseconds until local midnight, when the daily budget resets */
+function timeUntilMidnight(now: Date = new Date()): number {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return midnight.getTime() - now.getTime();
+}
+
+function addCost<K extends string>(totals: Partial<Record<K, number>>, key: K, cost: number): void {
+  totals[key] = (totals[key] ?? 0) + cost;
+}
+
 /**
  * Quota Tracker Service Implementation
  *
@@ -55,6 +125,10 @@ export class QuotaTrackerService implements IQuotaTrackerService {
   private readonly eventBus: IEventBus;
   private readonly logger?: ILogger;
   private readonly config: Required<QuotaConfig>;
+  private readonly budget: CostBudget;
+
+  // Optional: Database the cost ledger is kept in
+  private readonly database?: IDatabase;
 
   /** Quota windows per provider */
   private windows: Map<AIProvider, QuotaWindow> = new Map();
@@ -65,17 +139,36 @@ export class QuotaTrackerService implements IQuotaTrackerService {
   /** Last history recording time per provider */
   private lastHistoryTime: Map<AIProvider, number> = new Map();
 
-  /** Providers to track */
-  private readonly providers: AIProvider[] = ['claude', 'glm'];
+  /** Spend of the current day */
+  private daily: DailyCost = this.createDailyCost();
+
+  /** Spend per mission and per task */
+  private missionCosts: Map<string, number> = new Map();
+  private taskCosts: Map<string, number> = new Map();
+
+  /** Budget alert last emitted per budget ('daily' or 'mission:<id>'), so each crossing is reported once */
+  private budgetAlerts: Map<string, 'warning' | 'exceeded'> = new Map();
+
+  /** Models already reported as unpriced */
+  private unpricedModels: Set<string> = new Set();
 
   constructor(
     eventBus: IEventBus,
     config?: QuotaConfig,
-    logger?: ILogger
+    logger?: ILogger,
+    options?: {
+      database?: IDatabase;
+    }
   ) {
     this.eventBus = eventBus;
-    this.config = { ...DEFAULT_QUOTA_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_QUOTA_CONFIG,
+      ...config,
+      prices: { ...DEFAULT_PRICE_TABLE, ...config?.prices },
+    };
+    this.budget = { dailyLimit: null, missionLimit: null, ...config?.budget };
     this.logger = logger?.child('QuotaTrackerService');
+    this.database = options?.database;
   }
 
   /**
@@ -85,13 +178,16 @@ export class QuotaTrackerService implements IQuotaTrackerService {
     this.logger?.info('Initializing quota tracker');
 
     // Create initial windows for each provider
-    for (const provider of this.providers) {
+    for (const provider of DEFAULT_PROVIDERS) {
       this.getOrCreateWindow(provider);
     }
 
+    await this.loadLedger();
+
     this.logger?.info('Quota tracker initialized', {
-      providers: this.providers,
+      providers: DEFAULT_PROVIDERS,
       windowDurationMs: QUOTA_WINDOW_DURATION_MS,
+      budget: this.budget,
     });
 
     return Ok(undefined);
@@ -106,6 +202,8 @@ export class QuotaTrackerService implements IQuotaTrackerService {
     tokens: TokenUsageRecord
   ): void {
     const window = this.getOrCreateWindow(provider);
+    const cost = this.priceUsage(tokens);
+    const model = tokens.model ?? 'unknown';
 
     // Update overall metrics
     window.usage = {
@@ -113,31 +211,29 @@ export class QuotaTrackerService implements IQuotaTrackerService {
       callCount: window.usage.callCount + 1,
       tokensSent: window.usage.tokensSent + tokens.sent,
       tokensReceived: window.usage.tokensReceived + tokens.received,
+      cost: window.usage.cost + cost,
     };
 
-    // Update level-specific metrics
-    const currentLevelUsage = window.usage.byLevel[level] ?? {
-      callCount: 0,
-      tokensSent: 0,
-      tokensReceived: 0,
-    };
-
+    // Update level- and model-specific metrics
     window.usage = {
       ...window.usage,
       byLevel: {
         ...window.usage.byLevel,
-        [level]: {
-          callCount: currentLevelUsage.callCount + 1,
-          tokensSent: currentLevelUsage.tokensSent + tokens.sent,
-          tokensReceived: currentLevelUsage.tokensReceived + tokens.received,
-        },
+        [level]: this.addUsage(window.usage.byLevel[level], tokens, cost),
+      },
+      byModel: {
+        ...window.usage.byModel,
+        [model]: this.addUsage(window.usage.byModel[model], tokens, cost),
       },
     };
 
+    this.recordCost(provider, level, model, tokens, cost);
+
     this.logger?.debug('Recorded usage', {
       provider,
       level,
       tokens,
+      cost,
       totalCalls: window.usage.callCount,
     });
 
@@ -166,14 +262,33 @@ export class QuotaTrackerService implements IQuotaTrackerService {
       });
       this.logger?.warn('Quota warning', { provider, status });
     }
+
+    this.checkBudget(provider, 'daily', this.daily.total, this.budget.dailyLimit);
+    if (tokens.missionId) {
+      this.checkBudget(
+        provider,
+        'mission',
+        this.getMissionCost(tokens.missionId),
+        this.budget.missionLimit,
+        tokens.missionId
+      );
+    }
   }
 
   /**
-   * Check if execution is allowed for a provider
+   * Check if execution is allowed for a provider and, when given, a mission
    */
-  canExecute(provider: AIProvider): boolean {
+  canExecute(provider: AIProvider, missionId?: string): boolean {
     const status = this.getStatus(provider);
-    return status.status !== 'exceeded';
+    if (status.status === 'exceeded') {
+      return false;
+    }
+
+    this.rollDay();
+    if (this.isOverBudget(this.daily.total, this.budget.dailyLimit)) {
+      return false;
+    }
+    return !missionId || !this.isOverBudget(this.getMissionCost(missionId), this.budget.missionLimit);
   }
 
   /**
@@ -207,12 +322,37 @@ export class QuotaTrackerService implements IQuotaTrackerService {
    */
   getAllStatuses(): Map<AIProvider, QuotaStatus> {
     const statuses = new Map<AIProvider, QuotaStatus>();
-    for (const provider of this.providers) {
+    for (const provider of this.getProviders()) {
       statuses.set(provider, this.getStatus(provider));
     }
     return statuses;
   }
 
+  /**
+   * Get today's spend and the spend of each mission and task
+   */
+  getCostSummary(): CostSummary {
+    this.rollDay();
+
+    return {
+      date: this.daily.date,
+      today: this.daily.total,
+      byProvider: { ...this.daily.byProvider },
+      byModel: { ...this.daily.byModel },
+      byLevel: { ...this.daily.byLevel },
+      byMission: Object.fromEntries(this.missionCosts),
+      byTask: Object.fromEntries(this.taskCosts),
+      budget: this.budget,
+    };
+  }
+
+  /**
+   * Get the spend of a mission in USD
+   */
+  getMissionCost(missionId: string): number {
+    return this.missionCosts.get(missionId) ?? 0;
+  }
+
   /**
    * Get usage history for a provider
    */
@@ -225,12 +365,196 @@ export class QuotaTrackerService implements IQuotaTrackerService {
    */
   getAllUsageHistory(): Map<AIProvider, UsageHistoryEntry[]> {
     const history = new Map<AIProvider, UsageHistoryEntry[]>();
-    for (const provider of this.providers) {
+    for (const provider of this.getProviders()) {
       history.set(provider, this.getUsageHistory(provider));
     }
     return history;
   }
 
+  /**
+   * Default providers and any provider with usage
+   */
+  private getProviders(): AIProvider[] {
+    return [...new Set([...DEFAULT_PROVIDERS, ...this.windows.keys()])];
+  }
+
+  /**
+   * Price a call from the model price table
+   */
+  private priceUsage(tokens: TokenUsageRecord): number {
+    const price = findModelPrice(this.config.prices, tokens.model);
+    if (price) {
+      return calculateCost(price, tokens);
+    }
+
+    const model = tokens.model ?? 'unknown';
+    if (!this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      this.logger?.debug('No price for model, counting its usage as free', { model });
+    }
+    return 0;
+  }
+
+  private addUsage(usage: LevelUsage | undefined, tokens: TokenUsageRecord, cost: number): LevelUsage {
+    return {
+      callCount: (usage?.callCount ?? 0) + 1,
+      tokensSent: (usage?.tokensSent ?? 0) + tokens.sent,
+      tokensReceived: (usage?.tokensReceived ?? 0) + tokens.received,
+      cost: (usage?.cost ?? 0) + cost,
+    };
+  }
+
+  /**
+   * Add a call's cost to the daily, mission and task totals
+   */
+  private recordCost(
+    provider: AIProvider,
+    level: HierarchyLevel,
+    model: string,
+    tokens: TokenUsageRecord,
+    cost: number
+  ): void {
+    this.rollDay();
+    this.daily.total += cost;
+    addCost(this.daily.byProvider, provider, cost);
+    addCost(this.daily.byModel, model, cost);
+    addCost(this.daily.byLevel, level, cost);
+
+    if (tokens.missionId) {
+      this.missionCosts.set(tokens.missionId, this.getMissionCost(tokens.missionId) + cost);
+    }
+    if (tokens.taskId) {
+      this.taskCosts.set(tokens.taskId, (this.taskCosts.get(tokens.taskId) ?? 0) + cost);
+    }
+
+    void this.saveLedger(tokens);
+  }
+
+  /**
+   * Load today's spend and the spend of missions and tasks from the database
+   */
+  private async loadLedger(): Promise<void> {
+    if (!this.database?.isReady()) {
+      return;
+    }
+
+    const result = await this.database.query<{ kind: LedgerKind; id: string; cost: number; data: string | null }>(
+      `SELECT kind, id, cost, data FROM cost_ledger WHERE kind != 'day' OR id = ?`,
+      [this.daily.date]
+    );
+    if (!result.ok) {
+      this.logger?.warn('Failed to load cost ledger', { error: result.error });
+      return;
+    }
+
+    for (const row of result.value) {
+      if (row.kind === 'day') {
+        this.daily = { ...this.createDailyCost(), ...(JSON.parse(row.data ?? '{}') as Partial<DailyCost>), total: row.cost };
+      } else if (row.kind === 'mission') {
+        this.missionCosts.set(row.id, row.cost);
+      } else {
+        this.taskCosts.set(row.id, row.cost);
+      }
+    }
+    this.logger?.debug('Loaded cost ledger', { today: this.daily.total, missions: this.missionCosts.size });
+  }
+
+  /**
+   * Save the totals a call changed
+   */
+  private async saveLedger(tokens: TokenUsageRecord): Promise<void> {
+    if (!this.database?.isReady()) {
+      return;
+    }
+
+    const { date, total, ...breakdown } = this.daily;
+    const rows: Array<[LedgerKind, string, number, string | null]> = [
+      ['day', date, total, JSON.stringify(breakdown)],
+    ];
+    if (tokens.missionId) {
+      rows.push(['mission', tokens.missionId, this.getMissionCost(tokens.missionId), null]);
+    }
+    if (tokens.taskId) {
+      rows.push(['task', tokens.taskId, this.taskCosts.get(tokens.taskId) ?? 0, null]);
+    }
+
+    for (const [kind, id, cost, data] of rows) {
+      const result = await this.database.execute(
+        'INSERT OR REPLACE INTO cost_ledger (kind, id, cost, data, updated_at) VALUES (?, ?, ?, ?, ?)',
+        [kind, id, cost, data, Date.now()]
+      );
+      if (!result.ok) {
+        this.logger?.warn('Failed to save cost ledger', { kind, id, error: result.error });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Start a new day of spend once the calendar day changes
+   */
+  private rollDay(): void {
+    if (this.daily.date !== localDate()) {
+      this.daily = this.createDailyCost();
+      this.budgetAlerts.delete('daily');
+    }
+  }
+
+  private createDailyCost(): DailyCost {
+    return { date: localDate(), total: 0, byProvider: {}, byModel: {}, byLevel: {} };
+  }
+
+  private isOverBudget(cost: number, limit: number | null): boolean {
+    return limit !== null && limit > 0 && cost >= limit * this.config.hardStopThreshold;
+  }
+
+  /**
+   * Emit quota:warning or quota:exceeded when spend first crosses a budget threshold
+   */
+  private checkBudget(
+    provider: AIProvider,
+    budget: CostBudgetKind,
+    cost: number,
+    limit: number | null,
+    missionId?: string
+  ): void {
+    if (limit === null || limit <= 0) {
+      return;
+    }
+
+    const usageRatio = cost / limit;
+    const alert = this.isOverBudget(cost, limit)
+      ? 'exceeded'
+      : usageRatio >= this.config.warningThreshold
+        ? 'warning'
+        : undefined;
+
+    const key = missionId ? `mission:${missionId}` : budget;
+    if (!alert || this.budgetAlerts.get(key) === alert) {
+      return;
+    }
+    this.budgetAlerts.set(key, alert);
+
+    const type = alert === 'exceeded' ? 'quota:exceeded' : 'quota:warning';
+    this.eventBus.emit(type, {
+      type,
+      provider,
+      usageRatio,
+      timeUntilResetMs: budget === 'daily' ? timeUntilMidnight() : 0,
+      timestamp: new Date(),
+      budget,
+      cost,
+      limit,
+      missionId,
+    });
+    this.logger?.warn(alert === 'exceeded' ? 'Budget exceeded' : 'Budget warning', {
+      budget,
+      cost,
+      limit,
+      missionId,
+    });
+  }
+
   /**
    * Record a history entry if enough time has passed
    */
@@ -373,7 +697,10 @@ export class QuotaTrackerService implements IQuotaTrackerService {
 export function createQuotaTrackerService(
   eventBus: IEventBus,
   config?: QuotaConfig,
-  logger?: ILogger
+  logger?: ILogger,
+  options?: {
+    database?: IDatabase;
+  }
 ): IQuotaTrackerService {
-  return new QuotaTrackerService(eventBus, config, logger);
+  return new QuotaTrackerService(eventBus, config, logger, options);
 }
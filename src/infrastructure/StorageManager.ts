@@ -10,6 +10,7 @@ import {
   IKnowledgeStore,
   IProtocolStore,
   IExecutionStore,
+  IChatStore,
   ICache,
   IDatabase,
   StorageStores,
@@ -33,6 +34,7 @@ export class StorageManager implements IStorageManager {
   private _knowledge!: IKnowledgeStore;
   private _protocol!: IProtocolStore;
   private _execution!: IExecutionStore;
+  private _chat?: IChatStore;
   private _cache!: ICache;
   private ready = false;
 
@@ -94,6 +96,13 @@ export class StorageManager implements IStorageManager {
     this._execution = store;
   }
 
+  /**
+   * Set the chat store (called during initialization)
+   */
+  setChatStore(store: IChatStore): void {
+    this._chat = store;
+  }
+
   async initialize(): AsyncResult<void> {
     try {
       this.logger?.info('Initializing storage manager');
@@ -107,6 +116,16 @@ export class StorageManager implements IStorageManager {
       // Create common tables/schema
       await this.initializeSchema();
 
+      // Initialize attached stores
+      for (const store of [this._knowledge, this._protocol, this._execution, this._chat]) {
+        if (store) {
+          const storeResult = await store.initialize();
+          if (!storeResult.ok) {
+            return storeResult;
+          }
+        }
+      }
+
       this.ready = true;
       this.logger?.info('Storage manager initialized');
 
@@ -136,6 +155,9 @@ export class StorageManager implements IStorageManager {
       if (this._execution?.isReady()) {
         await this._execution.close();
       }
+      if (this._chat?.isReady()) {
+        await this._chat.close();
+      }
 
       // Close database
       await this.database.close();
@@ -301,13 +323,17 @@ export class StorageManager implements IStorageManager {
 
       CREATE TABLE IF NOT EXISTS rollback_snapshots (
         id TEXT PRIMARY KEY,
-        intent_id TEXT NOT NULL,
+        mission_id TEXT NOT NULL,
+        task_id TEXT,
         status TEXT NOT NULL,
+        size INTEGER NOT NULL,
         data TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        FOREIGN KEY (intent_id) REFERENCES intents(id)
+        created_at INTEGER NOT NULL
       );
 
+      CREATE INDEX IF NOT EXISTS idx_rollback_mission ON rollback_snapshots(mission_id);
+      CREATE INDEX IF NOT EXISTS idx_rollback_task ON rollback_snapshots(task_id);
+
       CREATE TABLE IF NOT EXISTS checklists (
         id TEXT PRIMARY KEY,
         intent_id TEXT NOT NULL,
@@ -373,6 +399,57 @@ export class StorageManager implements IStorageManager {
     result = await this.database.execute(executionTables);
     if (!result.ok) return result;
 
+    // Create chat tables; message text is indexed for full-text search
+    const chatTables = `
+      CREATE TABLE IF NOT EXISTS chat_sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (session_id, id),
+        FOREIGN KEY (session_id) REFERENCES chat_sessions(id)
+      );
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts4(
+        content, session_id, message_id, notindexed=session_id, notindexed=message_id
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, seq);
+      CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated ON chat_sessions(updated_at);
+    `;
+
+    result = await this.database.execute(chatTables);
+    if (!result.ok) {
+      return result;
+    }
+
+    // Create cost ledger table: spend per day, mission and task
+    const costTables = `
+      CREATE TABLE IF NOT EXISTS cost_ledger (
+        kind TEXT NOT NULL,
+        id TEXT NOT NULL,
+        cost REAL NOT NULL,
+        data TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, id)
+      );
+    `;
+
+    result = await this.database.execute(costTables);
+    if (!result.ok) {
+      return result;
+    }
+
     this.logger?.debug('Database schema initialized');
     return Ok(undefined);
   }
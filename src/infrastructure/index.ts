@@ -6,6 +6,7 @@
  * - EventBus
  * - ServiceContainer
  * - Database
+ * - BlobStore
  * - Cache
  * - FileSystem
  * - ConfigManager
@@ -29,6 +30,9 @@ export {
 // Database
 export { Database, createDatabase, createInMemoryDatabase } from './Database';
 
+// Blob Store
+export { BlobStore, createBlobStore } from './BlobStore';
+
 // Cache
 export { MemoryCache, createCache, createDefaultCache } from './Cache';
 
@@ -49,7 +53,8 @@ export { StorageManager, createStorageManager } from './StorageManager';
 export {
   QuotaTrackerService,
   createQuotaTrackerService,
-  type UsageHistoryEntry,
+  findModelPrice,
+  calculateCost,
 } from './QuotaTrackerService';
 
 // Performance Monitor
@@ -15,14 +15,48 @@ import {
   LLMStreamChunk,
   LLMConfig,
   LLMUsage,
+  LLMMessage,
+  LLMToolResult,
   ToolDefinition,
   ToolCall,
   AsyncResult,
+  Result,
   Ok,
   Err,
   ILogger,
   AppError,
+  buildToolInputSchema,
 } from '../types';
+import { createTokenizer } from '../utils/Tokenizer';
+
+/** Claude API message content */
+type ClaudeMessageContent = string | Array<Record<string, unknown>>;
+
+/** Claude API usage; prompt cache tokens are reported apart from input_tokens */
+interface ClaudeApiUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/** Claude API messages response */
+interface ClaudeApiResponse {
+  content: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }>;
+  model: string;
+  stop_reason: string;
+  usage?: ClaudeApiUsage;
+}
+
+/** Claude API server-sent event */
+interface ClaudeStreamEvent {
+  type: string;
+  index?: number;
+  message?: { model?: string; usage?: ClaudeApiUsage };
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  usage?: ClaudeApiUsage;
+}
 
 /** Claude API base URL */
 const CLAUDE_API_URL = 'https://api.anthropic.com/v1/messages';
@@ -43,6 +77,7 @@ export class ClaudeAdapter implements ILLMAdapter {
   private readonly apiKey: string;
   private readonly config: LLMConfig;
   private readonly logger?: ILogger;
+  private readonly tokenizer = createTokenizer('claude');
 
   // Rate limiting
   private requestCount: number = 0;
@@ -65,7 +100,7 @@ export class ClaudeAdapter implements ILLMAdapter {
     const startTime = Date.now();
 
     this.logger?.debug('Starting completion', {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       promptLength: request.prompt.length,
     });
 
@@ -123,7 +158,7 @@ export class ClaudeAdapter implements ILLMAdapter {
       }
 
       // Parse response
-      const data = await response.json();
+      const data = (await response.json()) as ClaudeApiResponse;
       const llmResponse = this.parseResponse(data, startTime);
 
       this.logger?.debug('Completion finished', {
@@ -142,7 +177,7 @@ export class ClaudeAdapter implements ILLMAdapter {
     const startTime = Date.now();
 
     this.logger?.debug('Starting stream', {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       promptLength: request.prompt.length,
     });
 
@@ -167,59 +202,27 @@ export class ClaudeAdapter implements ILLMAdapter {
         throw new Error(`API error ${response.status}: ${errorBody}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = '';
       let totalContent = '';
-      let inputTokens = 0;
+      let inputUsage: ClaudeApiUsage | undefined;
       let outputTokens = 0;
 
-      while (true) {
-        const { done, value } = await reader.read();
+      for await (const event of this.readEvents(response)) {
+        if (event.type === 'content_block_delta') {
+          const delta = event.delta?.text ?? '';
+          totalContent += delta;
 
-        if (done) {
-          break;
+          yield {
+            content: delta,
+            done: false,
+          };
         }
 
-        buffer += decoder.decode(value, { stream: true });
-
-        // Process complete SSE events
-        const lines = buffer.split('\n');
-        buffer = lines.pop() ?? '';
-
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue;
-
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const event = JSON.parse(data);
-
-            if (event.type === 'content_block_delta') {
-              const delta = event.delta?.text ?? '';
-              totalContent += delta;
-
-              yield {
-                content: delta,
-                done: false,
-              };
-            }
-
-            if (event.type === 'message_delta') {
-              outputTokens = event.usage?.output_tokens ?? outputTokens;
-            }
+        if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+        }
 
-            if (event.type === 'message_start') {
-              inputTokens = event.message?.usage?.input_tokens ?? 0;
-            }
-          } catch {
-            // Skip invalid JSON
-          }
+        if (event.type === 'message_start') {
+          inputUsage = event.message?.usage;
         }
       }
 
@@ -227,11 +230,7 @@ export class ClaudeAdapter implements ILLMAdapter {
       yield {
         content: '',
         done: true,
-        usage: {
-          promptTokens: inputTokens,
-          completionTokens: outputTokens,
-          totalTokens: inputTokens + outputTokens,
-        },
+        usage: this.parseUsage({ ...inputUsage, output_tokens: outputTokens }),
       };
 
       this.logger?.debug('Stream completed', {
@@ -251,7 +250,7 @@ export class ClaudeAdapter implements ILLMAdapter {
     const startTime = Date.now();
 
     this.logger?.debug('Starting completion with tools', {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       toolCount: tools.length,
     });
 
@@ -264,7 +263,7 @@ export class ClaudeAdapter implements ILLMAdapter {
         tools: tools.map((t) => ({
           name: t.name,
           description: t.description,
-          input_schema: t.parameters,
+          input_schema: buildToolInputSchema(t.parameters),
         })),
       };
 
@@ -279,12 +278,7 @@ export class ClaudeAdapter implements ILLMAdapter {
         throw new Error(`API error ${response.status}: ${errorBody}`);
       }
 
-      const data = await response.json() as {
-        content: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }>;
-        model: string;
-        stop_reason: string;
-        usage?: { input_tokens?: number; output_tokens?: number };
-      };
+      const data = (await response.json()) as ClaudeApiResponse;
 
       // Extract tool calls
       const toolCalls: ToolCall[] = [];
@@ -306,11 +300,7 @@ export class ClaudeAdapter implements ILLMAdapter {
         content: textContent,
         model: data.model,
         finishReason: data.stop_reason,
-        usage: {
-          promptTokens: data.usage?.input_tokens ?? 0,
-          completionTokens: data.usage?.output_tokens ?? 0,
-          totalTokens: (data.usage?.input_tokens ?? 0) + (data.usage?.output_tokens ?? 0),
-        },
+        usage: this.parseUsage(data.usage),
         duration: Date.now() - startTime,
       };
 
@@ -326,6 +316,99 @@ export class ClaudeAdapter implements ILLMAdapter {
     }
   }
 
+  async *streamWithTools(
+    request: LLMRequest,
+    tools: ToolDefinition[]
+  ): AsyncGenerator<LLMStreamChunk, Result<{ response: LLMResponse; toolCalls: ToolCall[] }>> {
+    const startTime = Date.now();
+
+    this.logger?.debug('Starting stream with tools', {
+      model: request.model ?? this.config.model,
+      toolCount: tools.length,
+    });
+
+    try {
+      await this.enforceRateLimit();
+
+      const body = {
+        ...this.buildRequestBody(request),
+        tools: tools.map((t) => ({
+          name: t.name,
+          description: t.description,
+          input_schema: buildToolInputSchema(t.parameters),
+        })),
+        stream: true,
+      };
+
+      const response = await fetch(CLAUDE_API_URL, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`API error ${response.status}: ${errorBody}`);
+      }
+
+      // Tool input arrives as JSON fragments per content block
+      const toolInputs = new Map<number, { id: string; name: string; json: string }>();
+      let textContent = '';
+      let model = request.model ?? this.config.model;
+      let stopReason = 'end_turn';
+      let inputUsage: ClaudeApiUsage | undefined;
+      let outputTokens = 0;
+
+      for await (const event of this.readEvents(response)) {
+        const index = event.index ?? 0;
+
+        if (event.type === 'message_start') {
+          model = event.message?.model ?? model;
+          inputUsage = event.message?.usage;
+        } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          toolInputs.set(index, { id: event.content_block.id ?? '', name: event.content_block.name ?? '', json: '' });
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta?.type === 'input_json_delta') {
+            const toolInput = toolInputs.get(index);
+            if (toolInput) {
+              toolInput.json += event.delta.partial_json ?? '';
+            }
+          } else if (event.delta?.text) {
+            textContent += event.delta.text;
+            yield { content: event.delta.text, done: false };
+          }
+        } else if (event.type === 'message_delta') {
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+        }
+      }
+
+      const toolCalls: ToolCall[] = [...toolInputs.values()].map((t) => ({
+        id: t.id,
+        name: t.name,
+        arguments: t.json ? (JSON.parse(t.json) as Record<string, unknown>) : {},
+      }));
+
+      const llmResponse: LLMResponse = {
+        content: textContent,
+        model,
+        finishReason: stopReason,
+        usage: this.parseUsage({ ...inputUsage, output_tokens: outputTokens }),
+        duration: Date.now() - startTime,
+      };
+
+      this.logger?.debug('Tool stream finished', {
+        duration: llmResponse.duration,
+        toolCalls: toolCalls.length,
+      });
+
+      return Ok({ response: llmResponse, toolCalls });
+    } catch (error) {
+      this.logger?.error('Tool stream failed', error as Error);
+      return Err(new AppError('LLM', `Claude tool stream failed: ${(error as Error).message}`));
+    }
+  }
+
   getConfig(): LLMConfig {
     return { ...this.config };
   }
@@ -353,7 +436,7 @@ export class ClaudeAdapter implements ILLMAdapter {
     const messages = this.buildMessages(request);
 
     return {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       max_tokens: request.maxTokens ?? this.config.maxTokens,
       temperature: request.temperature ?? this.config.temperature,
       top_p: request.topP ?? this.config.topP,
@@ -366,50 +449,156 @@ export class ClaudeAdapter implements ILLMAdapter {
   /**
    * Build messages array
    */
-  private buildMessages(request: LLMRequest): Array<{ role: string; content: string }> {
-    const messages: Array<{ role: string; content: string }> = [];
+  private buildMessages(
+    request: LLMRequest
+  ): Array<{ role: string; content: ClaudeMessageContent }> {
+    const messages: Array<{ role: string; content: ClaudeMessageContent }> = [];
 
     // Add conversation history if provided
     if (request.history) {
       for (const msg of request.history) {
         messages.push({
           role: msg.role,
-          content: msg.content,
+          content: this.buildContent(msg),
         });
       }
     }
 
-    // Add current prompt
+    // Add current prompt, answering pending tool calls first
     messages.push({
       role: 'user',
-      content: request.prompt,
+      content: this.buildContent({
+        role: 'user',
+        content: request.prompt,
+        toolResults: request.toolResults,
+      }),
     });
 
     return messages;
   }
 
+  /**
+   * Build message content, using content blocks when tools are involved
+   */
+  private buildContent(message: LLMMessage): ClaudeMessageContent {
+    if (!message.toolCalls?.length && !message.toolResults?.length) {
+      return message.content;
+    }
+
+    const blocks: Array<Record<string, unknown>> = [];
+
+    for (const result of message.toolResults ?? []) {
+      blocks.push(this.buildToolResultBlock(result));
+    }
+
+    if (message.content) {
+      blocks.push({ type: 'text', text: message.content });
+    }
+
+    for (const call of message.toolCalls ?? []) {
+      blocks.push({
+        type: 'tool_use',
+        id: call.id,
+        name: call.name,
+        input: call.arguments,
+      });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Build a tool_result content block
+   */
+  private buildToolResultBlock(result: LLMToolResult): Record<string, unknown> {
+    return {
+      type: 'tool_result',
+      tool_use_id: result.toolCallId,
+      content: result.content,
+      ...(result.isError ? { is_error: true } : {}),
+    };
+  }
+
+  /**
+   * Read the server-sent events of a streaming response, skipping invalid ones
+   */
+  private async *readEvents(response: Response): AsyncGenerator<ClaudeStreamEvent> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = (await reader.read()) as { done: boolean; value?: Uint8Array };
+
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Process complete SSE events
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) {
+          continue;
+        }
+
+        const data = line.slice(6);
+        if (data === '[DONE]') {
+          continue;
+        }
+
+        try {
+          yield JSON.parse(data) as ClaudeStreamEvent;
+        } catch {
+          // Skip invalid JSON
+        }
+      }
+    }
+  }
+
   /**
    * Parse API response
    */
-  private parseResponse(data: any, startTime: number): LLMResponse {
+  private parseResponse(data: ClaudeApiResponse, startTime: number): LLMResponse {
     const content = data.content
-      .filter((block: any) => block.type === 'text')
-      .map((block: any) => block.text)
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
       .join('');
 
     return {
       content,
       model: data.model,
       finishReason: data.stop_reason,
-      usage: {
-        promptTokens: data.usage?.input_tokens ?? 0,
-        completionTokens: data.usage?.output_tokens ?? 0,
-        totalTokens: (data.usage?.input_tokens ?? 0) + (data.usage?.output_tokens ?? 0),
-      },
+      usage: this.parseUsage(data.usage),
       duration: Date.now() - startTime,
     };
   }
 
+  /**
+   * Convert API usage, counting cached prompt tokens as prompt tokens
+   */
+  private parseUsage(usage?: ClaudeApiUsage): LLMUsage {
+    const cacheReadTokens = usage?.cache_read_input_tokens ?? 0;
+    const cacheWriteTokens = usage?.cache_creation_input_tokens ?? 0;
+    const promptTokens = (usage?.input_tokens ?? 0) + cacheReadTokens + cacheWriteTokens;
+    const completionTokens = usage?.output_tokens ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cacheReadTokens,
+      cacheWriteTokens,
+    };
+  }
+
   /**
    * Enforce rate limiting
    */
@@ -450,8 +639,7 @@ export class ClaudeAdapter implements ILLMAdapter {
    * Estimate tokens for a prompt
    */
   estimateTokens(text: string): number {
-    // Claude uses ~4 characters per token on average
-    return Math.ceil(text.length / 4);
+    return this.tokenizer.count(text);
   }
 }
 
@@ -5,7 +5,7 @@
  * - Executes the `claude` command-line tool
  * - Supports streaming output
  * - Handles conversation context
- * - Always uses Opus model (Claude Code default)
+ * - Uses the CLI default model (Opus) unless a request names one
  *
  * This adapter is used for non-Worker hierarchy levels
  * when the user prefers CLI over direct API access.
@@ -26,6 +26,7 @@ import {
   ILogger,
   AppError,
 } from '../types';
+import { createTokenizer } from '../utils/Tokenizer';
 
 /** Check if running on Windows */
 const isWindows = process.platform === 'win32';
@@ -65,11 +66,12 @@ const DEFAULT_CONFIG: Required<ClaudeCodeConfig> = {
  * Claude Code CLI Adapter
  *
  * Invokes Claude Code CLI for AI completions.
- * Always uses Opus model as per Claude Code default.
+ * Uses the CLI's default model (Opus) unless a request names a model.
  */
 export class ClaudeCodeAdapter implements ILLMAdapter {
   private readonly config: Required<ClaudeCodeConfig>;
   private readonly logger?: ILogger;
+  private readonly tokenizer = createTokenizer('claude');
   private requestCount: number = 0;
 
   constructor(config?: ClaudeCodeConfig, logger?: ILogger) {
@@ -89,16 +91,17 @@ export class ClaudeCodeAdapter implements ILLMAdapter {
     });
 
     try {
-      const output = await this.executeCommand(request.prompt, request.systemPrompt);
+      const output = await this.executeCommand(request.prompt, request.systemPrompt, request.model);
 
       const response: LLMResponse = {
         content: output,
-        model: 'claude-opus-4', // Claude Code uses Opus
+        model: request.model ?? 'claude-opus-4', // Claude Code uses Opus unless told otherwise
         finishReason: 'stop',
         usage: {
           promptTokens: this.estimateTokens(request.prompt),
           completionTokens: this.estimateTokens(output),
           totalTokens: this.estimateTokens(request.prompt) + this.estimateTokens(output),
+          estimated: true,
         },
         duration: Date.now() - startTime,
       };
@@ -127,7 +130,7 @@ export class ClaudeCodeAdapter implements ILLMAdapter {
       let totalContent = '';
 
       this.logger?.info('>>> About to call streamCommand');
-      for await (const chunk of this.streamCommand(request.prompt, request.systemPrompt)) {
+      for await (const chunk of this.streamCommand(request.prompt, request.systemPrompt, request.model)) {
         this.logger?.info('>>> Got chunk from streamCommand', { chunkLength: chunk.length });
         totalContent += chunk;
         yield {
@@ -144,6 +147,7 @@ export class ClaudeCodeAdapter implements ILLMAdapter {
           promptTokens: this.estimateTokens(request.prompt),
           completionTokens: this.estimateTokens(totalContent),
           totalTokens: this.estimateTokens(request.prompt) + this.estimateTokens(totalContent),
+          estimated: true,
         },
       };
 
@@ -176,7 +180,7 @@ export class ClaudeCodeAdapter implements ILLMAdapter {
         .map((t) => `- ${t.name}: ${t.description}`)
         .join('\n');
 
-      const enhancedPrompt = `${request.prompt}
+      const enhancedPrompt = `${this.buildTranscript(request)}
 
 Available tools:
 ${toolDescriptions}
@@ -186,19 +190,20 @@ If you need to use a tool, respond with a JSON block like:
 {"tool": "tool_name", "arguments": {...}}
 \`\`\``;
 
-      const output = await this.executeCommand(enhancedPrompt, request.systemPrompt);
+      const output = await this.executeCommand(enhancedPrompt, request.systemPrompt, request.model);
 
       // Parse tool calls from response
       const toolCalls = this.parseToolCalls(output);
 
       const response: LLMResponse = {
         content: output,
-        model: 'claude-opus-4',
+        model: request.model ?? 'claude-opus-4',
         finishReason: toolCalls.length > 0 ? 'tool_use' : 'stop',
         usage: {
           promptTokens: this.estimateTokens(enhancedPrompt),
           completionTokens: this.estimateTokens(output),
           totalTokens: this.estimateTokens(enhancedPrompt) + this.estimateTokens(output),
+          estimated: true,
         },
         duration: Date.now() - startTime,
       };
@@ -232,9 +237,9 @@ If you need to use a tool, respond with a JSON block like:
   /**
    * Execute Claude Code CLI command
    */
-  private executeCommand(prompt: string, systemPrompt?: string): Promise<string> {
+  private executeCommand(prompt: string, systemPrompt?: string, model?: string): Promise<string> {
     return new Promise((resolve, reject) => {
-      const args = this.buildArgs(prompt, systemPrompt);
+      const args = this.buildArgs(prompt, systemPrompt, model);
     this.logger?.info('>>> streamCommand starting', { args });
 
       this.logger?.debug('Executing claude command', { args: args.join(' ') });
@@ -280,9 +285,10 @@ If you need to use a tool, respond with a JSON block like:
    */
   private async *streamCommand(
     prompt: string,
-    systemPrompt?: string
+    systemPrompt?: string,
+    model?: string
   ): AsyncGenerator<string> {
-    const args = this.buildArgs(prompt, systemPrompt);
+    const args = this.buildArgs(prompt, systemPrompt, model);
 
     const proc: ChildProcess = spawn(this.config.cliPath, args, {
       cwd: this.config.workingDirectory,
@@ -328,11 +334,16 @@ If you need to use a tool, respond with a JSON block like:
   /**
    * Build CLI arguments
    */
-  private buildArgs(prompt: string, systemPrompt?: string): string[] {
+  private buildArgs(prompt: string, systemPrompt?: string, model?: string): string[] {
     const args: string[] = [
       '-p', // Print mode: output response and exit (non-interactive)
     ];
 
+    // Select a model other than the CLI default
+    if (model) {
+      args.push('--model', escapeWindowsArg(model));
+    }
+
     // Add system prompt if provided
     if (systemPrompt) {
       args.push('--system-prompt', escapeWindowsArg(systemPrompt));
@@ -344,6 +355,34 @@ If you need to use a tool, respond with a JSON block like:
     return args;
   }
 
+  /**
+   * Flatten history and tool results into a single prompt
+   * (the CLI has no structured message input)
+   */
+  private buildTranscript(request: LLMRequest): string {
+    const parts: string[] = [];
+
+    for (const msg of request.history ?? []) {
+      parts.push(`[${msg.role}]\n${msg.content}`);
+      for (const call of msg.toolCalls ?? []) {
+        parts.push(`[tool call ${call.id}] ${call.name} ${JSON.stringify(call.arguments)}`);
+      }
+      for (const result of msg.toolResults ?? []) {
+        parts.push(`[tool result ${result.toolCallId}]\n${result.content}`);
+      }
+    }
+
+    for (const result of request.toolResults ?? []) {
+      parts.push(`[tool result ${result.toolCallId}]\n${result.content}`);
+    }
+
+    if (request.prompt) {
+      parts.push(parts.length > 0 ? `[user]\n${request.prompt}` : request.prompt);
+    }
+
+    return parts.join('\n\n');
+  }
+
   /**
    * Parse tool calls from Claude Code response
    */
@@ -375,10 +414,10 @@ If you need to use a tool, respond with a JSON block like:
   }
 
   /**
-   * Estimate tokens (rough approximation)
+   * Estimate tokens; the CLI does not report usage
    */
   private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return this.tokenizer.count(text);
   }
 
   /**
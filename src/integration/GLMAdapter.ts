@@ -16,6 +16,8 @@ import {
   LLMResponse,
   LLMStreamChunk,
   LLMConfig,
+  LLMUsage,
+  LLMMessage,
   ToolDefinition,
   ToolCall,
   AsyncResult,
@@ -23,8 +25,37 @@ import {
   Err,
   ILogger,
   AppError,
+  buildToolInputSchema,
 } from '../types';
 
+/** OpenAI-compatible chat message */
+type ChatMessage = Record<string, unknown>;
+
+/** OpenAI-compatible API usage */
+interface OpenAIApiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+/** OpenAI-compatible chat completion response */
+interface OpenAIApiResponse {
+  choices?: Array<{
+    message?: {
+      content?: string;
+      tool_calls?: Array<{
+        type: string;
+        id: string;
+        function: { name: string; arguments: string };
+      }>;
+    };
+    finish_reason?: string;
+  }>;
+  model: string;
+  usage?: OpenAIApiUsage;
+}
+
 /** GLM Coding API base URL */
 const GLM_API_URL = 'https://api.z.ai/api/coding/paas/v4/chat/completions';
 
@@ -78,7 +109,7 @@ export class GLMAdapter implements ILLMAdapter {
     const startTime = Date.now();
 
     this.logger?.debug('Starting GLM completion', {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       promptLength: request.prompt.length,
     });
 
@@ -136,7 +167,7 @@ export class GLMAdapter implements ILLMAdapter {
       }
 
       // Parse response
-      const data = await response.json();
+      const data = (await response.json()) as OpenAIApiResponse;
       const llmResponse = this.parseResponse(data, startTime);
 
       this.logger?.debug('GLM completion finished', {
@@ -155,7 +186,7 @@ export class GLMAdapter implements ILLMAdapter {
     const startTime = Date.now();
 
     this.logger?.debug('Starting GLM stream', {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       promptLength: request.prompt.length,
     });
 
@@ -269,7 +300,7 @@ export class GLMAdapter implements ILLMAdapter {
     const startTime = Date.now();
 
     this.logger?.debug('Starting GLM completion with tools', {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       toolCount: tools.length,
     });
 
@@ -284,7 +315,7 @@ export class GLMAdapter implements ILLMAdapter {
           function: {
             name: t.name,
             description: t.description,
-            parameters: t.parameters,
+            parameters: buildToolInputSchema(t.parameters),
           },
         })),
         tool_choice: 'auto',
@@ -301,21 +332,7 @@ export class GLMAdapter implements ILLMAdapter {
         throw new Error(`GLM API error ${response.status}: ${errorBody}`);
       }
 
-      const data = (await response.json()) as {
-        choices?: Array<{
-          message?: {
-            content?: string;
-            tool_calls?: Array<{
-              type: string;
-              id: string;
-              function: { name: string; arguments: string };
-            }>;
-          };
-          finish_reason?: string;
-        }>;
-        model: string;
-        usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
-      };
+      const data = (await response.json()) as OpenAIApiResponse;
       const choice = data.choices?.[0];
 
       // Extract tool calls
@@ -341,11 +358,7 @@ export class GLMAdapter implements ILLMAdapter {
         content: choice?.message?.content ?? '',
         model: data.model,
         finishReason: choice?.finish_reason ?? 'stop',
-        usage: {
-          promptTokens: data.usage?.prompt_tokens ?? 0,
-          completionTokens: data.usage?.completion_tokens ?? 0,
-          totalTokens: data.usage?.total_tokens ?? 0,
-        },
+        usage: this.parseUsage(data.usage),
         duration: Date.now() - startTime,
       };
 
@@ -387,7 +400,7 @@ export class GLMAdapter implements ILLMAdapter {
     const messages = this.buildMessages(request);
 
     return {
-      model: this.config.model,
+      model: request.model ?? this.config.model,
       messages,
       max_tokens: request.maxTokens ?? this.config.maxTokens,
       temperature: request.temperature ?? this.config.temperature,
@@ -399,8 +412,8 @@ export class GLMAdapter implements ILLMAdapter {
   /**
    * Build messages array
    */
-  private buildMessages(request: LLMRequest): Array<{ role: string; content: string }> {
-    const messages: Array<{ role: string; content: string }> = [];
+  private buildMessages(request: LLMRequest): ChatMessage[] {
+    const messages: ChatMessage[] = [];
 
     // Add system prompt
     if (request.systemPrompt) {
@@ -413,18 +426,55 @@ export class GLMAdapter implements ILLMAdapter {
     // Add conversation history
     if (request.history) {
       for (const msg of request.history) {
-        messages.push({
-          role: msg.role,
-          content: msg.content,
-        });
+        messages.push(...this.toChatMessages(msg));
       }
     }
 
-    // Add current prompt
-    messages.push({
-      role: 'user',
-      content: request.prompt,
-    });
+    // Add current prompt, answering pending tool calls first
+    messages.push(
+      ...this.toChatMessages({
+        role: 'user',
+        content: request.prompt,
+        toolResults: request.toolResults,
+      })
+    );
+
+    return messages;
+  }
+
+  /**
+   * Convert a message to chat format (tool results become 'tool' messages)
+   */
+  private toChatMessages(message: LLMMessage): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    for (const result of message.toolResults ?? []) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: result.toolCallId,
+        content: result.content,
+      });
+    }
+
+    if (message.toolCalls?.length) {
+      messages.push({
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      });
+    } else if (message.content || !message.toolResults?.length) {
+      messages.push({
+        role: message.role,
+        content: message.content,
+      });
+    }
 
     return messages;
   }
@@ -432,22 +482,30 @@ export class GLMAdapter implements ILLMAdapter {
   /**
    * Parse API response
    */
-  private parseResponse(data: any, startTime: number): LLMResponse {
+  private parseResponse(data: OpenAIApiResponse, startTime: number): LLMResponse {
     const choice = data.choices?.[0];
 
     return {
       content: choice?.message?.content ?? '',
       model: data.model,
       finishReason: choice?.finish_reason ?? 'stop',
-      usage: {
-        promptTokens: data.usage?.prompt_tokens ?? 0,
-        completionTokens: data.usage?.completion_tokens ?? 0,
-        totalTokens: data.usage?.total_tokens ?? 0,
-      },
+      usage: this.parseUsage(data.usage),
       duration: Date.now() - startTime,
     };
   }
 
+  /**
+   * Convert API usage; cached prompt tokens are included in prompt_tokens
+   */
+  private parseUsage(usage?: OpenAIApiUsage): LLMUsage {
+    return {
+      promptTokens: usage?.prompt_tokens ?? 0,
+      completionTokens: usage?.completion_tokens ?? 0,
+      totalTokens: usage?.total_tokens ?? 0,
+      cacheReadTokens: usage?.prompt_tokens_details?.cached_tokens ?? 0,
+    };
+  }
+
   /**
    * Enforce rate limiting
    */
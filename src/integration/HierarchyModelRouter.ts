@@ -1,7 +1,8 @@
 /**
  * Hierarchy Model Router
  *
- * Routes AI requests to appropriate models based on hierarchy level:
+ * Routes AI requests to models through a routing table keyed by
+ * hierarchy level, optionally refined per agent role. The default table:
  * - Sovereign, Lord, Overlord → Claude Opus (strategic/tactical decisions)
  * - Worker → GLM-4.7 (code implementation tasks)
  *
@@ -9,9 +10,9 @@
  * - API mode: Direct Anthropic API with API key
  * - CLI mode: Claude Code CLI tool
  *
- * Original design implementation:
- * - Non-Worker layers always use Opus for complex reasoning
- * - Worker layer uses GLM-4.7 for cost-effective code generation
+ * Routing settings can point any level or role at another provider,
+ * including OpenAI-compatible endpoints (llama.cpp, vLLM, Ollama), and give
+ * each route an ordered fallback chain.
  */
 
 import {
@@ -23,15 +24,38 @@ import {
   ToolDefinition,
   ToolCall,
   AsyncResult,
+  Result,
   Ok,
   Err,
   ILogger,
   AppError,
   HierarchyLevel,
+  ModelRoute,
+  ModelRouteTarget,
+  ModelRoutingTable,
+  ModelRoutingSettings,
 } from '../types';
-import { ClaudeAdapter } from './ClaudeAdapter';
 import { ClaudeCodeAdapter } from './ClaudeCodeAdapter';
-import { GLMAdapter } from './GLMAdapter';
+import {
+  mergeRoutingTable,
+  validateRoutingTable,
+  resolveRoute,
+  routeTargets,
+  createProviderAdapter,
+} from './ModelRouting';
+
+/** Level used for requests that do not name one */
+const DEFAULT_LEVEL: HierarchyLevel = 'sovereign';
+
+/** Default Claude model in API mode */
+const DEFAULT_CLAUDE_MODEL = 'claude-opus-4-20250514';
+
+/** Default GLM model */
+const DEFAULT_GLM_MODEL = 'glm-4.7';
+
+/** Provider ids of the default table */
+const CLAUDE_PROVIDER = 'claude';
+const GLM_PROVIDER = 'glm';
 
 /** Claude access mode */
 export type ClaudeMode = 'api' | 'cli';
@@ -42,230 +66,363 @@ export type ClaudeMode = 'api' | 'cli';
 export interface HierarchyModelConfig {
   /** How to access Claude: 'api' for direct API, 'cli' for Claude Code */
   claudeMode: ClaudeMode;
-  /** Claude API key (required if claudeMode is 'api') */
+  /** Claude API key (required if claudeMode is 'api' and a route uses Claude) */
   claudeApiKey?: string;
+  /** Claude model (API mode; default: Opus) */
+  claudeModel?: string;
   /** Claude Code CLI path (optional, default: 'claude') */
   claudeCliPath?: string;
   /** GLM API key for Worker level */
   glmApiKey: string;
-  /** Enable fallback to GLM if Claude fails */
+  /** GLM model (default: glm-4.7) */
+  glmModel?: string;
+  /** GLM endpoint (optional, default: Z.ai endpoint) */
+  glmEndpoint?: string;
+  /** Enable fallback chains when a route's target fails */
   enableFallback?: boolean;
   /** Working directory for Claude Code CLI */
   workingDirectory?: string;
+  /** Routing settings merged over the default table */
+  routing?: ModelRoutingSettings;
+}
+
+/**
+ * Build the default routing table from the provider settings
+ */
+function buildDefaultRoutingTable(config: HierarchyModelConfig): ModelRoutingTable {
+  const claudeModel = config.claudeMode === 'cli' ? undefined : config.claudeModel ?? DEFAULT_CLAUDE_MODEL;
+  const glm: ModelRouteTarget = { provider: GLM_PROVIDER, model: config.glmModel ?? DEFAULT_GLM_MODEL };
+  const claude: ModelRoute = { provider: CLAUDE_PROVIDER, model: claudeModel, fallbacks: [glm] };
+
+  return {
+    providers: {
+      [CLAUDE_PROVIDER]: config.claudeMode === 'cli'
+        ? { kind: 'claude-cli', cliPath: config.claudeCliPath, workingDirectory: config.workingDirectory }
+        : { kind: 'claude-api', apiKey: config.claudeApiKey },
+      [GLM_PROVIDER]: { kind: 'glm', apiKey: config.glmApiKey, baseUrl: config.glmEndpoint },
+    },
+    levels: {
+      sovereign: claude,
+      lord: claude,
+      overlord: claude,
+      worker: glm,
+    },
+    roles: {},
+  };
 }
 
 /**
  * Hierarchy Model Router
  *
- * Automatically routes requests to the appropriate AI model based on
- * the hierarchy level of the requesting agent.
- *
- * Hierarchy → Model mapping:
- * - Sovereign → Claude Opus
- * - Lord → Claude Opus
- * - Overlord → Claude Opus
- * - Worker → GLM-4
+ * Routes each request by the hierarchy level (and agent role) carried on
+ * the request. The router keeps no per-request state, so concurrent
+ * missions and chat can share it. A request's `model` overrides the model
+ * of its route's first target; fallback targets use their own models.
  */
 export class HierarchyModelRouter implements ILLMAdapter {
   private readonly config: HierarchyModelConfig;
   private readonly logger?: ILogger;
-  private readonly claudeAdapter: ILLMAdapter;
-  private readonly glmAdapter: ILLMAdapter;
-
-  // Current context
-  // Default to sovereign for chat (uses Claude Opus)
-  private currentLevel: HierarchyLevel = 'sovereign';
+  private readonly table: ModelRoutingTable;
+  private readonly adapters = new Map<string, ILLMAdapter>();
 
-  // Metrics
-  private requestsByLevel: Record<HierarchyLevel, number> = {
+  // Metrics, counted from each request's level
+  private readonly requestsByLevel: Record<HierarchyLevel, number> = {
+    sovereign: 0,
+    lord: 0,
+    overlord: 0,
+    worker: 0,
+  };
+  private readonly fallbacksByLevel: Record<HierarchyLevel, number> = {
     sovereign: 0,
     lord: 0,
     overlord: 0,
     worker: 0,
   };
-  private fallbackCount: number = 0;
 
   constructor(config: HierarchyModelConfig, logger?: ILogger) {
     this.config = config;
     this.logger = logger?.child('HierarchyModelRouter');
-
-    // Initialize Claude adapter based on mode
-    if (config.claudeMode === 'cli') {
-      this.claudeAdapter = new ClaudeCodeAdapter(
-        {
-          cliPath: config.claudeCliPath,
-          workingDirectory: config.workingDirectory,
-        },
-        this.logger
-      );
-      this.logger?.info('Using Claude Code CLI for Opus');
+    const table = mergeRoutingTable(buildDefaultRoutingTable(config), config.routing);
+    const validation = validateRoutingTable(table);
+    if (validation.ok) {
+      this.table = table;
     } else {
-      if (!config.claudeApiKey) {
-        throw new AppError('CONFIG', 'Claude API key required when claudeMode is "api"');
+      this.logger?.error('Invalid model routing, using the default routes', validation.error);
+      this.table = buildDefaultRoutingTable(config);
+    }
+
+    // Create one adapter per provider used by a route
+    for (const route of [...Object.values(this.table.levels), ...Object.values(this.table.roles)]) {
+      for (const target of routeTargets(route, true)) {
+        const provider = this.table.providers[target.provider];
+        if (provider && !this.adapters.has(target.provider)) {
+          this.adapters.set(target.provider, createProviderAdapter(provider, this.logger));
+        }
       }
-      this.claudeAdapter = new ClaudeAdapter(
-        config.claudeApiKey,
-        { model: 'claude-opus-4-20250514' }, // Always Opus
-        this.logger
-      );
-      this.logger?.info('Using Claude API for Opus');
     }
 
-    // Initialize GLM adapter for Worker level
-    this.glmAdapter = new GLMAdapter(
-      config.glmApiKey,
-      { model: 'glm-4.7' },
-      this.logger
-    );
-    this.logger?.info('Using GLM-4.7 for Worker level');
+    for (const [level, route] of Object.entries(this.table.levels)) {
+      this.logger?.info('Model route', {
+        level,
+        provider: route.provider,
+        model: route.model ?? 'default',
+        fallbacks: (route.fallbacks ?? []).map((f) => f.provider),
+      });
+    }
   }
 
   /**
-   * Set the current hierarchy level for routing
+   * Get the hierarchy level of a request.
+   * Requests without a level are treated as sovereign (chat uses Claude Opus).
    */
-  setHierarchyLevel(level: HierarchyLevel): void {
-    this.currentLevel = level;
-    this.logger?.debug('Hierarchy level set', { level });
+  private getLevel(request: LLMRequest): HierarchyLevel {
+    return request.level ?? DEFAULT_LEVEL;
   }
 
   /**
-   * Get current hierarchy level
+   * Get the targets to try for a request, in order
    */
-  getHierarchyLevel(): HierarchyLevel {
-    return this.currentLevel;
+  private getTargets(request: LLMRequest, level: HierarchyLevel): ModelRouteTarget[] {
+    const route = resolveRoute(this.table, level, request.role);
+    const [primary, ...fallbacks] = routeTargets(route, this.config.enableFallback !== false);
+    if (!primary) {
+      return [];
+    }
+    return [{ ...primary, model: request.model ?? primary.model }, ...fallbacks];
   }
 
   /**
-   * Get the appropriate adapter for current hierarchy level
+   * Get the adapter for a provider id
    */
-  private getAdapter(): ILLMAdapter {
-    // Worker uses GLM-4.7, all others use Claude Opus
-    if (this.currentLevel === 'worker') {
-      return this.glmAdapter;
+  private getAdapter(provider: string): ILLMAdapter {
+    const adapter = this.adapters.get(provider);
+    if (!adapter) {
+      throw new AppError('CONFIG', `No adapter for provider "${provider}"`);
     }
-    return this.claudeAdapter;
+    return adapter;
   }
 
   /**
-   * Get model name for current level
+   * Send a request along its route, falling back through the chain on failure
    */
-  private getModelName(): string {
-    if (this.currentLevel === 'worker') {
-      return 'glm-4.7';
+  private async route<T>(
+    request: LLMRequest,
+    kind: string,
+    send: (adapter: ILLMAdapter, request: LLMRequest, target: ModelRouteTarget) => AsyncResult<T>
+  ): AsyncResult<T> {
+    const level = this.getLevel(request);
+    this.requestsByLevel[level]++;
+
+    const targets = this.getTargets(request, level);
+    let lastError = new AppError('LLM', `${kind} routing failed: no route`);
+
+    for (const [attempt, target] of targets.entries()) {
+      if (attempt > 0) {
+        this.fallbacksByLevel[level]++;
+        this.logger?.warn('Falling back to next model', {
+          level,
+          provider: target.provider,
+          model: target.model ?? 'default',
+          error: lastError.message,
+        });
+      }
+
+      this.logger?.info(`Routing ${kind} request`, {
+        level,
+        role: request.role,
+        provider: target.provider,
+        model: target.model ?? 'default',
+      });
+
+      try {
+        const result: Result<T> = await send(
+          this.getAdapter(target.provider),
+          { ...request, model: target.model },
+          target
+        );
+        if (result.ok) {
+          return result;
+        }
+        lastError = result.error;
+      } catch (error) {
+        this.logger?.error(`${kind} routing failed`, error as Error);
+        lastError = new AppError('LLM', `Routing failed: ${(error as Error).message}`);
+      }
     }
-    return 'claude-opus';
-  }
 
-  async complete(request: LLMRequest): AsyncResult<LLMResponse> {
-    this.requestsByLevel[this.currentLevel]++;
+    return Err(lastError);
+  }
 
-    const modelName = this.getModelName();
-    this.logger?.info('Routing completion request', {
-      level: this.currentLevel,
-      model: modelName,
-      promptLength: request.prompt.length,
+  complete(request: LLMRequest): AsyncResult<LLMResponse> {
+    return this.route(request, 'completion', async (adapter, routed, target) => {
+      const result = await adapter.complete(routed);
+      return result.ok ? Ok({ ...result.value, provider: target.provider }) : result;
     });
+  }
 
-    try {
-      const adapter = this.getAdapter();
-      const result = await adapter.complete(request);
+  /**
+   * Stream along the route. A target that fails before producing output
+   * falls back to the next one; failures mid-stream are rethrown.
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const level = this.getLevel(request);
+    this.requestsByLevel[level]++;
 
-      if (result.ok) {
-        return result;
+    const targets = this.getTargets(request, level);
+    for (const [attempt, target] of targets.entries()) {
+      if (attempt > 0) {
+        this.fallbacksByLevel[level]++;
       }
 
-      // Try fallback if enabled and not already using GLM
-      if (this.config.enableFallback && this.currentLevel !== 'worker') {
-        this.logger?.warn('Claude failed, falling back to GLM', {
-          level: this.currentLevel,
-          error: result.error,
+      this.logger?.info('Routing stream request', {
+        level,
+        role: request.role,
+        provider: target.provider,
+        model: target.model ?? 'default',
+      });
+
+      let started = false;
+      try {
+        for await (const chunk of this.getAdapter(target.provider).stream({ ...request, model: target.model })) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (started || attempt === targets.length - 1) {
+          throw error;
+        }
+        this.logger?.warn('Stream failed before output, falling back', {
+          level,
+          error: (error as Error).message,
         });
-
-        this.fallbackCount++;
-        return await this.glmAdapter.complete(request);
-      }
-
-      return result;
-    } catch (error) {
-      this.logger?.error('Completion routing failed', error as Error);
-
-      // Try fallback on exception
-      if (this.config.enableFallback && this.currentLevel !== 'worker') {
-        this.logger?.warn('Claude threw exception, falling back to GLM');
-        this.fallbackCount++;
-        return await this.glmAdapter.complete(request);
       }
-
-      return Err(new AppError('LLM', `Routing failed: ${(error as Error).message}`));
     }
   }
 
-  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
-    this.requestsByLevel[this.currentLevel]++;
-
-    const modelName = this.getModelName();
-    this.logger?.info('Routing stream request', {
-      level: this.currentLevel,
-      model: modelName,
+  completeWithTools(
+    request: LLMRequest,
+    tools: ToolDefinition[]
+  ): AsyncResult<{ response: LLMResponse; toolCalls: ToolCall[] }> {
+    return this.route(request, 'tool completion', async (adapter, routed, target) => {
+      const result = await adapter.completeWithTools(routed, tools);
+      return result.ok
+        ? Ok({ ...result.value, response: { ...result.value.response, provider: target.provider } })
+        : result;
     });
-
-    const adapter = this.getAdapter();
-    yield* adapter.stream(request);
   }
 
-  async completeWithTools(
+  /**
+   * Stream a tool completion along the route. Adapters that cannot stream
+   * complete in one piece; a target that fails before producing output falls
+   * back to the next one.
+   */
+  async *streamWithTools(
     request: LLMRequest,
     tools: ToolDefinition[]
-  ): AsyncResult<{ response: LLMResponse; toolCalls: ToolCall[] }> {
-    this.requestsByLevel[this.currentLevel]++;
-
-    const modelName = this.getModelName();
-    this.logger?.info('Routing tool completion request', {
-      level: this.currentLevel,
-      model: modelName,
-      toolCount: tools.length,
-    });
+  ): AsyncGenerator<LLMStreamChunk, Result<{ response: LLMResponse; toolCalls: ToolCall[] }>> {
+    const level = this.getLevel(request);
+    this.requestsByLevel[level]++;
+
+    const targets = this.getTargets(request, level);
+    let lastError = new AppError('LLM', 'tool stream routing failed: no route');
+
+    for (const [attempt, target] of targets.entries()) {
+      if (attempt > 0) {
+        this.fallbacksByLevel[level]++;
+        this.logger?.warn('Falling back to next model', {
+          level,
+          provider: target.provider,
+          model: target.model ?? 'default',
+          error: lastError.message,
+        });
+      }
 
-    try {
-      const adapter = this.getAdapter();
-      const result = await adapter.completeWithTools(request, tools);
+      this.logger?.info('Routing tool stream request', {
+        level,
+        role: request.role,
+        provider: target.provider,
+        model: target.model ?? 'default',
+      });
+
+      const adapter = this.getAdapter(target.provider);
+      const routed = { ...request, model: target.model };
+      let started = false;
+      let result: Result<{ response: LLMResponse; toolCalls: ToolCall[] }>;
+
+      try {
+        if (adapter.streamWithTools) {
+          const stream = adapter.streamWithTools(routed, tools);
+          let next = await stream.next();
+          while (!next.done) {
+            started = true;
+            yield next.value;
+            next = await stream.next();
+          }
+          result = next.value;
+        } else {
+          result = await adapter.completeWithTools(routed, tools);
+        }
+      } catch (error) {
+        if (started) {
+          throw error;
+        }
+        this.logger?.error('tool stream routing failed', error as Error);
+        lastError = new AppError('LLM', `Routing failed: ${(error as Error).message}`);
+        continue;
+      }
 
       if (result.ok) {
-        return result;
+        return Ok({ ...result.value, response: { ...result.value.response, provider: target.provider } });
       }
-
-      // Try fallback if enabled and not already using GLM
-      if (this.config.enableFallback && this.currentLevel !== 'worker') {
-        this.logger?.warn('Claude tool completion failed, falling back to GLM', {
-          level: this.currentLevel,
-        });
-
-        this.fallbackCount++;
-        return await this.glmAdapter.completeWithTools(request, tools);
+      if (started) {
+        return result;
       }
+      lastError = result.error;
+    }
 
-      return result;
-    } catch (error) {
-      this.logger?.error('Tool completion routing failed', error as Error);
+    return Err(lastError);
+  }
 
-      if (this.config.enableFallback && this.currentLevel !== 'worker') {
-        this.logger?.warn('Claude threw exception, falling back to GLM');
-        this.fallbackCount++;
-        return await this.glmAdapter.completeWithTools(request, tools);
-      }
+  /**
+   * Get the config of the first target for requests without a level
+   */
+  getConfig(): LLMConfig {
+    const route = this.table.levels[DEFAULT_LEVEL];
+    const config = this.getAdapter(route.provider).getConfig();
+    return route.model ? { ...config, model: route.model } : config;
+  }
 
-      return Err(new AppError('LLM', `Tool routing failed: ${(error as Error).message}`));
+  /**
+   * Get the model of a request's primary target
+   */
+  getModel(request: LLMRequest): string {
+    const [target] = this.getTargets(request, this.getLevel(request));
+    if (!target) {
+      return this.getConfig().model;
     }
+    return target.model ?? this.getAdapter(target.provider).getConfig().model;
   }
 
-  getConfig(): LLMConfig {
-    const adapter = this.getAdapter();
-    return adapter.getConfig();
+  /**
+   * Get the provider of a request's primary target
+   */
+  getProvider(request: LLMRequest): string {
+    const [target] = this.getTargets(request, this.getLevel(request));
+    return target?.provider ?? this.table.levels[DEFAULT_LEVEL].provider;
   }
 
   setConfig(config: Partial<LLMConfig>): void {
-    this.claudeAdapter.setConfig(config);
-    this.glmAdapter.setConfig(config);
+    for (const adapter of this.adapters.values()) {
+      adapter.setConfig(config);
+    }
+  }
+
+  /**
+   * Get the routing table in effect
+   */
+  getRoutingTable(): ModelRoutingTable {
+    return this.table;
   }
 
   /**
@@ -273,16 +430,14 @@ export class HierarchyModelRouter implements ILLMAdapter {
    */
   getStats(): {
     requestsByLevel: Record<HierarchyLevel, number>;
+    fallbacksByLevel: Record<HierarchyLevel, number>;
     fallbackCount: number;
-    currentLevel: HierarchyLevel;
-    currentModel: string;
     claudeMode: ClaudeMode;
   } {
     return {
       requestsByLevel: { ...this.requestsByLevel },
-      fallbackCount: this.fallbackCount,
-      currentLevel: this.currentLevel,
-      currentModel: this.getModelName(),
+      fallbacksByLevel: { ...this.fallbacksByLevel },
+      fallbackCount: Object.values(this.fallbacksByLevel).reduce((sum, n) => sum + n, 0),
       claudeMode: this.config.claudeMode,
     };
   }
@@ -298,24 +453,32 @@ export class HierarchyModelRouter implements ILLMAdapter {
    * Check if Claude Code CLI is available (only relevant in CLI mode)
    */
   async isClaudeCliAvailable(): Promise<boolean> {
-    if (this.config.claudeMode !== 'cli') {
+    const adapter = this.adapters.get(CLAUDE_PROVIDER);
+    if (this.config.claudeMode !== 'cli' || !adapter) {
       return false;
     }
-    return (this.claudeAdapter as ClaudeCodeAdapter).isAvailable();
+    return (adapter as ClaudeCodeAdapter).isAvailable();
+  }
+
+  /**
+   * Get the adapter of a provider in the routing table, if any route uses it
+   */
+  getProviderAdapter(provider: string): ILLMAdapter | undefined {
+    return this.adapters.get(provider);
   }
 
   /**
    * Get Claude adapter directly
    */
-  getClaudeAdapter(): ILLMAdapter {
-    return this.claudeAdapter;
+  getClaudeAdapter(): ILLMAdapter | undefined {
+    return this.adapters.get(CLAUDE_PROVIDER);
   }
 
   /**
    * Get GLM adapter directly
    */
-  getGLMAdapter(): ILLMAdapter {
-    return this.glmAdapter;
+  getGLMAdapter(): ILLMAdapter | undefined {
+    return this.adapters.get(GLM_PROVIDER);
   }
 }
 
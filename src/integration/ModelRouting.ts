@@ -0,0 +1,165 @@
+/**
+ * Model Routing
+ *
+ * Routing table helpers for the HierarchyModelRouter:
+ * - Merging routing settings over a base table
+ * - Validating provider references and provider settings
+ * - Resolving the route for a hierarchy level and agent role
+ * - Creating the adapter for a provider
+ */
+
+import {
+  ILLMAdapter,
+  ILogger,
+  Result,
+  Ok,
+  Err,
+  AppError,
+  HierarchyLevel,
+  AgentRole,
+  ModelRoute,
+  ModelRouteTarget,
+  ModelRoutingTable,
+  ModelRoutingSettings,
+  RouteProviderConfig,
+} from '../types';
+import { ClaudeAdapter } from './ClaudeAdapter';
+import { ClaudeCodeAdapter } from './ClaudeCodeAdapter';
+import { GLMAdapter } from './GLMAdapter';
+import { OpenAIAdapter } from './OpenAIAdapter';
+
+/** Provider kinds the router can create adapters for */
+const PROVIDER_KINDS: ReadonlySet<string> = new Set([
+  'claude-api',
+  'claude-cli',
+  'glm',
+  'openai-compatible',
+]);
+
+/**
+ * Merge routing settings over a base table.
+ * Providers are merged by id; each configured level or role replaces its route.
+ */
+export function mergeRoutingTable(
+  base: ModelRoutingTable,
+  settings?: ModelRoutingSettings
+): ModelRoutingTable {
+  if (!settings) {
+    return base;
+  }
+
+  return {
+    providers: { ...base.providers, ...settings.providers },
+    levels: { ...base.levels, ...definedRoutes(settings.levels) },
+    roles: { ...base.roles, ...definedRoutes(settings.roles) },
+  };
+}
+
+/**
+ * Validate a routing table.
+ * Only providers referenced by a route are checked, so unused defaults
+ * (such as a Claude provider without a key) do not fail validation.
+ */
+export function validateRoutingTable(table: ModelRoutingTable): Result<void> {
+  const problems: string[] = [];
+  const referenced = new Set<string>();
+
+  const checkRoute = (name: string, route: ModelRoute | undefined): void => {
+    if (!route) {
+      problems.push(`${name}: no route configured`);
+      return;
+    }
+    for (const target of [route, ...(route.fallbacks ?? [])]) {
+      if (!table.providers[target.provider]) {
+        problems.push(`${name}: unknown provider "${target.provider}"`);
+      } else {
+        referenced.add(target.provider);
+      }
+    }
+  };
+
+  for (const level of Object.keys(table.levels) as HierarchyLevel[]) {
+    checkRoute(`level ${level}`, table.levels[level]);
+  }
+  for (const role of Object.keys(table.roles) as AgentRole[]) {
+    checkRoute(`role ${role}`, table.roles[role]);
+  }
+
+  for (const id of referenced) {
+    const provider = table.providers[id];
+    if (!provider) {
+      continue;
+    }
+    if (!PROVIDER_KINDS.has(provider.kind)) {
+      problems.push(`provider ${id}: unknown kind "${provider.kind}"`);
+    } else if (provider.kind === 'claude-api' && !provider.apiKey) {
+      problems.push(`provider ${id}: claude-api requires an apiKey`);
+    }
+  }
+
+  if (problems.length > 0) {
+    return Err(new AppError('CONFIG', `Invalid model routing: ${problems.join('; ')}`));
+  }
+  return Ok(undefined);
+}
+
+/**
+ * Resolve the route for a request. A role route takes precedence over the level route.
+ */
+export function resolveRoute(
+  table: ModelRoutingTable,
+  level: HierarchyLevel,
+  role?: AgentRole
+): ModelRoute {
+  const roleRoute = role ? table.roles[role] : undefined;
+  return roleRoute ?? table.levels[level];
+}
+
+/**
+ * Get the targets of a route in the order they are tried
+ */
+export function routeTargets(route: ModelRoute, includeFallbacks: boolean): ModelRouteTarget[] {
+  const primary: ModelRouteTarget = { provider: route.provider, model: route.model };
+  return includeFallbacks ? [primary, ...(route.fallbacks ?? [])] : [primary];
+}
+
+/**
+ * Create the adapter for a provider
+ */
+export function createProviderAdapter(
+  provider: RouteProviderConfig,
+  logger?: ILogger
+): ILLMAdapter {
+  switch (provider.kind) {
+    case 'claude-api':
+      return new ClaudeAdapter(provider.apiKey ?? '', undefined, logger);
+    case 'claude-cli':
+      // Unset fields are left out so they do not replace the adapter defaults
+      return new ClaudeCodeAdapter(
+        {
+          ...(provider.cliPath ? { cliPath: provider.cliPath } : {}),
+          ...(provider.workingDirectory ? { workingDirectory: provider.workingDirectory } : {}),
+        },
+        logger
+      );
+    case 'glm':
+      return new GLMAdapter(provider.apiKey ?? '', { baseUrl: provider.baseUrl }, logger);
+    case 'openai-compatible':
+      return new OpenAIAdapter(provider.apiKey ?? '', { baseUrl: provider.baseUrl }, logger);
+  }
+}
+
+/**
+ * Drop unset entries so they do not replace base routes
+ */
+function definedRoutes<K extends string>(
+  routes?: Readonly<Partial<Record<K, ModelRoute>>>
+): Partial<Record<K, ModelRoute>> {
+  const result: Partial<Record<K, ModelRoute>> = {};
+  for (const [key, route] of Object.entries(routes ?? {}) as Array<[K, ModelRoute | undefined]>) {
+    if (route) {
+      result[key] = route;
+    }
+  }
+  return result;
+}
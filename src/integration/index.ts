@@ -7,6 +7,7 @@
  * - OpenAIAdapter (OpenAI, Azure, local models)
  * - GLMAdapter (Zhipu AI GLM-4)
  * - HierarchyModelRouter (Hierarchy-based model selection)
+ * - ModelRouting (Routing table helpers)
  */
 
 // Claude Adapter (Direct API)
@@ -39,3 +40,12 @@ export {
   type HierarchyModelConfig,
   type ClaudeMode,
 } from './HierarchyModelRouter';
+
+// Model Routing
+export {
+  mergeRoutingTable,
+  validateRoutingTable,
+  resolveRoute,
+  routeTargets,
+  createProviderAdapter,
+} from './ModelRouting';
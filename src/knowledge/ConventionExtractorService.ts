@@ -30,8 +30,15 @@ import {
   Err,
   AppError,
   toRelativePath,
+  createSourceLocation,
 } from '../types';
 
+/** Lowest confidence at which a convention is summarised for prompts */
+const MIN_SUMMARY_CONFIDENCE = 0.3;
+
+/** Most offending lines listed in a style violation */
+const MAX_LISTED_LINES = 5;
+
 /** Sample size for convention detection */
 const DEFAULT_SAMPLE_SIZE = 50;
 
@@ -136,11 +143,11 @@ export class ConventionExtractorService implements IConventionExtractorService {
     const { detected } = this.conventions;
 
     // Check naming conventions
-    const namingViolations = this.checkNamingCompliance(code, detected.naming);
+    const namingViolations = this.checkNamingCompliance(code, file, detected.naming);
     violations.push(...namingViolations);
 
     // Check style conventions
-    const styleViolations = this.checkStyleCompliance(code, detected.style);
+    const styleViolations = this.checkStyleCompliance(code, file, detected.style);
     violations.push(...styleViolations);
 
     return {
@@ -149,6 +156,62 @@ export class ConventionExtractorService implements IConventionExtractorService {
     };
   }
 
+  summarize(): string[] {
+    if (!this.conventions) {
+      return [];
+    }
+
+    const { detected, confidence } = this.conventions;
+    const lines: string[] = [];
+
+    if (confidence.naming >= MIN_SUMMARY_CONFIDENCE) {
+      const names = (
+        [
+          ['files', detected.naming.files],
+          ['functions', detected.naming.functions],
+          ['classes', detected.naming.classes],
+          ['variables', detected.naming.variables],
+          ['constants', detected.naming.constants],
+        ] as const
+      ).filter(([, pattern]) => pattern !== 'unknown');
+      if (names.length > 0) {
+        lines.push(`Naming: ${names.map(([kind, pattern]) => `${kind} in ${pattern}`).join(', ')}`);
+      }
+    }
+
+    if (confidence.style >= MIN_SUMMARY_CONFIDENCE) {
+      const { style } = detected;
+      lines.push(
+        `Style: indent with ${style.indentation === 'tabs' ? 'tabs' : `${style.indentSize} spaces`}, ` +
+          `${style.quotes} quotes, ${style.semicolons ? 'semicolons' : 'no semicolons'}`
+      );
+    }
+
+    if (confidence.structure >= MIN_SUMMARY_CONFIDENCE) {
+      const { structure } = detected;
+      lines.push(
+        structure.testLocation === 'colocated'
+          ? `Tests: next to their source files, named ${structure.testPattern}`
+          : `Tests: under ${structure.testDir}, named ${structure.testPattern}`
+      );
+    }
+
+    if (confidence.patterns >= MIN_SUMMARY_CONFIDENCE) {
+      const { patterns } = detected;
+      const parts = [
+        patterns.asyncStyle !== 'mixed' ? `${patterns.asyncStyle} for async code` : undefined,
+        patterns.errorHandling !== 'mixed' ? `${patterns.errorHandling} for errors` : undefined,
+        patterns.importStyle !== 'mixed' ? `${patterns.importStyle} imports` : undefined,
+        patterns.exportStyle !== 'mixed' ? `${patterns.exportStyle} exports` : undefined,
+      ].filter((part): part is string => part !== undefined);
+      if (parts.length > 0) {
+        lines.push(`Patterns: ${parts.join(', ')}`);
+      }
+    }
+
+    return lines;
+  }
+
   /**
    * Get sample files for analysis
    */
@@ -526,38 +589,39 @@ export class ConventionExtractorService implements IConventionExtractorService {
   /**
    * Check naming compliance
    */
-  private checkNamingCompliance(code: string, conventions: NamingConventions): ConventionViolation[] {
+  private checkNamingCompliance(
+    code: string,
+    file: RelativePath,
+    conventions: NamingConventions
+  ): ConventionViolation[] {
     const violations: ConventionViolation[] = [];
+    const checks = [
+      { kind: 'function', convention: 'naming.functions', expected: conventions.functions, regex: /function\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g },
+      { kind: 'class', convention: 'naming.classes', expected: conventions.classes, regex: /class\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g },
+    ];
+
+    for (const { kind, convention, expected, regex } of checks) {
+      if (expected === 'unknown') {
+        continue;
+      }
 
-    // Check function names
-    const functionMatches = code.matchAll(/function\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g);
-    for (const match of functionMatches) {
-      const name = match[1];
-      if (name) {
-        const pattern = this.detectNamingPattern(name);
-        if (pattern !== conventions.functions && pattern !== 'unknown') {
-          violations.push({
-            convention: 'naming.functions',
-            expected: conventions.functions,
-            actual: pattern,
-            autoFixable: false,
-          });
+      const reported = new Set<string>();
+      for (const match of code.matchAll(regex)) {
+        const name = match[1];
+        if (!name || reported.has(name)) {
+          continue;
         }
-      }
-    }
 
-    // Check class names
-    const classMatches = code.matchAll(/class\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g);
-    for (const match of classMatches) {
-      const name = match[1];
-      if (name) {
         const pattern = this.detectNamingPattern(name);
-        if (pattern !== conventions.classes && pattern !== 'unknown') {
+        if (pattern !== expected && pattern !== 'unknown') {
+          reported.add(name);
           violations.push({
-            convention: 'naming.classes',
-            expected: conventions.classes,
+            convention,
+            expected,
             actual: pattern,
+            location: createSourceLocation(file, this.lineAt(code, match.index ?? 0), 1),
             autoFixable: false,
+            fix: `Rename ${kind} \`${name}\` to \`${this.convertName(name, expected)}\` (${expected})`,
           });
         }
       }
@@ -569,39 +633,78 @@ export class ConventionExtractorService implements IConventionExtractorService {
   /**
    * Check style compliance
    */
-  private checkStyleCompliance(code: string, conventions: StyleConventions): ConventionViolation[] {
-    const violations: ConventionViolation[] = [];
+  private checkStyleCompliance(
+    code: string,
+    file: RelativePath,
+    conventions: StyleConventions
+  ): ConventionViolation[] {
+    const offending: number[] = [];
     const lines = code.split('\n');
 
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line) continue;
-
-      // Check indentation
-      const leadingWhitespace = line.match(/^(\s*)/)?.[1] ?? '';
-      if (leadingWhitespace.length > 0) {
-        const hasTabs = leadingWhitespace.includes('\t');
-        const hasSpaces = leadingWhitespace.includes(' ') && !leadingWhitespace.includes('\t');
-
-        if (conventions.indentation === 'tabs' && hasSpaces) {
-          violations.push({
-            convention: 'style.indentation',
-            expected: 'tabs',
-            actual: 'spaces',
-            autoFixable: true,
-          });
-        } else if (conventions.indentation === 'spaces' && hasTabs) {
-          violations.push({
-            convention: 'style.indentation',
-            expected: 'spaces',
-            actual: 'tabs',
-            autoFixable: true,
-          });
-        }
+      const leadingWhitespace = lines[i]?.match(/^(\s*)/)?.[1] ?? '';
+      const wrong = conventions.indentation === 'tabs'
+        ? leadingWhitespace.includes(' ') && !leadingWhitespace.includes('\t')
+        : leadingWhitespace.includes('\t');
+      if (wrong) {
+        offending.push(i + 1);
       }
     }
 
-    return violations;
+    const firstLine = offending[0];
+    if (firstLine === undefined) {
+      return [];
+    }
+
+    // One violation per file, listing where it occurs
+    const actual = conventions.indentation === 'tabs' ? 'spaces' : 'tabs';
+    const listed = offending.slice(0, MAX_LISTED_LINES).join(', ');
+    const more = offending.length > MAX_LISTED_LINES ? ` and ${offending.length - MAX_LISTED_LINES} more` : '';
+    return [
+      {
+        convention: 'style.indentation',
+        expected: conventions.indentation,
+        actual,
+        location: createSourceLocation(file, firstLine, 1),
+        autoFixable: true,
+        fix: `Indent line${offending.length > 1 ? 's' : ''} ${listed}${more} with ` +
+          `${conventions.indentation === 'tabs' ? 'tabs' : `${conventions.indentSize} spaces`} instead of ${actual}`,
+      },
+    ];
+  }
+
+  /**
+   * Line number (1-based) of a character offset
+   */
+  private lineAt(code: string, index: number): number {
+    return code.slice(0, index).split('\n').length;
+  }
+
+  /**
+   * Rewrite an identifier in another naming pattern
+   */
+  private convertName(name: string, pattern: NamingPattern): string {
+    const words = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[\s_-]+/)
+      .filter((word) => word.length > 0)
+      .map((word) => word.toLowerCase());
+    const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+    switch (pattern) {
+      case 'camelCase':
+        return words.map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+      case 'PascalCase':
+        return words.map(capitalize).join('');
+      case 'snake_case':
+        return words.join('_');
+      case 'SCREAMING_SNAKE_CASE':
+        return words.join('_').toUpperCase();
+      case 'kebab-case':
+        return words.join('-');
+      default:
+        return name;
+    }
   }
 }
 
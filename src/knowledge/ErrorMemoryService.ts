@@ -29,6 +29,15 @@ import {
 /** Maximum recent errors to keep in memory */
 const MAX_RECENT_ERRORS = 100;
 
+/** Maximum prevention hints returned */
+const MAX_PREVENTION_HINTS = 5;
+
+/** Shortest intent word used for keyword matching */
+const MIN_KEYWORD_LENGTH = 4;
+
+/** Intent words that must match a pattern's message before keywords alone make it relevant */
+const MIN_KEYWORD_MATCHES = 2;
+
 /** Error category detection patterns */
 const CATEGORY_PATTERNS: Array<{ pattern: RegExp; category: ErrorPatternCategory }> = [
   { pattern: /SyntaxError|Unexpected token|Parse error/i, category: 'syntax' },
@@ -54,7 +63,7 @@ export class ErrorMemoryService implements IErrorMemoryService {
     this.logger = logger?.child('ErrorMemoryService');
   }
 
-  async recordError(error: Error, context: ErrorContext): AsyncResult<void> {
+  async recordError(error: Error, context: ErrorContext): AsyncResult<ErrorPattern> {
     try {
       this.logger?.debug('Recording error', {
         message: error.message,
@@ -92,6 +101,7 @@ export class ErrorMemoryService implements IErrorMemoryService {
         taskId: context.taskId,
         agentId: context.agentId,
         file: context.file,
+        symbol: context.symbol,
         code: context.code,
         errorMessage: error.message,
         resolved: false,
@@ -112,7 +122,7 @@ export class ErrorMemoryService implements IErrorMemoryService {
         occurrences: pattern.occurrences,
       });
 
-      return Ok(undefined);
+      return Ok(pattern);
     } catch (err) {
       this.logger?.error('Failed to record error', err as Error);
       return Err(
@@ -123,7 +133,7 @@ export class ErrorMemoryService implements IErrorMemoryService {
 
   async recordResolution(patternId: string, resolution: string): AsyncResult<void> {
     try {
-      const pattern = this.patterns.get(patternId);
+      const pattern = this.getPattern(patternId);
       if (!pattern) {
         return Err(new AppError('NOT_FOUND', `Pattern not found: ${patternId}`));
       }
@@ -134,7 +144,7 @@ export class ErrorMemoryService implements IErrorMemoryService {
         prevention: resolution,
       };
 
-      this.patterns.set(patternId, updatedPattern);
+      this.patterns.set(pattern.fingerprint, updatedPattern);
       await this.store.saveErrorPattern(updatedPattern);
 
       // Mark recent occurrences as resolved
@@ -191,31 +201,31 @@ export class ErrorMemoryService implements IErrorMemoryService {
   }
 
   getPreventionHints(context: { intent: string; targets: string[] }): string[] {
-    const hints: string[] = [];
-    const intentLower = context.intent.toLowerCase();
-    const targetPatterns = context.targets.map((t) => t.toLowerCase());
-
+    const keywords = new Set(
+      context.intent
+        .toLowerCase()
+        .split(/[^a-z0-9_$]+/)
+        .filter((word) => word.length >= MIN_KEYWORD_LENGTH)
+    );
+    const targets = context.targets.map((t) => this.normalizePath(t.toLowerCase()));
+
+    const relevant: Array<{ pattern: ErrorPattern; score: number }> = [];
     for (const pattern of this.patterns.values()) {
-      // Check if pattern is relevant to the intent
-      const messagePatternLower = pattern.messagePattern.toLowerCase();
-      const preventionLower = pattern.prevention.toLowerCase();
-
-      // Check for keyword matches
-      const intentKeywords = intentLower.split(/\s+/);
-      const relevanceScore = intentKeywords.filter(
-        (kw) =>
-          messagePatternLower.includes(kw) ||
-          preventionLower.includes(kw) ||
-          targetPatterns.some((t) => pattern.codePattern?.toLowerCase().includes(t))
-      ).length;
-
-      if (relevanceScore > 0 && pattern.prevention) {
-        hints.push(pattern.prevention);
+      if (!pattern.prevention) {
+        continue;
+      }
+
+      const score = this.scoreRelevance(pattern, keywords, targets);
+      if (score > 0) {
+        relevant.push({ pattern, score });
       }
     }
 
+    // Most relevant first, then most frequent
+    relevant.sort((a, b) => b.score - a.score || b.pattern.occurrences - a.pattern.occurrences);
+
     // Deduplicate and limit
-    return [...new Set(hints)].slice(0, 5);
+    return [...new Set(relevant.map((r) => r.pattern.prevention))].slice(0, MAX_PREVENTION_HINTS);
   }
 
   /**
@@ -335,6 +345,8 @@ export class ErrorMemoryService implements IErrorMemoryService {
       category,
       messagePattern,
       codePattern: context.code,
+      file: context.file,
+      symbol: context.symbol,
       occurrences: 1,
       firstSeen: new Date(),
       lastSeen: new Date(),
@@ -384,6 +396,49 @@ export class ErrorMemoryService implements IErrorMemoryService {
     return ['syntax', 'import'].includes(category);
   }
 
+  /**
+   * Score how relevant a pattern is to a task's targets and intent keywords
+   */
+  private scoreRelevance(pattern: ErrorPattern, keywords: Set<string>, targets: string[]): number {
+    const file = pattern.file ? this.normalizePath(pattern.file.toLowerCase()) : undefined;
+    const fileDir = file ? file.slice(0, file.lastIndexOf('/') + 1) : '';
+    const symbol = pattern.symbol?.toLowerCase();
+    let score = 0;
+
+    for (const target of targets) {
+      if (file && (target === file || target.endsWith(`/${file}`))) {
+        score += 3;
+      } else if (fileDir && target.slice(0, target.lastIndexOf('/') + 1).endsWith(fileDir)) {
+        score += 1;
+      }
+      if (symbol && target === symbol) {
+        score += 3;
+      }
+      if (pattern.codePattern?.toLowerCase().includes(target)) {
+        score += 1;
+      }
+    }
+
+    if (symbol && keywords.has(symbol)) {
+      score += 2;
+    }
+
+    const message = pattern.messagePattern.toLowerCase();
+    const matches = [...keywords].filter((keyword) => message.includes(keyword)).length;
+    if (matches >= MIN_KEYWORD_MATCHES) {
+      score += matches;
+    }
+
+    return score;
+  }
+
+  /**
+   * Use forward slashes and drop a leading ./ so paths compare by suffix
+   */
+  private normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^\.\//, '');
+  }
+
   /**
    * Calculate string similarity (Jaccard index)
    */
@@ -351,8 +351,7 @@ export class KnowledgeStore implements IKnowledgeStore {
       if (!result.ok) return result;
       if (!result.value) return Ok(null);
 
-      const pattern = JSON.parse(result.value.pattern) as ErrorPattern;
-      return Ok(pattern);
+      return Ok(this.deserializePattern(result.value.pattern));
     } catch (error) {
       return Err(
         new AppError('INFRASTRUCTURE', `Failed to get pattern: ${(error as Error).message}`)
@@ -371,7 +370,7 @@ export class KnowledgeStore implements IKnowledgeStore {
 
       if (!result.ok) return result;
 
-      const patterns = result.value.map((row) => JSON.parse(row.pattern) as ErrorPattern);
+      const patterns = result.value.map((row) => this.deserializePattern(row.pattern));
       return Ok(patterns);
     } catch (error) {
       return Err(
@@ -438,6 +437,18 @@ export class KnowledgeStore implements IKnowledgeStore {
     };
   }
 
+  private deserializePattern(data: string): ErrorPattern {
+    const obj = JSON.parse(data) as Omit<ErrorPattern, 'firstSeen' | 'lastSeen'> & {
+      firstSeen: string;
+      lastSeen: string;
+    };
+    return {
+      ...obj,
+      firstSeen: new Date(obj.firstSeen),
+      lastSeen: new Date(obj.lastSeen),
+    };
+  }
+
   private serializeIndex(index: SemanticIndex): string {
     // Convert Maps to arrays for JSON serialization
     const serializable = {
@@ -5,6 +5,7 @@
  * - TypeScript/JavaScript: Uses TypeScript compiler API
  * - Other languages: Regex-based pattern matching
  * - Fallback: Line-based chunking
+ * - Region-level conflict analysis between two edits of the same base
  */
 
 import * as ts from 'typescript';
@@ -12,12 +13,15 @@ import {
   ISemanticAnalyzerService,
   CodeRegion,
   RegionType,
+  RegionConflict,
+  RegionConflictKind,
   FilePath,
   LineNumber,
   toLineNumber,
   ILogger,
 } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { diffLines, LineHunk } from '../utils';
 
 /** Language configuration */
 interface LanguageConfig {
@@ -90,6 +94,18 @@ const LANGUAGE_CONFIGS: Record<string, LanguageConfig> = {
   },
 };
 
+/**
+ * Region types that name a symbol. Other regions (imports, exports, line
+ * chunks) only conflict where the edits themselves overlap.
+ */
+const SYMBOL_REGION_TYPES: ReadonlySet<RegionType> = new Set<RegionType>([
+  'type_definition',
+  'interface',
+  'class',
+  'function',
+  'variable',
+]);
+
 /** Cache entry for file analysis */
 interface CacheEntry {
   regions: CodeRegion[];
@@ -243,6 +259,43 @@ export class SemanticAnalyzerService implements ISemanticAnalyzerService {
     });
   }
 
+  /**
+   * Find region pairs that conflict between two modifications of the same base
+   */
+  findRegionConflicts(
+    filePath: FilePath,
+    baseContent: string,
+    content1: string,
+    content2: string
+  ): RegionConflict[] {
+    const regions = this.topLevelRegions(this.analyzeFile(filePath, baseContent));
+    const baseLines = baseContent.split('\n');
+    const hunks1 = diffLines(baseLines, content1.split('\n'));
+    const hunks2 = diffLines(baseLines, content2.split('\n'));
+
+    const changed1 = regions.filter((region) => hunks1.some((hunk) => this.hunkTouches(hunk, region)));
+    const changed2 = regions.filter((region) => hunks2.some((hunk) => this.hunkTouches(hunk, region)));
+
+    const conflicts: RegionConflict[] = [];
+    for (const region1 of changed1) {
+      for (const region2 of changed2) {
+        const kind = this.getConflictKind(region1, region2, hunks1, hunks2);
+        if (kind) {
+          conflicts.push({ kind, region1, region2 });
+        }
+      }
+    }
+
+    this.logger?.debug('Region conflicts analyzed', {
+      filePath,
+      changed1: changed1.length,
+      changed2: changed2.length,
+      conflicts: conflicts.length,
+    });
+
+    return conflicts;
+  }
+
   /**
    * Check if a file type is supported for analysis
    */
@@ -262,6 +315,91 @@ export class SemanticAnalyzerService implements ISemanticAnalyzerService {
     return extensions;
   }
 
+  /**
+   * Decide whether two changed regions conflict
+   */
+  private getConflictKind(
+    region1: CodeRegion,
+    region2: CodeRegion,
+    hunks1: LineHunk[],
+    hunks2: LineHunk[]
+  ): RegionConflictKind | null {
+    if (!SYMBOL_REGION_TYPES.has(region1.type) || !SYMBOL_REGION_TYPES.has(region2.type)) {
+      if (region1.id !== region2.id) {
+        return null;
+      }
+      const overlapping = hunks1.some(
+        (h1) => this.hunkTouches(h1, region1) && hunks2.some((h2) => this.hunksOverlap(h1, h2))
+      );
+      return overlapping ? 'overlapping_lines' : null;
+    }
+
+    if (region1.id === region2.id) {
+      return 'same_region';
+    }
+
+    // A symbol and a region referencing it must be merged together
+    if (region1.dependencies.includes(region2.name) || region2.dependencies.includes(region1.name)) {
+      return 'dependency';
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop regions nested inside another region (e.g. locals of a function)
+   */
+  private topLevelRegions(regions: CodeRegion[]): CodeRegion[] {
+    return regions.filter((inner) =>
+      !regions.some((outer) => {
+        const outerStart = outer.startLine as number;
+        const outerEnd = outer.endLine as number;
+        const innerStart = inner.startLine as number;
+        const innerEnd = inner.endLine as number;
+        return outer !== inner &&
+          outerStart <= innerStart &&
+          innerEnd <= outerEnd &&
+          (outerStart < innerStart || innerEnd < outerEnd);
+      })
+    );
+  }
+
+  /**
+   * Check if a hunk changes a region. Insertions only count when they fall
+   * between two lines of the region, so adding code next to a symbol does not touch it.
+   */
+  private hunkTouches(hunk: LineHunk, region: CodeRegion): boolean {
+    // Region as a 0-based half-open range of base lines
+    const start = (region.startLine as number) - 1;
+    const end = region.endLine as number;
+
+    if (hunk.baseStart === hunk.baseEnd) {
+      return hunk.baseStart > start && hunk.baseStart < end;
+    }
+    return hunk.baseStart < end && hunk.baseEnd > start;
+  }
+
+  /**
+   * Check if two hunks edit the same base lines (identical edits do not overlap)
+   */
+  private hunksOverlap(h1: LineHunk, h2: LineHunk): boolean {
+    if (
+      h1.baseStart === h2.baseStart &&
+      h1.baseEnd === h2.baseEnd &&
+      h1.lines.join('\n') === h2.lines.join('\n')
+    ) {
+      return false;
+    }
+    if (h1.baseStart < h2.baseEnd && h2.baseStart < h1.baseEnd) {
+      return true;
+    }
+
+    // An insertion at the edge of another edit has no defined order
+    const insertedAt = (h: LineHunk, other: LineHunk): boolean =>
+      h.baseStart === h.baseEnd && h.baseStart >= other.baseStart && h.baseStart <= other.baseEnd;
+    return insertedAt(h1, h2) || insertedAt(h2, h1);
+  }
+
   /**
    * Analyze TypeScript/JavaScript using the TypeScript compiler
    */
@@ -26,6 +26,8 @@ import {
   ImportInfo,
   ImportSpecifier,
   ExportInfo,
+  CallSite,
+  CallGraph,
   SymbolKind,
   SearchOptions,
   SearchResult,
@@ -98,6 +100,7 @@ export class SemanticIndexService implements ISemanticIndexService {
       const fileSymbols = new Map<RelativePath, AnySymbol[]>();
       const fileImports = new Map<RelativePath, ImportInfo[]>();
       const fileExports = new Map<RelativePath, ExportInfo[]>();
+      const fileCalls = new Map<RelativePath, CallSite[]>();
       const imports = new Map<RelativePath, RelativePath[]>();
       const exports = new Map<RelativePath, RelativePath[]>();
       const calls = new Map<string, string[]>();
@@ -112,6 +115,7 @@ export class SemanticIndexService implements ISemanticIndexService {
             fileSymbols.set(file, result.symbols);
             fileImports.set(file, result.imports);
             fileExports.set(file, result.exports);
+            fileCalls.set(file, result.calls);
 
             // Add to symbol tables
             for (const symbol of result.symbols) {
@@ -130,6 +134,7 @@ export class SemanticIndexService implements ISemanticIndexService {
           this.logger?.warn('Failed to parse file', { file, error });
         }
       }
+      this.buildCallGraph(calls, fileCalls);
 
       const index: SemanticIndex = {
         version: 1,
@@ -138,6 +143,7 @@ export class SemanticIndexService implements ISemanticIndexService {
         fileSymbols,
         fileImports,
         fileExports,
+        fileCalls,
         imports,
         exports,
         calls,
@@ -185,6 +191,8 @@ export class SemanticIndexService implements ISemanticIndexService {
         this._index.fileSymbols.set(path, result.symbols);
         this._index.fileImports.set(path, result.imports);
         this._index.fileExports.set(path, result.exports);
+        this._index.fileCalls.set(path, result.calls);
+        this.buildCallGraph(this._index.calls, this._index.fileCalls);
 
         for (const symbol of result.symbols) {
           this.addToSymbolTable(this._index.symbols, symbol);
@@ -209,6 +217,9 @@ export class SemanticIndexService implements ISemanticIndexService {
     this._index.fileSymbols.delete(path);
     this._index.fileImports.delete(path);
     this._index.fileExports.delete(path);
+    if (this._index.fileCalls.delete(path)) {
+      this.buildCallGraph(this._index.calls, this._index.fileCalls);
+    }
 
     // Remove from symbol tables
     for (const symbol of oldSymbols) {
@@ -267,14 +278,46 @@ export class SemanticIndexService implements ISemanticIndexService {
     return this._index.fileImports.get(path) ?? [];
   }
 
+  getImporters(path: RelativePath): RelativePath[] {
+    if (!this._index) {
+      return [];
+    }
+
+    const target = this.stripExtension(path as string);
+    const importers: RelativePath[] = [];
+    for (const [file, imports] of this._index.fileImports) {
+      const importsTarget = imports.some((imp) => {
+        if (!imp.source.startsWith('.')) {
+          return false;
+        }
+        const dir = this.fileSystem.dirname(file as unknown as FilePath) as string;
+        const resolved = this.stripExtension(this.fileSystem.join(dir, imp.source) as string);
+        return resolved === target || `${resolved}/index` === target;
+      });
+      if (importsTarget && file !== path) {
+        importers.push(file);
+      }
+    }
+    return importers;
+  }
+
   getExports(path: RelativePath): ExportInfo[] {
     if (!this._index) return [];
     return this._index.fileExports.get(path) ?? [];
   }
 
-  getCallers(symbol: string): SourceLocation[] {
-    // TODO: Implement call graph analysis
-    return [];
+  getCallers(symbol: string): CallSite[] {
+    if (!this._index) {
+      return [];
+    }
+
+    // Calls are indexed by name, so methods match calls of any member with that name
+    const callee = symbol.slice(symbol.lastIndexOf('.') + 1);
+    const callers: CallSite[] = [];
+    for (const calls of this._index.fileCalls.values()) {
+      callers.push(...calls.filter((call) => call.callee === callee));
+    }
+    return callers;
   }
 
   getCallees(symbol: string): string[] {
@@ -374,6 +417,25 @@ export class SemanticIndexService implements ISemanticIndexService {
     });
   }
 
+  /**
+   * Rebuild the caller to callees graph from the call sites of every file
+   */
+  private buildCallGraph(graph: CallGraph, fileCalls: Map<RelativePath, CallSite[]>): void {
+    graph.clear();
+    for (const calls of fileCalls.values()) {
+      for (const call of calls) {
+        if (!call.caller) {
+          continue;
+        }
+        const callees = graph.get(call.caller) ?? [];
+        if (!callees.includes(call.callee)) {
+          callees.push(call.callee);
+        }
+        graph.set(call.caller, callees);
+      }
+    }
+  }
+
   /**
    * Parse a single file and extract symbols
    */
@@ -383,6 +445,7 @@ export class SemanticIndexService implements ISemanticIndexService {
     symbols: AnySymbol[];
     imports: ImportInfo[];
     exports: ExportInfo[];
+    calls: CallSite[];
   } | null> {
     const fullPath = this.fileSystem.join(this.projectRoot as string, relativePath as string);
 
@@ -402,8 +465,22 @@ export class SemanticIndexService implements ISemanticIndexService {
     const symbols: AnySymbol[] = [];
     const imports: ImportInfo[] = [];
     const exports: ExportInfo[] = [];
+    const calls: CallSite[] = [];
+    const callers: string[] = [];
 
     const visit = (node: ts.Node): void => {
+      // Extract calls, attributed to the innermost named function or method
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const callee = this.getCalleeName(node.expression);
+        if (callee) {
+          calls.push({
+            caller: callers[callers.length - 1],
+            callee,
+            location: this.createLocation(node, sourceFile, relativePath),
+          });
+        }
+      }
+
       // Extract imports
       if (ts.isImportDeclaration(node)) {
         const importInfo = this.extractImport(node, sourceFile, relativePath);
@@ -452,12 +529,58 @@ export class SemanticIndexService implements ISemanticIndexService {
         if (enumSymbol) symbols.push(enumSymbol);
       }
 
+      const caller = this.getCallerName(node);
+      if (caller) {
+        callers.push(caller);
+      }
       ts.forEachChild(node, visit);
+      if (caller) {
+        callers.pop();
+      }
     };
 
     visit(sourceFile);
 
-    return { symbols, imports, exports };
+    return { symbols, imports, exports, calls };
+  }
+
+  /**
+   * Name of a called expression: `run` for `run()`, `this.run()` and `a.b.run()`
+   */
+  private getCalleeName(expression: ts.Expression): string | undefined {
+    if (ts.isIdentifier(expression)) {
+      return expression.text;
+    }
+    if (ts.isPropertyAccessExpression(expression)) {
+      return expression.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Name calls inside a node are attributed to, when it is a named function or method
+   */
+  private getCallerName(node: ts.Node): string | undefined {
+    if (ts.isFunctionDeclaration(node)) {
+      return node.name?.text;
+    }
+    if (
+      (ts.isMethodDeclaration(node) || ts.isGetAccessor(node) || ts.isSetAccessor(node) || ts.isConstructorDeclaration(node)) &&
+      ts.isClassLike(node.parent)
+    ) {
+      const className = node.parent.name?.text ?? '(anonymous)';
+      const memberName = ts.isConstructorDeclaration(node) ? 'constructor' : node.name.getText();
+      return `${className}.${memberName}`;
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))
+    ) {
+      return node.name.text;
+    }
+    return undefined;
   }
 
   /**
@@ -1008,6 +1131,15 @@ export class SemanticIndexService implements ISemanticIndexService {
   /**
    * Resolve import path to relative path
    */
+  /**
+   * Path without a source extension; imports may name the compiled `.js` file
+   */
+  private stripExtension(path: string): string {
+    const normalized = path.replace(/\\/g, '/');
+    const ext = PARSEABLE_EXTENSIONS.find((e) => normalized.endsWith(e));
+    return ext ? normalized.slice(0, -ext.length) : normalized;
+  }
+
   private resolveImportPath(from: RelativePath, importSource: string): RelativePath | null {
     // Skip node_modules imports
     if (!importSource.startsWith('.')) return null;
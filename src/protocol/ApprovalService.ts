@@ -148,6 +148,7 @@ export class ApprovalService implements IApprovalService {
       automatic: false,
       action: response.action,
       modifications: response.modifications,
+      comment: response.comment,
     };
 
     // Resolve waiting request
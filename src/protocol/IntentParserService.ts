@@ -6,18 +6,93 @@
  * - Target extraction (files, symbols, concepts)
  * - Constraint detection (scope limits, style requirements)
  * - Confidence scoring
+ * - Model-based classification with keyword patterns as the offline fallback
+ * - Target resolution against the semantic index
  */
 
 import {
   IIntentParserService,
+  ILLMAdapter,
+  ISemanticIndexService,
   UserIntent,
   UserIntentType,
   UserIntentTarget,
   UserIntentConstraint,
+  IntentClassifierConfig,
   FilePath,
   SymbolKind,
   ILogger,
 } from '../types';
+import { JsonSchema, validateJson } from '../utils';
+
+/** Default classifier configuration */
+export const DEFAULT_INTENT_CLASSIFIER_CONFIG: IntentClassifierConfig = {
+  mode: 'llm',
+  minConfidence: 0.5,
+};
+
+/** Max tokens of the classifier's answer */
+const CLASSIFIER_MAX_TOKENS = 512;
+
+/** Confidence of a target named by the classifier before resolution */
+const CLASSIFIED_TARGET_CONFIDENCE = 0.7;
+
+/** Confidence of targets found in, and missing from, the semantic index */
+const RESOLVED_TARGET_CONFIDENCE = 0.9;
+const UNRESOLVED_TARGET_CONFIDENCE = 0.4;
+
+/** Schema of the classifier's answer */
+const INTENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['type', 'targets', 'constraints', 'confidence'],
+  properties: {
+    type: { type: 'string', enum: ['create', 'modify', 'delete', 'analyze', 'query'] },
+    targets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'name'],
+        properties: {
+          type: { type: 'string', enum: ['file', 'symbol', 'concept'] },
+          name: { type: 'string' },
+          symbolKind: { type: 'string', enum: ['function', 'class', 'interface', 'type', 'variable', 'enum'] },
+        },
+      },
+    },
+    constraints: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'value'],
+        properties: {
+          type: { type: 'string', enum: ['scope', 'style', 'dependency'] },
+          value: { type: 'string' },
+          isNegative: { type: 'boolean' },
+        },
+      },
+    },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    clarification: { type: 'string' },
+  },
+};
+
+/** Classifier answer, once checked against INTENT_SCHEMA */
+interface ClassifierAnswer {
+  type: UserIntentType;
+  targets: Array<{ type: UserIntentTarget['type']; name: string; symbolKind?: string }>;
+  constraints: Array<{ type: UserIntentConstraint['type']; value: string; isNegative?: boolean }>;
+  confidence: number;
+  clarification?: string;
+}
+
+/** What each intent type asks for, used in clarifying questions */
+const INTENT_DESCRIPTIONS: Record<UserIntentType, string> = {
+  create: 'add new code',
+  modify: 'change existing code',
+  delete: 'remove code',
+  analyze: 'analyze the code',
+  query: 'answer a question',
+};
 
 /** Patterns for intent type detection */
 const INTENT_PATTERNS: Record<UserIntentType, RegExp[]> = {
@@ -90,9 +165,39 @@ const CONSTRAINT_PATTERNS = {
  */
 export class IntentParserService implements IIntentParserService {
   private readonly logger?: ILogger;
-
-  constructor(logger?: ILogger) {
+  private readonly llmAdapter?: ILLMAdapter;
+  private readonly semanticIndex?: ISemanticIndexService;
+  private readonly config: IntentClassifierConfig;
+
+  constructor(
+    logger?: ILogger,
+    options?: {
+      llmAdapter?: ILLMAdapter;
+      semanticIndex?: ISemanticIndexService;
+      config?: Partial<IntentClassifierConfig>;
+    }
+  ) {
     this.logger = logger?.child('IntentParserService');
+    this.llmAdapter = options?.llmAdapter;
+    this.semanticIndex = options?.semanticIndex;
+    this.config = { ...DEFAULT_INTENT_CLASSIFIER_CONFIG, ...options?.config };
+  }
+
+  async classify(userMessage: string, context?: { currentFile?: FilePath }): Promise<UserIntent> {
+    const classified =
+      this.config.mode === 'llm' ? await this.classifyWithModel(userMessage, context) : null;
+    const intent = this.resolveTargets(classified ?? this.parse(userMessage, context));
+
+    if (intent.confidence >= this.config.minConfidence) {
+      return { ...intent, clarification: undefined };
+    }
+
+    this.logger?.info('Intent unclear, asking for clarification', {
+      type: intent.type,
+      confidence: intent.confidence,
+      source: intent.source,
+    });
+    return { ...intent, clarification: intent.clarification ?? this.buildClarification(intent) };
   }
 
   parse(userMessage: string, context?: { currentFile?: FilePath }): UserIntent {
@@ -110,6 +215,7 @@ export class IntentParserService implements IIntentParserService {
       confidence,
       rawMessage: userMessage,
       keywords: this.extractKeywords(userMessage),
+      source: 'regex',
     };
 
     this.logger?.info('Intent parsed', {
@@ -256,6 +362,181 @@ export class IntentParserService implements IIntentParserService {
     return intent.confidence;
   }
 
+  /**
+   * Ask the model for a structured intent; null when it fails or answers off-schema
+   */
+  private async classifyWithModel(
+    message: string,
+    context?: { currentFile?: FilePath }
+  ): Promise<UserIntent | null> {
+    if (!this.llmAdapter) {
+      return null;
+    }
+
+    try {
+      const response = await this.llmAdapter.complete({
+        level: 'worker',
+        model: this.config.model,
+        systemPrompt: this.buildClassifierSystemPrompt(),
+        prompt: context?.currentFile
+          ? `Current file: ${context.currentFile}\n\nRequest:\n${message}`
+          : `Request:\n${message}`,
+        maxTokens: CLASSIFIER_MAX_TOKENS,
+        temperature: 0,
+      });
+
+      if (!response.ok) {
+        this.logger?.warn('Intent classification failed, using patterns', {
+          error: response.error.message,
+        });
+        return null;
+      }
+
+      const answer = this.parseAnswer(response.value.content);
+      if (!answer) {
+        return null;
+      }
+
+      this.logger?.info('Intent classified', {
+        type: answer.type,
+        targetCount: answer.targets.length,
+        confidence: answer.confidence,
+      });
+
+      return {
+        type: answer.type,
+        targets: answer.targets.map((t) => ({
+          type: t.type,
+          name: t.name,
+          symbolKind: t.symbolKind,
+          confidence: CLASSIFIED_TARGET_CONFIDENCE,
+        })),
+        constraints: answer.constraints.map((c) => ({
+          type: c.type,
+          value: c.value,
+          isNegative: c.isNegative ?? false,
+        })),
+        confidence: answer.confidence,
+        rawMessage: message,
+        keywords: this.extractKeywords(message),
+        source: 'llm',
+        clarification: answer.clarification?.trim() ? answer.clarification.trim() : undefined,
+      };
+    } catch (error) {
+      this.logger?.warn('Intent classification failed, using patterns', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Instructions for the classifier, with the answer schema
+   */
+  private buildClassifierSystemPrompt(): string {
+    return `You classify requests made to a coding assistant working in a software project.
+
+Answer with one JSON object matching this JSON schema, and nothing else:
+${JSON.stringify(INTENT_SCHEMA)}
+
+Types:
+- query: answer a question without changing code
+- analyze: review, investigate or explain code
+- create, modify, delete: change code
+When a request asks both for an answer and for a change, classify it as the change.
+
+Targets are the files, code symbols (functions, classes, ...) and concepts the request is about, named as in the request.
+Constraints are scope limits, style requirements and dependencies to use or avoid.
+confidence is how sure you are of the type, from 0 to 1. When it is below ${this.config.minConfidence}, put one short question for the user in clarification.`;
+  }
+
+  /**
+   * Extract the JSON answer and check it against the schema
+   */
+  private parseAnswer(content: string): ClassifierAnswer | null {
+    const json = content.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      this.logger?.warn('Intent classifier returned no JSON, using patterns');
+      return null;
+    }
+
+    let answer: unknown;
+    try {
+      answer = JSON.parse(json);
+    } catch {
+      this.logger?.warn('Intent classifier returned invalid JSON, using patterns');
+      return null;
+    }
+
+    const errors = validateJson(answer, INTENT_SCHEMA);
+    if (errors.length > 0) {
+      this.logger?.warn('Intent classifier answer does not match the schema, using patterns', { errors });
+      return null;
+    }
+    return answer as ClassifierAnswer;
+  }
+
+  /**
+   * Look targets up in the semantic index: named symbols get their kind and file,
+   * concepts the symbol they name
+   */
+  private resolveTargets(intent: UserIntent): UserIntent {
+    const index = this.semanticIndex;
+    if (!index) {
+      return intent;
+    }
+
+    const targets: UserIntentTarget[] = [];
+    for (const target of intent.targets) {
+      if (target.type === 'symbol') {
+        const [symbol] = index.findSymbol(target.name, target.symbolKind as SymbolKind | undefined);
+        if (symbol) {
+          targets.push({
+            ...target,
+            symbolKind: symbol.kind,
+            file: symbol.location.file as string,
+            confidence: Math.max(target.confidence, RESOLVED_TARGET_CONFIDENCE),
+          });
+        } else {
+          // Symbols to be created are not expected to exist yet
+          targets.push(
+            intent.type === 'create'
+              ? target
+              : { ...target, confidence: Math.min(target.confidence, UNRESOLVED_TARGET_CONFIDENCE) }
+          );
+        }
+        continue;
+      }
+
+      targets.push(target);
+      if (target.type === 'concept') {
+        const [match] = index.search(target.name.replace(/\s+/g, ''), { limit: 1 });
+        if (match && !intent.targets.some((t) => t.name === match.symbol.name)) {
+          targets.push({
+            type: 'symbol',
+            name: match.symbol.name,
+            symbolKind: match.symbol.kind,
+            file: match.symbol.location.file as string,
+            confidence: (match.score / 100) * RESOLVED_TARGET_CONFIDENCE,
+          });
+        }
+      }
+    }
+
+    targets.sort((a, b) => b.confidence - a.confidence);
+    return { ...intent, targets };
+  }
+
+  /**
+   * Clarifying question for an intent the classifier is unsure of
+   */
+  private buildClarification(intent: UserIntent): string {
+    const target = intent.targets[0]?.name;
+    return `I'm not sure I understood. Do you want me to ${INTENT_DESCRIPTIONS[intent.type]}${
+      target ? ` (${target})` : ''
+    }? Please confirm, or describe what you'd like in more detail.`;
+  }
+
   /**
    * Detect the primary intent type
    */
@@ -410,6 +691,13 @@ export class IntentParserService implements IIntentParserService {
 /**
  * Create an intent parser service
  */
-export function createIntentParserService(logger?: ILogger): IIntentParserService {
-  return new IntentParserService(logger);
+export function createIntentParserService(
+  logger?: ILogger,
+  options?: {
+    llmAdapter?: ILLMAdapter;
+    semanticIndex?: ISemanticIndexService;
+    config?: Partial<IntentClassifierConfig>;
+  }
+): IIntentParserService {
+  return new IntentParserService(logger, options);
 }
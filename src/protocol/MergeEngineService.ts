@@ -2,7 +2,8 @@
  * Merge Engine Service
  *
  * Handles conflict detection and resolution across virtual branches:
- * - Detects conflicts between active branches
+ * - Detects conflicts between active branches per code region
+ * - Merges files changed in independent regions without a conflict
  * - Three-way merge for automatic resolution
  * - AI-assisted resolution using Lord level (Opus)
  * - Manual fallback with conflict markers
@@ -19,10 +20,11 @@ import {
   MergeInput,
   VirtualBranch,
   CodeRegion,
+  RegionConflict,
   ConflictMarker,
   ConflictId,
   FilePath,
-  LineNumber,
+  toLineNumber,
   createConflictId,
   AsyncResult,
   Ok,
@@ -34,6 +36,7 @@ import {
 
 // Import FileChange from conflict module directly
 import { FileChange } from '../types/conflict';
+import { mergeTexts } from '../utils';
 
 /** Default config for merge engine */
 export interface MergeEngineConfig {
@@ -86,7 +89,8 @@ export class MergeEngineService implements IMergeEngineService {
   }
 
   /**
-   * Detect conflicts across all active branches
+   * Detect conflicts across all active branches.
+   * Files changed in independent regions are left to mergeIndependentChanges.
    */
   detectConflicts(): MergeConflict[] {
     const activeBranches = this.branchService.getActiveBranches();
@@ -94,28 +98,18 @@ export class MergeEngineService implements IMergeEngineService {
 
     this.logger?.debug('Detecting conflicts', { branchCount: activeBranches.length });
 
-    // Compare each pair of branches
-    for (let i = 0; i < activeBranches.length; i++) {
-      for (let j = i + 1; j < activeBranches.length; j++) {
-        const branch1 = activeBranches[i];
-        const branch2 = activeBranches[j];
+    for (const [branch1, branch2] of this.getBranchPairs(activeBranches)) {
+      const conflictingFiles = this.branchService.getConflictingFiles(branch1.id, branch2.id);
 
-        // Skip if either branch is undefined (shouldn't happen but TypeScript requires check)
-        if (!branch1 || !branch2) continue;
-
-        // Get conflicting files
-        const conflictingFiles = this.branchService.getConflictingFiles(
-          branch1.id,
-          branch2.id
-        );
+      for (const filePath of this.getSharedFiles(branch1, branch2)) {
+        if (!conflictingFiles.includes(filePath) && this.mergeIndependentRegions(branch1, branch2, filePath)) {
+          continue;
+        }
 
-        // Create conflict for each file
-        for (const filePath of conflictingFiles) {
-          const conflict = this.createConflict(branch1, branch2, filePath);
-          if (conflict) {
-            detectedConflicts.push(conflict);
-            this.conflicts.set(conflict.id, conflict);
-          }
+        const conflict = this.createConflict(branch1, branch2, filePath);
+        if (conflict) {
+          detectedConflicts.push(conflict);
+          this.conflicts.set(conflict.id, conflict);
         }
       }
     }
@@ -136,6 +130,38 @@ export class MergeEngineService implements IMergeEngineService {
     return detectedConflicts;
   }
 
+  /**
+   * Merge files changed by several branches in independent regions. Each branch keeps
+   * its own change; the second one is rebased onto the merged result.
+   */
+  mergeIndependentChanges(): FilePath[] {
+    const mergedFiles: FilePath[] = [];
+
+    for (const [branch1, branch2] of this.getBranchPairs(this.branchService.getActiveBranches())) {
+      const conflictingFiles = this.branchService.getConflictingFiles(branch1.id, branch2.id);
+
+      for (const filePath of this.getSharedFiles(branch1, branch2)) {
+        const merged = conflictingFiles.includes(filePath)
+          ? null
+          : this.mergeIndependentRegions(branch1, branch2, filePath);
+        if (!merged) {
+          continue;
+        }
+
+        this.rebaseSecondBranch(branch1, branch2, filePath, merged.content);
+        mergedFiles.push(filePath);
+
+        this.logger?.info('Merged independent region changes', {
+          filePath,
+          branch1Id: branch1.id,
+          branch2Id: branch2.id,
+        });
+      }
+    }
+
+    return mergedFiles;
+  }
+
   /**
    * Create a conflict between two branches for a file
    */
@@ -155,12 +181,23 @@ export class MergeEngineService implements IMergeEngineService {
     // Get base content (from original content or empty)
     const baseContent = change1.originalContent ?? change2.originalContent ?? '';
 
-    // Analyze conflicting regions
-    const regions1 = this.semanticAnalyzer.analyzeFile(filePath, change1.modifiedContent);
-    const regions2 = this.semanticAnalyzer.analyzeFile(filePath, change2.modifiedContent);
-
-    // Find overlapping regions
-    const conflictingRegions = this.findOverlappingRegions(regions1, regions2);
+    // Region pairs only exist when both branches modified the same base
+    const regionConflicts: RegionConflict[] =
+      change1.changeType === 'modify' && change2.changeType === 'modify'
+        ? this.semanticAnalyzer.findRegionConflicts(
+            filePath,
+            baseContent,
+            change1.modifiedContent,
+            change2.modifiedContent
+          )
+        : [];
+
+    const conflictingRegions = regionConflicts.length > 0
+      ? this.uniqueRegions(regionConflicts.flatMap((c) => [c.region1, c.region2]))
+      : this.findOverlappingRegions(
+          this.semanticAnalyzer.analyzeFile(filePath, change1.modifiedContent),
+          this.semanticAnalyzer.analyzeFile(filePath, change2.modifiedContent)
+        );
 
     const conflict: MergeConflict = {
       id: createConflictId(),
@@ -169,6 +206,7 @@ export class MergeEngineService implements IMergeEngineService {
       branch1,
       branch2,
       conflictingRegions,
+      regionConflicts,
     };
 
     this.logger?.debug('Conflict created', {
@@ -177,6 +215,7 @@ export class MergeEngineService implements IMergeEngineService {
       branch1Id: branch1.id,
       branch2Id: branch2.id,
       regionCount: conflictingRegions.length,
+      symbols: conflictingRegions.map((r) => r.name),
     });
 
     return conflict;
@@ -263,25 +302,7 @@ export class MergeEngineService implements IMergeEngineService {
       strategy: resolution.strategy,
     });
 
-    // Create a file change with the resolved content
-    const resolvedChange: FileChange = {
-      filePath: conflict.filePath,
-      originalContent: conflict.baseContent,
-      modifiedContent: resolution.resolvedContent,
-      diff: this.createUnifiedDiff(conflict.baseContent, resolution.resolvedContent),
-      changeType: 'modify',
-    };
-
-    // Update the first branch with the resolved change
-    this.branchService.recordChange(conflict.branch1.id, resolvedChange);
-
-    // Remove the change from the second branch (it's been merged)
-    const branch2ChangeIndex = conflict.branch2.changes.findIndex(
-      (c) => c.filePath === conflict.filePath
-    );
-    if (branch2ChangeIndex >= 0) {
-      conflict.branch2.changes.splice(branch2ChangeIndex, 1);
-    }
+    this.rebaseSecondBranch(conflict.branch1, conflict.branch2, conflict.filePath, resolution.resolvedContent);
 
     // Remove the conflict
     this.conflicts.delete(resolution.conflictId);
@@ -322,108 +343,26 @@ export class MergeEngineService implements IMergeEngineService {
   }
 
   /**
-   * Three-way merge implementation
+   * Three-way merge (diff3): non-overlapping changes merge cleanly,
+   * overlapping ones are written with conflict markers including the base
    */
   private threeWayMerge(input: MergeInput): MergeResult {
-    const baseLines = input.base.split('\n');
-    const oursLines = input.ours.split('\n');
-    const theirsLines = input.theirs.split('\n');
-
-    const result: string[] = [];
-    const conflicts: ConflictMarker[] = [];
-
-    // Simple LCS-based merge
-    let baseIdx = 0;
-    let oursIdx = 0;
-    let theirsIdx = 0;
-
-    while (baseIdx < baseLines.length || oursIdx < oursLines.length || theirsIdx < theirsLines.length) {
-      const baseLine = baseLines[baseIdx];
-      const oursLine = oursLines[oursIdx];
-      const theirsLine = theirsLines[theirsIdx];
-
-      // All same - advance all
-      if (baseLine === oursLine && baseLine === theirsLine) {
-        if (baseLine !== undefined) {
-          result.push(baseLine);
-        }
-        baseIdx++;
-        oursIdx++;
-        theirsIdx++;
-        continue;
-      }
-
-      // Only ours changed
-      if (baseLine === theirsLine && baseLine !== oursLine) {
-        if (oursLine !== undefined) {
-          result.push(oursLine);
-        }
-        if (baseLine !== undefined) baseIdx++;
-        oursIdx++;
-        if (theirsLine !== undefined) theirsIdx++;
-        continue;
-      }
-
-      // Only theirs changed
-      if (baseLine === oursLine && baseLine !== theirsLine) {
-        if (theirsLine !== undefined) {
-          result.push(theirsLine);
-        }
-        if (baseLine !== undefined) baseIdx++;
-        if (oursLine !== undefined) oursIdx++;
-        theirsIdx++;
-        continue;
-      }
-
-      // Both changed - conflict
-      const conflictStart = result.length + 1;
-      const oursStart = conflictStart + 1;
-
-      result.push('<<<<<<< ours');
-      const oursConflictStart = result.length + 1;
-
-      // Add ours lines until we find a matching line
-      while (oursIdx < oursLines.length && oursLines[oursIdx] !== baseLine) {
-        const line = oursLines[oursIdx];
-        if (line !== undefined) {
-          result.push(line);
-        }
-        oursIdx++;
-      }
-
-      const oursEnd = result.length;
-      result.push('=======');
-      const theirsStart = result.length + 1;
-
-      // Add theirs lines until we find a matching line
-      while (theirsIdx < theirsLines.length && theirsLines[theirsIdx] !== baseLine) {
-        const line = theirsLines[theirsIdx];
-        if (line !== undefined) {
-          result.push(line);
-        }
-        theirsIdx++;
-      }
-
-      const theirsEnd = result.length;
-      result.push('>>>>>>> theirs');
-      const conflictEnd = result.length;
-
-      conflicts.push({
-        startLine: conflictStart as LineNumber,
-        endLine: conflictEnd as LineNumber,
-        oursStart: oursConflictStart as LineNumber,
-        oursEnd: oursEnd as LineNumber,
-        theirsStart: theirsStart as LineNumber,
-        theirsEnd: theirsEnd as LineNumber,
-      });
-
-      // Skip base line if we have one
-      if (baseLine !== undefined) baseIdx++;
-    }
+    const merged = mergeTexts(input.base, input.ours, input.theirs);
+
+    const conflicts: ConflictMarker[] = merged.conflicts.map((c) => ({
+      startLine: toLineNumber(c.startLine),
+      endLine: toLineNumber(c.endLine),
+      oursStart: toLineNumber(c.oursStart),
+      oursEnd: toLineNumber(c.oursEnd),
+      baseStart: toLineNumber(c.baseStart),
+      baseEnd: toLineNumber(c.baseEnd),
+      theirsStart: toLineNumber(c.theirsStart),
+      theirsEnd: toLineNumber(c.theirsEnd),
+    }));
 
     return {
       success: conflicts.length === 0,
-      content: result.join('\n'),
+      content: merged.content,
       conflicts,
     };
   }
@@ -444,6 +383,7 @@ export class MergeEngineService implements IMergeEngineService {
 
     try {
       const response = await this.llmAdapter.complete({
+        level: 'overlord',
         prompt,
         systemPrompt: this.buildMergeSystemPrompt(),
         maxTokens: this.config.aiMergeMaxTokens,
@@ -505,6 +445,7 @@ ${autoResult.content}
 \`\`\`
 
 The automatic merge found ${autoResult.conflicts.length} conflict(s).
+${this.describeRegionConflicts(conflict)}
 
 Please analyze both sets of changes and produce a properly merged version that:
 1. Preserves the intent of both developers' changes
@@ -515,6 +456,22 @@ Please analyze both sets of changes and produce a properly merged version that:
 Output ONLY the merged code wrapped in triple backticks (\`\`\`).`;
   }
 
+  /**
+   * Describe conflicting symbols for the merge prompt
+   */
+  private describeRegionConflicts(conflict: MergeConflict): string {
+    if (conflict.regionConflicts.length === 0) {
+      return '';
+    }
+
+    const lines = conflict.regionConflicts.map((c) =>
+      c.kind === 'dependency'
+        ? `- ${c.region1.name} and ${c.region2.name}: one depends on the other`
+        : `- ${c.region1.name}: changed by both developers`
+    );
+    return `Conflicting symbols:\n${lines.join('\n')}\n`;
+  }
+
   /**
    * Build system prompt for merge AI
    */
@@ -559,6 +516,99 @@ Output format: Return ONLY the merged code wrapped in \`\`\` code blocks.`;
     return response.trim() || null;
   }
 
+  /**
+   * Get files changed by both branches, except ones the second branch already builds on
+   */
+  private getSharedFiles(branch1: VirtualBranch, branch2: VirtualBranch): FilePath[] {
+    return branch1.changes
+      .filter((change1) => {
+        const change2 = branch2.changes.find((c) => c.filePath === change1.filePath);
+        return change2 !== undefined && !this.isRebasedOnto(change2, change1);
+      })
+      .map((c) => c.filePath);
+  }
+
+  /**
+   * Check if a change starts from the content another change produces
+   */
+  private isRebasedOnto(change: FileChange, onto: FileChange): boolean {
+    return change.changeType === 'modify' && change.originalContent === onto.modifiedContent;
+  }
+
+  /**
+   * Get each pair of branches once
+   */
+  private getBranchPairs(branches: VirtualBranch[]): Array<[VirtualBranch, VirtualBranch]> {
+    const pairs: Array<[VirtualBranch, VirtualBranch]> = [];
+    branches.forEach((branch1, i) => {
+      for (const branch2 of branches.slice(i + 1)) {
+        pairs.push([branch1, branch2]);
+      }
+    });
+    return pairs;
+  }
+
+  /**
+   * Merge the changes two branches made to a file in independent regions.
+   * Returns null if the changes cannot be merged without conflict markers.
+   */
+  private mergeIndependentRegions(
+    branch1: VirtualBranch,
+    branch2: VirtualBranch,
+    filePath: FilePath
+  ): { baseContent: string; content: string } | null {
+    const change1 = branch1.changes.find((c) => c.filePath === filePath);
+    const change2 = branch2.changes.find((c) => c.filePath === filePath);
+
+    if (!change1 || !change2 || change1.changeType !== 'modify' || change2.changeType !== 'modify') {
+      return null;
+    }
+
+    const baseContent = change1.originalContent ?? change2.originalContent ?? '';
+    const merged = this.threeWayMerge({
+      base: baseContent,
+      ours: change1.modifiedContent,
+      theirs: change2.modifiedContent,
+    });
+
+    return merged.success ? { baseContent, content: merged.content } : null;
+  }
+
+  /**
+   * Rebase the second branch's change to a file onto the first branch's result, so that
+   * merging the branches in order yields the merged content and each branch keeps its own edits
+   */
+  private rebaseSecondBranch(
+    branch1: VirtualBranch,
+    branch2: VirtualBranch,
+    filePath: FilePath,
+    mergedContent: string
+  ): void {
+    const rebaseContent = branch1.changes.find((c) => c.filePath === filePath)?.modifiedContent ?? '';
+
+    this.branchService.recordChange(branch2.id, {
+      filePath,
+      originalContent: rebaseContent,
+      modifiedContent: mergedContent,
+      diff: this.createUnifiedDiff(rebaseContent, mergedContent),
+      changeType: 'modify',
+    });
+  }
+
+  /**
+   * Deduplicate regions by ID, keeping the first occurrence
+   */
+  private uniqueRegions(regions: CodeRegion[]): CodeRegion[] {
+    const seen = new Set<string>();
+    return regions.filter((r) => {
+      if (seen.has(r.id)) {
+        return false;
+      }
+      seen.add(r.id);
+      return true;
+    });
+  }
+
   /**
    * Find overlapping regions between two sets of regions
    */
@@ -0,0 +1,512 @@
+/**
+ * Mission Git Service
+ *
+ * Records missions in git so agent changes are reviewed like any other:
+ * - Each mission gets its own branch, checked out in the working tree
+ * - Each task's merged changes become a commit referencing the mission and task
+ * - Rolling back a mission drops its commits and branch
+ * - Completed missions can be squashed and described as a pull request
+ *
+ * Missions start from a clean working tree, so the commits hold only agent changes.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import {
+  IMissionGitService,
+  MissionGitBranch,
+  MissionGitConfig,
+  MissionCommit,
+  MissionPullRequest,
+  MissionId,
+  TaskId,
+  FilePath,
+  AsyncResult,
+  Ok,
+  Err,
+  AppError,
+  ILogger,
+} from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/** Git recording used when the configuration gives none */
+export const DEFAULT_MISSION_GIT_CONFIG: MissionGitConfig = {
+  mode: 'off',
+  branchPrefix: 'altercode/',
+  squashOnComplete: false,
+  authorName: 'AlterCode',
+  authorEmail: 'altercode@localhost',
+};
+
+/** Commit message trailers linking commits to missions and tasks */
+const MISSION_TRAILER = 'AlterCode-Mission';
+const TASK_TRAILER = 'AlterCode-Task';
+
+const MAX_SUBJECT_LENGTH = 72;
+
+/** Branch config keys describing a mission branch, so it is found again after a restart */
+const CONFIG_KEYS = {
+  mission: 'altercodeMission',
+  base: 'altercodeBase',
+  baseCommit: 'altercodeBaseCommit',
+  title: 'altercodeTitle',
+} as const;
+
+/** Separates fields in formatted git log output */
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Mission Git Service implementation
+ */
+export class MissionGitService implements IMissionGitService {
+  private readonly projectRoot: string;
+  private readonly logger?: ILogger;
+  private readonly config: MissionGitConfig;
+  private readonly branches: Map<string, MissionGitBranch> = new Map();
+
+  constructor(
+    projectRoot: FilePath,
+    logger?: ILogger,
+    options?: {
+      config?: Partial<MissionGitConfig>;
+    }
+  ) {
+    this.projectRoot = projectRoot as string;
+    this.logger = logger?.child('MissionGitService');
+    this.config = { ...DEFAULT_MISSION_GIT_CONFIG, ...options?.config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.mode !== 'off';
+  }
+
+  async startMission(missionId: MissionId, title: string): AsyncResult<MissionGitBranch | null> {
+    if (!this.isEnabled()) {
+      return Ok(null);
+    }
+
+    try {
+      const head = await this.git(['rev-parse', '--abbrev-ref', 'HEAD']);
+      const existing = await this.findBranch(missionId);
+      if (existing && head === existing.branch) {
+        // Uncommitted changes on the mission branch are the interrupted mission's own
+        this.logger?.info('Resuming mission branch', { missionId, branch: existing.branch });
+        return Ok(existing);
+      }
+
+      // Edits carried over to the mission branch would be committed as agent work
+      // (untracked files are allowed: the extension keeps its own data in the project)
+      const dirty = await this.git(['status', '--porcelain', '--untracked-files=no']);
+      if (dirty) {
+        return Err(new AppError('GIT', 'Working tree has uncommitted changes; commit or stash them before starting a mission'));
+      }
+
+      if (existing) {
+        await this.git(['checkout', '--quiet', existing.branch]);
+        this.logger?.info('Resuming mission branch', { missionId, branch: existing.branch });
+        return Ok(existing);
+      }
+
+      const baseCommit = await this.git(['rev-parse', 'HEAD']);
+      const branch = `${this.config.branchPrefix}${this.slug(title)}${(missionId as string).slice(0, 8)}`;
+      await this.git(['checkout', '--quiet', '-b', branch]);
+
+      const state: MissionGitBranch = {
+        missionId,
+        branch,
+        baseBranch: head === 'HEAD' ? baseCommit : head,
+        baseCommit,
+        title,
+      };
+      await this.saveBranchConfig(state);
+      this.branches.set(missionId, state);
+
+      this.logger?.info('Created mission branch', { missionId, branch });
+      return Ok(state);
+    } catch (error) {
+      return Err(this.toError('Failed to create mission branch', error));
+    }
+  }
+
+  async commitTask(
+    missionId: MissionId,
+    taskId: TaskId,
+    summary: string,
+    files: FilePath[]
+  ): AsyncResult<MissionCommit | null> {
+    const subject = this.subject(summary);
+    const [first = '', ...rest] = summary.trim().split('\n');
+    // A shortened first line is kept whole in the body
+    const body = [first.trim() === subject ? '' : first.trim(), rest.join('\n').trim()].filter(Boolean);
+    const message = [
+      subject,
+      '',
+      ...body.flatMap((paragraph) => [paragraph, '']),
+      `${MISSION_TRAILER}: ${missionId}`,
+      `${TASK_TRAILER}: ${taskId}`,
+    ].join('\n');
+    return this.commit(missionId, taskId, subject, message, files);
+  }
+
+  async commitTaskRollback(
+    missionId: MissionId,
+    taskId: TaskId,
+    files: FilePath[]
+  ): AsyncResult<MissionCommit | null> {
+    const subject = `Roll back changes of task ${taskId}`;
+    const message = [subject, '', `${MISSION_TRAILER}: ${missionId}`, `${TASK_TRAILER}: ${taskId}`].join('\n');
+    return this.commit(missionId, taskId, subject, message, files);
+  }
+
+  async completeMission(missionId: MissionId): AsyncResult<void> {
+    try {
+      const state = await this.findBranch(missionId);
+      if (!state) {
+        return Ok(undefined);
+      }
+
+      if (this.config.squashOnComplete && (await this.listCommits(state)).length > 1) {
+        const squashResult = await this.squash(missionId);
+        if (!squashResult.ok) {
+          return Err(squashResult.error);
+        }
+      }
+
+      this.logger?.info('Mission branch complete', { missionId, branch: state.branch });
+      return Ok(undefined);
+    } catch (error) {
+      return Err(this.toError('Failed to complete mission branch', error));
+    }
+  }
+
+  async discardMission(missionId: MissionId): AsyncResult<void> {
+    try {
+      const state = await this.findBranch(missionId);
+      if (!state) {
+        return Ok(undefined);
+      }
+
+      if ((await this.git(['rev-parse', '--abbrev-ref', 'HEAD'])) === state.branch) {
+        // Files were already restored, so only history moves back: the working tree is kept
+        await this.git(['reset', '--quiet', '--mixed', state.baseCommit]);
+        await this.git(['checkout', '--quiet', state.baseBranch]);
+      }
+      await this.git(['branch', '--quiet', '-D', state.branch]);
+      this.branches.delete(missionId);
+
+      this.logger?.info('Discarded mission branch', { missionId, branch: state.branch });
+      return Ok(undefined);
+    } catch (error) {
+      return Err(this.toError('Failed to discard mission branch', error));
+    }
+  }
+
+  async squash(missionId: MissionId): AsyncResult<MissionCommit> {
+    try {
+      const state = await this.findBranch(missionId);
+      if (!state) {
+        return Err(new AppError('GIT', `No git branch for mission: ${missionId}`));
+      }
+
+      const commits = await this.listCommits(state);
+      if (commits.length === 0) {
+        return Err(new AppError('GIT', `Mission branch ${state.branch} has no commits`));
+      }
+      if (commits.length === 1) {
+        return Ok(commits[0]!);
+      }
+
+      const tip = await this.git(['rev-parse', `refs/heads/${state.branch}`]);
+      const tree = await this.git(['rev-parse', `${tip}^{tree}`]);
+      const taskIds = [...new Set(commits.map((c) => c.taskId).filter((id): id is TaskId => !!id))];
+      const subject = this.subject(state.title);
+      const message = [
+        subject,
+        '',
+        ...commits.map((c) => `- ${c.subject}`),
+        '',
+        `${MISSION_TRAILER}: ${missionId}`,
+        ...taskIds.map((id) => `${TASK_TRAILER}: ${id}`),
+      ].join('\n');
+
+      // The squashed commit has the same tree, so a checked-out mission branch stays clean
+      const hash = await this.git(['commit-tree', tree, '-p', state.baseCommit, '-m', message], this.projectRoot, {
+        GIT_AUTHOR_NAME: this.config.authorName,
+        GIT_AUTHOR_EMAIL: this.config.authorEmail,
+      });
+      await this.git(['update-ref', '-m', 'altercode: squash mission', `refs/heads/${state.branch}`, hash, tip]);
+
+      this.logger?.info('Squashed mission branch', { missionId, branch: state.branch, commits: commits.length });
+      return Ok({ hash, subject });
+    } catch (error) {
+      return Err(this.toError('Failed to squash mission branch', error));
+    }
+  }
+
+  async getPullRequest(missionId: MissionId): AsyncResult<MissionPullRequest> {
+    try {
+      const state = await this.findBranch(missionId);
+      if (!state) {
+        return Err(new AppError('GIT', `No git branch for mission: ${missionId}`));
+      }
+
+      const commits = await this.listCommits(state);
+      const files = await this.git(['diff', '--name-status', state.baseCommit, `refs/heads/${state.branch}`]);
+      const body = [
+        `Changes made by the AlterCode mission "${state.title}".`,
+        '',
+        '## Commits',
+        ...commits.map((c) => `- ${c.hash.slice(0, 7)} ${c.subject}`),
+        '',
+        '## Files',
+        ...files.split('\n').filter(Boolean).map((line) => `- ${line.replace(/\t/g, ' ')}`),
+        '',
+        `${MISSION_TRAILER}: ${missionId}`,
+      ].join('\n');
+
+      return Ok({
+        branch: state.branch,
+        baseBranch: state.baseBranch,
+        title: this.subject(state.title),
+        body,
+        commits,
+      });
+    } catch (error) {
+      return Err(this.toError('Failed to describe mission branch', error));
+    }
+  }
+
+  async getBranch(missionId: MissionId): AsyncResult<MissionGitBranch | null> {
+    try {
+      return Ok(await this.findBranch(missionId));
+    } catch (error) {
+      return Err(this.toError('Failed to read mission branch', error));
+    }
+  }
+
+  async listBranches(): AsyncResult<MissionGitBranch[]> {
+    try {
+      const branches: MissionGitBranch[] = [];
+      for (const missionId of (await this.readMissionConfig()).keys()) {
+        const state = await this.findBranch(missionId as MissionId);
+        if (state) {
+          branches.push(state);
+        }
+      }
+      return Ok(branches);
+    } catch (error) {
+      return Err(this.toError('Failed to list mission branches', error));
+    }
+  }
+
+  /**
+   * Commit files to the mission branch; null when the mission has no branch or nothing changed
+   */
+  private async commit(
+    missionId: MissionId,
+    taskId: TaskId,
+    subject: string,
+    message: string,
+    files: FilePath[]
+  ): AsyncResult<MissionCommit | null> {
+    try {
+      const state = await this.findBranch(missionId);
+      if (!state) {
+        return Ok(null);
+      }
+
+      const head = await this.git(['rev-parse', '--abbrev-ref', 'HEAD']);
+      if (head !== state.branch) {
+        return Err(new AppError('GIT', `Working tree is on ${head}, not on mission branch ${state.branch}`));
+      }
+
+      const relative = [...new Set(files.map((f) => this.toRelative(f as string)))];
+      const paths = await this.committablePaths(relative);
+      if (paths.length === 0) {
+        return Ok(null);
+      }
+      await this.git(['add', '--all', '--', ...paths]);
+      if ((await this.tryGit(['diff', '--cached', '--quiet', '--', ...paths])) !== null) {
+        return Ok(null);
+      }
+
+      await this.git(
+        ['commit', '--quiet', '--author', `${this.config.authorName} <${this.config.authorEmail}>`, '-m', message, '--', ...paths]
+      );
+      const hash = await this.git(['rev-parse', 'HEAD']);
+
+      this.logger?.info('Committed task changes', { missionId, taskId, hash, files: paths.length });
+      return Ok({ hash, subject, taskId });
+    } catch (error) {
+      return Err(this.toError('Failed to commit task changes', error));
+    }
+  }
+
+  /**
+   * Mission branch from this session, or from git config for branches of earlier sessions
+   */
+  private async findBranch(missionId: MissionId): Promise<MissionGitBranch | null> {
+    const known = this.branches.get(missionId);
+    if (known) {
+      return known;
+    }
+
+    const branch = (await this.readMissionConfig()).get(missionId);
+    if (!branch || (await this.tryGit(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`])) === null) {
+      return null;
+    }
+
+    const read = async (key: string): Promise<string> =>
+      (await this.tryGit(['config', '--get', `branch.${branch}.${key}`])) ?? '';
+    const baseCommit = await read(CONFIG_KEYS.baseCommit);
+    const state: MissionGitBranch = {
+      missionId,
+      branch,
+      baseBranch: (await read(CONFIG_KEYS.base)) || baseCommit,
+      baseCommit,
+      title: await read(CONFIG_KEYS.title),
+    };
+    this.branches.set(missionId, state);
+    return state;
+  }
+
+  /**
+   * Branch names by mission, from the config of mission branches
+   */
+  private async readMissionConfig(): Promise<Map<string, string>> {
+    const output = await this.tryGit(['config', '--get-regexp', `^branch\\..*\\.${CONFIG_KEYS.mission.toLowerCase()}$`]);
+    const branches = new Map<string, string>();
+    for (const line of (output ?? '').split('\n').filter(Boolean)) {
+      const [key = '', missionId = ''] = line.split(' ');
+      branches.set(missionId, key.slice('branch.'.length, -(CONFIG_KEYS.mission.length + 1)));
+    }
+    return branches;
+  }
+
+  private async saveBranchConfig(state: MissionGitBranch): Promise<void> {
+    const values: Array<[string, string]> = [
+      [CONFIG_KEYS.mission, state.missionId],
+      [CONFIG_KEYS.base, state.baseBranch],
+      [CONFIG_KEYS.baseCommit, state.baseCommit],
+      [CONFIG_KEYS.title, state.title],
+    ];
+    for (const [key, value] of values) {
+      await this.git(['config', `branch.${state.branch}.${key}`, value]);
+    }
+  }
+
+  /**
+   * Commits on the mission branch since it started, oldest first
+   */
+  private async listCommits(state: MissionGitBranch): Promise<MissionCommit[]> {
+    const format = ['%H', '%s', `%(trailers:key=${TASK_TRAILER},valueonly,separator=%x2C)`].join('%x1f');
+    const output = await this.git([
+      'log',
+      '--reverse',
+      `--format=${format}`,
+      `${state.baseCommit}..refs/heads/${state.branch}`,
+    ]);
+    return output
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [hash = '', subject = '', taskIds = ''] = line.split(FIELD_SEPARATOR);
+        const taskId = taskIds.split(',')[0]?.trim();
+        return { hash, subject, taskId: taskId ? (taskId as TaskId) : undefined };
+      });
+  }
+
+  /**
+   * Files to stage: existing files that are not ignored, and deleted files git tracks
+   */
+  private async committablePaths(files: string[]): Promise<string[]> {
+    const existing = files.filter((f) => fs.existsSync(path.join(this.projectRoot, f)));
+    const ignored = existing.length > 0
+      ? new Set(((await this.tryGit(['check-ignore', '--', ...existing])) ?? '').split('\n'))
+      : new Set<string>();
+
+    const paths: string[] = [];
+    for (const file of files) {
+      if (existing.includes(file)) {
+        if (!ignored.has(file)) {
+          paths.push(file);
+        }
+      } else if (await this.tryGit(['ls-files', '--error-unmatch', '--', file])) {
+        paths.push(file);
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Branch name part from a mission title, e.g. "add-login-form-"
+   */
+  private slug(title: string): string {
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40)
+      .replace(/-+$/, '');
+    return slug ? `${slug}-` : '';
+  }
+
+  private subject(text: string): string {
+    const line = text.trim().split('\n')[0]!.trim();
+    if (!line) {
+      return 'AlterCode changes';
+    }
+    return line.length > MAX_SUBJECT_LENGTH ? `${line.slice(0, MAX_SUBJECT_LENGTH - 3).trimEnd()}...` : line;
+  }
+
+  /**
+   * Repository path with forward slashes, as git expects in pathspecs
+   */
+  private toRelative(file: string): string {
+    const relative = path.isAbsolute(file) ? path.relative(this.projectRoot, file) : path.normalize(file);
+    return relative.replace(/\\/g, '/');
+  }
+
+  private async git(args: string[], cwd: string = this.projectRoot, env?: NodeJS.ProcessEnv): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      env: env ? { ...process.env, ...env } : process.env,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout.trim();
+  }
+
+  /**
+   * Run a git command whose failure is an answer, e.g. a missing ref; null when it fails
+   */
+  private async tryGit(args: string[]): Promise<string | null> {
+    try {
+      return await this.git(args);
+    } catch {
+      return null;
+    }
+  }
+
+  private toError(message: string, error: unknown): AppError {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const detail = stderr ? stderr : (error as Error).message;
+    this.logger?.warn(message, { error: detail });
+    return new AppError('GIT', `${message}: ${detail}`);
+  }
+}
+
+/**
+ * Create a mission git service
+ */
+export function createMissionGitService(
+  projectRoot: FilePath,
+  logger?: ILogger,
+  options?: {
+    config?: Partial<MissionGitConfig>;
+  }
+): IMissionGitService {
+  return new MissionGitService(projectRoot, logger, options);
+}
@@ -3,17 +3,21 @@
  *
  * Manages file backups and rollback capabilities:
  * - Creates snapshots before changes
- * - Supports per-mission rollback
- * - Maintains backup history
- * - Provides selective file restoration
+ * - Supports per-mission, per-task and per-file rollback
+ * - Stores backed-up contents as content-addressed blobs
+ * - Persists rollback points in the rollback_snapshots table
+ * - Prunes history of finished missions by size and age
  */
 
 import {
   IRollbackService,
   IFileSystem,
+  IDatabase,
+  IBlobStore,
   FileBackup,
   RollbackPoint,
-  ExtendedRollbackPoint,
+  RollbackRetention,
+  DEFAULT_ROLLBACK_RETENTION,
   FilePath,
   MissionId,
   TaskId,
@@ -25,11 +29,30 @@ import {
   toFilePath,
 } from '../types';
 
-/** Maximum backups to keep per mission */
-const MAX_BACKUPS_PER_MISSION = 50;
+/** Row of the rollback_snapshots table */
+interface RollbackSnapshotRow {
+  id: string;
+  mission_id: string;
+  task_id: string | null;
+  status: string;
+  size: number;
+  data: string;
+  created_at: number;
+}
 
-/** Maximum total backup size (50MB) */
-const MAX_TOTAL_BACKUP_SIZE = 50 * 1024 * 1024;
+/** Point data stored in the data column */
+interface StoredPointData {
+  description: string;
+  files: string[];
+  backups: Array<{
+    path: string;
+    hash?: string;
+    /** Content itself when there is no blob store to hold it */
+    content?: string;
+    existed: boolean;
+    size?: number;
+  }>;
+}
 
 /**
  * Rollback Service implementation
@@ -38,6 +61,9 @@ export class RollbackService implements IRollbackService {
   private readonly fileSystem: IFileSystem;
   private readonly projectRoot: FilePath;
   private readonly logger?: ILogger;
+  private readonly database?: IDatabase;
+  private readonly blobStore?: IBlobStore;
+  private readonly retention: RollbackRetention;
 
   // Backups organized by mission
   private backups: Map<string, FileBackup[]> = new Map();
@@ -45,13 +71,55 @@ export class RollbackService implements IRollbackService {
   // Rollback points
   private rollbackPoints: Map<string, RollbackPoint> = new Map();
 
-  // Total backup size tracking
-  private totalBackupSize: number = 0;
-
-  constructor(fileSystem: IFileSystem, projectRoot: FilePath, logger?: ILogger) {
+  // Missions whose points may be pruned; a running mission needs all of its points to roll back
+  private readonly finishedMissions: Set<string> = new Set();
+
+  constructor(
+    fileSystem: IFileSystem,
+    projectRoot: FilePath,
+    logger?: ILogger,
+    options?: {
+      database?: IDatabase;
+      blobStore?: IBlobStore;
+      retention?: Partial<RollbackRetention>;
+    }
+  ) {
     this.fileSystem = fileSystem;
     this.projectRoot = projectRoot;
     this.logger = logger?.child('RollbackService');
+    this.database = options?.database;
+    this.blobStore = options?.blobStore;
+    this.retention = { ...DEFAULT_ROLLBACK_RETENTION, ...options?.retention };
+  }
+
+  /**
+   * Load rollback points persisted by earlier sessions
+   */
+  async initialize(): AsyncResult<void> {
+    if (!this.database?.isReady()) {
+      this.logger?.debug('No database available, rollback history is kept in memory');
+      return Ok(undefined);
+    }
+
+    const rows = await this.database.query<RollbackSnapshotRow>(
+      'SELECT * FROM rollback_snapshots ORDER BY created_at ASC, rowid ASC'
+    );
+    if (!rows.ok) {
+      return Err(new AppError('ROLLBACK', `Failed to load rollback history: ${rows.error.message}`));
+    }
+
+    this.backups.clear();
+    this.rollbackPoints.clear();
+    this.finishedMissions.clear();
+
+    for (const row of rows.value) {
+      this.loadRow(row);
+    }
+
+    this.logger?.info('Rollback history loaded', { pointCount: this.rollbackPoints.size });
+
+    const pruned = await this.prune();
+    return pruned.ok ? Ok(undefined) : Err(pruned.error);
   }
 
   async backup(
@@ -65,14 +133,20 @@ export class RollbackService implements IRollbackService {
     this.logger?.info('Creating backup', {
       pointId,
       missionId,
+      taskId,
       fileCount: paths.length,
     });
 
+    // A backup means the mission is running again, e.g. on retry
+    if (this.finishedMissions.has(missionId as string)) {
+      await this.setMissionStatus(missionId, 'active');
+    }
+
     try {
       const fileBackups: FileBackup[] = [];
 
       for (const path of paths) {
-        const backup = await this.backupFile(path, missionId, taskId);
+        const backup = await this.backupFile(path, missionId, pointId, timestamp, taskId);
         if (backup) {
           fileBackups.push(backup);
         }
@@ -85,13 +159,16 @@ export class RollbackService implements IRollbackService {
         taskId,
         timestamp,
         files: fileBackups.map((b) => toFilePath(b.path)),
-        description: `Backup for ${fileBackups.length} files`,
+        description: taskId
+          ? `Before task ${taskId}: ${fileBackups.length} files`
+          : `Backup for ${fileBackups.length} files`,
       };
 
       this.rollbackPoints.set(pointId, point);
+      await this.savePoint(point, fileBackups);
 
       // Enforce limits
-      this.enforceBackupLimits(missionId as string);
+      await this.prune();
 
       this.logger?.info('Backup created', {
         pointId,
@@ -123,15 +200,9 @@ export class RollbackService implements IRollbackService {
 
     try {
       const restoredFiles: string[] = [];
-      const missionBackups = this.backups.get(point.missionId as string) ?? [];
 
       for (const filePath of point.files) {
-        // Find the backup for this file at or before the rollback point
-        const backup = this.findBackupForPoint(
-          missionBackups,
-          filePath as string,
-          point.timestamp
-        );
+        const backup = this.findBackupForPoint(point, filePath as string);
 
         if (backup) {
           await this.restoreFile(backup);
@@ -155,13 +226,51 @@ export class RollbackService implements IRollbackService {
     }
   }
 
-  async restore(path: FilePath, missionId: MissionId): AsyncResult<void> {
-    const missionBackups = this.backups.get(missionId as string) ?? [];
+  async rollbackTask(taskId: TaskId): AsyncResult<string[]> {
+    // Oldest backup of each file is its state before the task touched it
+    const earliest = new Map<string, FileBackup>();
+    const taskPoints = this.getTaskHistory(taskId).reverse();
 
-    // Find the most recent backup for this file
-    const backup = missionBackups
-      .filter((b) => b.path === (path as string))
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+    for (const point of taskPoints) {
+      for (const backup of this.getMissionBackups(point.missionId)) {
+        if (backup.pointId === point.id && !earliest.has(backup.path)) {
+          earliest.set(backup.path, backup);
+        }
+      }
+    }
+
+    if (earliest.size === 0) {
+      return Err(new AppError('ROLLBACK', `No backups found for task: ${taskId}`));
+    }
+
+    this.logger?.info('Rolling back task', { taskId, fileCount: earliest.size });
+
+    try {
+      for (const backup of earliest.values()) {
+        await this.restoreFile(backup);
+      }
+      return Ok(Array.from(earliest.keys()));
+    } catch (error) {
+      this.logger?.error('Task rollback failed', error as Error, { taskId });
+      return Err(
+        new AppError('ROLLBACK', `Rollback failed: ${(error as Error).message}`)
+      );
+    }
+  }
+
+  async restore(path: FilePath, missionId: MissionId, pointId?: string): AsyncResult<void> {
+    let backup: FileBackup | null;
+
+    if (pointId) {
+      const point = this.rollbackPoints.get(pointId);
+      if (!point) {
+        return Err(new AppError('ROLLBACK', `Rollback point not found: ${pointId}`));
+      }
+      backup = this.findBackupForPoint(point, path as string);
+    } else {
+      // Most recent backup for this file
+      backup = this.getFileHistory(path, missionId)[0] ?? null;
+    }
 
     if (!backup) {
       return Err(
@@ -180,11 +289,97 @@ export class RollbackService implements IRollbackService {
   }
 
   getHistory(missionId: MissionId): RollbackPoint[] {
-    const points = Array.from(this.rollbackPoints.values())
-      .filter((p) => p.missionId === missionId)
+    return this.newestPointsFirst().filter((p) => p.missionId === missionId);
+  }
+
+  /**
+   * Get rollback points of a task, newest first
+   */
+  getTaskHistory(taskId: TaskId): RollbackPoint[] {
+    return this.newestPointsFirst().filter((p) => p.taskId === taskId);
+  }
+
+  /**
+   * Get file backup history, newest first
+   */
+  getFileHistory(path: FilePath, missionId?: MissionId): FileBackup[] {
+    const backups = missionId
+      ? this.getMissionBackups(missionId)
+      : Array.from(this.backups.values()).flat();
+
+    // Reversed first so backups taken in the same millisecond stay newest first
+    return backups
+      .filter((b) => b.path === (path as string))
+      .reverse()
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Get missions with rollback history, most recent first
+   */
+  listMissions(): MissionId[] {
+    const latest = new Map<MissionId, number>();
+    for (const point of this.rollbackPoints.values()) {
+      latest.set(point.missionId, Math.max(latest.get(point.missionId) ?? 0, point.timestamp.getTime()));
+    }
+
+    return Array.from(latest.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([missionId]) => missionId);
+  }
+
+  /**
+   * Mark a mission finished, so its points may be pruned
+   */
+  async finishMission(missionId: MissionId): AsyncResult<void> {
+    await this.setMissionStatus(missionId, 'finished');
+    const pruned = await this.prune();
+    return pruned.ok ? Ok(undefined) : Err(pruned.error);
+  }
+
+  /**
+   * Apply retention limits (age, total size) to the points of finished missions
+   */
+  async prune(): AsyncResult<number> {
+    const now = Date.now();
+    // Points of running missions are never pruned
+    const points = Array.from(this.rollbackPoints.values())
+      .filter((p) => this.finishedMissions.has(p.missionId as string))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const toRemove = new Set<string>();
+
+    // Age
+    for (const point of points) {
+      if (now - point.timestamp.getTime() > this.retention.maxAge) {
+        toRemove.add(point.id);
+      }
+    }
+
+    // Total size (oldest points first)
+    let totalSize = this.getTotalSize(toRemove);
+    for (const point of points) {
+      if (totalSize <= this.retention.maxTotalSize) {
+        break;
+      }
+      if (toRemove.has(point.id)) {
+        continue;
+      }
+      toRemove.add(point.id);
+      totalSize = this.getTotalSize(toRemove);
+    }
+
+    if (toRemove.size === 0) {
+      return Ok(0);
+    }
+
+    await this.removePoints(toRemove);
+
+    this.logger?.info('Pruned rollback history', {
+      removed: toRemove.size,
+      newTotalSize: totalSize,
+    });
 
-    return points;
+    return Ok(toRemove.size);
   }
 
   /**
@@ -193,6 +388,8 @@ export class RollbackService implements IRollbackService {
   private async backupFile(
     path: FilePath,
     missionId: MissionId,
+    pointId: string,
+    timestamp: Date,
     taskId?: TaskId
   ): Promise<FileBackup | null> {
     const pathStr = path as string;
@@ -201,28 +398,33 @@ export class RollbackService implements IRollbackService {
       const exists = await this.fileSystem.exists(path);
 
       let content: string | undefined;
+      let hash: string | undefined;
       let size: number | undefined;
 
       if (exists) {
         content = await this.fileSystem.readFile(path);
         size = new TextEncoder().encode(content).length;
 
-        // Check total size limit
-        if (this.totalBackupSize + size > MAX_TOTAL_BACKUP_SIZE) {
-          this.logger?.warn('Backup size limit reached, pruning old backups');
-          this.pruneOldBackups();
+        // Content lives in the blob store when one is configured
+        if (this.blobStore) {
+          const stored = await this.blobStore.put(content);
+          if (!stored.ok) {
+            throw stored.error;
+          }
+          hash = stored.value;
+          content = undefined;
         }
-
-        this.totalBackupSize += size;
       }
 
       const backup: FileBackup = {
         path: pathStr,
         content,
+        hash,
         existed: exists,
-        timestamp: new Date(),
+        timestamp,
         missionId,
         taskId,
+        pointId,
         size,
       };
 
@@ -253,94 +455,249 @@ export class RollbackService implements IRollbackService {
           path: backup.path,
         });
       }
-    } else if (backup.content !== undefined) {
-      // File existed - restore content
-      await this.fileSystem.writeFile(path, backup.content);
-      this.logger?.debug('Restored file content', { path: backup.path });
+      return;
     }
+
+    const content = await this.readBackupContent(backup);
+    await this.fileSystem.writeFile(path, content);
+    this.logger?.debug('Restored file content', { path: backup.path });
+  }
+
+  /**
+   * Get the content of a backup from memory or the blob store
+   */
+  private async readBackupContent(backup: FileBackup): Promise<string> {
+    if (backup.content !== undefined) {
+      return backup.content;
+    }
+    if (!backup.hash || !this.blobStore) {
+      throw new Error(`Backup content unavailable for ${backup.path}`);
+    }
+
+    const blob = await this.blobStore.get(backup.hash);
+    if (!blob.ok) {
+      throw blob.error;
+    }
+    if (blob.value === null) {
+      throw new Error(`Backup blob missing for ${backup.path}`);
+    }
+    return blob.value;
   }
 
   /**
-   * Find backup for a file at or before a timestamp
+   * Find the backup of a file for a rollback point: the one taken for the
+   * point, otherwise the latest one taken at or before it
    */
-  private findBackupForPoint(
-    backups: FileBackup[],
-    path: string,
-    timestamp: Date
-  ): FileBackup | null {
-    const candidates = backups
-      .filter(
-        (b) => b.path === path && b.timestamp.getTime() <= timestamp.getTime()
-      )
+  private findBackupForPoint(point: RollbackPoint, path: string): FileBackup | null {
+    const candidates = this.getMissionBackups(point.missionId)
+      .filter((b) => b.path === path);
+
+    const own = candidates.find((b) => b.pointId === point.id);
+    if (own) {
+      return own;
+    }
+
+    return candidates
+      .filter((b) => b.timestamp.getTime() <= point.timestamp.getTime())
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0] ?? null;
+  }
+
+  /**
+   * Get all rollback points, newest first (creation order breaks timestamp ties)
+   */
+  private newestPointsFirst(): RollbackPoint[] {
+    return Array.from(this.rollbackPoints.values())
+      .reverse()
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
 
-    return candidates[0] ?? null;
+  /**
+   * Get backups of a mission
+   */
+  private getMissionBackups(missionId: MissionId): FileBackup[] {
+    return this.backups.get(missionId as string) ?? [];
   }
 
   /**
-   * Enforce backup limits
+   * Total size of backed-up contents, counting each blob once
    */
-  private enforceBackupLimits(missionId: string): void {
-    const missionBackups = this.backups.get(missionId) ?? [];
-
-    if (missionBackups.length > MAX_BACKUPS_PER_MISSION) {
-      // Remove oldest backups
-      const toRemove = missionBackups.length - MAX_BACKUPS_PER_MISSION;
-      const removed = missionBackups.splice(0, toRemove);
-
-      // Update total size
-      for (const backup of removed) {
-        if (backup.size) {
-          this.totalBackupSize -= backup.size;
+  private getTotalSize(excludedPoints: ReadonlySet<string> = new Set()): number {
+    const blobs = new Set<string>();
+    let total = 0;
+
+    for (const backups of this.backups.values()) {
+      for (const backup of backups) {
+        if (backup.pointId && excludedPoints.has(backup.pointId)) {
+          continue;
         }
+        if (backup.hash) {
+          if (blobs.has(backup.hash)) {
+            continue;
+          }
+          blobs.add(backup.hash);
+        }
+        total += backup.size ?? 0;
       }
-
-      this.logger?.debug('Pruned old backups', { missionId, count: toRemove });
     }
+
+    return total;
   }
 
   /**
-   * Prune old backups across all missions
+   * Remove rollback points with their backups, rows and unreferenced blobs
    */
-  private pruneOldBackups(): void {
-    // Get all backups sorted by timestamp
-    const allBackups: Array<{ missionId: string; backup: FileBackup; index: number }> = [];
+  private async removePoints(pointIds: ReadonlySet<string>): Promise<void> {
+    const releasedHashes = new Set<string>();
+
+    for (const pointId of pointIds) {
+      this.rollbackPoints.delete(pointId);
+    }
 
     for (const [missionId, backups] of this.backups) {
-      for (let i = 0; i < backups.length; i++) {
-        const backup = backups[i];
-        if (backup) {
-          allBackups.push({ missionId, backup, index: i });
+      const kept = backups.filter((b) => {
+        const removed = b.pointId !== undefined && pointIds.has(b.pointId);
+        if (removed && b.hash) {
+          releasedHashes.add(b.hash);
         }
+        return !removed;
+      });
+
+      if (kept.length > 0) {
+        this.backups.set(missionId, kept);
+      } else {
+        this.backups.delete(missionId);
       }
     }
 
-    allBackups.sort((a, b) => a.backup.timestamp.getTime() - b.backup.timestamp.getTime());
-
-    // Remove oldest 20% of backups
-    const toRemove = Math.ceil(allBackups.length * 0.2);
-
-    for (let i = 0; i < toRemove && i < allBackups.length; i++) {
-      const entry = allBackups[i];
-      if (!entry) continue;
-      const { missionId, backup } = entry;
-      const missionBackups = this.backups.get(missionId);
+    if (this.database?.isReady()) {
+      const ids = Array.from(pointIds);
+      const placeholders = ids.map(() => '?').join(', ');
+      const result = await this.database.execute(
+        `DELETE FROM rollback_snapshots WHERE id IN (${placeholders})`,
+        ids
+      );
+      if (!result.ok) {
+        this.logger?.warn('Failed to delete rollback points', { error: result.error.message });
+      }
+    }
 
-      if (missionBackups) {
-        const idx = missionBackups.indexOf(backup);
-        if (idx >= 0) {
-          missionBackups.splice(idx, 1);
-          if (backup.size) {
-            this.totalBackupSize -= backup.size;
+    // Blobs can be shared between points, only drop ones nothing references
+    if (this.blobStore && releasedHashes.size > 0) {
+      for (const backups of this.backups.values()) {
+        for (const backup of backups) {
+          if (backup.hash) {
+            releasedHashes.delete(backup.hash);
           }
         }
       }
+      for (const hash of releasedHashes) {
+        await this.blobStore.delete(hash);
+      }
+    }
+  }
+
+  /**
+   * Record whether a mission is running or finished, in memory and in its persisted points
+   */
+  private async setMissionStatus(missionId: MissionId, status: 'active' | 'finished'): Promise<void> {
+    if (status === 'finished') {
+      this.finishedMissions.add(missionId as string);
+    } else {
+      this.finishedMissions.delete(missionId as string);
+    }
+
+    if (!this.database?.isReady()) {
+      return;
+    }
+    const result = await this.database.execute(
+      'UPDATE rollback_snapshots SET status = ? WHERE mission_id = ?',
+      [status, missionId]
+    );
+    if (!result.ok) {
+      this.logger?.warn('Failed to update rollback point status', { missionId, error: result.error.message });
+    }
+  }
+
+  /**
+   * Persist a rollback point with its backups
+   */
+  private async savePoint(point: RollbackPoint, fileBackups: FileBackup[]): Promise<void> {
+    if (!this.database?.isReady()) {
+      return;
+    }
+
+    const data: StoredPointData = {
+      description: point.description,
+      files: point.files.map((f) => f as string),
+      backups: fileBackups.map((b) => ({
+        path: b.path,
+        hash: b.hash,
+        content: b.hash ? undefined : b.content,
+        existed: b.existed,
+        size: b.size,
+      })),
+    };
+
+    const result = await this.database.execute(
+      `INSERT OR REPLACE INTO rollback_snapshots
+        (id, mission_id, task_id, status, size, data, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        point.id,
+        point.missionId,
+        point.taskId ?? null,
+        this.finishedMissions.has(point.missionId as string) ? 'finished' : 'active',
+        fileBackups.reduce((sum, b) => sum + (b.size ?? 0), 0),
+        JSON.stringify(data),
+        point.timestamp.getTime(),
+      ]
+    );
+
+    if (!result.ok) {
+      // History still works for this session, it just won't survive a reload
+      this.logger?.warn('Failed to persist rollback point', {
+        pointId: point.id,
+        error: result.error.message,
+      });
+    }
+  }
+
+  /**
+   * Rebuild a rollback point and its backups from a table row
+   */
+  private loadRow(row: RollbackSnapshotRow): void {
+    const data = JSON.parse(row.data) as StoredPointData;
+    const missionId = row.mission_id as MissionId;
+    if (row.status === 'finished') {
+      this.finishedMissions.add(missionId);
     }
+    const taskId = row.task_id ? (row.task_id as TaskId) : undefined;
+    const timestamp = new Date(row.created_at);
 
-    this.logger?.info('Pruned old backups', {
-      removed: toRemove,
-      newTotalSize: this.totalBackupSize,
+    this.rollbackPoints.set(row.id, {
+      id: row.id,
+      missionId,
+      taskId,
+      timestamp,
+      files: data.files.map((f) => toFilePath(f)),
+      description: data.description,
     });
+
+    const missionBackups = this.backups.get(row.mission_id) ?? [];
+    for (const stored of data.backups) {
+      missionBackups.push({
+        path: stored.path,
+        hash: stored.hash,
+        content: stored.content,
+        existed: stored.existed,
+        size: stored.size,
+        timestamp,
+        missionId,
+        taskId,
+        pointId: row.id,
+      });
+    }
+    this.backups.set(row.mission_id, missionBackups);
   }
 
   /**
@@ -353,26 +710,15 @@ export class RollbackService implements IRollbackService {
   /**
    * Clear backups for a mission
    */
-  clearMission(missionId: MissionId): void {
-    const missionBackups = this.backups.get(missionId as string) ?? [];
-
-    // Update total size
-    for (const backup of missionBackups) {
-      if (backup.size) {
-        this.totalBackupSize -= backup.size;
-      }
-    }
+  async clearMission(missionId: MissionId): AsyncResult<void> {
+    const pointIds = new Set(this.getHistory(missionId).map((p) => p.id));
+    await this.removePoints(pointIds);
 
+    // Backups not tied to a point
     this.backups.delete(missionId as string);
 
-    // Remove rollback points
-    for (const [pointId, point] of this.rollbackPoints) {
-      if (point.missionId === missionId) {
-        this.rollbackPoints.delete(pointId);
-      }
-    }
-
     this.logger?.info('Cleared mission backups', { missionId });
+    return Ok(undefined);
   }
 
   /**
@@ -390,7 +736,7 @@ export class RollbackService implements IRollbackService {
     }
 
     return {
-      totalSize: this.totalBackupSize,
+      totalSize: this.getTotalSize(),
       missionCount: this.backups.size,
       backupCount,
       pointCount: this.rollbackPoints.size,
@@ -400,13 +746,12 @@ export class RollbackService implements IRollbackService {
   /**
    * Create a named rollback point
    */
-  createNamedPoint(
+  async createNamedPoint(
     missionId: MissionId,
     name: string,
     description?: string
-  ): RollbackPoint {
-    const missionBackups = this.backups.get(missionId as string) ?? [];
-    const files = [...new Set(missionBackups.map((b) => toFilePath(b.path)))];
+  ): Promise<RollbackPoint> {
+    const files = [...new Set(this.getMissionBackups(missionId).map((b) => toFilePath(b.path)))];
 
     const point: RollbackPoint = {
       id: `named-${name}-${Date.now()}`,
@@ -417,6 +762,7 @@ export class RollbackService implements IRollbackService {
     };
 
     this.rollbackPoints.set(point.id, point);
+    await this.savePoint(point, []);
     return point;
   }
 
@@ -424,18 +770,7 @@ export class RollbackService implements IRollbackService {
    * Check if file has backups
    */
   hasBackup(path: FilePath, missionId: MissionId): boolean {
-    const missionBackups = this.backups.get(missionId as string) ?? [];
-    return missionBackups.some((b) => b.path === (path as string));
-  }
-
-  /**
-   * Get file backup history
-   */
-  getFileHistory(path: FilePath, missionId: MissionId): FileBackup[] {
-    const missionBackups = this.backups.get(missionId as string) ?? [];
-    return missionBackups
-      .filter((b) => b.path === (path as string))
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    return this.getMissionBackups(missionId).some((b) => b.path === (path as string));
   }
 }
 
@@ -445,7 +780,12 @@ export class RollbackService implements IRollbackService {
 export function createRollbackService(
   fileSystem: IFileSystem,
   projectRoot: FilePath,
-  logger?: ILogger
+  logger?: ILogger,
+  options?: {
+    database?: IDatabase;
+    blobStore?: IBlobStore;
+    retention?: Partial<RollbackRetention>;
+  }
 ): IRollbackService {
-  return new RollbackService(fileSystem, projectRoot, logger);
+  return new RollbackService(fileSystem, projectRoot, logger, options);
 }
@@ -6,6 +6,7 @@
  * - Directory boundaries
  * - Pattern-based exclusions
  * - Mission scope enforcement
+ * - Confirmation or blocking of violating writes, reported as activity
  */
 
 import {
@@ -14,6 +15,9 @@ import {
   ExtendedScopeViolation,
   ExtendedFileOperation,
   ExtendedFileOperationType,
+  ScopeEnforcementContext,
+  ScopeDecision,
+  IAgentActivityService,
   FilePath,
   MissionId,
   IFileSystem,
@@ -62,6 +66,10 @@ export class ScopeGuardService implements IScopeGuardService {
   private readonly fileSystem: IFileSystem;
   private readonly projectRoot: FilePath;
   private readonly logger?: ILogger;
+  private readonly activityService?: IAgentActivityService;
+
+  // Operations the user confirmed, by mission (so later write paths don't ask again)
+  private confirmedOperations: Set<string> = new Set();
 
   // Active policies by mission
   private missionPolicies: Map<string, ScopePolicy> = new Map();
@@ -69,16 +77,24 @@ export class ScopeGuardService implements IScopeGuardService {
   // Global policy (applies to all missions)
   private globalPolicy: ScopePolicy;
 
-  constructor(fileSystem: IFileSystem, projectRoot: FilePath, logger?: ILogger) {
+  constructor(
+    fileSystem: IFileSystem,
+    projectRoot: FilePath,
+    logger?: ILogger,
+    options?: {
+      activityService?: IAgentActivityService;
+    }
+  ) {
     this.fileSystem = fileSystem;
     this.projectRoot = projectRoot;
     this.logger = logger?.child('ScopeGuardService');
+    this.activityService = options?.activityService;
 
     // Initialize global policy with defaults
     this.globalPolicy = {
       allowedPaths: ['**/*'],
       excludedPaths: DEFAULT_EXCLUSIONS,
-      allowedOperations: ['read', 'write', 'create'],
+      allowedOperations: ['read', 'write', 'create', 'delete'],
       maxFileSize: 1024 * 1024, // 1MB
       maxFilesPerOperation: 50,
       requireConfirmation: ['delete'],
@@ -105,11 +121,8 @@ export class ScopeGuardService implements IScopeGuardService {
       };
     }
 
-    // Normalize path
-    const normalizedPath = this.normalizePath(path);
-
     // Check if path is within project
-    if (!this.isWithinProject(normalizedPath)) {
+    if (!this.isWithinProject(this.normalizePath(path))) {
       return {
         operation,
         reason: 'Path is outside project root',
@@ -118,6 +131,9 @@ export class ScopeGuardService implements IScopeGuardService {
       };
     }
 
+    // Patterns are matched against the project-relative path
+    const normalizedPath = this.toProjectPath(path);
+
     // Check exclusion patterns
     const exclusionMatch = this.matchesExclusion(normalizedPath, policy);
     if (exclusionMatch) {
@@ -181,6 +197,50 @@ export class ScopeGuardService implements IScopeGuardService {
     return null;
   }
 
+  async enforce(operation: FileOperation, context: ScopeEnforcementContext): Promise<ScopeDecision> {
+    const violation = this.check(operation);
+    if (!violation) {
+      return { allowed: true, violation: null };
+    }
+
+    const key = this.operationKey(operation);
+    if (violation.requiresConfirmation && this.confirmedOperations.has(key)) {
+      return { allowed: true, violation, outcome: 'approved' };
+    }
+
+    let outcome: 'approved' | 'rejected' | 'blocked' = 'blocked';
+    if (violation.requiresConfirmation) {
+      // Without a way to ask, confirmation is refused
+      const confirmed = context.confirm ? await context.confirm(violation) : false;
+      outcome = confirmed ? 'approved' : 'rejected';
+      if (confirmed) {
+        this.confirmedOperations.add(key);
+      }
+    }
+
+    this.activityService?.recordScopeViolation({
+      missionId: operation.missionId,
+      taskId: context.taskId,
+      source: context.source,
+      operation: operation.type,
+      path: operation.path as string,
+      policy: violation.policy,
+      reason: violation.reason,
+      outcome,
+    });
+
+    if (outcome !== 'approved') {
+      this.logger?.warn('Operation refused by scope guard', {
+        type: operation.type,
+        path: operation.path,
+        source: context.source,
+        reason: violation.reason,
+      });
+    }
+
+    return { allowed: outcome === 'approved', violation, outcome };
+  }
+
   setPolicy(missionId: MissionId, policy: Partial<ScopePolicy>): void {
     const existing = this.missionPolicies.get(missionId as string) ?? { ...this.globalPolicy };
 
@@ -280,6 +340,21 @@ export class ScopeGuardService implements IScopeGuardService {
     return normalized;
   }
 
+  /**
+   * Path relative to the project root, with forward slashes
+   */
+  private toProjectPath(path: FilePath): string {
+    const relative = this.fileSystem.relative(this.projectRoot, this.resolvePath(this.normalizePath(path)));
+    return this.normalizePath(toFilePath(relative as string));
+  }
+
+  /**
+   * Key identifying a confirmed operation
+   */
+  private operationKey(operation: FileOperation): string {
+    return `${operation.missionId ?? ''}:${operation.type}:${this.toProjectPath(operation.path)}`;
+  }
+
   /**
    * Check if path is within project root
    */
@@ -349,8 +424,10 @@ export class ScopeGuardService implements IScopeGuardService {
       .replace(/{{GLOBSTAR}}/g, '.*')
       .replace(/\?/g, '.');
 
-    // Handle leading **/ (match any prefix)
-    if (regexStr.startsWith('.*')) {
+    // Handle leading **/ (match any prefix, including none)
+    if (regexStr.startsWith('.*/')) {
+      regexStr = '^(?:.*/)?' + regexStr.slice(3);
+    } else if (regexStr.startsWith('.*')) {
       regexStr = '(?:^|/)' + regexStr.slice(2);
     } else {
       regexStr = '^' + regexStr;
@@ -385,6 +462,11 @@ export class ScopeGuardService implements IScopeGuardService {
    */
   clearPolicy(missionId: MissionId): void {
     this.missionPolicies.delete(missionId as string);
+    for (const key of this.confirmedOperations) {
+      if (key.startsWith(`${missionId}:`)) {
+        this.confirmedOperations.delete(key);
+      }
+    }
     this.logger?.debug('Policy cleared for mission', { missionId });
   }
 
@@ -451,7 +533,10 @@ export class ScopeGuardService implements IScopeGuardService {
 export function createScopeGuardService(
   fileSystem: IFileSystem,
   projectRoot: FilePath,
-  logger?: ILogger
+  logger?: ILogger,
+  options?: {
+    activityService?: IAgentActivityService;
+  }
 ): IScopeGuardService {
-  return new ScopeGuardService(fileSystem, projectRoot, logger);
+  return new ScopeGuardService(fileSystem, projectRoot, logger, options);
 }
@@ -4,8 +4,8 @@
  * Manages isolated virtual branches for tracking file changes per agent/task:
  * - Create branches for parallel work isolation
  * - Record file changes per branch
- * - Detect conflicts between branches
- * - Merge branches to filesystem
+ * - Detect conflicts between branches (per region when a semantic analyzer is available)
+ * - Merge branches to filesystem (through the scope guard when one is available)
  */
 
 import {
@@ -16,6 +16,7 @@ import {
   VirtualBranchId,
   AgentId,
   TaskId,
+  MissionId,
   FilePath,
   createVirtualBranchId,
   AsyncResult,
@@ -25,10 +26,13 @@ import {
   IFileSystem,
   IEventBus,
   ILogger,
+  ISemanticAnalyzerService,
+  IScopeGuardService,
 } from '../types';
 
 // Import FileChange from conflict module directly
 import { FileChange } from '../types/conflict';
+import { mergeTexts } from '../utils';
 
 /**
  * Virtual Branch Service Implementation
@@ -37,6 +41,8 @@ export class VirtualBranchService implements IVirtualBranchService {
   private readonly fileSystem: IFileSystem;
   private readonly eventBus: IEventBus;
   private readonly logger?: ILogger;
+  private readonly semanticAnalyzer?: ISemanticAnalyzerService;
+  private readonly scopeGuard?: IScopeGuardService;
 
   /** All branches by ID */
   private readonly branches: Map<VirtualBranchId, VirtualBranch> = new Map();
@@ -53,23 +59,30 @@ export class VirtualBranchService implements IVirtualBranchService {
   constructor(
     fileSystem: IFileSystem,
     eventBus: IEventBus,
-    logger?: ILogger
+    logger?: ILogger,
+    options?: {
+      semanticAnalyzer?: ISemanticAnalyzerService;
+      scopeGuard?: IScopeGuardService;
+    }
   ) {
     this.fileSystem = fileSystem;
     this.eventBus = eventBus;
     this.logger = logger?.child('VirtualBranchService');
+    this.semanticAnalyzer = options?.semanticAnalyzer;
+    this.scopeGuard = options?.scopeGuard;
   }
 
   /**
    * Create a new virtual branch for an agent/task
    */
-  async createBranch(agentId: AgentId, taskId: TaskId): AsyncResult<VirtualBranch> {
+  createBranch(agentId: AgentId, taskId: TaskId, missionId?: MissionId): AsyncResult<VirtualBranch> {
     const id = createVirtualBranchId();
 
     const branch: VirtualBranch = {
       id,
       agentId,
       taskId,
+      missionId,
       baseSnapshot: new Date().toISOString(),
       changes: [],
       status: 'active',
@@ -90,7 +103,7 @@ export class VirtualBranchService implements IVirtualBranchService {
 
     this.logger?.info('Branch created', { id, agentId, taskId });
 
-    return Ok(branch);
+    return Promise.resolve(Ok(branch));
   }
 
   /**
@@ -162,7 +175,7 @@ export class VirtualBranchService implements IVirtualBranchService {
   }
 
   /**
-   * Check if two branches have conflicts (modify same files)
+   * Check if two branches have conflicts
    */
   hasConflicts(branchId1: VirtualBranchId, branchId2: VirtualBranchId): boolean {
     const conflictingFiles = this.getConflictingFiles(branchId1, branchId2);
@@ -170,7 +183,8 @@ export class VirtualBranchService implements IVirtualBranchService {
   }
 
   /**
-   * Get files that conflict between two branches
+   * Get files that conflict between two branches.
+   * Without a semantic analyzer every file changed by both branches conflicts.
    */
   getConflictingFiles(branchId1: VirtualBranchId, branchId2: VirtualBranchId): FilePath[] {
     const branch1 = this.branches.get(branchId1);
@@ -180,13 +194,11 @@ export class VirtualBranchService implements IVirtualBranchService {
       return [];
     }
 
-    const files1 = new Set(branch1.changes.map((c) => c.filePath));
-    const files2 = new Set(branch2.changes.map((c) => c.filePath));
-
     const conflicts: FilePath[] = [];
-    for (const file of files1) {
-      if (files2.has(file)) {
-        conflicts.push(file);
+    for (const change1 of branch1.changes) {
+      const change2 = branch2.changes.find((c) => c.filePath === change1.filePath);
+      if (change2 && this.changesConflict(change1, change2)) {
+        conflicts.push(change1.filePath);
       }
     }
 
@@ -208,6 +220,12 @@ export class VirtualBranchService implements IVirtualBranchService {
 
     this.logger?.info('Merging branch', { branchId, changeCount: branch.changes.length });
 
+    // Nothing is written if any change is outside the allowed scope
+    const refused = await this.checkScope(branch);
+    if (refused.length > 0) {
+      return Err(new AppError('SCOPE_VIOLATION', `Changes refused by scope policy: ${refused.join(', ')}`));
+    }
+
     const errors: string[] = [];
 
     for (const change of branch.changes) {
@@ -328,6 +346,59 @@ export class VirtualBranchService implements IVirtualBranchService {
     return snapshot?.content ?? null;
   }
 
+  /**
+   * Check if two changes to the same file conflict. Modifications that touch
+   * independent regions and merge cleanly line-by-line do not.
+   */
+  private changesConflict(change1: FileChange, change2: FileChange): boolean {
+    if (!this.semanticAnalyzer || change1.changeType !== 'modify' || change2.changeType !== 'modify') {
+      return true;
+    }
+    if (change1.modifiedContent === change2.modifiedContent) {
+      return false;
+    }
+
+    const base = change1.originalContent ?? change2.originalContent ?? '';
+    const regionConflicts = this.semanticAnalyzer.findRegionConflicts(
+      change1.filePath,
+      base,
+      change1.modifiedContent,
+      change2.modifiedContent
+    );
+    if (regionConflicts.length > 0) {
+      return true;
+    }
+
+    // Edits outside any region can still collide (e.g. two declarations added at the same spot)
+    return mergeTexts(base, change1.modifiedContent, change2.modifiedContent).conflicts.length > 0;
+  }
+
+  /**
+   * Enforce the scope policy on every change of a branch, returning the refused ones
+   */
+  private async checkScope(branch: VirtualBranch): Promise<string[]> {
+    if (!this.scopeGuard) {
+      return [];
+    }
+
+    const refused: string[] = [];
+    for (const change of branch.changes) {
+      const decision = await this.scopeGuard.enforce(
+        {
+          type: change.changeType === 'modify' ? 'write' : change.changeType,
+          path: change.filePath,
+          missionId: branch.missionId,
+          content: change.changeType === 'delete' ? undefined : change.modifiedContent,
+        },
+        { source: 'merge', taskId: branch.taskId }
+      );
+      if (!decision.allowed) {
+        refused.push(`${change.filePath} (${decision.violation?.reason ?? 'not allowed'})`);
+      }
+    }
+    return refused;
+  }
+
   /**
    * Apply a file change to the filesystem
    */
@@ -388,7 +459,11 @@ export class VirtualBranchService implements IVirtualBranchService {
 export function createVirtualBranchService(
   fileSystem: IFileSystem,
   eventBus: IEventBus,
-  logger?: ILogger
+  logger?: ILogger,
+  options?: {
+    semanticAnalyzer?: ISemanticAnalyzerService;
+    scopeGuard?: IScopeGuardService;
+  }
 ): IVirtualBranchService {
-  return new VirtualBranchService(fileSystem, eventBus, logger);
+  return new VirtualBranchService(fileSystem, eventBus, logger, options);
 }
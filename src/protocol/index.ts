@@ -7,6 +7,7 @@
  * - PreflightCheckerService
  * - RollbackService
  * - ImpactAnalyzerService
+ * - MissionGitService
  */
 
 // Intent Parser
@@ -41,3 +42,10 @@ export {
   ApprovalService,
   createApprovalService,
 } from './ApprovalService';
+
+// Mission Git
+export {
+  MissionGitService,
+  createMissionGitService,
+  DEFAULT_MISSION_GIT_CONFIG,
+} from './MissionGitService';
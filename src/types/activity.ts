@@ -6,6 +6,7 @@
  * - Prompt and response recording
  * - Duration and token metrics
  * - Per-mission activity logs
+ * - Scope violation reports
  */
 
 import {
@@ -85,6 +86,36 @@ export const DEFAULT_ACTIVITY_CONFIG: Required<ActivityConfig> = {
   maxResponseLength: 1000,
 };
 
+// ============================================================================
+// Scope Violations
+// ============================================================================
+
+/** How a scope violation was resolved */
+export type ScopeViolationOutcome =
+  | 'approved'  // Confirmation required and granted
+  | 'rejected'  // Confirmation required and refused
+  | 'blocked';  // Not allowed by policy
+
+/** A scope violation raised by a filesystem mutation */
+export interface ScopeViolationRecord {
+  /** Mission the operation belongs to */
+  readonly missionId?: MissionId;
+  /** Task performing the operation */
+  readonly taskId?: TaskId;
+  /** Write path that attempted the operation (e.g. 'task', 'merge', 'tool:write_file') */
+  readonly source: string;
+  /** Operation type */
+  readonly operation: string;
+  /** Target path */
+  readonly path: string;
+  /** Policy that was violated */
+  readonly policy: string;
+  /** Human-readable reason */
+  readonly reason: string;
+  /** How the violation was resolved */
+  readonly outcome: ScopeViolationOutcome;
+}
+
 // ============================================================================
 // Activity Events
 // ============================================================================
@@ -112,11 +143,19 @@ export interface ActivityFailedEvent {
   readonly timestamp: Date;
 }
 
+/** Scope violation reported event */
+export interface ActivityScopeViolationEvent {
+  readonly type: 'activity:scopeViolation';
+  readonly violation: ScopeViolationRecord;
+  readonly timestamp: Date;
+}
+
 /** All activity event types */
 export type ActivityEvent =
   | ActivityStartedEvent
   | ActivityCompletedEvent
-  | ActivityFailedEvent;
+  | ActivityFailedEvent
+  | ActivityScopeViolationEvent;
 
 // ============================================================================
 // Activity Statistics
@@ -180,6 +219,12 @@ export interface IAgentActivityService {
    */
   recordFailure(entryId: ActivityEntryId, error: string): void;
 
+  /**
+   * Report a scope violation
+   * @param violation - Violation and how it was resolved
+   */
+  recordScopeViolation(violation: ScopeViolationRecord): void;
+
   /**
    * Get all entries for a mission
    * @param missionId - Mission to get entries for
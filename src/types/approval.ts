@@ -99,6 +99,8 @@ export interface ApprovalResult {
   readonly action?: ApprovalAction;
   /** Modified changes (if modifications were made) */
   readonly modifications?: FileChange[];
+  /** Comment from the user (if they responded) */
+  readonly comment?: string;
 }
 
 // ============================================================================
@@ -0,0 +1,92 @@
+/**
+ * Chat Types
+ *
+ * Types for stored chat conversations:
+ * - Sessions and their messages
+ * - Full-text search
+ * - Export
+ */
+
+import { AsyncResult } from './common';
+import { IStore } from './infrastructure';
+
+/** Role of a stored chat message */
+export type StoredChatRole = 'user' | 'assistant' | 'system';
+
+/** Token usage of one exchange, as reported by the model */
+export interface ChatTokenUsage {
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+  readonly totalTokens: number;
+}
+
+/** Stored chat conversation */
+export interface StoredChatSession {
+  readonly id: string;
+  readonly title: string;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly messageCount: number;
+  /** Missions created from this conversation */
+  readonly missionIds: string[];
+  /** Token usage summed over the conversation's messages */
+  readonly tokens: ChatTokenUsage;
+  /** Conversation and message this one was branched from */
+  readonly branchOf?: { readonly sessionId: string; readonly messageId: string };
+}
+
+/** Stored chat message */
+export interface StoredChatMessage {
+  readonly id: string;
+  readonly sessionId: string;
+  readonly role: StoredChatRole;
+  readonly content: string;
+  readonly timestamp: Date;
+  readonly usage?: ChatTokenUsage;
+  /** Error shown instead of a response */
+  readonly error?: string;
+}
+
+/** Message matching a search */
+export interface ChatSearchResult {
+  readonly sessionId: string;
+  readonly sessionTitle: string;
+  readonly messageId: string;
+  readonly role: StoredChatRole;
+  /** Matching excerpt, with matched terms in **bold** */
+  readonly snippet: string;
+  readonly timestamp: Date;
+}
+
+/** Chat export format */
+export type ChatExportFormat = 'markdown' | 'json';
+
+/** Options for creating a chat session */
+export interface ChatSessionOptions {
+  readonly title?: string;
+  readonly branchOf?: StoredChatSession['branchOf'];
+}
+
+/** Chat store */
+export interface IChatStore extends IStore {
+  // Sessions
+  createSession(options?: ChatSessionOptions): AsyncResult<StoredChatSession>;
+  getSession(id: string): AsyncResult<StoredChatSession | null>;
+  /** Sessions, most recently updated first */
+  listSessions(limit?: number): AsyncResult<StoredChatSession[]>;
+  deleteSession(id: string): AsyncResult<void>;
+  linkMission(sessionId: string, missionId: string): AsyncResult<void>;
+
+  // Messages
+  /** Append a message; the first user message titles an untitled session */
+  addMessage(message: StoredChatMessage): AsyncResult<void>;
+  getMessages(sessionId: string): AsyncResult<StoredChatMessage[]>;
+  /** Delete a message and every message after it */
+  deleteMessagesFrom(sessionId: string, messageId: string): AsyncResult<void>;
+
+  /** Copy the messages before a message into a new session */
+  branch(sessionId: string, messageId: string): AsyncResult<StoredChatSession>;
+  /** Full-text search across all sessions, newest matches first */
+  search(query: string, limit?: number): AsyncResult<ChatSearchResult[]>;
+  export(sessionId: string, format: ChatExportFormat): AsyncResult<string>;
+}
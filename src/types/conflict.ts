@@ -13,6 +13,7 @@ import {
   ConflictId,
   AgentId,
   TaskId,
+  MissionId,
   FilePath,
   LineNumber,
   AsyncResult,
@@ -93,6 +94,8 @@ export interface VirtualBranch {
   readonly agentId: AgentId;
   /** Task this branch is for */
   readonly taskId: TaskId;
+  /** Mission the task belongs to (selects the scope policy on merge) */
+  readonly missionId?: MissionId;
   /** Base snapshot identifier */
   readonly baseSnapshot: string;
   /** Changes made in this branch (mutable) */
@@ -162,6 +165,10 @@ export interface ConflictMarker {
   readonly oursStart: LineNumber;
   /** End of "ours" section */
   readonly oursEnd: LineNumber;
+  /** Start of the base section (diff3 markers) */
+  readonly baseStart?: LineNumber;
+  /** End of the base section */
+  readonly baseEnd?: LineNumber;
   /** Start of "theirs" section */
   readonly theirsStart: LineNumber;
   /** End of "theirs" section */
@@ -172,6 +179,25 @@ export interface ConflictMarker {
 // Merge Conflicts
 // ============================================================================
 
+/** Why two changed regions cannot be merged independently */
+export type RegionConflictKind =
+  /** Both branches changed the same symbol */
+  | 'same_region'
+  /** One branch changed a symbol the other branch's changed symbol depends on */
+  | 'dependency'
+  /** Both branches changed overlapping lines of a non-symbol region (imports, exports, line chunks) */
+  | 'overlapping_lines';
+
+/** A pair of base regions changed by two branches that conflict */
+export interface RegionConflict {
+  /** Reason for the conflict */
+  readonly kind: RegionConflictKind;
+  /** Region changed by the first branch */
+  readonly region1: CodeRegion;
+  /** Region changed by the second branch */
+  readonly region2: CodeRegion;
+}
+
 /** A merge conflict between two branches */
 export interface MergeConflict {
   /** Unique conflict identifier */
@@ -186,6 +212,8 @@ export interface MergeConflict {
   readonly branch2: VirtualBranch;
   /** Conflicting code regions */
   readonly conflictingRegions: CodeRegion[];
+  /** Region pairs that caused the conflict (empty for file-level conflicts) */
+  readonly regionConflicts: RegionConflict[];
 }
 
 /** Input for three-way merge */
@@ -281,9 +309,10 @@ export interface IVirtualBranchService {
    * Create a new virtual branch for an agent/task
    * @param agentId - Agent that owns the branch
    * @param taskId - Task this branch is for
+   * @param missionId - Mission the task belongs to
    * @returns The created branch
    */
-  createBranch(agentId: AgentId, taskId: TaskId): AsyncResult<VirtualBranch>;
+  createBranch(agentId: AgentId, taskId: TaskId, missionId?: MissionId): AsyncResult<VirtualBranch>;
 
   /**
    * Get a branch by ID
@@ -384,6 +413,12 @@ export interface IMergeEngineService {
    */
   detectConflicts(): MergeConflict[];
 
+  /**
+   * Merge files changed by several branches in independent regions
+   * @returns Merged files
+   */
+  mergeIndependentChanges(): FilePath[];
+
   /**
    * Create a conflict between two branches for a file
    * @param branch1 - First branch
@@ -499,6 +534,22 @@ export interface ISemanticAnalyzerService {
    */
   getDependentRegions(region: CodeRegion, allRegions: CodeRegion[]): CodeRegion[];
 
+  /**
+   * Find region pairs that conflict between two modifications of the same base.
+   * Changes to different symbols that do not depend on each other do not conflict.
+   * @param filePath - File being changed
+   * @param baseContent - Common base content
+   * @param content1 - Content from the first branch
+   * @param content2 - Content from the second branch
+   * @returns Conflicting region pairs (empty if the changes are independent)
+   */
+  findRegionConflicts(
+    filePath: FilePath,
+    baseContent: string,
+    content1: string,
+    content2: string
+  ): RegionConflict[];
+
   /**
    * Check if a file type is supported for analysis
    * @param filePath - File to check
@@ -31,6 +31,15 @@ export interface BudgetCheck {
   readonly overflow?: TokenCount;
 }
 
+/** Tokenizer model family: OpenAI-compatible models (GPT, GLM) or Claude models */
+export type TokenizerFamily = 'openai' | 'claude';
+
+/** Counts tokens the way one model family's tokenizer does */
+export interface ITokenizer {
+  readonly family: TokenizerFamily;
+  count(text: string): number;
+}
+
 /** Token usage */
 export interface TokenUsage {
   readonly inputTokens: TokenCount;
@@ -105,6 +114,8 @@ export interface SelectedFile {
   readonly relevance: number;
   readonly reason: string;
   readonly level: DisclosureLevel;
+  /** Level the file was selected for, when it was downgraded to fit the budget */
+  readonly downgradedFrom?: DisclosureLevel;
 }
 
 /** Selected symbol */
@@ -333,10 +344,13 @@ export interface ITokenBudgetService {
   checkBudget(content: string, budget: TokenBudget): BudgetCheck;
   canAllocate?(category: BudgetCategory, tokens: number): boolean;
 
-  // Token counting
-  countTokens(text: string): TokenCount;
+  // Token counting (the model selects the tokenizer; defaults to Claude)
+  countTokens(text: string, model?: string): TokenCount;
   estimateTokens(request: ContextRequest): TokenCount;
 
+  // Correct future counts by the token count a provider reported for text
+  calibrate?(text: string, actualTokens: number, model?: string): void;
+
   // Release tokens back
   release?(category: BudgetCategory, tokens: number): void;
 
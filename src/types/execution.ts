@@ -17,6 +17,7 @@ import {
   MissionId,
   TaskId,
   TokenCount,
+  VirtualBranchId,
 } from './common';
 import { IStore } from './infrastructure';
 import { ContextSelection } from './context';
@@ -359,6 +360,8 @@ export interface Mission {
   completedAt?: Date | null;
   updatedAt?: Date;
   result?: MissionResult | null;
+  /** Plan being executed, kept so an interrupted mission can be resumed */
+  plan?: ExecutionPlan;
   metadata?: Record<string, unknown>;
 }
 
@@ -388,6 +391,8 @@ export interface AgentRequest {
   readonly type?: string;
   readonly agentId?: AgentId;
   readonly task?: Task;
+  /** Hierarchy level to route the request at (defaults to the task's level, then worker) */
+  readonly level?: HierarchyLevel;
   readonly context?: ContextSelection | Array<{ type: string; path?: string; content: string }>;
   readonly prompt: string;
   readonly systemContext?: string;
@@ -439,6 +444,7 @@ export interface IExecutionStore extends IStore {
   getMission(id: MissionId): AsyncResult<Mission | null>;
   listMissions(filter?: MissionFilter): AsyncResult<Mission[]>;
   updateMission(mission: Partial<Mission> & { id: MissionId }): AsyncResult<void>;
+  deleteMission(id: MissionId): AsyncResult<void>;
 
   // Tasks
   saveTask(task: Task): AsyncResult<void>;
@@ -480,6 +486,8 @@ export interface IAgentPoolService {
   getStatus(agentId: AgentId): AgentStatus | undefined;
   getAll(): PoolAgent[];
   getAvailableCount(): number;
+  /** Maximum number of agents the pool will run concurrently */
+  getCapacity(): number;
 
   // Statistics
   getStats(): {
@@ -513,6 +521,7 @@ export interface SimpleTaskConfig {
   description: string;
   priority?: TaskPriority;
   dependencies?: TaskDependency[];
+  metadata?: Record<string, unknown>;
 }
 
 /** Task result for completion */
@@ -538,6 +547,8 @@ export interface TaskResult {
   output?: string;
   error?: string;
   duration?: number;
+  /** File changes the task produced */
+  changes?: import('./verification').FileChange[];
 }
 
 /** Task manager service */
@@ -560,6 +571,10 @@ export interface ITaskManagerService {
   retry(taskId: TaskId): AsyncResult<Task>;
   clearCompleted(missionId: MissionId): void;
   getStats(): TaskStats;
+
+  // Persistence
+  /** Load a mission's stored tasks; unfinished ones are cancelled as interrupted */
+  load(missionId: MissionId): AsyncResult<Task[]>;
 }
 
 /** Mission configuration for creation */
@@ -612,6 +627,14 @@ export interface IMissionManagerService {
   advancePhase(missionId: MissionId): AsyncResult<void>;
   rollback(missionId: MissionId): AsyncResult<void>;
   taskCompleted(missionId: MissionId, taskId: TaskId): AsyncResult<void>;
+
+  // Persistence
+  /** Record the plan a mission executes */
+  setPlan(missionId: MissionId, plan: ExecutionPlan): AsyncResult<void>;
+  /** Reset an interrupted or finished mission to pending so its plan can run again */
+  reopen(missionId: MissionId): AsyncResult<void>;
+  /** Load stored missions, returning those a restart interrupted */
+  load(): AsyncResult<Mission[]>;
 }
 
 /** Execution plan */
@@ -623,10 +646,13 @@ export interface ExecutionPlan {
 
 /** Execution task configuration */
 export interface ExecutionTaskConfig {
+  /** Plan-local identifier referenced by other tasks' dependencies (defaults to the task's index) */
+  id?: string;
   type: string;
   description: string;
   prompt?: string;
   priority?: TaskPriority;
+  /** Dependencies on other tasks in the same plan, keyed by their plan-local id */
   dependencies?: TaskDependency[];
   relevantFiles?: string[];
   tokenBudget?: number;
@@ -641,6 +667,19 @@ export interface ExecutionResult {
   tasksCompleted: number;
   changes?: import('./verification').FileChange[];
   verification?: import('./verification').VerificationResult;
+  /** Verification issues attributed to the tasks that produced them */
+  findings?: VerificationFinding[];
+}
+
+/** Verification issue linked to the task and branch whose change caused it */
+export interface VerificationFinding {
+  readonly issue: import('./verification').VerificationIssue;
+  /** File the issue was found in */
+  readonly file?: string;
+  /** Task whose change produced the verified content */
+  readonly taskId?: TaskId;
+  /** Virtual branch holding that change */
+  readonly branchId?: VirtualBranchId;
 }
 
 /** Execution coordinator service */
@@ -650,4 +689,9 @@ export interface IExecutionCoordinatorService {
   onProgress(handler: (progress: ExecutionProgress) => void): Disposable;
   getCurrentProgress(missionId: MissionId): ExecutionProgress | null;
   cancel(missionId: MissionId): AsyncResult<void>;
+  /** Run an interrupted mission's plan again: reuse completed task results, or undo merged changes and retry */
+  resumeMission(missionId: MissionId, mode: MissionResumeMode, token?: CancellationToken): AsyncResult<ExecutionResult>;
 }
+
+/** How an interrupted mission is picked up again */
+export type MissionResumeMode = 'resume' | 'retry';
@@ -13,6 +13,7 @@ import {
   RelativePath,
   TokenCount,
   AsyncResult,
+  Result,
   CancellationToken,
   SourceLocation,
 } from './common';
@@ -25,6 +26,7 @@ import { IServiceContainer, AlterCodeConfig } from './infrastructure';
 import { ContextSelection, DisclosureLevel } from './context';
 import { FileChange, VerificationResult, VerificationLevel } from './verification';
 import { ToolDefinition as IntegrationToolDefinition } from './integration';
+import { CostSummary, LevelUsage, UsageHistoryEntry } from './quota';
 import {
   Task,
   TaskStatus,
@@ -43,6 +45,7 @@ import {
   IMissionManagerService,
   IExecutionCoordinatorService,
   HierarchyLevel,
+  AgentRole,
 } from './execution';
 import { IIntentService, IScopeGuardService, IPreflightService, ScopeViolation as BaseScopeViolation, RiskLevel } from './protocol';
 
@@ -67,6 +70,8 @@ export const ServiceToken = {
 /** Intent Parser Service interface (simpler than full IIntentService) */
 export interface IIntentParserService {
   parse(userMessage: string, context?: { currentFile?: FilePath }): UserIntent;
+  /** Classify with the configured classifier, falling back to parse() */
+  classify(userMessage: string, context?: { currentFile?: FilePath }): Promise<UserIntent>;
   extractTargets?(message: string, context?: { currentFile?: FilePath }): UserIntentTarget[];
   extractConstraints?(message: string): UserIntentConstraint[];
   getConfidence?(intent: UserIntent): number;
@@ -108,7 +113,32 @@ export interface LLMRequest {
   temperature?: number;
   topP?: number;
   stopSequences?: string[];
-  history?: Array<{ role: string; content: string }>;
+  history?: LLMMessage[];
+  /** Results for the tool calls of the last assistant message in history */
+  toolResults?: LLMToolResult[];
+  /** Hierarchy level the request is made for; routers select the model from it */
+  level?: HierarchyLevel;
+  /** Agent role the request is made for; role routes take precedence over level routes */
+  role?: AgentRole;
+  /** Explicit model, overriding the adapter's configured model */
+  model?: string;
+}
+
+/** Conversation message sent as history */
+export interface LLMMessage {
+  role: string;
+  content: string;
+  /** Tool calls requested by an assistant message */
+  toolCalls?: ToolCall[];
+  /** Tool results carried by a user message */
+  toolResults?: LLMToolResult[];
+}
+
+/** Result of a tool call, fed back to the model */
+export interface LLMToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
 }
 
 /** LLM response */
@@ -118,6 +148,8 @@ export interface LLMResponse {
   finishReason: string;
   usage?: LLMUsage;
   duration: number;
+  /** Routing table provider that served the request, set by routers */
+  provider?: string;
 }
 
 /** LLM token usage */
@@ -125,6 +157,12 @@ export interface LLMUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  /** Prompt tokens read from the prompt cache (included in promptTokens) */
+  cacheReadTokens?: number;
+  /** Prompt tokens written to the prompt cache (included in promptTokens) */
+  cacheWriteTokens?: number;
+  /** Counted locally because the provider reported no usage */
+  estimated?: boolean;
 }
 
 /** LLM stream chunk */
@@ -149,8 +187,17 @@ export interface ILLMAdapter {
     request: LLMRequest,
     tools: IntegrationToolDefinition[]
   ): AsyncResult<{ response: LLMResponse; toolCalls: ToolCall[] }>;
+  /** Stream the text of a completion with tools as it arrives; returns the complete response */
+  streamWithTools?(
+    request: LLMRequest,
+    tools: IntegrationToolDefinition[]
+  ): AsyncGenerator<LLMStreamChunk, Result<{ response: LLMResponse; toolCalls: ToolCall[] }>>;
   getConfig(): LLMConfig;
   setConfig(config: Partial<LLMConfig>): void;
+  /** Model a request would be sent to, when it differs per request (defaults to the configured model) */
+  getModel?(request: LLMRequest): string;
+  /** Routing table provider a request would be sent to */
+  getProvider?(request: LLMRequest): string;
 }
 
 /** Tool definition for LLM */
@@ -307,7 +354,7 @@ export interface HiveState {
       callCount?: number;
       tokensSent?: number;
       tokensReceived?: number;
-      byLevel?: Record<string, { calls: number; tokensSent: number; tokensReceived: number }>;
+      byLevel?: Partial<Record<HierarchyLevel, LevelUsage>>;
     };
     glm?: {
       status: 'ok' | 'warning' | 'critical' | 'exceeded';
@@ -316,9 +363,16 @@ export interface HiveState {
       callCount?: number;
       tokensSent?: number;
       tokensReceived?: number;
-      byLevel?: Record<string, { calls: number; tokensSent: number; tokensReceived: number }>;
+      byLevel?: Partial<Record<HierarchyLevel, LevelUsage>>;
     };
   };
+  /** Recent usage samples per provider (optional - only present when quota tracking enabled) */
+  usageHistory?: {
+    claude: UsageHistoryEntry[];
+    glm: UsageHistoryEntry[];
+  };
+  /** Spend per day, mission, task and level (optional - only present when quota tracking enabled) */
+  costs?: CostSummary;
   /** Agent activity summary (optional - only present when activity tracking enabled) */
   activity?: {
     activeCount: number;
@@ -436,10 +490,14 @@ export interface PreflightCheck {
 export interface FileBackup {
   path: string;
   content?: string;
+  /** Hash of the content blob when the content is stored outside memory */
+  hash?: string;
   existed: boolean;
   timestamp: Date;
   missionId: MissionId;
   taskId?: TaskId;
+  /** Rollback point the backup was taken for */
+  pointId?: string;
   size?: number;
 }
 
@@ -143,6 +143,9 @@ export {
   type IDatabase,
   type DatabaseConfig,
 
+  // Blob Store
+  type IBlobStore,
+
   // Cache
   type CacheOptions,
   type CacheStats,
@@ -160,12 +163,16 @@ export {
   type ClaudeAccessMode,
   type SimpleLLMConfig,
   type VerificationConfig,
+  type CommandPolicyConfig,
+  type MissionGitMode,
+  type MissionGitConfig,
   type ProtocolConfig,
   type StorageConfig,
   type UIConfig,
   type AlterCodeConfig,
   type IConfigManager,
   DEFAULT_CONFIG,
+  DEFAULT_STORAGE_CONFIG,
 
   // Service Container
   type ServiceToken,
@@ -229,6 +236,7 @@ export {
   type ExportInfo,
   type DependencyGraph,
   type CallGraph,
+  type CallSite,
   type InheritanceGraph,
   type SemanticIndex,
   type SearchOptions,
@@ -271,6 +279,8 @@ export {
   // Token Budget
   type TokenBudget,
   type BudgetCheck,
+  type TokenizerFamily,
+  type ITokenizer,
   type TokenUsage,
 
   // Context Selection
@@ -388,6 +398,10 @@ export {
   type ISymbolResolverService,
   type IAPICheckerService,
   type IDependencyVerifierService,
+  type ITypeCheckerService,
+  type ITestRunnerService,
+  type TestRunnerKind,
+  type TestRunResult,
 } from './verification';
 
 // ============================================================================
@@ -400,6 +414,8 @@ export {
   type UserIntentType,
   type UserIntentTarget,
   type UserIntentConstraint,
+  type IntentClassifierMode,
+  type IntentClassifierConfig,
   type IntentParseContext,
 
   // Intent Declaration
@@ -440,6 +456,8 @@ export {
   type RollbackResult,
   type RollbackHistoryItem,
   type ExtendedRollbackPoint,
+  type RollbackRetention,
+  DEFAULT_ROLLBACK_RETENTION,
 
   // Impact Analysis
   type BrokenImport,
@@ -462,12 +480,18 @@ export {
   type ExtendedFileOperation,
   type ExtendedScopePolicy,
   type ExtendedScopeViolation,
+  type ScopeEnforcementContext,
+  type ScopeDecision,
 
   // Services
   type IIntentService,
   type IScopeGuardService,
   type IPreflightService,
   type IRollbackService,
+  type MissionGitBranch,
+  type MissionCommit,
+  type MissionPullRequest,
+  type IMissionGitService,
   type IImpactAnalyzerService,
   type IProtocolStore,
 } from './protocol';
@@ -528,8 +552,10 @@ export {
 
   // Execution Plan
   type ExecutionPlan,
+  type MissionResumeMode,
   type ExecutionTaskConfig,
   type ExecutionResult,
+  type VerificationFinding,
 
   // Execution
   type AgentRequest,
@@ -564,6 +590,7 @@ export {
   // Tools
   type ToolParameter,
   type ToolDefinition,
+  buildToolInputSchema,
 
   // Request/Response
   type CompletionRequest,
@@ -592,6 +619,14 @@ export {
   MODEL_PROVIDER_MAP,
   getProviderForModel,
 
+  // Model Routing
+  type RouteProviderKind,
+  type RouteProviderConfig,
+  type ModelRouteTarget,
+  type ModelRoute,
+  type ModelRoutingTable,
+  type ModelRoutingSettings,
+
   // Defaults
   DEFAULT_CLAUDE_CONFIG,
   DEFAULT_GLM_CONFIG,
@@ -615,6 +650,8 @@ export {
   // LLM types
   type LLMConfig,
   type LLMRequest,
+  type LLMMessage,
+  type LLMToolResult,
   type LLMResponse,
   type LLMUsage,
   type LLMStreamChunk,
@@ -662,15 +699,23 @@ export {
   type LevelUsage,
   type UsageMetrics,
   createEmptyUsageMetrics,
+  type UsageHistoryEntry,
   type UsageLimits,
   DEFAULT_USAGE_LIMITS,
   QUOTA_WINDOW_DURATION_MS,
   type QuotaWindow,
   type QuotaStatusLevel,
   type QuotaStatus,
+  type ModelPrice,
+  type PriceTable,
+  DEFAULT_PRICE_TABLE,
+  type CostBudget,
+  type CostBudgetKind,
+  type CostSummary,
   type QuotaConfig,
   DEFAULT_QUOTA_CONFIG,
   type TokenUsageRecord,
+  type QuotaBudgetDetails,
   type QuotaWarningEvent,
   type QuotaExceededEvent,
   type QuotaResetEvent,
@@ -691,7 +736,10 @@ export {
   type ActivityStartedEvent,
   type ActivityCompletedEvent,
   type ActivityFailedEvent,
+  type ActivityScopeViolationEvent,
   type ActivityEvent,
+  type ScopeViolationOutcome,
+  type ScopeViolationRecord,
   type ActivityStats,
   type IAgentActivityService,
 } from './activity';
@@ -712,6 +760,8 @@ export {
   type RegionType,
   type CodeRegion,
   type ConflictMarker,
+  type RegionConflictKind,
+  type RegionConflict,
   type MergeConflict,
   type MergeInput,
   type MergeResult,
@@ -748,3 +798,18 @@ export {
   type LevelOverride,
   type IApprovalService,
 } from './approval';
+
+// ============================================================================
+// Chat Types
+// ============================================================================
+
+export {
+  type StoredChatRole,
+  type ChatTokenUsage,
+  type StoredChatSession,
+  type StoredChatMessage,
+  type ChatSearchResult,
+  type ChatExportFormat,
+  type ChatSessionOptions,
+  type IChatStore,
+} from './chat';
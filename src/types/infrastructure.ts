@@ -3,6 +3,7 @@
  *
  * Types for infrastructure layer components:
  * - Database
+ * - Blob Store
  * - Cache
  * - Event Bus
  * - Logger
@@ -17,6 +18,10 @@ import {
   RelativePath,
   TokenCount,
 } from './common';
+import type { HierarchyLevel } from './execution';
+import { ModelRoutingSettings } from './integration';
+import { QuotaConfig } from './quota';
+import type { IntentClassifierConfig } from './protocol';
 
 // ============================================================================
 // Logger Types
@@ -159,6 +164,29 @@ export interface DatabaseConfig {
   readonly walMode?: boolean;
   readonly busyTimeout?: number;
   readonly cacheSize?: number;
+  /** Write the database file after changes outside a transaction, coalescing bursts of changes */
+  readonly autoPersist?: boolean;
+  /** Delay before changes are written when auto-persisting (ms, default 1000) */
+  readonly persistDelay?: number;
+}
+
+// ============================================================================
+// Blob Store Types
+// ============================================================================
+
+/** Content-addressed store for file contents */
+export interface IBlobStore {
+  /** Store content and return its hash (identical content is stored once) */
+  put(content: string): AsyncResult<string>;
+
+  /** Read a blob by hash, or null if it does not exist */
+  get(hash: string): AsyncResult<string | null>;
+
+  /** Check if a blob exists */
+  has(hash: string): Promise<boolean>;
+
+  /** Delete a blob */
+  delete(hash: string): AsyncResult<void>;
 }
 
 // ============================================================================
@@ -332,11 +360,40 @@ export interface GLMConfig {
 export interface VerificationConfig {
   readonly enabled: boolean;
   readonly strictness: 'strict' | 'standard' | 'lenient';
+  /** How convention violations are treated: errors, warnings, or informational only */
+  readonly conventionStrictness?: 'strict' | 'standard' | 'lenient';
+  /** Run the tests related to a mission's changes before they are merged (default: true) */
+  readonly runTests?: boolean;
+  /** Time allowed for a package's test run, in milliseconds */
+  readonly testTimeout?: number;
   readonly preGeneration: boolean;
   readonly postGeneration: boolean;
   readonly preApply: boolean;
 }
 
+/** Commands the run_command tool may run */
+export interface CommandPolicyConfig {
+  /** Commands run without asking; an entry matches the command itself or the command with more arguments */
+  readonly allow: string[];
+  /** Commands always refused, matched the same way against each part of a compound command */
+  readonly deny: string[];
+}
+
+/** How missions are recorded in git: not at all, or on a branch of the working tree */
+export type MissionGitMode = 'off' | 'branch';
+
+/** Git recording of missions */
+export interface MissionGitConfig {
+  readonly mode: MissionGitMode;
+  /** Prefix of mission branch names */
+  readonly branchPrefix: string;
+  /** Squash a mission's task commits into one when it completes */
+  readonly squashOnComplete: boolean;
+  /** Author of mission commits; the committer stays the user's git identity */
+  readonly authorName: string;
+  readonly authorEmail: string;
+}
+
 /** Protocol configuration */
 export interface ProtocolConfig {
   readonly requireIntent: boolean;
@@ -373,6 +430,10 @@ export interface SimpleLLMConfig {
   readonly model?: string;
   /** Claude access mode: 'api' for direct API, 'cli' for Claude Code CLI */
   readonly claudeMode?: ClaudeAccessMode;
+  /** Model routing per hierarchy level and agent role */
+  readonly routing?: ModelRoutingSettings;
+  /** Hierarchy level chat messages are routed at (default 'lord') */
+  readonly chatLevel?: HierarchyLevel;
 }
 
 /** Main AlterCode configuration */
@@ -388,6 +449,14 @@ export interface AlterCodeConfig {
   readonly logger?: LoggerConfig;
   /** Simple LLM config for extension */
   readonly llm?: SimpleLLMConfig;
+  /** Quota thresholds, model prices and budgets */
+  readonly quota?: QuotaConfig;
+  /** Classification of user messages */
+  readonly intent?: Partial<IntentClassifierConfig>;
+  /** Command policy of the run_command tool */
+  readonly commands?: Partial<CommandPolicyConfig>;
+  /** Git branches and commits for missions */
+  readonly git?: Partial<MissionGitConfig>;
   /** Max context tokens */
   readonly maxContextTokens?: number;
   /** Log level shortcut */
@@ -615,6 +684,15 @@ export interface IPerformanceMonitor {
 
 import { toFilePath, toTokenCount } from './common';
 
+/** Default storage configuration */
+export const DEFAULT_STORAGE_CONFIG: StorageConfig = {
+  databasePath: toFilePath('.altercode/altercode.db'),
+  cachePath: toFilePath('.altercode/cache'),
+  snapshotPath: toFilePath('.altercode/snapshots'),
+  maxSnapshots: 100,
+  cacheMaxSize: 100 * 1024 * 1024, // 100MB
+};
+
 /** Default AlterCode configuration */
 export const DEFAULT_CONFIG: AlterCodeConfig = {
   projectRoot: toFilePath(process.cwd()),
@@ -646,13 +724,7 @@ export const DEFAULT_CONFIG: AlterCodeConfig = {
     autoSnapshot: true,
     impactAnalysis: true,
   },
-  storage: {
-    databasePath: toFilePath('.altercode/altercode.db'),
-    cachePath: toFilePath('.altercode/cache'),
-    snapshotPath: toFilePath('.altercode/snapshots'),
-    maxSnapshots: 100,
-    cacheMaxSize: 100 * 1024 * 1024, // 100MB
-  },
+  storage: DEFAULT_STORAGE_CONFIG,
   ui: {
     theme: 'auto',
     showVerification: true,
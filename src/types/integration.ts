@@ -6,10 +6,11 @@
  * - Claude Adapter
  * - GLM Adapter
  * - Message Types
+ * - Model Routing
  */
 
 import { AsyncResult, TokenCount } from './common';
-import { AIModel } from './execution';
+import { AIModel, HierarchyLevel, AgentRole } from './execution';
 
 // ============================================================================
 // Provider Capability Types
@@ -98,6 +99,24 @@ export interface ToolDefinition {
   readonly parameters: ToolParameter[];
 }
 
+/** Build the JSON Schema object providers expect for tool input */
+export function buildToolInputSchema(parameters: ToolParameter[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const param of parameters) {
+    properties[param.name] = {
+      type: param.type,
+      description: param.description,
+      ...(param.enum ? { enum: param.enum } : {}),
+    };
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: parameters.filter((p) => p.required).map((p) => p.name),
+  };
+}
+
 // ============================================================================
 // Request/Response Types
 // ============================================================================
@@ -286,6 +305,54 @@ export function getProviderForModel(model: AIModel): ProviderType {
   return MODEL_PROVIDER_MAP[model];
 }
 
+// ============================================================================
+// Model Routing
+// ============================================================================
+
+/** Kind of provider a route can target */
+export type RouteProviderKind = 'claude-api' | 'claude-cli' | 'glm' | 'openai-compatible';
+
+/** Provider endpoint referenced by routes */
+export interface RouteProviderConfig {
+  readonly kind: RouteProviderKind;
+  /** API key (claude-api, glm, optional for openai-compatible) */
+  readonly apiKey?: string;
+  /** Endpoint URL (glm, openai-compatible), e.g. http://localhost:8080/v1/chat/completions */
+  readonly baseUrl?: string;
+  /** CLI executable (claude-cli) */
+  readonly cliPath?: string;
+  /** Working directory (claude-cli) */
+  readonly workingDirectory?: string;
+}
+
+/** Provider and model a request is sent to */
+export interface ModelRouteTarget {
+  /** Key into the routing table's providers */
+  readonly provider: string;
+  /** Model name; omit to use the provider's default */
+  readonly model?: string;
+}
+
+/** Route with an ordered fallback chain, tried when the target fails */
+export interface ModelRoute extends ModelRouteTarget {
+  readonly fallbacks?: ModelRouteTarget[];
+}
+
+/** Complete routing table */
+export interface ModelRoutingTable {
+  readonly providers: Readonly<Record<string, RouteProviderConfig>>;
+  readonly levels: Readonly<Record<HierarchyLevel, ModelRoute>>;
+  /** Role routes take precedence over level routes */
+  readonly roles: Readonly<Partial<Record<AgentRole, ModelRoute>>>;
+}
+
+/** Routing settings, merged over the table derived from provider settings */
+export interface ModelRoutingSettings {
+  readonly providers?: Readonly<Record<string, RouteProviderConfig>>;
+  readonly levels?: Readonly<Partial<Record<HierarchyLevel, ModelRoute>>>;
+  readonly roles?: Readonly<Partial<Record<AgentRole, ModelRoute>>>;
+}
+
 // ============================================================================
 // Default Configurations
 // ============================================================================
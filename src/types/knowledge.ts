@@ -312,6 +312,15 @@ export type DependencyGraph = Map<RelativePath, RelativePath[]>;
 /** Call graph */
 export type CallGraph = Map<string, string[]>;
 
+/** A call or construction of a named function, method or class */
+export interface CallSite {
+  /** Enclosing function or method (`Class.method`); absent at module level */
+  readonly caller?: string;
+  /** Called name; the last member name for calls like `a.b.run()` */
+  readonly callee: string;
+  readonly location: SourceLocation;
+}
+
 /** Inheritance graph */
 export type InheritanceGraph = Map<string, string[]>;
 
@@ -327,6 +336,7 @@ export interface SemanticIndex {
   readonly fileSymbols: Map<RelativePath, AnySymbol[]>;
   readonly fileImports: Map<RelativePath, ImportInfo[]>;
   readonly fileExports: Map<RelativePath, ExportInfo[]>;
+  readonly fileCalls: Map<RelativePath, CallSite[]>;
 
   // Relationship graphs
   readonly imports: DependencyGraph;
@@ -476,6 +486,10 @@ export interface ErrorPattern {
   readonly category: ErrorPatternCategory;
   readonly messagePattern: string;
   readonly codePattern?: string;
+  /** File the error was first seen in */
+  readonly file?: RelativePath;
+  /** Symbol the error concerned */
+  readonly symbol?: string;
   readonly occurrences: number;
   readonly firstSeen: Date;
   readonly lastSeen: Date;
@@ -493,6 +507,7 @@ export interface ErrorOccurrence {
   readonly agentId: AgentId;
   readonly file?: RelativePath;
   readonly line?: number;
+  readonly symbol?: string;
   readonly code?: string;
   readonly errorMessage: string;
   readonly resolved: boolean;
@@ -521,6 +536,7 @@ export interface ErrorContext {
   readonly taskId: TaskId;
   readonly agentId: AgentId;
   readonly file?: RelativePath;
+  readonly symbol?: string;
   readonly code?: string;
   readonly intent?: string;
 }
@@ -579,8 +595,11 @@ export interface ISemanticIndexService {
   findSymbol(name: string, kind?: SymbolKind): AnySymbol[];
   findSymbolsInFile(path: RelativePath): AnySymbol[];
   getImports(path: RelativePath): ImportInfo[];
+  /** Indexed files with a relative import of the file */
+  getImporters(path: RelativePath): RelativePath[];
   getExports(path: RelativePath): ExportInfo[];
-  getCallers(symbol: string): SourceLocation[];
+  /** Call sites of a function, method or class; `Class.method` matches calls of `method` */
+  getCallers(symbol: string): CallSite[];
   getCallees(symbol: string): string[];
 
   search(query: string, options?: SearchOptions): Array<{ symbol: AnySymbol; score: number }>;
@@ -591,14 +610,21 @@ export interface IConventionExtractorService {
   analyze(): AsyncResult<ProjectConventions>;
   getConventions(): ProjectConventions | null;
   checkCompliance(code: string, file: RelativePath): ComplianceResult;
+  /** Detected conventions as short lines for agent prompts */
+  summarize(): string[];
 }
 
 /** Error memory service */
 export interface IErrorMemoryService {
-  recordError(error: Error, context: ErrorContext): AsyncResult<void>;
+  /** Record an error, returning the pattern it was matched to */
+  recordError(error: Error, context: ErrorContext): AsyncResult<ErrorPattern>;
+  /** Record how a pattern is avoided; it becomes the pattern's prevention hint */
   recordResolution(patternId: string, resolution: string): AsyncResult<void>;
+  /** Load patterns learned in earlier sessions */
+  loadPatterns(): AsyncResult<void>;
   getPatterns(): ErrorPattern[];
   getPattern(id: string): ErrorPattern | null;
   findSimilar(error: Error): ErrorPattern[];
+  /** Hints from patterns relevant to the intent and target files or symbols, most relevant first */
   getPreventionHints(context: { intent: string; targets: string[] }): string[];
 }
@@ -32,3 +32,10 @@ declare module 'glob' {
 declare module 'uuid' {
   export function v4(): string;
 }
+
+declare module 'js-tiktoken/ranks/cl100k_base' {
+  import { TiktokenBPE } from 'js-tiktoken/lite';
+
+  const ranks: TiktokenBPE;
+  export default ranks;
+}
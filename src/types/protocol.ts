@@ -6,6 +6,7 @@
  * - Scope Boundary
  * - Pre-flight Checklist
  * - Rollback System
+ * - Mission Git Branches
  * - Impact Analysis
  */
 
@@ -23,6 +24,7 @@ import {
 } from './common';
 import { IStore } from './infrastructure';
 import { FileChange } from './verification';
+import type { ScopeViolationOutcome } from './activity';
 
 // ============================================================================
 // User Intent Types (for parsing user messages)
@@ -36,6 +38,10 @@ export interface UserIntent {
   confidence: number;
   rawMessage: string;
   keywords: string[];
+  /** Classifier that produced the intent */
+  source?: IntentClassifierMode;
+  /** Question to ask the user instead of acting on a low-confidence intent */
+  clarification?: string;
 }
 
 /** User intent type */
@@ -47,6 +53,8 @@ export interface UserIntentTarget {
   name: string;
   symbolKind?: string;
   confidence: number;
+  /** File defining the symbol, once resolved against the semantic index */
+  file?: string;
 }
 
 /** User intent constraint */
@@ -61,6 +69,19 @@ export interface IntentParseContext {
   currentFile?: FilePath;
 }
 
+/** How user messages are classified: by a model, or by keyword patterns only */
+export type IntentClassifierMode = 'llm' | 'regex';
+
+/** Intent classifier configuration */
+export interface IntentClassifierConfig {
+  /** Classifier to use; 'llm' falls back to patterns when the model fails (default: 'llm') */
+  readonly mode: IntentClassifierMode;
+  /** Confidence below which the user is asked to clarify (default: 0.5) */
+  readonly minConfidence: number;
+  /** Model for classification (default: the worker-level route) */
+  readonly model?: string;
+}
+
 // ============================================================================
 // Intent Declaration Types
 // ============================================================================
@@ -568,11 +589,31 @@ export interface ExtendedScopeViolation {
   requiresConfirmation?: boolean;
 }
 
+/** Caller context for enforcing the scope policy on a write */
+export interface ScopeEnforcementContext {
+  /** Write path performing the operation (e.g. 'task', 'merge', 'tool:write_file') */
+  source: string;
+  /** Task performing the operation */
+  taskId?: TaskId;
+  /** Ask the user to confirm a violation that requires confirmation */
+  confirm?: (violation: ExtendedScopeViolation) => Promise<boolean>;
+}
+
+/** Result of enforcing the scope policy */
+export interface ScopeDecision {
+  allowed: boolean;
+  violation: ExtendedScopeViolation | null;
+  outcome?: ScopeViolationOutcome;
+}
+
 /** Scope guard service - interface for scope enforcement */
 export interface IScopeGuardService {
   // Core method - check a single operation
   check(operation: ExtendedFileOperation): ExtendedScopeViolation | null;
 
+  // Check an operation and resolve a violation (confirm or block), reporting it
+  enforce(operation: ExtendedFileOperation, context: ScopeEnforcementContext): Promise<ScopeDecision>;
+
   // Policy management
   setPolicy(missionId: MissionId, policy: Partial<ExtendedScopePolicy>): void;
   getPolicy(missionId?: MissionId): ExtendedScopePolicy;
@@ -643,22 +684,57 @@ export interface ExtendedRollbackPoint {
   description: string;
 }
 
+/** Retention limits for rollback history */
+export interface RollbackRetention {
+  /** Maximum total size of backed-up contents in bytes */
+  readonly maxTotalSize: number;
+  /** Maximum age of a rollback point in milliseconds */
+  readonly maxAge: number;
+}
+
+/** Default rollback retention for finished missions: 50MB, 7 days */
+export const DEFAULT_ROLLBACK_RETENTION: RollbackRetention = {
+  maxTotalSize: 50 * 1024 * 1024,
+  maxAge: 7 * 24 * 60 * 60 * 1000,
+};
+
 /** Rollback service */
 export interface IRollbackService {
+  // Load persisted history
+  initialize?(): AsyncResult<void>;
+
   // Simple backup method
   backup(paths: FilePath[], missionId: MissionId, taskId?: TaskId): AsyncResult<ExtendedRollbackPoint>;
 
   // Rollback to a point
   rollback(pointId: string): AsyncResult<string[]>;
 
-  // Restore single file
-  restore(path: FilePath, missionId: MissionId): AsyncResult<void>;
+  // Restore every file a task changed to its state before the task
+  rollbackTask(taskId: TaskId): AsyncResult<string[]>;
+
+  // Restore single file (to a specific point, or its latest backup)
+  restore(path: FilePath, missionId: MissionId, pointId?: string): AsyncResult<void>;
 
   // History for MissionManager
   getHistory(missionId: MissionId): ExtendedRollbackPoint[];
 
+  // History for a task
+  getTaskHistory(taskId: TaskId): ExtendedRollbackPoint[];
+
+  // History for a file, across missions unless one is given
+  getFileHistory(path: FilePath, missionId?: MissionId): import('./extended').FileBackup[];
+
+  // Missions with rollback history, most recent first
+  listMissions(): MissionId[];
+
+  // Allow the points of a completed, failed or cancelled mission to be pruned
+  finishMission?(missionId: MissionId): AsyncResult<void>;
+
+  // Apply retention limits to finished missions, returning the number of points removed
+  prune(): AsyncResult<number>;
+
   // Clear mission backups
-  clearMission?(missionId: MissionId): void;
+  clearMission?(missionId: MissionId): AsyncResult<void>;
 
   // Check if file has backup
   hasBackup?(path: FilePath, missionId: MissionId): boolean;
@@ -670,6 +746,61 @@ export interface IRollbackService {
   pruneOldSnapshots?(maxAge: number): AsyncResult<number>;
 }
 
+/** Git branch recording a mission */
+export interface MissionGitBranch {
+  readonly missionId: MissionId;
+  readonly branch: string;
+  /** Branch (or commit, when HEAD was detached) the mission started from */
+  readonly baseBranch: string;
+  readonly baseCommit: string;
+  readonly title: string;
+}
+
+/** Commit on a mission branch */
+export interface MissionCommit {
+  readonly hash: string;
+  readonly subject: string;
+  readonly taskId?: TaskId;
+}
+
+/** Description of a mission branch, ready to open as a pull request */
+export interface MissionPullRequest {
+  readonly branch: string;
+  readonly baseBranch: string;
+  readonly title: string;
+  readonly body: string;
+  readonly commits: MissionCommit[];
+}
+
+/** Mission git service: records missions as git branches and commits */
+export interface IMissionGitService {
+  isEnabled(): boolean;
+
+  // Create the mission branch from a clean working tree, or reuse it when the mission resumes; null when disabled
+  startMission(missionId: MissionId, title: string): AsyncResult<MissionGitBranch | null>;
+
+  // Commit the given files as a task's changes; null when nothing changed
+  commitTask(missionId: MissionId, taskId: TaskId, summary: string, files: FilePath[]): AsyncResult<MissionCommit | null>;
+
+  // Commit files restored by rolling back a task
+  commitTaskRollback(missionId: MissionId, taskId: TaskId, files: FilePath[]): AsyncResult<MissionCommit | null>;
+
+  // Finish a mission: squash when configured
+  completeMission(missionId: MissionId): AsyncResult<void>;
+
+  // Drop the mission's commits and branch, after its files were restored
+  discardMission(missionId: MissionId): AsyncResult<void>;
+
+  // Replace the mission's commits with a single commit
+  squash(missionId: MissionId): AsyncResult<MissionCommit>;
+
+  getPullRequest(missionId: MissionId): AsyncResult<MissionPullRequest>;
+  getBranch(missionId: MissionId): AsyncResult<MissionGitBranch | null>;
+
+  // Mission branches in the repository, including those of earlier sessions
+  listBranches(): AsyncResult<MissionGitBranch[]>;
+}
+
 /** Extended ImpactAnalysis for implementations */
 export interface ExtendedImpactAnalysis {
   directlyAffected: Array<{ path: string; reason: string; impactLevel: 'critical' | 'high' | 'medium' | 'low' | 'minimal' }>;
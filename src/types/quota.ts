@@ -2,10 +2,11 @@
  * Quota Types
  *
  * Types for API usage quota tracking:
- * - Per-provider usage metrics (Claude/GLM)
+ * - Per-provider usage metrics (Claude/GLM and routed providers)
  * - 5-hour rolling windows
  * - Level-specific usage tracking
  * - Warning and hard-stop thresholds
+ * - Model prices, cost accounting and money budgets
  */
 
 import {
@@ -18,18 +19,20 @@ import { HierarchyLevel } from './execution';
 // Provider Types
 // ============================================================================
 
-/** AI provider identifier */
-export type AIProvider = 'claude' | 'glm';
+/** AI provider identifier: a provider id of the model routing table ('claude' and 'glm' by default) */
+export type AIProvider = string;
 
 // ============================================================================
 // Usage Metrics
 // ============================================================================
 
-/** Usage metrics for a specific hierarchy level */
+/** Usage metrics for a specific hierarchy level or model */
 export interface LevelUsage {
   readonly callCount: number;
   readonly tokensSent: number;
   readonly tokensReceived: number;
+  /** Cost in USD */
+  readonly cost: number;
 }
 
 /** Aggregate usage metrics for a quota window */
@@ -37,7 +40,10 @@ export interface UsageMetrics {
   readonly callCount: number;
   readonly tokensSent: number;
   readonly tokensReceived: number;
+  /** Cost in USD */
+  readonly cost: number;
   readonly byLevel: Partial<Record<HierarchyLevel, LevelUsage>>;
+  readonly byModel: Record<string, LevelUsage>;
 }
 
 /** Create empty usage metrics */
@@ -46,10 +52,22 @@ export function createEmptyUsageMetrics(): UsageMetrics {
     callCount: 0,
     tokensSent: 0,
     tokensReceived: 0,
+    cost: 0,
     byLevel: {},
+    byModel: {},
   };
 }
 
+/** Usage history entry for tracking over time */
+export interface UsageHistoryEntry {
+  timestamp: Date;
+  provider: AIProvider;
+  callCount: number;
+  tokensSent: number;
+  tokensReceived: number;
+  usageRatio: number;
+}
+
 // ============================================================================
 // Usage Limits
 // ============================================================================
@@ -113,6 +131,66 @@ export interface QuotaStatus {
   readonly currentWindow: QuotaWindow;
 }
 
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  readonly input: number;
+  readonly output: number;
+  /** Prompt tokens read from the prompt cache (default: input price) */
+  readonly cacheRead?: number;
+  /** Prompt tokens written to the prompt cache (default: input price) */
+  readonly cacheWrite?: number;
+}
+
+/** Model prices keyed by model name or name prefix; the longest matching key applies */
+export type PriceTable = Readonly<Record<string, ModelPrice>>;
+
+/** List prices of the default models; models without a price (e.g. local ones) cost nothing */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'glm-4': { input: 0.6, output: 2.2, cacheRead: 0.11 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+};
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/** Spending limits in USD, enforced with the warning and hard-stop thresholds */
+export interface CostBudget {
+  /** Maximum spend per calendar day (null = unlimited) */
+  readonly dailyLimit: number | null;
+  /** Maximum spend per mission (null = unlimited) */
+  readonly missionLimit: number | null;
+}
+
+/** Budget a cost event refers to */
+export type CostBudgetKind = 'daily' | 'mission';
+
+/** Spend recorded since the tracker started, for the dashboard */
+export interface CostSummary {
+  /** Local calendar day of the daily totals (YYYY-MM-DD) */
+  readonly date: string;
+  /** Spend of the day in USD */
+  readonly today: number;
+  readonly byProvider: Record<string, number>;
+  readonly byModel: Record<string, number>;
+  readonly byLevel: Partial<Record<HierarchyLevel, number>>;
+  /** Spend per mission id */
+  readonly byMission: Record<string, number>;
+  /** Spend per task id */
+  readonly byTask: Record<string, number>;
+  readonly budget: CostBudget;
+}
+
 // ============================================================================
 // Quota Configuration
 // ============================================================================
@@ -127,6 +205,10 @@ export interface QuotaConfig {
   readonly estimatedMaxCalls?: number;
   /** Enable usage prediction (future feature) */
   readonly enablePrediction?: boolean;
+  /** Model prices, merged over the default table */
+  readonly prices?: PriceTable;
+  /** Spending limits */
+  readonly budget?: Partial<CostBudget>;
 }
 
 /** Default quota configuration */
@@ -135,6 +217,8 @@ export const DEFAULT_QUOTA_CONFIG: Required<QuotaConfig> = {
   hardStopThreshold: 0.95,
   estimatedMaxCalls: 100, // Estimated 100 calls per 5-hour window
   enablePrediction: false,
+  prices: DEFAULT_PRICE_TABLE,
+  budget: { dailyLimit: null, missionLimit: null },
 };
 
 // ============================================================================
@@ -145,14 +229,33 @@ export const DEFAULT_QUOTA_CONFIG: Required<QuotaConfig> = {
 export interface TokenUsageRecord {
   readonly sent: number;
   readonly received: number;
+  /** Prompt tokens read from the prompt cache (included in sent) */
+  readonly cacheRead?: number;
+  /** Prompt tokens written to the prompt cache (included in sent) */
+  readonly cacheWrite?: number;
+  /** Model that served the call, to price it */
+  readonly model?: string;
+  /** Mission and task the call was made for */
+  readonly missionId?: string;
+  readonly taskId?: string;
 }
 
 // ============================================================================
 // Quota Events
 // ============================================================================
 
+/** Money budget details of a quota event */
+export interface QuotaBudgetDetails {
+  readonly budget?: CostBudgetKind;
+  /** Spend in USD */
+  readonly cost?: number;
+  /** Budget limit in USD */
+  readonly limit?: number;
+  readonly missionId?: string;
+}
+
 /** Quota warning event data */
-export interface QuotaWarningEvent {
+export interface QuotaWarningEvent extends QuotaBudgetDetails {
   readonly type: 'quota:warning';
   readonly provider: AIProvider;
   readonly usageRatio: number;
@@ -161,7 +264,7 @@ export interface QuotaWarningEvent {
 }
 
 /** Quota exceeded event data */
-export interface QuotaExceededEvent {
+export interface QuotaExceededEvent extends QuotaBudgetDetails {
   readonly type: 'quota:exceeded';
   readonly provider: AIProvider;
   readonly usageRatio: number;
@@ -205,9 +308,10 @@ export interface IQuotaTrackerService {
   /**
    * Check if execution is allowed for a provider
    * @param provider - The AI provider to check
-   * @returns true if quota allows execution
+   * @param missionId - Mission the call would be made for, to check its budget
+   * @returns true if quota and budgets allow execution
    */
-  canExecute(provider: AIProvider): boolean;
+  canExecute(provider: AIProvider, missionId?: string): boolean;
 
   /**
    * Get current quota status for a provider
@@ -228,4 +332,20 @@ export interface IQuotaTrackerService {
    * @returns Map of provider to status
    */
   getAllStatuses(): Map<AIProvider, QuotaStatus>;
+
+  /**
+   * Get today's spend and the spend of each mission and task
+   */
+  getCostSummary(): CostSummary;
+
+  /**
+   * Get the spend of a mission in USD
+   */
+  getMissionCost(missionId: string): number;
+
+  /**
+   * Get the recent usage samples of a provider
+   * @param provider - The AI provider
+   */
+  getUsageHistory(provider: AIProvider): UsageHistoryEntry[];
 }
@@ -272,10 +272,12 @@ export type VerificationSeverity = 'error' | 'warning' | 'info' | 'suggestion';
 /** Verification issue */
 export interface VerificationIssue {
   readonly code?: string;
-  readonly type?: 'file' | 'symbol' | 'api' | 'dependency';
+  readonly type?: 'file' | 'symbol' | 'api' | 'dependency' | 'convention' | 'compile' | 'test';
   readonly message: string;
   readonly severity: VerificationSeverity;
   readonly location?: SourceLocation | { file: string };
+  /** Symbol the issue concerns */
+  readonly symbol?: string;
   suggestion?: string;
   readonly autoFixable?: boolean;
   fix?: string | { type: string; original?: string; replacement?: string; command?: string };
@@ -413,3 +415,32 @@ export interface IDependencyVerifierService {
   isInstalled(packageName: string): boolean;
   getVersion(packageName: string): string | null;
 }
+
+/** Type checker service: compiles proposed changes in memory */
+export interface ITypeCheckerService {
+  /** Syntax and type errors the changes would introduce */
+  check(changes: FileChange[], cancellation?: import('./common').CancellationToken): AsyncResult<VerificationIssue[]>;
+  /** Current syntax and type errors of the given files, or of every project file */
+  getDiagnostics(files?: string[], cancellation?: import('./common').CancellationToken): AsyncResult<VerificationIssue[]>;
+}
+
+/** Test runner of a package */
+export type TestRunnerKind = 'jest' | 'vitest' | 'mocha' | 'node';
+
+/** Result of running the tests related to a change set */
+export interface TestRunResult {
+  /** Runners used, one per affected package with related tests */
+  readonly runners: TestRunnerKind[];
+  /** Test files run, relative to the project root */
+  readonly testFiles: string[];
+  readonly passed: number;
+  readonly failed: number;
+  /** Failed tests, with their output */
+  readonly issues: VerificationIssue[];
+  readonly duration: number;
+}
+
+/** Test runner service: runs related tests against proposed changes in a shadow workspace */
+export interface ITestRunnerService {
+  run(changes: FileChange[], cancellation?: import('./common').CancellationToken): AsyncResult<TestRunResult>;
+}
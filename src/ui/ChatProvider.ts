@@ -5,28 +5,45 @@
  * - Message handling
  * - Streaming responses
  * - Context integration
- * - History management
+ * - Stored sessions with search, export and branching
  */
 
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import {
   IEventBus,
   ILogger,
   FilePath,
+  StoredChatMessage,
+  ChatExportFormat,
   toFilePath,
 } from '../types';
 
 import { AlterCodeCore } from '../core/AlterCodeCore';
+import type { ChatHistory, ChatHistoryEntry } from '../core/ChatHistory';
 
 /**
  * Chat message interface
  */
 interface ChatMessage {
+  id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
 }
 
+/**
+ * Messages posted by the chat webview
+ */
+type ChatWebviewMessage =
+  | { type: 'send'; content: string }
+  | { type: 'clear' | 'newSession' | 'cancel' }
+  | { type: 'openSession' | 'deleteSession'; sessionId: string }
+  | { type: 'search'; query: string }
+  | { type: 'export'; format: ChatExportFormat }
+  | { type: 'regenerate'; messageId: string }
+  | { type: 'action'; action: string; data: any };
+
 /**
  * Chat Provider implementation
  */
@@ -38,6 +55,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
   private readonly core: AlterCodeCore;
   private readonly eventBus: IEventBus;
   private readonly logger?: ILogger;
+  private readonly history: ChatHistory;
 
   private messages: ChatMessage[] = [];
   private isProcessing: boolean = false;
@@ -52,6 +70,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
     this.core = core;
     this.eventBus = eventBus;
     this.logger = logger?.child('ChatProvider');
+    this.history = core.createChatHistory();
   }
 
   /**
@@ -72,7 +91,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
     webviewView.webview.html = this.getHtmlContent();
 
     // Handle messages from webview
-    webviewView.webview.onDidReceiveMessage(async (message) => {
+    webviewView.webview.onDidReceiveMessage(async (message: ChatWebviewMessage) => {
       await this.handleMessage(message);
     });
 
@@ -83,20 +102,41 @@ export class ChatProvider implements vscode.WebviewViewProvider {
         messages: this.messages,
       });
     }
+    this.postSessions();
   }
 
   /**
    * Handle messages from webview
    */
-  private async handleMessage(message: any): Promise<void> {
+  private async handleMessage(message: ChatWebviewMessage): Promise<void> {
     switch (message.type) {
       case 'send':
         await this.handleUserMessage(message.content);
         break;
 
       case 'clear':
-        this.messages = [];
-        this.view?.webview.postMessage({ type: 'cleared' });
+      case 'newSession':
+        this.clearHistory();
+        break;
+
+      case 'openSession':
+        await this.openSession(message.sessionId);
+        break;
+
+      case 'deleteSession':
+        await this.deleteSession(message.sessionId);
+        break;
+
+      case 'search':
+        await this.search(message.query);
+        break;
+
+      case 'export':
+        await this.exportSession(message.format);
+        break;
+
+      case 'regenerate':
+        await this.regenerate(message.messageId);
         break;
 
       case 'cancel':
@@ -121,11 +161,13 @@ export class ChatProvider implements vscode.WebviewViewProvider {
 
     // Add user message
     const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
       role: 'user',
       content,
       timestamp: new Date(),
     };
     this.messages.push(userMessage);
+    await this.record({ id: userMessage.id, role: 'user', content });
 
     this.view?.webview.postMessage({
       type: 'userMessage',
@@ -146,11 +188,17 @@ export class ChatProvider implements vscode.WebviewViewProvider {
 
       // Add assistant message
       const assistantMessage: ChatMessage = {
+        id: crypto.randomUUID(),
         role: 'assistant',
         content: result.ok ? result.value.response : `Error: ${result.error.message}`,
         timestamp: new Date(),
       };
       this.messages.push(assistantMessage);
+      await this.record(
+        result.ok
+          ? { id: assistantMessage.id, role: 'assistant', content: result.value.response }
+          : { id: assistantMessage.id, role: 'assistant', content: '', error: result.error.message }
+      );
 
       this.view?.webview.postMessage({
         type: 'assistantMessage',
@@ -160,6 +208,11 @@ export class ChatProvider implements vscode.WebviewViewProvider {
 
       // If mission was created, offer to execute
       if (result.ok && result.value.mission) {
+        const linked = await this.history.linkMission(result.value.mission.id);
+        if (!linked.ok) {
+          this.logger?.warn('Failed to link mission to chat session', { error: linked.error.message });
+        }
+
         this.view?.webview.postMessage({
           type: 'missionCreated',
           mission: result.value.mission,
@@ -169,11 +222,13 @@ export class ChatProvider implements vscode.WebviewViewProvider {
       this.logger?.error('Message handling failed', error as Error);
 
       const errorMessage: ChatMessage = {
+        id: crypto.randomUUID(),
         role: 'assistant',
         content: `An error occurred: ${(error as Error).message}`,
         timestamp: new Date(),
       };
       this.messages.push(errorMessage);
+      await this.record({ id: errorMessage.id, role: 'assistant', content: '', error: (error as Error).message });
 
       this.view?.webview.postMessage({
         type: 'assistantMessage',
@@ -182,6 +237,136 @@ export class ChatProvider implements vscode.WebviewViewProvider {
     } finally {
       this.isProcessing = false;
       this.view?.webview.postMessage({ type: 'typing', isTyping: false });
+      this.postSessions();
+    }
+  }
+
+  /**
+   * Show a stored session
+   */
+  private async openSession(sessionId: string): Promise<void> {
+    const messages = await this.history.open(sessionId);
+    if (!messages.ok) {
+      this.logger?.warn('Failed to open chat session', { sessionId, error: messages.error.message });
+      return;
+    }
+
+    this.showMessages(messages.value);
+    this.postSessions();
+  }
+
+  /**
+   * Delete a stored session
+   */
+  private async deleteSession(sessionId: string): Promise<void> {
+    const active = sessionId === this.history.getActiveSessionId();
+    const deleted = await this.history.delete(sessionId);
+    if (!deleted.ok) {
+      this.logger?.warn('Failed to delete chat session', { sessionId, error: deleted.error.message });
+      return;
+    }
+
+    if (active) {
+      this.messages = [];
+      void this.view?.webview.postMessage({ type: 'cleared' });
+    }
+    this.postSessions();
+  }
+
+  /**
+   * Search all stored sessions
+   */
+  private async search(query: string): Promise<void> {
+    const results = await this.history.search(query);
+    if (!results.ok) {
+      this.logger?.warn('Chat search failed', { error: results.error.message });
+      return;
+    }
+
+    void this.view?.webview.postMessage({ type: 'searchResults', query, results: results.value });
+  }
+
+  /**
+   * Export the active session to a file chosen by the user
+   */
+  private async exportSession(format: ChatExportFormat): Promise<void> {
+    const content = await this.history.export(format);
+    if (!content.ok) {
+      void vscode.window.showErrorMessage(`Chat export failed: ${content.error.message}`);
+      return;
+    }
+
+    const extension = format === 'markdown' ? 'md' : 'json';
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(`altercode-chat.${extension}`),
+      filters: format === 'markdown' ? { 'Markdown': ['md'] } : { 'JSON': ['json'] },
+    });
+
+    if (uri) {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content.value, 'utf8'));
+      void vscode.window.showInformationMessage(`Chat exported to ${uri.fsPath}`);
+    }
+  }
+
+  /**
+   * Continue in a new branch from the request behind a message
+   */
+  private async regenerate(messageId: string): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    const fork = await this.history.fork(messageId);
+    if (!fork.ok) {
+      this.logger?.warn('Failed to branch chat', { error: fork.error.message });
+      return;
+    }
+
+    this.showMessages(fork.value.messages);
+    await this.handleUserMessage(fork.value.resend.content);
+  }
+
+  /**
+   * Replace the shown conversation with stored messages
+   */
+  private showMessages(messages: StoredChatMessage[]): void {
+    this.messages = messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({
+        id: m.id,
+        role: m.role === 'user' ? 'user' : 'assistant',
+        content: m.error ? `Error: ${m.error}` : m.content,
+        timestamp: m.timestamp,
+      }));
+
+    void this.view?.webview.postMessage({ type: 'restore', messages: this.messages });
+  }
+
+  /**
+   * Send the stored sessions to the webview
+   */
+  private postSessions(): void {
+    void this.history.list().then((sessions) => {
+      if (!sessions.ok) {
+        this.logger?.warn('Failed to list chat sessions', { error: sessions.error.message });
+        return;
+      }
+
+      void this.view?.webview.postMessage({
+        type: 'sessions',
+        sessions: sessions.value,
+        activeSessionId: this.history.getActiveSessionId(),
+      });
+    });
+  }
+
+  /**
+   * Store a message in the active session
+   */
+  private async record(entry: ChatHistoryEntry): Promise<void> {
+    const recorded = await this.history.record(entry);
+    if (!recorded.ok) {
+      this.logger?.warn('Failed to store chat message', { error: recorded.error.message });
     }
   }
 
@@ -257,6 +442,83 @@ export class ChatProvider implements vscode.WebviewViewProvider {
       flex-direction: column;
     }
 
+    .session-bar {
+      display: flex;
+      gap: 4px;
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--border);
+      background: var(--bg-secondary);
+    }
+
+    .session-bar select,
+    .session-bar input {
+      min-width: 0;
+      background: var(--bg-input);
+      color: var(--text-primary);
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      padding: 3px 6px;
+      font-size: 11px;
+    }
+
+    .session-bar select {
+      flex: 1;
+    }
+
+    .session-bar input {
+      flex: 1;
+    }
+
+    .session-bar button {
+      background: var(--bg-primary);
+      color: var(--text-primary);
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      padding: 3px 6px;
+      font-size: 11px;
+      cursor: pointer;
+    }
+
+    .search-results {
+      border-bottom: 1px solid var(--border);
+      max-height: 40%;
+      overflow-y: auto;
+    }
+
+    .search-result {
+      padding: 6px 12px;
+      font-size: 11px;
+      cursor: pointer;
+    }
+
+    .search-result:hover {
+      background: var(--bg-secondary);
+    }
+
+    .search-result .title {
+      color: var(--text-secondary);
+      margin-bottom: 2px;
+    }
+
+    .search-result mark {
+      background: var(--vscode-editor-findMatchHighlightBackground);
+      color: inherit;
+    }
+
+    .message-action {
+      align-self: flex-end;
+      background: none;
+      border: none;
+      color: var(--text-secondary);
+      cursor: pointer;
+      font-size: 12px;
+      opacity: 0;
+    }
+
+    .message:hover .message-action {
+      opacity: 1;
+    }
+
     .chat-container {
       flex: 1;
       overflow-y: auto;
@@ -458,6 +720,18 @@ export class ChatProvider implements vscode.WebviewViewProvider {
   </style>
 </head>
 <body>
+  <div class="session-bar">
+    <select id="sessionSelect" onchange="openSession(this.value)" title="Chat sessions"></select>
+    <button onclick="newSession()" title="New chat">+</button>
+    <button onclick="deleteSession()" title="Delete chat">🗑</button>
+    <button onclick="exportSession('markdown')" title="Export as Markdown">MD</button>
+    <button onclick="exportSession('json')" title="Export as JSON">JSON</button>
+  </div>
+  <div class="session-bar">
+    <input id="searchInput" type="search" placeholder="Search chats..." oninput="searchChats(this.value)">
+  </div>
+  <div class="search-results" id="searchResults"></div>
+
   <div class="chat-container" id="chatContainer">
     <div class="welcome">
       <h2>🐝 AlterCode</h2>
@@ -493,8 +767,11 @@ export class ChatProvider implements vscode.WebviewViewProvider {
     const messageInput = document.getElementById('messageInput');
     const sendButton = document.getElementById('sendButton');
     const typingIndicator = document.getElementById('typingIndicator');
+    const sessionSelect = document.getElementById('sessionSelect');
+    const searchResults = document.getElementById('searchResults');
 
     let isProcessing = false;
+    let searchTimer;
 
     // Handle messages from extension
     window.addEventListener('message', event => {
@@ -527,9 +804,38 @@ export class ChatProvider implements vscode.WebviewViewProvider {
         case 'cleared':
           chatContainer.innerHTML = renderWelcome();
           break;
+
+        case 'sessions':
+          renderSessions(message.sessions, message.activeSessionId);
+          break;
+
+        case 'searchResults':
+          renderSearchResults(message.results);
+          break;
       }
     });
 
+    function renderSessions(sessions, activeSessionId) {
+      const options = activeSessionId ? [] : ['<option value="" selected>New chat</option>'];
+      sessions.forEach(session => {
+        const label = session.title + ' (' + session.messageCount + ')';
+        options.push(
+          '<option value="' + session.id + '"' + (session.id === activeSessionId ? ' selected' : '') + '>' +
+          escapeHtml(label) + '</option>'
+        );
+      });
+      sessionSelect.innerHTML = options.join('');
+    }
+
+    function renderSearchResults(results) {
+      searchResults.innerHTML = results.map(result => \`
+        <div class="search-result" onclick="openSession('\${result.sessionId}')">
+          <div class="title">\${escapeHtml(result.sessionTitle)}</div>
+          <div>\${escapeHtml(result.snippet).replace(/\\*\\*([^*]+)\\*\\*/g, '<mark>$1</mark>')}</div>
+        </div>
+      \`).join('');
+    }
+
     function addMessage(msg, mission) {
       // Remove welcome message if present
       const welcome = chatContainer.querySelector('.welcome');
@@ -547,6 +853,11 @@ export class ChatProvider implements vscode.WebviewViewProvider {
       }
 
       messageDiv.innerHTML = '<div class="message-content">' + content + '</div>';
+      if (msg.role === 'assistant' && msg.id) {
+        messageDiv.innerHTML +=
+          '<button class="message-action" title="Regenerate in a new branch" ' +
+          'onclick="regenerate(\\'' + msg.id + '\\')">↻</button>';
+      }
       chatContainer.appendChild(messageDiv);
       chatContainer.scrollTop = chatContainer.scrollHeight;
     }
@@ -607,6 +918,44 @@ export class ChatProvider implements vscode.WebviewViewProvider {
       sendMessage();
     }
 
+    function newSession() {
+      vscode.postMessage({ type: 'newSession' });
+    }
+
+    function openSession(sessionId) {
+      if (sessionId) {
+        searchResults.innerHTML = '';
+        vscode.postMessage({ type: 'openSession', sessionId });
+      } else {
+        newSession();
+      }
+    }
+
+    function deleteSession() {
+      if (sessionSelect.value) {
+        vscode.postMessage({ type: 'deleteSession', sessionId: sessionSelect.value });
+      }
+    }
+
+    function exportSession(format) {
+      vscode.postMessage({ type: 'export', format });
+    }
+
+    function searchChats(query) {
+      clearTimeout(searchTimer);
+      if (!query.trim()) {
+        searchResults.innerHTML = '';
+        return;
+      }
+      searchTimer = setTimeout(() => vscode.postMessage({ type: 'search', query }), 250);
+    }
+
+    function regenerate(messageId) {
+      if (!isProcessing) {
+        vscode.postMessage({ type: 'regenerate', messageId });
+      }
+    }
+
     function executeAction(action, data) {
       vscode.postMessage({ type: 'action', action, data });
     }
@@ -638,7 +987,9 @@ export class ChatProvider implements vscode.WebviewViewProvider {
    */
   public clearHistory(): void {
     this.messages = [];
+    this.history.startNew();
     this.view?.webview.postMessage({ type: 'cleared' });
+    this.postSessions();
   }
 
   /**
@@ -646,6 +997,7 @@ export class ChatProvider implements vscode.WebviewViewProvider {
    */
   public addSystemMessage(content: string): void {
     const message: ChatMessage = {
+      id: crypto.randomUUID(),
       role: 'assistant',
       content,
       timestamp: new Date(),
@@ -144,6 +144,7 @@ export class ConflictResolutionPanel {
       branch1AgentId: conflict.branch1.agentId,
       branch2AgentId: conflict.branch2.agentId,
       regionCount: conflict.conflictingRegions.length,
+      symbols: [...new Set(conflict.conflictingRegions.map(r => r.name))],
     };
   }
 
@@ -174,6 +175,11 @@ export class ConflictResolutionPanel {
         startLine: r.startLine,
         endLine: r.endLine,
       })),
+      regionConflicts: conflict.regionConflicts.map(c => ({
+        kind: c.kind,
+        symbol1: c.region1.name,
+        symbol2: c.region2.name,
+      })),
     };
   }
 
@@ -724,6 +730,12 @@ export class ConflictResolutionPanel {
     let selectedConflict = null;
     let isResolving = false;
 
+    const REGION_CONFLICT_LABELS = {
+      same_region: 'both changed',
+      dependency: 'dependency',
+      overlapping_lines: 'same lines',
+    };
+
     // Handle messages from extension
     window.addEventListener('message', event => {
       const message = event.data;
@@ -769,7 +781,9 @@ export class ConflictResolutionPanel {
         return \`
           <div class="conflict-item \${isSelected ? 'selected' : ''}" onclick="selectConflict('\${c.id}')">
             <div class="conflict-file">\${escapeHtml(fileName)}</div>
-            <div class="conflict-meta">\${c.regionCount} conflicting region(s)</div>
+            <div class="conflict-meta">\${c.symbols.length > 0
+              ? escapeHtml(c.symbols.join(', '))
+              : c.regionCount + ' conflicting region(s)'}</div>
             <div class="conflict-agents">
               <span class="agent-badge">\${escapeHtml(c.branch1AgentId)}</span>
               <span>vs</span>
@@ -819,6 +833,13 @@ export class ConflictResolutionPanel {
             <span>\${escapeHtml(r.name)}</span>
             <span style="color: var(--text-muted);">lines \${r.startLine}-\${r.endLine}</span>
           </div>
+        \`).join('') + selectedConflict.regionConflicts.map(c => \`
+          <div class="region-item">
+            <span class="region-type">\${REGION_CONFLICT_LABELS[c.kind] || c.kind}</span>
+            <span>\${c.symbol1 === c.symbol2
+              ? escapeHtml(c.symbol1)
+              : escapeHtml(c.symbol1) + ' ↔ ' + escapeHtml(c.symbol2)}</span>
+          </div>
         \`).join('');
       } else {
         regionsContainer.innerHTML = '<div style="color: var(--text-muted);">No specific regions identified</div>';
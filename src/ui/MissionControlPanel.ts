@@ -26,6 +26,7 @@ import {
   IEventBus,
   ILogger,
 } from '../types';
+import type { ChatSessionState, ChatSummaryText } from '../core';
 
 /** Chat message structure */
 interface ChatMessage {
@@ -161,6 +162,17 @@ export class MissionControlPanel {
       payload: message,
     });
   }
+
+  /**
+   * Show the chat session's memory: verbatim history size and the summary of older turns
+   */
+  public updateChatMemory(memory: ChatSessionState): void {
+    void this.panel.webview.postMessage({
+      type: 'chatMemoryUpdate',
+      payload: memory,
+    });
+  }
+
   /**
    * Update hierarchy execution status
    */
@@ -226,6 +238,17 @@ export class MissionControlPanel {
         this.handleCommand(message.command);
         break;
 
+      case 'clearChat':
+        this.chatHistory = [];
+        this.eventBus.emit('ui:clearChat', {});
+        break;
+
+      case 'updateChatSummary': {
+        const { summary } = message as { summary: ChatSummaryText };
+        this.eventBus.emit('ui:updateChatSummary', { summary });
+        break;
+      }
+
       // Approval actions
       case 'approveChange':
         this.eventBus.emit('ui:approveChange', { approvalId: message.approvalId });
@@ -913,6 +936,33 @@ export class MissionControlPanel {
       border-radius: 50%;
     }
 
+    /* Cost Widget */
+    .cost-section {
+      margin-top: 8px;
+      padding-top: 6px;
+      border-top: 1px solid var(--border);
+    }
+    .cost-section-title {
+      font-size: 9px;
+      color: var(--text-muted);
+      text-transform: uppercase;
+      margin-bottom: 3px;
+    }
+    .cost-row {
+      display: flex;
+      justify-content: space-between;
+      gap: 6px;
+      font-size: 9px;
+      padding: 1px 0;
+      color: var(--text-secondary);
+    }
+    .cost-row span:first-child {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .cost-row.over { color: var(--error); }
+
     /* Usage History Chart */
     .quota-history {
       margin-top: 10px;
@@ -2063,6 +2113,38 @@ export class MissionControlPanel {
           </div>
         </div>
 
+        <!-- Cost Widget -->
+        <div class="widget">
+          <div class="widget-header">
+            <span class="widget-title">Cost</span>
+            <span class="widget-badge" id="costBadge">$0.00</span>
+          </div>
+          <div class="quota-item">
+            <div class="quota-row">
+              <span>Today</span>
+              <span id="costToday">$0.00</span>
+            </div>
+            <div class="quota-bar">
+              <div class="quota-fill ok" id="costBar" style="width: 0%"></div>
+            </div>
+            <div class="quota-meta">
+              <span id="costBudget">No daily budget</span>
+            </div>
+          </div>
+          <div class="cost-section">
+            <div class="cost-section-title">By level</div>
+            <div class="quota-levels" id="costLevels"></div>
+          </div>
+          <div class="cost-section">
+            <div class="cost-section-title">By mission</div>
+            <div id="costMissions"><div class="text-muted" style="font-size: 9px;">None</div></div>
+          </div>
+          <div class="cost-section">
+            <div class="cost-section-title">Top tasks</div>
+            <div id="costTasks"><div class="text-muted" style="font-size: 9px;">None</div></div>
+          </div>
+        </div>
+
         <!-- Approvals Widget -->
         <div class="widget">
           <div class="widget-header">
@@ -2142,6 +2224,7 @@ export class MissionControlPanel {
       tasks: [],
       activities: [],
       quota: null,
+      costs: null,
       usageHistory: { claude: [], glm: [] },
       pendingApprovals: [],
       conflicts: [],
@@ -2714,6 +2797,52 @@ export class MissionControlPanel {
       document.getElementById('quotaResetTimer').textContent = formatTimeRemaining(earliestReset);
     }
 
+    // Cost
+    function updateCostUI() {
+      const costs = state.costs;
+      if (!costs) return;
+
+      const budget = costs.budget || {};
+      document.getElementById('costBadge').textContent = formatCost(costs.today);
+      document.getElementById('costToday').textContent = formatCost(costs.today);
+      const bar = document.getElementById('costBar');
+      if (budget.dailyLimit) {
+        const ratio = costs.today / budget.dailyLimit;
+        bar.style.width = Math.min(100, ratio * 100).toFixed(0) + '%';
+        bar.className = 'quota-fill ' + (ratio >= 1 ? 'exceeded' : ratio >= 0.8 ? 'warning' : 'ok');
+        document.getElementById('costBudget').textContent = 'of ' + formatCost(budget.dailyLimit) + ' daily budget';
+      } else {
+        bar.style.width = '0%';
+        bar.className = 'quota-fill ok';
+        document.getElementById('costBudget').textContent = 'No daily budget';
+      }
+
+      const levels = ['sovereign', 'overlord', 'lord', 'worker'];
+      document.getElementById('costLevels').innerHTML = levels.map(level =>
+        \`<div class="quota-level-item"><span class="quota-level-dot" style="background:var(--\${level})"></span>\${level.charAt(0).toUpperCase()}: \${formatCost(costs.byLevel?.[level] ?? 0)}</div>\`
+      ).join('');
+
+      const missions = state.activeMissions || [];
+      const missionRows = Object.entries(costs.byMission || {}).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([id, cost]) => {
+        const mission = missions.find(m => m.id === id);
+        const over = budget.missionLimit && cost >= budget.missionLimit;
+        const limit = budget.missionLimit ? ' / ' + formatCost(budget.missionLimit) : '';
+        return \`<div class="cost-row \${over ? 'over' : ''}"><span>\${escapeHtml(mission?.title || id.slice(0, 8))}</span><span>\${formatCost(cost)}\${limit}</span></div>\`;
+      });
+      document.getElementById('costMissions').innerHTML = missionRows.join('') || '<div class="text-muted" style="font-size: 9px;">None</div>';
+
+      const tasks = missions.flatMap(m => m.tasks || []);
+      const taskRows = Object.entries(costs.byTask || {}).sort((a, b) => b[1] - a[1]).slice(0, 5).map(([id, cost]) => {
+        const task = tasks.find(t => t.id === id);
+        return \`<div class="cost-row"><span>\${escapeHtml(task?.title || task?.description || id.slice(0, 8))}</span><span>\${formatCost(cost)}</span></div>\`;
+      });
+      document.getElementById('costTasks').innerHTML = taskRows.join('') || '<div class="text-muted" style="font-size: 9px;">None</div>';
+    }
+
+    function formatCost(amount) {
+      return '$' + (amount < 0.01 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2));
+    }
+
     function toggleQuotaDetails(provider) {
       const el = document.getElementById(\`\${provider}Details\`);
       if (el) el.classList.toggle('hidden');
@@ -2919,6 +3048,7 @@ export class MissionControlPanel {
       updateActivityUI();
       updateAgentsUI();
       updateQuotaUI();
+      updateCostUI();
       updateUsageHistoryChart();
       updateApprovalsUI();
       updateConflictsUI();
@@ -0,0 +1,368 @@
+/**
+ * Diff3
+ *
+ * Line-based three-way merge:
+ * - Myers alignment of each side against the base
+ * - Non-overlapping hunks from both sides merge cleanly
+ * - Identical changes on both sides are taken once
+ * - Overlapping changes become conflicts with a base section
+ */
+
+/** A change of one side relative to the base: base[baseStart, baseEnd) → lines */
+export interface LineHunk {
+  readonly baseStart: number;
+  readonly baseEnd: number;
+  readonly lines: string[];
+}
+
+/** Region of a three-way merge */
+export type Diff3Region =
+  | { readonly kind: 'stable'; readonly lines: string[] }
+  | {
+      readonly kind: 'conflict';
+      readonly base: string[];
+      readonly ours: string[];
+      readonly theirs: string[];
+    };
+
+/** Conflict marker labels */
+export interface Diff3Labels {
+  readonly ours: string;
+  readonly base: string;
+  readonly theirs: string;
+}
+
+/** Position of a conflict in formatted output (1-based, inclusive) */
+export interface Diff3ConflictPosition {
+  readonly startLine: number;
+  readonly endLine: number;
+  readonly oursStart: number;
+  readonly oursEnd: number;
+  readonly baseStart: number;
+  readonly baseEnd: number;
+  readonly theirsStart: number;
+  readonly theirsEnd: number;
+}
+
+/** Formatted merge output */
+export interface Diff3Output {
+  readonly content: string;
+  readonly conflicts: Diff3ConflictPosition[];
+}
+
+/** Default conflict labels */
+const DEFAULT_LABELS: Diff3Labels = { ours: 'ours', base: 'base', theirs: 'theirs' };
+
+/**
+ * Edit distance above which alignment gives up and treats the
+ * remaining range as one replacement (bounds Myers' O(D²) memory)
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+// ============================================================================
+// Two-way Diff
+// ============================================================================
+
+/**
+ * Compute the hunks that turn `base` into `side`
+ */
+export function diffLines(base: string[], side: string[]): LineHunk[] {
+  const hunks: LineHunk[] = [];
+  let baseIdx = 0;
+  let sideIdx = 0;
+
+  // A sentinel match past the end closes the last hunk
+  const matches: Array<[number, number]> = [...matchLines(base, side), [base.length, side.length]];
+  for (const [matchBase, matchSide] of matches) {
+    if (matchBase > baseIdx || matchSide > sideIdx) {
+      hunks.push({
+        baseStart: baseIdx,
+        baseEnd: matchBase,
+        lines: side.slice(sideIdx, matchSide),
+      });
+    }
+    baseIdx = matchBase + 1;
+    sideIdx = matchSide + 1;
+  }
+
+  return hunks;
+}
+
+/**
+ * Find matching line pairs (in increasing order) of a longest common subsequence
+ */
+function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  // Common prefix and suffix are matched directly
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const matches: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) {
+    matches.push([i, i]);
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  for (const [i, j] of middle) {
+    matches.push([i + prefix, j + prefix]);
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    matches.push([a.length - k, b.length - k]);
+  }
+
+  return matches;
+}
+
+/**
+ * Myers' O(ND) shortest edit script, returned as matched line pairs
+ */
+function myers(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) {
+    return [];
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+          ? v[offset + k + 1]!
+          : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, d, n, m, a, b);
+      }
+    }
+  }
+
+  // Too different to align within the limit: treat as a full replacement
+  return [];
+}
+
+/**
+ * Walk the Myers trace back from (n, m) collecting diagonal (matching) moves
+ */
+function backtrack(
+  trace: Int32Array[],
+  finalD: number,
+  n: number,
+  m: number,
+  a: string[],
+  b: string[]
+): Array<[number, number]> {
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = finalD; d > 0; d--) {
+    // trace[d] holds v[-d-1 .. d+1] as it was before step d
+    const v = trace[d]!;
+    const at = (k: number): number => v[k + d + 1]!;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY && a[x - 1] === b[y - 1]) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  // Remaining diagonal from the origin
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    matches.push([x, y]);
+  }
+
+  return matches.reverse();
+}
+
+// ============================================================================
+// Three-way Merge
+// ============================================================================
+
+/** Hunk tagged with the side it came from */
+interface SideHunk extends LineHunk {
+  readonly side: 'ours' | 'theirs';
+}
+
+/**
+ * Merge two sides against their common base into stable and conflict regions
+ */
+export function diff3Merge(base: string[], ours: string[], theirs: string[]): Diff3Region[] {
+  const hunks: SideHunk[] = [
+    ...diffLines(base, ours).map((h) => ({ ...h, side: 'ours' as const })),
+    ...diffLines(base, theirs).map((h) => ({ ...h, side: 'theirs' as const })),
+  ].sort((x, y) => x.baseStart - y.baseStart || x.baseEnd - y.baseEnd);
+
+  const regions: Diff3Region[] = [];
+  const pushStable = (lines: string[]): void => {
+    if (lines.length === 0) {
+      return;
+    }
+    const last = regions[regions.length - 1];
+    if (last?.kind === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      regions.push({ kind: 'stable', lines: [...lines] });
+    }
+  };
+
+  let basePos = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    // Group hunks whose base ranges overlap
+    const group: SideHunk[] = [hunks[i]!];
+    let groupStart = hunks[i]!.baseStart;
+    let groupEnd = hunks[i]!.baseEnd;
+    i++;
+    while (i < hunks.length && overlaps(groupStart, groupEnd, hunks[i]!)) {
+      group.push(hunks[i]!);
+      groupEnd = Math.max(groupEnd, hunks[i]!.baseEnd);
+      groupStart = Math.min(groupStart, hunks[i]!.baseStart);
+      i++;
+    }
+
+    pushStable(base.slice(basePos, groupStart));
+    basePos = groupEnd;
+
+    const oursHunks = group.filter((h) => h.side === 'ours');
+    const theirsHunks = group.filter((h) => h.side === 'theirs');
+    const oursLines = applyHunks(base, oursHunks, groupStart, groupEnd);
+    const theirsLines = applyHunks(base, theirsHunks, groupStart, groupEnd);
+
+    if (theirsHunks.length === 0) {
+      pushStable(oursLines);
+    } else if (oursHunks.length === 0 || sameLines(oursLines, theirsLines)) {
+      pushStable(theirsLines);
+    } else {
+      regions.push({
+        kind: 'conflict',
+        base: base.slice(groupStart, groupEnd),
+        ours: oursLines,
+        theirs: theirsLines,
+      });
+    }
+  }
+
+  pushStable(base.slice(basePos));
+  return regions;
+}
+
+/**
+ * Check whether a hunk overlaps a group's base range.
+ * Replacements that only touch are independent; insertions at the
+ * boundary of another change are ambiguous and count as overlapping.
+ */
+function overlaps(groupStart: number, groupEnd: number, hunk: LineHunk): boolean {
+  if (hunk.baseStart < groupEnd) {
+    return true;
+  }
+  const touches = hunk.baseStart === groupEnd;
+  return touches && (groupStart === groupEnd || hunk.baseStart === hunk.baseEnd);
+}
+
+/**
+ * Apply one side's hunks to base[start, end)
+ */
+function applyHunks(base: string[], hunks: LineHunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(pos, hunk.baseStart), ...hunk.lines);
+    pos = hunk.baseEnd;
+  }
+  lines.push(...base.slice(pos, end));
+  return lines;
+}
+
+/**
+ * Compare two line arrays
+ */
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, idx) => line === b[idx]);
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Merge three texts, writing conflicts with diff3-style markers:
+ * <<<<<<< ours / ||||||| base / ======= / >>>>>>> theirs
+ */
+export function mergeTexts(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: Diff3Labels = DEFAULT_LABELS
+): Diff3Output {
+  const regions = diff3Merge(base.split('\n'), ours.split('\n'), theirs.split('\n'));
+  const lines: string[] = [];
+  const conflicts: Diff3ConflictPosition[] = [];
+
+  /** Append a section, returning its 1-based inclusive line range */
+  const section = (content: string[]): [number, number] => {
+    const start = lines.length + 1;
+    lines.push(...content);
+    return [start, lines.length];
+  };
+
+  for (const region of regions) {
+    if (region.kind === 'stable') {
+      lines.push(...region.lines);
+      continue;
+    }
+
+    lines.push(`<<<<<<< ${labels.ours}`);
+    const startLine = lines.length;
+    const [oursStart, oursEnd] = section(region.ours);
+    lines.push(`||||||| ${labels.base}`);
+    const [baseStart, baseEnd] = section(region.base);
+    lines.push('=======');
+    const [theirsStart, theirsEnd] = section(region.theirs);
+    lines.push(`>>>>>>> ${labels.theirs}`);
+
+    conflicts.push({
+      startLine,
+      endLine: lines.length,
+      oursStart,
+      oursEnd,
+      baseStart,
+      baseEnd,
+      theirsStart,
+      theirsEnd,
+    });
+  }
+
+  return { content: lines.join('\n'), conflicts };
+}
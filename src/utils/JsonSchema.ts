@@ -0,0 +1,83 @@
+/**
+ * JSON Schema
+ *
+ * Validation of parsed model output against a JSON Schema subset:
+ * - type, enum, minimum and maximum
+ * - required and properties of objects
+ * - items of arrays
+ */
+
+/** JSON Schema subset */
+export interface JsonSchema {
+  readonly type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  readonly enum?: readonly unknown[];
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly required?: readonly string[];
+  readonly properties?: Readonly<Record<string, JsonSchema>>;
+  readonly items?: JsonSchema;
+  readonly description?: string;
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns One message per violation, empty when the value is valid
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: required`);
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validateJson(value[key], property, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,52 @@
+/**
+ * Process Tree
+ *
+ * Stops a spawned process together with everything it started:
+ * - On POSIX the process must be spawned with `detached: true`, so it leads a
+ *   process group of its own; the group gets SIGTERM, then SIGKILL
+ * - On Windows taskkill ends the tree
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+
+/** Time a process gets to exit after SIGTERM before it is killed */
+export const KILL_GRACE_MS = 2000;
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Stop a process and everything it started. On POSIX the group is signalled even
+ * after the leader exited, since its children can outlive it.
+ */
+export function killProcessTree(proc: ChildProcess): void {
+  if (proc.pid === undefined) {
+    return;
+  }
+
+  if (isWindows) {
+    // taskkill walks the tree from the leader, which must still run
+    if (proc.exitCode !== null) {
+      return;
+    }
+    const taskkill = spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { windowsHide: true });
+    taskkill.on('error', () => {
+      // Without taskkill only the process itself can be stopped
+      proc.kill();
+    });
+    return;
+  }
+
+  const pid = proc.pid;
+  const signalGroup = (signal: NodeJS.Signals): void => {
+    try {
+      process.kill(-pid, signal);
+    } catch (error) {
+      // ESRCH: the group is already gone
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+        proc.kill(signal);
+      }
+    }
+  };
+  signalGroup('SIGTERM');
+  setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_MS).unref();
+}
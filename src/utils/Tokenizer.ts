@@ -0,0 +1,71 @@
+/**
+ * Tokenizer
+ *
+ * Offline BPE token counting for the supported model families:
+ * - OpenAI-compatible models use the bundled cl100k_base ranks
+ * - Claude models use Anthropic's published Claude vocabulary, which is exact for
+ *   earlier models and an approximation for newer ones (corrected by calibration)
+ * - Vocabularies are loaded on first use; other tokenizers can be plugged in
+ *   through the ITokenizer interface
+ */
+
+import claudeRanks from '@anthropic-ai/tokenizer/claude.json';
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import cl100kRanks from 'js-tiktoken/ranks/cl100k_base';
+import { ITokenizer, TokenizerFamily } from '../types';
+
+/** BPE ranks of each model family */
+const RANKS: Record<TokenizerFamily, TiktokenBPE> = {
+  openai: cl100kRanks,
+  claude: claudeRanks,
+};
+
+/** Encoders built so far, shared by all tokenizers of a family */
+const encoders = new Map<TokenizerFamily, Tiktoken>();
+
+function getEncoder(family: TokenizerFamily): Tiktoken {
+  let encoder = encoders.get(family);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[family]);
+    encoders.set(family, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Offline tokenizer for one model family
+ */
+export class OfflineTokenizer implements ITokenizer {
+  readonly family: TokenizerFamily;
+
+  constructor(family: TokenizerFamily) {
+    this.family = family;
+  }
+
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    // Claude's tokenizer normalizes its input; special tokens in content are plain text
+    const input = this.family === 'claude' ? text.normalize('NFKC') : text;
+    return getEncoder(this.family).encode(input, [], []).length;
+  }
+}
+
+/**
+ * Tokenizer family of a model: Claude by default, OpenAI-compatible for other named models
+ */
+export function tokenizerFamilyFor(model?: string): TokenizerFamily {
+  if (!model || /claude|anthropic|opus|sonnet|haiku/i.test(model)) {
+    return 'claude';
+  }
+  return 'openai';
+}
+
+/**
+ * Create the offline tokenizer of a model family
+ */
+export function createTokenizer(family: TokenizerFamily): ITokenizer {
+  return new OfflineTokenizer(family);
+}
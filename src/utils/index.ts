@@ -3,6 +3,10 @@
  *
  * Re-exports all utility modules:
  * - DiffHunkParser: Parse and manipulate unified diffs
+ * - Diff3: Myers line diff and three-way merge
+ * - Tokenizer: Offline BPE token counting per model family
+ * - JsonSchema: Validation of parsed model output
+ * - ProcessTree: Stopping a spawned process and its children
  */
 
 export {
@@ -14,3 +18,20 @@ export {
   type DiffHunk,
   type ParsedDiff,
 } from './DiffHunkParser';
+
+export {
+  diffLines,
+  diff3Merge,
+  mergeTexts,
+  type LineHunk,
+  type Diff3Region,
+  type Diff3Labels,
+  type Diff3ConflictPosition,
+  type Diff3Output,
+} from './Diff3';
+
+export { OfflineTokenizer, createTokenizer, tokenizerFamilyFor } from './Tokenizer';
+
+export { validateJson, type JsonSchema } from './JsonSchema';
+
+export { killProcessTree, KILL_GRACE_MS } from './ProcessTree';
@@ -300,6 +300,11 @@ export class APICheckerService implements IAPICheckerService {
     // Any type accepts anything
     if (expectedNorm === 'any' || expectedNorm === 'unknown') return null;
 
+    // Nothing to check when the argument type could not be inferred
+    if (actualNorm === 'unknown') {
+      return null;
+    }
+
     // Check for union types
     if (expectedNorm.includes('|')) {
       const options = expectedNorm.split('|').map((t) => t.trim());
@@ -0,0 +1,157 @@
+/**
+ * Code Reference Extractor
+ *
+ * Extracts what verification needs from changed source files:
+ * - Import statements (dependency checks)
+ * - Symbols imported from project modules (symbol checks)
+ * - Calls to those imported symbols (API checks)
+ */
+
+import * as ts from 'typescript';
+import {
+  ImportStatement,
+  ImportSpecifierInfo,
+  SymbolReference,
+  FunctionCall,
+  CallArgument,
+  SourceLocation,
+  toFilePath,
+  toLineNumber,
+  toColumnNumber,
+} from '../types';
+
+/** File extensions the extractor understands */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * References extracted from a single file
+ */
+export interface CodeReferences {
+  readonly imports: ImportStatement[];
+  readonly symbols: SymbolReference[];
+  readonly calls: FunctionCall[];
+}
+
+/**
+ * Check whether a file can be analyzed by the extractor
+ */
+export function isAnalyzableSource(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.some((ext) => filePath.endsWith(ext));
+}
+
+/**
+ * Extract imports, project symbol references and calls from source content
+ */
+export function extractCodeReferences(filePath: string, content: string): CodeReferences {
+  if (!isAnalyzableSource(filePath)) {
+    return { imports: [], symbols: [], calls: [] };
+  }
+
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  const imports: ImportStatement[] = [];
+  const symbols: SymbolReference[] = [];
+  const projectImports = new Set<string>();
+
+  const locate = (node: ts.Node): SourceLocation => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return {
+      file: toFilePath(filePath),
+      line: toLineNumber(line + 1),
+      column: toColumnNumber(character + 1),
+    };
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue;
+    }
+
+    const source = statement.moduleSpecifier.text;
+    const specifiers = getImportSpecifiers(statement);
+    imports.push({ source, specifiers, location: locate(statement) });
+
+    // Type-only imports have no runtime symbol to resolve
+    if (!source.startsWith('.') || statement.importClause?.isTypeOnly) {
+      continue;
+    }
+
+    for (const specifier of specifiers) {
+      if (specifier.isDefault || specifier.isNamespace) {
+        continue;
+      }
+      symbols.push({ name: specifier.imported, context: source });
+      projectImports.add(specifier.local);
+    }
+  }
+
+  const calls: FunctionCall[] = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      projectImports.has(node.expression.text)
+    ) {
+      calls.push({
+        name: node.expression.text,
+        arguments: node.arguments.map((arg, position) => toCallArgument(arg, position, sourceFile)),
+        location: locate(node),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { imports, symbols, calls };
+}
+
+/**
+ * Get the specifiers of an import declaration
+ */
+function getImportSpecifiers(statement: ts.ImportDeclaration): ImportSpecifierInfo[] {
+  const clause = statement.importClause;
+  if (!clause) {
+    return [];
+  }
+
+  const specifiers: ImportSpecifierInfo[] = [];
+  if (clause.name) {
+    specifiers.push({
+      imported: 'default',
+      local: clause.name.text,
+      isDefault: true,
+      isNamespace: false,
+    });
+  }
+
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    specifiers.push({
+      imported: '*',
+      local: bindings.name.text,
+      isDefault: false,
+      isNamespace: true,
+    });
+  } else if (bindings) {
+    for (const element of bindings.elements) {
+      if (element.isTypeOnly) {
+        continue;
+      }
+      specifiers.push({
+        imported: (element.propertyName ?? element.name).text,
+        local: element.name.text,
+        isDefault: false,
+        isNamespace: false,
+      });
+    }
+  }
+
+  return specifiers;
+}
+
+/**
+ * Describe a call argument. Types are left unknown: without a type checker,
+ * guessing them would flag valid calls, so only argument counts are checked.
+ */
+function toCallArgument(arg: ts.Expression, position: number, sourceFile: ts.SourceFile): CallArgument {
+  return { position, value: arg.getText(sourceFile), inferredType: 'unknown' };
+}
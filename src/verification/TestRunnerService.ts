@@ -0,0 +1,699 @@
+/**
+ * Test Runner Service
+ *
+ * Runs the project's tests against proposed changes before they reach the disk:
+ * - The package of each changed file is copied to a temporary shadow workspace
+ *   and the changes are applied there
+ * - The runner (jest, vitest, mocha or node:test) is detected from package.json
+ * - Only tests importing the changed files, directly or through the semantic
+ *   index's import graph, are run
+ * - Failed tests are reported as verification issues with their output
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  ITestRunnerService,
+  ISemanticIndexService,
+  TestRunnerKind,
+  TestRunResult,
+  VerificationIssue,
+  FileChange,
+  CancellationToken,
+  AsyncResult,
+  Ok,
+  Err,
+  AppError,
+  ILogger,
+  toRelativePath,
+  createSourceLocation,
+} from '../types';
+import { scrubEnvironment } from '../core/tools/commandTools';
+import { killProcessTree, KILL_GRACE_MS } from '../utils/ProcessTree';
+
+/** Time allowed for one package's test run */
+const DEFAULT_TIMEOUT_MS = 120000;
+
+/** Test files run per package, at most */
+const DEFAULT_MAX_TEST_FILES = 50;
+
+/** Importer levels followed from a changed file */
+const MAX_IMPORT_DEPTH = 3;
+
+/** Characters of test output kept per failure */
+const MAX_FAILURE_OUTPUT = 2000;
+
+/** Characters of runner output buffered per stream; the end is kept */
+const MAX_PROCESS_OUTPUT = 1000000;
+
+const TEST_FILE_PATTERN = /(\.|_)(test|spec)\.[cm]?[jt]sx?$|(^|\/)__tests__\/.+\.[cm]?[jt]sx?$/;
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** Terminal color codes, built from the escape character (not allowed in a regex literal) */
+const ANSI_COLOR_PATTERN = new RegExp(String.fromCharCode(27) + '\\[[0-9;]*m', 'g');
+
+/** Directories never copied to, or searched in, the shadow workspace */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/** Build output directories, skipped at the package root only */
+const OUTPUT_DIRECTORIES = new Set(['dist', 'out', 'build', 'coverage']);
+
+/** Runners recognized in the test script, in order of precedence */
+const RUNNER_SCRIPTS: ReadonlyArray<{ pattern: RegExp; runner: TestRunnerKind }> = [
+  { pattern: /\bvitest\b/, runner: 'vitest' },
+  { pattern: /\bjest\b/, runner: 'jest' },
+  { pattern: /\bmocha\b/, runner: 'mocha' },
+  { pattern: /\bnode\b.*--test\b/, runner: 'node' },
+];
+
+/** Runners recognized from dependencies, in order of precedence */
+const RUNNER_PACKAGES: ReadonlyArray<{ name: string; runner: TestRunnerKind }> = [
+  { name: 'vitest', runner: 'vitest' },
+  { name: 'jest', runner: 'jest' },
+  { name: 'ts-jest', runner: 'jest' },
+  { name: 'mocha', runner: 'mocha' },
+];
+
+const isWindows = process.platform === 'win32';
+
+/** Changes and related tests of one package */
+interface PackageRun {
+  /** Package directory, relative to the project root ('' for the root) */
+  readonly dir: string;
+  readonly runner: TestRunnerKind;
+  readonly changes: FileChange[];
+  /** Test files, relative to the package */
+  readonly testFiles: string[];
+}
+
+/** Parsed outcome of a runner invocation */
+interface ParsedRun {
+  readonly passed: number;
+  readonly failures: TestFailure[];
+}
+
+interface TestFailure {
+  readonly name: string;
+  /** Test file, relative to the package */
+  readonly file?: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly output: string;
+}
+
+interface ProcessOutput {
+  readonly code: number | null;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly timedOut: boolean;
+}
+
+/** Jest (and vitest) --json report, the parts used */
+interface JestReport {
+  numPassedTests?: number;
+  testResults?: Array<{
+    name: string;
+    status?: string;
+    message?: string;
+    assertionResults?: Array<{
+      fullName?: string;
+      title?: string;
+      status?: string;
+      failureMessages?: string[];
+      location?: { line: number; column: number } | null;
+    }>;
+  }>;
+}
+
+/** Mocha JSON reporter output, the parts used */
+interface MochaReport {
+  stats?: { passes?: number };
+  failures?: Array<{
+    title?: string;
+    fullTitle?: string;
+    file?: string;
+    err?: { message?: string; stack?: string };
+  }>;
+}
+
+/**
+ * Test Runner Service implementation
+ */
+export class TestRunnerService implements ITestRunnerService {
+  private readonly projectRoot: string;
+  private readonly semanticIndex: ISemanticIndexService;
+  private readonly logger?: ILogger;
+  private readonly timeoutMs: number;
+  private readonly maxTestFiles: number;
+
+  constructor(
+    projectRoot: string,
+    semanticIndex: ISemanticIndexService,
+    logger?: ILogger,
+    options?: {
+      timeoutMs?: number;
+      maxTestFiles?: number;
+    }
+  ) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.semanticIndex = semanticIndex;
+    this.logger = logger?.child('TestRunnerService');
+    this.timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxTestFiles = options?.maxTestFiles ?? DEFAULT_MAX_TEST_FILES;
+  }
+
+  async run(changes: FileChange[], cancellation?: CancellationToken): AsyncResult<TestRunResult> {
+    const startTime = Date.now();
+    const runners: TestRunnerKind[] = [];
+    const testFiles: string[] = [];
+    const issues: VerificationIssue[] = [];
+    let passed = 0;
+    let failed = 0;
+
+    try {
+      for (const run of await this.planRuns(changes)) {
+        if (cancellation?.isCancelled) {
+          return Err(new AppError('CANCELLED', 'Test run cancelled'));
+        }
+
+        const result = await this.runInShadow(run, cancellation);
+        runners.push(run.runner);
+        testFiles.push(...run.testFiles.map((f) => this.toProjectPath(run.dir, f)));
+        passed += result.passed;
+        failed += result.failures.length;
+        issues.push(...result.failures.map((f) => this.toIssue(run, f)));
+      }
+    } catch (error) {
+      this.logger?.error('Test run failed', error as Error);
+      return Err(new AppError('VERIFICATION', `Test run failed: ${(error as Error).message}`));
+    }
+
+    if (cancellation?.isCancelled) {
+      return Err(new AppError('CANCELLED', 'Test run cancelled'));
+    }
+
+    this.logger?.info('Test run complete', { runners, testFiles: testFiles.length, passed, failed });
+    return Ok({ runners, testFiles, passed, failed, issues, duration: Date.now() - startTime });
+  }
+
+  /**
+   * Group changes by package and find each package's runner and related tests
+   */
+  private async planRuns(changes: FileChange[]): Promise<PackageRun[]> {
+    const byPackage = new Map<string, FileChange[]>();
+    for (const change of changes) {
+      const file = path.resolve(this.projectRoot, change.path);
+      const dir = this.findPackageDir(file);
+      if (dir !== null) {
+        byPackage.set(dir, [...(byPackage.get(dir) ?? []), change]);
+      }
+    }
+
+    const runs: PackageRun[] = [];
+    for (const [dir, packageChanges] of byPackage) {
+      const runner = await this.detectRunner(dir);
+      if (!runner) {
+        this.logger?.debug('No test runner detected', { package: dir || '.' });
+        continue;
+      }
+
+      const testFiles = await this.findRelatedTests(dir, packageChanges);
+      if (testFiles.length > 0) {
+        runs.push({ dir, runner, changes: packageChanges, testFiles });
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Nearest directory with a package.json, relative to the project root
+   */
+  private findPackageDir(file: string): string | null {
+    let dir = path.dirname(file);
+    while (dir.startsWith(this.projectRoot)) {
+      if (fs.existsSync(path.join(dir, 'package.json'))) {
+        return path.relative(this.projectRoot, dir);
+      }
+      if (dir === this.projectRoot) {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+    return null;
+  }
+
+  /**
+   * Runner from the test script, or else from the package's dependencies
+   */
+  private async detectRunner(dir: string): Promise<TestRunnerKind | null> {
+    const manifest = JSON.parse(
+      await fs.promises.readFile(path.join(this.projectRoot, dir, 'package.json'), 'utf8')
+    ) as {
+      scripts?: Record<string, string>;
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+
+    const script = manifest.scripts?.test ?? '';
+    const fromScript = RUNNER_SCRIPTS.find(({ pattern }) => pattern.test(script));
+    if (fromScript) {
+      return fromScript.runner;
+    }
+
+    const dependencies = { ...manifest.dependencies, ...manifest.devDependencies };
+    const fromDependencies = RUNNER_PACKAGES.find(({ name }) => name in dependencies);
+    return fromDependencies?.runner ?? null;
+  }
+
+  /**
+   * Test files of the package that are changed, or import a changed file or one
+   * of its importers
+   */
+  private async findRelatedTests(dir: string, changes: FileChange[]): Promise<string[]> {
+    const packageRoot = path.join(this.projectRoot, dir);
+    const affected = new Set<string>();
+    const related = new Set<string>();
+
+    let frontier = changes.map((c) => this.relativeToProject(c.path));
+    for (let depth = 0; depth <= MAX_IMPORT_DEPTH && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const file of frontier) {
+        if (affected.has(file)) {
+          continue;
+        }
+        affected.add(file);
+        next.push(...this.semanticIndex.getImporters(toRelativePath(file)).map((f) => this.relativeToProject(f)));
+      }
+      frontier = next;
+    }
+
+    for (const change of changes) {
+      const relative = path.relative(packageRoot, path.resolve(this.projectRoot, change.path)).replace(/\\/g, '/');
+      if (TEST_FILE_PATTERN.test(relative) && (change.action ?? change.type) !== 'delete') {
+        related.add(relative);
+      }
+    }
+
+    const affectedModules = new Set([...affected].map((f) => this.stripExtension(f)));
+    for (const testFile of await this.findTestFiles(packageRoot)) {
+      const changed = changes.find((c) => path.resolve(this.projectRoot, c.path) === path.join(packageRoot, testFile));
+      const content = changed ? changed.content ?? '' : await fs.promises.readFile(path.join(packageRoot, testFile), 'utf8');
+      const { importedFiles } = ts.preProcessFile(content, true, true);
+      const importsAffected = importedFiles.some((ref) => {
+        if (!ref.fileName.startsWith('.')) {
+          return false;
+        }
+        const target = this.stripExtension(this.toProjectPath(dir, path.join(path.dirname(testFile), ref.fileName)));
+        return affectedModules.has(target) || affectedModules.has(`${target}/index`);
+      });
+      if (importsAffected) {
+        related.add(testFile);
+      }
+    }
+
+    return [...related].sort().slice(0, this.maxTestFiles);
+  }
+
+  private async findTestFiles(root: string, relative = ''): Promise<string[]> {
+    const entries = await fs.promises.readdir(path.join(root, relative), { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!this.isSkipped(entry.name, !relative) && !entry.name.startsWith('.')) {
+          files.push(...await this.findTestFiles(root, child));
+        }
+      } else if (TEST_FILE_PATTERN.test(child)) {
+        files.push(child);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Copy the package to a temporary directory, apply the changes and run its tests
+   */
+  private async runInShadow(run: PackageRun, cancellation?: CancellationToken): Promise<ParsedRun> {
+    const shadowRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'altercode-tests-'));
+    try {
+      const shadowPackage = await this.createShadow(shadowRoot, run);
+      const reportFile = path.join(shadowRoot, 'report.json');
+      const { command, args } = this.buildCommand(run.runner, run.testFiles, reportFile);
+
+      this.logger?.info('Running related tests', {
+        package: run.dir || '.',
+        runner: run.runner,
+        testFiles: run.testFiles.length,
+      });
+
+      const output = await this.exec(command, args, shadowPackage, cancellation);
+      if (output.timedOut) {
+        return {
+          passed: 0,
+          failures: [{
+            name: `Tests did not finish within ${Math.round(this.timeoutMs / 1000)}s`,
+            output: this.tail(output.stdout + output.stderr),
+          }],
+        };
+      }
+
+      const parsed = await this.parseResults(run.runner, output, reportFile, shadowPackage);
+      if (parsed.failures.length === 0 && output.code !== 0 && !cancellation?.isCancelled) {
+        // The runner failed without reporting a failed test, e.g. on a syntax error
+        return {
+          passed: parsed.passed,
+          failures: [{ name: `${run.runner} exited with code ${output.code}`, output: this.tail(output.stdout + output.stderr) }],
+        };
+      }
+      return parsed;
+    } finally {
+      await fs.promises.rm(shadowRoot, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Copy the package into the shadow workspace at its relative location, so
+   * configuration shared from the project root still resolves
+   *
+   * @returns The package directory in the shadow workspace
+   */
+  private async createShadow(shadowRoot: string, run: PackageRun): Promise<string> {
+    const packageRoot = path.join(this.projectRoot, run.dir);
+    const shadowPackage = path.join(shadowRoot, run.dir);
+
+    await fs.promises.cp(packageRoot, shadowPackage, {
+      recursive: true,
+      filter: (source) =>
+        source === packageRoot || !this.isSkipped(path.basename(source), path.dirname(source) === packageRoot),
+    });
+
+    // Dependencies are linked, not copied
+    const linkDirs = run.dir ? [run.dir, ''] : [''];
+    for (const dir of linkDirs) {
+      const modules = path.join(this.projectRoot, dir, 'node_modules');
+      if (fs.existsSync(modules)) {
+        await fs.promises.symlink(modules, path.join(shadowRoot, dir, 'node_modules'), isWindows ? 'junction' : 'dir');
+      }
+    }
+
+    // Root configuration files of a nested package, e.g. a shared tsconfig
+    if (run.dir) {
+      for (const entry of await fs.promises.readdir(this.projectRoot, { withFileTypes: true })) {
+        if (entry.isFile()) {
+          await fs.promises.copyFile(path.join(this.projectRoot, entry.name), path.join(shadowRoot, entry.name));
+        }
+      }
+    }
+
+    for (const change of run.changes) {
+      const target = path.join(shadowRoot, this.relativeToProject(change.path));
+      if ((change.action ?? change.type) === 'delete') {
+        await fs.promises.rm(target, { force: true });
+      } else if (change.content !== undefined) {
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, change.content);
+      }
+    }
+
+    return shadowPackage;
+  }
+
+  private buildCommand(
+    runner: TestRunnerKind,
+    testFiles: string[],
+    reportFile: string
+  ): { command: string; args: string[] } {
+    switch (runner) {
+      case 'jest':
+        return {
+          command: 'npx',
+          args: ['--no-install', 'jest', '--ci', '--json', `--outputFile=${reportFile}`, '--runTestsByPath', ...testFiles],
+        };
+      case 'vitest':
+        return {
+          command: 'npx',
+          args: ['--no-install', 'vitest', 'run', '--reporter=json', `--outputFile=${reportFile}`, ...testFiles],
+        };
+      case 'mocha':
+        return {
+          command: 'npx',
+          args: ['--no-install', 'mocha', '--reporter', 'json', '--reporter-option', `output=${reportFile}`, ...testFiles],
+        };
+      case 'node':
+        return { command: process.execPath, args: ['--test', '--test-reporter=tap', ...testFiles] };
+    }
+  }
+
+  private exec(command: string, args: string[], cwd: string, cancellation?: CancellationToken): Promise<ProcessOutput> {
+    return new Promise((resolve) => {
+      const proc = spawn(command, args, {
+        cwd,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        // Test code runs with the user's environment minus credentials
+        env: { ...scrubEnvironment(process.env), CI: 'true', FORCE_COLOR: '0' },
+        shell: isWindows, // Required on Windows to find executables in PATH
+        // A process group of its own, so the whole tree can be stopped
+        detached: !isWindows,
+        windowsHide: true,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let settled = false;
+      let backstop: NodeJS.Timeout | undefined;
+
+      const keepEnd = (text: string): string =>
+        text.length > MAX_PROCESS_OUTPUT * 2 ? text.slice(-MAX_PROCESS_OUTPUT) : text;
+      proc.stdout?.setEncoding('utf8');
+      proc.stderr?.setEncoding('utf8');
+      proc.stdout?.on('data', (data: string) => {
+        stdout = keepEnd(stdout + data);
+      });
+      proc.stderr?.on('data', (data: string) => {
+        stderr = keepEnd(stderr + data);
+      });
+
+      const finish = (code: number | null): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        clearTimeout(backstop);
+        subscription?.dispose();
+        resolve({ code, stdout: stdout.slice(-MAX_PROCESS_OUTPUT), stderr: stderr.slice(-MAX_PROCESS_OUTPUT), timedOut });
+      };
+      const stop = (): void => {
+        killProcessTree(proc);
+        // A process that escaped the group can hold the pipes open; don't wait for it
+        backstop ??= setTimeout(() => finish(null), KILL_GRACE_MS * 2);
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        stop();
+      }, this.timeoutMs);
+      const subscription = cancellation?.onCancelled?.(stop);
+
+      proc.on('close', finish);
+      proc.on('error', (error) => {
+        stderr += error.message;
+        finish(null);
+      });
+    });
+  }
+
+  private async parseResults(
+    runner: TestRunnerKind,
+    output: ProcessOutput,
+    reportFile: string,
+    shadowPackage: string
+  ): Promise<ParsedRun> {
+    if (runner === 'node') {
+      return this.parseTap(output.stdout, shadowPackage);
+    }
+
+    let report: unknown;
+    try {
+      report = JSON.parse(await fs.promises.readFile(reportFile, 'utf8'));
+    } catch {
+      return { passed: 0, failures: [] };
+    }
+    return runner === 'mocha'
+      ? this.parseMochaReport(report as MochaReport, shadowPackage)
+      : this.parseJestReport(report as JestReport, shadowPackage);
+  }
+
+  /**
+   * Jest's --json report; vitest writes the same format
+   */
+  private parseJestReport(report: JestReport, shadowPackage: string): ParsedRun {
+    const failures: TestFailure[] = [];
+    for (const suite of report.testResults ?? []) {
+      const file = this.fromShadow(suite.name, shadowPackage);
+      const failedTests = (suite.assertionResults ?? []).filter((t) => t.status === 'failed');
+
+      for (const test of failedTests) {
+        failures.push({
+          name: test.fullName ?? test.title ?? 'unnamed test',
+          file,
+          line: test.location?.line,
+          column: test.location?.column,
+          output: (test.failureMessages ?? []).join('\n'),
+        });
+      }
+      if (failedTests.length === 0 && suite.status === 'failed') {
+        failures.push({ name: 'Test suite failed to run', file, output: suite.message ?? '' });
+      }
+    }
+    return { passed: report.numPassedTests ?? 0, failures };
+  }
+
+  private parseMochaReport(report: MochaReport, shadowPackage: string): ParsedRun {
+    return {
+      passed: report.stats?.passes ?? 0,
+      failures: (report.failures ?? []).map((test) => ({
+        name: test.fullTitle ?? test.title ?? 'unnamed test',
+        file: test.file ? this.fromShadow(test.file, shadowPackage) : undefined,
+        output: [test.err?.message, test.err?.stack].filter(Boolean).join('\n'),
+      })),
+    };
+  }
+
+  /**
+   * node:test TAP output; parents failing only through subtests are skipped
+   */
+  private parseTap(output: string, shadowPackage: string): ParsedRun {
+    const lines = output.split('\n');
+    const failures: TestFailure[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = /^(\s*)not ok \d+ - (.*)$/.exec(lines[i]!);
+      if (!match) {
+        continue;
+      }
+
+      const indent = match[1]!;
+      const details: string[] = [];
+      if (lines[i + 1]?.trim() === '---') {
+        for (i += 2; i < lines.length && lines[i] !== `${indent}  ...`; i++) {
+          details.push(lines[i]!.slice(indent.length + 2));
+        }
+      }
+
+      const yaml = details.join('\n');
+      if (/^failureType: 'subtestsFailed'$/m.test(yaml)) {
+        continue;
+      }
+
+      const location = /^location: '(.+):(\d+):(\d+)'$/m.exec(yaml);
+      failures.push({
+        name: match[2]!,
+        file: location ? this.fromShadow(location[1]!, shadowPackage) : undefined,
+        line: location ? Number(location[2]) : undefined,
+        column: location ? Number(location[3]) : undefined,
+        output: this.tapError(details),
+      });
+    }
+
+    const passed = /^# pass (\d+)$/m.exec(output);
+    return { passed: passed ? Number(passed[1]) : 0, failures };
+  }
+
+  /**
+   * The `error` entry of a TAP YAML block, inline or as a block scalar
+   */
+  private tapError(details: string[]): string {
+    const start = details.findIndex((l) => l.startsWith('error:'));
+    if (start < 0) {
+      return details.join('\n');
+    }
+
+    const inline = details[start]!.slice('error:'.length).trim();
+    if (!inline.startsWith('|')) {
+      return inline.replace(/^'(.*)'$/, '$1');
+    }
+
+    const block: string[] = [];
+    for (const line of details.slice(start + 1)) {
+      if (line.length > 0 && !line.startsWith('  ')) {
+        break;
+      }
+      block.push(line.slice(2));
+    }
+    return block.join('\n').trim();
+  }
+
+  private toIssue(run: PackageRun, failure: TestFailure): VerificationIssue {
+    const file = failure.file !== undefined ? this.toProjectPath(run.dir, failure.file) : run.dir || 'package.json';
+    const output = this.stripAnsi(failure.output).trim();
+
+    return {
+      type: 'test',
+      code: 'TEST_FAILED',
+      severity: 'error',
+      message: output
+        ? `Test failed: ${failure.name}\n${output.slice(0, MAX_FAILURE_OUTPUT)}`
+        : `Test failed: ${failure.name}`,
+      location: failure.line !== undefined
+        ? createSourceLocation(file, failure.line, failure.column ?? 1)
+        : { file },
+      suggestion: `Make the change pass \`${failure.name}\`, or update the test if the behavior change is intended`,
+    };
+  }
+
+  /**
+   * Shadow workspace path as a path relative to the package
+   */
+  private fromShadow(file: string, shadowPackage: string): string {
+    const resolved = fs.existsSync(shadowPackage) ? fs.realpathSync(shadowPackage) : shadowPackage;
+    const relative = file.startsWith(resolved)
+      ? path.relative(resolved, file)
+      : path.relative(shadowPackage, file);
+    return relative.replace(/\\/g, '/');
+  }
+
+  private relativeToProject(file: string): string {
+    return path.relative(this.projectRoot, path.resolve(this.projectRoot, file)).replace(/\\/g, '/');
+  }
+
+  private isSkipped(name: string, atPackageRoot: boolean): boolean {
+    return SKIPPED_DIRECTORIES.has(name) || (atPackageRoot && OUTPUT_DIRECTORIES.has(name));
+  }
+
+  private toProjectPath(dir: string, file: string): string {
+    return path.join(dir, file).replace(/\\/g, '/');
+  }
+
+  private stripExtension(file: string): string {
+    const ext = SOURCE_EXTENSIONS.find((e) => file.endsWith(e));
+    return ext ? file.slice(0, -ext.length) : file;
+  }
+
+  private stripAnsi(text: string): string {
+    return text.replace(ANSI_COLOR_PATTERN, '');
+  }
+
+  private tail(text: string): string {
+    return text.length > MAX_FAILURE_OUTPUT ? text.slice(-MAX_FAILURE_OUTPUT) : text;
+  }
+}
+
+/**
+ * Create a test runner service
+ */
+export function createTestRunnerService(
+  projectRoot: string,
+  semanticIndex: ISemanticIndexService,
+  logger?: ILogger,
+  options?: {
+    timeoutMs?: number;
+    maxTestFiles?: number;
+  }
+): ITestRunnerService {
+  return new TestRunnerService(projectRoot, semanticIndex, logger, options);
+}
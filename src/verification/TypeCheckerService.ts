@@ -0,0 +1,405 @@
+/**
+ * Type Checker Service
+ *
+ * Compiles proposed changes before they reach the disk:
+ * - A TypeScript LanguageService over the project's tsconfig.json, from the
+ *   project's own TypeScript install (which also has the standard library files)
+ * - Changed files are served from an in-memory overlay over the workspace
+ * - Changed files and the files importing them are checked
+ * - Only diagnostics introduced by the changes are reported
+ * - Current diagnostics of the workspace can be listed too
+ */
+
+import { createRequire } from 'module';
+import * as path from 'path';
+import type * as ts from 'typescript';
+import {
+  ITypeCheckerService,
+  VerificationIssue,
+  FileChange,
+  CancellationToken,
+  AsyncResult,
+  Result,
+  Ok,
+  Err,
+  AppError,
+  ILogger,
+  createSourceLocation,
+} from '../types';
+
+/** Importers of changed files checked along with them, at most */
+const DEFAULT_MAX_DEPENDENTS = 50;
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+const JS_EXTENSIONS = ['.js', '.jsx', '.mjs', '.cjs'];
+
+type TypeScript = typeof ts;
+
+/** Contents of the proposed changes; null for deleted files */
+type Overlay = Map<string, string | null>;
+
+/** Project compiler settings, from tsconfig.json */
+interface ProjectConfig {
+  readonly options: ts.CompilerOptions;
+  readonly fileNames: string[];
+}
+
+/**
+ * Type Checker Service implementation
+ */
+export class TypeCheckerService implements ITypeCheckerService {
+  private readonly projectRoot: string;
+  private readonly logger?: ILogger;
+  private readonly maxDependents: number;
+
+  private compiler: TypeScript | null = null;
+  private project: ProjectConfig | null = null;
+  private overlay: Overlay = new Map();
+  /** Bumped per check, so the language service re-reads overlaid files */
+  private overlayVersion = 0;
+  private languageService: ts.LanguageService | null = null;
+
+  constructor(
+    projectRoot: string,
+    logger?: ILogger,
+    options?: {
+      maxDependents?: number;
+    }
+  ) {
+    this.projectRoot = projectRoot;
+    this.logger = logger?.child('TypeCheckerService');
+    this.maxDependents = options?.maxDependents ?? DEFAULT_MAX_DEPENDENTS;
+  }
+
+  check(changes: FileChange[], cancellation?: CancellationToken): AsyncResult<VerificationIssue[]> {
+    // The compiler API is synchronous
+    return Promise.resolve(this.run(changes, cancellation));
+  }
+
+  getDiagnostics(files?: string[], cancellation?: CancellationToken): AsyncResult<VerificationIssue[]> {
+    return Promise.resolve(this.diagnose(files, cancellation));
+  }
+
+  private diagnose(files: string[] | undefined, cancellation?: CancellationToken): Result<VerificationIssue[]> {
+    try {
+      if (!this.loadCompiler()) {
+        return Err(new AppError('VERIFICATION', 'TypeScript is not installed in the project'));
+      }
+      const project = this.loadProject();
+      if (!project) {
+        return Err(new AppError('VERIFICATION', 'No tsconfig.json found in the project'));
+      }
+
+      const displayPaths = new Map<string, string>();
+      for (const file of files ?? []) {
+        displayPaths.set(this.resolve(file), file);
+      }
+      const targets = files
+        ? [...displayPaths.keys()].filter((f) => this.isCheckable(f, project.options) && this.ts.sys.fileExists(f))
+        : project.fileNames.filter((f) => !f.endsWith('.d.ts'));
+
+      const service = this.getLanguageService();
+      this.setOverlay(new Map());
+      const diagnostics = this.collect(service, targets, cancellation);
+
+      if (cancellation?.isCancelled) {
+        return Err(new AppError('CANCELLED', 'Type check cancelled'));
+      }
+      return Ok(diagnostics.map((d) => this.toIssue(d, displayPaths)));
+    } catch (error) {
+      this.logger?.error('Listing diagnostics failed', error as Error);
+      return Err(new AppError('VERIFICATION', `Type check failed: ${(error as Error).message}`));
+    }
+  }
+
+  private run(changes: FileChange[], cancellation?: CancellationToken): Result<VerificationIssue[]> {
+    try {
+      if (!this.loadCompiler()) {
+        this.logger?.debug('TypeScript is not installed in the project, skipping type check');
+        return Ok([]);
+      }
+      const project = this.loadProject();
+      if (!project) {
+        this.logger?.debug('No tsconfig.json, skipping type check');
+        return Ok([]);
+      }
+
+      const overlay: Overlay = new Map();
+      const displayPaths = new Map<string, string>();
+      for (const change of changes) {
+        const file = this.resolve(change.path);
+        if (!this.isCheckable(file, project.options)) {
+          continue;
+        }
+        const action = change.action ?? change.type;
+        overlay.set(file, action === 'delete' ? null : change.content ?? null);
+        displayPaths.set(file, change.path);
+      }
+      if (overlay.size === 0) {
+        return Ok([]);
+      }
+
+      const service = this.getLanguageService();
+
+      // Baseline: the workspace as it is on disk
+      this.setOverlay(new Map());
+      const dependents = this.findDependents(service, new Set(overlay.keys()), project.options);
+      const files = [...overlay.keys(), ...dependents];
+      const before = this.collect(service, files.filter((f) => this.ts.sys.fileExists(f)), cancellation);
+
+      // With the proposed changes
+      this.setOverlay(overlay);
+      const after = this.collect(service, files.filter((f) => overlay.get(f) !== null), cancellation);
+      this.setOverlay(new Map());
+
+      if (cancellation?.isCancelled) {
+        return Err(new AppError('CANCELLED', 'Type check cancelled'));
+      }
+
+      const issues = this.subtract(after, before).map((d) => this.toIssue(d, displayPaths));
+      this.logger?.info('Type check complete', {
+        files: files.length,
+        dependents: dependents.length,
+        issueCount: issues.length,
+      });
+      return Ok(issues);
+    } catch (error) {
+      this.setOverlay(new Map());
+      this.logger?.error('Type check failed', error as Error);
+      return Err(new AppError('VERIFICATION', `Type check failed: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Read the project's tsconfig.json; re-read on every check so edits to it apply
+   */
+  private loadProject(): ProjectConfig | null {
+    const configPath = this.ts.findConfigFile(this.projectRoot, (f) => this.ts.sys.fileExists(f), 'tsconfig.json');
+    if (!configPath || !this.resolve(configPath).startsWith(this.resolve('.'))) {
+      this.project = null;
+      return null;
+    }
+
+    const configFile = this.ts.readConfigFile(configPath, (f) => this.ts.sys.readFile(f));
+    if (configFile.error) {
+      throw new Error(this.ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n'));
+    }
+
+    const parsed = this.ts.parseJsonConfigFileContent(configFile.config as unknown, this.ts.sys, path.dirname(configPath));
+    this.project = {
+      // The check never emits
+      options: { ...parsed.options, noEmit: true },
+      fileNames: parsed.fileNames.map((f) => this.resolve(f)),
+    };
+    return this.project;
+  }
+
+  /**
+   * The TypeScript install the project resolves, loaded once it is found
+   */
+  private loadCompiler(): TypeScript | null {
+    if (!this.compiler) {
+      try {
+        const projectRequire = createRequire(path.join(this.projectRoot, 'package.json'));
+        this.compiler = projectRequire('typescript') as TypeScript;
+      } catch {
+        return null;
+      }
+    }
+    return this.compiler;
+  }
+
+  private get ts(): TypeScript {
+    if (!this.compiler) {
+      throw new Error('TypeScript is not loaded');
+    }
+    return this.compiler;
+  }
+
+  private getLanguageService(): ts.LanguageService {
+    if (this.languageService) {
+      return this.languageService;
+    }
+
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => this.project?.options ?? {},
+      getScriptFileNames: () => {
+        const files = new Set(this.project?.fileNames ?? []);
+        for (const [file, content] of this.overlay) {
+          if (content === null) {
+            files.delete(file);
+          } else {
+            files.add(file);
+          }
+        }
+        return [...files];
+      },
+      getScriptVersion: (file) => {
+        const resolved = this.resolve(file);
+        if (this.overlay.has(resolved)) {
+          return `overlay:${this.overlayVersion}`;
+        }
+        return String(this.ts.sys.getModifiedTime?.(resolved)?.getTime() ?? 0);
+      },
+      getScriptSnapshot: (file) => {
+        const content = this.readFile(file);
+        return content === undefined ? undefined : this.ts.ScriptSnapshot.fromString(content);
+      },
+      getCurrentDirectory: () => this.projectRoot,
+      getDefaultLibFileName: (options) => this.ts.getDefaultLibFilePath(options),
+      fileExists: (file) => {
+        const resolved = this.resolve(file);
+        return this.overlay.has(resolved) ? this.overlay.get(resolved) !== null : this.ts.sys.fileExists(resolved);
+      },
+      readFile: (file) => this.readFile(file),
+      directoryExists: (dir) => this.ts.sys.directoryExists(dir),
+      getDirectories: (dir) => this.ts.sys.getDirectories(dir),
+      readDirectory: (dir, extensions, exclude, include, depth) =>
+        this.ts.sys.readDirectory(dir, extensions, exclude, include, depth),
+      realpath: (file) => this.ts.sys.realpath?.(file) ?? file,
+      useCaseSensitiveFileNames: () => this.ts.sys.useCaseSensitiveFileNames,
+    };
+
+    this.languageService = this.ts.createLanguageService(host, this.ts.createDocumentRegistry());
+    return this.languageService;
+  }
+
+  /**
+   * Read a file through the overlay
+   */
+  private readFile(file: string): string | undefined {
+    const resolved = this.resolve(file);
+    if (this.overlay.has(resolved)) {
+      return this.overlay.get(resolved) ?? undefined;
+    }
+    return this.ts.sys.readFile(resolved);
+  }
+
+  private setOverlay(overlay: Overlay): void {
+    this.overlay = overlay;
+    this.overlayVersion++;
+  }
+
+  /**
+   * Project files importing any of the changed files
+   */
+  private findDependents(
+    service: ts.LanguageService,
+    changed: Set<string>,
+    options: ts.CompilerOptions
+  ): string[] {
+    const program = service.getProgram();
+    if (!program) {
+      return [];
+    }
+
+    const dependents: string[] = [];
+    for (const sourceFile of program.getSourceFiles()) {
+      const file = this.resolve(sourceFile.fileName);
+      if (
+        sourceFile.isDeclarationFile ||
+        changed.has(file) ||
+        file.includes('/node_modules/') ||
+        !this.isCheckable(file, options)
+      ) {
+        continue;
+      }
+
+      const { importedFiles } = this.ts.preProcessFile(sourceFile.text, true, true);
+      const importsChanged = importedFiles.some((ref) => {
+        const resolved = this.ts.resolveModuleName(ref.fileName, file, options, this.ts.sys).resolvedModule;
+        return resolved !== undefined && changed.has(this.resolve(resolved.resolvedFileName));
+      });
+
+      if (importsChanged) {
+        dependents.push(file);
+        if (dependents.length >= this.maxDependents) {
+          break;
+        }
+      }
+    }
+    return dependents;
+  }
+
+  private collect(
+    service: ts.LanguageService,
+    files: string[],
+    cancellation?: CancellationToken
+  ): ts.Diagnostic[] {
+    const diagnostics: ts.Diagnostic[] = [];
+    for (const file of files) {
+      if (cancellation?.isCancelled) {
+        break;
+      }
+      diagnostics.push(...service.getSyntacticDiagnostics(file), ...service.getSemanticDiagnostics(file));
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Diagnostics not already present before the changes; lines shift with edits,
+   * so diagnostics are matched by file, code and message
+   */
+  private subtract(after: ts.Diagnostic[], before: ts.Diagnostic[]): ts.Diagnostic[] {
+    const existing = new Map<string, number>();
+    for (const d of before) {
+      const key = this.diagnosticKey(d);
+      existing.set(key, (existing.get(key) ?? 0) + 1);
+    }
+
+    return after.filter((d) => {
+      const key = this.diagnosticKey(d);
+      const count = existing.get(key) ?? 0;
+      if (count > 0) {
+        existing.set(key, count - 1);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private diagnosticKey(d: ts.Diagnostic): string {
+    return `${d.file ? this.resolve(d.file.fileName) : ''}|${d.code}|${this.ts.flattenDiagnosticMessageText(d.messageText, '\n')}`;
+  }
+
+  private toIssue(d: ts.Diagnostic, displayPaths: Map<string, string>): VerificationIssue {
+    const file = d.file ? this.resolve(d.file.fileName) : undefined;
+    const displayPath = file ? displayPaths.get(file) ?? path.relative(this.projectRoot, file) : 'unknown';
+    const position = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start) : undefined;
+
+    return {
+      type: 'compile',
+      code: `TS${d.code}`,
+      severity: d.category === this.ts.DiagnosticCategory.Error ? 'error' : 'warning',
+      message: this.ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+      location: position
+        ? createSourceLocation(displayPath, position.line + 1, position.character + 1)
+        : { file: displayPath },
+    };
+  }
+
+  private isCheckable(file: string, options: ts.CompilerOptions): boolean {
+    const ext = path.extname(file);
+    return TS_EXTENSIONS.includes(ext) || (options.allowJs === true && JS_EXTENSIONS.includes(ext));
+  }
+
+  /**
+   * Absolute path with forward slashes, as the compiler reports file names
+   */
+  private resolve(file: string): string {
+    return path.resolve(this.projectRoot, file).replace(/\\/g, '/');
+  }
+}
+
+/**
+ * Create a type checker service
+ */
+export function createTypeCheckerService(
+  projectRoot: string,
+  logger?: ILogger,
+  options?: {
+    maxDependents?: number;
+  }
+): ITypeCheckerService {
+  return new TypeCheckerService(projectRoot, logger, options);
+}
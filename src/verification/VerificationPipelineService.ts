@@ -6,8 +6,12 @@
  * - Symbol resolution
  * - API call checking
  * - Dependency verification
+ * - Type checking of change sets against the project's compiler settings
+ * - Running the tests related to change sets, at the thorough level
+ * - Convention compliance of generated code
  *
- * Returns unified verification results with suggestions for fixes.
+ * Change sets are verified per file, with references extracted from the
+ * changed content. Returns unified verification results with suggestions for fixes.
  */
 
 import {
@@ -16,6 +20,8 @@ import {
   ISymbolResolverService,
   IAPICheckerService,
   IDependencyVerifierService,
+  ITypeCheckerService,
+  ITestRunnerService,
   VerificationRequest,
   VerificationResult,
   VerificationLevel,
@@ -31,7 +37,21 @@ import {
   ILogger,
   AppError,
   CancellationToken,
+  FileChange,
+  IConventionExtractorService,
+  VerificationStrictness,
+  VerificationSeverity,
+  toRelativePath,
+  toFilePath,
 } from '../types';
+import { extractCodeReferences } from './CodeReferenceExtractor';
+
+/** Severity of convention violations at each strictness */
+const CONVENTION_SEVERITY: Record<VerificationStrictness, VerificationSeverity> = {
+  strict: 'error',
+  standard: 'warning',
+  lenient: 'info',
+};
 
 /**
  * Verification Pipeline Service implementation
@@ -43,18 +63,38 @@ export class VerificationPipelineService implements IVerificationPipelineService
   private readonly dependencyVerifier: IDependencyVerifierService;
   private readonly logger?: ILogger;
 
+  // Optional: Convention checks on generated code, with their own strictness
+  private readonly conventionExtractor?: IConventionExtractorService;
+  private readonly conventionStrictness: VerificationStrictness;
+
+  // Optional: Compiler diagnostics for change sets
+  private readonly typeChecker?: ITypeCheckerService;
+
+  // Optional: Related tests run against change sets
+  private readonly testRunner?: ITestRunnerService;
+
   constructor(
     fileValidator: IFileValidatorService,
     symbolResolver: ISymbolResolverService,
     apiChecker: IAPICheckerService,
     dependencyVerifier: IDependencyVerifierService,
-    logger?: ILogger
+    logger?: ILogger,
+    options?: {
+      conventionExtractor?: IConventionExtractorService;
+      conventionStrictness?: VerificationStrictness;
+      typeChecker?: ITypeCheckerService;
+      testRunner?: ITestRunnerService;
+    }
   ) {
     this.fileValidator = fileValidator;
     this.symbolResolver = symbolResolver;
     this.apiChecker = apiChecker;
     this.dependencyVerifier = dependencyVerifier;
     this.logger = logger?.child('VerificationPipelineService');
+    this.conventionExtractor = options?.conventionExtractor;
+    this.conventionStrictness = options?.conventionStrictness ?? 'standard';
+    this.typeChecker = options?.typeChecker;
+    this.testRunner = options?.testRunner;
   }
 
   async verify(
@@ -68,40 +108,24 @@ export class VerificationPipelineService implements IVerificationPipelineService
     });
 
     try {
-      const issues: VerificationIssue[] = [];
+      const requests = request.content.type === 'changes'
+        ? [request, ...this.expandChanges(request, request.content.changes)]
+        : [request];
 
-      // Quick verification - just file paths
-      if (request.level === 'quick' || request.level === 'standard' || request.level === 'thorough') {
+      const issues: VerificationIssue[] = [];
+      for (const checkRequest of requests) {
         if (cancellation?.isCancelled) {
           return Err(new AppError('CANCELLED', 'Verification cancelled'));
         }
-
-        const fileIssues = await this.verifyFiles(request);
-        issues.push(...fileIssues);
+        issues.push(...await this.runChecks(checkRequest, cancellation));
       }
 
-      // Standard verification - add symbols
-      if (request.level === 'standard' || request.level === 'thorough') {
-        if (cancellation?.isCancelled) {
-          return Err(new AppError('CANCELLED', 'Verification cancelled'));
-        }
-
-        const symbolIssues = await this.verifySymbols(request);
-        issues.push(...symbolIssues);
+      if (request.content.type === 'changes' && !cancellation?.isCancelled) {
+        issues.push(...await this.verifyTypes(request, request.content.changes, cancellation));
       }
 
-      // Thorough verification - add APIs and dependencies
-      if (request.level === 'thorough') {
-        if (cancellation?.isCancelled) {
-          return Err(new AppError('CANCELLED', 'Verification cancelled'));
-        }
-
-        const [apiIssues, depIssues] = await Promise.all([
-          this.verifyAPICalls(request),
-          this.verifyDependencies(request),
-        ]);
-
-        issues.push(...apiIssues, ...depIssues);
+      if (request.content.type === 'changes' && !cancellation?.isCancelled) {
+        issues.push(...await this.verifyTests(request, request.content.changes, cancellation));
       }
 
       // Calculate overall validity
@@ -113,10 +137,10 @@ export class VerificationPipelineService implements IVerificationPipelineService
         issues,
         summary: this.generateSummary(issues),
         stats: {
-          filesChecked: request.filePaths?.length ?? 0,
-          symbolsResolved: request.symbols?.length ?? 0,
-          apiCallsVerified: request.apiCalls?.length ?? 0,
-          dependenciesChecked: request.imports?.length ?? 0,
+          filesChecked: this.count(requests, (r) => r.filePaths?.length),
+          symbolsResolved: this.count(requests, (r) => r.symbols?.length),
+          apiCallsVerified: this.count(requests, (r) => r.apiCalls?.length),
+          dependenciesChecked: this.count(requests, (r) => r.imports?.length),
           issueCount: issues.length,
           errorCount: issues.filter((i) => i.severity === 'error').length,
           warningCount: issues.filter((i) => i.severity === 'warning').length,
@@ -139,6 +163,90 @@ export class VerificationPipelineService implements IVerificationPipelineService
     }
   }
 
+  /**
+   * Run the checks enabled by the request's level
+   */
+  private async runChecks(
+    request: VerificationRequest,
+    cancellation?: CancellationToken
+  ): Promise<VerificationIssue[]> {
+    const issues: VerificationIssue[] = [];
+
+    // Quick verification - just file paths
+    if (request.level === 'quick' || request.level === 'standard' || request.level === 'thorough') {
+      issues.push(...await this.verifyFiles(request));
+    }
+
+    // Standard verification - add symbols
+    if ((request.level === 'standard' || request.level === 'thorough') && !cancellation?.isCancelled) {
+      issues.push(...await this.verifySymbols(request));
+    }
+
+    // Thorough verification - add APIs and dependencies
+    if (request.level === 'thorough' && !cancellation?.isCancelled) {
+      const [apiIssues, depIssues] = await Promise.all([
+        this.verifyAPICalls(request),
+        this.verifyDependencies(request),
+      ]);
+
+      issues.push(...apiIssues, ...depIssues);
+    }
+
+    // Convention compliance at every level; it only reads the generated code
+    if (!request.options.skipChecks?.includes('conventions')) {
+      issues.push(...this.verifyConventions(request));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Build one request per changed file, with references extracted from its content.
+   * Deleted files only need their importers checked, which other files cover.
+   */
+  private expandChanges(request: VerificationRequest, changes: FileChange[]): VerificationRequest[] {
+    const requests: VerificationRequest[] = [];
+
+    for (const change of changes) {
+      const action = change.action ?? change.type;
+      if (action === 'delete' || change.content === undefined) {
+        continue;
+      }
+
+      const references = extractCodeReferences(change.path, change.content);
+      requests.push({
+        phase: request.phase,
+        content: {
+          type: 'code',
+          code: change.content,
+          language: /\.(ts|tsx)$/.test(change.path) ? 'typescript' : 'javascript',
+          filePath: change.path,
+        },
+        options: request.options,
+        level: request.level,
+        contextFile: change.path,
+        filePaths: [change.path],
+        symbols: references.symbols,
+        // Only calls to known functions have a signature to check; unknown names
+        // are already reported by the symbol check
+        apiCalls: references.calls.filter((call) => this.symbolResolver.exists(call.name, 'function')),
+        imports: references.imports,
+      });
+    }
+
+    return requests;
+  }
+
+  /**
+   * Sum a per-request count
+   */
+  private count(
+    requests: VerificationRequest[],
+    select: (request: VerificationRequest) => number | undefined
+  ): number {
+    return requests.reduce((total, r) => total + (select(r) ?? 0), 0);
+  }
+
   getLevel(content: string): VerificationLevel {
     // Determine appropriate verification level based on content
     const lines = content.split('\n').length;
@@ -170,6 +278,82 @@ export class VerificationPipelineService implements IVerificationPipelineService
     return Ok(result.value.valid ?? true);
   }
 
+  /**
+   * Verify generated code follows the project's conventions
+   */
+  private verifyConventions(request: VerificationRequest): VerificationIssue[] {
+    if (!this.conventionExtractor || request.content.type !== 'code' || !request.content.filePath) {
+      return [];
+    }
+
+    const filePath = request.content.filePath;
+    const result = this.conventionExtractor.checkCompliance(request.content.code, toRelativePath(filePath));
+
+    return result.violations.map((violation) => ({
+      type: 'convention' as const,
+      code: violation.convention,
+      severity: CONVENTION_SEVERITY[this.conventionStrictness],
+      message: `Convention ${violation.convention}: expected ${violation.expected}, found ${violation.actual}`,
+      location: violation.location
+        ? { ...violation.location, file: toFilePath(filePath) }
+        : { file: filePath },
+      suggestion: violation.fix,
+      autoFixable: violation.autoFixable,
+    }));
+  }
+
+  /**
+   * Compile the change set as a whole, in memory
+   */
+  private async verifyTypes(
+    request: VerificationRequest,
+    changes: FileChange[],
+    cancellation?: CancellationToken
+  ): Promise<VerificationIssue[]> {
+    if (
+      !this.typeChecker ||
+      (request.level !== 'standard' && request.level !== 'thorough') ||
+      request.options.skipChecks?.includes('compile')
+    ) {
+      return [];
+    }
+
+    const result = await this.typeChecker.check(changes, cancellation);
+    if (!result.ok) {
+      return [{
+        type: 'compile',
+        severity: 'warning',
+        message: `Type check failed: ${result.error.message}`,
+        location: { file: request.contextFile ?? 'unknown' },
+      }];
+    }
+    return result.value;
+  }
+
+  /**
+   * Run the tests related to the change set in a shadow workspace
+   */
+  private async verifyTests(
+    request: VerificationRequest,
+    changes: FileChange[],
+    cancellation?: CancellationToken
+  ): Promise<VerificationIssue[]> {
+    if (!this.testRunner || request.level !== 'thorough' || request.options.skipChecks?.includes('tests')) {
+      return [];
+    }
+
+    const result = await this.testRunner.run(changes, cancellation);
+    if (!result.ok) {
+      return [{
+        type: 'test',
+        severity: 'warning',
+        message: `Test run failed: ${result.error.message}`,
+        location: { file: request.contextFile ?? 'unknown' },
+      }];
+    }
+    return result.value.issues;
+  }
+
   /**
    * Verify file paths
    */
@@ -256,6 +440,7 @@ export class VerificationPipelineService implements IVerificationPipelineService
           severity: 'error',
           message: resolution.error ?? `Symbol not found: ${resolution.reference.name}`,
           location: { file: request.contextFile ?? 'unknown' },
+          symbol: resolution.reference.name,
         };
 
         // Add suggestions if available
@@ -455,13 +640,20 @@ export function createVerificationPipelineService(
   symbolResolver: ISymbolResolverService,
   apiChecker: IAPICheckerService,
   dependencyVerifier: IDependencyVerifierService,
-  logger?: ILogger
+  logger?: ILogger,
+  options?: {
+    conventionExtractor?: IConventionExtractorService;
+    conventionStrictness?: VerificationStrictness;
+    typeChecker?: ITypeCheckerService;
+    testRunner?: ITestRunnerService;
+  }
 ): IVerificationPipelineService {
   return new VerificationPipelineService(
     fileValidator,
     symbolResolver,
     apiChecker,
     dependencyVerifier,
-    logger
+    logger,
+    options
   );
 }
@@ -6,6 +6,9 @@
  * - SymbolResolverService
  * - APICheckerService
  * - DependencyVerifierService
+ * - TypeCheckerService
+ * - TestRunnerService
+ * - CodeReferenceExtractor
  * - VerificationPipelineService
  */
 
@@ -24,6 +27,19 @@ export {
   createDependencyVerifierService,
 } from './DependencyVerifierService';
 
+// Type Checker
+export { TypeCheckerService, createTypeCheckerService } from './TypeCheckerService';
+
+// Test Runner
+export { TestRunnerService, createTestRunnerService } from './TestRunnerService';
+
+// Code Reference Extractor
+export {
+  extractCodeReferences,
+  isAnalyzableSource,
+  CodeReferences,
+} from './CodeReferenceExtractor';
+
 // Verification Pipeline
 export {
   VerificationPipelineService,
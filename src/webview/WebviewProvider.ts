@@ -156,9 +156,9 @@ export class WebviewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Send a tool result notification
+   * Send a tool result notification; partial results carry output of a tool still running
    */
-  public streamToolResult(messageId: string, tool: string, result: string, toolCallId: string): void {
+  public streamToolResult(messageId: string, tool: string, result: string, toolCallId: string, partial?: boolean): void {
     if (messageId !== this._currentStreamingMessageId) return;
 
     this.postMessage({
@@ -167,6 +167,7 @@ export class WebviewProvider implements vscode.WebviewViewProvider {
       tool,
       result,
       toolCallId,
+      partial,
     });
   }
 
@@ -292,6 +293,14 @@ export class WebviewProvider implements vscode.WebviewViewProvider {
     this._sendFullState();
   }
 
+  /**
+   * Replace chat messages, e.g. when another session is opened
+   */
+  public setChatMessages(messages: ChatMessage[]): void {
+    this._updateState({ messages });
+    this._sendFullState();
+  }
+
   /**
    * Update quota status
    */
@@ -450,6 +459,43 @@ export class WebviewProvider implements vscode.WebviewViewProvider {
 
       case 'chat:clear':
         this.clearChatMessages();
+        this._eventBus.emit('chat:clear', {});
+        break;
+
+      case 'chat:retry':
+        this._eventBus.emit('chat:retry', { messageId: message.messageId });
+        break;
+
+      case 'chat:regenerate':
+        this._eventBus.emit('chat:regenerate', { messageId: message.messageId });
+        break;
+
+      case 'chat:newSession':
+        this.clearChatMessages();
+        this._eventBus.emit('chat:newSession', {});
+        break;
+
+      case 'chat:listSessions':
+        this._eventBus.emit('chat:listSessions', {});
+        break;
+
+      case 'chat:openSession':
+        this._eventBus.emit('chat:openSession', { sessionId: message.sessionId });
+        break;
+
+      case 'chat:deleteSession':
+        this._eventBus.emit('chat:deleteSession', { sessionId: message.sessionId });
+        break;
+
+      case 'chat:search':
+        this._eventBus.emit('chat:search', { query: message.query });
+        break;
+
+      case 'chat:export':
+        this._eventBus.emit('chat:export', {
+          format: message.format,
+          sessionId: message.sessionId,
+        });
         break;
 
       case 'approval:respond':
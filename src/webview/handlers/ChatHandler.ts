@@ -8,10 +8,23 @@
 import * as vscode from 'vscode';
 import { v4 as uuidv4 } from 'uuid';
 import { AlterCodeCore } from '../../core/AlterCodeCore';
-import { IEventBus, ILogger, toFilePath } from '../../types';
+import {
+  IEventBus,
+  ILogger,
+  StoredChatMessage,
+  StoredChatSession,
+  ChatExportFormat,
+  toFilePath,
+} from '../../types';
 import type { WebviewProvider } from '../WebviewProvider';
 import type { ChatSendMessage, Attachment } from '../messages/WebviewMessage';
-import type { ErrorInfo, ChatMessage } from '../messages/ExtensionMessage';
+import type {
+  ErrorInfo,
+  ChatMessage,
+  TokenUsage,
+  WebviewChatSession,
+} from '../messages/ExtensionMessage';
+import type { ToolFileChange, ChatHistory, ChatHistoryEntry } from '../../core';
 
 export class ChatHandler {
   private readonly core: AlterCodeCore;
@@ -20,6 +33,7 @@ export class ChatHandler {
   private readonly provider: WebviewProvider;
 
   private messages: ChatMessage[] = [];
+  private readonly history: ChatHistory;
   private currentAbortController: AbortController | null = null;
 
   constructor(
@@ -32,6 +46,7 @@ export class ChatHandler {
     this.eventBus = eventBus;
     this.provider = provider;
     this.logger = logger?.child('ChatHandler');
+    this.history = core.createChatHistory();
 
     this.setupEventListeners();
   }
@@ -51,6 +66,7 @@ export class ChatHandler {
       attachments,
     };
     this.messages.push(userMessage);
+    await this.record({ id: userMessage.id, role: 'user', content });
 
     // Get current file context
     const currentFile = this.getCurrentFile();
@@ -78,7 +94,10 @@ export class ChatHandler {
         await this.handleBlockingResponse(messageId, content, context);
       }
     } catch (error) {
-      this.handleError(messageId, error as Error);
+      await this.handleError(messageId, error as Error);
+    } finally {
+      this.currentAbortController = null;
+      this.postSessions();
     }
   }
 
@@ -94,13 +113,18 @@ export class ChatHandler {
 
     try {
       // Use streaming API if available
-      const streamGenerator = (this.core as any).streamMessage(content, {
+      const streamGenerator = this.core.streamMessage(content, {
         ...context,
         abortSignal,
+        session: this.history.memory,
+        requestApproval: (description: string, changes: ToolFileChange[]) =>
+          this.requestToolApproval(description, changes),
       });
 
       let fullContent = '';
-      let usage: any = undefined;
+      let usage: TokenUsage | undefined = undefined;
+      // Map model tool call ids to the ids shown in the webview
+      const toolCallIds = new Map<string, string>();
 
       for await (const chunk of streamGenerator) {
         if (abortSignal?.aborted) {
@@ -123,6 +147,7 @@ export class ChatHandler {
               chunk.name,
               JSON.stringify(chunk.input)
             );
+            toolCallIds.set(chunk.id, toolCallId);
 
             // Emit activity event
             this.eventBus.emit('activity:started', {
@@ -136,20 +161,26 @@ export class ChatHandler {
             });
             break;
 
-          case 'tool_result':
+          case 'tool_result': {
+            const resultCallId = toolCallIds.get(chunk.toolCallId) ?? chunk.toolCallId ?? '';
             this.provider.streamToolResult(
               messageId,
               chunk.name,
               chunk.result,
-              chunk.toolCallId || ''
+              resultCallId,
+              chunk.partial
             );
+            if (chunk.partial) {
+              break;
+            }
 
             // Emit activity completed
             this.eventBus.emit('activity:completed', {
-              activityId: chunk.toolCallId || '',
+              activityId: resultCallId,
               result: chunk.result,
             });
             break;
+          }
 
           case 'usage':
             usage = {
@@ -191,6 +222,7 @@ export class ChatHandler {
         usage,
       };
       this.messages.push(assistantMessage);
+      await this.record({ id: messageId, role: 'assistant', content: fullContent, usage });
 
     } catch (error) {
       if ((error as Error).name === 'AbortError') {
@@ -201,6 +233,26 @@ export class ChatHandler {
     }
   }
 
+  /**
+   * Ask the user to approve a tool that modifies the workspace
+   */
+  private async requestToolApproval(
+    description: string,
+    changes: ToolFileChange[]
+  ): Promise<boolean> {
+    const detail = changes.length > 0
+      ? changes.map((c) => `${c.changeType}: ${c.filePath}`).join('\n')
+      : undefined;
+
+    const choice = await vscode.window.showWarningMessage(
+      `AlterCode wants to: ${description}`,
+      { modal: true, detail },
+      'Allow'
+    );
+
+    return choice === 'Allow';
+  }
+
   /**
    * Handle blocking response (fallback)
    */
@@ -242,19 +294,20 @@ export class ChatHandler {
           timestamp: new Date().toISOString(),
         };
         this.messages.push(assistantMessage);
+        await this.record({ id: messageId, role: 'assistant', content: response });
 
       } else {
-        this.handleError(messageId, new Error(result.error.message));
+        await this.handleError(messageId, new Error(result.error.message));
       }
     } catch (error) {
-      this.handleError(messageId, error as Error);
+      await this.handleError(messageId, error as Error);
     }
   }
 
   /**
    * Handle errors during processing
    */
-  private handleError(messageId: string, error: Error): void {
+  private async handleError(messageId: string, error: Error): Promise<void> {
     const errorInfo = this.categorizeError(error);
 
     this.provider.streamError(messageId, errorInfo);
@@ -270,6 +323,7 @@ export class ChatHandler {
       error: errorInfo,
     };
     this.messages.push(errorMessage);
+    await this.record({ id: messageId, role: 'assistant', content: '', error: error.message });
   }
 
   /**
@@ -359,10 +413,12 @@ export class ChatHandler {
   }
 
   /**
-   * Handle clear request
+   * Handle clear request; the cleared conversation stays stored
    */
   handleClear(): void {
     this.messages = [];
+    this.history.startNew();
+    this.postSessions();
   }
 
   /**
@@ -379,8 +435,13 @@ export class ChatHandler {
       .find((m) => m.role === 'user');
 
     if (lastUserMessage) {
-      // Remove messages from the failed one onwards
-      this.messages = this.messages.slice(0, messageIndex);
+      // Remove the exchange being retried; it is sent again below
+      this.messages = this.messages.slice(0, this.messages.indexOf(lastUserMessage));
+      const truncated = await this.history.truncateFrom(lastUserMessage.id);
+      if (!truncated.ok) {
+        this.logger?.warn('Failed to remove retried chat messages', { error: truncated.error.message });
+      }
+      this.provider.setChatMessages(this.messages);
 
       // Retry the last user message
       await this.handleSend({
@@ -391,6 +452,112 @@ export class ChatHandler {
     }
   }
 
+  /**
+   * Handle regenerate request: continue in a new branch from the request behind a message
+   */
+  async handleRegenerate(messageId: string): Promise<void> {
+    const fork = await this.history.fork(messageId);
+    if (!fork.ok) {
+      this.logger?.warn('Failed to branch chat', { error: fork.error.message });
+      return;
+    }
+
+    this.messages = fork.value.messages.map((m) => this.toChatMessage(m));
+    this.provider.setChatMessages(this.messages);
+
+    await this.handleSend({ type: 'chat:send', content: fork.value.resend.content });
+  }
+
+  /**
+   * Open a stored session
+   */
+  async handleOpenSession(sessionId: string): Promise<void> {
+    const messages = await this.history.open(sessionId);
+    if (!messages.ok) {
+      this.logger?.warn('Failed to open chat session', { sessionId, error: messages.error.message });
+      return;
+    }
+
+    this.messages = messages.value.map((m) => this.toChatMessage(m));
+    this.provider.setChatMessages(this.messages);
+    this.postSessions();
+  }
+
+  /**
+   * Delete a stored session
+   */
+  async handleDeleteSession(sessionId: string): Promise<void> {
+    const active = sessionId === this.history.getActiveSessionId();
+    const deleted = await this.history.delete(sessionId);
+    if (!deleted.ok) {
+      this.logger?.warn('Failed to delete chat session', { sessionId, error: deleted.error.message });
+      return;
+    }
+
+    if (active) {
+      this.messages = [];
+      this.provider.clearChatMessages();
+    }
+    this.postSessions();
+  }
+
+  /**
+   * Search all stored sessions
+   */
+  async handleSearch(query: string): Promise<void> {
+    const results = await this.history.search(query);
+    if (!results.ok) {
+      this.logger?.warn('Chat search failed', { error: results.error.message });
+      return;
+    }
+
+    this.provider.postMessage({
+      type: 'chatSearchResults',
+      query,
+      results: results.value.map((r) => ({ ...r, timestamp: r.timestamp.toISOString() })),
+    });
+  }
+
+  /**
+   * Export a session (default: the active one) to a file chosen by the user
+   */
+  async handleExport(format: ChatExportFormat, sessionId?: string): Promise<void> {
+    const content = await this.history.export(format, sessionId);
+    if (!content.ok) {
+      void vscode.window.showErrorMessage(`Chat export failed: ${content.error.message}`);
+      return;
+    }
+
+    const extension = format === 'markdown' ? 'md' : 'json';
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(`altercode-chat.${extension}`),
+      filters: format === 'markdown' ? { 'Markdown': ['md'] } : { 'JSON': ['json'] },
+    });
+
+    if (uri) {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content.value, 'utf8'));
+      void vscode.window.showInformationMessage(`Chat exported to ${uri.fsPath}`);
+    }
+  }
+
+  /**
+   * Send the stored sessions to the webview
+   */
+  postSessions(): void {
+    void this.history.list().then((sessions) => {
+      if (!sessions.ok) {
+        this.logger?.warn('Failed to list chat sessions', { error: sessions.error.message });
+        return;
+      }
+
+      this.provider.postMessage({
+        type: 'chatSessions',
+        sessions: sessions.value.map((s) => this.toWebviewSession(s)),
+        activeSessionId: this.history.getActiveSessionId(),
+      });
+    });
+  }
+
   /**
    * Get chat messages
    */
@@ -406,6 +573,36 @@ export class ChatHandler {
     return editor?.document.uri.fsPath;
   }
 
+  /**
+   * Store a message in the active session
+   */
+  private async record(entry: ChatHistoryEntry): Promise<void> {
+    const recorded = await this.history.record(entry);
+    if (!recorded.ok) {
+      this.logger?.warn('Failed to store chat message', { error: recorded.error.message });
+    }
+  }
+
+  private toChatMessage(message: StoredChatMessage): ChatMessage {
+    return {
+      id: message.id,
+      role: message.role === 'user' ? 'user' : 'assistant',
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      usage: message.usage,
+      error: message.error ? this.categorizeError(new Error(message.error)) : undefined,
+    };
+  }
+
+  private toWebviewSession(session: StoredChatSession): WebviewChatSession {
+    return {
+      ...session,
+      missionIds: [...session.missionIds],
+      createdAt: session.createdAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+    };
+  }
+
   /**
    * Setup event listeners
    */
@@ -419,6 +616,62 @@ export class ChatHandler {
         attachments: data.attachments,
       });
     });
+
+    // Clearing the chat starts a new session, forgetting the conversation history
+    this.eventBus.on('chat:clear', () => {
+      this.handleClear();
+    });
+
+    this.eventBus.on('chat:newSession', () => {
+      this.handleClear();
+    });
+
+    this.eventBus.on('chat:retry', async (event) => {
+      const data = event as unknown as { messageId: string };
+      await this.handleRetry(data.messageId);
+    });
+
+    this.eventBus.on('chat:regenerate', async (event) => {
+      const data = event as unknown as { messageId: string };
+      await this.handleRegenerate(data.messageId);
+    });
+
+    this.eventBus.on('chat:listSessions', () => {
+      this.postSessions();
+    });
+
+    this.eventBus.on('chat:openSession', async (event) => {
+      const data = event as unknown as { sessionId: string };
+      await this.handleOpenSession(data.sessionId);
+    });
+
+    this.eventBus.on('chat:deleteSession', async (event) => {
+      const data = event as unknown as { sessionId: string };
+      await this.handleDeleteSession(data.sessionId);
+    });
+
+    this.eventBus.on('chat:search', async (event) => {
+      const data = event as unknown as { query: string };
+      await this.handleSearch(data.query);
+    });
+
+    this.eventBus.on('chat:export', async (event) => {
+      const data = event as unknown as { format: ChatExportFormat; sessionId?: string };
+      await this.handleExport(data.format, data.sessionId);
+    });
+
+    // Missions created while a message is processed belong to the active session
+    this.eventBus.on('mission:created', async (event) => {
+      if (!this.currentAbortController) {
+        return;
+      }
+
+      const data = event as unknown as { mission: { id: string } };
+      const linked = await this.history.linkMission(data.mission.id);
+      if (!linked.ok) {
+        this.logger?.warn('Failed to link mission to chat session', { error: linked.error.message });
+      }
+    });
   }
 }
 
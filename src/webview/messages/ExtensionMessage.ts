@@ -58,6 +58,8 @@ export interface StreamToolResultMessage extends ExtensionMessageBase {
   tool: string;
   result: string;
   toolCallId: string;
+  /** Output of a tool still running, to append to earlier output */
+  partial?: boolean;
 }
 
 export interface StreamEndMessage extends ExtensionMessageBase {
@@ -72,6 +74,22 @@ export interface StreamErrorMessage extends ExtensionMessageBase {
   error: ErrorInfo;
 }
 
+// ============================================================================
+// Chat Session Messages
+// ============================================================================
+
+export interface ChatSessionsMessage extends ExtensionMessageBase {
+  type: 'chatSessions';
+  sessions: WebviewChatSession[];
+  activeSessionId: string | null;
+}
+
+export interface ChatSearchResultsMessage extends ExtensionMessageBase {
+  type: 'chatSearchResults';
+  query: string;
+  results: WebviewChatSearchResult[];
+}
+
 // ============================================================================
 // Error Messages
 // ============================================================================
@@ -178,6 +196,8 @@ export type ExtensionMessage =
   | StreamToolResultMessage
   | StreamEndMessage
   | StreamErrorMessage
+  | ChatSessionsMessage
+  | ChatSearchResultsMessage
   | ErrorMessage
   | ErrorClearMessage
   | RateLimitStartMessage
@@ -263,6 +283,26 @@ export interface TokenUsage {
   cost?: number;
 }
 
+export interface WebviewChatSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  missionIds: string[];
+  tokens: TokenUsage;
+  branchOf?: { sessionId: string; messageId: string };
+}
+
+export interface WebviewChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: 'user' | 'assistant' | 'system';
+  snippet: string;
+  timestamp: string;
+}
+
 export interface WebviewMission {
   id: string;
   title: string;
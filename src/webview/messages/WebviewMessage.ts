@@ -38,6 +38,39 @@ export interface ChatRegenerateMessage extends WebviewMessageBase {
   messageId: string;
 }
 
+// ============================================================================
+// Chat Session Messages
+// ============================================================================
+
+export interface ChatNewSessionMessage extends WebviewMessageBase {
+  type: 'chat:newSession';
+}
+
+export interface ChatListSessionsMessage extends WebviewMessageBase {
+  type: 'chat:listSessions';
+}
+
+export interface ChatOpenSessionMessage extends WebviewMessageBase {
+  type: 'chat:openSession';
+  sessionId: string;
+}
+
+export interface ChatDeleteSessionMessage extends WebviewMessageBase {
+  type: 'chat:deleteSession';
+  sessionId: string;
+}
+
+export interface ChatSearchMessage extends WebviewMessageBase {
+  type: 'chat:search';
+  query: string;
+}
+
+export interface ChatExportMessage extends WebviewMessageBase {
+  type: 'chat:export';
+  format: 'markdown' | 'json';
+  sessionId?: string;
+}
+
 // ============================================================================
 // Approval Messages
 // ============================================================================
@@ -119,6 +152,12 @@ export type WebviewMessage =
   | ChatRetryMessage
   | ChatClearMessage
   | ChatRegenerateMessage
+  | ChatNewSessionMessage
+  | ChatListSessionsMessage
+  | ChatOpenSessionMessage
+  | ChatDeleteSessionMessage
+  | ChatSearchMessage
+  | ChatExportMessage
   | ApprovalRespondMessage
   | ApprovalReviewHunksMessage
   | TaskCancelMessage
@@ -18,6 +18,8 @@ export {
   type StreamToolResultMessage,
   type StreamEndMessage,
   type StreamErrorMessage,
+  type ChatSessionsMessage,
+  type ChatSearchResultsMessage,
   type ErrorMessage,
   type ErrorClearMessage,
   type RateLimitStartMessage,
@@ -40,6 +42,8 @@ export {
   type ErrorInfo,
   type RateLimitInfo,
   type TokenUsage,
+  type WebviewChatSession,
+  type WebviewChatSearchResult,
   type WebviewMission,
   type WebviewTask,
   type WebviewActivityEntry,
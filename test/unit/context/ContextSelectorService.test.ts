@@ -0,0 +1,128 @@
+/**
+ * ContextSelectorService Unit Tests
+ */
+
+import * as path from 'path';
+import { ContextSelectorService } from '../../../src/context/ContextSelectorService';
+import { ProgressiveDisclosureService } from '../../../src/context/ProgressiveDisclosureService';
+import { TokenBudgetService } from '../../../src/context/TokenBudgetService';
+import { ISemanticIndexService, ImportInfo, FilePath, toRelativePath } from '../../../src/types';
+import { createMockFileSystem, createFilePath } from '../testUtils';
+
+/** A documented module with an exported function whose body is `bodyLines` long */
+const moduleSource = (name: string, bodyLines: number, imports: string[] = []): string =>
+  [
+    ...imports.map((source) => `import { helper } from '${source}';`),
+    '/**',
+    ` * Runs ${name} over the input, one step per line, and hands the input back unchanged`,
+    ' */',
+    `export function ${name}(input: string): string {`,
+    ...Array.from({ length: bodyLines }, (_, i) => `  const step${i} = input.repeat(${i});`),
+    '  return input;',
+    '}',
+  ].join('\n');
+
+describe('ContextSelectorService', () => {
+  let fileSystem: ReturnType<typeof createMockFileSystem>;
+  let imports: Record<string, string[]>;
+  let disclosure: ProgressiveDisclosureService;
+  let service: ContextSelectorService;
+
+  const addFile = (file: string, content: string): void => {
+    fileSystem.files.set(`/project/${file}`, content);
+  };
+
+  beforeEach(() => {
+    fileSystem = createMockFileSystem();
+    (fileSystem.join as jest.Mock).mockImplementation((...parts: string[]) => path.posix.join(...parts));
+    (fileSystem.relative as jest.Mock).mockImplementation((from: FilePath, to: FilePath) =>
+      path.posix.relative(from as string, to as string)
+    );
+
+    imports = {
+      'src/main.ts': ['./dep'],
+      'src/dep.ts': ['./far'],
+    };
+    addFile('src/main.ts', moduleSource('main', 20, ['./dep']));
+    addFile('src/dep.ts', moduleSource('dep', 20, ['./far']));
+    addFile('src/far.ts', moduleSource('far', 20));
+
+    const semanticIndex = {
+      findSymbol: jest.fn(() => []),
+      getImports: jest.fn((file: string): ImportInfo[] =>
+        (imports[file] ?? []).map((source) => ({ source, specifiers: [] }) as unknown as ImportInfo)
+      ),
+    } as unknown as ISemanticIndexService;
+    const tokenBudget = new TokenBudgetService();
+    const projectRoot = createFilePath('/project');
+    disclosure = new ProgressiveDisclosureService(fileSystem, tokenBudget, semanticIndex, projectRoot);
+
+    service = new ContextSelectorService(semanticIndex, fileSystem, tokenBudget, disclosure, projectRoot);
+  });
+
+  it('should include targets in full, direct dependencies as summaries and the wider neighbourhood as signatures', async () => {
+    const result = await service.select({ query: 'Change main', budget: 10000, priorityFiles: ['src/main.ts'] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.files.map((f) => [f.path, f.level])).toEqual([
+      ['src/main.ts', 'full'],
+      ['src/dep.ts', 'summary'],
+      ['src/far.ts', 'signature'],
+    ]);
+    expect(result.value.items?.[0]).toEqual(
+      expect.objectContaining({ type: 'file', path: 'src/main.ts', content: expect.stringContaining('step19') })
+    );
+  });
+
+  it('should downgrade a target that does not fit in full instead of dropping it', async () => {
+    imports = {};
+    addFile('src/main.ts', moduleSource('main', 400));
+
+    const result = await service.select({ query: 'Change main', budget: 500, priorityFiles: ['src/main.ts'] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.files).toHaveLength(1);
+    expect(result.value.files[0]).toEqual(
+      expect.objectContaining({ path: 'src/main.ts', level: 'summary', downgradedFrom: 'full' })
+    );
+    expect(result.value.totalTokens).toBeLessThanOrEqual(500);
+  });
+
+  it('should downgrade the least relevant files first', async () => {
+    const full = await service.select({ query: 'Change main', budget: 10000, priorityFiles: ['src/main.ts'] });
+    if (!full.ok) throw full.error;
+    const [main, , far] = full.value.files;
+    const dep = await disclosure.generateLevels(toRelativePath('src/dep.ts'));
+    if (!dep.ok) throw dep.error;
+    const tight = (main!.tokens as number) + (dep.value.levels.signature.tokens as number) + (far!.tokens as number);
+
+    const result = await service.select({ query: 'Change main', budget: tight, priorityFiles: ['src/main.ts'] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const levels = result.value.files.map((f) => [f.path, f.level]);
+    expect(levels).toEqual([
+      ['src/main.ts', 'full'],
+      ['src/dep.ts', 'signature'],
+      ['src/far.ts', 'signature'],
+    ]);
+    expect(result.value.files[1]?.downgradedFrom).toBe('summary');
+    expect(result.value.totalTokens).toBeLessThanOrEqual(tight);
+  });
+
+  it('should explain the level of each file and why', async () => {
+    imports = {};
+    addFile('src/main.ts', moduleSource('main', 400));
+    const result = await service.select({ query: 'Change main', budget: 500, priorityFiles: ['src/main.ts'] });
+    if (!result.ok) throw result.error;
+
+    const explanation = service.explainSelection(result.value);
+
+    expect(explanation.perFile.get(toRelativePath('src/main.ts'))).toBe(
+      'summary: Direct target; downgraded from full to fit the token budget'
+    );
+    expect(explanation.summary).toContain('(0 full, 1 summary, 0 signature)');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * TokenBudgetService Unit Tests
+ */
+
+import { TokenBudgetService } from '../../../src/context/TokenBudgetService';
+import { ITokenizer } from '../../../src/types';
+
+describe('TokenBudgetService', () => {
+  const code = [
+    'export async function loadUserProfile(userId: string): Promise<UserProfile> {',
+    '  const response = await fetch(`/api/users/${userId}`);',
+    '  if (!response.ok) { throw new Error(`HTTP ${response.status}`); }',
+    '  return (await response.json()) as UserProfile;',
+    '}',
+  ].join('\n');
+
+  let service: TokenBudgetService;
+
+  beforeEach(() => {
+    service = new TokenBudgetService();
+  });
+
+  describe('countTokens', () => {
+    it('should count words, punctuation and whitespace as BPE pieces', () => {
+      expect(service.countTokens('Hello, world!', 'gpt-4o')).toBe(4);
+      expect(service.countTokens('', 'gpt-4o')).toBe(0);
+    });
+
+    it('should count with the vocabulary of the model family', () => {
+      expect(service.countTokens('HTTPServer', 'gpt-4o')).toBe(2);
+      expect(service.countTokens('HTTPServer', 'claude-sonnet-4')).toBe(1);
+    });
+
+    it('should select the tokenizer by the target model', () => {
+      const claude = service.countTokens(code, 'claude-sonnet-4') as number;
+
+      expect(claude).toBeGreaterThan(service.countTokens(code, 'gpt-4o') as number);
+      expect(service.countTokens(code)).toBe(claude);
+    });
+
+    it('should count repeated content once per tokenizer', () => {
+      const tokenizer: ITokenizer = { family: 'openai', count: jest.fn(() => 7) };
+      service = new TokenBudgetService(undefined, undefined, { tokenizers: [tokenizer] });
+
+      service.countTokens(code, 'gpt-4o');
+      service.countTokens(code, 'glm-4');
+      service.countTokens(code, 'claude-sonnet-4');
+
+      expect(tokenizer.count).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('calibrate', () => {
+    it('should scale counts toward the usage providers report', () => {
+      const estimated = service.countTokens(code, 'gpt-4o') as number;
+
+      service.calibrate(code, Math.round(estimated * 1.3), 'gpt-4o');
+
+      expect(service.countTokens(code, 'gpt-4o') as number).toBeGreaterThanOrEqual(Math.round(estimated * 1.3));
+      expect(service.countTokens(code, 'claude-sonnet-4')).toBe(service.countTokens(code));
+    });
+
+    it('should ignore usage far from the estimate', () => {
+      const estimated = service.countTokens(code, 'gpt-4o');
+
+      service.calibrate(code, (estimated as number) * 10, 'gpt-4o');
+
+      expect(service.countTokens(code, 'gpt-4o')).toBe(estimated);
+    });
+
+    it('should reset when a tokenizer is registered', () => {
+      service.calibrate(code, 1000, 'gpt-4o');
+      service.registerTokenizer({ family: 'openai', count: () => 500 });
+
+      expect(service.countTokens(code, 'gpt-4o')).toBe(500);
+    });
+  });
+});
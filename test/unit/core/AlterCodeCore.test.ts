@@ -0,0 +1,219 @@
+/**
+ * AlterCodeCore Unit Tests
+ */
+
+import { AlterCodeCore, SERVICE_TOKENS } from '../../../src/core/AlterCodeCore';
+import type { StreamChunk } from '../../../src/core/streaming';
+import { ToolExecutor } from '../../../src/core/tools';
+import { ServiceContainer } from '../../../src/infrastructure/ServiceContainer';
+import {
+  AlterCodeConfig,
+  AppError,
+  Err,
+  ILLMAdapter,
+  ILogger,
+  LLMStreamChunk,
+  Ok,
+  ToolCall,
+} from '../../../src/types';
+import { createMockEventBus, createMockFileSystem } from '../testUtils';
+
+const createMockLogger = (): ILogger => ({
+  component: 'Test',
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  child: jest.fn().mockReturnThis(),
+});
+
+type Turn = Awaited<ReturnType<ILLMAdapter['completeWithTools']>>;
+
+const reply = (content: string, toolCalls: ToolCall[] = []): Turn =>
+  Ok({ response: { content, model: 'test-model' }, toolCalls } as never);
+
+const lookupCall: ToolCall = { id: 'call-1', name: 'lookup', arguments: { query: 'app' } };
+
+describe('AlterCodeCore', () => {
+  let completeWithTools: jest.Mock<Promise<Turn>>;
+  let adapter: ILLMAdapter;
+  let lookup: jest.Mock;
+  let core: AlterCodeCore;
+
+  const collect = async (
+    options?: Parameters<AlterCodeCore['streamMessage']>[1]
+  ): Promise<StreamChunk[]> => {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of core.streamMessage('Explain the app', options)) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  beforeEach(async () => {
+    completeWithTools = jest.fn();
+    adapter = { completeWithTools } as unknown as ILLMAdapter;
+
+    const container = new ServiceContainer();
+    container.registerInstance(SERVICE_TOKENS.Logger, createMockLogger());
+    container.registerInstance(SERVICE_TOKENS.EventBus, createMockEventBus());
+    container.registerInstance(SERVICE_TOKENS.FileSystem, createMockFileSystem());
+    container.registerInstance(SERVICE_TOKENS.ScopeGuard, {} as never);
+    container.registerInstance(SERVICE_TOKENS.TypeChecker, {} as never);
+    container.registerInstance(SERVICE_TOKENS.SemanticIndex, {
+      index: jest.fn(async () => Ok(undefined)),
+    } as never);
+    container.registerInstance(SERVICE_TOKENS.ProjectSnapshot, {
+      capture: jest.fn(async () => Ok(undefined)),
+    } as never);
+    container.registerInstance(SERVICE_TOKENS.MissionManager, {} as never);
+    container.registerInstance(SERVICE_TOKENS.ExecutionCoordinator, {} as never);
+    container.registerInstance(SERVICE_TOKENS.IntentParser, {
+      parse: jest.fn(() => ({ type: 'query', targets: [], confidence: 1 })),
+    } as never);
+    container.registerInstance(SERVICE_TOKENS.LLMAdapter, adapter);
+
+    core = new AlterCodeCore(container, { projectRoot: '/project' } as AlterCodeConfig);
+    expect((await core.initialize()).ok).toBe(true);
+
+    lookup = jest.fn(async () => ({ success: true, content: 'src/app.ts: export const app = 1;' }));
+    core.getToolRegistry().register(
+      {
+        name: 'lookup',
+        description: 'Look up code',
+        parameters: [{ name: 'query', type: 'string', description: 'Search text', required: true }],
+        requiresApproval: true,
+      },
+      lookup
+    );
+  });
+
+  describe('streamMessage', () => {
+    it('should run requested tools and send their results in the next turn', async () => {
+      const execute = jest.spyOn(ToolExecutor.prototype, 'execute');
+      completeWithTools
+        .mockResolvedValueOnce(reply('Let me look.', [lookupCall]))
+        .mockResolvedValueOnce(reply('The app exports app.'));
+
+      const chunks = await collect({ requestApproval: async () => true });
+
+      expect(execute).toHaveBeenCalledWith('lookup', { query: 'app' }, expect.anything());
+      expect(lookup).toHaveBeenCalledTimes(1);
+      expect(chunks.map((c) => c.type)).toEqual([
+        'text',
+        'tool_use',
+        'tool_result',
+        'text',
+        'usage',
+        'done',
+      ]);
+      expect(chunks[2]).toMatchObject({
+        toolCallId: 'call-1',
+        result: 'src/app.ts: export const app = 1;',
+        isError: false,
+      });
+
+      const [nextRequest] = completeWithTools.mock.calls[1] as [
+        { prompt: string; history: unknown[]; toolResults: unknown[] },
+      ];
+      expect(nextRequest.prompt).toBe('');
+      expect(nextRequest.toolResults).toEqual([
+        { toolCallId: 'call-1', content: 'src/app.ts: export const app = 1;', isError: false },
+      ]);
+      expect(nextRequest.history).toContainEqual({
+        role: 'assistant',
+        content: 'Let me look.',
+        toolCalls: [lookupCall],
+      });
+      execute.mockRestore();
+    });
+
+    it('should report a denied tool to the model without running it', async () => {
+      completeWithTools
+        .mockResolvedValueOnce(reply('', [lookupCall]))
+        .mockResolvedValueOnce(reply('I was not allowed to look.'));
+
+      const chunks = await collect({ requestApproval: async () => false });
+
+      expect(lookup).not.toHaveBeenCalled();
+      expect(chunks.find((c) => c.type === 'tool_result')).toMatchObject({ isError: true });
+      const [nextRequest] = completeWithTools.mock.calls[1] as [
+        { toolResults: Array<{ content: string; isError: boolean }> },
+      ];
+      expect(nextRequest.toolResults[0]).toMatchObject({
+        content: 'Error: User cancelled the operation',
+        isError: true,
+      });
+    });
+
+    it('should stop at the turn cap', async () => {
+      completeWithTools.mockResolvedValue(reply('', [lookupCall]));
+
+      const chunks = await collect({ requestApproval: async () => true, maxTurns: 2 });
+
+      expect(completeWithTools).toHaveBeenCalledTimes(2);
+      expect(lookup).toHaveBeenCalledTimes(2);
+      expect(chunks[chunks.length - 1]).toMatchObject({ type: 'done' });
+    });
+
+    it('should stream text deltas within a turn when the adapter supports it', async () => {
+      adapter.streamWithTools = async function* (): AsyncGenerator<LLMStreamChunk, Turn> {
+        yield { content: 'The app ', done: false };
+        yield { content: 'starts here.', done: false };
+        return reply('The app starts here.');
+      };
+
+      const chunks = await collect();
+
+      expect(chunks.filter((c) => c.type === 'text')).toEqual([
+        { type: 'text', content: 'The app ' },
+        { type: 'text', content: 'starts here.' },
+      ]);
+      expect(completeWithTools).not.toHaveBeenCalled();
+    });
+
+    it('should retry a rate-limited turn and continue', async () => {
+      completeWithTools
+        .mockResolvedValueOnce(
+          Err(new AppError('PROVIDER', 'Rate limit reached, retry after 0 seconds'))
+        )
+        .mockResolvedValueOnce(reply('The app starts here.'));
+
+      const chunks = await collect();
+
+      expect(chunks.map((c) => c.type)).toEqual(['rate_limit', 'text', 'usage', 'done']);
+    });
+
+    it('should fail with RATE_LIMIT after the retry cap', async () => {
+      completeWithTools.mockResolvedValue(
+        Err(new AppError('PROVIDER', 'Rate limit reached, retry after 0 seconds'))
+      );
+
+      const chunks = await collect();
+
+      expect(chunks.filter((c) => c.type === 'rate_limit')).toHaveLength(3);
+      expect(chunks[chunks.length - 1]).toMatchObject({ type: 'error', code: 'RATE_LIMIT' });
+      expect(completeWithTools).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop waiting for a rate limit when aborted', async () => {
+      completeWithTools.mockResolvedValue(
+        Err(new AppError('PROVIDER', 'Rate limit reached, retry after 600 seconds'))
+      );
+      const controller = new AbortController();
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of core.streamMessage('Explain the app', {
+        abortSignal: controller.signal,
+      })) {
+        chunks.push(chunk);
+        if (chunk.type === 'rate_limit') {
+          controller.abort();
+        }
+      }
+
+      expect(chunks.map((c) => c.type)).toEqual(['rate_limit', 'done']);
+      expect(completeWithTools).toHaveBeenCalledTimes(1);
+    });
+  });
+});
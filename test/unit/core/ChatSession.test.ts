@@ -0,0 +1,88 @@
+/**
+ * ChatSession Unit Tests
+ */
+
+import { ChatSession } from '../../../src/core/ChatSession';
+import { ConversationCompressorService } from '../../../src/context/ConversationCompressorService';
+import { TokenBudgetService } from '../../../src/context/TokenBudgetService';
+
+describe('ChatSession', () => {
+  const longRequest = (n: number): string =>
+    `Request ${n}: we decided to use the repository pattern for storage. ${'Some more detail. '.repeat(40)}`;
+
+  let tokenBudget: TokenBudgetService;
+  let session: ChatSession;
+
+  beforeEach(() => {
+    tokenBudget = new TokenBudgetService();
+    session = new ChatSession(new ConversationCompressorService(tokenBudget), tokenBudget, {
+      historyBudget: 200,
+      keepRecentTurns: 1,
+    });
+  });
+
+  it('should keep history verbatim while it fits the budget', async () => {
+    session.addTurn('hello', 'hi there');
+
+    const result = await session.compact();
+
+    expect(result.ok && result.value).toBe(false);
+    expect(session.getHistory()).toEqual([
+      { role: 'user', content: 'hello' },
+      { role: 'assistant', content: 'hi there' },
+    ]);
+    expect(session.getSummary()).toBeNull();
+  });
+
+  it('should compress older turns into a summary once over budget', async () => {
+    for (let i = 1; i <= 3; i++) {
+      session.addTurn(longRequest(i), `Done with request ${i}.`);
+    }
+
+    const result = await session.compact();
+
+    expect(result.ok && result.value).toBe(true);
+    expect(session.getHistory()).toHaveLength(2);
+    expect(session.getHistory()[0]?.content).toContain('Request 3');
+
+    const state = session.getState();
+    expect(state.compressedMessages).toBe(4);
+    expect(state.summary?.earlierRequests).toContain('Request 1');
+    expect(state.summary?.earlierRequests).toContain('Request 2');
+    expect(session.getSummaryPrompt()).toContain('Earlier requests:');
+  });
+
+  it('should replace the summary with an edited version', async () => {
+    for (let i = 1; i <= 3; i++) {
+      session.addTurn(longRequest(i), `Done with request ${i}.`);
+    }
+    await session.compact();
+
+    session.editSummary({
+      currentFocus: 'Storage layer',
+      earlierRequests: '- Set up storage',
+      decisions: ['Use SQLite', '  '],
+      facts: [],
+      actions: [],
+      pending: ['Write migrations'],
+    });
+
+    const summary = session.getSummaryText();
+    expect(summary?.currentFocus).toBe('Storage layer');
+    expect(summary?.decisions).toEqual(['Use SQLite']);
+    expect(summary?.pending).toEqual(['Write migrations']);
+    expect(session.getSummaryPrompt()).toContain('- Use SQLite');
+  });
+
+  it('should forget everything on clear', async () => {
+    for (let i = 1; i <= 3; i++) {
+      session.addTurn(longRequest(i), `Done with request ${i}.`);
+    }
+    await session.compact();
+
+    session.clear();
+
+    expect(session.getHistory()).toEqual([]);
+    expect(session.getState()).toMatchObject({ summary: null, messages: 0, compressedMessages: 0 });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * ChatStore Unit Tests
+ */
+
+import { ChatStore } from '../../../src/core/ChatStore';
+import { createInMemoryDatabase } from '../../../src/infrastructure/Database';
+import { createStorageManager } from '../../../src/infrastructure/StorageManager';
+import { createDefaultCache } from '../../../src/infrastructure/Cache';
+import { IDatabase, StoredChatMessage, StoredChatRole, DEFAULT_STORAGE_CONFIG } from '../../../src/types';
+
+describe('ChatStore', () => {
+  let database: IDatabase;
+  let store: ChatStore;
+
+  const unwrap = <T>(result: { ok: true; value: T } | { ok: false; error: Error }): T => {
+    if (!result.ok) {
+      throw result.error;
+    }
+    return result.value;
+  };
+
+  /** Create a session holding the given messages */
+  const createSession = async (
+    messages: Array<[StoredChatRole, string]>
+  ): Promise<{ sessionId: string; messages: StoredChatMessage[] }> => {
+    const session = unwrap(await store.createSession());
+    const stored = messages.map(([role, content], i) => ({
+      id: `m${i}`,
+      sessionId: session.id,
+      role,
+      content,
+      timestamp: new Date(Date.UTC(2026, 0, 1, 0, i)),
+      usage: role === 'assistant' ? { promptTokens: 10, completionTokens: 5, totalTokens: 15 } : undefined,
+    }));
+    for (const message of stored) {
+      unwrap(await store.addMessage(message));
+    }
+    return { sessionId: session.id, messages: stored };
+  };
+
+  beforeEach(async () => {
+    database = createInMemoryDatabase();
+    const storage = createStorageManager(database, createDefaultCache(), DEFAULT_STORAGE_CONFIG);
+    store = new ChatStore(database);
+    storage.setChatStore(store);
+    expect((await storage.initialize()).ok).toBe(true);
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  it('should title a session by its first request and total its tokens', async () => {
+    const { sessionId } = await createSession([
+      ['user', 'Refactor the payment module'],
+      ['assistant', 'Done.'],
+      ['user', 'Now add tests'],
+      ['assistant', 'Added.'],
+    ]);
+    unwrap(await store.linkMission(sessionId, 'mission-1'));
+
+    const session = unwrap(await store.getSession(sessionId));
+    const messages = unwrap(await store.getMessages(sessionId));
+
+    expect(session).toMatchObject({
+      title: 'Refactor the payment module',
+      messageCount: 4,
+      missionIds: ['mission-1'],
+      tokens: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+    });
+    expect(messages.map((m) => m.id)).toEqual(['m0', 'm1', 'm2', 'm3']);
+    expect(messages[0]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should find messages across sessions by word prefixes', async () => {
+    await createSession([['user', 'How does the payment gateway retry?']]);
+    await createSession([['user', 'Explain the retry policy of the scheduler']]);
+
+    const results = unwrap(await store.search('retr sched'));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.sessionTitle).toBe('Explain the retry policy of the scheduler');
+    expect(results[0]?.snippet).toContain('**retry**');
+    expect(unwrap(await store.search('"; DROP TABLE'))).toEqual([]);
+  });
+
+  it('should branch a session before a message', async () => {
+    const { sessionId } = await createSession([
+      ['user', 'First question'],
+      ['assistant', 'First answer'],
+      ['user', 'Second question'],
+      ['assistant', 'Second answer'],
+    ]);
+
+    const branch = unwrap(await store.branch(sessionId, 'm2'));
+
+    expect(branch).toMatchObject({
+      title: 'First question (branch)',
+      messageCount: 2,
+      branchOf: { sessionId, messageId: 'm2' },
+    });
+    expect(unwrap(await store.getMessages(branch.id)).map((m) => m.content)).toEqual([
+      'First question',
+      'First answer',
+    ]);
+    expect(unwrap(await store.getMessages(sessionId))).toHaveLength(4);
+  });
+
+  it('should delete a message and the ones after it', async () => {
+    const { sessionId } = await createSession([
+      ['user', 'Question'],
+      ['assistant', 'Answer'],
+      ['user', 'Follow-up'],
+    ]);
+
+    unwrap(await store.deleteMessagesFrom(sessionId, 'm1'));
+
+    expect(unwrap(await store.getMessages(sessionId)).map((m) => m.id)).toEqual(['m0']);
+    expect(unwrap(await store.getSession(sessionId))?.tokens.totalTokens).toBe(0);
+    expect(unwrap(await store.search('answer'))).toEqual([]);
+  });
+
+  it('should export a session as Markdown and JSON', async () => {
+    const { sessionId } = await createSession([
+      ['user', 'Question'],
+      ['assistant', 'Answer'],
+    ]);
+
+    const markdown = unwrap(await store.export(sessionId, 'markdown'));
+    const json = JSON.parse(unwrap(await store.export(sessionId, 'json'))) as {
+      messages: unknown[];
+    };
+
+    expect(markdown).toContain('# Question');
+    expect(markdown).toContain('## Assistant (2026-01-01T00:01:00.000Z)\n\nAnswer');
+    expect(json.messages).toHaveLength(2);
+  });
+
+  it('should delete a session with its messages', async () => {
+    const { sessionId } = await createSession([['user', 'Question']]);
+
+    unwrap(await store.deleteSession(sessionId));
+
+    expect(unwrap(await store.listSessions())).toEqual([]);
+    expect(unwrap(await store.search('question'))).toEqual([]);
+  });
+});
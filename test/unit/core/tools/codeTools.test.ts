@@ -0,0 +1,137 @@
+/**
+ * Code Tools Unit Tests
+ */
+
+import { registerCodeTools } from '../../../../src/core/tools/codeTools';
+import { ToolRegistry } from '../../../../src/core/tools/ToolRegistry';
+import { TOOL_NAMES, ToolResult } from '../../../../src/core/tools/definitions';
+import { SemanticIndexService } from '../../../../src/knowledge/SemanticIndexService';
+import { IKnowledgeStore, ITypeCheckerService, Ok, Err, AppError, toRelativePath } from '../../../../src/types';
+import { createMockFileSystem, createFilePath } from '../../testUtils';
+
+describe('codeTools', () => {
+  const files: Record<string, string> = {
+    'src/math.ts': [
+      'export function add(a: number, b: number): number {',
+      '  return a + b;',
+      '}',
+    ].join('\n'),
+    'src/Calculator.ts': [
+      "import { add } from './math';",
+      '',
+      'export class Calculator {',
+      '  total = 0;',
+      '',
+      '  plus(value: number): void {',
+      '    this.total = add(this.total, value);',
+      '  }',
+      '}',
+      '',
+      'export const sum = (values: number[]) => values.reduce((a, b) => add(a, b), 0);',
+    ].join('\n'),
+  };
+
+  let registry: ToolRegistry;
+  let typeChecker: jest.Mocked<ITypeCheckerService>;
+
+  const run = (tool: string, input: Record<string, unknown>): Promise<ToolResult> =>
+    registry.get(tool)!.execute(input, { workspaceRoot: '/project' });
+
+  beforeEach(async () => {
+    const fileSystem = createMockFileSystem();
+    for (const [path, content] of Object.entries(files)) {
+      fileSystem.files.set(`/project/${path}`, content);
+    }
+    (fileSystem.glob as jest.Mock).mockResolvedValue(Object.keys(files).map(toRelativePath));
+    const store = { saveIndex: jest.fn(async () => Ok(undefined)) } as unknown as IKnowledgeStore;
+    const semanticIndex = new SemanticIndexService(fileSystem, store, createFilePath('/project'));
+    expect((await semanticIndex.buildIndex()).ok).toBe(true);
+
+    typeChecker = {
+      check: jest.fn(),
+      getDiagnostics: jest.fn(async () => Ok([])),
+    };
+    registry = new ToolRegistry();
+    registerCodeTools(registry, semanticIndex, typeChecker);
+  });
+
+  describe('search_code', () => {
+    it('should find symbol definitions with their signatures', async () => {
+      const result = await run(TOOL_NAMES.SEARCH_CODE, { query: 'add', symbolKind: 'function' });
+
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('src/math.ts:1: function add (a: number, b: number): number (exported)');
+    });
+
+    it('should find the call sites of a function with their callers', async () => {
+      const result = await run(TOOL_NAMES.SEARCH_CODE, { query: 'add', mode: 'callers' });
+
+      expect(result.content.split('\n')).toEqual([
+        'src/Calculator.ts:7: call add in Calculator.plus',
+        'src/Calculator.ts:11: call add in sum',
+      ]);
+      expect(result.metadata?.results).toEqual([
+        expect.objectContaining({ file: 'src/Calculator.ts', line: 7, column: 18 }),
+        expect.objectContaining({ file: 'src/Calculator.ts', line: 11 }),
+      ]);
+    });
+
+    it('should find what a method calls and where it is defined', async () => {
+      const result = await run(TOOL_NAMES.SEARCH_CODE, { query: 'Calculator.plus', mode: 'callees' });
+
+      expect(result.content).toBe('src/math.ts:1: function add');
+    });
+
+    it('should list the imports and exports of a file', async () => {
+      const imports = await run(TOOL_NAMES.SEARCH_CODE, { query: 'src/Calculator.ts', mode: 'imports' });
+      const exports = await run(TOOL_NAMES.SEARCH_CODE, { query: '/project/src/Calculator.ts', mode: 'exports' });
+
+      expect(imports.content).toBe('src/Calculator.ts:1: import ./math { add }');
+      expect(exports.success).toBe(true);
+    });
+
+    it('should reject unknown modes', async () => {
+      const result = await run(TOOL_NAMES.SEARCH_CODE, { query: 'add', mode: 'references' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unknown search mode');
+    });
+  });
+
+  describe('get_diagnostics', () => {
+    it('should list the diagnostics of a file', async () => {
+      typeChecker.getDiagnostics.mockResolvedValue(Ok([
+        {
+          type: 'compile',
+          code: 'TS2322',
+          severity: 'error',
+          message: "Type 'string' is not assignable to type 'number'.",
+          location: { file: createFilePath('src/math.ts'), line: 2, column: 3 } as never,
+        },
+      ]));
+
+      const result = await run(TOOL_NAMES.GET_DIAGNOSTICS, { path: '/project/src/math.ts' });
+
+      expect(typeChecker.getDiagnostics).toHaveBeenCalledWith(['src/math.ts']);
+      expect(result.content).toBe(
+        "1 error(s), 0 warning(s)\nsrc/math.ts:2:3: error TS2322: Type 'string' is not assignable to type 'number'."
+      );
+      expect(result.metadata).toMatchObject({ errorCount: 1, warningCount: 0 });
+    });
+
+    it('should check the whole project without a path', async () => {
+      const result = await run(TOOL_NAMES.GET_DIAGNOSTICS, {});
+
+      expect(typeChecker.getDiagnostics).toHaveBeenCalledWith(undefined);
+      expect(result.content).toBe('No problems found in the project');
+    });
+
+    it('should fail when the project cannot be checked', async () => {
+      typeChecker.getDiagnostics.mockResolvedValue(Err(new AppError('VERIFICATION', 'No tsconfig.json found in the project')));
+
+      const result = await run(TOOL_NAMES.GET_DIAGNOSTICS, {});
+
+      expect(result).toMatchObject({ success: false, error: 'Failed to get diagnostics: No tsconfig.json found in the project' });
+    });
+  });
+});
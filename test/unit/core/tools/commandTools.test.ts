@@ -0,0 +1,154 @@
+/**
+ * Command Tools Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_COMMAND_POLICY,
+  evaluateCommand,
+  registerCommandTools,
+  scrubEnvironment,
+} from '../../../../src/core/tools/commandTools';
+import { ToolRegistry } from '../../../../src/core/tools/ToolRegistry';
+import { TOOL_NAMES, ToolContext, ToolResult } from '../../../../src/core/tools/definitions';
+
+describe('commandTools', () => {
+  describe('evaluateCommand', () => {
+    it('should allow commands in the allowlist, with arguments', () => {
+      expect(evaluateCommand('npm test', DEFAULT_COMMAND_POLICY)).toBe('allow');
+      expect(evaluateCommand('  npx   tsc --noEmit -p . ', DEFAULT_COMMAND_POLICY)).toBe('allow');
+    });
+
+    it('should ask before other commands', () => {
+      expect(evaluateCommand('npm install left-pad', DEFAULT_COMMAND_POLICY)).toBe('ask');
+      expect(evaluateCommand('npm testing', DEFAULT_COMMAND_POLICY)).toBe('ask');
+    });
+
+    it('should ask before allowed commands chained with others', () => {
+      expect(evaluateCommand('npm test && curl example.com', DEFAULT_COMMAND_POLICY)).toBe('ask');
+      expect(evaluateCommand('npm test > out.txt', DEFAULT_COMMAND_POLICY)).toBe('ask');
+    });
+
+    it('should deny commands in the denylist anywhere in the command', () => {
+      expect(evaluateCommand('sudo ls', DEFAULT_COMMAND_POLICY)).toBe('deny');
+      expect(evaluateCommand('npm test; git push origin main', DEFAULT_COMMAND_POLICY)).toBe('deny');
+      expect(evaluateCommand('echo $(rm -rf /)', DEFAULT_COMMAND_POLICY)).toBe('deny');
+    });
+  });
+
+  describe('scrubEnvironment', () => {
+    it('should drop variables holding credentials', () => {
+      const env = scrubEnvironment({
+        PATH: '/usr/bin',
+        HOME: '/home/user',
+        ANTHROPIC_API_KEY: 'key',
+        GITHUB_TOKEN: 'token',
+        DB_PASSWORD: 'password',
+        AWS_SECRET_ACCESS_KEY: 'secret',
+      });
+
+      expect(env).toEqual({ PATH: '/usr/bin', HOME: '/home/user' });
+    });
+  });
+
+  describe('run_command', () => {
+    let workspaceRoot: string;
+    let registry: ToolRegistry;
+
+    // Scripts are written to files, as shell operators in inline code would need approval
+    const script = (name: string, code: string): string => {
+      fs.writeFileSync(path.join(workspaceRoot, name), code);
+      return `node ${name}`;
+    };
+
+    const run = (command: string, context: Partial<ToolContext> = {}, timeout?: number): Promise<ToolResult> =>
+      registry.get(TOOL_NAMES.RUN_COMMAND)!.execute({ command, timeout }, { workspaceRoot, ...context });
+
+    beforeEach(() => {
+      workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'altercode-command-'));
+      registry = new ToolRegistry();
+      registerCommandTools(registry, { policy: { allow: ['node'] } });
+    });
+
+    afterEach(() => {
+      fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should run allowed commands in the workspace root and stream their output', async () => {
+      const onOutput = jest.fn();
+
+      const result = await run(script('cwd.js', 'console.log(process.cwd());'), { onOutput });
+
+      expect(result.success).toBe(true);
+      expect(result.content).toContain(fs.realpathSync(workspaceRoot));
+      expect(result.content).toContain('[exit code 0]');
+      expect(onOutput.mock.calls.map(([output]) => output as string).join('')).toContain(
+        fs.realpathSync(workspaceRoot)
+      );
+    });
+
+    it('should not pass secrets to the command', async () => {
+      process.env.ALTERCODE_TEST_TOKEN = 'secret';
+      try {
+        const result = await run(script('env.js', "console.log(process.env.ALTERCODE_TEST_TOKEN ?? 'unset');"));
+
+        expect(result.content).toContain('unset');
+      } finally {
+        delete process.env.ALTERCODE_TEST_TOKEN;
+      }
+    });
+
+    it('should report a failing exit code with its output', async () => {
+      const result = await run(script('fail.js', "console.error('broken');\nprocess.exit(3);"));
+
+      expect(result).toMatchObject({ success: false, error: 'Command failed with exit code 3' });
+      expect(result.content).toContain('broken');
+    });
+
+    it('should ask for approval of commands outside the allowlist', async () => {
+      const requestApproval = jest.fn().mockResolvedValue(false);
+
+      const result = await run('echo hello', { requestApproval });
+
+      expect(requestApproval).toHaveBeenCalledWith('Run command: echo hello', []);
+      expect(result).toMatchObject({ success: false, error: 'User cancelled the operation' });
+    });
+
+    it('should refuse commands needing approval when nobody can approve', async () => {
+      const result = await run('echo hello');
+
+      expect(result).toMatchObject({ success: false, error: 'Command needs approval: echo hello' });
+    });
+
+    it('should stop commands that time out', async () => {
+      const result = await run(script('wait.js', 'setTimeout(() => {}, 60000);'), {}, 0.5);
+
+      expect(result).toMatchObject({ success: false, error: 'Command timed out after 0.5s' });
+    });
+
+    it('should stop the command when cancelled', async () => {
+      const controller = new AbortController();
+      const onOutput = jest.fn(() => controller.abort());
+
+      const result = await run(script('wait.js', "console.log('started');\nsetTimeout(() => {}, 60000);"), {
+        abortSignal: controller.signal,
+        onOutput,
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'Command cancelled' });
+    });
+
+    it('should keep only the end of long output', async () => {
+      registry = new ToolRegistry();
+      registerCommandTools(registry, { policy: { allow: ['node'] }, maxOutputChars: 100 });
+
+      const result = await run(script('long.js', "console.log('x'.repeat(500) + 'end');"));
+
+      expect(result.content).toContain('characters of earlier output omitted');
+      expect(result.content).toContain('end');
+      expect(result.metadata).toMatchObject({ truncated: true });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * File Tools Unit Tests
+ */
+
+import { registerFileTools } from '../../../../src/core/tools/fileTools';
+import { ToolRegistry } from '../../../../src/core/tools/ToolRegistry';
+import { TOOL_NAMES, ToolContext, ToolResult } from '../../../../src/core/tools/definitions';
+import { IScopeGuardService, MissionId, ScopeEnforcementContext } from '../../../../src/types';
+import { createMockFileSystem } from '../../testUtils';
+
+describe('fileTools', () => {
+  describe('write_file', () => {
+    let fileSystem: ReturnType<typeof createMockFileSystem>;
+    let enforce: jest.Mock;
+    let registry: ToolRegistry;
+
+    const write = (context: Partial<ToolContext>): Promise<ToolResult> =>
+      registry
+        .get(TOOL_NAMES.WRITE_FILE)!
+        .execute({ path: 'docs/notes.md', content: 'Notes' }, { workspaceRoot: '/project', ...context });
+
+    beforeEach(() => {
+      fileSystem = createMockFileSystem();
+      // Every write needs confirmation
+      enforce = jest.fn(async (_operation, context: ScopeEnforcementContext) => {
+        const violation = { reason: 'Outside the mission scope', requiresConfirmation: true };
+        const confirmed = (await context.confirm?.(violation as never)) ?? false;
+        return { allowed: confirmed, violation, outcome: confirmed ? 'approved' : 'rejected' };
+      });
+      registry = new ToolRegistry();
+      registerFileTools(registry, fileSystem, { scopeGuard: { enforce } as unknown as IScopeGuardService });
+    });
+
+    it('should ask once for a write the scope policy flags, under the mission', async () => {
+      const confirmScopeViolation = jest.fn().mockResolvedValue(true);
+      const requestApproval = jest.fn().mockResolvedValue(true);
+
+      const result = await write({ confirmScopeViolation, requestApproval, missionId: 'mission-1' as MissionId });
+
+      expect(result.success).toBe(true);
+      expect(enforce).toHaveBeenCalledWith(
+        expect.objectContaining({ missionId: 'mission-1' }),
+        expect.anything()
+      );
+      expect(confirmScopeViolation).toHaveBeenCalledWith('Outside the mission scope: docs/notes.md', [
+        expect.objectContaining({ filePath: 'docs/notes.md', newContent: 'Notes' }),
+      ]);
+      expect(requestApproval).not.toHaveBeenCalled();
+      expect(fileSystem.files.get('/project/docs/notes.md')).toBe('Notes');
+    });
+
+    it('should not write a change the user refused', async () => {
+      const confirmScopeViolation = jest.fn().mockResolvedValue(false);
+
+      const result = await write({ confirmScopeViolation });
+
+      expect(result).toMatchObject({ success: false, error: 'User cancelled the operation' });
+      expect(fileSystem.writeFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * EditProtocol Unit Tests
+ */
+
+import {
+  parseEditBlocks,
+  resolveEdits,
+  EditWorkspace,
+  EditOperation,
+} from '../../../src/execution/EditProtocol';
+
+const fence = '```';
+
+/** In-memory workspace rooted at /project */
+const createWorkspace = (files: Record<string, string>): EditWorkspace => ({
+  resolvePath: (path) => (path.includes('..') ? null : `/project/${path}`),
+  readFile: (path) => Promise.resolve(files[path] ?? null),
+});
+
+const parse = (response: string): EditOperation[] => {
+  const result = parseEditBlocks(response);
+  if (!result.ok) {
+    throw result.error;
+  }
+  return result.value;
+};
+
+describe('EditProtocol', () => {
+  describe('parseEditBlocks', () => {
+    it('should ignore ordinary code blocks', () => {
+      const result = parseEditBlocks([
+        'Here is an example:',
+        `${fence}ts src/index.ts`,
+        'export const x = 1;',
+        fence,
+      ].join('\n'));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([]);
+      }
+    });
+
+    it('should parse create and replace blocks with full content', () => {
+      const ops = parse([
+        `${fence}edit:create src/a.ts`,
+        'export const a = 1;',
+        fence,
+        `${fence}edit:replace src/b.ts`,
+        'export const b = 2;',
+        fence,
+      ].join('\n'));
+
+      expect(ops).toEqual([
+        { kind: 'create', path: 'src/a.ts', content: 'export const a = 1;\n' },
+        { kind: 'replace', path: 'src/b.ts', content: 'export const b = 2;\n' },
+      ]);
+    });
+
+    it('should allow longer fences around content containing backticks', () => {
+      const ops = parse([
+        '````edit:create README.md',
+        '```bash',
+        'npm test',
+        '```',
+        '````',
+      ].join('\n'));
+
+      expect(ops[0]).toEqual({
+        kind: 'create',
+        path: 'README.md',
+        content: '```bash\nnpm test\n```\n',
+      });
+    });
+
+    it('should parse search/replace sections', () => {
+      const ops = parse([
+        `${fence}edit:edit src/a.ts`,
+        '<<<<<<< SEARCH',
+        'const a = 1;',
+        '=======',
+        'const a = 2;',
+        '>>>>>>> REPLACE',
+        fence,
+      ].join('\n'));
+
+      expect(ops).toEqual([
+        { kind: 'edit', path: 'src/a.ts', edits: [{ search: 'const a = 1;', replace: 'const a = 2;' }] },
+      ]);
+    });
+
+    it('should parse delete and rename blocks', () => {
+      const ops = parse([
+        `${fence}edit:delete src/old.ts`,
+        fence,
+        `${fence}edit:rename src/a.ts -> src/b.ts`,
+        fence,
+      ].join('\n'));
+
+      expect(ops).toEqual([
+        { kind: 'delete', path: 'src/old.ts' },
+        { kind: 'rename', path: 'src/a.ts', newPath: 'src/b.ts' },
+      ]);
+    });
+
+    it('should report every malformed block', () => {
+      const result = parseEditBlocks([
+        `${fence}edit:overwrite src/a.ts`,
+        'x',
+        fence,
+        `${fence}edit:edit src/b.ts`,
+        '<<<<<<< SEARCH',
+        'x',
+        fence,
+        `${fence}edit:delete src/c.ts`,
+        'unexpected',
+        fence,
+      ].join('\n'));
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain('Block 1 (edit:overwrite src/a.ts): unknown operation');
+        expect(result.error.message).toContain('Block 2 (edit:edit src/b.ts)');
+        expect(result.error.message).toContain('Block 3 (edit:delete src/c.ts): delete blocks must be empty');
+      }
+    });
+
+    it('should reject unterminated edit blocks', () => {
+      const result = parseEditBlocks(`${fence}edit:create src/a.ts\nconst a = 1;`);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain('missing closing');
+      }
+    });
+
+    it('should reject diff blocks without hunks', () => {
+      const result = parseEditBlocks(`${fence}edit:diff src/a.ts\n+added\n${fence}`);
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('resolveEdits', () => {
+    it('should apply search/replace edits to the current file', async () => {
+      const workspace = createWorkspace({ '/project/src/a.ts': 'const a = 1;\nconst b = 2;\n' });
+      const ops = parse([
+        `${fence}edit:edit src/a.ts`,
+        '<<<<<<< SEARCH',
+        'const b = 2;',
+        '=======',
+        'const b = 3;',
+        '>>>>>>> REPLACE',
+        fence,
+      ].join('\n'));
+
+      const result = await resolveEdits(ops, workspace);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toHaveLength(1);
+        expect(result.value[0]).toMatchObject({
+          path: '/project/src/a.ts',
+          type: 'modify',
+          content: 'const a = 1;\nconst b = 3;\n',
+          originalContent: 'const a = 1;\nconst b = 2;\n',
+        });
+      }
+    });
+
+    it('should reject ambiguous or missing SEARCH text', async () => {
+      const workspace = createWorkspace({ '/project/src/a.ts': 'x\nx\n' });
+      const ambiguous = parse(`${fence}edit:edit src/a.ts\n<<<<<<< SEARCH\nx\n=======\ny\n>>>>>>> REPLACE\n${fence}`);
+      const missing = parse(`${fence}edit:edit src/a.ts\n<<<<<<< SEARCH\nz\n=======\ny\n>>>>>>> REPLACE\n${fence}`);
+
+      const ambiguousResult = await resolveEdits(ambiguous, workspace);
+      const missingResult = await resolveEdits(missing, workspace);
+
+      expect(ambiguousResult.ok).toBe(false);
+      expect(missingResult.ok).toBe(false);
+      if (!ambiguousResult.ok && !missingResult.ok) {
+        expect(ambiguousResult.error.message).toContain('more than once');
+        expect(missingResult.error.message).toContain('not found');
+      }
+    });
+
+    it('should apply diff hunks, relocating hunks with stale line numbers', async () => {
+      const workspace = createWorkspace({
+        '/project/src/a.ts': 'line1\nline2\nline3\nline4\n',
+      });
+      const ops = parse([
+        `${fence}edit:diff src/a.ts`,
+        '@@ -1,2 +1,2 @@',
+        ' line3',
+        '-line4',
+        '+line4 changed',
+        fence,
+      ].join('\n'));
+
+      const result = await resolveEdits(ops, workspace);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value[0]?.content).toBe('line1\nline2\nline3\nline4 changed\n');
+      }
+    });
+
+    it('should reject hunks that do not match the file', async () => {
+      const workspace = createWorkspace({ '/project/src/a.ts': 'one\ntwo\n' });
+      const ops = parse(`${fence}edit:diff src/a.ts\n@@ -1,1 +1,1 @@\n-three\n+four\n${fence}`);
+
+      const result = await resolveEdits(ops, workspace);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain('does not match');
+      }
+    });
+
+    it('should enforce file existence rules', async () => {
+      const workspace = createWorkspace({ '/project/src/a.ts': 'a\n' });
+
+      const createExisting = await resolveEdits(parse(`${fence}edit:create src/a.ts\nb\n${fence}`), workspace);
+      const replaceMissing = await resolveEdits(parse(`${fence}edit:replace src/b.ts\nb\n${fence}`), workspace);
+
+      expect(createExisting.ok).toBe(false);
+      expect(replaceMissing.ok).toBe(false);
+    });
+
+    it('should reject paths outside the workspace', async () => {
+      const result = await resolveEdits(
+        parse(`${fence}edit:create ../outside.ts\nx\n${fence}`),
+        createWorkspace({})
+      );
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain('outside the workspace');
+      }
+    });
+
+    it('should turn a rename into a delete and a create', async () => {
+      const workspace = createWorkspace({ '/project/src/a.ts': 'content\n' });
+
+      const result = await resolveEdits(
+        parse(`${fence}edit:rename src/a.ts -> src/b.ts\n${fence}`),
+        workspace
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([
+          { path: '/project/src/a.ts', type: 'delete', originalContent: 'content\n' },
+          { path: '/project/src/b.ts', type: 'create', content: 'content\n' },
+        ]);
+      }
+    });
+
+    it('should compose multiple operations on the same file', async () => {
+      const ops = parse([
+        `${fence}edit:create src/new.ts`,
+        'const x = 1;',
+        fence,
+        `${fence}edit:edit src/new.ts`,
+        '<<<<<<< SEARCH',
+        'const x = 1;',
+        '=======',
+        'const x = 2;',
+        '>>>>>>> REPLACE',
+        fence,
+      ].join('\n'));
+
+      const result = await resolveEdits(ops, createWorkspace({}));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toEqual([
+          { path: '/project/src/new.ts', type: 'create', content: 'const x = 2;\n' },
+        ]);
+      }
+    });
+  });
+});
@@ -0,0 +1,783 @@
+/**
+ * ExecutionCoordinator Unit Tests
+ */
+
+import { ExecutionCoordinator } from '../../../src/execution/ExecutionCoordinator';
+import { MissionManager } from '../../../src/execution/MissionManager';
+import { TaskManager } from '../../../src/execution/TaskManager';
+import { ExecutionStore } from '../../../src/execution/ExecutionStore';
+import { EventBus } from '../../../src/infrastructure/EventBus';
+import { createInMemoryDatabase } from '../../../src/infrastructure/Database';
+import { createStorageManager } from '../../../src/infrastructure/StorageManager';
+import { createDefaultCache } from '../../../src/infrastructure/Cache';
+import {
+  IAgentPoolService,
+  IContextSelectorService,
+  IImpactAnalyzerService,
+  IPreflightService,
+  IRollbackService,
+  IVerificationPipelineService,
+  IExecutionStore,
+  IErrorMemoryService,
+  IConventionExtractorService,
+  ITestRunnerService,
+  ITypeCheckerService,
+  IVirtualBranchService,
+  IMergeEngineService,
+  IMissionGitService,
+  IApprovalService,
+  IScopeGuardService,
+  IDatabase,
+  DEFAULT_STORAGE_CONFIG,
+  AgentResponse,
+  ExecutionPlan,
+  MissionId,
+  AppError,
+  Err,
+  Ok,
+  toTaskId,
+} from '../../../src/types';
+import { createMockFileSystem } from '../testUtils';
+
+/** Let pending timers and promises run */
+const settle = (ms = 250): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ExecutionCoordinator', () => {
+  let eventBus: EventBus;
+  let missionManager: MissionManager;
+  let execute: jest.Mock<Promise<AgentResponse>, [{ prompt: string }]>;
+  let verify: jest.Mock;
+  let finishMission: jest.Mock;
+  let rollbackService: { getHistory: jest.Mock; backup: jest.Mock; rollback: jest.Mock; finishMission: jest.Mock };
+  let coordinator: ExecutionCoordinator;
+  let missionId: MissionId;
+  let database: IDatabase;
+  let store: IExecutionStore;
+  let errorMemory: { recordError: jest.Mock; recordResolution: jest.Mock; getPreventionHints: jest.Mock };
+  let conventionExtractor: { checkCompliance: jest.Mock; summarize: jest.Mock };
+
+  const plan = (): ExecutionPlan => ({
+    missionId,
+    tasks: [
+      { id: 'first', type: 'implement', description: 'First task' },
+      {
+        id: 'second',
+        type: 'implement',
+        description: 'Second task',
+        dependencies: [{ taskId: toTaskId('first'), type: 'blocks', status: 'pending' }],
+      },
+    ],
+  });
+
+  /** Build the coordinator and its managers, as each extension session does */
+  const createSession = (options: ConstructorParameters<typeof ExecutionCoordinator>[10] = {}): void => {
+    errorMemory = {
+      recordError: jest.fn(async (error: Error) => Ok({ id: 'pattern-1', messagePattern: error.message } as never)),
+      recordResolution: jest.fn(async () => Ok(undefined)),
+      getPreventionHints: jest.fn(() => ['Import helpers from src/lib']),
+    };
+    conventionExtractor = {
+      checkCompliance: jest.fn(() => ({ compliant: true, violations: [] })),
+      summarize: jest.fn(() => ['Naming: functions in camelCase']),
+    };
+    eventBus = new EventBus();
+    const taskManager = new TaskManager(eventBus, undefined, { store });
+    finishMission = jest.fn(async () => Ok(undefined));
+    rollbackService = {
+      getHistory: jest.fn(() => []),
+      backup: jest.fn(async () => Ok(undefined)),
+      rollback: jest.fn(async () => Ok([])),
+      finishMission,
+    };
+    missionManager = new MissionManager(
+      taskManager,
+      rollbackService as unknown as IRollbackService,
+      eventBus,
+      undefined,
+      { store }
+    );
+
+    execute = jest.fn(
+      async (_request: { prompt: string }) => ({ content: 'No changes needed.', duration: 1 }) as unknown as AgentResponse
+    );
+    const agentPool = { execute, getCapacity: () => 1 } as unknown as IAgentPoolService;
+    const contextSelector = {
+      select: jest.fn(async () => Ok({ items: [] })),
+    } as unknown as IContextSelectorService;
+    verify = jest.fn(async () => Ok({ valid: true, summary: 'ok' }));
+    const verificationPipeline = { verify } as unknown as IVerificationPipelineService;
+
+    coordinator = new ExecutionCoordinator(
+      missionManager,
+      taskManager,
+      agentPool,
+      {} as unknown as IPreflightService,
+      verificationPipeline,
+      rollbackService as unknown as IRollbackService,
+      {} as unknown as IImpactAnalyzerService,
+      contextSelector,
+      eventBus,
+      undefined,
+      {
+        errorMemory: errorMemory as unknown as IErrorMemoryService,
+        conventionExtractor: conventionExtractor as unknown as IConventionExtractorService,
+        ...options,
+      }
+    );
+  };
+
+  beforeEach(async () => {
+    database = createInMemoryDatabase();
+    store = new ExecutionStore(database);
+    const storage = createStorageManager(database, createDefaultCache(), DEFAULT_STORAGE_CONFIG);
+    storage.setExecutionStore(store);
+    expect((await storage.initialize()).ok).toBe(true);
+
+    createSession();
+
+    const mission = await missionManager.create({ title: 'Mission', description: 'Test mission' });
+    if (!mission.ok) {
+      throw mission.error;
+    }
+    missionId = mission.value.id;
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  describe('pause and resume', () => {
+    it('should hold a finished response and start no new task while paused', async () => {
+      execute.mockImplementationOnce(async (_request) => {
+        await missionManager.pause(missionId);
+        return { content: 'No changes needed.', duration: 1 } as unknown as AgentResponse;
+      });
+
+      const running = coordinator.execute(plan());
+      await settle();
+
+      expect(coordinator.getStatus(missionId)).toBe('paused');
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(coordinator.getCurrentProgress(missionId)?.message).toBe('Paused');
+      expect(missionManager.getProgress(missionId).tasksCompleted).toBe(0);
+
+      await missionManager.resume(missionId);
+      const result = await running;
+
+      expect(result.ok).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(execute.mock.calls[1]?.[0].prompt).toContain('Second task');
+      expect(missionManager.getStatus(missionId)).toBe('completed');
+      expect(coordinator.getStatus(missionId)).toBe('idle');
+    });
+
+    it('should stop waiting when a paused execution is cancelled', async () => {
+      execute.mockImplementationOnce(async (_request) => {
+        await missionManager.pause(missionId);
+        return { content: 'No changes needed.', duration: 1 } as unknown as AgentResponse;
+      });
+
+      const running = coordinator.execute(plan());
+      await settle();
+      await coordinator.cancel(missionId);
+      const result = await running;
+
+      expect(!result.ok && result.error.code).toBe('CANCELLED');
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(coordinator.getStatus(missionId)).toBe('idle');
+    });
+  });
+
+  describe('resumeMission', () => {
+    /** Run the plan until the second task is underway, then start a new session */
+    const interrupt = async (): Promise<void> => {
+      execute.mockImplementation(async (request) => {
+        if (request.prompt.includes('Second task')) {
+          await missionManager.pause(missionId);
+        }
+        return { content: 'No changes needed.', duration: 1 } as unknown as AgentResponse;
+      });
+      void coordinator.execute(plan());
+      await settle();
+
+      createSession();
+      const loaded = await missionManager.load();
+      expect(loaded.ok && loaded.value.map((m) => m.id)).toEqual([missionId]);
+    };
+
+    it('should skip tasks completed before the restart', async () => {
+      await interrupt();
+
+      const result = await coordinator.resumeMission(missionId, 'resume');
+
+      expect(result.ok).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(execute.mock.calls[0]?.[0].prompt).toContain('Second task');
+      expect(missionManager.getStatus(missionId)).toBe('completed');
+    });
+
+    it('should run every task again on retry', async () => {
+      await interrupt();
+
+      const result = await coordinator.resumeMission(missionId, 'retry');
+
+      expect(result.ok).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(execute.mock.calls[0]?.[0].prompt).toContain('First task');
+    });
+
+    it('should undo merged changes before a retry', async () => {
+      await interrupt();
+      rollbackService.getHistory.mockReturnValue([{ id: 'point-1' }]);
+      rollbackService.rollback.mockImplementation(async () => {
+        expect(execute).not.toHaveBeenCalled();
+        return Ok(['/project/src/a.ts']);
+      });
+
+      const result = await coordinator.resumeMission(missionId, 'retry');
+
+      expect(result.ok).toBe(true);
+      expect(rollbackService.rollback).toHaveBeenCalledWith('point-1');
+    });
+
+    it('should refuse to retry when the merged changes cannot be undone', async () => {
+      await interrupt();
+      rollbackService.getHistory.mockReturnValue([{ id: 'point-1' }]);
+      rollbackService.rollback.mockResolvedValue(Err(new AppError('ROLLBACK', 'Snapshot missing')));
+
+      const result = await coordinator.resumeMission(missionId, 'retry');
+
+      expect(!result.ok && result.error.message).toBe('Cannot retry mission: Snapshot missing');
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error memory', () => {
+    it('should record invalid edits and pass prevention hints to the agent', async () => {
+      const fence = '```';
+      execute.mockImplementationOnce(async (_request) => ({
+        content: `${fence}edit:create src/a.ts\nconst a = 1;`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add helper', relevantFiles: ['src/a.ts'] }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(errorMemory.recordError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('missing closing') }),
+        expect.objectContaining({ file: 'src/a.ts', intent: 'Add helper' })
+      );
+      expect(errorMemory.getPreventionHints).toHaveBeenCalledWith({
+        intent: 'Add helper',
+        targets: ['src/a.ts'],
+      });
+      const request = execute.mock.calls[0]?.[0] as { systemContext?: string } | undefined;
+      expect(request?.systemContext).toContain('- Import helpers from src/lib');
+    });
+  });
+
+  describe('scope policy', () => {
+    let scopeGuard: { setPolicy: jest.Mock; clearPolicy: jest.Mock; enforce: jest.Mock };
+
+    beforeEach(async () => {
+      scopeGuard = {
+        setPolicy: jest.fn(),
+        clearPolicy: jest.fn(),
+        enforce: jest.fn(async () => ({ allowed: true, violation: null })),
+      };
+      createSession({ scopeGuard: scopeGuard as unknown as IScopeGuardService });
+      const mission = await missionManager.create({ title: 'Mission', description: 'Test mission' });
+      if (!mission.ok) {
+        throw mission.error;
+      }
+      missionId = mission.value.id;
+    });
+
+    it('should limit the mission to its scope while it runs', async () => {
+      const mission = await missionManager.create({
+        title: 'Scoped',
+        description: 'Scoped mission',
+        scope: { files: ['README.md'], directories: ['src/'] },
+      });
+      if (!mission.ok) {
+        throw mission.error;
+      }
+      execute.mockImplementationOnce(async (_request) => {
+        expect(scopeGuard.clearPolicy).not.toHaveBeenCalled();
+        return { content: 'No changes needed.', duration: 1 } as unknown as AgentResponse;
+      });
+
+      const result = await coordinator.execute({
+        missionId: mission.value.id,
+        tasks: [{ id: 'only', type: 'implement', description: 'Update docs' }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(scopeGuard.setPolicy).toHaveBeenCalledWith(mission.value.id, {
+        allowedPaths: ['README.md', 'src/**'],
+      });
+      expect(scopeGuard.clearPolicy).toHaveBeenCalledWith(mission.value.id);
+    });
+
+    it('should clear the policy of a cancelled mission', async () => {
+      execute.mockImplementationOnce(async (_request) => {
+        await coordinator.cancel(missionId);
+        return { content: 'No changes needed.', duration: 1 } as unknown as AgentResponse;
+      });
+
+      await coordinator.execute(plan());
+
+      expect(scopeGuard.setPolicy).toHaveBeenCalledWith(missionId, {});
+      expect(scopeGuard.clearPolicy).toHaveBeenCalledWith(missionId);
+    });
+  });
+
+  describe('edit paths', () => {
+    const fence = '```';
+
+    it.each(['../outside.ts', '/etc/outside.ts'])('should send an edit to %s back to the agent', async (target) => {
+      execute.mockImplementationOnce(async (_request) => ({
+        content: `${fence}edit:create ${target}\nexport const outside = 1;\n${fence}`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add a constant' }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(execute.mock.calls[1]?.[0].prompt).toContain('path is outside the workspace');
+    });
+  });
+
+  describe('convention gate', () => {
+    it('should send violations back to the agent before completing the task', async () => {
+      const fence = '```';
+      execute.mockImplementation(async (_request) => ({
+        content: `${fence}edit:create src/a.ts\nexport function get_user() {}\n${fence}`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+      conventionExtractor.checkCompliance.mockReturnValueOnce({
+        compliant: false,
+        violations: [
+          {
+            convention: 'naming.functions',
+            expected: 'camelCase',
+            actual: 'snake_case',
+            location: { file: 'src/a.ts', line: 1, column: 1 },
+            autoFixable: false,
+            fix: 'Rename function `get_user` to `getUser` (camelCase)',
+          },
+        ],
+      });
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add user lookup' }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(execute.mock.calls[1]?.[0].prompt).toContain(
+        'src/a.ts:1: Rename function `get_user` to `getUser` (camelCase)'
+      );
+      const request = execute.mock.calls[0]?.[0] as { systemContext?: string } | undefined;
+      expect(request?.systemContext).toContain('Project conventions:\n- Naming: functions in camelCase');
+    });
+
+    describe('in existing files', () => {
+      const fence = '```';
+
+      const runEdit = async (content: string): Promise<void> => {
+        const fileSystem = createMockFileSystem();
+        fileSystem.files.set('src/a.ts', 'export function get_user() {}\nexport const limit = 1;\n');
+        createSession({ fileSystem });
+        const mission = await missionManager.create({ title: 'Mission', description: 'Test mission' });
+        if (!mission.ok) {
+          throw mission.error;
+        }
+        missionId = mission.value.id;
+
+        // Reports every snake_case function where it is declared
+        conventionExtractor.checkCompliance.mockImplementation((code: string) => ({
+          compliant: false,
+          violations: code.split('\n').flatMap((line, i) =>
+            /function \w+_\w+/.test(line)
+              ? [
+                  {
+                    convention: 'naming.functions',
+                    expected: 'camelCase',
+                    actual: 'snake_case',
+                    location: { file: 'src/a.ts', line: i + 1, column: 1 },
+                    autoFixable: false,
+                  },
+                ]
+              : []
+          ),
+        }));
+        execute.mockImplementationOnce(async (_request) => ({
+          content: `${fence}edit:replace src/a.ts\n${content}${fence}`,
+          duration: 1,
+        }) as unknown as AgentResponse);
+
+        const result = await coordinator.execute({
+          missionId,
+          tasks: [{ id: 'only', type: 'implement', description: 'Raise the limit' }],
+        });
+        expect(result.ok).toBe(true);
+      };
+
+      it('should ignore violations the change did not introduce', async () => {
+        await runEdit('export function get_user() {}\nexport const limit = 2;\n');
+
+        expect(execute).toHaveBeenCalledTimes(1);
+      });
+
+      it('should report violations on changed lines', async () => {
+        await runEdit('export function get_user() {}\nexport function get_limit() { return 2; }\n');
+
+        expect(execute).toHaveBeenCalledTimes(2);
+        expect(execute.mock.calls[1]?.[0].prompt).toContain('src/a.ts:2');
+        expect(execute.mock.calls[1]?.[0].prompt).not.toContain('src/a.ts:1');
+      });
+    });
+  });
+
+  describe('test gate', () => {
+    const fence = '```';
+    let mergeBranch: jest.Mock;
+    let run: jest.Mock;
+    let check: jest.Mock;
+
+    const failing = {
+      runners: ['jest'],
+      testFiles: ['test/math.test.ts'],
+      passed: 0,
+      failed: 1,
+      issues: [{
+        type: 'test',
+        severity: 'error',
+        message: 'Test failed: add sums numbers\nExpected: 3\nReceived: -1',
+        location: { file: 'test/math.test.ts', line: 4, column: 3 },
+      }],
+      duration: 10,
+    };
+    const passing = { ...failing, passed: 1, failed: 0, issues: [] };
+
+    const createGatedSession = async (autoFix: boolean, approvalService?: IApprovalService): Promise<void> => {
+      let branches = 0;
+      mergeBranch = jest.fn(async () => Ok(undefined));
+      run = jest.fn();
+      check = jest.fn(async () => Ok([]));
+      createSession({
+        config: { autoFixVerificationFailures: autoFix },
+        branchService: {
+          createBranch: jest.fn(async () => Ok({ id: `branch-${++branches}` })),
+          recordChanges: jest.fn(),
+          getBranch: jest.fn(() => null),
+          mergeBranch,
+          abandonBranch: jest.fn(),
+        } as unknown as IVirtualBranchService,
+        mergeEngine: {
+          mergeIndependentChanges: jest.fn(() => []),
+          detectConflicts: jest.fn(() => []),
+        } as unknown as IMergeEngineService,
+        testRunner: { run } as unknown as ITestRunnerService,
+        typeChecker: { check } as unknown as ITypeCheckerService,
+        approvalService,
+      });
+
+      const mission = await missionManager.create({ title: 'Mission', description: 'Test mission' });
+      if (!mission.ok) {
+        throw mission.error;
+      }
+      missionId = mission.value.id;
+
+      execute.mockImplementationOnce(async (_request) => ({
+        content: `${fence}edit:create src/math.ts\nexport const add = (a: number, b: number) => a - b;\n${fence}`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+    };
+
+    it('should not merge changes whose related tests fail', async () => {
+      await createGatedSession(false);
+      run.mockResolvedValue(Ok(failing));
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.message).toContain('Tests failed');
+      expect(run).toHaveBeenCalledWith(
+        [expect.objectContaining({ path: 'src/math.ts', content: expect.stringContaining('a - b') })],
+        expect.anything()
+      );
+      expect(mergeBranch).not.toHaveBeenCalled();
+    });
+
+    it('should send failing test output to a fix task that edits the unmerged changes', async () => {
+      await createGatedSession(true);
+      run.mockResolvedValueOnce(Ok(failing)).mockResolvedValueOnce(Ok(passing));
+      execute.mockImplementationOnce(async (_request) => ({
+        content: `${fence}edit:edit src/math.ts\n<<<<<<< SEARCH\na - b\n=======\na + b\n>>>>>>> REPLACE\n${fence}`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(execute.mock.calls[1]?.[0].prompt).toContain('test/math.test.ts:4: Test failed: add sums numbers');
+      expect(run).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ path: 'src/math.ts', content: expect.stringContaining('a + b') })],
+        expect.anything()
+      );
+      expect(mergeBranch.mock.calls.map(([id]) => id as string)).toEqual(['branch-1', 'branch-2']);
+    });
+
+    it('should not merge changes that add type errors', async () => {
+      await createGatedSession(false);
+      check.mockResolvedValue(Ok([{
+        type: 'compile',
+        severity: 'error',
+        message: "Type 'string' is not assignable to type 'number'.",
+        location: { file: 'src/math.ts', line: 1, column: 1 },
+      }]));
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(!result.ok && result.error.message).toContain('Type check failed: 1 type error(s)');
+      expect(check).toHaveBeenCalledWith(
+        [expect.objectContaining({ path: 'src/math.ts', content: expect.stringContaining('a - b') })],
+        expect.anything()
+      );
+      expect(run).not.toHaveBeenCalled();
+      expect(mergeBranch).not.toHaveBeenCalled();
+    });
+
+    it('should fail the mission and roll back when a branch is refused by the scope policy', async () => {
+      await createGatedSession(false);
+      run.mockResolvedValue(Ok(passing));
+      mergeBranch.mockResolvedValue(Err(new AppError('SCOPE_VIOLATION', 'Changes refused by scope policy: src/math.ts')));
+      rollbackService.getHistory.mockReturnValue([{ id: 'point-1' }]);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(!result.ok && result.error.code).toBe('SCOPE_VIOLATION');
+      expect(rollbackService.rollback).toHaveBeenCalledWith('point-1');
+      expect(missionManager.getStatus(missionId)).toBe('failed');
+    });
+
+    it('should not re-run tests on or merge a rejected fix', async () => {
+      const requestApproval = jest
+        .fn()
+        .mockResolvedValueOnce(Ok({ approved: true, mode: 'step_by_step', automatic: false }))
+        .mockResolvedValueOnce(Ok({ approved: false, mode: 'step_by_step', automatic: false }));
+      await createGatedSession(true, { requestApproval } as unknown as IApprovalService);
+      run.mockResolvedValue(Ok(failing));
+      execute.mockImplementationOnce(async (_request) => ({
+        content: `${fence}edit:edit src/math.ts\n<<<<<<< SEARCH\na - b\n=======\na + b\n>>>>>>> REPLACE\n${fence}`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.message).toContain('Fix changes rejected by user');
+      expect(requestApproval.mock.calls[1]?.[1]).toEqual([
+        expect.objectContaining({ filePath: 'src/math.ts', modifiedContent: expect.stringContaining('a + b') }),
+      ]);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(mergeBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fix approval', () => {
+    const fence = '```';
+    let mergeBranch: jest.Mock;
+    let requestApproval: jest.Mock;
+
+    const typeError = {
+      type: 'compile',
+      severity: 'error',
+      message: "Type 'string' is not assignable to type 'number'.",
+      location: { file: 'src/math.ts', line: 1, column: 14 },
+    };
+
+    beforeEach(async () => {
+      const branches = new Map<string, { taskId: string; changes: Array<{ filePath: string }> }>();
+      mergeBranch = jest.fn(async () => Ok(undefined));
+      requestApproval = jest.fn(async () => Ok({ approved: true, mode: 'step_by_step', automatic: false }));
+      createSession({
+        config: { autoFixVerificationFailures: true },
+        approvalService: { requestApproval } as unknown as IApprovalService,
+        branchService: {
+          createBranch: jest.fn(async (_agentId: string, taskId: string) => {
+            const id = `branch-${branches.size + 1}`;
+            branches.set(id, { taskId, changes: [{ filePath: 'src/math.ts' }] });
+            return Ok({ id });
+          }),
+          recordChanges: jest.fn(),
+          getBranch: jest.fn((id: string) => branches.get(id)),
+          mergeBranch,
+          abandonBranch: jest.fn(),
+        } as unknown as IVirtualBranchService,
+        mergeEngine: {
+          mergeIndependentChanges: jest.fn(() => []),
+          detectConflicts: jest.fn(() => []),
+        } as unknown as IMergeEngineService,
+      });
+      verify
+        .mockResolvedValueOnce(Ok({ valid: false, summary: '1 error', issues: [typeError] }))
+        .mockResolvedValue(Ok({ valid: true, summary: 'ok' }));
+
+      const mission = await missionManager.create({ title: 'Mission', description: 'Test mission' });
+      if (!mission.ok) {
+        throw mission.error;
+      }
+      missionId = mission.value.id;
+
+      execute
+        .mockImplementationOnce(async (_request) => ({
+          content: `${fence}edit:create src/math.ts\nexport const one: number = '1';\n${fence}`,
+          duration: 1,
+        }) as unknown as AgentResponse)
+        .mockImplementationOnce(async (_request) => ({
+          content: `${fence}edit:create src/math.ts\nexport const one: number = 1;\n${fence}`,
+          duration: 1,
+        }) as unknown as AgentResponse);
+    });
+
+    it('should ask for approval of verification fixes before merging them', async () => {
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add constant' }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(finishMission).toHaveBeenCalledWith(missionId);
+      expect(requestApproval).toHaveBeenCalledTimes(2);
+      expect(mergeBranch.mock.calls.map(([id]) => id as string)).toEqual(['branch-1', 'branch-2']);
+    });
+
+    it('should fail verification without merging a rejected fix', async () => {
+      requestApproval
+        .mockResolvedValueOnce(Ok({ approved: true, mode: 'step_by_step', automatic: false }))
+        .mockResolvedValueOnce(Ok({ approved: false, mode: 'step_by_step', automatic: false, comment: 'Wrong fix' }));
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add constant' }],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.message).toContain('Fix changes rejected by user');
+      expect(mergeBranch.mock.calls.map(([id]) => id as string)).toEqual(['branch-1']);
+      expect(errorMemory.recordError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Change rejected by user: Wrong fix' }),
+        expect.anything()
+      );
+      expect(missionManager.get(missionId)?.status).toBe('failed');
+      expect(finishMission).toHaveBeenCalledWith(missionId);
+    });
+  });
+
+  describe('mission git', () => {
+    const fence = '```';
+    let missionGit: {
+      isEnabled: jest.Mock;
+      startMission: jest.Mock;
+      commitTask: jest.Mock;
+      completeMission: jest.Mock;
+      discardMission: jest.Mock;
+    };
+
+    const createGitSession = async (valid: boolean): Promise<void> => {
+      const branches = new Map<string, { taskId: string; changes: Array<{ filePath: string }> }>();
+      missionGit = {
+        isEnabled: jest.fn(() => true),
+        startMission: jest.fn(async () => Ok({ branch: 'altercode/mission' })),
+        commitTask: jest.fn(async () => Ok({ hash: 'abc123', subject: 'Add math helper' })),
+        completeMission: jest.fn(async () => Ok(undefined)),
+        discardMission: jest.fn(async () => Ok(undefined)),
+      };
+      createSession({
+        branchService: {
+          createBranch: jest.fn(async (_agentId: string, taskId: string) => {
+            const id = `branch-${branches.size + 1}`;
+            branches.set(id, { taskId, changes: [{ filePath: 'src/math.ts' }] });
+            return Ok({ id });
+          }),
+          recordChanges: jest.fn(),
+          getBranch: jest.fn((id: string) => branches.get(id)),
+          mergeBranch: jest.fn(async () => Ok(undefined)),
+          abandonBranch: jest.fn(),
+        } as unknown as IVirtualBranchService,
+        mergeEngine: {
+          mergeIndependentChanges: jest.fn(() => []),
+          detectConflicts: jest.fn(() => []),
+        } as unknown as IMergeEngineService,
+        missionGit: missionGit as unknown as IMissionGitService,
+      });
+      verify.mockResolvedValue(Ok({ valid, summary: valid ? 'ok' : 'Type errors' }));
+
+      const mission = await missionManager.create({ title: 'Math helpers', description: 'Test mission' });
+      if (!mission.ok) {
+        throw mission.error;
+      }
+      missionId = mission.value.id;
+
+      execute.mockImplementationOnce(async (_request) => ({
+        content: `${fence}edit:create src/math.ts\nexport const add = (a: number, b: number) => a + b;\n${fence}`,
+        duration: 1,
+      }) as unknown as AgentResponse);
+    };
+
+    it('should commit each merged task to the mission branch', async () => {
+      await createGitSession(true);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(missionGit.startMission).toHaveBeenCalledWith(missionId, 'Math helpers');
+      expect(missionGit.commitTask).toHaveBeenCalledWith(missionId, expect.any(String), 'Add math helper', ['src/math.ts']);
+      expect(missionGit.completeMission).toHaveBeenCalledWith(missionId);
+      expect(missionGit.discardMission).not.toHaveBeenCalled();
+    });
+
+    it('should discard the mission branch when verification fails', async () => {
+      await createGitSession(false);
+
+      const result = await coordinator.execute({
+        missionId,
+        tasks: [{ id: 'only', type: 'implement', description: 'Add math helper' }],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(missionGit.commitTask).toHaveBeenCalled();
+      expect(missionGit.discardMission).toHaveBeenCalledWith(missionId);
+      expect(missionGit.completeMission).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * ExecutionStore Unit Tests
+ */
+
+import { ExecutionStore } from '../../../src/execution/ExecutionStore';
+import { MissionManager } from '../../../src/execution/MissionManager';
+import { TaskManager } from '../../../src/execution/TaskManager';
+import { createInMemoryDatabase } from '../../../src/infrastructure/Database';
+import { createStorageManager } from '../../../src/infrastructure/StorageManager';
+import { createDefaultCache } from '../../../src/infrastructure/Cache';
+import { IDatabase, IRollbackService, DEFAULT_STORAGE_CONFIG } from '../../../src/types';
+import { createMockEventBus } from '../testUtils';
+
+describe('ExecutionStore', () => {
+  let database: IDatabase;
+  let store: ExecutionStore;
+
+  /** Managers backed by the store, as a fresh extension session would build them */
+  const createManagers = (): { missions: MissionManager; tasks: TaskManager } => {
+    const eventBus = createMockEventBus();
+    const tasks = new TaskManager(eventBus, undefined, { store });
+    const rollbackService = { getHistory: () => [] } as unknown as IRollbackService;
+    const missions = new MissionManager(tasks, rollbackService, eventBus, undefined, { store });
+    return { missions, tasks };
+  };
+
+  beforeEach(async () => {
+    database = createInMemoryDatabase();
+    const storage = createStorageManager(database, createDefaultCache(), DEFAULT_STORAGE_CONFIG);
+    store = new ExecutionStore(database);
+    storage.setExecutionStore(store);
+    expect((await storage.initialize()).ok).toBe(true);
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  describe('missions', () => {
+    it('should round-trip a mission with its dates', async () => {
+      const { missions } = createManagers();
+      const created = await missions.create({ title: 'Mission', description: 'Stored mission' });
+      if (!created.ok) {
+        throw created.error;
+      }
+
+      const stored = await store.getMission(created.value.id);
+
+      expect(stored.ok && stored.value?.title).toBe('Mission');
+      expect(stored.ok && stored.value?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should delete a mission with its tasks', async () => {
+      const { missions, tasks } = createManagers();
+      const created = await missions.create({ title: 'Mission', description: 'Stored mission' });
+      if (!created.ok) {
+        throw created.error;
+      }
+      await tasks.create(created.value.id, { type: 'implement', description: 'Task' });
+
+      expect((await store.deleteMission(created.value.id)).ok).toBe(true);
+
+      const mission = await store.getMission(created.value.id);
+      const remaining = await store.getTasksByMission(created.value.id);
+      expect(mission.ok && mission.value).toBeNull();
+      expect(remaining.ok && remaining.value).toEqual([]);
+    });
+  });
+
+  describe('restart', () => {
+    it('should restore a running mission as interrupted', async () => {
+      const before = createManagers();
+      const created = await before.missions.create({ title: 'Mission', description: 'Long mission' });
+      if (!created.ok) {
+        throw created.error;
+      }
+      const missionId = created.value.id;
+      await before.missions.start(missionId);
+
+      const done = await before.tasks.create(missionId, { type: 'implement', description: 'Done' });
+      const running = await before.tasks.create(missionId, { type: 'implement', description: 'Running' });
+      if (!done.ok || !running.ok) {
+        throw new Error('Task creation failed');
+      }
+      await before.tasks.start(done.value.id);
+      await before.tasks.complete(done.value.id, { success: true, output: 'finished' });
+      await before.tasks.start(running.value.id);
+
+      const after = createManagers();
+      const loaded = await after.missions.load();
+
+      expect(loaded.ok && loaded.value.map((m) => m.id)).toEqual([missionId]);
+      expect(after.missions.get(missionId)?.status).toBe('paused');
+      expect(after.missions.get(missionId)?.metadata?.interrupted).toBe(true);
+      expect(after.tasks.get(done.value.id)?.status).toBe('completed');
+      expect(after.tasks.getResult(done.value.id)?.output).toBe('finished');
+      expect(after.tasks.get(running.value.id)?.status).toBe('cancelled');
+    });
+
+    it('should not report finished missions as interrupted', async () => {
+      const before = createManagers();
+      const created = await before.missions.create({ title: 'Mission', description: 'Short mission' });
+      if (!created.ok) {
+        throw created.error;
+      }
+      await before.missions.start(created.value.id);
+      await before.missions.complete(created.value.id);
+
+      const after = createManagers();
+      const loaded = await after.missions.load();
+
+      expect(loaded.ok && loaded.value).toEqual([]);
+      expect(after.missions.get(created.value.id)?.status).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * TaskScheduler Unit Tests
+ */
+
+import { TaskScheduler, ScheduledTask } from '../../../src/execution/TaskScheduler';
+import {
+  ExecutionTaskConfig,
+  DependencyType,
+  AppError,
+  Ok,
+  Err,
+  toTaskId,
+} from '../../../src/types';
+
+const dep = (taskId: string, type: DependencyType = 'blocks') => ({
+  taskId: toTaskId(taskId),
+  type,
+  status: 'pending' as const,
+});
+
+const task = (id: string, dependencies: ReturnType<typeof dep>[] = []): ExecutionTaskConfig => ({
+  id,
+  type: 'implement',
+  description: `Task ${id}`,
+  dependencies,
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('TaskScheduler', () => {
+  let scheduler: TaskScheduler;
+
+  beforeEach(() => {
+    scheduler = new TaskScheduler();
+  });
+
+  describe('buildGraph', () => {
+    it('should default task keys to their index', () => {
+      const result = scheduler.buildGraph([
+        { type: 'analyze', description: 'first' },
+        { type: 'implement', description: 'second', dependencies: [dep('0')] },
+      ]);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map((t) => t.key)).toEqual(['0', '1']);
+      }
+    });
+
+    it('should reject unknown dependencies', () => {
+      const result = scheduler.buildGraph([task('a', [dep('missing')])]);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain('unknown task');
+      }
+    });
+
+    it('should reject duplicate ids', () => {
+      const result = scheduler.buildGraph([task('a'), task('a')]);
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should reject dependency cycles', () => {
+      const result = scheduler.buildGraph([
+        task('a', [dep('c')]),
+        task('b', [dep('a')]),
+        task('c', [dep('b')]),
+      ]);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toContain('cycle');
+      }
+    });
+  });
+
+  describe('run', () => {
+    it('should run independent tasks concurrently up to the width', async () => {
+      let active = 0;
+      let peak = 0;
+
+      const result = await scheduler.run(
+        [task('a'), task('b'), task('c'), task('d')],
+        async (scheduled) => {
+          active++;
+          peak = Math.max(peak, active);
+          await tick();
+          active--;
+          return Ok(scheduled.key);
+        },
+        { maxConcurrency: 2 }
+      );
+
+      expect(result.ok).toBe(true);
+      expect(peak).toBe(2);
+      if (result.ok) {
+        expect(result.value.every((o) => o.status === 'completed')).toBe(true);
+      }
+    });
+
+    it('should start dependents only after their dependencies complete', async () => {
+      const order: string[] = [];
+
+      await scheduler.run(
+        [task('c', [dep('b')]), task('b', [dep('a')]), task('a')],
+        async (scheduled) => {
+          order.push(`start:${scheduled.key}`);
+          await tick();
+          order.push(`end:${scheduled.key}`);
+          return Ok(scheduled.key);
+        },
+        { maxConcurrency: 4 }
+      );
+
+      expect(order).toEqual(['start:a', 'end:a', 'start:b', 'end:b', 'start:c', 'end:c']);
+    });
+
+    it('should pass upstream outputs to dependents', async () => {
+      const received: Array<{ key: string; type: DependencyType; value: string }> = [];
+
+      await scheduler.run<string>(
+        [task('a'), task('b', [dep('a', 'informs')])],
+        (scheduled: ScheduledTask, upstream) => {
+          if (scheduled.key === 'b') {
+            received.push(...upstream.map((u) => ({ key: u.task.key, type: u.type, value: u.value })));
+          }
+          return Promise.resolve(Ok(`output of ${scheduled.key}`));
+        },
+        { maxConcurrency: 1 }
+      );
+
+      expect(received).toEqual([{ key: 'a', type: 'informs', value: 'output of a' }]);
+    });
+
+    it('should cancel downstream tasks but finish unrelated branches', async () => {
+      const ran: string[] = [];
+      const cancelled: string[] = [];
+
+      const result = await scheduler.run(
+        [
+          task('a'),
+          task('b', [dep('a', 'required')]),
+          task('c', [dep('b')]),
+          task('x'),
+          task('y', [dep('x')]),
+        ],
+        (scheduled) => {
+          ran.push(scheduled.key);
+          return Promise.resolve(
+            scheduled.key === 'a'
+              ? Err(new AppError('TASK', 'boom'))
+              : Ok(scheduled.key)
+          );
+        },
+        {
+          maxConcurrency: 2,
+          onCancelled: (scheduled) => cancelled.push(scheduled.key),
+        }
+      );
+
+      expect(result.ok).toBe(true);
+      expect(ran.sort()).toEqual(['a', 'x', 'y']);
+      expect(cancelled.sort()).toEqual(['b', 'c']);
+      if (result.ok) {
+        expect(result.value.map((o) => o.status)).toEqual([
+          'failed',
+          'cancelled',
+          'cancelled',
+          'completed',
+          'completed',
+        ]);
+      }
+    });
+
+    it('should still run tasks with only soft dependencies on a failed task', async () => {
+      const result = await scheduler.run(
+        [task('a'), task('b', [dep('a', 'soft')])],
+        (scheduled) => Promise.resolve(
+          scheduled.key === 'a' ? Err(new AppError('TASK', 'boom')) : Ok(scheduled.key)
+        ),
+        { maxConcurrency: 2 }
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value[1]?.status).toBe('completed');
+      }
+    });
+
+    it('should treat thrown errors as task failures', async () => {
+      const result = await scheduler.run(
+        [task('a')],
+        () => Promise.reject(new Error('crashed')),
+        { maxConcurrency: 1 }
+      );
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value[0]?.status).toBe('failed');
+        expect(result.value[0]?.error?.message).toBe('crashed');
+      }
+    });
+
+    it('should stop scheduling once cancelled', async () => {
+      let cancelled = false;
+      const ran: string[] = [];
+
+      const result = await scheduler.run(
+        [task('a'), task('b', [dep('a')]), task('c', [dep('a', 'soft')])],
+        (scheduled) => {
+          ran.push(scheduled.key);
+          cancelled = true;
+          return Promise.resolve(Ok(scheduled.key));
+        },
+        { maxConcurrency: 1, isCancelled: () => cancelled }
+      );
+
+      expect(ran).toEqual(['a']);
+      if (result.ok) {
+        expect(result.value.map((o) => o.status)).toEqual(['completed', 'cancelled', 'cancelled']);
+      }
+    });
+  });
+});
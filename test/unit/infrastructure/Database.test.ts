@@ -0,0 +1,82 @@
+/**
+ * Database Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Database } from '../../../src/infrastructure/Database';
+import { createFilePath } from '../testUtils';
+
+describe('Database', () => {
+  let dir: string;
+  let dbPath: string;
+
+  const open = async (persistDelay = 50): Promise<Database> => {
+    const database = new Database({ path: createFilePath(dbPath), autoPersist: true, persistDelay, walMode: false });
+    expect((await database.initialize()).ok).toBe(true);
+    return database;
+  };
+
+  const count = async (database: Database): Promise<number> => {
+    const result = await database.queryOne<{ n: number }>('SELECT COUNT(*) AS n FROM items');
+    return result.ok ? result.value?.n ?? 0 : -1;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'altercode-db-'));
+    dbPath = path.join(dir, 'data', 'altercode.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('autoPersist', () => {
+    it('should write a burst of changes to disk once, after a delay', async () => {
+      const database = await open();
+      const writeFile = jest.spyOn(fs.promises, 'writeFile');
+      try {
+        await database.execute('CREATE TABLE items (id INTEGER)');
+        for (let i = 0; i < 5; i++) {
+          await database.execute('INSERT INTO items (id) VALUES (?)', [i]);
+        }
+
+        expect(fs.existsSync(dbPath)).toBe(false);
+        await new Promise((resolve) => setTimeout(resolve, 150));
+
+        expect(writeFile).toHaveBeenCalledTimes(1);
+        expect(fs.existsSync(dbPath)).toBe(true);
+      } finally {
+        writeFile.mockRestore();
+        await database.close();
+      }
+    });
+
+    it('should write pending changes when closed', async () => {
+      const database = await open(60000);
+      await database.execute('CREATE TABLE items (id INTEGER)');
+      await database.execute('INSERT INTO items (id) VALUES (1)');
+
+      expect((await database.close()).ok).toBe(true);
+
+      const reopened = await open();
+      expect(await count(reopened)).toBe(1);
+      await reopened.close();
+    });
+
+    it('should save a committed transaction', async () => {
+      const database = await open(60000);
+      await database.transaction(async () => {
+        await database.execute('CREATE TABLE items (id INTEGER)');
+        await database.execute('INSERT INTO items (id) VALUES (1)');
+        await database.execute('INSERT INTO items (id) VALUES (2)');
+      });
+      await database.close();
+
+      const reopened = await open();
+      expect(await count(reopened)).toBe(2);
+      await reopened.close();
+    });
+  });
+});
@@ -5,8 +5,15 @@
 import {
   QuotaTrackerService,
   createQuotaTrackerService,
+  findModelPrice,
+  calculateCost,
 } from '../../../src/infrastructure/QuotaTrackerService';
+import { createDefaultCache } from '../../../src/infrastructure/Cache';
+import { createInMemoryDatabase } from '../../../src/infrastructure/Database';
+import { createStorageManager } from '../../../src/infrastructure/StorageManager';
 import {
+  DEFAULT_STORAGE_CONFIG,
+  IDatabase,
   QuotaConfig,
   QUOTA_WINDOW_DURATION_MS,
 } from '../../../src/types';
@@ -280,6 +287,134 @@ describe('QuotaTrackerService', () => {
     });
   });
 
+  describe('cost accounting', () => {
+    beforeEach(async () => {
+      await service.initialize();
+    });
+
+    it('should find the price of the longest matching model prefix', () => {
+      const prices = { 'claude-opus-4': { input: 15, output: 75 }, 'claude-opus-4-5': { input: 5, output: 25 } };
+
+      expect(findModelPrice(prices, 'claude-opus-4-5-20251101')?.input).toBe(5);
+      expect(findModelPrice(prices, 'claude-opus-4-20250514')?.input).toBe(15);
+      expect(findModelPrice(prices, 'glm-4.6')).toBeUndefined();
+    });
+
+    it('should price cached prompt tokens at the cache rates', () => {
+      const price = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 };
+
+      const cost = calculateCost(price, { sent: 1_000_000, received: 100_000, cacheRead: 600_000, cacheWrite: 200_000 });
+
+      expect(cost).toBeCloseTo(0.6 + 0.18 + 0.75 + 1.5);
+    });
+
+    it('should attribute cost to provider, model, level, mission and task', () => {
+      service.recordUsage('claude', 'lord', {
+        sent: 1_000_000,
+        received: 0,
+        model: 'claude-sonnet-4-20250514',
+        missionId: 'm1',
+        taskId: 't1',
+      });
+      service.recordUsage('glm', 'worker', { sent: 0, received: 1_000_000, model: 'glm-4.6', missionId: 'm1', taskId: 't2' });
+
+      const summary = service.getCostSummary();
+      expect(summary.today).toBeCloseTo(3 + 2.2);
+      expect(summary.byProvider['claude']).toBeCloseTo(3);
+      expect(summary.byModel['glm-4.6']).toBeCloseTo(2.2);
+      expect(summary.byLevel.worker).toBeCloseTo(2.2);
+      expect(summary.byMission['m1']).toBeCloseTo(5.2);
+      expect(summary.byTask['t1']).toBeCloseTo(3);
+      expect(service.getStatus('claude').currentWindow.usage.byModel['claude-sonnet-4-20250514']?.cost).toBeCloseTo(3);
+    });
+
+    it('should count usage of unpriced models as free', () => {
+      service.recordUsage('claude', 'sovereign', { sent: 1000, received: 1000, model: 'local-llama' });
+
+      expect(service.getCostSummary().today).toBe(0);
+      expect(service.getStatus('claude').currentWindow.usage.callCount).toBe(1);
+    });
+  });
+
+  describe('cost budgets', () => {
+    const sonnet = { model: 'claude-sonnet-4', sent: 0 };
+
+    it('should warn once and then stop execution at the daily budget', async () => {
+      service = new QuotaTrackerService(eventBus, { budget: { dailyLimit: 10 } });
+      await service.initialize();
+
+      // $15 per million output tokens
+      service.recordUsage('claude', 'lord', { ...sonnet, received: 550_000 });
+      service.recordUsage('claude', 'lord', { ...sonnet, received: 10_000 });
+
+      const warnings = eventBus.emittedEvents.filter((e) => e.event === 'quota:warning');
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]?.payload).toMatchObject({ provider: 'claude', budget: 'daily', limit: 10 });
+      expect(service.canExecute('claude')).toBe(true);
+
+      service.recordUsage('claude', 'lord', { ...sonnet, received: 100_000 });
+
+      const exceeded = eventBus.emittedEvents.find((e) => e.event === 'quota:exceeded');
+      expect(exceeded?.payload).toMatchObject({ budget: 'daily', limit: 10 });
+      expect(service.canExecute('claude')).toBe(false);
+      expect(service.canExecute('glm')).toBe(false);
+    });
+
+    it('should stop only the mission over its budget', async () => {
+      service = new QuotaTrackerService(eventBus, { budget: { missionLimit: 1 } });
+      await service.initialize();
+
+      service.recordUsage('claude', 'worker', { ...sonnet, received: 100_000, missionId: 'm1' });
+
+      expect(service.getMissionCost('m1')).toBeCloseTo(1.5);
+      expect(eventBus.emittedEvents.find((e) => e.event === 'quota:exceeded')?.payload).toMatchObject({
+        budget: 'mission',
+        missionId: 'm1',
+      });
+      expect(service.canExecute('claude', 'm1')).toBe(false);
+      expect(service.canExecute('claude', 'm2')).toBe(true);
+      expect(service.canExecute('claude')).toBe(true);
+    });
+  });
+
+  describe('cost ledger', () => {
+    let database: IDatabase;
+
+    beforeEach(async () => {
+      database = createInMemoryDatabase();
+      const storage = createStorageManager(database, createDefaultCache(), DEFAULT_STORAGE_CONFIG);
+      expect((await storage.initialize()).ok).toBe(true);
+    });
+
+    afterEach(async () => {
+      await database.close();
+    });
+
+    it('should keep spend and budgets across restarts', async () => {
+      const config = { budget: { missionLimit: 1 } };
+      service = new QuotaTrackerService(eventBus, config, undefined, { database });
+      await service.initialize();
+      service.recordUsage('claude', 'worker', {
+        model: 'claude-sonnet-4',
+        sent: 0,
+        received: 100_000,
+        missionId: 'm1',
+        taskId: 't1',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const restarted = new QuotaTrackerService(eventBus, config, undefined, { database });
+      await restarted.initialize();
+
+      const summary = restarted.getCostSummary();
+      expect(summary.today).toBeCloseTo(1.5);
+      expect(summary.byModel['claude-sonnet-4']).toBeCloseTo(1.5);
+      expect(summary.byTask['t1']).toBeCloseTo(1.5);
+      expect(restarted.getMissionCost('m1')).toBeCloseTo(1.5);
+      expect(restarted.canExecute('claude', 'm1')).toBe(false);
+    });
+  });
+
   describe('createQuotaTrackerService factory', () => {
     it('should create a new instance', () => {
       const tracker = createQuotaTrackerService(eventBus);
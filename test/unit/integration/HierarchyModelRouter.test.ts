@@ -0,0 +1,253 @@
+/**
+ * HierarchyModelRouter Unit Tests
+ */
+
+import { HierarchyModelRouter, HierarchyModelConfig } from '../../../src/integration/HierarchyModelRouter';
+import { LLMRequest, LLMResponse, ILLMAdapter, ILogger, AppError, Ok, Err } from '../../../src/types';
+
+jest.mock('../../../src/integration/ClaudeAdapter');
+jest.mock('../../../src/integration/GLMAdapter');
+jest.mock('../../../src/integration/OpenAIAdapter');
+
+const response = (content: string): LLMResponse => ({
+  content,
+  model: 'mock',
+  finishReason: 'stop',
+  duration: 0,
+});
+
+/** Delay so concurrent requests interleave */
+const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+const baseConfig: HierarchyModelConfig = {
+  claudeMode: 'api',
+  claudeApiKey: 'claude-key',
+  glmApiKey: 'glm-key',
+  enableFallback: false,
+};
+
+/** Get the mocked complete() of a provider's adapter */
+const completeOf = (router: HierarchyModelRouter, provider: string): jest.Mock => {
+  const adapter = router.getProviderAdapter(provider) as ILLMAdapter;
+  return adapter.complete as jest.Mock;
+};
+
+/** Make a provider answer every completion with its own id */
+const answerAs = (router: HierarchyModelRouter, provider: string): jest.Mock =>
+  completeOf(router, provider).mockImplementation(async () => {
+    await tick();
+    return Ok(response(provider));
+  });
+
+describe('HierarchyModelRouter', () => {
+  let router: HierarchyModelRouter;
+
+  beforeEach(() => {
+    router = new HierarchyModelRouter(baseConfig);
+    answerAs(router, 'claude');
+    answerAs(router, 'glm');
+  });
+
+  describe('level routing', () => {
+    it('should route by the level on each request', async () => {
+      const worker = await router.complete({ prompt: 'implement', level: 'worker' });
+      const lord = await router.complete({ prompt: 'plan', level: 'lord' });
+
+      expect(worker.ok && worker.value.content).toBe('glm');
+      expect(lord.ok && lord.value.content).toBe('claude');
+    });
+
+    it('should treat requests without a level as sovereign', async () => {
+      await router.complete({ prompt: 'chat' });
+
+      expect(completeOf(router, 'claude')).toHaveBeenCalledTimes(1);
+      expect(router.getStats().requestsByLevel.sovereign).toBe(1);
+    });
+
+    it('should not let concurrent requests affect each other', async () => {
+      const requests: LLMRequest[] = [
+        { prompt: 'a', level: 'sovereign' },
+        { prompt: 'b', level: 'worker' },
+        { prompt: 'c', level: 'overlord' },
+        { prompt: 'd', level: 'worker' },
+      ];
+
+      const results = await Promise.all(requests.map((r) => router.complete(r)));
+
+      expect(results.map((r) => r.ok && r.value.content)).toEqual(['claude', 'glm', 'claude', 'glm']);
+      expect(router.getStats().requestsByLevel).toEqual({
+        sovereign: 1,
+        lord: 0,
+        overlord: 1,
+        worker: 2,
+      });
+    });
+
+    it('should send the route model unless the request overrides it', async () => {
+      await router.complete({ prompt: 'x', level: 'worker' });
+      await router.complete({ prompt: 'y', level: 'worker', model: 'glm-4.7-flash' });
+
+      const glm = completeOf(router, 'glm');
+      expect(glm).toHaveBeenNthCalledWith(1, expect.objectContaining({ model: 'glm-4.7' }));
+      expect(glm).toHaveBeenNthCalledWith(2, expect.objectContaining({ model: 'glm-4.7-flash' }));
+    });
+  });
+
+  describe('routing table', () => {
+    beforeEach(() => {
+      router = new HierarchyModelRouter({
+        ...baseConfig,
+        routing: {
+          providers: {
+            local: { kind: 'openai-compatible', baseUrl: 'http://localhost:8080/v1/chat/completions' },
+          },
+          levels: { worker: { provider: 'local', model: 'qwen2.5-coder' } },
+          roles: { reviewer: { provider: 'local', model: 'llama-3.1-8b' } },
+        },
+      });
+      answerAs(router, 'claude');
+      answerAs(router, 'glm');
+      answerAs(router, 'local');
+    });
+
+    it('should route configured levels to their provider and model', async () => {
+      const result = await router.complete({ prompt: 'x', level: 'worker' });
+
+      expect(result.ok && result.value.content).toBe('local');
+      expect(completeOf(router, 'local')).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'qwen2.5-coder' })
+      );
+    });
+
+    it('should prefer a role route over the level route', async () => {
+      const reviewer = await router.complete({ prompt: 'x', level: 'lord', role: 'reviewer' });
+      const planner = await router.complete({ prompt: 'y', level: 'lord', role: 'planner' });
+
+      expect(reviewer.ok && reviewer.value.content).toBe('local');
+      expect(planner.ok && planner.value.content).toBe('claude');
+      expect(completeOf(router, 'local')).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'llama-3.1-8b' })
+      );
+    });
+
+    it('should use the default routes when the routing is invalid', async () => {
+      const logger: ILogger = {
+        component: 'Test',
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        child: jest.fn().mockReturnThis(),
+      };
+      router = new HierarchyModelRouter(
+        { ...baseConfig, routing: { levels: { worker: { provider: 'missing' } } } },
+        logger
+      );
+      answerAs(router, 'glm');
+
+      const worker = await router.complete({ prompt: 'implement', level: 'worker' });
+
+      expect(worker.ok && worker.value.content).toBe('glm');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Invalid model routing, using the default routes',
+        expect.objectContaining({ message: expect.stringContaining('unknown provider "missing"') })
+      );
+    });
+
+    it('should not require a Claude key when no route uses Claude', () => {
+      const local = { provider: 'local' };
+      expect(() => new HierarchyModelRouter({
+        ...baseConfig,
+        claudeApiKey: undefined,
+        routing: {
+          providers: { local: { kind: 'openai-compatible' } },
+          levels: { sovereign: local, lord: local, overlord: local, worker: local },
+        },
+      })).not.toThrow();
+    });
+  });
+
+  describe('fallback chains', () => {
+    beforeEach(() => {
+      router = new HierarchyModelRouter({
+        ...baseConfig,
+        enableFallback: true,
+        routing: {
+          providers: { local: { kind: 'openai-compatible' } },
+          levels: {
+            lord: {
+              provider: 'claude',
+              fallbacks: [{ provider: 'local', model: 'small' }, { provider: 'glm', model: 'glm-4.7' }],
+            },
+          },
+        },
+      });
+      completeOf(router, 'claude').mockResolvedValue(Err(new AppError('LLM', 'overloaded')));
+      completeOf(router, 'local').mockRejectedValue(new Error('connection refused'));
+      completeOf(router, 'glm').mockResolvedValue(Ok(response('glm')));
+    });
+
+    it('should try fallbacks in order with their own models', async () => {
+      const result = await router.complete({ prompt: 'x', level: 'lord', model: 'claude-sonnet-4' });
+
+      expect(result.ok && result.value.content).toBe('glm');
+      expect(completeOf(router, 'claude')).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'claude-sonnet-4' })
+      );
+      expect(completeOf(router, 'local')).toHaveBeenCalledWith(expect.objectContaining({ model: 'small' }));
+      expect(completeOf(router, 'glm')).toHaveBeenCalledWith(expect.objectContaining({ model: 'glm-4.7' }));
+    });
+
+    it('should count fallbacks against the request level', async () => {
+      await router.complete({ prompt: 'x', level: 'lord' });
+
+      const stats = router.getStats();
+      expect(stats.fallbacksByLevel.lord).toBe(2);
+      expect(stats.fallbackCount).toBe(2);
+    });
+
+    it('should return the last error when every target fails', async () => {
+      completeOf(router, 'glm').mockResolvedValue(Err(new AppError('LLM', 'glm down')));
+
+      const result = await router.complete({ prompt: 'x', level: 'lord' });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe('glm down');
+      }
+    });
+
+    it('should stream tool completions and fall back to targets that cannot stream', async () => {
+      const claude = router.getProviderAdapter('claude') as ILLMAdapter;
+      claude.streamWithTools = jest.fn(async function* () {
+        yield* [];
+        return Err(new AppError('LLM', 'overloaded'));
+      });
+      (router.getProviderAdapter('local') as ILLMAdapter).completeWithTools = jest.fn(async () => {
+        throw new Error('connection refused');
+      });
+      const glm = router.getProviderAdapter('glm') as ILLMAdapter;
+      glm.streamWithTools = undefined;
+      (glm.completeWithTools as jest.Mock).mockResolvedValue(Ok({ response: response('glm'), toolCalls: [] }));
+
+      const stream = router.streamWithTools({ prompt: 'x', level: 'lord' }, []);
+      let next = await stream.next();
+      while (!next.done) {
+        next = await stream.next();
+      }
+
+      expect(next.value.ok && next.value.value.response).toMatchObject({ content: 'glm', provider: 'glm' });
+      expect(router.getStats().fallbacksByLevel.lord).toBe(2);
+    });
+
+    it('should not fall back when fallback is disabled', async () => {
+      router = new HierarchyModelRouter(baseConfig);
+      completeOf(router, 'claude').mockResolvedValue(Err(new AppError('LLM', 'overloaded')));
+
+      const result = await router.complete({ prompt: 'x', level: 'lord' });
+
+      expect(result.ok).toBe(false);
+      expect(completeOf(router, 'glm')).not.toHaveBeenCalled();
+    });
+  });
+});
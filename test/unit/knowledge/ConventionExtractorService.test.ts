@@ -0,0 +1,74 @@
+/**
+ * ConventionExtractorService Unit Tests
+ */
+
+import { ConventionExtractorService } from '../../../src/knowledge/ConventionExtractorService';
+import { IKnowledgeStore, Ok, toRelativePath } from '../../../src/types';
+import { createMockFileSystem, createFilePath } from '../testUtils';
+
+/** A source file with camelCase functions, PascalCase classes and two-space indents */
+const sampleFile = (index: number): string =>
+  Array.from(
+    { length: 10 },
+    (_, i) => `export function loadItem${index}x${i}(id: string) {\n  return id;\n}\n`
+  ).join('\n') + `\nexport class Widget${index} {\n  name = 'widget';\n}\n`;
+
+describe('ConventionExtractorService', () => {
+  let service: ConventionExtractorService;
+
+  beforeEach(async () => {
+    const fileSystem = createMockFileSystem();
+    const paths = ['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts', 'src/e.ts'];
+    paths.forEach((path, i) => fileSystem.files.set(`/project/${path}`, sampleFile(i)));
+    (fileSystem.glob as jest.Mock).mockResolvedValue(paths.map(toRelativePath));
+
+    const store = { saveConventions: jest.fn(async () => Ok(undefined)) } as unknown as IKnowledgeStore;
+    service = new ConventionExtractorService(fileSystem, store, createFilePath('/project'));
+    expect((await service.analyze()).ok).toBe(true);
+  });
+
+  describe('checkCompliance', () => {
+    it('should suggest a rename for identifiers in another naming pattern', () => {
+      const code = 'const x = 1;\nexport function get_user() {\n  return x;\n}\n';
+
+      const result = service.checkCompliance(code, toRelativePath('src/user.ts'));
+
+      expect(result.compliant).toBe(false);
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          convention: 'naming.functions',
+          expected: 'camelCase',
+          actual: 'snake_case',
+          location: expect.objectContaining({ line: 2 }),
+          fix: 'Rename function `get_user` to `getUser` (camelCase)',
+        }),
+      ]);
+    });
+
+    it('should report wrong indentation once per file with the offending lines', () => {
+      const code = 'export function run() {\n\tstart();\n\tstop();\n}\n';
+
+      const result = service.checkCompliance(code, toRelativePath('src/run.ts'));
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]?.convention).toBe('style.indentation');
+      expect(result.violations[0]?.fix).toBe('Indent lines 2, 3 with 2 spaces instead of tabs');
+    });
+
+    it('should accept code that follows the conventions', () => {
+      const code = 'export function runAll() {\n  return 1;\n}\n';
+
+      expect(service.checkCompliance(code, toRelativePath('src/run.ts')).compliant).toBe(true);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should describe confidently detected conventions', () => {
+      const summary = service.summarize();
+
+      expect(summary).toContainEqual(expect.stringContaining('functions in camelCase'));
+      expect(summary).toContainEqual(expect.stringContaining('classes in PascalCase'));
+      expect(summary).toContainEqual(expect.stringMatching(/^Tests: /));
+    });
+  });
+});
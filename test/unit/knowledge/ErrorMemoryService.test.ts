@@ -0,0 +1,117 @@
+/**
+ * ErrorMemoryService Unit Tests
+ */
+
+import { ErrorMemoryService } from '../../../src/knowledge/ErrorMemoryService';
+import { KnowledgeStore } from '../../../src/knowledge/KnowledgeStore';
+import { createInMemoryDatabase } from '../../../src/infrastructure/Database';
+import { createStorageManager } from '../../../src/infrastructure/StorageManager';
+import { createDefaultCache } from '../../../src/infrastructure/Cache';
+import { IDatabase, DEFAULT_STORAGE_CONFIG, AgentId, toRelativePath } from '../../../src/types';
+import { createTaskId } from '../testUtils';
+
+const context = {
+  taskId: createTaskId('task-1'),
+  agentId: 'agent-1' as AgentId,
+};
+
+describe('ErrorMemoryService', () => {
+  let database: IDatabase;
+  let store: KnowledgeStore;
+  let service: ErrorMemoryService;
+
+  beforeEach(async () => {
+    database = createInMemoryDatabase();
+    store = new KnowledgeStore(database);
+    const storage = createStorageManager(database, createDefaultCache(), DEFAULT_STORAGE_CONFIG);
+    storage.setKnowledgeStore(store);
+    expect((await storage.initialize()).ok).toBe(true);
+    service = new ErrorMemoryService(store);
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  describe('recordError', () => {
+    it('should count repeated errors against one pattern', async () => {
+      const error = new Error('Cannot find module ./utils/helpers');
+      const first = await service.recordError(error, { ...context, file: toRelativePath('src/a.ts') });
+      const second = await service.recordError(error, { ...context, file: toRelativePath('src/a.ts') });
+
+      expect(first.ok && second.ok && second.value.id).toBe(first.ok && first.value.id);
+      expect(second.ok && second.value.occurrences).toBe(2);
+      expect(second.ok && second.value.category).toBe('import');
+    });
+  });
+
+  describe('recordResolution', () => {
+    it('should replace the prevention hint of a pattern by id', async () => {
+      const recorded = await service.recordError(new Error('Cannot find module ./x'), context);
+      if (!recorded.ok) {
+        throw recorded.error;
+      }
+
+      const result = await service.recordResolution(recorded.value.id, 'Import from ./lib/x instead');
+
+      expect(result.ok).toBe(true);
+      expect(service.getPattern(recorded.value.id)?.prevention).toBe('Import from ./lib/x instead');
+    });
+  });
+
+  describe('getPreventionHints', () => {
+    it('should rank hints for the targeted file first', async () => {
+      const near = await service.recordError(new Error('Cannot find module ./b'), {
+        ...context,
+        file: toRelativePath('src/api/client.ts'),
+      });
+      const far = await service.recordError(new Error('Unexpected token }'), {
+        ...context,
+        file: toRelativePath('docs/build.js'),
+      });
+      if (!near.ok || !far.ok) {
+        throw new Error('Recording failed');
+      }
+      await service.recordResolution(near.value.id, 'Use the @api alias for client imports');
+
+      const hints = service.getPreventionHints({
+        intent: 'Add retries',
+        targets: ['/project/src/api/client.ts'],
+      });
+
+      expect(hints).toEqual(['Use the @api alias for client imports']);
+    });
+
+    it('should match symbols named in the intent', async () => {
+      const recorded = await service.recordError(new Error('Symbol not found: fetchUser'), {
+        ...context,
+        symbol: 'fetchUser',
+      });
+      if (!recorded.ok) {
+        throw recorded.error;
+      }
+      await service.recordResolution(recorded.value.id, 'Did you mean: fetchUsers?');
+
+      expect(service.getPreventionHints({ intent: 'Cache fetchUser results', targets: [] })).toEqual([
+        'Did you mean: fetchUsers?',
+      ]);
+      expect(service.getPreventionHints({ intent: 'Rename the page title', targets: [] })).toEqual([]);
+    });
+  });
+
+  describe('loadPatterns', () => {
+    it('should restore patterns saved by an earlier session', async () => {
+      const recorded = await service.recordError(new Error('Cannot find module ./x'), context);
+      if (!recorded.ok) {
+        throw recorded.error;
+      }
+
+      const restored = new ErrorMemoryService(store);
+      expect((await restored.loadPatterns()).ok).toBe(true);
+      const again = await restored.recordError(new Error('Cannot find module ./x'), context);
+
+      expect(restored.getPattern(recorded.value.id)?.firstSeen).toBeInstanceOf(Date);
+      expect(again.ok && again.value.occurrences).toBe(2);
+    });
+  });
+});
@@ -465,6 +465,67 @@ def main():
     });
   });
 
+  describe('findRegionConflicts', () => {
+    const filePath = createFilePath('/src/math.ts');
+    const base = [
+      "import { round } from './round';",
+      '',
+      'export function add(a: number, b: number): number {',
+      '  const sum = a + b;',
+      '  return sum;',
+      '}',
+      '',
+      'export function scale(value: number): number {',
+      '  return round(value * 2);',
+      '}',
+      '',
+      'export function total(values: number[]): number {',
+      '  return values.reduce(add, 0);',
+      '}',
+    ].join('\n');
+
+    const edit = (from: string, to: string): string => {
+      expect(base).toContain(from);
+      return base.replace(from, to);
+    };
+
+    it('should not report edits to different functions', () => {
+      const ours = edit('  const sum = a + b;', '  const sum = b + a;');
+      const theirs = edit('round(value * 2)', 'round(value * 3)');
+
+      expect(service.findRegionConflicts(filePath, base, ours, theirs)).toEqual([]);
+    });
+
+    it('should report edits to the same function', () => {
+      const ours = edit('  const sum = a + b;', '  const sum = b + a;');
+      const theirs = edit('  return sum;', '  return Math.abs(sum);');
+
+      const conflicts = service.findRegionConflicts(filePath, base, ours, theirs);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]!.kind).toBe('same_region');
+      expect(conflicts[0]!.region1.name).toBe('add');
+    });
+
+    it('should report edits to a symbol and one of its dependents', () => {
+      const ours = edit('a: number, b: number): number {', 'a: number, b = 0): number {');
+      const theirs = edit('values.reduce(add, 0)', 'values.reduce(add, 1)');
+
+      const conflicts = service.findRegionConflicts(filePath, base, ours, theirs);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]!.kind).toBe('dependency');
+      expect([conflicts[0]!.region1.name, conflicts[0]!.region2.name]).toEqual(['add', 'total']);
+    });
+
+    it('should ignore code added next to a symbol', () => {
+      const ours = edit('  const sum = a + b;', '  const sum = b + a;');
+      const theirs = `${base}\n\nexport function negate(value: number): number {\n  return -value;\n}`;
+
+      expect(service.findRegionConflicts(filePath, base, ours, theirs)).toEqual([]);
+    });
+  });
+
   describe('isSupported', () => {
     it('should return true for TypeScript files', () => {
       expect(service.isSupported(createFilePath('/src/test.ts'))).toBe(true);
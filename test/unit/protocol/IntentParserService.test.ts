@@ -0,0 +1,150 @@
+/**
+ * IntentParserService Unit Tests
+ */
+
+import { IntentParserService } from '../../../src/protocol/IntentParserService';
+import { ILLMAdapter, ISemanticIndexService, AnySymbol, Ok, Err, AppError } from '../../../src/types';
+
+// Mock LLM adapter answering with the given content
+function createMockLLMAdapter(content: string): ILLMAdapter {
+  return {
+    complete: jest.fn(async () => Ok({ content, model: 'test-model', finishReason: 'stop', duration: 10 })),
+    stream: jest.fn(async function* () {
+      yield { content: '', done: true };
+    }),
+    completeWithTools: jest.fn(async () => Ok({
+      response: { content: '', model: '', finishReason: '', duration: 0 },
+      toolCalls: [],
+    })),
+    getConfig: jest.fn(() => ({ model: 'test', maxTokens: 1000, temperature: 0 })),
+    setConfig: jest.fn(),
+  };
+}
+
+// Mock semantic index holding the given symbols
+function createMockSemanticIndex(symbols: Array<{ name: string; kind: string; file: string }>): ISemanticIndexService {
+  const toSymbol = (s: { name: string; kind: string; file: string }): AnySymbol =>
+    ({ name: s.name, kind: s.kind, exported: true, location: { file: s.file, line: 1, column: 0 } }) as unknown as AnySymbol;
+
+  return {
+    findSymbol: jest.fn((name: string) => symbols.filter((s) => s.name === name).map(toSymbol)),
+    search: jest.fn((query: string) =>
+      symbols
+        .filter((s) => s.name.toLowerCase().includes(query.toLowerCase()))
+        .map((s) => ({ symbol: toSymbol(s), score: s.name.toLowerCase() === query.toLowerCase() ? 100 : 60 }))
+    ),
+  } as unknown as ISemanticIndexService;
+}
+
+describe('IntentParserService', () => {
+  const message = 'why is the login slow and can you fix it';
+
+  describe('classify', () => {
+    it('should use the model answer when it matches the schema', async () => {
+      const llmAdapter = createMockLLMAdapter(
+        '```json\n' +
+          JSON.stringify({
+            type: 'modify',
+            targets: [{ type: 'concept', name: 'login' }],
+            constraints: [{ type: 'scope', value: 'auth module' }],
+            confidence: 0.85,
+          }) +
+          '\n```'
+      );
+      const service = new IntentParserService(undefined, { llmAdapter });
+
+      const intent = await service.classify(message);
+
+      expect(intent.type).toBe('modify');
+      expect(intent.source).toBe('llm');
+      expect(intent.confidence).toBe(0.85);
+      expect(intent.constraints).toEqual([{ type: 'scope', value: 'auth module', isNegative: false }]);
+      expect(intent.clarification).toBeUndefined();
+      expect(llmAdapter.complete).toHaveBeenCalledWith(expect.objectContaining({ level: 'worker', temperature: 0 }));
+    });
+
+    it('should fall back to patterns when the answer does not match the schema', async () => {
+      const llmAdapter = createMockLLMAdapter(JSON.stringify({ type: 'refactor', targets: [], confidence: 2 }));
+      const service = new IntentParserService(undefined, { llmAdapter });
+
+      const intent = await service.classify('add a function `validateEmail()`');
+
+      expect(intent.source).toBe('regex');
+      expect(intent.type).toBe('create');
+    });
+
+    it('should fall back to patterns when the model fails', async () => {
+      const llmAdapter = createMockLLMAdapter('');
+      (llmAdapter.complete as jest.Mock).mockResolvedValue(Err(new AppError('NETWORK', 'offline')));
+      const service = new IntentParserService(undefined, { llmAdapter });
+
+      const intent = await service.classify('delete the file "old.ts"');
+
+      expect(intent.source).toBe('regex');
+      expect(intent.type).toBe('delete');
+    });
+
+    it('should not call the model in regex mode', async () => {
+      const llmAdapter = createMockLLMAdapter('{}');
+      const service = new IntentParserService(undefined, { llmAdapter, config: { mode: 'regex' } });
+
+      await service.classify(message);
+
+      expect(llmAdapter.complete).not.toHaveBeenCalled();
+    });
+
+    it('should resolve targets against the semantic index', async () => {
+      const llmAdapter = createMockLLMAdapter(
+        JSON.stringify({
+          type: 'modify',
+          targets: [
+            { type: 'symbol', name: 'authenticate' },
+            { type: 'symbol', name: 'missingHelper' },
+            { type: 'concept', name: 'login service' },
+          ],
+          constraints: [],
+          confidence: 0.9,
+        })
+      );
+      const semanticIndex = createMockSemanticIndex([
+        { name: 'authenticate', kind: 'function', file: 'src/auth.ts' },
+        { name: 'LoginService', kind: 'class', file: 'src/login.ts' },
+      ]);
+      const service = new IntentParserService(undefined, { llmAdapter, semanticIndex });
+
+      const { targets } = await service.classify('make authenticate and the login service faster');
+
+      expect(targets[0]).toMatchObject({ name: 'authenticate', symbolKind: 'function', file: 'src/auth.ts', confidence: 0.9 });
+      expect(targets.find((t) => t.name === 'LoginService')).toMatchObject({ type: 'symbol', file: 'src/login.ts' });
+      expect(targets.find((t) => t.name === 'missingHelper')?.confidence).toBeLessThan(0.5);
+    });
+
+    it('should ask a clarifying question when confidence is low', async () => {
+      const llmAdapter = createMockLLMAdapter(
+        JSON.stringify({
+          type: 'modify',
+          targets: [],
+          constraints: [],
+          confidence: 0.3,
+          clarification: 'Should I only explain why login is slow, or also change the code?',
+        })
+      );
+      const service = new IntentParserService(undefined, { llmAdapter });
+
+      const intent = await service.classify(message);
+
+      expect(intent.clarification).toBe('Should I only explain why login is slow, or also change the code?');
+    });
+
+    it('should write a clarifying question when the model gives none', async () => {
+      const llmAdapter = createMockLLMAdapter(
+        JSON.stringify({ type: 'delete', targets: [{ type: 'file', name: 'legacy.ts' }], constraints: [], confidence: 0.2 })
+      );
+      const service = new IntentParserService(undefined, { llmAdapter, config: { minConfidence: 0.6 } });
+
+      const intent = await service.classify('legacy.ts?');
+
+      expect(intent.clarification).toContain('remove code (legacy.ts)');
+    });
+  });
+});
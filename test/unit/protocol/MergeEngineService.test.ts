@@ -14,6 +14,7 @@ import {
   VirtualBranchId,
   FilePath,
   CodeRegion,
+  RegionConflict,
   LineNumber,
   Ok,
 } from '../../../src/types';
@@ -69,6 +70,7 @@ function createMockSemanticAnalyzer(): ISemanticAnalyzerService {
     findRegionsAtPosition: jest.fn(() => []),
     getMostSpecificRegion: jest.fn(() => null),
     getDependentRegions: jest.fn(() => []),
+    findRegionConflicts: jest.fn((): RegionConflict[] => []),
     assignRegionsToWorkers: jest.fn(() => new Map()),
     isSupported: jest.fn(() => true),
     getSupportedExtensions: jest.fn(() => ['.ts', '.tsx', '.js', '.jsx', '.py', '.rs', '.go']),
@@ -87,7 +89,12 @@ function createMockBranchService(): IVirtualBranchService & {
     getBranch: jest.fn((id: VirtualBranchId) => mockBranches.find((b) => b.id === id) ?? null),
     getBranchForAgent: jest.fn(() => null),
     getBranchForTask: jest.fn(() => null),
-    recordChange: jest.fn(),
+    recordChange: jest.fn((id: VirtualBranchId, change: FileChange) => {
+      const branch = mockBranches.find((b) => b.id === id);
+      if (branch) {
+        branch.changes = [...branch.changes.filter((c) => c.filePath !== change.filePath), change];
+      }
+    }),
     recordChanges: jest.fn(),
     hasConflicts: jest.fn(() => false),
     getConflictingFiles: jest.fn((id1: VirtualBranchId, id2: VirtualBranchId): FilePath[] => {
@@ -206,6 +213,91 @@ describe('MergeEngineService', () => {
       const detectedEvent = eventBus.emittedEvents.find((e) => e.event === 'conflict:detected');
       expect(detectedEvent).toBeDefined();
     });
+
+    it('should not report files changed in independent regions', () => {
+      const commonFile = createFilePath('/src/common.ts');
+      const branch1 = createMockBranch('b1', 'a1', 't1', [
+        { filePath: commonFile, originalContent: 'a\nb\nc', modifiedContent: 'A\nb\nc', diff: '', changeType: 'modify' },
+      ]);
+      const branch2 = createMockBranch('b2', 'a2', 't2', [
+        { filePath: commonFile, originalContent: 'a\nb\nc', modifiedContent: 'a\nb\nC', diff: '', changeType: 'modify' },
+      ]);
+      branchService.mockBranches.push(branch1, branch2);
+      (branchService.getConflictingFiles as jest.Mock).mockReturnValue([]);
+
+      const conflicts = service.detectConflicts();
+
+      expect(conflicts).toEqual([]);
+      expect(branchService.recordChange).not.toHaveBeenCalled();
+      expect(branch2.changes).toHaveLength(1);
+    });
+
+    it('should report the conflicting symbols of a region conflict', () => {
+      const commonFile = createFilePath('/src/common.ts');
+      const region = (name: string): CodeRegion => ({
+        id: `region-${name}`,
+        filePath: commonFile,
+        type: 'function',
+        name,
+        startLine: 1 as LineNumber,
+        endLine: 3 as LineNumber,
+        dependencies: [],
+        modifiedBy: null,
+      });
+      (semanticAnalyzer.findRegionConflicts as jest.Mock).mockReturnValue([
+        { kind: 'dependency', region1: region('parse'), region2: region('load') },
+      ]);
+      const branch1 = createMockBranch('b1', 'a1', 't1', [
+        { filePath: commonFile, originalContent: 'a', modifiedContent: 'b', diff: '', changeType: 'modify' },
+      ]);
+      const branch2 = createMockBranch('b2', 'a2', 't2', [
+        { filePath: commonFile, originalContent: 'a', modifiedContent: 'c', diff: '', changeType: 'modify' },
+      ]);
+      branchService.mockBranches.push(branch1, branch2);
+
+      const [conflict] = service.detectConflicts();
+
+      expect(conflict?.regionConflicts).toHaveLength(1);
+      expect(conflict?.conflictingRegions.map((r) => r.name)).toEqual(['parse', 'load']);
+    });
+  });
+
+  describe('mergeIndependentChanges', () => {
+    it('should rebase the second branch onto the merged content, keeping each branch\'s edits', () => {
+      const commonFile = createFilePath('/src/common.ts');
+      const branch1 = createMockBranch('b1', 'a1', 't1', [
+        { filePath: commonFile, originalContent: 'a\nb\nc', modifiedContent: 'A\nb\nc', diff: '', changeType: 'modify' },
+      ]);
+      const branch2 = createMockBranch('b2', 'a2', 't2', [
+        { filePath: commonFile, originalContent: 'a\nb\nc', modifiedContent: 'a\nb\nC', diff: '', changeType: 'modify' },
+      ]);
+      branchService.mockBranches.push(branch1, branch2);
+      (branchService.getConflictingFiles as jest.Mock).mockReturnValue([]);
+
+      expect(service.mergeIndependentChanges()).toEqual([commonFile]);
+
+      expect(branch1.changes).toEqual([
+        expect.objectContaining({ originalContent: 'a\nb\nc', modifiedContent: 'A\nb\nc' }),
+      ]);
+      expect(branch2.changes).toEqual([
+        expect.objectContaining({ filePath: commonFile, originalContent: 'A\nb\nc', modifiedContent: 'A\nb\nC' }),
+      ]);
+      expect(service.detectConflicts()).toEqual([]);
+    });
+
+    it('should leave overlapping changes for conflict resolution', () => {
+      const commonFile = createFilePath('/src/common.ts');
+      const branch1 = createMockBranch('b1', 'a1', 't1', [
+        { filePath: commonFile, originalContent: 'a', modifiedContent: 'b', diff: '', changeType: 'modify' },
+      ]);
+      const branch2 = createMockBranch('b2', 'a2', 't2', [
+        { filePath: commonFile, originalContent: 'a', modifiedContent: 'c', diff: '', changeType: 'modify' },
+      ]);
+      branchService.mockBranches.push(branch1, branch2);
+
+      expect(service.mergeIndependentChanges()).toEqual([]);
+      expect(branchService.recordChange).not.toHaveBeenCalled();
+    });
   });
 
   describe('hasConflicts', () => {
@@ -313,6 +405,9 @@ describe('MergeEngineService', () => {
       expect(result.ok).toBe(true);
       if (result.ok) {
         expect(result.value.strategy).toBe('manual');
+        expect(result.value.resolvedContent).toBe(
+          ['<<<<<<< ours', 'different1', '||||||| base', 'same', '=======', 'different2', '>>>>>>> theirs', 'line'].join('\n')
+        );
       }
     });
   });
@@ -337,7 +432,10 @@ describe('MergeEngineService', () => {
       const applyResult = await service.applyResolution(resolveResult.value);
 
       expect(applyResult.ok).toBe(true);
-      expect(branchService.recordChange).toHaveBeenCalled();
+      expect(branch1.changes[0]?.modifiedContent).toBe('version1');
+      expect(branch2.changes).toEqual([
+        expect.objectContaining({ originalContent: 'version1', modifiedContent: resolveResult.value.resolvedContent }),
+      ]);
     });
 
     it('should fail for unknown conflict', async () => {
@@ -0,0 +1,201 @@
+/**
+ * MissionGitService Unit Tests
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MissionGitService } from '../../../src/protocol/MissionGitService';
+import { MissionGitConfig } from '../../../src/types';
+import { createFilePath, createMissionId, createTaskId } from '../testUtils';
+
+const mission = createMissionId('3f2b8c1e-0000-4000-8000-000000000001');
+const task1 = createTaskId('task-1');
+const task2 = createTaskId('task-2');
+
+describe('MissionGitService', () => {
+  let root: string;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, { cwd: root, encoding: 'utf8' }).trim();
+  const write = (file: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+  const createService = (config: Partial<MissionGitConfig>): MissionGitService =>
+    new MissionGitService(createFilePath(root), undefined, { config });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'altercode-git-'));
+    git('init', '--quiet', '--initial-branch=main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    write('src/app.ts', 'export const app = 1;\n');
+    write('.gitignore', 'dist/\n');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'Initial commit');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should do nothing when disabled', async () => {
+    const service = createService({ mode: 'off' });
+
+    const result = await service.startMission(mission, 'Add logging');
+
+    expect(service.isEnabled()).toBe(false);
+    expect(result).toEqual({ ok: true, value: null });
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+  });
+
+  it('should refuse to start a mission with uncommitted edits', async () => {
+    const service = createService({ mode: 'branch' });
+    write('src/app.ts', 'export const app = 2;\n');
+
+    const result = await service.startMission(mission, 'Add logging');
+
+    expect(!result.ok && result.error.message).toContain('uncommitted changes');
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+  });
+
+  it('should start a mission next to untracked files', async () => {
+    const service = createService({ mode: 'branch' });
+    write('.altercode/altercode.db', 'data');
+
+    const result = await service.startMission(mission, 'Add logging');
+
+    expect(result.ok).toBe(true);
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('altercode/add-logging-3f2b8c1e');
+  });
+
+  describe('branch mode', () => {
+    let service: MissionGitService;
+
+    beforeEach(async () => {
+      service = createService({ mode: 'branch' });
+      const result = await service.startMission(mission, 'Add logging');
+      expect(result.ok).toBe(true);
+    });
+
+    it('should check out a branch named after the mission', async () => {
+      const result = await service.getBranch(mission);
+
+      expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('altercode/add-logging-3f2b8c1e');
+      expect(result.ok && result.value).toMatchObject({
+        branch: 'altercode/add-logging-3f2b8c1e',
+        baseBranch: 'main',
+        title: 'Add logging',
+      });
+    });
+
+    it('should commit the task files with the mission and task in the message', async () => {
+      write('src/app.ts', 'export const app = 2;\n');
+      write('src/log.ts', 'export const log = console.log;\n');
+      write('notes.txt', 'not part of the task\n');
+
+      const result = await service.commitTask(mission, task1, 'Add a logger\n\nLog every request', [
+        createFilePath(path.join(root, 'src/app.ts')),
+        createFilePath('src/log.ts'),
+      ]);
+
+      expect(result.ok && result.value).toMatchObject({ subject: 'Add a logger', taskId: task1 });
+      expect(git('log', '-1', '--format=%B')).toBe(
+        `Add a logger\n\nLog every request\n\nAlterCode-Mission: ${mission}\nAlterCode-Task: task-1`
+      );
+      expect(git('log', '-1', '--format=%an <%ae>')).toBe('AlterCode <altercode@localhost>');
+      expect(git('show', '--name-only', '--format=', 'HEAD').split('\n').sort()).toEqual(['src/app.ts', 'src/log.ts']);
+      expect(git('status', '--porcelain')).toBe('?? notes.txt');
+    });
+
+    it('should commit deletions and skip ignored or unchanged files', async () => {
+      fs.rmSync(path.join(root, 'src/app.ts'));
+      write('dist/app.js', 'built\n');
+
+      const deleted = await service.commitTask(mission, task1, 'Remove app', [
+        createFilePath('src/app.ts'),
+        createFilePath('dist/app.js'),
+      ]);
+      const unchanged = await service.commitTask(mission, task2, 'Nothing', [createFilePath('.gitignore')]);
+
+      expect(deleted.ok && deleted.value).toBeTruthy();
+      expect(git('show', '--name-status', '--format=', 'HEAD')).toBe('D\tsrc/app.ts');
+      expect(unchanged).toEqual({ ok: true, value: null });
+    });
+
+    it('should squash the task commits into one with the same tree', async () => {
+      write('src/a.ts', 'a\n');
+      await service.commitTask(mission, task1, 'Add a', [createFilePath('src/a.ts')]);
+      write('src/b.ts', 'b\n');
+      await service.commitTask(mission, task2, 'Add b', [createFilePath('src/b.ts')]);
+      const tree = git('rev-parse', 'HEAD^{tree}');
+
+      const result = await service.squash(mission);
+
+      expect(result.ok).toBe(true);
+      expect(git('rev-list', '--count', 'main..HEAD')).toBe('1');
+      expect(git('rev-parse', 'HEAD^{tree}')).toBe(tree);
+      expect(git('log', '-1', '--format=%B')).toBe(
+        `Add logging\n\n- Add a\n- Add b\n\nAlterCode-Mission: ${mission}\nAlterCode-Task: task-1\nAlterCode-Task: task-2`
+      );
+      expect(git('status', '--porcelain')).toBe('');
+    });
+
+    it('should describe the branch as a pull request', async () => {
+      write('src/a.ts', 'a\n');
+      await service.commitTask(mission, task1, 'Add a', [createFilePath('src/a.ts')]);
+
+      const result = await service.getPullRequest(mission);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toMatchObject({
+          branch: 'altercode/add-logging-3f2b8c1e',
+          baseBranch: 'main',
+          title: 'Add logging',
+          commits: [{ subject: 'Add a', taskId: task1 }],
+        });
+        expect(result.value.body).toContain('- A src/a.ts');
+        expect(result.value.body).toContain(`AlterCode-Mission: ${mission}`);
+      }
+    });
+
+    it('should drop the branch and keep the working tree when discarded', async () => {
+      write('src/a.ts', 'a\n');
+      await service.commitTask(mission, task1, 'Add a', [createFilePath('src/a.ts')]);
+      // Rollback has restored the files before the branch is discarded
+      fs.rmSync(path.join(root, 'src/a.ts'));
+      write('local.txt', 'uncommitted edit\n');
+
+      const result = await service.discardMission(mission);
+
+      expect(result.ok).toBe(true);
+      expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+      expect(git('branch', '--list', 'altercode/*')).toBe('');
+      expect(git('status', '--porcelain')).toBe('?? local.txt');
+    });
+
+    it('should find mission branches after a restart', async () => {
+      const restarted = createService({ mode: 'branch' });
+
+      const branches = await restarted.listBranches();
+      const resumed = await restarted.startMission(mission, 'Add logging');
+
+      expect(branches.ok && branches.value.map((b) => b.branch)).toEqual(['altercode/add-logging-3f2b8c1e']);
+      expect(resumed.ok && resumed.value).toMatchObject({ branch: 'altercode/add-logging-3f2b8c1e', baseBranch: 'main' });
+      expect(git('branch', '--list', 'altercode/*').split('\n')).toHaveLength(1);
+    });
+
+    it('should refuse to commit when another branch is checked out', async () => {
+      git('checkout', '--quiet', 'main');
+      write('src/a.ts', 'a\n');
+
+      const result = await service.commitTask(mission, task1, 'Add a', [createFilePath('src/a.ts')]);
+
+      expect(result.ok).toBe(false);
+      expect(git('rev-list', '--count', 'HEAD')).toBe('1');
+    });
+  });
+});
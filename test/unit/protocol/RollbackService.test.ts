@@ -0,0 +1,195 @@
+/**
+ * RollbackService Unit Tests
+ */
+
+import { RollbackService } from '../../../src/protocol/RollbackService';
+import { createBlobStore } from '../../../src/infrastructure/BlobStore';
+import { createInMemoryDatabase } from '../../../src/infrastructure/Database';
+import { createStorageManager } from '../../../src/infrastructure/StorageManager';
+import { createDefaultCache } from '../../../src/infrastructure/Cache';
+import { IDatabase, IBlobStore, RollbackRetention, DEFAULT_STORAGE_CONFIG } from '../../../src/types';
+import {
+  createMockFileSystem,
+  createFilePath,
+  createMissionId,
+  createTaskId,
+} from '../testUtils';
+
+const ROOT = createFilePath('/project');
+const BLOBS = createFilePath('/project/.altercode/snapshots/blobs');
+const mission = createMissionId('mission-1');
+
+/** Blob files written to the mock file system */
+const blobFiles = (fileSystem: ReturnType<typeof createMockFileSystem>): string[] =>
+  Array.from(fileSystem.files.keys()).filter((p) => p.startsWith(`${BLOBS}/`));
+
+describe('RollbackService', () => {
+  let fileSystem: ReturnType<typeof createMockFileSystem>;
+  let database: IDatabase;
+  let blobStore: IBlobStore;
+
+  /** Create a service over the shared database and blob store, as after a restart */
+  const createService = async (retention?: Partial<RollbackRetention>): Promise<RollbackService> => {
+    const service = new RollbackService(fileSystem, ROOT, undefined, { database, blobStore, retention });
+    const result = await service.initialize();
+    expect(result.ok).toBe(true);
+    return service;
+  };
+
+  beforeEach(async () => {
+    fileSystem = createMockFileSystem();
+    blobStore = createBlobStore(fileSystem, BLOBS);
+    database = createInMemoryDatabase();
+    const storage = createStorageManager(database, createDefaultCache(), DEFAULT_STORAGE_CONFIG);
+    expect((await storage.initialize()).ok).toBe(true);
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  describe('persistence', () => {
+    it('should restore history and contents after a restart', async () => {
+      fileSystem.files.set('/project/a.ts', 'original');
+      const first = await createService();
+      const point = await first.backup([createFilePath('/project/a.ts')], mission, createTaskId('task-1'));
+      expect(point.ok).toBe(true);
+      fileSystem.files.set('/project/a.ts', 'changed');
+
+      const reloaded = await createService();
+
+      expect(reloaded.listMissions()).toEqual([mission]);
+      expect(reloaded.getTaskHistory(createTaskId('task-1'))).toHaveLength(1);
+      const result = await reloaded.rollback(point.ok ? point.value.id : '');
+      expect(result.ok && result.value).toEqual(['/project/a.ts']);
+      expect(fileSystem.files.get('/project/a.ts')).toBe('original');
+    });
+
+    it('should restore contents after a restart without a blob store', async () => {
+      fileSystem.files.set('/project/a.ts', 'original');
+      const first = new RollbackService(fileSystem, ROOT, undefined, { database });
+      expect((await first.initialize()).ok).toBe(true);
+      const point = await first.backup([createFilePath('/project/a.ts')], mission);
+      fileSystem.files.set('/project/a.ts', 'changed');
+
+      const reloaded = new RollbackService(fileSystem, ROOT, undefined, { database });
+      expect((await reloaded.initialize()).ok).toBe(true);
+      const result = await reloaded.rollback(point.ok ? point.value.id : '');
+
+      expect(result.ok).toBe(true);
+      expect(fileSystem.files.get('/project/a.ts')).toBe('original');
+    });
+
+    it('should store identical content once', async () => {
+      fileSystem.files.set('/project/a.ts', 'same');
+      fileSystem.files.set('/project/b.ts', 'same');
+      const service = await createService();
+
+      await service.backup([createFilePath('/project/a.ts'), createFilePath('/project/b.ts')], mission);
+      await service.backup([createFilePath('/project/a.ts')], mission);
+
+      expect(blobFiles(fileSystem)).toHaveLength(1);
+      expect(service.getStats().totalSize).toBe(4);
+    });
+  });
+
+  describe('task and file history', () => {
+    it('should undo every change of a task', async () => {
+      fileSystem.files.set('/project/a.ts', 'v1');
+      const service = await createService();
+      const task = createTaskId('task-1');
+
+      await service.backup([createFilePath('/project/a.ts'), createFilePath('/project/new.ts')], mission, task);
+      fileSystem.files.set('/project/a.ts', 'v2');
+      fileSystem.files.set('/project/new.ts', 'created');
+      await service.backup([createFilePath('/project/a.ts')], mission, task);
+      fileSystem.files.set('/project/a.ts', 'v3');
+
+      const result = await service.rollbackTask(task);
+
+      expect(result.ok && result.value.sort()).toEqual(['/project/a.ts', '/project/new.ts']);
+      expect(fileSystem.files.get('/project/a.ts')).toBe('v1');
+      expect(fileSystem.files.has('/project/new.ts')).toBe(false);
+    });
+
+    it('should restore a file to a chosen point', async () => {
+      const path = createFilePath('/project/a.ts');
+      fileSystem.files.set('/project/a.ts', 'v1');
+      const service = await createService();
+      const first = await service.backup([path], mission);
+      fileSystem.files.set('/project/a.ts', 'v2');
+      await service.backup([path], mission);
+      fileSystem.files.set('/project/a.ts', 'v3');
+
+      expect(service.getFileHistory(path)).toHaveLength(2);
+
+      await service.restore(path, mission);
+      expect(fileSystem.files.get('/project/a.ts')).toBe('v2');
+
+      await service.restore(path, mission, first.ok ? first.value.id : undefined);
+      expect(fileSystem.files.get('/project/a.ts')).toBe('v1');
+    });
+  });
+
+  describe('prune', () => {
+    it('should keep every point of a running mission, however large', async () => {
+      const service = await createService({ maxTotalSize: 10 });
+
+      for (const content of ['aaaaaa', 'bbbbbb', 'cccccc']) {
+        fileSystem.files.set('/project/a.ts', content);
+        await service.backup([createFilePath('/project/a.ts')], mission);
+      }
+
+      expect(service.getHistory(mission)).toHaveLength(3);
+      expect(service.getStats().totalSize).toBe(18);
+    });
+
+    it('should drop the oldest points of finished missions when over the size limit', async () => {
+      const running = createMissionId('mission-2');
+      const service = await createService({ maxTotalSize: 10 });
+
+      fileSystem.files.set('/project/a.ts', 'aaaaaa');
+      await service.backup([createFilePath('/project/a.ts')], mission);
+      fileSystem.files.set('/project/b.ts', 'bbbbbb');
+      await service.backup([createFilePath('/project/b.ts')], mission);
+      fileSystem.files.set('/project/c.ts', 'cccccc');
+      await service.backup([createFilePath('/project/c.ts')], running);
+      expect((await service.finishMission(mission)).ok).toBe(true);
+
+      expect(service.getFileHistory(createFilePath('/project/a.ts'))).toEqual([]);
+      expect(service.getFileHistory(createFilePath('/project/b.ts'))).toEqual([]);
+      expect(service.getHistory(running)).toHaveLength(1);
+      expect(service.getStats().totalSize).toBe(6);
+      expect(blobFiles(fileSystem)).toHaveLength(1);
+    });
+
+    it('should expire old points of finished missions when history is loaded', async () => {
+      const running = createMissionId('mission-2');
+      fileSystem.files.set('/project/a.ts', 'v1');
+      const service = await createService();
+      await service.backup([createFilePath('/project/a.ts')], mission);
+      await service.backup([createFilePath('/project/a.ts')], running);
+      await service.finishMission(mission);
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 24 * 60 * 60 * 1000);
+      try {
+        const reloaded = await createService({ maxAge: 24 * 60 * 60 * 1000 });
+
+        expect(reloaded.listMissions()).toEqual([running]);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('should keep the points of a finished mission that runs again', async () => {
+      const service = await createService({ maxTotalSize: 1 });
+      await service.finishMission(mission);
+
+      fileSystem.files.set('/project/a.ts', 'retry');
+      await service.backup([createFilePath('/project/a.ts')], mission);
+
+      expect(service.getHistory(mission)).toHaveLength(1);
+      expect((await createService({ maxTotalSize: 1 })).getHistory(mission)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * ScopeGuardService Unit Tests
+ */
+
+import { ScopeGuardService } from '../../../src/protocol/ScopeGuardService';
+import { AgentActivityService } from '../../../src/execution/AgentActivityService';
+import { ActivityScopeViolationEvent, RelativePath } from '../../../src/types';
+import {
+  createMockEventBus,
+  createMockFileSystem,
+  createFilePath,
+  createMissionId,
+  createTaskId,
+} from '../testUtils';
+
+const ROOT = createFilePath('/project');
+const mission = createMissionId('mission-1');
+
+describe('ScopeGuardService', () => {
+  let eventBus: ReturnType<typeof createMockEventBus>;
+  let fileSystem: ReturnType<typeof createMockFileSystem>;
+  let service: ScopeGuardService;
+
+  /** Scope violations reported to the activity service */
+  const reported = (): ActivityScopeViolationEvent[] =>
+    eventBus.emittedEvents
+      .filter((e) => e.event === 'activity:scopeViolation')
+      .map((e) => e.payload as ActivityScopeViolationEvent);
+
+  beforeEach(() => {
+    eventBus = createMockEventBus();
+    fileSystem = createMockFileSystem();
+    (fileSystem.relative as jest.Mock).mockImplementation(
+      (from: string, to: string): RelativePath =>
+        (to.startsWith(`${from}/`) ? to.slice(from.length + 1) : `../${to}`) as RelativePath
+    );
+    service = new ScopeGuardService(fileSystem, ROOT, undefined, {
+      activityService: new AgentActivityService(eventBus),
+    });
+  });
+
+  describe('check', () => {
+    it('should match exclusions against the project-relative path', () => {
+      const violation = service.check({ type: 'write', path: createFilePath('/project/dist/out.js') });
+
+      expect(violation?.policy).toBe('exclusion_pattern');
+    });
+
+    it('should apply the mission policy', () => {
+      service.setPolicy(mission, { allowedPaths: ['src/**'] });
+
+      expect(service.check({ type: 'write', path: createFilePath('/project/src/a.ts'), missionId: mission })).toBeNull();
+      expect(
+        service.check({ type: 'write', path: createFilePath('/project/docs/a.md'), missionId: mission })?.policy
+      ).toBe('allowed_paths');
+    });
+  });
+
+  describe('enforce', () => {
+    it('should allow operations without a violation and report nothing', async () => {
+      const decision = await service.enforce(
+        { type: 'write', path: createFilePath('/project/src/a.ts'), missionId: mission },
+        { source: 'test' }
+      );
+
+      expect(decision).toEqual({ allowed: true, violation: null });
+      expect(reported()).toEqual([]);
+    });
+
+    it('should block hard violations without asking', async () => {
+      const confirm = jest.fn().mockResolvedValue(true);
+
+      const decision = await service.enforce(
+        { type: 'write', path: createFilePath('/project/.env'), missionId: mission },
+        { source: 'test', taskId: createTaskId('task-1'), confirm }
+      );
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.outcome).toBe('blocked');
+      expect(confirm).not.toHaveBeenCalled();
+      expect(reported()[0]?.violation).toMatchObject({
+        missionId: mission,
+        taskId: 'task-1',
+        source: 'test',
+        operation: 'write',
+        outcome: 'blocked',
+      });
+    });
+
+    it('should ask for confirmation and remember an approval', async () => {
+      const confirm = jest.fn().mockResolvedValue(true);
+      const operation = { type: 'delete' as const, path: createFilePath('/project/src/a.ts'), missionId: mission };
+
+      const first = await service.enforce(operation, { source: 'test', confirm });
+      const second = await service.enforce(operation, { source: 'other', confirm });
+
+      expect(first).toMatchObject({ allowed: true, outcome: 'approved' });
+      expect(second).toMatchObject({ allowed: true, outcome: 'approved' });
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(reported().map((e) => e.violation.outcome)).toEqual(['approved']);
+    });
+
+    it('should refuse confirmation when the caller cannot ask', async () => {
+      const decision = await service.enforce(
+        { type: 'delete', path: createFilePath('/project/src/a.ts'), missionId: mission },
+        { source: 'test' }
+      );
+
+      expect(decision).toMatchObject({ allowed: false, outcome: 'rejected' });
+      expect(reported()[0]?.violation.policy).toBe('requires_confirmation');
+    });
+
+    it('should forget approvals when the mission policy is cleared', async () => {
+      const confirm = jest.fn().mockResolvedValue(true);
+      const operation = { type: 'delete' as const, path: createFilePath('/project/src/a.ts'), missionId: mission };
+
+      await service.enforce(operation, { source: 'test', confirm });
+      service.clearPolicy(mission);
+      await service.enforce(operation, { source: 'test', confirm });
+
+      expect(confirm).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -6,6 +6,8 @@ import {
   VirtualBranchService,
   createVirtualBranchService,
 } from '../../../src/protocol/VirtualBranchService';
+import { SemanticAnalyzerService } from '../../../src/knowledge/SemanticAnalyzerService';
+import { ScopeGuardService } from '../../../src/protocol/ScopeGuardService';
 import { VirtualBranchId } from '../../../src/types';
 import { FileChange } from '../../../src/types/conflict';
 import {
@@ -339,6 +341,64 @@ describe('VirtualBranchService', () => {
     });
   });
 
+  describe('getConflictingFiles with semantic analyzer', () => {
+    const filePath = createFilePath('/src/format.ts');
+    const base = [
+      'export function formatDate(date: Date): string {',
+      '  return date.toISOString();',
+      '}',
+      '',
+      'export function formatName(name: string): string {',
+      '  return name.trim();',
+      '}',
+    ].join('\n');
+
+    /** Record a modification of the base in two new branches and get conflicting files */
+    const conflictsFor = async (ours: string, theirs: string): Promise<string[]> => {
+      const regionService = new VirtualBranchService(fileSystem, eventBus, undefined, {
+        semanticAnalyzer: new SemanticAnalyzerService(),
+      });
+      const result1 = await regionService.createBranch(createAgentId('agent-1'), createTaskId('task-1'));
+      const result2 = await regionService.createBranch(createAgentId('agent-2'), createTaskId('task-2'));
+      if (!result1.ok || !result2.ok) {
+        throw new Error('Failed to create branches');
+      }
+
+      for (const [branchId, content] of [[result1.value.id, ours], [result2.value.id, theirs]] as const) {
+        regionService.recordChange(branchId, {
+          filePath,
+          originalContent: base,
+          modifiedContent: content,
+          diff: '',
+          changeType: 'modify',
+        });
+      }
+
+      return regionService.getConflictingFiles(result1.value.id, result2.value.id);
+    };
+
+    it('should not report edits to different functions', async () => {
+      const ours = base.replace('date.toISOString()', 'date.toUTCString()');
+      const theirs = base.replace('name.trim()', 'name.trim().toUpperCase()');
+
+      expect(await conflictsFor(ours, theirs)).toEqual([]);
+    });
+
+    it('should report edits to the same function', async () => {
+      const ours = base.replace('date.toISOString()', 'date.toUTCString()');
+      const theirs = base.replace('(date: Date): string', '(date: Date | number): string');
+
+      expect(await conflictsFor(ours, theirs)).toEqual([filePath]);
+    });
+
+    it('should report declarations added at the same spot', async () => {
+      const ours = `${base}\n\nexport const A = 1;`;
+      const theirs = `${base}\n\nexport const B = 2;`;
+
+      expect(await conflictsFor(ours, theirs)).toEqual([filePath]);
+    });
+  });
+
   describe('mergeBranch', () => {
     it('should apply changes to filesystem', async () => {
       const agentId = createAgentId('agent-1');
@@ -410,6 +470,44 @@ describe('VirtualBranchService', () => {
       const mergeResult = await service.mergeBranch(result.value.id);
       expect(mergeResult.ok).toBe(false);
     });
+
+    it('should refuse the whole branch when a change violates the scope policy', async () => {
+      const guarded = new VirtualBranchService(fileSystem, eventBus, undefined, {
+        scopeGuard: new ScopeGuardService(fileSystem, createFilePath('/')),
+      });
+      const result = await guarded.createBranch(createAgentId('agent-1'), createTaskId('task-1'));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      guarded.recordChanges(result.value.id, [
+        {
+          filePath: createFilePath('/src/ok.ts'),
+          originalContent: null,
+          modifiedContent: 'ok',
+          diff: '',
+          changeType: 'create',
+        },
+        {
+          filePath: createFilePath('/src/.env'),
+          originalContent: null,
+          modifiedContent: 'SECRET=1',
+          diff: '',
+          changeType: 'create',
+        },
+      ]);
+
+      const mergeResult = await guarded.mergeBranch(result.value.id);
+
+      expect(mergeResult.ok).toBe(false);
+      if (!mergeResult.ok) {
+        expect(mergeResult.error.code).toBe('SCOPE_VIOLATION');
+        expect(mergeResult.error.message).toContain('/src/.env');
+        expect(mergeResult.error.message).not.toContain('/src/ok.ts');
+      }
+      expect(fileSystem.writeFile).not.toHaveBeenCalled();
+      expect(guarded.getBranch(result.value.id)!.status).toBe('active');
+      guarded.dispose();
+    });
   });
 
   describe('abandonBranch', () => {
@@ -0,0 +1,126 @@
+/**
+ * Diff3 Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { diffLines, diff3Merge, mergeTexts } from '../../../src/utils/Diff3';
+
+const FIXTURES = path.join(__dirname, '../../fixtures/diff3');
+
+/** Read base/ours/theirs/merged of a fixture */
+const loadFixture = (name: string): Record<'base' | 'ours' | 'theirs' | 'merged', string> => {
+  const read = (file: string): string => fs.readFileSync(path.join(FIXTURES, name, `${file}.txt`), 'utf8');
+  return { base: read('base'), ours: read('ours'), theirs: read('theirs'), merged: read('merged') };
+};
+
+/** Apply hunks to base lines */
+const applyHunks = (base: string[], hunks: ReturnType<typeof diffLines>): string[] => {
+  const out: string[] = [];
+  let pos = 0;
+  for (const hunk of hunks) {
+    out.push(...base.slice(pos, hunk.baseStart), ...hunk.lines);
+    pos = hunk.baseEnd;
+  }
+  return [...out, ...base.slice(pos)];
+};
+
+describe('Diff3', () => {
+  describe('diffLines', () => {
+    it('should return no hunks for identical input', () => {
+      expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual([]);
+    });
+
+    it('should align around inserted lines instead of shifting', () => {
+      const hunks = diffLines(['a', 'b', 'c'], ['x', 'a', 'b', 'c']);
+
+      expect(hunks).toEqual([{ baseStart: 0, baseEnd: 0, lines: ['x'] }]);
+    });
+
+    it('should produce hunks that rebuild the other side', () => {
+      const base = ['a', 'b', 'c', 'a', 'b', 'b', 'a'];
+      const side = ['c', 'b', 'a', 'b', 'a', 'c'];
+
+      const hunks = diffLines(base, side);
+
+      expect(applyHunks(base, hunks)).toEqual(side);
+      // LCS of the classic Myers example has length 4
+      const removed = hunks.reduce((sum, h) => sum + h.baseEnd - h.baseStart, 0);
+      expect(base.length - removed).toBe(4);
+    });
+  });
+
+  describe('diff3Merge', () => {
+    it('should merge changes to adjacent lines', () => {
+      const regions = diff3Merge(['1', '2', '3'], ['1', 'two', '3'], ['1', '2', 'three']);
+
+      expect(regions).toEqual([{ kind: 'stable', lines: ['1', 'two', 'three'] }]);
+    });
+
+    it('should conflict when both sides insert at the same point', () => {
+      const regions = diff3Merge(['a', 'b'], ['a', 'x', 'b'], ['a', 'y', 'b']);
+
+      expect(regions).toEqual([
+        { kind: 'stable', lines: ['a'] },
+        { kind: 'conflict', base: [], ours: ['x'], theirs: ['y'] },
+        { kind: 'stable', lines: ['b'] },
+      ]);
+    });
+
+    it('should take a change made only on one side', () => {
+      const regions = diff3Merge(['a', 'b'], ['a', 'b'], ['a', 'c']);
+
+      expect(regions).toEqual([{ kind: 'stable', lines: ['a', 'c'] }]);
+    });
+  });
+
+  describe('mergeTexts fixtures', () => {
+    it.each(['shifted-lines', 'import-additions', 'identical-change'])(
+      'should merge %s cleanly',
+      (name) => {
+        const fixture = loadFixture(name);
+
+        const result = mergeTexts(fixture.base, fixture.ours, fixture.theirs);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.content).toBe(fixture.merged);
+      }
+    );
+
+    it.each(['overlapping-edit', 'delete-vs-edit'])(
+      'should write diff3 conflict markers for %s',
+      (name) => {
+        const fixture = loadFixture(name);
+
+        const result = mergeTexts(fixture.base, fixture.ours, fixture.theirs);
+
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.content).toBe(fixture.merged);
+      }
+    );
+
+    it('should report conflict section positions', () => {
+      const fixture = loadFixture('overlapping-edit');
+      const result = mergeTexts(fixture.base, fixture.ours, fixture.theirs);
+      const lines = result.content.split('\n');
+      const [conflict] = result.conflicts;
+
+      expect(conflict).toBeDefined();
+      if (conflict) {
+        expect(lines[conflict.startLine - 1]).toBe('<<<<<<< ours');
+        expect(lines[conflict.oursStart - 1]).toContain('toFixed(2)');
+        expect(lines[conflict.baseStart - 2]).toBe('||||||| base');
+        expect(lines[conflict.theirsEnd - 1]).toContain('Intl.NumberFormat');
+        expect(lines[conflict.endLine - 1]).toBe('>>>>>>> theirs');
+      }
+    });
+
+    it('should use custom labels', () => {
+      const result = mergeTexts('a', 'b', 'c', { ours: 'agent-1', base: 'original', theirs: 'agent-2' });
+
+      expect(result.content).toBe(
+        ['<<<<<<< agent-1', 'b', '||||||| original', 'a', '=======', 'c', '>>>>>>> agent-2'].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * ProcessTree Unit Tests
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { killProcessTree } from '../../../src/utils/ProcessTree';
+
+describe('killProcessTree', () => {
+  /** Spawn a group leader that exits at once and wait for it */
+  const spawnExited = async (): Promise<ChildProcess> => {
+    const proc = spawn(process.execPath, ['-e', ''], { detached: true, stdio: 'ignore' });
+    await new Promise((resolve) => proc.on('close', resolve));
+    // The delayed SIGKILL must not reach a real group
+    jest.useFakeTimers();
+    return proc;
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should signal the group even after the leader exited', async () => {
+    const proc = await spawnExited();
+    const kill = jest.spyOn(process, 'kill').mockReturnValue(true);
+
+    killProcessTree(proc);
+
+    expect(kill).toHaveBeenCalledWith(-proc.pid!, 'SIGTERM');
+  });
+
+  it('should ignore a group that is already gone', async () => {
+    const proc = await spawnExited();
+    jest.spyOn(process, 'kill').mockImplementation(() => {
+      throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+    });
+    const killLeader = jest.spyOn(proc, 'kill');
+
+    expect(() => killProcessTree(proc)).not.toThrow();
+    expect(killLeader).not.toHaveBeenCalled();
+  });
+});
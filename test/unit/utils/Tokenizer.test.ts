@@ -0,0 +1,62 @@
+/**
+ * Tokenizer Unit Tests
+ */
+
+import { createTokenizer, tokenizerFamilyFor } from '../../../src/utils/Tokenizer';
+
+describe('Tokenizer', () => {
+  const prose = 'The quick brown fox jumps over the lazy dog.';
+  const code = 'function add(a, b) {\n  return a + b;\n}\n';
+  const query = 'const users = await db.query<User>("SELECT * FROM users WHERE id = ?", [userId]);';
+
+  describe('openai', () => {
+    const tokenizer = createTokenizer('openai');
+
+    it('should match cl100k_base counts for prose', () => {
+      expect(tokenizer.count('hello world')).toBe(2);
+      expect(tokenizer.count('Hello, world!')).toBe(4);
+      expect(tokenizer.count(prose)).toBe(10);
+      expect(tokenizer.count('日本語のテキスト')).toBe(8);
+    });
+
+    it('should match cl100k_base counts for code', () => {
+      expect(tokenizer.count(code)).toBe(14);
+      expect(tokenizer.count(query)).toBe(19);
+      expect(tokenizer.count('loadUserProfileSettings')).toBe(3);
+    });
+
+    it('should count special tokens in content as text', () => {
+      expect(tokenizer.count('<|endoftext|>')).toBe(7);
+      expect(tokenizer.count('')).toBe(0);
+    });
+  });
+
+  describe('claude', () => {
+    const tokenizer = createTokenizer('claude');
+
+    it('should match the Claude tokenizer counts for prose', () => {
+      expect(tokenizer.count('hello world')).toBe(2);
+      expect(tokenizer.count(prose)).toBe(10);
+      expect(tokenizer.count('日本語のテキスト')).toBe(8);
+    });
+
+    it('should match the Claude tokenizer counts for code', () => {
+      expect(tokenizer.count(code)).toBe(17);
+      expect(tokenizer.count(query)).toBe(23);
+      expect(tokenizer.count('HTTPServer')).toBe(1);
+    });
+
+    it('should normalize the text and count special tokens as text', () => {
+      expect(tokenizer.count('ﬁle')).toBe(1);
+      expect(tokenizer.count('<EOT>')).toBe(4);
+    });
+  });
+
+  describe('tokenizerFamilyFor', () => {
+    it('should use the Claude tokenizer by default', () => {
+      expect(tokenizerFamilyFor()).toBe('claude');
+      expect(tokenizerFamilyFor('claude-sonnet-4')).toBe('claude');
+      expect(tokenizerFamilyFor('gpt-4o')).toBe('openai');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * TestRunnerService Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestRunnerService } from '../../../src/verification/TestRunnerService';
+import { ISemanticIndexService } from '../../../src/types';
+
+// Mock semantic index with the given importers per file
+function createMockSemanticIndex(importers: Record<string, string[]> = {}): ISemanticIndexService {
+  return {
+    getImporters: jest.fn((file: string) => importers[file] ?? []),
+  } as unknown as ISemanticIndexService;
+}
+
+describe('TestRunnerService', () => {
+  const math = 'exports.add = (a, b) => a + b;\n';
+  const total = "const { add } = require('./math');\nexports.total = (values) => values.reduce(add, 0);\n";
+  const totalTest = [
+    "const test = require('node:test');",
+    "const assert = require('node:assert');",
+    "const { total } = require('../src/total');",
+    '',
+    "test('sums values', () => {",
+    '  assert.strictEqual(total([1, 2, 3]), 6);',
+    '});',
+  ].join('\n');
+  const unrelatedTest = [
+    "const test = require('node:test');",
+    '',
+    "test('always fails', () => {",
+    "  throw new Error('should not run');",
+    '});',
+  ].join('\n');
+
+  let projectRoot: string;
+
+  const write = (file: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  };
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'altercode-testrunner-'));
+    write('package.json', JSON.stringify({ name: 'fixture', scripts: { test: 'node --test' } }));
+    write('src/math.js', math);
+    write('src/total.js', total);
+    write('test/total.test.js', totalTest);
+    write('test/unrelated.test.js', unrelatedTest);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should report failing tests related through the import graph', async () => {
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex({ 'src/math.js': ['src/total.js'] }));
+
+    const result = await runner.run([{ path: 'src/math.js', type: 'modify', content: 'exports.add = (a, b) => a - b;\n' }]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.runners).toEqual(['node']);
+    expect(result.value.testFiles).toEqual(['test/total.test.js']);
+    expect(result.value.failed).toBe(1);
+    expect(result.value.issues).toEqual([
+      expect.objectContaining({
+        type: 'test',
+        severity: 'error',
+        location: expect.objectContaining({ file: 'test/total.test.js', line: 5 }),
+      }),
+    ]);
+    expect(result.value.issues[0]!.message).toContain('sums values');
+    expect(result.value.issues[0]!.message).toContain('-6 !== 6');
+    expect(fs.readFileSync(path.join(projectRoot, 'src/math.js'), 'utf8')).toBe(math);
+  });
+
+  it('should pass when related tests pass with the changes', async () => {
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex());
+
+    const result = await runner.run([
+      { path: 'src/total.js', type: 'modify', content: `${total}exports.count = (values) => values.length;\n` },
+    ]);
+
+    expect(result.ok && result.value).toMatchObject({ testFiles: ['test/total.test.js'], passed: 1, failed: 0, issues: [] });
+  });
+
+  it('should run changed test files', async () => {
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex());
+
+    const result = await runner.run([
+      { path: 'test/total.test.js', type: 'modify', content: totalTest.replace('6);', '7);') },
+    ]);
+
+    expect(result.ok && result.value.failed).toBe(1);
+  });
+
+  it('should not pass credentials from the environment to tests', async () => {
+    process.env.ALTERCODE_TEST_API_KEY = 'secret';
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex());
+
+    try {
+      const result = await runner.run([
+        {
+          path: 'test/total.test.js',
+          type: 'modify',
+          content: totalTest.replace('6);', '6);\n  assert.strictEqual(process.env.ALTERCODE_TEST_API_KEY, undefined);'),
+        },
+      ]);
+
+      expect(result.ok && result.value).toMatchObject({ passed: 1, failed: 0 });
+    } finally {
+      delete process.env.ALTERCODE_TEST_API_KEY;
+    }
+  });
+
+  it('should skip build output at the package root only', async () => {
+    write('src/build/steps.js', 'exports.steps = 3;\n');
+    write('src/build/steps.test.js', [
+      "const test = require('node:test');",
+      "const assert = require('node:assert');",
+      "const { steps } = require('./steps');",
+      '',
+      "test('counts steps', () => assert.strictEqual(steps, 3));",
+    ].join('\n'));
+    write('dist/total.test.js', unrelatedTest);
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex());
+
+    const result = await runner.run([{ path: 'src/build/steps.js', type: 'modify', content: 'exports.steps = 4;\n' }]);
+
+    expect(result.ok && result.value).toMatchObject({ testFiles: ['src/build/steps.test.js'], failed: 1 });
+  });
+
+  it('should not run tests when no runner is detected', async () => {
+    write('package.json', JSON.stringify({ name: 'fixture' }));
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex());
+
+    const result = await runner.run([{ path: 'src/total.js', type: 'modify', content: 'broken(' }]);
+
+    expect(result.ok && result.value).toMatchObject({ runners: [], testFiles: [], issues: [] });
+  });
+
+  it('should report a failing run without test results', async () => {
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex());
+
+    const result = await runner.run([{ path: 'src/total.js', type: 'modify', content: 'exports.total = ;' }]);
+
+    expect(result.ok && result.value.issues).toEqual([
+      expect.objectContaining({ type: 'test', severity: 'error' }),
+    ]);
+  });
+
+  it('should stop a run that does not finish in time', async () => {
+    write('test/total.test.js', [
+      "const { spawn } = require('child_process');",
+      "const test = require('node:test');",
+      "require('../src/total');",
+      '',
+      "test('hangs', () => {",
+      "  spawn(process.execPath, ['-e', 'setTimeout(() => {}, 8000)'], { stdio: 'inherit' });",
+      '  return new Promise(() => setInterval(() => {}, 1000));',
+      '});',
+    ].join('\n'));
+    const runner = new TestRunnerService(projectRoot, createMockSemanticIndex(), undefined, { timeoutMs: 1000 });
+    const startTime = Date.now();
+
+    const result = await runner.run([{ path: 'src/total.js', type: 'modify', content: total }]);
+
+    expect(Date.now() - startTime).toBeLessThan(6000);
+    expect(result.ok && result.value.issues).toEqual([
+      expect.objectContaining({ message: expect.stringContaining('did not finish within 1s') }),
+    ]);
+  });
+});
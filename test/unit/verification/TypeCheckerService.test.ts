@@ -0,0 +1,122 @@
+/**
+ * TypeCheckerService Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TypeCheckerService } from '../../../src/verification/TypeCheckerService';
+
+describe('TypeCheckerService', () => {
+  const names = [
+    'export function formatName(first: string, last: string): string {',
+    '  return `${first} ${last}`;',
+    '}',
+  ].join('\n');
+  const greet = [
+    "import { formatName } from './names';",
+    '',
+    "export const greeting = formatName('Ada', 'Lovelace');",
+  ].join('\n');
+
+  let projectRoot: string;
+  let checker: TypeCheckerService;
+
+  const write = (file: string, content: string): void => {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  };
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'altercode-typecheck-'));
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true, target: 'ES2020', module: 'commonjs', lib: ['ES2020'] }, include: ['src'] }));
+    write('src/names.ts', names);
+    write('src/greet.ts', greet);
+    // The project's own TypeScript install is used
+    fs.mkdirSync(path.join(projectRoot, 'node_modules'));
+    fs.symlinkSync(path.dirname(require.resolve('typescript/package.json')), path.join(projectRoot, 'node_modules', 'typescript'), 'dir');
+    checker = new TypeCheckerService(projectRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should report type errors in changed files without writing them', async () => {
+    const content = `${greet}\nexport const count: number = greeting;\n`;
+
+    const result = await checker.check([{ path: 'src/greet.ts', type: 'modify', content }]);
+
+    expect(result.ok && result.value).toEqual([
+      expect.objectContaining({
+        type: 'compile',
+        code: 'TS2322',
+        severity: 'error',
+        location: expect.objectContaining({ file: 'src/greet.ts', line: 4, column: 14 }),
+      }),
+    ]);
+    expect(fs.readFileSync(path.join(projectRoot, 'src/greet.ts'), 'utf8')).toBe(greet);
+  });
+
+  it('should report syntax errors', async () => {
+    const result = await checker.check([{ path: 'src/added.ts', type: 'create', content: 'export const x = ;' }]);
+
+    expect(result.ok && result.value.map((i) => i.code)).toEqual(['TS1109']);
+  });
+
+  it('should report errors the changes cause in importing files', async () => {
+    const result = await checker.check([
+      { path: 'src/names.ts', type: 'modify', content: names.replace(', last: string', ', last: string, title: string') },
+    ]);
+
+    expect(result.ok && result.value).toEqual([
+      expect.objectContaining({ code: 'TS2554', location: expect.objectContaining({ file: path.join('src', 'greet.ts') }) }),
+    ]);
+  });
+
+  it('should report imports of deleted files', async () => {
+    const result = await checker.check([{ path: 'src/names.ts', type: 'delete' }]);
+
+    expect(result.ok && result.value.map((i) => i.code)).toEqual(['TS2307']);
+  });
+
+  it('should ignore errors that exist before the changes', async () => {
+    write('src/broken.ts', 'export const broken: number = "text";');
+
+    const result = await checker.check([
+      { path: 'src/broken.ts', type: 'modify', content: '// Unrelated edit\nexport const broken: number = "text";' },
+    ]);
+
+    expect(result.ok && result.value).toEqual([]);
+  });
+
+  it('should list current diagnostics of a file or the whole project', async () => {
+    write('src/broken.ts', 'export const broken: number = "text";');
+
+    const file = await checker.getDiagnostics(['src/greet.ts']);
+    const project = await checker.getDiagnostics();
+
+    expect(file.ok && file.value).toEqual([]);
+    expect(project.ok && project.value).toEqual([
+      expect.objectContaining({ code: 'TS2322', location: expect.objectContaining({ file: path.join('src', 'broken.ts'), line: 1 }) }),
+    ]);
+  });
+
+  it('should skip projects without a tsconfig.json', async () => {
+    fs.rmSync(path.join(projectRoot, 'tsconfig.json'));
+
+    const result = await checker.check([{ path: 'src/greet.ts', type: 'modify', content: 'export const x = ;' }]);
+
+    expect(result.ok && result.value).toEqual([]);
+  });
+
+  it('should skip projects without TypeScript installed', async () => {
+    fs.rmSync(path.join(projectRoot, 'node_modules'), { recursive: true });
+
+    const result = await checker.check([{ path: 'src/greet.ts', type: 'modify', content: 'export const x = ;' }]);
+    const diagnostics = await checker.getDiagnostics();
+
+    expect(result.ok && result.value).toEqual([]);
+    expect(!diagnostics.ok && diagnostics.error.message).toBe('TypeScript is not installed in the project');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * VerificationPipelineService Unit Tests
+ */
+
+import { VerificationPipelineService } from '../../../src/verification/VerificationPipelineService';
+import {
+  IFileValidatorService,
+  ISymbolResolverService,
+  IAPICheckerService,
+  IDependencyVerifierService,
+  ITypeCheckerService,
+  ITestRunnerService,
+  FileValidationRequest,
+  SymbolResolutionRequest,
+  APIValidationRequest,
+  DependencyValidationRequest,
+  VerificationRequest,
+  Ok,
+} from '../../../src/types';
+
+const changedFile = [
+  "import { readFile } from 'fs';",
+  "import { formatName, Missing } from './names';",
+  "import type { Options } from './options';",
+  '',
+  'export function greet(options: Options): string {',
+  '  return formatName(options.name, readFile);',
+  '}',
+].join('\n');
+
+describe('VerificationPipelineService', () => {
+  let fileValidator: jest.Mocked<IFileValidatorService>;
+  let symbolResolver: jest.Mocked<ISymbolResolverService>;
+  let apiChecker: jest.Mocked<IAPICheckerService>;
+  let dependencyVerifier: jest.Mocked<IDependencyVerifierService>;
+  let pipeline: VerificationPipelineService;
+
+  beforeEach(() => {
+    fileValidator = {
+      validate: jest.fn((request: FileValidationRequest) =>
+        Promise.resolve(Ok(request.paths.map((path) => ({ path, valid: true, exists: true }))))),
+      exists: jest.fn(() => true),
+      isFile: jest.fn(() => true),
+      isDirectory: jest.fn(() => false),
+      suggestCorrection: jest.fn(() => []),
+    } as unknown as jest.Mocked<IFileValidatorService>;
+
+    symbolResolver = {
+      resolve: jest.fn((request: SymbolResolutionRequest) =>
+        Promise.resolve(Ok(request.symbols.map((reference) => ({
+          reference,
+          resolved: reference.name !== 'Missing',
+        }))))),
+      exists: jest.fn((name: string) => name === 'formatName'),
+      suggest: jest.fn(() => []),
+    } as unknown as jest.Mocked<ISymbolResolverService>;
+
+    apiChecker = {
+      validate: jest.fn((request: APIValidationRequest) =>
+        Promise.resolve(Ok(request.calls.map((call) => ({
+          call,
+          valid: true,
+          functionExists: true,
+          signatureMatch: true,
+          argumentErrors: [],
+        }))))),
+      getSignature: jest.fn(() => null),
+    } as unknown as jest.Mocked<IAPICheckerService>;
+
+    dependencyVerifier = {
+      validate: jest.fn((request: DependencyValidationRequest) =>
+        Promise.resolve(Ok(request.imports.map((imp) => ({
+          import: imp,
+          valid: true,
+          moduleExists: true,
+          isInstalled: true,
+          exportsExist: true,
+          missingExports: [],
+        }))))),
+    } as unknown as jest.Mocked<IDependencyVerifierService>;
+
+    pipeline = new VerificationPipelineService(
+      fileValidator,
+      symbolResolver,
+      apiChecker,
+      dependencyVerifier
+    );
+  });
+
+  const changesRequest = (level: VerificationRequest['level']): VerificationRequest => ({
+    phase: 'post-generation',
+    content: {
+      type: 'changes',
+      changes: [
+        { path: '/project/src/greet.ts', type: 'create', content: changedFile },
+        { path: '/project/src/old.ts', type: 'delete' },
+      ],
+    },
+    options: { strictness: 'standard' },
+    level,
+  });
+
+  describe('verify with changes', () => {
+    it('should check files, symbols, calls and imports extracted from changed content', async () => {
+      const result = await pipeline.verify(changesRequest('thorough'));
+
+      expect(result.ok).toBe(true);
+
+      expect(fileValidator.validate).toHaveBeenCalledWith(
+        expect.objectContaining({ paths: ['/project/src/greet.ts'] })
+      );
+
+      const symbolRequest = symbolResolver.resolve.mock.calls[0]?.[0];
+      expect(symbolRequest?.symbols.map((s) => s.name)).toEqual(['formatName', 'Missing']);
+      expect(symbolRequest?.contextFile).toBe('/project/src/greet.ts');
+
+      const apiRequest = apiChecker.validate.mock.calls[0]?.[0];
+      expect(apiRequest?.calls.map((c) => c.name)).toEqual(['formatName']);
+      expect(apiRequest?.calls[0]?.arguments).toHaveLength(2);
+
+      const depRequest = dependencyVerifier.validate.mock.calls[0]?.[0];
+      expect(depRequest?.imports.map((i) => i.source)).toEqual(['fs', './names', './options']);
+    });
+
+    it('should report issues against the changed file', async () => {
+      const result = await pipeline.verify(changesRequest('standard'));
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.valid).toBe(false);
+        expect(result.value.issues).toEqual([
+          expect.objectContaining({
+            type: 'symbol',
+            severity: 'error',
+            location: { file: '/project/src/greet.ts' },
+          }),
+        ]);
+        expect(result.value.stats?.filesChecked).toBe(1);
+      }
+    });
+
+    it('should skip deleted files', async () => {
+      await pipeline.verify(changesRequest('quick'));
+
+      const paths = fileValidator.validate.mock.calls.flatMap(([request]) => request.paths);
+      expect(paths).not.toContain('/project/src/old.ts');
+    });
+
+    it('should type check the whole change set at the standard and thorough levels', async () => {
+      const typeChecker: ITypeCheckerService = {
+        check: jest.fn(() => Promise.resolve(Ok([{
+          type: 'compile' as const,
+          code: 'TS2345',
+          severity: 'error' as const,
+          message: "Argument of type 'number' is not assignable to parameter of type 'string'.",
+          location: { file: '/project/src/greet.ts' },
+        }]))),
+        getDiagnostics: jest.fn(() => Promise.resolve(Ok([]))),
+      };
+      pipeline = new VerificationPipelineService(
+        fileValidator,
+        symbolResolver,
+        apiChecker,
+        dependencyVerifier,
+        undefined,
+        { typeChecker }
+      );
+
+      const standard = await pipeline.verify(changesRequest('standard'));
+      await pipeline.verify(changesRequest('quick'));
+
+      expect(typeChecker.check).toHaveBeenCalledTimes(1);
+      expect(typeChecker.check).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ path: '/project/src/old.ts' })]),
+        undefined
+      );
+      expect(standard.ok && standard.value.issues?.map((i) => i.code)).toContain('TS2345');
+    });
+
+    it('should fail thorough verification when related tests fail', async () => {
+      const testRunner: ITestRunnerService = {
+        run: jest.fn(() => Promise.resolve(Ok({
+          runners: ['jest' as const],
+          testFiles: ['test/greet.test.ts'],
+          passed: 2,
+          failed: 1,
+          issues: [{
+            type: 'test' as const,
+            code: 'TEST_FAILED',
+            severity: 'error' as const,
+            message: 'Test failed: greet formats the name\nExpected: "Ada" Received: "ada"',
+            location: { file: 'test/greet.test.ts' },
+          }],
+          duration: 100,
+        }))),
+      };
+      pipeline = new VerificationPipelineService(
+        fileValidator,
+        symbolResolver,
+        apiChecker,
+        dependencyVerifier,
+        undefined,
+        { testRunner }
+      );
+
+      await pipeline.verify(changesRequest('standard'));
+      const thorough = await pipeline.verify(changesRequest('thorough'));
+
+      expect(testRunner.run).toHaveBeenCalledTimes(1);
+      expect(thorough.ok && thorough.value.valid).toBe(false);
+      expect(thorough.ok && thorough.value.issues?.map((i) => i.type)).toContain('test');
+    });
+  });
+});
@@ -1,12 +1,12 @@
 /**
  * Chat Section
- * Chat interface with agent roles, inline approvals, and typing indicator
+ * Chat interface with agent roles, inline approvals, typing indicator, and conversation memory
  */
 
 import React from 'react';
-import { useChatMessages, useApp, useHierarchyStatus } from '../../context/AppContext';
+import { useChatMessages, useChatMemory, useApp, useHierarchyStatus } from '../../context/AppContext';
 import { actions } from '../../hooks/useVSCodeAPI';
-import { ChatMessage, AgentLevel } from '../../types';
+import { ChatMessage, ChatMemory, ChatSummary, AgentLevel } from '../../types';
 
 interface ChatSectionProps {
   active: boolean;
@@ -108,8 +108,113 @@ function ChatMessageItem({ msg }: { msg: ChatMessage }) {
   );
 }
 
+// Editable list fields of the chat summary
+const SUMMARY_LISTS: Array<{ key: 'decisions' | 'facts' | 'actions' | 'pending'; label: string }> = [
+  { key: 'decisions', label: 'Decisions' },
+  { key: 'facts', label: 'Facts' },
+  { key: 'actions', label: 'Completed' },
+  { key: 'pending', label: 'Pending' },
+];
+
+// All fields shown in the summary editor
+const SUMMARY_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'currentFocus', label: 'Current focus' },
+  { key: 'earlierRequests', label: 'Earlier requests' },
+  ...SUMMARY_LISTS,
+];
+
+// Summary of older turns, viewable and editable (one list item per line)
+function ChatMemoryPanel({ memory }: { memory: ChatMemory }) {
+  const [editing, setEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState<Record<string, string>>({});
+  const summary = memory.summary;
+
+  const startEdit = () => {
+    setDraft({
+      currentFocus: summary?.currentFocus || '',
+      earlierRequests: summary?.earlierRequests || '',
+      ...Object.fromEntries(SUMMARY_LISTS.map(({ key }) => [key, (summary?.[key] || []).join('\n')])),
+    });
+    setEditing(true);
+  };
+
+  const save = () => {
+    const lines = (key: string) => (draft[key] || '').split('\n').filter((line) => line.trim());
+    const edited: ChatSummary = {
+      currentFocus: draft.currentFocus || '',
+      earlierRequests: draft.earlierRequests || '',
+      decisions: lines('decisions'),
+      facts: lines('facts'),
+      actions: lines('actions'),
+      pending: lines('pending'),
+    };
+    actions.updateChatSummary(edited);
+    setEditing(false);
+  };
+
+  return (
+    <div className="chat-memory">
+      <div className="chat-memory-header">
+        <span className="chat-memory-title">
+          Memory: {memory.messages} recent, {memory.compressedMessages} summarized
+          ({memory.historyTokens}/{memory.historyBudget} tokens)
+        </span>
+        {editing ? (
+          <span className="inline-approval-actions">
+            <button className="action-btn primary" onClick={save}>Save</button>
+            <button className="action-btn" onClick={() => setEditing(false)}>Cancel</button>
+          </span>
+        ) : (
+          <button className="action-btn" onClick={startEdit}>Edit</button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="chat-memory-body">
+          {SUMMARY_FIELDS.map(({ key, label }) => (
+            <label key={key} className="chat-memory-field">
+              <span className="chat-memory-label">{label}</span>
+              <textarea
+                className="config-input chat-memory-input"
+                value={draft[key] || ''}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              />
+            </label>
+          ))}
+        </div>
+      ) : summary ? (
+        <div className="chat-memory-body">
+          {summary.currentFocus && (
+            <div className="chat-memory-field">
+              <span className="chat-memory-label">Current focus</span>
+              <div className="chat-memory-text">{summary.currentFocus}</div>
+            </div>
+          )}
+          {summary.earlierRequests && (
+            <div className="chat-memory-field">
+              <span className="chat-memory-label">Earlier requests</span>
+              <div className="chat-memory-text">{summary.earlierRequests}</div>
+            </div>
+          )}
+          {SUMMARY_LISTS.filter(({ key }) => summary[key].length > 0).map(({ key, label }) => (
+            <div key={key} className="chat-memory-field">
+              <span className="chat-memory-label">{label}</span>
+              <ul className="chat-memory-list">
+                {summary[key].map((item, i) => (
+                  <li key={i}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
 export function ChatSection({ active }: ChatSectionProps) {
   const messages = useChatMessages();
+  const memory = useChatMemory();
   const { dispatch } = useApp();
   const hierarchyStatus = useHierarchyStatus();
   const messagesRef = React.useRef<HTMLDivElement>(null);
@@ -123,6 +228,7 @@ export function ChatSection({ active }: ChatSectionProps) {
 
   const handleClear = () => {
     dispatch({ type: 'CLEAR_CHAT' });
+    actions.clearChat();
   };
 
   const activeLevel = hierarchyStatus.activeLevel || 'sovereign';
@@ -139,6 +245,7 @@ export function ChatSection({ active }: ChatSectionProps) {
         </div>
       </div>
       <div className="section-body" ref={messagesRef}>
+        {memory && memory.messages + memory.compressedMessages > 0 && <ChatMemoryPanel memory={memory} />}
         {messages.length === 0 && !hierarchyStatus.isExecuting ? (
           <div className="empty-state">
             <div className="empty-state-title">No messages yet</div>
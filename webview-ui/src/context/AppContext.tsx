@@ -7,6 +7,7 @@ import React, { createContext, useContext, useReducer, useEffect, ReactNode } fr
 import {
   AppState,
   ChatMessage,
+  ChatMemory,
   Mission,
   Activity,
   AgentNode,
@@ -37,6 +38,7 @@ const defaultHierarchyStatus: HierarchyStatus = {
 const initialState: AppState = {
   activeMissions: [],
   chatMessages: [],
+  chatMemory: null,
   activities: [],
   agents: null,
   quota: null,
@@ -54,6 +56,7 @@ type Action =
   | { type: 'STATE_UPDATE'; payload: Partial<AppState> }
   | { type: 'SETTINGS_UPDATE'; payload: Settings }
   | { type: 'CHAT_MESSAGE'; payload: ChatMessage }
+  | { type: 'CHAT_MEMORY_UPDATE'; payload: ChatMemory }
   | { type: 'MISSION_CREATED'; payload: Mission }
   | { type: 'PROGRESS_UPDATE'; payload: { missionId: string; progress: MissionProgress } }
   | { type: 'AGENT_UPDATE'; payload: AgentNode }
@@ -79,6 +82,9 @@ function reducer(state: AppState, action: Action): AppState {
     case 'CHAT_MESSAGE':
       return { ...state, chatMessages: [...state.chatMessages, action.payload] };
 
+    case 'CHAT_MEMORY_UPDATE':
+      return { ...state, chatMemory: action.payload };
+
     case 'MISSION_CREATED':
       return { ...state, activeMissions: [...state.activeMissions, action.payload] };
 
@@ -166,6 +172,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
           dispatch({ type: 'CHAT_MESSAGE', payload: message.payload as ChatMessage });
           break;
 
+        case 'chatMemoryUpdate':
+          dispatch({ type: 'CHAT_MEMORY_UPDATE', payload: message.payload as ChatMemory });
+          break;
+
         case 'missionCreated':
           dispatch({ type: 'MISSION_CREATED', payload: message.payload as Mission });
           break;
@@ -255,6 +265,11 @@ export function useChatMessages() {
   return state.chatMessages;
 }
 
+export function useChatMemory() {
+  const { state } = useApp();
+  return state.chatMemory;
+}
+
 export function useMissions() {
   const { state } = useApp();
   return state.activeMissions;
@@ -3,7 +3,7 @@
  * Provides access to the VS Code webview API
  */
 
-import { VSCodeAPI } from '../types';
+import { VSCodeAPI, ChatSummary } from '../types';
 
 // Acquire VS Code API (only once)
 declare function acquireVsCodeApi(): VSCodeAPI;
@@ -40,6 +40,8 @@ export const actions = {
   // Chat actions
   sendMessage: (content: string) => postMessage('sendMessage', { content }),
   sendCommand: (command: string) => postMessage('sendCommand', { command }),
+  clearChat: () => postMessage('clearChat'),
+  updateChatSummary: (summary: ChatSummary) => postMessage('updateChatSummary', { summary }),
 
   // Approval actions
   approveChange: (approvalId: string) => postMessage('approveChange', { approvalId }),
@@ -21,6 +21,25 @@ export interface ChatMessage {
   };
 }
 
+// Summary of compressed chat turns, editable by the user
+export interface ChatSummary {
+  currentFocus: string;
+  earlierRequests: string;
+  decisions: string[];
+  facts: string[];
+  actions: string[];
+  pending: string[];
+}
+
+// Conversation memory of the chat session
+export interface ChatMemory {
+  summary: ChatSummary | null;
+  messages: number;
+  compressedMessages: number;
+  historyTokens: number;
+  historyBudget: number;
+}
+
 // Agent node in hierarchy
 export interface AgentNode {
   id: string;
@@ -214,6 +233,7 @@ export interface HierarchyStatus {
 export interface AppState {
   activeMissions: Mission[];
   chatMessages: ChatMessage[];
+  chatMemory: ChatMemory | null;
   activities: Activity[];
   agents: AgentNode | null;
   quota: QuotaState | null;